@@ -31,6 +31,9 @@ LOG_LEVEL="${VITE_LOG_LEVEL:-WARN}"
 LOG_CONSOLE="${VITE_LOG_CONSOLE:-false}"
 LOG_STORAGE="${VITE_LOG_STORAGE:-true}"
 LOG_MAX_ENTRIES="${VITE_LOG_MAX_ENTRIES:-1000}"
+LOG_SHIPPING_URL="${VITE_LOG_SHIPPING_URL:-}"
+REALTIME_STREAM_URL="${VITE_REALTIME_STREAM_URL:-}"
+AUTH_REFRESH_ENABLED="${VITE_AUTH_REFRESH_ENABLED:-false}"
 
 # HTTP Config
 HTTP_TIMEOUT="${VITE_HTTP_TIMEOUT:-30000}"
@@ -77,6 +80,9 @@ window.__RUNTIME_CONFIG__ = {
   logConsole: ${LOG_CONSOLE},
   logStorage: ${LOG_STORAGE},
   logMaxEntries: ${LOG_MAX_ENTRIES},
+  logShippingUrl: '${LOG_SHIPPING_URL}',
+  realtimeStreamUrl: '${REALTIME_STREAM_URL}',
+  authRefreshEnabled: ${AUTH_REFRESH_ENABLED},
 
   // HTTP Config
   httpTimeout: ${HTTP_TIMEOUT},
@@ -53,11 +53,19 @@ import { RouteLoadingFallback, TopLoadingBar, RouteTransitionOverlay, type TopLo
 
 // Componente de protección de rutas
 import { PrivateRoute } from './components/shared/guards';
+import { ErrorBoundary, RouteErrorBoundary } from './components/shared/components/error-boundary';
 
 // Helpers optimizados
 import { RoutePreloader } from './helper/route-preloader';
 import { CacheHelper } from './helper/cache/cache.helper';
+import { HttpHelper } from './helper/http/http.helper';
+import { installOfflineQueue, uninstallOfflineQueue } from './helper/http/offline-queue.helper';
+import { configureSessionManager } from './helper/session/session-manager.helper';
+import { initTabSync, destroyTabSync } from './helper/tab-sync/tab-sync.helper';
+import { getAuthToken, refreshAuthToken, adoptAuthToken, logout } from './components/public/auth/services/login.service';
 import { logInfo } from './helper/log/logger.helper';
+import { AUTH_REFRESH_ENABLED } from './config/env.config';
+import { installRemoteLogTransport, uninstallRemoteLogTransport } from './helper/log/remote-log-transport.helper';
 
 // Hooks compartidos
 import { useRouteTransition } from './components/shared/hooks';
@@ -89,6 +97,12 @@ function AppRoutes({ loadingBarRef }: { loadingBarRef: React.RefObject<TopLoadin
 
   // Inicializar helpers al montar
   useEffect(() => {
+    // Envío remoto de logs (no-op sin LOG_SHIPPING_URL); primero para capturar errores de arranque
+    installRemoteLogTransport();
+
+    // Canal entre pestañas (logout, renovación de token, invalidaciones) y pestaña líder
+    initTabSync();
+
     // Configurar CacheHelper con Two-Level Cache optimizado
     CacheHelper.initialize({
       // L2 Cache (Storage)
@@ -111,6 +125,19 @@ function AppRoutes({ loadingBarRef }: { loadingBarRef: React.RefObject<TopLoadin
       enableCaching: true
     });
 
+    // Conectar outbox offline para mutaciones marcadas como queueable
+    installOfflineQueue(HttpHelper.getInstance());
+
+    // Handlers de autenticación para la renovación silenciosa de sesión
+    configureSessionManager({
+      getToken: getAuthToken,
+      refreshToken: refreshAuthToken,
+      adoptToken: adoptAuthToken,
+      logout
+    }, {
+      refreshEnabled: AUTH_REFRESH_ENABLED
+    });
+
     logInfo('IPHApp', 'Aplicación inicializada con Two-Level Cache v2.2.0 + optimizaciones v3.0', {
       l1CacheEnabled: true,
       l1MaxItems: 150,
@@ -138,7 +165,16 @@ function AppRoutes({ loadingBarRef }: { loadingBarRef: React.RefObject<TopLoadin
       // Destruir CacheHelper (limpia L1, L2, detiene timers)
       CacheHelper.destroy();
 
+      // Desconectar outbox offline (la bandeja persistida se conserva)
+      uninstallOfflineQueue();
+
+      // Cerrar canal entre pestañas (cede el liderazgo a otra pestaña)
+      destroyTabSync();
+
       logInfo('IPHApp', 'Recursos liberados correctamente');
+
+      // Último: los lotes pendientes quedan persistidos para la próxima carga
+      uninstallRemoteLogTransport();
     };
   }, [routes]);
 
@@ -166,9 +202,11 @@ function AppRoutes({ loadingBarRef }: { loadingBarRef: React.RefObject<TopLoadin
               path={route.path}
               element={
                 <PrivateRoute requiredRoles={route.requiredRoles}>
-                  <Suspense fallback={<RouteLoadingFallback />}>
-                    <RouteComponent />
-                  </Suspense>
+                  <RouteErrorBoundary routeId={route.id}>
+                    <Suspense fallback={<RouteLoadingFallback />}>
+                      <RouteComponent />
+                    </Suspense>
+                  </RouteErrorBoundary>
                 </PrivateRoute>
               }
             />
@@ -202,8 +240,10 @@ function IPHApp() {
           showShadow={true}
         />
 
-        {/* Rutas con precarga y optimizaciones */}
-        <AppRoutes loadingBarRef={loadingBarRef} />
+        {/* Rutas con precarga y optimizaciones (boundary global como última defensa) */}
+        <ErrorBoundary scope="app">
+          <AppRoutes loadingBarRef={loadingBarRef} />
+        </ErrorBoundary>
 
         {/* Sistema de notificaciones global */}
         <NotificationContainer position="top-right" />
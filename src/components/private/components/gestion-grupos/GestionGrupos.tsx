@@ -5,6 +5,7 @@
  */
 
 import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Shield,
   Plus,
@@ -187,6 +188,29 @@ const GestionGrupos: React.FC = () => {
     });
   };
 
+  // Enlace directo a los usuarios de un grupo (?grupoId=), p.ej. desde la paleta de comandos
+  const [searchParams, setSearchParams] = useSearchParams();
+  const grupoIdParam = searchParams.get('grupoId');
+
+  React.useEffect(() => {
+    if (!grupoIdParam || gruposFiltrados.length === 0) return;
+
+    const grupo = gruposFiltrados.find(item => String(item.id) === grupoIdParam);
+    if (grupo) {
+      setVistaUsuarios({
+        mostrar: true,
+        grupoId: grupo.id,
+        grupoNombre: grupo.nombreGrupo,
+      });
+    }
+
+    setSearchParams(prevParams => {
+      const nextParams = new URLSearchParams(prevParams);
+      nextParams.delete('grupoId');
+      return nextParams;
+    }, { replace: true });
+  }, [grupoIdParam, gruposFiltrados, setSearchParams]);
+
   const handleConfirmDelete = async () => {
     if (deleteDialog.grupoId) {
       await handleDeleteGrupo(deleteDialog.grupoId);
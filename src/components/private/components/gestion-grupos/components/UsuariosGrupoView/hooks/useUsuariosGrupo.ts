@@ -21,6 +21,7 @@ import { eliminarUsuarioDeGrupo } from '../../../services/eliminar-usuario-grupo
 //+ Helpers
 import { logInfo, logError } from '../../../../../../../helper/log/logger.helper';
 import { showError, showSuccess } from '../../../../../../../helper/notification/notification.helper';
+import { isQueuedHttpError } from '../../../../../../../helper/http/offline-queue.helper';
 
 // =====================================================
 // UTILIDADES INTERNAS
@@ -231,6 +232,11 @@ export const useUsuariosGrupo = ({
         grupoUuid
       });
     } catch (err) {
+      // Sin conexión: la asignación quedó en la bandeja offline, que ya notificó al usuario
+      if (isQueuedHttpError(err)) {
+        return;
+      }
+
       const errorMessage = parseBackendError(err, 'Error al agregar usuario al grupo');
 
       logError('useUsuariosGrupo', err, `Error al agregar usuario ${usuario.id} al grupo ${grupoUuid}`);
@@ -37,6 +37,7 @@ import {
 import { logInfo, logError } from '../../../../../helper/log/logger.helper';
 import { showSuccess, showError } from '../../../../../helper/notification/notification.helper';
 import { getUserRoles } from '../../../../../helper/role/role.helper';
+import { isQueuedHttpError } from '../../../../../helper/http/offline-queue.helper';
 
 //+ Control de roles
 import { canAccessAdmin, canAccessSuperior } from '../../../../../config/permissions.config';
@@ -266,6 +267,11 @@ export const useUsuarioGrupo = (): UseUsuarioGrupoReturn => {
         showError('Error al asignar el usuario al grupo');
       }
     } catch (error) {
+      // Sin conexión: la asignación quedó en la bandeja offline, que ya notificó al usuario
+      if (isQueuedHttpError(error)) {
+        return;
+      }
+
       logError('useUsuarioGrupo', error, 'Error al asignar usuario');
       showError(error instanceof Error ? error.message : 'Error al asignar el usuario al grupo');
     } finally {
@@ -219,7 +219,10 @@ export const asignarUsuarioAGrupo = async (request: IAsignarUsuarioGrupoRequest)
 
     logDebug('usuario-grupo.service', 'Realizando petición POST a', { url, payload });
 
-    const response = await http.post<IGrupoUsuarioCreado>(url, payload);
+    const response = await http.post<IGrupoUsuarioCreado>(url, payload, {
+      queueable: true,
+      queueLabel: 'Asignación de usuario a grupo'
+    });
     const result: IGrupoUsuarioCreado = response.data;
 
     logInfo('usuario-grupo.service', 'Usuario asignado al grupo exitosamente desde API', {
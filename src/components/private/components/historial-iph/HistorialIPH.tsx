@@ -14,6 +14,10 @@
  * - Diseño responsivo
  * - Filtros avanzados optimizados
  * - Paginación completa optimizada
+ * - Exportación a CSV/XLSX de todos los resultados filtrados (Superior y superiores)
+ * - Acciones masivas sobre la selección o todo el filtro: estatus, exportación y PDF
+ * - Filtros en la URL (enlaces compartibles) y filtros guardados por usuario
+ * - Columna de completitud por IPH (Superior y superiores)
  * - React.memo y callbacks optimizados
  * - Prevención de re-renders innecesarios
  *
@@ -24,26 +28,57 @@
  * - Elemento: Acceso completo
  */
 
-import React, { useEffect, useCallback, useMemo } from 'react';
-import { FileText, RefreshCw, Shield } from 'lucide-react';
+import React, { useEffect, useCallback, useMemo, useState } from 'react';
+import { AlertTriangle, CopyCheck, Download, FileText, RefreshCw, Shield, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 
 // Hook personalizado
 import useHistorialIPH from './hooks/useHistorialIPH';
+import useBulkIphActions from './hooks/useBulkIphActions';
+import useIphCompleteness from './hooks/useIphCompleteness';
 
 // Componentes atómicos
 import FiltrosHistorial from './components/FiltrosHistorial';
 import HistorialTable from './table/HistorialTable';
 import DetalleIPH from './components/DetalleIPH';
+import ExportHistorialModal from './components/ExportHistorialModal';
 import { Breadcrumbs, type BreadcrumbItem } from '../../../shared/components/breadcrumbs';
+import {
+  BulkActionsBar,
+  BulkEstatusDialog,
+  BulkResultsModal,
+  useBulkSelection
+} from '../../../shared/components/bulk-actions';
+import { FilterPresetChips } from '../../../shared/components/filter-presets';
 
 // Componente compartido de paginación
 import Pagination from '../../../shared/components/pagination';
 
 // Helpers
 import { logInfo } from '../../../../helper/log/logger.helper';
+import { getUserRoles } from '../../../../helper/role/role.helper';
+import { canAccessSuperior } from '../../../../config/permissions.config';
+import type { ExportFormat } from '../../../../helper/export/export.helper';
+import { convertRegistroToResHistoryData } from '../../../../utils/historial-iph';
+import { buildIphCompareLink } from '../../../../utils/iph-oficial';
+
+// Services
+import {
+  buildHistorialExportFile,
+  exportHistorialIPH,
+  HISTORIAL_EXPORT_COLUMNS,
+  parseIdsFilter
+} from './services/export-historial-iph.service';
+import { fetchAllHistorialTargets } from './services/bulk-iph.service';
 
 // Interfaces
-import type { HistorialIPHProps } from '../../../../interfaces/components/historialIph.interface';
+import type {
+  FiltrosHistorial as FiltrosHistorialState,
+  HistorialBulkTarget,
+  HistorialIPHProps
+} from '../../../../interfaces/components/historialIph.interface';
+
+const ALL_EXPORT_COLUMNS = HISTORIAL_EXPORT_COLUMNS.map(column => column.key);
 
 /**
  * Componente principal de HistorialIPH - SUPER OPTIMIZADO
@@ -71,6 +106,8 @@ const HistorialIPH: React.FC<HistorialIPHProps> = ({
     paginacion,
     registroSeleccionado,
     estatusOptions,
+    recentIphIds,
+    listadoIdsTruncado,
     setFiltros,
     clearAllFilters,
     setCurrentPage,
@@ -86,6 +123,72 @@ const HistorialIPH: React.FC<HistorialIPHProps> = ({
     itemsPerPage
   });
 
+  // IPH específicos recibidos por enlace (p.ej. una celda de la matriz horaria)
+  const idsFiltrados = useMemo(() => parseIdsFilter(filtros.ids)?.size ?? 0, [filtros.ids]);
+
+  // Exportación masiva: solo Superior o superior jerárquico
+  const canExport = useMemo(() => canAccessSuperior(getUserRoles()), []);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const closeExport = useCallback(() => setIsExportOpen(false), []);
+
+  // Completitud de los IPH de la página (descarga cada IPH completo: Superior o superior)
+  const pageIds = useMemo(() => registros.map(registro => registro.id), [registros]);
+  const completeness = useIphCompleteness(pageIds, canExport);
+
+  // Selección múltiple (se reinicia al cambiar los filtros)
+  const pageTargets = useMemo<HistorialBulkTarget[]>(() => registros.map(registro => ({
+    id: registro.id,
+    referencia: registro.numeroReferencia,
+    estatus: registro.estatus,
+    registro
+  })), [registros]);
+
+  const selection = useBulkSelection(pageTargets, paginacion.total, JSON.stringify(filtros));
+  const { selectedItems, allMatching, toggle: toggleSelection } = selection;
+  const [isBulkEstatusOpen, setIsBulkEstatusOpen] = useState(false);
+  const navigate = useNavigate();
+
+  const handleCompareSelection = useCallback(() => {
+    navigate(buildIphCompareLink(selectedItems.map(item => item.id)));
+  }, [navigate, selectedItems]);
+
+  const resolveBulkTargets = useCallback((signal: AbortSignal) => (
+    allMatching
+      ? fetchAllHistorialTargets(filtros, signal)
+      : Promise.resolve(selectedItems)
+  ), [allMatching, filtros, selectedItems]);
+
+  const exportBulkSelection = useCallback(async (format: ExportFormat, signal: AbortSignal) => (
+    allMatching
+      ? exportHistorialIPH({ filtros, columns: ALL_EXPORT_COLUMNS, format, signal })
+      : buildHistorialExportFile(
+          selectedItems.map(target => convertRegistroToResHistoryData(target.registro)),
+          ALL_EXPORT_COLUMNS,
+          format
+        )
+  ), [allMatching, filtros, selectedItems]);
+
+  const bulkActions = useBulkIphActions({
+    resolveTargets: resolveBulkTargets,
+    exportSelection: exportBulkSelection,
+    onDataChanged: refetchData
+  });
+
+  const handleToggleSelect = useCallback((registro: HistorialBulkTarget['registro']) => {
+    const target = pageTargets.find(item => item.id === registro.id);
+    if (target) toggleSelection(target);
+  }, [pageTargets, toggleSelection]);
+
+  const handleBulkEstatusConfirm = useCallback((nuevoEstatus: string, comentario?: string) => {
+    setIsBulkEstatusOpen(false);
+    void bulkActions.runStatusChange(nuevoEstatus, comentario);
+  }, [bulkActions]);
+
+  // Un preset reemplaza todos los filtros (incluido el campo de búsqueda)
+  const handleApplyPreset = useCallback((presetFiltros: FiltrosHistorialState) => {
+    setFiltros({ busquedaPor: undefined, ...presetFiltros });
+  }, [setFiltros]);
+
   // Optimizar handleRefresh con useCallback
   const handleRefresh = useCallback(async () => {
     logInfo('HistorialIPH', 'Recarga manual solicitada por usuario');
@@ -93,9 +196,9 @@ const HistorialIPH: React.FC<HistorialIPHProps> = ({
   }, [refetchData]);
 
   // Optimizar handler de editar estatus para modal
-  const handleEditarEstatusModal = useCallback((nuevoEstatus: string) => {
+  const handleEditarEstatusModal = useCallback(async (nuevoEstatus: string, comentario?: string) => {
     if (registroSeleccionado) {
-      editarEstatus(registroSeleccionado.id, nuevoEstatus);
+      await editarEstatus(registroSeleccionado.id, nuevoEstatus, comentario);
     }
   }, [registroSeleccionado, editarEstatus]);
 
@@ -197,29 +300,67 @@ const HistorialIPH: React.FC<HistorialIPHProps> = ({
                 </div>
               </div>
 
-              {/* Botón de actualización mejorado */}
-              <button
-                onClick={handleRefresh}
-                disabled={loading}
-                className="
-                  flex items-center gap-2 px-5 py-2.5 text-sm font-semibold
-                  text-white bg-gradient-to-r from-[#4d4725] to-[#3a3519] rounded-lg
-                  hover:from-[#3a3519] hover:to-[#2d2812] hover:scale-[1.02] active:scale-[0.98]
-                  disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100
-                  transition-all duration-200 font-poppins shadow-md hover:shadow-lg
-                  cursor-pointer
-                "
-                aria-label="Actualizar datos del historial"
-              >
-                <RefreshCw
-                  size={18}
-                  className={loading ? 'animate-spin' : ''}
-                  aria-hidden="true"
-                />
-                <span className="hidden sm:inline">
-                  {loading ? 'Actualizando...' : 'Actualizar'}
-                </span>
-              </button>
+              <div className="flex items-center gap-3">
+                {canExport && (
+                  <button
+                    onClick={() => setIsExportOpen(true)}
+                    disabled={loading || !hasData}
+                    className="
+                      flex items-center gap-2 px-5 py-2.5 text-sm font-semibold
+                      text-[#4d4725] bg-white border border-[#c2b186] rounded-lg
+                      hover:bg-[#f8f0e7] hover:scale-[1.02] active:scale-[0.98]
+                      disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100
+                      transition-all duration-200 font-poppins shadow-sm hover:shadow-md
+                      cursor-pointer
+                    "
+                    aria-label="Exportar historial a CSV o Excel"
+                  >
+                    <Download size={18} aria-hidden="true" />
+                    <span className="hidden sm:inline">Exportar</span>
+                  </button>
+                )}
+
+                {canExport && (
+                  <button
+                    onClick={() => navigate('/iphduplicados')}
+                    className="
+                      flex items-center gap-2 px-5 py-2.5 text-sm font-semibold
+                      text-[#4d4725] bg-white border border-[#c2b186] rounded-lg
+                      hover:bg-[#f8f0e7] hover:scale-[1.02] active:scale-[0.98]
+                      transition-all duration-200 font-poppins shadow-sm hover:shadow-md
+                      cursor-pointer
+                    "
+                    aria-label="Revisar posibles IPH duplicados"
+                  >
+                    <CopyCheck size={18} aria-hidden="true" />
+                    <span className="hidden sm:inline">Posibles duplicados</span>
+                  </button>
+                )}
+
+                {/* Botón de actualización mejorado */}
+                <button
+                  onClick={handleRefresh}
+                  disabled={loading}
+                  className="
+                    flex items-center gap-2 px-5 py-2.5 text-sm font-semibold
+                    text-white bg-gradient-to-r from-[#4d4725] to-[#3a3519] rounded-lg
+                    hover:from-[#3a3519] hover:to-[#2d2812] hover:scale-[1.02] active:scale-[0.98]
+                    disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100
+                    transition-all duration-200 font-poppins shadow-md hover:shadow-lg
+                    cursor-pointer
+                  "
+                  aria-label="Actualizar datos del historial"
+                >
+                  <RefreshCw
+                    size={18}
+                    className={loading ? 'animate-spin' : ''}
+                    aria-hidden="true"
+                  />
+                  <span className="hidden sm:inline">
+                    {loading ? 'Actualizando...' : 'Actualizar'}
+                  </span>
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -241,6 +382,35 @@ const HistorialIPH: React.FC<HistorialIPHProps> = ({
                 </p>
               </div>
             </div>
+            <FilterPresetChips
+              scope="historial-iph"
+              currentFilters={filtros}
+              onApply={handleApplyPreset}
+              disabled={loading}
+              className="mb-4"
+            />
+            {idsFiltrados > 0 && (
+              <div className="flex items-center justify-between gap-3 mb-4 px-4 py-2 rounded-lg bg-[#f8f0e7] border border-[#c2b186]/50 text-sm text-[#4d4725] font-poppins">
+                <span>Mostrando solo {idsFiltrados} IPH seleccionados por enlace, dentro de los filtros actuales</span>
+                <button
+                  type="button"
+                  onClick={() => setFiltros({ ids: undefined })}
+                  className="flex items-center gap-1 font-semibold text-[#948b54] hover:text-[#4d4725] cursor-pointer"
+                >
+                  <X className="h-4 w-4" />
+                  Ver todos
+                </button>
+              </div>
+            )}
+            {idsFiltrados > 0 && listadoIdsTruncado && (
+              <div className="flex items-start gap-2 mb-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3 text-sm font-poppins">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <p>
+                  Los filtros exceden el límite de consulta y no se encontraron todos los IPH del enlace.
+                  Reduzca el rango de fechas para verlos todos.
+                </p>
+              </div>
+            )}
             <FiltrosHistorial
               filtros={filtros}
               onFiltrosChange={setFiltros}
@@ -280,12 +450,35 @@ const HistorialIPH: React.FC<HistorialIPHProps> = ({
               </div>
             ) : showMainContent ? (
               <>
+                {/* Acciones masivas */}
+                {bulkActions.canUseBulkActions && (
+                  <BulkActionsBar
+                    selectedCount={selection.selectedCount}
+                    pageSelectionState={selection.pageSelectionState}
+                    allMatching={allMatching}
+                    totalMatching={paginacion.total}
+                    disabled={loading || bulkActions.isRunning}
+                    onTogglePage={selection.togglePage}
+                    onSelectAllMatching={selection.selectAllMatching}
+                    onClear={selection.clear}
+                    onChangeStatus={() => setIsBulkEstatusOpen(true)}
+                    onExport={bulkActions.runExport}
+                    onGeneratePdf={bulkActions.runPdfGeneration}
+                    onCompare={handleCompareSelection}
+                    className="mb-4"
+                  />
+                )}
+
                 {/* Tabla de registros */}
                 <HistorialTable
                   registros={registros}
                   loading={loading}
                   onVerDetalle={verDetalle}
                   onEditarEstatus={editarEstatus}
+                  highlightedIds={recentIphIds}
+                  isSelected={bulkActions.canUseBulkActions ? selection.isSelected : undefined}
+                  onToggleSelect={bulkActions.canUseBulkActions ? handleToggleSelect : undefined}
+                  completeness={canExport ? completeness : undefined}
                   className="relative"
                 />
               </>
@@ -335,6 +528,34 @@ const HistorialIPH: React.FC<HistorialIPHProps> = ({
             onEditarEstatus={handleEditarEstatusModal}
           />
         )}
+
+        {/* Modal de exportación */}
+        {canExport && (
+          <ExportHistorialModal
+            isOpen={isExportOpen}
+            onClose={closeExport}
+            filtros={filtros}
+            totalRegistros={paginacion.total}
+          />
+        )}
+
+        {/* Acciones masivas: estatus y reporte de resultados */}
+        {isBulkEstatusOpen && (
+          <BulkEstatusDialog
+            selectedCount={selection.selectedCount}
+            onConfirm={handleBulkEstatusConfirm}
+            onCancel={() => setIsBulkEstatusOpen(false)}
+          />
+        )}
+
+        {bulkActions.report && (
+          <BulkResultsModal
+            report={bulkActions.report}
+            onCancel={bulkActions.cancel}
+            onRetryFailed={bulkActions.retryFailed}
+            onClose={bulkActions.closeReport}
+          />
+        )}
       </div>
     </div>
   );
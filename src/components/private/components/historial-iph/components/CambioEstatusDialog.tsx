@@ -0,0 +1,153 @@
+/**
+ * Componente CambioEstatusDialog
+ * Confirmación de un cambio de estatus del flujo de trabajo del IPH.
+ * El comentario es obligatorio en rechazos y reaperturas (ver STATUS_TRANSITIONS).
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ArrowRight, Loader2 } from 'lucide-react';
+
+// Config
+import {
+  getStatusConfig,
+  validateStatusTransition,
+  MIN_TRANSITION_COMMENT_LENGTH
+} from '../../../../../config/status.config';
+
+// Helpers
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+
+// Interfaces
+import type { CambioEstatusDialogProps } from '../../../../../interfaces/components/historialIph.interface';
+
+const StatusBadge: React.FC<{ estatus: string }> = ({ estatus }) => {
+  const config = getStatusConfig(estatus);
+  return (
+    <span
+      className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold"
+      style={{ backgroundColor: config.bgColor, color: config.color }}
+    >
+      {config.label}
+    </span>
+  );
+};
+
+const CambioEstatusDialog: React.FC<CambioEstatusDialogProps> = ({
+  registro,
+  transition,
+  onConfirm,
+  onCancel
+}) => {
+  const [comentario, setComentario] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [touched, setTouched] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape' && !submitting) onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel, submitting]);
+
+  const validation = validateStatusTransition(registro.estatus, transition.to, getUserRoles(), comentario);
+  const showValidationError = touched && !validation.valid;
+
+  const handleConfirm = async (): Promise<void> => {
+    setTouched(true);
+    if (!validation.valid) return;
+
+    setSubmitting(true);
+    try {
+      await onConfirm(comentario.trim() || undefined);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const content = (
+    <div className="fixed inset-0 z-[60] overflow-y-auto font-poppins">
+      <div className="fixed inset-0 bg-black/50" onClick={submitting ? undefined : onCancel} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="cambio-estatus-title"
+          className="relative bg-white rounded-xl shadow-xl w-full max-w-md"
+        >
+          <div className="p-6 border-b border-gray-200">
+            <h3 id="cambio-estatus-title" className="text-lg font-semibold text-gray-900">
+              {transition.actionLabel}
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">IPH #{registro.numeroReferencia}</p>
+            <div className="flex items-center gap-2 mt-4">
+              <StatusBadge estatus={registro.estatus} />
+              <ArrowRight size={16} className="text-gray-400" aria-hidden="true" />
+              <StatusBadge estatus={transition.to} />
+            </div>
+          </div>
+
+          <div className="p-6">
+            <label htmlFor="cambio-estatus-comentario" className="block text-sm font-medium text-[#4d4725] mb-2">
+              Comentario {transition.requiresComment ? '(obligatorio)' : '(opcional)'}
+            </label>
+            <textarea
+              id="cambio-estatus-comentario"
+              ref={textareaRef}
+              value={comentario}
+              onChange={event => setComentario(event.target.value)}
+              onBlur={() => setTouched(true)}
+              rows={4}
+              maxLength={500}
+              disabled={submitting}
+              placeholder={transition.requiresComment
+                ? `Explica el motivo (mínimo ${MIN_TRANSITION_COMMENT_LENGTH} caracteres)`
+                : 'Agrega una nota para la bitácora'}
+              className={`w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4d4725] ${
+                showValidationError ? 'border-red-400' : 'border-gray-300'
+              }`}
+              aria-invalid={showValidationError}
+              aria-describedby={showValidationError ? 'cambio-estatus-error' : undefined}
+            />
+            {showValidationError && (
+              <p id="cambio-estatus-error" className="mt-2 text-sm text-red-600">
+                {validation.reason}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-xl">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={submitting}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-[#4d4725] rounded-lg hover:bg-[#3a3519] focus:outline-none focus:ring-2 focus:ring-[#4d4725] focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+            >
+              {submitting && <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />}
+              {submitting ? 'Guardando...' : 'Confirmar'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default CambioEstatusDialog;
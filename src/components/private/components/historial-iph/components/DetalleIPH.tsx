@@ -12,6 +12,8 @@
  * - Sistema de tabs para organizar información
  * - Construcción automática de URLs de evidencias
  * - Estados de carga y manejo de errores
+ * - Acciones de estatus según el flujo de trabajo (STATUS_TRANSITIONS) y bitácora de cambios
+ * - Aviso de posibles IPH duplicados
  *
  * @version 2.1.0 - Optimización de logging
  * @since 2024-01-30
@@ -33,14 +35,24 @@ import {
   Loader2,
   ChevronLeft,
   ChevronRight,
-  ZoomIn
+  ZoomIn,
+  History
 } from 'lucide-react';
 
 // Interfaces
 import type { DetalleIPHProps } from '../../../../../interfaces/components/historialIph.interface';
 
+// Componentes
+import CambioEstatusDialog from './CambioEstatusDialog';
+import EstatusTimeline from './EstatusTimeline';
+import { DuplicateWarning } from '../../../../shared/components/duplicate-warning';
+
 // Config
-import { getStatusConfig } from '../../../../../config/status.config';
+import {
+  getStatusConfig,
+  getAllowedTransitions,
+  type StatusTransition
+} from '../../../../../config/status.config';
 import { API_BASE_URL } from '../../../../../config/env.config';
 
 // Hooks
@@ -49,6 +61,9 @@ import { useDetalleIPH } from '../hooks/useDetalleIPH';
 // Helpers
 import { logInfo, logDebug, logError } from '../../../../../helper/log/logger.helper';
 import { logWarning } from '../../../../../helper/log/logger.helper';
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+
+type DetalleTab = 'general' | 'evidencias' | 'bitacora';
 
 /**
  * Componente de detalle de IPH integrado con servicio real
@@ -59,9 +74,11 @@ import { logWarning } from '../../../../../helper/log/logger.helper';
 const DetalleIPH: React.FC<DetalleIPHProps> = ({
   registro,
   onClose,
+  onEditarEstatus,
   className = ''
 }) => {
-  const [selectedTab, setSelectedTab] = useState<'general' | 'evidencias'>('general');
+  const [selectedTab, setSelectedTab] = useState<DetalleTab>('general');
+  const [pendingTransition, setPendingTransition] = useState<StatusTransition | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number>(0);
 
@@ -313,7 +330,18 @@ const DetalleIPH: React.FC<DetalleIPHProps> = ({
   const { formattedDate, formattedTime } = formatDateTime(displayData.fechaCreacion);
 
   // Obtener configuración de estatus
-  const estatusInfo = getStatusConfig(displayData.estatus);
+  // El registro de la lista se actualiza tras cada cambio; los datos del servicio no se recargan
+  const estatusActual = registro.estatus || displayData.estatus;
+  const estatusInfo = getStatusConfig(estatusActual);
+
+  // Acciones de estatus disponibles para el rol del usuario
+  const transiciones = onEditarEstatus ? getAllowedTransitions(estatusActual, getUserRoles()) : [];
+
+  const handleConfirmTransition = async (comentario?: string): Promise<void> => {
+    if (!pendingTransition || !onEditarEstatus) return;
+    await onEditarEstatus(pendingTransition.to, comentario);
+    setPendingTransition(null);
+  };
 
   // Obtener nombre completo del primer respondiente
   const nombrePrimerRespondiente = displayData.primerRespondiente
@@ -335,13 +363,14 @@ const DetalleIPH: React.FC<DetalleIPHProps> = ({
       id: 'evidencias' as const,
       label: `Evidencias (${displayData.evidencias.length})`,
       icon: Camera
-    }] : [])
+    }] : []),
+    { id: 'bitacora' as const, label: 'Bitácora de estatus', icon: History }
   ];
 
   /**
    * Handler para cambio de tab con logging
    */
-  const handleTabChange = useCallback((tabId: 'general' | 'evidencias') => {
+  const handleTabChange = useCallback((tabId: DetalleTab) => {
     const tabAnterior = selectedTab;
     setSelectedTab(tabId);
 
@@ -442,6 +471,9 @@ const DetalleIPH: React.FC<DetalleIPHProps> = ({
         <div className="flex-1 overflow-y-auto p-6">
           {selectedTab === 'general' && (
             <div className="space-y-6">
+              {/* Posibles duplicados (Superior o superior) */}
+              <DuplicateWarning iphId={registro.id} />
+
               {/* Información básica */}
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
@@ -640,6 +672,10 @@ const DetalleIPH: React.FC<DetalleIPHProps> = ({
               )}
             </div>
           )}
+
+          {selectedTab === 'bitacora' && (
+            <EstatusTimeline registro={registro} />
+          )}
         </div>
 
         {/* Footer */}
@@ -670,6 +706,20 @@ const DetalleIPH: React.FC<DetalleIPHProps> = ({
             </div>
 
             <div className="flex items-center gap-2">
+              {transiciones.map(transition => (
+                <button
+                  key={transition.to}
+                  onClick={() => setPendingTransition(transition)}
+                  className={`
+                    px-4 py-2 rounded-md transition-colors cursor-pointer
+                    ${transition.requiresComment
+                      ? 'border border-red-300 text-red-700 bg-white hover:bg-red-50'
+                      : 'text-white bg-[#4d4725] hover:bg-[#3a3519]'}
+                  `}
+                >
+                  {transition.actionLabel}
+                </button>
+              ))}
               <button
                 onClick={onClose}
                 className="
@@ -685,6 +735,16 @@ const DetalleIPH: React.FC<DetalleIPHProps> = ({
         </div>
       </div>
 
+      {/* Confirmación de cambio de estatus */}
+      {pendingTransition && (
+        <CambioEstatusDialog
+          registro={{ id: registro.id, numeroReferencia: registro.numeroReferencia, estatus: estatusActual }}
+          transition={pendingTransition}
+          onConfirm={handleConfirmTransition}
+          onCancel={() => setPendingTransition(null)}
+        />
+      )}
+
       {/* Modal de visualización de imagen */}
       {selectedImage && (
         <div
@@ -0,0 +1,78 @@
+/**
+ * Componente EstatusTimeline
+ * Línea de tiempo de estatus de un IPH con los datos del listado: alta (quién y cuándo)
+ * y estatus actual. El backend no expone el historial de cambios por IPH.
+ */
+
+import React from 'react';
+import { Clock, FilePlus, Info, User } from 'lucide-react';
+
+// Config
+import { getStatusConfig } from '../../../../../config/status.config';
+
+// Interfaces
+import type { EstatusTimelineProps } from '../../../../../interfaces/components/historialIph.interface';
+
+const formatFechaHora = (fecha: Date): string =>
+  Number.isNaN(fecha.getTime())
+    ? 'Fecha no disponible'
+    : fecha.toLocaleString('es-MX', {
+        day: '2-digit',
+        month: 'short',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+
+const EstatusTimeline: React.FC<EstatusTimelineProps> = ({ registro, className = '' }) => {
+  const actual = getStatusConfig(registro.estatus);
+  const fecha = new Date(registro.fechaCreacion);
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <ol className="relative border-l-2 border-[#c2b186]/40 ml-3 space-y-6" aria-label="Bitácora de estatus">
+        <li className="ml-6">
+          <span
+            className="absolute -left-[9px] mt-1.5 h-4 w-4 rounded-full border-2 border-white"
+            style={{ backgroundColor: actual.color }}
+            aria-hidden="true"
+          />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-500">Estatus actual</span>
+            <span className="font-semibold" style={{ color: actual.color }}>{actual.label}</span>
+          </div>
+        </li>
+
+        <li className="ml-6">
+          <span
+            className="absolute -left-[9px] mt-1.5 h-4 w-4 rounded-full border-2 border-white bg-[#948b54]"
+            aria-hidden="true"
+          />
+          <div className="flex items-center gap-2 text-sm font-semibold text-[#4d4725]">
+            <FilePlus size={14} aria-hidden="true" />
+            IPH registrado
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-gray-500">
+            <span className="flex items-center gap-1">
+              <User size={12} aria-hidden="true" />
+              {registro.usuario || 'Usuario no disponible'}
+            </span>
+            <span className="flex items-center gap-1">
+              <Clock size={12} aria-hidden="true" />
+              <time dateTime={Number.isNaN(fecha.getTime()) ? undefined : fecha.toISOString()}>
+                {formatFechaHora(fecha)}
+              </time>
+            </span>
+          </div>
+        </li>
+      </ol>
+
+      <p className="flex items-start gap-1.5 p-2 text-xs text-gray-600 bg-[#fdf7f1] rounded-lg border border-[#c2b186]/20">
+        <Info size={14} className="mt-0.5 flex-shrink-0 text-[#948b54]" aria-hidden="true" />
+        Los cambios de estatus intermedios aún no están disponibles en el sistema.
+      </p>
+    </div>
+  );
+};
+
+export default EstatusTimeline;
@@ -0,0 +1,205 @@
+/**
+ * Modal de exportación del historial de IPH
+ * Permite elegir formato (CSV/XLSX) y columnas, muestra el progreso por página
+ * y cancelar exportaciones largas. Exporta TODOS los registros que coinciden
+ * con los filtros activos, no solo la página visible.
+ */
+
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Download, FileSpreadsheet, Loader2, X } from 'lucide-react';
+
+// Hooks
+import useExportHistorial from '../hooks/useExportHistorial';
+
+// Services
+import { HISTORIAL_EXPORT_COLUMNS } from '../services/export-historial-iph.service';
+
+// Helpers
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from '../../../../../helper/export/export.helper';
+
+// Interfaces
+import type { ExportHistorialModalProps } from '../../../../../interfaces/components/historialIph.interface';
+
+const EXPORT_FORMATS: ExportFormat[] = ['xlsx', 'csv'];
+
+const ExportHistorialModal: React.FC<ExportHistorialModalProps> = ({
+  isOpen,
+  onClose,
+  filtros,
+  totalRegistros
+}) => {
+  const {
+    canExport,
+    format,
+    setFormat,
+    selectedColumns,
+    toggleColumn,
+    isExporting,
+    progress,
+    startExport,
+    cancelExport
+  } = useExportHistorial(filtros, onClose);
+
+  const handleClose = (): void => {
+    if (isExporting) cancelExport();
+    onClose();
+  };
+
+  // Cerrar con Escape (cancela la exportación en curso)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        if (isExporting) cancelExport();
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, isExporting, cancelExport, onClose]);
+
+  if (!isOpen || !canExport) return null;
+
+  const percent = progress
+    ? Math.min(100, Math.round((progress.page / Math.max(progress.totalPages, 1)) * 100))
+    : 0;
+
+  const content = (
+    <div className="fixed inset-0 z-[60] overflow-y-auto font-poppins">
+      <div
+        className="fixed inset-0 bg-black/50"
+        onClick={isExporting ? undefined : handleClose}
+      />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="export-historial-title"
+          className="relative bg-white rounded-xl shadow-xl w-full max-w-lg"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between gap-3 p-6 border-b border-gray-200">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-full bg-[#f8f0e7]">
+                <FileSpreadsheet className="h-6 w-6 text-[#4d4725]" aria-hidden="true" />
+              </div>
+              <div>
+                <h3 id="export-historial-title" className="text-lg font-semibold text-gray-900">
+                  Exportar historial
+                </h3>
+                <p className="text-sm text-gray-500">
+                  {totalRegistros !== undefined
+                    ? `${totalRegistros} registros con los filtros actuales`
+                    : 'Todos los registros con los filtros actuales'}
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={handleClose}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded cursor-pointer"
+              aria-label="Cerrar"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-5">
+            <fieldset disabled={isExporting}>
+              <legend className="text-sm font-semibold text-[#4d4725] mb-2">Formato</legend>
+              <div className="flex flex-wrap gap-3">
+                {EXPORT_FORMATS.map(option => (
+                  <label
+                    key={option}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm cursor-pointer transition-colors ${
+                      format === option
+                        ? 'border-[#4d4725] bg-[#f8f0e7] text-[#4d4725]'
+                        : 'border-gray-300 text-gray-700 hover:border-[#948b54]'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="export-format"
+                      value={option}
+                      checked={format === option}
+                      onChange={() => setFormat(option)}
+                      className="accent-[#4d4725]"
+                    />
+                    {EXPORT_FORMAT_LABELS[option]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset disabled={isExporting}>
+              <legend className="text-sm font-semibold text-[#4d4725] mb-2">Columnas</legend>
+              <div className="grid grid-cols-2 gap-2">
+                {HISTORIAL_EXPORT_COLUMNS.map(column => (
+                  <label key={column.key} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedColumns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="accent-[#4d4725]"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {isExporting && (
+              <div aria-live="polite">
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>
+                    {progress
+                      ? `Página ${progress.page} de ${progress.totalPages}`
+                      : 'Preparando exportación...'}
+                  </span>
+                  {progress && <span>{progress.rows} / {progress.total} registros</span>}
+                </div>
+                <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+                  <div
+                    className="h-full bg-[#4d4725] transition-all duration-300"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-xl">
+            <button
+              type="button"
+              onClick={isExporting ? cancelExport : handleClose}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-1 transition-all duration-200 cursor-pointer"
+            >
+              {isExporting ? 'Cancelar exportación' : 'Cancelar'}
+            </button>
+            <button
+              type="button"
+              onClick={startExport}
+              disabled={isExporting || selectedColumns.length === 0}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-[#4d4725] rounded-lg hover:bg-[#3a3519] focus:outline-none focus:ring-2 focus:ring-[#4d4725] focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+            >
+              {isExporting
+                ? <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+                : <Download className="h-4 w-4" aria-hidden="true" />}
+              {isExporting ? 'Exportando...' : 'Exportar'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default ExportHistorialModal;
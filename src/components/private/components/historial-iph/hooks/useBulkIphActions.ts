@@ -0,0 +1,223 @@
+/**
+ * Hook de acciones masivas sobre IPH
+ *
+ * @fileoverview Ejecuta cambio de estatus, exportación y generación de PDF sobre
+ * la selección múltiple. Mantiene el reporte de progreso/resultados por IPH,
+ * permite cancelar (AbortController) y reintentar solo los fallidos.
+ * Lo comparten el Histórico IPH y la lista de IPH Activos.
+ *
+ * Roles: solo Superior, Administrador y SuperAdmin usan acciones masivas.
+ *
+ * @version 1.0.0
+ * @since 2025-02-01
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+
+// Helpers
+import { logError, logInfo } from '../../../../../helper/log/logger.helper';
+import { showError, showInfo, showSuccess, showWarning } from '../../../../../helper/notification/notification.helper';
+import { downloadBlob, type ExportFormat } from '../../../../../helper/export/export.helper';
+import { isAbortError, summarizeBulkResults, type BulkOperationProgress } from '../../../../../helper/bulk/bulk-operation.helper';
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+import { canAccessSuperior } from '../../../../../config/permissions.config';
+
+// Services
+import {
+  bulkGenerateInformesPdf,
+  bulkUpdateEstatusIPH,
+  BulkCommentRequiredError,
+  BulkOfflineError,
+  BulkTargetsLimitError
+} from '../services/bulk-iph.service';
+
+// Interfaces
+import type {
+  BulkIphResult,
+  BulkIphTarget,
+  BulkOperationReport,
+  UseBulkIphActionsOptions,
+  UseBulkIphActionsReturn
+} from '../../../../../interfaces/components/bulk-actions.interface';
+
+type BulkRunner = (
+  targets: BulkIphTarget[],
+  signal: AbortSignal,
+  onProgress: (progress: BulkOperationProgress) => void
+) => Promise<BulkIphResult[]>;
+
+interface BulkOperationDefinition {
+  title: string;
+  run: BulkRunner;
+  modifiesData: boolean;
+}
+
+const EMPTY_PROGRESS: BulkOperationProgress = { processed: 0, total: 0, succeeded: 0, failed: 0 };
+
+/**
+ * Hook de acciones masivas
+ *
+ * @param options - Resolución de objetivos, exportación y recarga de la lista
+ */
+const useBulkIphActions = ({
+  resolveTargets,
+  exportSelection,
+  onDataChanged
+}: UseBulkIphActionsOptions): UseBulkIphActionsReturn => {
+  const canUseBulkActions = useMemo(() => canAccessSuperior(getUserRoles()), []);
+
+  const [report, setReport] = useState<BulkOperationReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const lastOperationRef = useRef<BulkOperationDefinition | null>(null);
+
+  // Cancelar la operación en curso al desmontar
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  /**
+   * Ejecuta una operación por IPH sobre `targets` (o sobre la selección si no se indican)
+   */
+  const runOperation = useCallback(async (
+    operation: BulkOperationDefinition,
+    targets?: BulkIphTarget[]
+  ): Promise<void> => {
+    if (!canUseBulkActions) {
+      showWarning('No tienes permisos para acciones masivas', 'Acceso restringido');
+      return;
+    }
+    if (abortControllerRef.current) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    lastOperationRef.current = operation;
+    setIsRunning(true);
+    setReport({ title: operation.title, running: true, progress: EMPTY_PROGRESS, results: [] });
+
+    try {
+      const items = targets ?? await resolveTargets(controller.signal);
+      if (items.length === 0) {
+        setReport(null);
+        showInfo('No hay IPH seleccionados', operation.title);
+        return;
+      }
+
+      setReport(prev => prev && { ...prev, progress: { ...EMPTY_PROGRESS, total: items.length } });
+
+      const results = await operation.run(items, controller.signal, progress => {
+        setReport(prev => prev && { ...prev, progress });
+      });
+
+      const summary = summarizeBulkResults(results);
+      setReport(prev => prev && { ...prev, running: false, results });
+
+      if (summary.error > 0) {
+        showWarning(`${summary.success} correctos, ${summary.error} con error`, operation.title);
+      } else if (summary.cancelled > 0) {
+        showInfo(`Operación cancelada: ${summary.success} procesados`, operation.title);
+      } else {
+        showSuccess(`${summary.success} IPH procesados`, operation.title);
+      }
+
+      if (operation.modifiesData && summary.success > 0) onDataChanged?.();
+    } catch (error) {
+      if (isAbortError(error)) {
+        logInfo('useBulkIphActions', 'Operación masiva cancelada antes de iniciar');
+        setReport(null);
+        return;
+      }
+      logError('useBulkIphActions', error, 'Error en operación masiva');
+      setReport(prev => prev && {
+        ...prev,
+        running: false,
+        error: error instanceof BulkCommentRequiredError
+          || error instanceof BulkTargetsLimitError
+          || error instanceof BulkOfflineError
+          ? error.message
+          : 'No se pudieron obtener los IPH seleccionados. Intenta de nuevo.'
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, [canUseBulkActions, resolveTargets, onDataChanged]);
+
+  const runStatusChange = useCallback((nuevoEstatus: string, comentario?: string) => runOperation({
+    title: `Cambio de estatus a "${nuevoEstatus}"`,
+    modifiesData: true,
+    run: (targets, signal, onProgress) => bulkUpdateEstatusIPH(targets, nuevoEstatus, comentario, { signal, onProgress })
+  }), [runOperation]);
+
+  const runPdfGeneration = useCallback(() => runOperation({
+    title: 'PDF de informes ejecutivos',
+    modifiesData: false,
+    run: (targets, signal, onProgress) => bulkGenerateInformesPdf(targets, { signal, onProgress })
+  }), [runOperation]);
+
+  const runExport = useCallback(async (format: ExportFormat): Promise<void> => {
+    if (!canUseBulkActions || abortControllerRef.current) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+
+    try {
+      const result = await exportSelection(format, controller.signal);
+      downloadBlob(result.blob, result.fileName);
+      if (result.truncated) {
+        showWarning(
+          `Se exportaron ${result.rows} de ${result.total ?? result.rows} registros por el límite de la exportación. Acota los filtros para obtener el resto.`,
+          'Exportación incompleta'
+        );
+      } else {
+        showSuccess(`Se exportaron ${result.rows} registros`, 'Exportación completada');
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        showInfo('La exportación fue cancelada', 'Exportar selección');
+      } else {
+        logError('useBulkIphActions', error, 'Error exportando selección');
+        showError('No se pudo exportar la selección. Intenta de nuevo.', 'Error de exportación');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, [canUseBulkActions, exportSelection]);
+
+  const retryFailed = useCallback(async (): Promise<void> => {
+    const operation = lastOperationRef.current;
+    if (!operation || !report) return;
+
+    const failed = report.results
+      .filter(result => result.status === 'error')
+      .map(result => result.item);
+    if (failed.length === 0) return;
+
+    await runOperation(operation, failed);
+  }, [report, runOperation]);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const closeReport = useCallback(() => {
+    setReport(null);
+  }, []);
+
+  return {
+    canUseBulkActions,
+    report,
+    isRunning,
+    runStatusChange,
+    runExport,
+    runPdfGeneration,
+    retryFailed,
+    cancel,
+    closeReport
+  };
+};
+
+export default useBulkIphActions;
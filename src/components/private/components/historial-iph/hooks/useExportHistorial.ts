@@ -0,0 +1,139 @@
+/**
+ * Hook para exportar el historial de IPH a CSV/XLSX
+ *
+ * @fileoverview Maneja formato, columnas seleccionadas, progreso por página y
+ * cancelación (AbortController) de la exportación del historial filtrado.
+ *
+ * Roles: solo Superior, Administrador y SuperAdmin pueden exportar; Elemento
+ * consulta el historial pero no descarga el listado completo.
+ *
+ * @version 1.0.0
+ * @since 2025-02-01
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+
+// Helpers
+import { logError, logInfo } from '../../../../../helper/log/logger.helper';
+import { showError, showInfo, showSuccess, showWarning } from '../../../../../helper/notification/notification.helper';
+import { downloadBlob, type ExportFormat } from '../../../../../helper/export/export.helper';
+import { isAbortError } from '../../../../../helper/bulk/bulk-operation.helper';
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+import { canAccessSuperior } from '../../../../../config/permissions.config';
+
+// Services
+import {
+  exportHistorialIPH,
+  HISTORIAL_EXPORT_COLUMNS
+} from '../services/export-historial-iph.service';
+
+// Interfaces
+import type {
+  FiltrosHistorial,
+  HistorialExportColumnKey,
+  HistorialExportProgress,
+  UseExportHistorialReturn
+} from '../../../../../interfaces/components/historialIph.interface';
+
+const DEFAULT_COLUMNS: HistorialExportColumnKey[] = HISTORIAL_EXPORT_COLUMNS.map(column => column.key);
+
+/**
+ * Hook de exportación del historial
+ *
+ * @param filtros - Filtros activos en la vista
+ * @param onComplete - Se llama al terminar una exportación exitosa
+ */
+const useExportHistorial = (
+  filtros: FiltrosHistorial,
+  onComplete?: () => void
+): UseExportHistorialReturn => {
+  const canExport = useMemo(() => canAccessSuperior(getUserRoles()), []);
+
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [selectedColumns, setSelectedColumns] = useState<HistorialExportColumnKey[]>(DEFAULT_COLUMNS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<HistorialExportProgress | null>(null);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancelar la exportación en curso al desmontar
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const toggleColumn = useCallback((key: HistorialExportColumnKey) => {
+    setSelectedColumns(prev => {
+      const next = prev.includes(key) ? prev.filter(column => column !== key) : [...prev, key];
+      // Mantener el orden definido en HISTORIAL_EXPORT_COLUMNS
+      return DEFAULT_COLUMNS.filter(column => next.includes(column));
+    });
+  }, []);
+
+  const startExport = useCallback(async () => {
+    if (!canExport) {
+      showWarning('No tienes permisos para exportar el historial', 'Acceso restringido');
+      return;
+    }
+    if (selectedColumns.length === 0) {
+      showWarning('Selecciona al menos una columna', 'Exportar historial');
+      return;
+    }
+    if (abortControllerRef.current) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsExporting(true);
+    setProgress(null);
+
+    try {
+      const result = await exportHistorialIPH({
+        filtros,
+        columns: selectedColumns,
+        format,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+
+      downloadBlob(result.blob, result.fileName);
+      if (result.truncated) {
+        showWarning(
+          `Se exportaron ${result.rows} de ${result.total} registros por el límite de la exportación. Acota los filtros para obtener el resto.`,
+          'Exportación incompleta'
+        );
+      } else {
+        showSuccess(`Se exportaron ${result.rows} registros`, 'Exportación completada');
+      }
+      onComplete?.();
+    } catch (error) {
+      if (isAbortError(error)) {
+        logInfo('useExportHistorial', 'Exportación cancelada por el usuario');
+        showInfo('La exportación fue cancelada', 'Exportar historial');
+      } else {
+        logError('useExportHistorial', error, 'Error exportando historial');
+        showError('No se pudo exportar el historial. Intenta de nuevo.', 'Error de exportación');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsExporting(false);
+      setProgress(null);
+    }
+  }, [canExport, selectedColumns, filtros, format, onComplete]);
+
+  const cancelExport = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  return {
+    canExport,
+    format,
+    setFormat,
+    selectedColumns,
+    toggleColumn,
+    isExporting,
+    progress,
+    startExport,
+    cancelExport
+  };
+};
+
+export default useExportHistorial;
@@ -4,9 +4,12 @@
  * @fileoverview Hook que encapsula toda la lógica de negocio para el componente
  * HistorialIPH, incluyendo gestión de estado, filtros, paginación y operaciones CRUD.
  *
- * @version 2.1.0
+ * @version 2.2.0
  * @since 2024-01-29
- * @updated 2025-01-31
+ * @updated 2025-02-01
+ *
+ * @changes v2.2.0
+ * - ✅ Filtros y página reflejados en la URL (un enlace reproduce la vista)
  *
  * @changes v2.0.0
  * - ✅ Validación de roles centralizada (de 41 líneas a 3)
@@ -24,16 +27,27 @@
  */
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { z } from 'zod';
 
 // Helpers
 import { logInfo, logError, logWarning } from '../../../../../helper/log/logger.helper';
 import { showSuccess, showError, showWarning } from '../../../../../helper/notification/notification.helper';
 import { getUserRoles } from '../../../../../helper/role/role.helper';
+import { isQueuedHttpError } from '../../../../../helper/http/offline-queue.helper';
+import { isAbortError } from '../../../../../helper/bulk/bulk-operation.helper';
+import type { IphRealtimeEvent } from '../../../../../helper/realtime/realtime.helper';
+import { isLeaderTab } from '../../../../../helper/tab-sync/tab-sync.helper';
 import { canAccessElemento } from '../../../../../config/permissions.config';
 
 // Hook compartido para persistencia de paginación
 import { usePaginationPersistence } from '../../../../shared/components/pagination';
 
+// Eventos en tiempo real (SSE)
+import { useIphRealtime } from '../../../../shared/hooks/useIphRealtime';
+
+// Estado de filtros en la URL
+import { useUrlFilterState, type UrlStateSchema } from '../../../../shared/hooks/useUrlFilterState';
+
 // Services
 import {
   getHistorialIPH,
@@ -42,6 +56,13 @@ import {
   getEstatusOptions,
   getEstadisticasHistorial
 } from '../services/historial-iph.service';
+import {
+  fetchHistorialByFiltros,
+  paginateHistorialByIds,
+  parseIdsFilter,
+  MAX_HISTORIAL_IDS_FILTER,
+  type HistorialPagesResult
+} from '../services/export-historial-iph.service';
 
 // Interfaces
 import type {
@@ -69,7 +90,8 @@ const DEFAULT_CONFIG = {
   itemsPerPage: 10,
   maxRetries: 3,
   debounceTime: 3000,
-  autoRefreshInterval: 300000 // 5 minutos
+  autoRefreshInterval: 300000, // 5 minutos (solo mientras el stream en tiempo real está caído)
+  realtimeRefreshDebounce: 1000
 } as const;
 
 /**
@@ -84,6 +106,31 @@ const INITIAL_FILTERS: FiltrosHistorial = {
   busqueda: ''
 };
 
+/**
+ * Parámetros de la URL: filtros + página (fechas en formato YYYY-MM-DD)
+ */
+const URL_STATE_SCHEMA: UrlStateSchema<FiltrosHistorial & { page: number }> = {
+  fechaInicio: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  fechaFin: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  estatus: z.string().max(50),
+  tipoDelito: z.string().max(100),
+  usuario: z.string().max(100),
+  busqueda: z.string().max(100),
+  busquedaPor: z.enum(['estatus', 'tipoDelito', 'usuario', 'n_referencia']),
+  ids: z.string()
+    .regex(/^[\w-]+(,[\w-]+)*$/)
+    .refine(ids => ids.split(',').length <= MAX_HISTORIAL_IDS_FILTER),
+  page: z.coerce.number().int().min(1)
+};
+
+const URL_STATE_DEFAULTS = { page: 1 };
+
+/**
+ * Separa los filtros de la página en el estado leído de la URL
+ */
+const getUrlFiltros = (urlState: Partial<FiltrosHistorial & { page: number }>): FiltrosHistorial =>
+  Object.fromEntries(Object.entries(urlState).filter(([key]) => key !== 'page'));
+
 /**
  * Estadísticas iniciales vacías (adaptadas al nuevo formato del servicio)
  */
@@ -125,6 +172,15 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
     itemsPerPage = DEFAULT_CONFIG.itemsPerPage
   } = params;
 
+  /**
+   * Filtros y página de la URL (enlace compartido); tienen prioridad sobre
+   * `initialFilters` y sobre la página guardada en sessionStorage
+   */
+  const { initialUrlState, externalUrlState, syncUrlState } = useUrlFilterState({
+    schema: URL_STATE_SCHEMA,
+    defaults: URL_STATE_DEFAULTS
+  });
+
   // ==================== HOOK COMPARTIDO PARA PERSISTENCIA DE PAGINACIÓN ====================
 
   /**
@@ -146,6 +202,7 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
   } = usePaginationPersistence({
     key: 'historial-iph-pagination',
     itemsPerPage,
+    pageOverride: initialUrlState.page,
     logging: false // Desactivado en producción
   });
 
@@ -155,10 +212,11 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
   const [estadisticas, setEstadisticas] = useState<EstadisticasHistorial>(INITIAL_ESTADISTICAS);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [filtros, setFiltrosState] = useState<FiltrosHistorial>({
+  const [filtros, setFiltrosState] = useState<FiltrosHistorial>(() => ({
     ...INITIAL_FILTERS,
-    ...initialFilters
-  });
+    ...initialFilters,
+    ...getUrlFiltros(initialUrlState)
+  }));
   // Metadata de paginación que viene del backend (total, totalPages)
   const [paginacionMeta, setPaginacionMeta] = useState<Pick<PaginacionHistorial, 'total' | 'totalPages'>>({
     total: 0,
@@ -167,6 +225,18 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
   const [registroSeleccionado, setRegistroSeleccionado] = useState<RegistroHistorialIPH | null>(null);
   const [retryCount, setRetryCount] = useState<number>(0);
   const [estatusOptions, setEstatusOptions] = useState<string[]>([]);
+  const [listadoIdsTruncado, setListadoIdsTruncado] = useState<boolean>(false);
+
+  /**
+   * IPH ya resueltos del filtro `ids` (por filtros, sin página): los cambios de página
+   * y las recargas se paginan sobre ellos sin volver a recorrer el historial
+   */
+  const idsCacheRef = useRef<{ clave: string; resultado: HistorialPagesResult } | null>(null);
+
+  /**
+   * Carga en curso de la tabla (se cancela al pedir otra)
+   */
+  const fetchControllerRef = useRef<AbortController | null>(null);
 
   // ==================== PAGINACIÓN COMBINADA ====================
 
@@ -258,6 +328,9 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
         filtrosLimpios.busquedaPor = filtrosLocal.busquedaPor;
       }
     }
+    if (filtrosLocal.ids && filtrosLocal.ids.trim() !== '') {
+      filtrosLimpios.ids = filtrosLocal.ids.trim();
+    }
     
     return {
       page: pagina,
@@ -289,6 +362,21 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
     }
   }, []);
 
+  /**
+   * Resuelve el filtro `ids` una sola vez por combinación de filtros
+   */
+  const resolverFiltroIds = useCallback(async (
+    filtrosIds: FiltrosHistorial,
+    signal: AbortSignal
+  ): Promise<HistorialPagesResult> => {
+    const clave = JSON.stringify(filtrosIds);
+    if (idsCacheRef.current?.clave === clave) return idsCacheRef.current.resultado;
+
+    const resultado = await fetchHistorialByFiltros(filtrosIds, signal);
+    idsCacheRef.current = { clave, resultado };
+    return resultado;
+  }, []);
+
   /**
    * Obtiene ÚNICAMENTE los datos de la tabla desde /iph-history (independiente de estadísticas)
    */
@@ -298,6 +386,11 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
       return;
     }
 
+    // Cancela la carga anterior: sus filtros o su página ya no se muestran
+    fetchControllerRef.current?.abort();
+    const controller = new AbortController();
+    fetchControllerRef.current = controller;
+
     try {
       if (showLoadingState) {
         setLoading(true);
@@ -312,8 +405,20 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
       // Convertir filtros al formato del servicio actualizado
       const params = convertirFiltrosAParams(filtros, paginacion.page);
 
-      // Obtener SOLO datos de la tabla desde /iph-history (SIN estadísticas)
-      const historialResponse = await getHistorialIPH(params);
+      // Obtener SOLO datos de la tabla desde /iph-history (SIN estadísticas);
+      // el filtro por IPH específicos se resuelve una vez y se pagina en el cliente
+      let historialResponse;
+      if (params.filtros.ids) {
+        const resultado = await resolverFiltroIds(params.filtros, controller.signal);
+        historialResponse = paginateHistorialByIds(resultado.registros, params.page, params.limit);
+        setListadoIdsTruncado(resultado.truncated);
+      } else {
+        idsCacheRef.current = null;
+        historialResponse = await getHistorialIPH(params);
+        setListadoIdsTruncado(false);
+      }
+
+      if (controller.signal.aborted) return;
 
       setRegistros(historialResponse.registros);
       // Actualizar solo metadata (total, totalPages) - page y limit vienen del hook compartido
@@ -341,6 +446,9 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
       }
 
     } catch (error) {
+      // Carga reemplazada por otra más reciente (o componente desmontado)
+      if (controller.signal.aborted || isAbortError(error)) return;
+
       const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
       logError('useHistorialIPH', error, 'Error obteniendo datos del historial con servicio actualizado');
 
@@ -359,11 +467,76 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
       setError(`Error cargando el historial: ${errorMessage}`);
       showError(`No se pudieron cargar los datos: ${errorMessage}`);
     } finally {
-      if (showLoadingState) {
+      if (showLoadingState && fetchControllerRef.current === controller) {
         setLoading(false);
       }
     }
-  }, [hasAccess, filtros, paginacion.page, paginacion.limit, convertirFiltrosAParams]);
+  }, [hasAccess, filtros, paginacion.page, paginacion.limit, convertirFiltrosAParams, resolverFiltroIds]);
+
+  // ==================== TIEMPO REAL ====================
+
+  const realtimeRefreshRef = useRef<NodeJS.Timeout | null>(null);
+
+  /**
+   * Cualquier evento de IPH puede cambiar la página actual y los conteos por estatus
+   * Las ráfagas se agrupan en una sola recarga silenciosa; con el filtro `ids` solo
+   * se vuelve a recorrer el historial si el evento es de uno de esos IPH
+   */
+  const handleRealtimeEvent = useCallback((event?: IphRealtimeEvent) => {
+    if (!event || parseIdsFilter(filtros.ids)?.has(event.iphId)) {
+      idsCacheRef.current = null;
+    }
+    if (realtimeRefreshRef.current) {
+      clearTimeout(realtimeRefreshRef.current);
+    }
+    realtimeRefreshRef.current = setTimeout(() => {
+      fetchData(false);
+      fetchEstadisticas();
+    }, DEFAULT_CONFIG.realtimeRefreshDebounce);
+  }, [filtros.ids, fetchData, fetchEstadisticas]);
+
+  const { status: realtimeStatus, recentIphIds } = useIphRealtime(handleRealtimeEvent, {
+    enabled: hasAccess
+  });
+
+  const isStreamDown = realtimeStatus === 'reconnecting' || realtimeStatus === 'fallback';
+  const previousRealtimeStatus = useRef(realtimeStatus);
+
+  /**
+   * Polling de respaldo mientras el stream está caído (solo la pestaña líder)
+   * y sincronización al restablecerse
+   */
+  useEffect(() => {
+    const previous = previousRealtimeStatus.current;
+    previousRealtimeStatus.current = realtimeStatus;
+
+    if (hasAccess && realtimeStatus === 'live' && (previous === 'reconnecting' || previous === 'fallback')) {
+      logInfo('useHistorialIPH', 'Stream restablecido - sincronizando historial');
+      handleRealtimeEvent();
+    }
+  }, [hasAccess, realtimeStatus, handleRealtimeEvent]);
+
+  useEffect(() => {
+    if (!hasAccess || !isStreamDown) return;
+
+    const intervalId = setInterval(() => {
+      if (isLeaderTab()) {
+        fetchData(false);
+        fetchEstadisticas();
+      }
+    }, DEFAULT_CONFIG.autoRefreshInterval);
+
+    return () => clearInterval(intervalId);
+  }, [hasAccess, isStreamDown, fetchData, fetchEstadisticas]);
+
+  useEffect(() => {
+    return () => {
+      if (realtimeRefreshRef.current) {
+        clearTimeout(realtimeRefreshRef.current);
+      }
+      fetchControllerRef.current?.abort();
+    };
+  }, []);
 
   // ==================== EFECTOS ====================
 
@@ -419,6 +592,28 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
     }
   }, [filtros, error]);
 
+  /**
+   * Refleja filtros y página en la URL
+   */
+  useEffect(() => {
+    syncUrlState({ ...filtros, page: currentPage });
+  }, [filtros, currentPage, syncUrlState]);
+
+  /**
+   * La URL cambió desde fuera (enlace a esta misma vista): aplicar sus filtros una vez
+   */
+  const appliedUrlStateRef = useRef<typeof externalUrlState>(null);
+
+  useEffect(() => {
+    if (!externalUrlState || appliedUrlStateRef.current === externalUrlState) return;
+    appliedUrlStateRef.current = externalUrlState;
+
+    const urlFiltros = getUrlFiltros(externalUrlState);
+    logInfo('useHistorialIPH', 'Aplicando filtros desde la URL', { urlFiltros, page: externalUrlState.page });
+    setFiltrosState({ ...INITIAL_FILTERS, ...urlFiltros });
+    setPaginationPage(externalUrlState.page ?? 1);
+  }, [externalUrlState, setPaginationPage]);
+
   // ==================== ACCIONES PÚBLICAS ====================
 
   /**
@@ -475,6 +670,7 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
   const refetchData = useCallback(async () => {
     logInfo('useHistorialIPH', 'Recarga manual solicitada');
     setRetryCount(0); // Reset retry count for manual refresh
+    idsCacheRef.current = null;
     // Obtener datos de tabla y estadísticas por separado
     await Promise.all([
       fetchData(),
@@ -517,25 +713,39 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
 
   /**
    * Edita el estatus de un registro
+   * La transición debe estar permitida por STATUS_TRANSITIONS para el rol del usuario
    */
   const editarEstatus = useCallback(async (
     id: string,
-    nuevoEstatus: RegistroHistorialIPH['estatus']
+    nuevoEstatus: RegistroHistorialIPH['estatus'],
+    comentario?: string
   ): Promise<void> => {
     if (!hasAccess) {
       showError('No tienes permisos para editar registros');
       return;
     }
 
+    const registroActual = registros.find(registro => registro.id === id)
+      ?? (registroSeleccionado?.id === id ? registroSeleccionado : undefined);
+    if (!registroActual) {
+      logWarning('useHistorialIPH', `Registro ID: ${id} no encontrado para cambio de estatus`);
+      return;
+    }
+
     try {
-      logInfo('useHistorialIPH', 'Editando estatus de registro', { id, nuevoEstatus });
+      logInfo('useHistorialIPH', 'Editando estatus de registro', {
+        id,
+        estatusActual: registroActual.estatus,
+        nuevoEstatus
+      });
       
       setLoading(true);
       
       const registroActualizado = await updateEstatusIPH({
         id,
+        estatusActual: registroActual.estatus,
         nuevoEstatus,
-        observaciones: `Estatus actualizado a ${nuevoEstatus}`
+        observaciones: comentario
       });
 
       // Actualizar el registro en la lista
@@ -548,19 +758,26 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
         setRegistroSeleccionado(registroActualizado);
       }
 
-      // Recargar estadísticas
+      // Recargar estadísticas (el filtro `ids` se vuelve a resolver con el nuevo estatus)
+      idsCacheRef.current = null;
       await fetchData(false);
 
       showSuccess(`Estatus actualizado a "${nuevoEstatus}" correctamente`);
 
     } catch (error) {
+      // Sin conexión: el cambio quedó en la bandeja offline, que ya notificó al usuario
+      if (isQueuedHttpError(error)) {
+        logWarning('useHistorialIPH', `Cambio de estatus ID: ${id} encolado para envío posterior`);
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
       logError('useHistorialIPH', error, `Error editando estatus ID: ${id} a ${nuevoEstatus}`);
       showError(`Error actualizando estatus: ${errorMessage}`);
     } finally {
       setLoading(false);
     }
-  }, [hasAccess, registroSeleccionado, fetchData]);
+  }, [hasAccess, registros, registroSeleccionado, fetchData]);
 
   // ==================== COMPUTED VALUES ====================
 
@@ -609,6 +826,9 @@ export const useHistorialIPH = (params: UseHistorialIPHParams = {}): UseHistoria
     paginacion,
     registroSeleccionado,
     estatusOptions,
+    realtimeStatus,
+    recentIphIds,
+    listadoIdsTruncado,
 
     // Acciones
     setFiltros,
@@ -0,0 +1,56 @@
+/**
+ * Hook de completitud de los IPH visibles en el Histórico
+ *
+ * @fileoverview Calcula el resumen de completitud de cada IPH de la página
+ * actual. Los resultados llegan uno a uno para llenar la columna conforme se
+ * calculan; al cambiar de página se cancela el cálculo pendiente.
+ *
+ * @version 1.0.0
+ * @since 2025-02-01
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { useEffect, useState } from 'react';
+
+// Helpers
+import { logError } from '../../../../../helper/log/logger.helper';
+
+// Services
+import { getIphCompletenessSummaries } from '../services/iph-completeness.service';
+
+// Interfaces
+import type { IphCompletenessMap } from '../../../../../interfaces/components/historialIph.interface';
+
+/**
+ * Hook de completitud
+ *
+ * @param ids - IPH de la página actual
+ * @param enabled - Permite desactivar el cálculo (p.ej. sin permisos)
+ */
+export const useIphCompleteness = (ids: string[], enabled: boolean = true): IphCompletenessMap => {
+  const [completeness, setCompleteness] = useState<IphCompletenessMap>({});
+
+  // Clave estable para no recalcular si solo cambia la referencia del arreglo
+  const idsKey = ids.join(',');
+
+  useEffect(() => {
+    if (!enabled || idsKey === '') return;
+
+    const controller = new AbortController();
+    const pageIds = idsKey.split(',');
+
+    getIphCompletenessSummaries(pageIds, controller.signal, (id, summary) => {
+      if (controller.signal.aborted) return;
+      setCompleteness(prev => ({ ...prev, [id]: summary }));
+    }).catch(error => {
+      logError('useIphCompleteness', error, 'Error calculando la completitud de los IPH');
+    });
+
+    return () => controller.abort();
+  }, [idsKey, enabled]);
+
+  return completeness;
+};
+
+export default useIphCompleteness;
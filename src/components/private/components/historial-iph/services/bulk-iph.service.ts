@@ -0,0 +1,224 @@
+/**
+ * Servicio de acciones masivas sobre IPH
+ *
+ * @fileoverview Cambio de estatus y generación de PDF de informes ejecutivos para
+ * varios IPH a la vez. Lo usan el Histórico IPH y la lista de IPH Activos.
+ *
+ * - Concurrencia limitada por operación (el backend no recibe ráfagas)
+ * - Resultado por IPH: los fallos parciales no detienen el lote
+ * - El cambio de estatus usa `updateEstatusIPH`, que valida el flujo de trabajo;
+ *   los IPH cuyo estatus no permite la transición se reportan como omitidos
+ * - Las peticiones masivas no se encolan en la bandeja offline: sin conexión el lote
+ *   se rechaza (o los IPH restantes fallan) y se reporta una sola vez
+ *
+ * @version 1.0.0
+ * @since 2025-02-01
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { logInfo } from '../../../../../helper/log/logger.helper';
+import type { HttpError } from '../../../../../helper/http/http.helper';
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+import {
+  runBulkOperation,
+  BulkSkipError,
+  type BulkOperationOptions
+} from '../../../../../helper/bulk/bulk-operation.helper';
+import { createZipBlob, uniqueZipEntryName, type ZipEntry } from '../../../../../helper/export/zip-writer';
+import { downloadBlob } from '../../../../../helper/export/export.helper';
+import {
+  MIN_TRANSITION_COMMENT_LENGTH,
+  transitionRequiresComment,
+  validateStatusTransition
+} from '../../../../../config/status.config';
+
+// Services
+import { updateEstatusIPH } from './historial-iph.service';
+import { fetchHistorialByFiltros } from './export-historial-iph.service';
+import { informeEjecutivoService } from '../../informe-ejecutivo/services/informe-ejecutivo.service';
+
+// Interfaces
+import type {
+  BulkIphResult,
+  BulkIphTarget
+} from '../../../../../interfaces/components/bulk-actions.interface';
+import type { FiltrosHistorial } from '../../../../../interfaces/components/historialIph.interface';
+
+// ==================== CONFIGURACIÓN ====================
+
+/**
+ * Peticiones simultáneas por tipo de operación
+ * (la generación de PDF es más pesada para el backend)
+ */
+export const BULK_IPH_CONCURRENCY = {
+  estatus: 3,
+  pdf: 2
+} as const;
+
+const BULK_PDF_FILE_BASE_NAME = 'informes-ejecutivos';
+
+const OFFLINE_ITEM_MESSAGE = 'Sin conexión: no se envió';
+
+type BulkIphOptions = Omit<BulkOperationOptions, 'concurrency'>;
+
+/**
+ * El filtro abarca más IPH de los que se pueden resolver en una operación
+ */
+export class BulkTargetsLimitError extends Error {
+  constructor(loaded: number, total: number) {
+    super(`El filtro abarca ${total} IPH y solo se pudieron cargar ${loaded}. Acota los filtros para continuar.`);
+    this.name = 'BulkTargetsLimitError';
+  }
+}
+
+/**
+ * El lote se rechazó completo: la transición exige comentario y no se proporcionó
+ */
+export class BulkCommentRequiredError extends Error {
+  constructor() {
+    super(`El comentario es obligatorio (mínimo ${MIN_TRANSITION_COMMENT_LENGTH} caracteres)`);
+    this.name = 'BulkCommentRequiredError';
+  }
+}
+
+/**
+ * El lote se rechazó completo: no hay conexión (los cambios masivos no se encolan)
+ */
+export class BulkOfflineError extends Error {
+  constructor() {
+    super('Sin conexión. Los cambios masivos no se guardan para después; intenta de nuevo al recuperar la conexión.');
+    this.name = 'BulkOfflineError';
+  }
+}
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// ==================== RESOLUCIÓN DE OBJETIVOS ====================
+
+/**
+ * Obtiene todos los IPH del Histórico que coinciden con los filtros
+ *
+ * @throws BulkTargetsLimitError si el filtro excede el límite de páginas
+ * (la operación no se aplica a un subconjunto incompleto)
+ */
+export const fetchAllHistorialTargets = async (
+  filtros: FiltrosHistorial,
+  signal?: AbortSignal
+): Promise<BulkIphTarget[]> => {
+  const { registros, total, truncated } = await fetchHistorialByFiltros(filtros, signal);
+  if (truncated) {
+    throw new BulkTargetsLimitError(registros.length, total);
+  }
+
+  return registros.map(registro => ({
+    id: registro.id,
+    referencia: registro.nReferencia,
+    estatus: registro.estatus
+  }));
+};
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Cambia el estatus de varios IPH
+ *
+ * @param targets - IPH a actualizar
+ * @param nuevoEstatus - Estatus destino
+ * @param comentario - Comentario para la bitácora (obligatorio en rechazos/reaperturas)
+ * @throws BulkCommentRequiredError si alguna transición exige comentario y no se proporcionó
+ * @throws BulkOfflineError si no hay conexión al iniciar
+ */
+export const bulkUpdateEstatusIPH = async (
+  targets: BulkIphTarget[],
+  nuevoEstatus: string,
+  comentario: string | undefined,
+  options: BulkIphOptions = {}
+): Promise<BulkIphResult[]> => {
+  const userRoles = getUserRoles();
+  logInfo('BulkIPH', 'Cambio de estatus masivo', { total: targets.length, nuevoEstatus });
+
+  // Sin comentario válido se rechaza el lote completo si alguna transición lo exige
+  const requiereComentario = targets.some(target => transitionRequiresComment(target.estatus ?? 'N/D', nuevoEstatus));
+  if (requiereComentario && (comentario?.trim().length ?? 0) < MIN_TRANSITION_COMMENT_LENGTH) {
+    throw new BulkCommentRequiredError();
+  }
+
+  if (isOffline()) {
+    throw new BulkOfflineError();
+  }
+
+  // Tras el primer error de red los IPH restantes fallan sin enviar petición
+  let sinConexion = false;
+
+  return runBulkOperation(targets, async target => {
+    const estatusActual = target.estatus ?? 'N/D';
+    if (estatusActual === nuevoEstatus) {
+      throw new BulkSkipError(`Ya se encuentra en "${nuevoEstatus}"`);
+    }
+
+    const validation = validateStatusTransition(estatusActual, nuevoEstatus, userRoles, comentario);
+    if (!validation.valid) {
+      throw new BulkSkipError(validation.reason ?? 'Transición no permitida');
+    }
+
+    if (sinConexion) {
+      throw new Error(OFFLINE_ITEM_MESSAGE);
+    }
+
+    try {
+      await updateEstatusIPH({
+        id: target.id,
+        estatusActual,
+        nuevoEstatus,
+        observaciones: comentario,
+        queueable: false
+      });
+    } catch (error) {
+      if ((error as HttpError)?.type === 'NETWORK') {
+        sinConexion = true;
+        throw new Error(OFFLINE_ITEM_MESSAGE);
+      }
+      throw error;
+    }
+  }, { ...options, concurrency: BULK_IPH_CONCURRENCY.estatus });
+};
+
+/**
+ * Genera el PDF del informe ejecutivo de cada IPH y los descarga en un solo ZIP
+ */
+export const bulkGenerateInformesPdf = async (
+  targets: BulkIphTarget[],
+  options: BulkIphOptions = {}
+): Promise<BulkIphResult[]> => {
+  logInfo('BulkIPH', 'Generación masiva de PDF', { total: targets.length });
+
+  const results = await runBulkOperation(targets, async target => {
+    const blob = await informeEjecutivoService.exportInformeToPDF(target.id);
+    return new Uint8Array(await blob.arrayBuffer());
+  }, { ...options, concurrency: BULK_IPH_CONCURRENCY.pdf });
+
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = results.flatMap(result => (
+    result.status === 'success' && result.result
+      ? [{
+          name: uniqueZipEntryName(
+            `InformeEjecutivo_${result.item.referencia.replace(/[^a-zA-Z0-9-]/g, '_')}.pdf`,
+            usedNames
+          ),
+          data: result.result
+        }]
+      : []
+  ));
+
+  if (entries.length > 0) {
+    const now = new Date();
+    const fecha = [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+      .map(part => String(part).padStart(2, '0'))
+      .join('-');
+    downloadBlob(createZipBlob(entries), `${BULK_PDF_FILE_BASE_NAME}_${fecha}.zip`);
+  }
+
+  // No retener los bytes de los PDF en el reporte
+  return results.map(({ item, status, message }) => ({ item, status, message }));
+};
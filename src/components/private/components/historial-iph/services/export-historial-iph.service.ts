@@ -0,0 +1,292 @@
+/**
+ * Servicio de exportación del historial de IPHs
+ *
+ * @fileoverview Recorre todas las páginas de `getPaginatedHistorialIPH` que coinciden
+ * con los filtros activos y genera un archivo CSV o XLSX con las columnas elegidas.
+ *
+ * - Las páginas se piden en secuencia para no saturar el backend
+ * - El AbortSignal se revisa entre páginas (cancelación en rangos grandes)
+ * - La visibilidad por rol la aplica el backend: se usa el mismo endpoint autenticado
+ *   que la vista, por lo que solo se exportan registros que el usuario puede consultar
+ * - El filtro `ids` (IPH específicos) no existe en el backend: se aplica sobre las
+ *   páginas de los demás filtros, que se recorren hasta encontrar todos los ids;
+ *   la vista resuelve el filtro una vez y pagina el resultado con `paginateHistorialByIds`
+ *
+ * @version 1.0.0
+ * @since 2025-02-01
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { logInfo, logWarning } from '../../../../../helper/log/logger.helper';
+import { throwIfAborted } from '../../../../../helper/bulk/bulk-operation.helper';
+import {
+  buildExportFile,
+  buildExportFileName,
+  type ExportColumn,
+  type ExportFormat
+} from '../../../../../helper/export/export.helper';
+import {
+  getPaginatedHistorialIPH,
+  type GetHistorialIPHParamsEnhanced
+} from './historial-iph.service';
+import { transformPaginatedResponseToHistorialResponse } from '../../../../../utils/historial-iph';
+
+import type {
+  FiltrosHistorial,
+  HistorialIPHResponse,
+  HistorialExportColumnKey,
+  HistorialExportProgress,
+  ResHistoryData
+} from '../../../../../interfaces/components/historialIph.interface';
+
+// ==================== CONFIGURACIÓN ====================
+
+/**
+ * Límite de páginas por exportación (protección ante respuestas inconsistentes del backend)
+ */
+const MAX_EXPORT_PAGES = 1000;
+
+const EXPORT_FILE_BASE_NAME = 'historial-iph';
+
+const EXPORT_SHEET_NAME = 'Historial IPH';
+
+const CANCEL_MESSAGE = 'Exportación cancelada por el usuario';
+
+/**
+ * IPH máximos en el filtro `ids` (la lista viaja en la URL)
+ */
+export const MAX_HISTORIAL_IDS_FILTER = 100;
+
+// ==================== COLUMNAS ====================
+
+const formatUbicacion = (registro: ResHistoryData): string =>
+  registro.ubicacion?.latitud && registro.ubicacion?.longitud
+    ? `${registro.ubicacion.latitud}, ${registro.ubicacion.longitud}`
+    : '';
+
+const parseFecha = (fecha: string): Date | string => {
+  const date = new Date(fecha);
+  return Number.isNaN(date.getTime()) ? fecha : date;
+};
+
+/**
+ * Columnas exportables del historial (en el orden en que aparecen en el archivo)
+ */
+export const HISTORIAL_EXPORT_COLUMNS: Array<ExportColumn<ResHistoryData> & { key: HistorialExportColumnKey }> = [
+  { key: 'referencia', label: 'Referencia', value: registro => registro.nReferencia },
+  { key: 'folio', label: 'Folio', value: registro => registro.nFolioSist ?? '' },
+  { key: 'fecha', label: 'Fecha de creación', value: registro => parseFecha(registro.fechaCreacion) },
+  { key: 'estatus', label: 'Estatus', value: registro => registro.estatus },
+  { key: 'tipo', label: 'Tipo de delito', value: registro => registro.tipoDelito ?? '' },
+  { key: 'usuario', label: 'Usuario', value: registro => registro.usuario },
+  { key: 'ubicacion', label: 'Ubicación', value: formatUbicacion }
+];
+
+// ==================== FILTROS ====================
+
+/**
+ * Convierte los filtros de la vista en parámetros del endpoint paginado
+ * (mismo criterio de limpieza que useHistorialIPH)
+ */
+export const buildExportParams = (filtros: FiltrosHistorial): GetHistorialIPHParamsEnhanced => {
+  const params: GetHistorialIPHParamsEnhanced = {};
+
+  if (filtros.fechaInicio?.trim()) params.fechaInicio = filtros.fechaInicio.trim();
+  if (filtros.fechaFin?.trim()) params.fechaFin = filtros.fechaFin.trim();
+  if (filtros.estatus?.trim()) params.estatus = filtros.estatus.trim();
+  if (filtros.tipoDelito?.trim()) params.tipoDelito = filtros.tipoDelito.trim();
+  if (filtros.usuario?.trim()) params.usuario = filtros.usuario.trim();
+  if (filtros.busqueda?.trim()) {
+    params.busqueda = filtros.busqueda.trim();
+    if (filtros.busquedaPor) params.busquedaPor = filtros.busquedaPor;
+  }
+
+  return params;
+};
+
+/**
+ * Ids del filtro `ids` (null si no se filtra por IPH específicos)
+ */
+export const parseIdsFilter = (ids?: string): Set<string> | null => {
+  const lista = (ids ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  return lista.length > 0 ? new Set(lista) : null;
+};
+
+/**
+ * Descarga todas las páginas de los filtros de la vista, incluido el filtro `ids`
+ * (que el backend no soporta y se aplica aquí; se deja de paginar al encontrar todos)
+ */
+export const fetchHistorialByFiltros = async (
+  filtros: FiltrosHistorial,
+  signal?: AbortSignal,
+  onProgress?: (progress: HistorialExportProgress) => void
+): Promise<HistorialPagesResult> => {
+  const ids = parseIdsFilter(filtros.ids);
+  if (!ids) return fetchAllHistorialPages(buildExportParams(filtros), signal, onProgress);
+
+  let encontrados = 0;
+  const resultado = await fetchAllHistorialPages(buildExportParams(filtros), signal, onProgress, pagina => {
+    encontrados += pagina.filter(registro => ids.has(registro.id)).length;
+    return encontrados >= ids.size;
+  });
+
+  const registros = resultado.registros.filter(registro => ids.has(registro.id));
+  return { ...resultado, registros, total: registros.length };
+};
+
+// ==================== EXPORTACIÓN ====================
+
+export interface ExportHistorialOptions {
+  filtros: FiltrosHistorial;
+  columns: HistorialExportColumnKey[];
+  format: ExportFormat;
+  signal?: AbortSignal;
+  onProgress?: (progress: HistorialExportProgress) => void;
+}
+
+export interface ExportHistorialResult {
+  blob: Blob;
+  fileName: string;
+  rows: number;
+  /** Registros que coinciden con los filtros (mayor que `rows` si se truncó) */
+  total: number;
+  /** Se alcanzó el límite de páginas y el archivo no incluye todos los registros */
+  truncated: boolean;
+}
+
+export interface HistorialPagesResult {
+  registros: ResHistoryData[];
+  /** Registros que coinciden con los filtros según el backend */
+  total: number;
+  /** Se alcanzó `MAX_EXPORT_PAGES` y faltan registros */
+  truncated: boolean;
+}
+
+/**
+ * Descarga todas las páginas que coinciden con los filtros, hasta `MAX_EXPORT_PAGES`
+ * (también lo usan las acciones masivas para "todos los del filtro");
+ * `truncated` indica que el resultado no está completo
+ *
+ * @param isComplete - Recibe cada página; si devuelve true se deja de paginar
+ */
+export const fetchAllHistorialPages = async (
+  params: GetHistorialIPHParamsEnhanced,
+  signal?: AbortSignal,
+  onProgress?: (progress: HistorialExportProgress) => void,
+  isComplete?: (pagina: ResHistoryData[]) => boolean
+): Promise<HistorialPagesResult> => {
+  const registros: ResHistoryData[] = [];
+  let page = 1;
+  let totalPages = 1;
+  let total = 0;
+  let truncated = false;
+
+  do {
+    throwIfAborted(signal, CANCEL_MESSAGE);
+
+    const response = await getPaginatedHistorialIPH({ ...params, page });
+    throwIfAborted(signal, CANCEL_MESSAGE);
+
+    registros.push(...response.data);
+    total = response.pagination.total;
+    truncated = response.pagination.totalPages > MAX_EXPORT_PAGES;
+    totalPages = Math.min(Math.max(response.pagination.totalPages, 1), MAX_EXPORT_PAGES);
+
+    onProgress?.({
+      page,
+      totalPages,
+      rows: registros.length,
+      total: response.pagination.total
+    });
+
+    // Página vacía: el backend ya no tiene más datos aunque totalPages diga lo contrario
+    if (response.data.length === 0) break;
+
+    // El llamador ya tiene lo que buscaba (p.ej. todos los IPH del filtro `ids`)
+    if (isComplete?.(response.data)) {
+      truncated = false;
+      break;
+    }
+
+    page++;
+  } while (page <= totalPages);
+
+  if (truncated) {
+    logWarning('HistorialIPH Export', 'Resultado truncado por límite de páginas', {
+      maxPages: MAX_EXPORT_PAGES,
+      rows: registros.length,
+      total
+    });
+  }
+
+  return { registros, total: Math.max(total, registros.length), truncated };
+};
+
+/**
+ * Exporta el historial filtrado a CSV o XLSX
+ * Si se alcanza el límite de páginas el archivo sale incompleto y `truncated` es true
+ *
+ * @throws DOMException `AbortError` si se cancela mediante `signal`
+ */
+export const exportHistorialIPH = async ({
+  filtros,
+  columns,
+  format,
+  signal,
+  onProgress
+}: ExportHistorialOptions): Promise<ExportHistorialResult> => {
+  if (!columns.some(key => HISTORIAL_EXPORT_COLUMNS.some(column => column.key === key))) {
+    throw new Error('Selecciona al menos una columna para exportar');
+  }
+
+  logInfo('HistorialIPH Export', 'Iniciando exportación', { format, columns, params: buildExportParams(filtros) });
+
+  const { registros, total, truncated } = await fetchHistorialByFiltros(filtros, signal, onProgress);
+  throwIfAborted(signal, CANCEL_MESSAGE);
+
+  return { ...buildHistorialExportFile(registros, columns, format), total, truncated };
+};
+
+/**
+ * Genera el archivo de exportación a partir de registros ya cargados
+ * (p.ej. la selección explícita de las acciones masivas)
+ */
+export const buildHistorialExportFile = (
+  registros: ResHistoryData[],
+  columns: HistorialExportColumnKey[],
+  format: ExportFormat
+): ExportHistorialResult => {
+  const selectedColumns = HISTORIAL_EXPORT_COLUMNS.filter(column => columns.includes(column.key));
+
+  const blob = buildExportFile(format, selectedColumns, registros, EXPORT_SHEET_NAME);
+  const fileName = buildExportFileName(EXPORT_FILE_BASE_NAME, format);
+
+  logInfo('HistorialIPH Export', 'Exportación generada', { format, rows: registros.length, size: blob.size });
+
+  return { blob, fileName, rows: registros.length, total: registros.length, truncated: false };
+};
+
+// ==================== LISTADO POR IDS ====================
+
+/**
+ * Página del listado cuando los filtros incluyen `ids`
+ * `registros` es el resultado ya resuelto con `fetchHistorialByFiltros`: cambiar de
+ * página no vuelve a recorrer el historial
+ */
+export const paginateHistorialByIds = (
+  registros: ResHistoryData[],
+  page: number,
+  limit: number
+): HistorialIPHResponse => {
+  const inicio = (page - 1) * limit;
+  return transformPaginatedResponseToHistorialResponse({
+    data: registros.slice(inicio, inicio + limit),
+    pagination: {
+      total: registros.length,
+      page,
+      limit,
+      totalPages: Math.max(1, Math.ceil(registros.length / limit))
+    }
+  });
+};
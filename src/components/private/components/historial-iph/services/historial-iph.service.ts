@@ -18,7 +18,8 @@ import {
   API_BASE_URL
 } from '../../../../../config/env.config';
 import { API_BASE_ROUTES } from '../../../../../config/routes.config';
-import { getValidStatuses } from '../../../../../config/status.config';
+import { getValidStatuses, validateStatusTransition } from '../../../../../config/status.config';
+import { getUserRoles } from '../../../../../helper/role/role.helper';
 
 // Configuración del cliente HTTP
 const http: HttpHelper = HttpHelper.getInstance({
@@ -269,6 +270,7 @@ const getHistorialFromAPI = async (params: GetHistorialIPHParams): Promise<Histo
  * ```typescript
  * const registroActualizado = await updateEstatusFromAPI({
  *   id: 123,
+ *   estatusActual: 'Supervisión',
  *   nuevoEstatus: 'Finalizado',
  *   observaciones: 'Caso cerrado por resolución'
  * });
@@ -294,7 +296,9 @@ const updateEstatusFromAPI = async (params: UpdateEstatusIPHParams): Promise<Reg
       headers: {
         'Content-Type': 'application/json',
         ...buildAuthHeaders()
-      }
+      },
+      queueable: params.queueable !== false,
+      queueLabel: `Cambio de estatus a "${params.nuevoEstatus}"`
     });
 
     logInfo('HistorialIPH Service', 'Estatus actualizado exitosamente desde API', {
@@ -331,15 +335,32 @@ export const getHistorialIPH = async (params: GetHistorialIPHParams = {}): Promi
 
 /**
  * Actualiza el estatus de un registro IPH
+ * La transición se valida contra STATUS_TRANSITIONS (rol y comentario obligatorio)
+ * antes de llamar al API; el backend repite la validación.
  *
  * @param {UpdateEstatusIPHParams} params - Parámetros de actualización
  * @returns {Promise<RegistroHistorialIPH>}
  *
- * @throws {Error} Si hay error en la actualización
+ * @throws {Error} Si la transición no está permitida o hay error en la actualización
  */
 export const updateEstatusIPH = async (params: UpdateEstatusIPHParams): Promise<RegistroHistorialIPH> => {
   try {
-    return await updateEstatusFromAPI(params);
+    const validation = validateStatusTransition(
+      params.estatusActual,
+      params.nuevoEstatus,
+      getUserRoles(),
+      params.observaciones
+    );
+    if (!validation.valid) {
+      throw new Error(validation.reason);
+    }
+
+    // El texto por defecto solo aplica a transiciones sin comentario obligatorio
+    // (en las que lo requieren, la validación ya exigió el comentario del usuario)
+    return await updateEstatusFromAPI({
+      ...params,
+      observaciones: params.observaciones?.trim() || `Estatus actualizado a ${params.nuevoEstatus}`
+    });
   } catch (error) {
     logError('HistorialIPH Service', error, `Error en updateEstatusIPH - params: ${JSON.stringify(params)}`);
     throw error;
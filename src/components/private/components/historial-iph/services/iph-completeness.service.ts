@@ -0,0 +1,94 @@
+/**
+ * Servicio de completitud de IPH para el Histórico
+ *
+ * @fileoverview Descarga cada IPH completo (`getIphById`) y calcula su
+ * resumen de completitud en el navegador (iph-completeness.helper).
+ *
+ * - Concurrencia limitada: una página del Histórico no genera una ráfaga
+ * - Los resúmenes se guardan en caché para no recalcular al paginar o filtrar
+ * - Un IPH que falla se reporta como `null` sin detener el resto
+ *
+ * @version 1.0.0
+ * @since 2025-02-01
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { logInfo } from '../../../../../helper/log/logger.helper';
+import CacheHelper from '../../../../../helper/cache/cache.helper';
+import { runBulkOperation } from '../../../../../helper/bulk/bulk-operation.helper';
+import {
+  buildIphCompletenessReport,
+  summarizeIphCompleteness,
+  type IphCompletenessSummary
+} from '../../../../../helper/iph-validation/iph-completeness.helper';
+
+// Services
+import { getIphById } from '../../iph-oficial/services/get-iph.service';
+
+// Interfaces
+import type { IphCompletenessMap } from '../../../../../interfaces/components/historialIph.interface';
+
+// ==================== CONFIGURACIÓN ====================
+
+export const IPH_COMPLETENESS_SERVICE_CONFIG = {
+  concurrency: 3,
+  /** El resumen se reutiliza mientras el IPH no se vuelva a consultar */
+  cacheMs: 10 * 60 * 1000
+} as const;
+
+const CACHE_PREFIX = 'iph-completeness';
+
+const buildCacheKey = (id: string): string => `${CACHE_PREFIX}:${id}`;
+
+// ==================== API ====================
+
+/**
+ * Resumen de completitud de un IPH (desde caché si existe)
+ */
+export const getIphCompletenessSummary = async (id: string): Promise<IphCompletenessSummary> => {
+  const cached = await CacheHelper.get<IphCompletenessSummary>(buildCacheKey(id));
+  if (cached) return cached;
+
+  const summary = summarizeIphCompleteness(buildIphCompletenessReport(await getIphById(id)));
+  await CacheHelper.set(buildCacheKey(id), summary, {
+    expiresIn: IPH_COMPLETENESS_SERVICE_CONFIG.cacheMs,
+    namespace: 'data'
+  });
+  return summary;
+};
+
+/**
+ * Resúmenes de completitud de varios IPH
+ *
+ * @param ids - IPH a evaluar
+ * @param onResult - Se llama con cada resumen en cuanto está listo
+ */
+export const getIphCompletenessSummaries = async (
+  ids: string[],
+  signal?: AbortSignal,
+  onResult?: (id: string, summary: IphCompletenessSummary | null) => void
+): Promise<IphCompletenessMap> => {
+  logInfo('IphCompletenessService', 'Calculando completitud de IPH', { total: ids.length });
+
+  const results = await runBulkOperation(ids, async id => {
+    try {
+      const summary = await getIphCompletenessSummary(id);
+      onResult?.(id, summary);
+      return summary;
+    } catch (error) {
+      onResult?.(id, null);
+      throw error;
+    }
+  }, {
+    concurrency: IPH_COMPLETENESS_SERVICE_CONFIG.concurrency,
+    signal
+  });
+
+  const map: IphCompletenessMap = {};
+  for (const result of results) {
+    if (result.status === 'cancelled') continue;
+    map[result.item] = result.status === 'success' && result.result ? result.result : null;
+  }
+  return map;
+};
@@ -2,9 +2,19 @@
  * Componente HistorialTable
  * Tabla principal para mostrar los registros del historial de IPH
  *
- * @version 2.2.0
+ * @version 2.5.0
  * @since 2024-01-30
  *
+ * @changes v2.5.0
+ * - ✅ Columna "Completitud" (puntaje por IPH, errores y advertencias de consistencia)
+ *
+ * @changes v2.4.0
+ * - ✅ Columna de casillas para selección múltiple (acciones masivas)
+ *
+ * @changes v2.3.0
+ * - ✅ Cambio de estatus desde la tabla según el flujo de trabajo (STATUS_TRANSITIONS)
+ * - ✅ Confirmación con comentario obligatorio en rechazos y reaperturas
+ *
  * @changes v2.2.0 (2025-01-31)
  * - ✅ Validación de roles con helpers centralizados
  * - ✅ SuperAdmin: Redirige a InformeEjecutivo al hacer clic en ver detalle
@@ -21,14 +31,16 @@
  * - ✅ Mejoras visuales en presentación de datos
  */
 
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useState } from 'react';
 import {
   Eye,
   Calendar,
   MapPin,
   User,
   FileText,
-  Clock
+  Clock,
+  Loader2,
+  AlertTriangle
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
@@ -40,11 +52,19 @@ import type {
 } from '../../../../../interfaces/components/historialIph.interface';
 
 // Configuración de estatus centralizada
-import { getStatusConfig } from '../../../../../config/status.config';
+import {
+  getStatusConfig,
+  getAllowedTransitions,
+  type StatusTransition
+} from '../../../../../config/status.config';
+
+// Componentes
+import CambioEstatusDialog from '../components/CambioEstatusDialog';
 
 // Helpers
 import { logInfo, logDebug } from '../../../../../helper/log/logger.helper';
 import { getUserRoles } from '../../../../../helper/role/role.helper';
+import { IPH_COMPLETENESS_LEVEL_LABELS } from '../../../../../helper/iph-validation/iph-completeness.helper';
 
 // Permisos
 import {
@@ -52,6 +72,14 @@ import {
   isElemento
 } from '../../../../../config/permissions.config';
 
+// ==================== CONSTANTES ====================
+
+const COMPLETENESS_LEVEL_CLASS = {
+  completa: 'bg-green-50 text-green-700 border-green-200',
+  parcial: 'bg-amber-50 text-amber-700 border-amber-200',
+  incompleta: 'bg-red-50 text-red-700 border-red-200'
+} as const;
+
 // ==================== FORMATTERS OPTIMIZADOS ====================
 
 /**
@@ -119,6 +147,10 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
   loading = false,
   onVerDetalle,
   onEditarEstatus,
+  highlightedIds = [],
+  isSelected,
+  onToggleSelect,
+  completeness,
   className = ''
 }) => {
 
@@ -143,12 +175,21 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
     });
 
     return {
+      userRoles,
       esSuperAdmin,
       esElemento,
       canViewActions: !esElemento // Elemento NO puede ver acciones
     };
   }, []);
 
+  /**
+   * Cambio de estatus pendiente de confirmación
+   */
+  const [pendingChange, setPendingChange] = useState<{
+    registro: RegistroHistorialIPH;
+    transition: StatusTransition;
+  } | null>(null);
+
   // ==================== CALLBACKS OPTIMIZADOS ====================
 
   /**
@@ -277,18 +318,31 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
   }, [permisos.esSuperAdmin, navigate, onVerDetalle]);
 
   /**
-   * Handler para cambio de estatus
+   * Handler para cambio de estatus (abre la confirmación si la transición es válida)
    */
   const handleEstatusChange = useCallback((registro: RegistroHistorialIPH, nuevoEstatus: RegistroHistorialIPH['estatus']) => {
-    if (onEditarEstatus && nuevoEstatus !== registro.estatus) {
-      logInfo('HistorialTable', 'Cambiando estatus de registro', {
-        registroId: registro.id,
-        estatusAnterior: registro.estatus,
-        nuevoEstatus
-      });
-      onEditarEstatus(registro.id, nuevoEstatus);
-    }
-  }, [onEditarEstatus]);
+    if (!onEditarEstatus || nuevoEstatus === registro.estatus) return;
+
+    const transition = getAllowedTransitions(registro.estatus, permisos.userRoles)
+      .find(t => t.to === nuevoEstatus);
+    if (!transition) return;
+
+    logInfo('HistorialTable', 'Solicitando cambio de estatus de registro', {
+      registroId: registro.id,
+      estatusAnterior: registro.estatus,
+      nuevoEstatus
+    });
+    setPendingChange({ registro, transition });
+  }, [onEditarEstatus, permisos.userRoles]);
+
+  /**
+   * Confirma el cambio pendiente con el comentario capturado
+   */
+  const handleConfirmEstatus = useCallback(async (comentario?: string) => {
+    if (!pendingChange || !onEditarEstatus) return;
+    await onEditarEstatus(pendingChange.registro.id, pendingChange.transition.to, comentario);
+    setPendingChange(null);
+  }, [pendingChange, onEditarEstatus]);
 
   // ==================== COMPONENTES MEMOIZADOS ====================
 
@@ -383,9 +437,38 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
         key: 'estatus',
         label: 'Estatus',
         width: 'w-32',
-        render: (registro: RegistroHistorialIPH) => (
-          <EstatusComponent registro={registro} />
-        )
+        render: (registro: RegistroHistorialIPH) => {
+          const transiciones = onEditarEstatus
+            ? getAllowedTransitions(registro.estatus, permisos.userRoles)
+            : [];
+
+          return (
+            <div className="flex items-center gap-2">
+              <EstatusComponent registro={registro} />
+              {transiciones.length > 0 && (
+                <select
+                  value=""
+                  onChange={(event) => handleEstatusChange(registro, event.target.value)}
+                  disabled={loading}
+                  className="
+                    max-w-[7rem] text-xs text-[#4d4725] bg-white
+                    border border-[#c2b186]/50 rounded-md px-1 py-0.5
+                    focus:outline-none focus:ring-2 focus:ring-[#4d4725]
+                    disabled:opacity-50 cursor-pointer
+                  "
+                  aria-label={`Cambiar estatus del registro ${registro.numeroReferencia}`}
+                >
+                  <option value="" disabled>Cambiar...</option>
+                  {transiciones.map(transition => (
+                    <option key={transition.to} value={transition.to}>
+                      {transition.actionLabel}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          );
+        }
       },
       {
         key: 'usuario',
@@ -407,6 +490,59 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
       }
     ];
 
+    // Completitud antes del usuario (solo si la vista la calcula)
+    if (completeness) {
+      baseColumns.splice(baseColumns.length - 1, 0, {
+        key: 'completitud',
+        label: 'Completitud',
+        width: 'w-28',
+        render: (registro: RegistroHistorialIPH) => {
+          if (!(registro.id in completeness)) {
+            return <Loader2 size={14} className="animate-spin text-gray-400" aria-label="Calculando completitud" />;
+          }
+
+          const summary = completeness[registro.id];
+          if (!summary) return <span className="text-xs text-gray-400">N/D</span>;
+
+          const detalle = [
+            `${IPH_COMPLETENESS_LEVEL_LABELS[summary.level]}: ${summary.score}%`,
+            summary.errors > 0 ? `${summary.errors} error${summary.errors === 1 ? '' : 'es'}` : null,
+            summary.warnings > 0 ? `${summary.warnings} advertencia${summary.warnings === 1 ? '' : 's'}` : null
+          ].filter(Boolean).join(' · ');
+
+          return (
+            <div className="flex items-center gap-1" title={detalle}>
+              <span className={`px-2 py-0.5 text-xs rounded-full border font-medium ${COMPLETENESS_LEVEL_CLASS[summary.level]}`}>
+                {summary.score}%
+              </span>
+              {summary.errors > 0 && (
+                <AlertTriangle size={12} className="text-red-600" aria-label="Con errores de consistencia" />
+              )}
+            </div>
+          );
+        }
+      });
+    }
+
+    // Casilla de selección múltiple al inicio (solo si la vista usa acciones masivas)
+    if (onToggleSelect) {
+      baseColumns.unshift({
+        key: 'seleccion',
+        label: '',
+        width: 'w-10',
+        render: (registro: RegistroHistorialIPH) => (
+          <input
+            type="checkbox"
+            checked={isSelected?.(registro.id) ?? false}
+            onChange={() => onToggleSelect(registro)}
+            disabled={loading}
+            className="h-4 w-4 rounded border-gray-300 accent-[#4d4725] cursor-pointer"
+            aria-label={`Seleccionar el registro ${registro.numeroReferencia}`}
+          />
+        )
+      });
+    }
+
     // Solo agregar columna de acciones si NO es Elemento
     if (permisos.canViewActions) {
       baseColumns.push({
@@ -437,7 +573,7 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
     }
 
     return baseColumns;
-  }, [loading, truncateText, formatUbicacionInteligente, handleVerDetalle, permisos.canViewActions]);
+  }, [loading, truncateText, formatUbicacionInteligente, handleVerDetalle, handleEstatusChange, onEditarEstatus, isSelected, onToggleSelect, completeness, permisos.canViewActions, permisos.userRoles]);
 
   // ==================== RENDER STATES ====================
 
@@ -518,6 +654,7 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
                 key={registro.id}
                 className={`
                   hover:bg-gray-50 transition-colors duration-150
+                  ${highlightedIds.includes(registro.id) || isSelected?.(registro.id) ? 'bg-[#f8f0e7]' : ''}
                   ${loading ? 'opacity-60' : ''}
                 `}
               >
@@ -544,6 +681,16 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
           </div>
         </div>
       )}
+
+      {/* Confirmación de cambio de estatus */}
+      {pendingChange && (
+        <CambioEstatusDialog
+          registro={pendingChange.registro}
+          transition={pendingChange.transition}
+          onConfirm={handleConfirmEstatus}
+          onCancel={() => setPendingChange(null)}
+        />
+      )}
     </div>
   );
 }, (prevProps, nextProps) => {
@@ -553,6 +700,10 @@ const HistorialTable: React.FC<HistorialTableProps> = React.memo(({
     prevProps.className === nextProps.className &&
     prevProps.onVerDetalle === nextProps.onVerDetalle &&
     prevProps.onEditarEstatus === nextProps.onEditarEstatus &&
+    prevProps.highlightedIds === nextProps.highlightedIds &&
+    prevProps.isSelected === nextProps.isSelected &&
+    prevProps.onToggleSelect === nextProps.onToggleSelect &&
+    prevProps.completeness === nextProps.completeness &&
     prevProps.registros.length === nextProps.registros.length &&
     // Comparación shallow de registros por ID y estatus (campos que más cambian)
     prevProps.registros.every((prevRegistro, index) => {
@@ -1,17 +1,28 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, LayoutGrid } from 'lucide-react';
 
 // Hook personalizado
 import useInicioDashboard from './hooks/useInicioDashboard';
+import { useDashboardLayout } from './hooks/useDashboardLayout';
 import useUserSession from '../../layout/hooks/useUserSession';
 
-// Componentes atómicos separados
-import GraficaCard from '../statistics/components/cards/GraficaCard';
-import GraficaSemanaCard from '../statistics/components/cards/GraficaSemanaCard';
+// Widgets del dashboard
+import {
+  DashboardEditToolbar,
+  DashboardWidgetFrame,
+  GraficaMesWidget,
+  GraficaSemanaWidget,
+  IphPendientesWidget,
+  ResumenTipoWidget,
+  TopCreadoresWidget,
+  VariacionAnualWidget
+} from './widgets';
 import { Breadcrumbs, type BreadcrumbItem } from '../../../shared/components/breadcrumbs';
 
 // Componentes comunes
-import { LoadingSpinner, ErrorMessage, Heatmap } from '../../common';
+import { ErrorMessage, Heatmap } from '../../common';
+
+import type { DashboardWidgetInstance } from '../../../../interfaces/components/dashboard-widgets.interface';
 
 /**
  * Props interface for Inicio component
@@ -93,6 +104,12 @@ const Inicio: React.FC<InicioProps> = ({ className = '' }) => {
     recargarDatos
   } = useInicioDashboard();
 
+  // Layout de widgets (usuario → rol → sistema) y modo edición
+  const layout = useDashboardLayout();
+
+  // Recarga de los widgets que consultan sus propios datos
+  const [refreshKey, setRefreshKey] = useState(0);
+
   // Hook para datos del usuario (para mensaje de bienvenida)
   const { userData, isLoading: userLoading } = useUserSession();
 
@@ -109,7 +126,7 @@ const Inicio: React.FC<InicioProps> = ({ className = '' }) => {
   // SCROLL MANAGEMENT REMOVIDO - Ahora se maneja en useInicioDashboard
 
   // Estados de carga y autorización
-  if (autorizado === null || loading || userLoading) {
+  if (autorizado === null || loading || userLoading || layout.loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="flex items-center gap-3 bg-white rounded-lg px-6 py-4 shadow-lg">
@@ -134,6 +151,41 @@ const Inicio: React.FC<InicioProps> = ({ className = '' }) => {
     );
   }
 
+  /**
+   * Contenido de cada widget del registro
+   */
+  const renderWidget = (widget: DashboardWidgetInstance): React.ReactNode => {
+    switch (widget.id) {
+      case 'grafica-mes':
+        return (
+          <GraficaMesWidget
+            datos={datosPorMes}
+            anioSeleccionado={anioSeleccionado}
+            setAnioSeleccionado={setAnioSeleccionado}
+          />
+        );
+      case 'grafica-semana':
+        return (
+          <GraficaSemanaWidget
+            datos={datosPorSemana}
+            semanaOffset={semanaOffset}
+            setSemanaOffset={setSemanaOffset}
+            loading={loading}
+          />
+        );
+      case 'resumen-tipo':
+        return <ResumenTipoWidget resumen={resumen} anio={anioSeleccionado} size={widget.size} />;
+      case 'variacion-anual':
+        return <VariacionAnualWidget variaciones={variaciones} anio={anioSeleccionado} size={widget.size} />;
+      case 'heatmap':
+        return <Heatmap />;
+      case 'top-creadores':
+        return <TopCreadoresWidget size={widget.size} refreshKey={refreshKey} />;
+      case 'iph-pendientes':
+        return <IphPendientesWidget refreshKey={refreshKey} />;
+    }
+  };
+
   // Breadcrumbs - Solo mostrar el icono de inicio con label vacío para evitar redundancia
   const breadcrumbItems: BreadcrumbItem[] = [
     { label: '', isActive: true }
@@ -176,11 +228,23 @@ const Inicio: React.FC<InicioProps> = ({ className = '' }) => {
                 </div>
               </div>
 
+              {!layout.editando && (
+                <button
+                  type="button"
+                  onClick={layout.iniciarEdicion}
+                  className="px-5 py-2.5 bg-white/20 text-white border border-white/30 rounded-lg hover:bg-white/30 active:scale-95 transition-all duration-200 cursor-pointer flex items-center gap-2 font-medium"
+                >
+                  <LayoutGrid className="w-4 h-4" />
+                  Personalizar
+                </button>
+              )}
+
               <button
                 type="button"
                 onClick={(e) => {
                   e.preventDefault();
                   recargarDatos();
+                  setRefreshKey(prev => prev + 1);
                 }}
                 disabled={loading}
                 className="px-5 py-2.5 bg-white text-[#4d4725] rounded-lg hover:bg-[#ede8d4] active:scale-95 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer flex items-center gap-2 font-medium shadow-md hover:shadow-lg"
@@ -194,181 +258,42 @@ const Inicio: React.FC<InicioProps> = ({ className = '' }) => {
           </div>
         </div>
 
-      {/* Gráficas de Reportes - Ahora arriba como solicitado */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-        <div className="animate-slideInLeft">
-          {datosPorMes && (
-            <GraficaCard
-              titulo="Reportes de IPH Mensual"
-              data={datosPorMes}
-              anioSeleccionado={anioSeleccionado}
-              setAnioSeleccionado={setAnioSeleccionado}
-            />
-          )}
-        </div>
-
-        <div className="animate-slideInRight">
-          {datosPorSemana && (
-            <GraficaSemanaCard
-              titulo="Reportes de IPH Día"
-              data={datosPorSemana}
-              semanaOffset={semanaOffset}
-              setSemanaOffset={setSemanaOffset}
-              loading={loading}
-              onDateRangeChange={(startDate, endDate) => {
-                console.log('📅 Calendar: Rango seleccionado desde el calendario:', {
-                  startDate: startDate.toISOString(),
-                  endDate: endDate.toISOString(),
-                  startFormatted: startDate.toLocaleDateString('es-ES'),
-                  endFormatted: endDate.toLocaleDateString('es-ES')
-                });
-
-                // Calcular diferencia en semanas desde hoy hasta la fecha de fin del rango
-                const hoy = new Date();
-                const inicioSemanaActual = new Date(hoy);
-                const diaSemana = hoy.getDay();
-                const diasHastaLunes = diaSemana === 0 ? -6 : 1 - diaSemana;
-                inicioSemanaActual.setDate(hoy.getDate() + diasHastaLunes);
-                inicioSemanaActual.setHours(0, 0, 0, 0);
-
-                const inicioRangoSeleccionado = new Date(startDate);
-                inicioRangoSeleccionado.setHours(0, 0, 0, 0);
-
-                const diffTime = inicioSemanaActual.getTime() - inicioRangoSeleccionado.getTime();
-                const diffWeeks = Math.round(diffTime / (1000 * 60 * 60 * 24 * 7));
-
-                // El offset es la diferencia: 0 = semana actual, negativo = semanas pasadas
-                const targetOffset = -diffWeeks;
-
-                console.log('📊 Calendar: Cálculo de offset:', {
-                  inicioSemanaActual: inicioSemanaActual.toISOString(),
-                  inicioRangoSeleccionado: inicioRangoSeleccionado.toISOString(),
-                  diffTime,
-                  diffWeeks,
-                  targetOffset,
-                  currentOffset: semanaOffset
-                });
-
-                // Solo actualizar si el offset calculado es diferente al actual
-                if (targetOffset !== semanaOffset) {
-                  console.log(`📡 Calendar: Actualizando offset de ${semanaOffset} a ${targetOffset}`);
-                  setSemanaOffset(targetOffset);
-                } else {
-                  console.log('📡 Calendar: El offset calculado es igual al actual, no se requiere actualización');
-                }
-              }}
-            />
-          )}
-        </div>
-      </div>
-
-      {/* Tarjetas de Resumen - Mejoradas con animaciones */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-        {/* Justicia Civil */}
-        <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 animate-fadeIn">
-          <div className="flex items-center gap-3 mb-5">
-            <div className="p-2 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg">
-              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
-              </svg>
-            </div>
-            <h2 className="text-xl font-bold text-[#4d4725]">Justicia Civil</h2>
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            {/* Con Detenidos */}
-            <div className="group relative flex flex-col items-center justify-center text-center bg-gradient-to-br from-[#f8f0e7] to-[#ede8d4] rounded-xl p-5 shadow-md transition-all duration-300  border border-[#e5dcc3]">
-              <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-               
-              </div>
-              <div className="text-5xl mb-2">🪪</div>
-              <p className="text-sm font-semibold text-[#4d4725] mb-1">Con Detenidos</p>
-              
-              <p className="text-4xl font-bold text-[#4d4725] mb-2">{resumen.justicia.conDetenido}</p>
-              <div className="flex items-center gap-1 px-3 py-1 bg-green-100 rounded-full">
-                <svg className="w-3 h-3 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
-                </svg>
-                <span className="text-xs font-bold text-green-700">+{Math.abs(variaciones.justicia.con)}%</span>
-              </div>
-              <p className="text-xs text-[#6b6b47] mb-3 px-2">Aumento anual de personas detenidas bajo proceso judicial</p>
-            </div>
-            
+      {/* Barra de personalización */}
+      {layout.editando && (
+        <DashboardEditToolbar
+          disponibles={layout.disponibles}
+          origen={layout.origen}
+          guardando={layout.guardando}
+          onAgregar={layout.agregar}
+          onGuardar={layout.guardar}
+          onCancelar={layout.cancelarEdicion}
+          onRestablecer={layout.restablecer}
+        />
+      )}
 
-            {/* Sin Detenidos */}
-            <div className="group relative flex flex-col items-center justify-center text-center bg-gradient-to-br from-[#f8f0e7] to-[#ede8d4] rounded-xl p-5 shadow-md transition-all duration-300  border border-[#e5dcc3]">
-              <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-              </div>
-              <div className="text-5xl mb-2">🧍‍♂️</div>
-              <p className="text-sm font-semibold text-[#4d4725] mb-1">Sin Detenidos</p>
-              <p className="text-4xl font-bold text-[#4d4725] mb-2">{resumen.justicia.sinDetenido}</p>
-              <div className="flex items-center gap-1 px-3 py-1 bg-red-100 rounded-full">
-                <svg className="w-3 h-3 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
-                </svg>
-                <span className="text-xs font-bold text-red-700">+{Math.abs(variaciones.justicia.sin)}%</span>
-              </div>
-              <p className="text-xs text-[#6b6b47] mb-3 px-2">Aumento anual de casos de justicia civica sin detenidos</p>
-            </div>
-            
-          </div>
-          
+      {/* Widgets configurables */}
+      {layout.widgets.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-10 mb-8 text-center text-gray-500">
+          No hay widgets en tu dashboard. Usa “Personalizar” para agregar alguno.
         </div>
-
-        {/* Probable Delictivo */}
-        <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 animate-fadeIn" style={{ animationDelay: '100ms' }}>
-          <div className="flex items-center gap-3 mb-5">
-            <div className="p-2 bg-gradient-to-br from-red-500 to-red-600 rounded-lg">
-              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-              </svg>
-            </div>
-            <h2 className="text-xl font-bold text-[#4d4725]">Probable Delictivo</h2>
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            {/* Con Detenidos */}
-            <div className="group relative flex flex-col items-center justify-center text-center bg-gradient-to-br from-[#f8f0e7] to-[#ede8d4] rounded-xl p-5 shadow-md transition-all duration-300  border border-[#e5dcc3]">
-              <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-              </div>
-              <div className="text-5xl mb-2">👮</div>
-              <p className="text-sm font-semibold text-[#4d4725] mb-1">Con Detenidos</p>
-              <p className="text-4xl font-bold text-[#4d4725] mb-2">{resumen.delito.conDetenido}</p>
-              <div className="flex items-center gap-1 px-3 py-1 bg-green-100 rounded-full">
-                <svg className="w-3 h-3 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
-                </svg>
-                <span className="text-xs font-bold text-green-700">+{Math.abs(variaciones.delito.con)}%</span>
-              </div>
-              <p className="text-xs text-[#6b6b47] mb-3 px-2">Aumento anual de casos de iph probable delictivo con detenidos</p>
-            </div>
-
-            {/* Sin Detenidos */}
-            <div className="group relative flex flex-col items-center justify-center text-center bg-gradient-to-br from-[#f8f0e7] to-[#ede8d4] rounded-xl p-5 shadow-md transition-all duration-300  border border-[#e5dcc3]">
-              <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-              
-              </div>
-              <div className="text-5xl mb-2">⛓️</div>
-              <p className="text-sm font-semibold text-[#4d4725] mb-1">Sin Detenidos</p>
-              <p className="text-4xl font-bold text-[#4d4725] mb-2">{resumen.delito.sinDetenido}</p>
-              <div className="flex items-center gap-1 px-3 py-1 bg-green-100 rounded-full">
-                <svg className="w-3 h-3 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
-                </svg>
-                <span className="text-xs font-bold text-green-700">+{Math.abs(variaciones.delito.sin)}%</span>
-              </div>
-              <p className="text-xs text-[#6b6b47] mb-3 px-2">
-                Aumento anua l de casos de iph probable delictivo sin detenidos
-              </p>
-            </div>
-          </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-8">
+          {layout.widgets.map((widget, indice) => (
+            <DashboardWidgetFrame
+              key={widget.id}
+              widget={widget}
+              editando={layout.editando}
+              esPrimero={indice === 0}
+              esUltimo={indice === layout.widgets.length - 1}
+              onMover={(desplazamiento) => layout.mover(widget.id, desplazamiento)}
+              onCambiarTamano={(size) => layout.cambiarTamano(widget.id, size)}
+              onQuitar={() => layout.quitar(widget.id)}
+            >
+              {renderWidget(widget)}
+            </DashboardWidgetFrame>
+          ))}
         </div>
-      </div>
-      
-     
-      {/* Acceso al mapa de calor */}
-          <Heatmap className='pg-2 mb-5'></Heatmap>
-        {/* Quick Access Cards Grid */}
+      )}
 
       {/* Quick Access Section - Mantenida con estilo mejorado */}
       <div className="bg-white rounded-lg shadow-md overflow-hidden">
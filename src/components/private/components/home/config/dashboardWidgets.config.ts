@@ -0,0 +1,127 @@
+/**
+ * Registro de widgets del dashboard de Inicio
+ * Aquí puedes agregar widgets o cambiar sus tamaños permitidos y el rol mínimo para verlos
+ *
+ * @module dashboardWidgets.config
+ * @version 1.0.0
+ */
+
+import {
+  BarChart3,
+  CalendarDays,
+  ClipboardList,
+  MapPin,
+  PieChart,
+  TrendingUp,
+  Trophy
+} from 'lucide-react';
+import type {
+  DashboardWidgetDefinition,
+  DashboardWidgetId,
+  DashboardWidgetInstance,
+  DashboardWidgetSize
+} from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+/**
+ * Definición de cada widget disponible
+ */
+export const DASHBOARD_WIDGETS: Record<DashboardWidgetId, DashboardWidgetDefinition> = {
+  'grafica-mes': {
+    id: 'grafica-mes',
+    titulo: 'Reportes de IPH Mensual',
+    descripcion: 'IPH por mes del año con tendencia y pronóstico',
+    icon: BarChart3,
+    defaultSize: 'mediano',
+    allowedSizes: ['mediano', 'completo'],
+    minRole: 'ELEMENTO'
+  },
+  'grafica-semana': {
+    id: 'grafica-semana',
+    titulo: 'Reportes de IPH Día',
+    descripcion: 'IPH por día de la semana con navegación entre semanas',
+    icon: CalendarDays,
+    defaultSize: 'mediano',
+    allowedSizes: ['mediano', 'completo'],
+    minRole: 'ELEMENTO'
+  },
+  'resumen-tipo': {
+    id: 'resumen-tipo',
+    titulo: 'Resumen por tipo',
+    descripcion: 'IPH de Justicia Cívica y Probable Delictivo con y sin detenidos en el año',
+    icon: PieChart,
+    defaultSize: 'mediano',
+    allowedSizes: ['mediano', 'completo'],
+    minRole: 'ELEMENTO'
+  },
+  'variacion-anual': {
+    id: 'variacion-anual',
+    titulo: 'Variación anual',
+    descripcion: 'Cambio porcentual contra el año anterior por tipo y detenido',
+    icon: TrendingUp,
+    defaultSize: 'mediano',
+    allowedSizes: ['chico', 'mediano', 'completo'],
+    minRole: 'ELEMENTO'
+  },
+  heatmap: {
+    id: 'heatmap',
+    titulo: 'Mapa de calor',
+    descripcion: 'Concentración geográfica de IPH',
+    icon: MapPin,
+    defaultSize: 'completo',
+    allowedSizes: ['mediano', 'completo'],
+    minRole: 'ELEMENTO'
+  },
+  'top-creadores': {
+    id: 'top-creadores',
+    titulo: 'Top creadores de IPH',
+    descripcion: 'Usuarios que más IPH han elaborado en el mes',
+    icon: Trophy,
+    defaultSize: 'chico',
+    allowedSizes: ['chico', 'mediano'],
+    minRole: 'SUPERIOR'
+  },
+  'iph-pendientes': {
+    id: 'iph-pendientes',
+    titulo: 'IPH pendientes',
+    descripcion: 'IPH en proceso o en espera de supervisión',
+    icon: ClipboardList,
+    defaultSize: 'chico',
+    allowedSizes: ['chico', 'mediano'],
+    minRole: 'ELEMENTO'
+  }
+};
+
+/**
+ * Orden del registro (selector de "Agregar widget")
+ */
+export const DASHBOARD_WIDGET_IDS = Object.keys(DASHBOARD_WIDGETS) as DashboardWidgetId[];
+
+/**
+ * Layout del sistema, cuando el usuario no tiene uno guardado
+ * Los widgets que el rol no puede ver se descartan al sanitizar
+ */
+export const DEFAULT_DASHBOARD_WIDGETS: readonly DashboardWidgetInstance[] = [
+  { id: 'grafica-mes', size: 'mediano' },
+  { id: 'grafica-semana', size: 'mediano' },
+  { id: 'resumen-tipo', size: 'mediano' },
+  { id: 'variacion-anual', size: 'mediano' },
+  { id: 'heatmap', size: 'completo' }
+];
+
+/**
+ * Etiquetas de los tamaños para el modo edición
+ */
+export const DASHBOARD_WIDGET_SIZE_LABELS: Record<DashboardWidgetSize, string> = {
+  chico: 'Chico',
+  mediano: 'Mediano',
+  completo: 'Completo'
+};
+
+/**
+ * Columnas que ocupa cada tamaño en la cuadrícula (lg:grid-cols-4)
+ */
+export const DASHBOARD_WIDGET_SIZE_CLASSES: Record<DashboardWidgetSize, string> = {
+  chico: 'lg:col-span-1',
+  mediano: 'lg:col-span-2',
+  completo: 'lg:col-span-4'
+};
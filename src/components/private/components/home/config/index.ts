@@ -0,0 +1,11 @@
+/**
+ * Exportaciones centralizadas de la configuración del dashboard de Inicio
+ */
+
+export {
+  DASHBOARD_WIDGETS,
+  DASHBOARD_WIDGET_IDS,
+  DEFAULT_DASHBOARD_WIDGETS,
+  DASHBOARD_WIDGET_SIZE_LABELS,
+  DASHBOARD_WIDGET_SIZE_CLASSES
+} from './dashboardWidgets.config';
@@ -0,0 +1,166 @@
+/**
+ * Hook para el layout de widgets del dashboard de Inicio
+ * Resuelve el layout (usuario → sistema) y maneja el modo edición
+ *
+ * @pattern Custom Hook - Separación de lógica y presentación
+ * @uses dashboard-layout.helper - Persistencia por usuario y rol
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+
+import {
+  resolveDashboardLayout,
+  saveUserDashboardLayout,
+  resetUserDashboardLayout
+} from '../../../../../helper/dashboard-layout/dashboard-layout.helper';
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+import {
+  getSystemRoleTypes,
+  hasHierarchicalAccess,
+  hasRole,
+  type SystemRoleType
+} from '../../../../../config/permissions.config';
+import { logError } from '../../../../../helper/log/logger.helper';
+import { showError, showSuccess } from '../../../../../helper/notification/notification.helper';
+
+import { DASHBOARD_WIDGETS, DEFAULT_DASHBOARD_WIDGETS } from '../config';
+import {
+  agregarWidget,
+  cambiarTamanoWidget,
+  moverWidget,
+  quitarWidget,
+  sanitizarLayout,
+  widgetsDisponibles,
+  type WidgetPermitido
+} from '../utils';
+
+import type {
+  DashboardLayoutSource,
+  DashboardWidgetId,
+  DashboardWidgetInstance,
+  DashboardWidgetSize,
+  UseDashboardLayoutReturn
+} from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+/**
+ * Hook del layout del dashboard
+ */
+export const useDashboardLayout = (): UseDashboardLayoutReturn => {
+  const userRoles = useMemo(() => getUserRoles(), []);
+
+  // Rol de mayor jerarquía: el layout se guarda por usuario y por este rol
+  const rol = useMemo<SystemRoleType | null>(
+    () => getSystemRoleTypes().find(tipo => hasRole(userRoles, tipo)) ?? null,
+    [userRoles]
+  );
+
+  const permitido = useCallback<WidgetPermitido>(
+    id => hasHierarchicalAccess(userRoles, DASHBOARD_WIDGETS[id].minRole),
+    [userRoles]
+  );
+
+  const [guardados, setGuardados] = useState<DashboardWidgetInstance[]>(() =>
+    sanitizarLayout(DEFAULT_DASHBOARD_WIDGETS, permitido)
+  );
+  const [borrador, setBorrador] = useState<DashboardWidgetInstance[] | null>(null);
+  const [origen, setOrigen] = useState<DashboardLayoutSource>('sistema');
+  const [loading, setLoading] = useState(true);
+  const [guardando, setGuardando] = useState(false);
+
+  const cargarLayout = useCallback(async () => {
+    if (!rol) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const resultado = await resolveDashboardLayout(rol);
+      setGuardados(sanitizarLayout(resultado.layout?.widgets ?? DEFAULT_DASHBOARD_WIDGETS, permitido));
+      setOrigen(resultado.origen);
+    } catch (error) {
+      logError('useDashboardLayout', error, 'Error cargando layout del dashboard');
+    } finally {
+      setLoading(false);
+    }
+  }, [rol, permitido]);
+
+  useEffect(() => {
+    cargarLayout();
+  }, [cargarLayout]);
+
+  // =====================================================
+  // EDICIÓN
+  // =====================================================
+
+  const editando = borrador !== null;
+  const widgets = borrador ?? guardados;
+
+  const editar = useCallback((cambio: (actual: DashboardWidgetInstance[]) => DashboardWidgetInstance[]) => {
+    setBorrador(prev => (prev ? cambio(prev) : prev));
+  }, []);
+
+  const iniciarEdicion = useCallback(() => setBorrador(guardados), [guardados]);
+  const cancelarEdicion = useCallback(() => setBorrador(null), []);
+
+  const agregar = useCallback((id: DashboardWidgetId) => editar(actual => agregarWidget(actual, id)), [editar]);
+  const quitar = useCallback((id: DashboardWidgetId) => editar(actual => quitarWidget(actual, id)), [editar]);
+  const mover = useCallback(
+    (id: DashboardWidgetId, desplazamiento: number) => editar(actual => moverWidget(actual, id, desplazamiento)),
+    [editar]
+  );
+  const cambiarTamano = useCallback(
+    (id: DashboardWidgetId, size: DashboardWidgetSize) => editar(actual => cambiarTamanoWidget(actual, id, size)),
+    [editar]
+  );
+
+  const disponibles = useMemo(() => widgetsDisponibles(widgets, permitido), [widgets, permitido]);
+
+  // =====================================================
+  // PERSISTENCIA
+  // =====================================================
+
+  const guardar = useCallback(async () => {
+    if (!rol || !borrador) return;
+
+    setGuardando(true);
+    try {
+      await saveUserDashboardLayout(rol, borrador);
+      setGuardados(borrador);
+      setOrigen('usuario');
+      setBorrador(null);
+      showSuccess('Tu dashboard se guardó correctamente', 'Dashboard');
+    } catch (error) {
+      logError('useDashboardLayout', error, 'Error guardando layout del dashboard');
+      showError('No se pudo guardar el dashboard. Intenta de nuevo.', 'Dashboard');
+    } finally {
+      setGuardando(false);
+    }
+  }, [rol, borrador]);
+
+  const restablecer = useCallback(async () => {
+    if (!rol) return;
+
+    resetUserDashboardLayout(rol);
+    setBorrador(null);
+    await cargarLayout();
+    showSuccess('Se restableció el dashboard predeterminado del sistema', 'Dashboard');
+  }, [rol, cargarLayout]);
+
+  return {
+    widgets,
+    origen,
+    loading,
+    editando,
+    guardando,
+    rol,
+    disponibles,
+    iniciarEdicion,
+    cancelarEdicion,
+    guardar,
+    agregar,
+    quitar,
+    mover,
+    cambiarTamano,
+    restablecer
+  };
+};
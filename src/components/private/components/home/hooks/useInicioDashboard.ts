@@ -15,7 +15,7 @@
  * - ✅ Reducción total: ~43 líneas eliminadas
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 
 // Servicios
@@ -36,6 +36,9 @@ import { canAccessElemento } from '../../../../../config/permissions.config';
 import { showError } from '../../../../../helper/notification/notification.helper';
 import { logInfo, logError } from '../../../../../helper/log/logger.helper';
 
+// Eventos en tiempo real (SSE)
+import { useIphRealtime } from '../../../../shared/hooks/useIphRealtime';
+
 // Context
 
 // Interfaces
@@ -59,6 +62,9 @@ interface DashboardState {
   // datosUsuarios: IUsuarioIphCountResponse | null;
 }
 
+/** Agrupa ráfagas de IPH nuevos en una sola recarga de contadores */
+const REALTIME_REFRESH_DEBOUNCE = 2000;
+
 interface DashboardControls {
   semanaOffset: number;
   anioSeleccionado: number;
@@ -252,6 +258,46 @@ const useInicioDashboard = () => {
     }
   }, [state.autorizado]);
 
+  // =====================================================
+  // TIEMPO REAL
+  // =====================================================
+
+  // Refs para recargar con los controles vigentes sin resuscribir al stream
+  const controlesRef = useRef({ semanaOffset, anioSeleccionado });
+  const realtimeRefreshTimer = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    controlesRef.current = { semanaOffset, anioSeleccionado };
+  }, [semanaOffset, anioSeleccionado]);
+
+  /**
+   * Un IPH nuevo cambia resumen, variaciones y gráficas; se recargan sin spinner
+   */
+  const handleIphCreado = useCallback(() => {
+    if (realtimeRefreshTimer.current) {
+      clearTimeout(realtimeRefreshTimer.current);
+    }
+    realtimeRefreshTimer.current = setTimeout(() => {
+      const { anioSeleccionado: anio, semanaOffset: offset } = controlesRef.current;
+      logInfo('useInicioDashboard', 'Actualizando contadores por IPH nuevo', { anio, offset });
+      cargarDatosPorAnio(anio);
+      cargarDatosPorSemana(offset);
+    }, REALTIME_REFRESH_DEBOUNCE);
+  }, [cargarDatosPorAnio, cargarDatosPorSemana]);
+
+  useIphRealtime(handleIphCreado, {
+    enabled: state.autorizado === true,
+    types: ['iph.created']
+  });
+
+  useEffect(() => {
+    return () => {
+      if (realtimeRefreshTimer.current) {
+        clearTimeout(realtimeRefreshTimer.current);
+      }
+    };
+  }, []);
+
   // =====================================================
   // EFFECTS
   // =====================================================
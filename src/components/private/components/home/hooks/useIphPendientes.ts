@@ -0,0 +1,65 @@
+/**
+ * Hook para el widget de IPH pendientes del dashboard
+ *
+ * @pattern Custom Hook - Separación de lógica y presentación
+ * @uses getEstatusIph - Conteo de IPH por estatus
+ */
+
+import { useEffect, useState } from 'react';
+import { getEstatusIph } from '../../../../shared/services/estatus/estatus-iph.service';
+import { logError } from '../../../../../helper/log/logger.helper';
+import type { StatusType } from '../../../../../config/status.config';
+
+/**
+ * Estatus que cuentan como pendientes (aún no finalizados)
+ */
+export const ESTATUS_PENDIENTES: readonly StatusType[] = ['Procesando', 'Supervisión'];
+
+export interface IphPendientesPorEstatus {
+  estatus: StatusType;
+  cantidad: number;
+}
+
+/**
+ * IPH en proceso o en supervisión
+ *
+ * @param refreshKey - Cambia para forzar la recarga (botón "Actualizar" del dashboard)
+ */
+export const useIphPendientes = (refreshKey: number = 0) => {
+  const [porEstatus, setPorEstatus] = useState<IphPendientesPorEstatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelado = false;
+    setLoading(true);
+    setError(null);
+
+    getEstatusIph()
+      .then(respuesta => {
+        if (cancelado) return;
+        const conteos = respuesta.data.estatusPorIph;
+        setPorEstatus(ESTATUS_PENDIENTES.map(estatus => ({
+          estatus,
+          cantidad: conteos
+            .filter(item => item.estatus === estatus)
+            .reduce((suma, item) => suma + item.cantidad, 0)
+        })));
+      })
+      .catch(err => {
+        logError('useIphPendientes', err, 'Error cargando IPH pendientes');
+        if (!cancelado) setError(err instanceof Error ? err.message : 'No se pudieron cargar los IPH pendientes');
+      })
+      .finally(() => {
+        if (!cancelado) setLoading(false);
+      });
+
+    return () => {
+      cancelado = true;
+    };
+  }, [refreshKey]);
+
+  const total = porEstatus.reduce((suma, item) => suma + item.cantidad, 0);
+
+  return { porEstatus, total, loading, error };
+};
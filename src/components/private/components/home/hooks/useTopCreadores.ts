@@ -0,0 +1,54 @@
+/**
+ * Hook para el widget de top creadores de IPH del dashboard
+ *
+ * @pattern Custom Hook - Separación de lógica y presentación
+ * @uses estadisticasUsuarioIphService - Ranking de mayores creadores del mes
+ */
+
+import { useEffect, useState } from 'react';
+import { estadisticasUsuarioIphService } from '../../statistics/services/estadisticas-usuario-iph.service';
+import { logError } from '../../../../../helper/log/logger.helper';
+import { PeriodoEnum, type UsuarioEstadistica } from '../../../../../interfaces/IEstadisticasUsuarioIph';
+
+/**
+ * Ranking de los usuarios que más IPH elaboraron en el mes en curso
+ *
+ * @param limite - Cantidad de usuarios a mostrar
+ * @param refreshKey - Cambia para forzar la recarga (botón "Actualizar" del dashboard)
+ */
+export const useTopCreadores = (limite: number, refreshKey: number = 0) => {
+  const [usuarios, setUsuarios] = useState<UsuarioEstadistica[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelado = false;
+    const hoy = new Date();
+    setLoading(true);
+    setError(null);
+
+    estadisticasUsuarioIphService
+      .getRankingMayoresCreadores({
+        periodo: PeriodoEnum.MENSUAL,
+        anio: hoy.getFullYear(),
+        mes: hoy.getMonth() + 1,
+        limite
+      })
+      .then(ranking => {
+        if (!cancelado) setUsuarios(ranking.data.slice(0, limite));
+      })
+      .catch(err => {
+        logError('useTopCreadores', err, 'Error cargando top creadores de IPH');
+        if (!cancelado) setError(err instanceof Error ? err.message : 'No se pudo cargar el ranking');
+      })
+      .finally(() => {
+        if (!cancelado) setLoading(false);
+      });
+
+    return () => {
+      cancelado = true;
+    };
+  }, [limite, refreshKey]);
+
+  return { usuarios, loading, error };
+};
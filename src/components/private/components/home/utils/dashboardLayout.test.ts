@@ -0,0 +1,72 @@
+/**
+ * Tests para la edición del layout de widgets del dashboard
+ *
+ * @module dashboardLayoutTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  agregarWidget,
+  cambiarTamanoWidget,
+  moverWidget,
+  quitarWidget,
+  sanitizarLayout,
+  widgetsDisponibles
+} from './dashboardLayout';
+import type { DashboardWidgetInstance } from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+const todos = () => true;
+const sinTopCreadores = (id: string) => id !== 'top-creadores';
+
+const layout: DashboardWidgetInstance[] = [
+  { id: 'grafica-mes', size: 'mediano' },
+  { id: 'grafica-semana', size: 'mediano' },
+  { id: 'heatmap', size: 'completo' }
+];
+
+describe('sanitizarLayout', () => {
+  it('descarta widgets desconocidos, repetidos y no permitidos', () => {
+    const guardado = [
+      { id: 'heatmap', size: 'completo' },
+      { id: 'widget-retirado', size: 'chico' },
+      { id: 'heatmap', size: 'mediano' },
+      { id: 'top-creadores', size: 'chico' },
+      null
+    ];
+    expect(sanitizarLayout(guardado, sinTopCreadores)).toEqual([{ id: 'heatmap', size: 'completo' }]);
+  });
+
+  it('corrige tamaños no permitidos al tamaño por defecto', () => {
+    expect(sanitizarLayout([{ id: 'heatmap', size: 'chico' }], todos)).toEqual([{ id: 'heatmap', size: 'completo' }]);
+    expect(sanitizarLayout([{ id: 'iph-pendientes' }], todos)).toEqual([{ id: 'iph-pendientes', size: 'chico' }]);
+  });
+});
+
+describe('edición', () => {
+  it('agrega al final con el tamaño por defecto y no duplica', () => {
+    const conPendientes = agregarWidget(layout, 'iph-pendientes');
+    expect(conPendientes[3]).toEqual({ id: 'iph-pendientes', size: 'chico' });
+    expect(agregarWidget(conPendientes, 'iph-pendientes')).toHaveLength(4);
+  });
+
+  it('quita un widget', () => {
+    expect(quitarWidget(layout, 'grafica-semana').map(widget => widget.id)).toEqual(['grafica-mes', 'heatmap']);
+  });
+
+  it('mueve sin salirse de los extremos', () => {
+    expect(moverWidget(layout, 'heatmap', -1).map(widget => widget.id)).toEqual(['grafica-mes', 'heatmap', 'grafica-semana']);
+    expect(moverWidget(layout, 'grafica-mes', -3).map(widget => widget.id)).toEqual(['grafica-mes', 'grafica-semana', 'heatmap']);
+    expect(moverWidget(layout, 'grafica-mes', 10).map(widget => widget.id)).toEqual(['grafica-semana', 'heatmap', 'grafica-mes']);
+  });
+
+  it('solo cambia a tamaños permitidos', () => {
+    expect(cambiarTamanoWidget(layout, 'grafica-mes', 'completo')[0].size).toBe('completo');
+    expect(cambiarTamanoWidget(layout, 'grafica-mes', 'chico')[0].size).toBe('mediano');
+  });
+
+  it('lista los widgets permitidos que faltan en orden del registro', () => {
+    expect(widgetsDisponibles(layout, sinTopCreadores).map(widget => widget.id))
+      .toEqual(['resumen-tipo', 'variacion-anual', 'iph-pendientes']);
+  });
+});
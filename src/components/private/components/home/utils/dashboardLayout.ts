@@ -0,0 +1,124 @@
+/**
+ * Utilidades para editar el layout de widgets del dashboard de Inicio
+ * Funciones puras: reciben el layout y devuelven uno nuevo
+ *
+ * @module dashboardLayout
+ * @version 1.0.0
+ */
+
+import { DASHBOARD_WIDGETS, DASHBOARD_WIDGET_IDS } from '../config/dashboardWidgets.config';
+import type {
+  DashboardWidgetDefinition,
+  DashboardWidgetId,
+  DashboardWidgetInstance,
+  DashboardWidgetSize
+} from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+/**
+ * Indica si el rol vigente puede ver un widget
+ */
+export type WidgetPermitido = (id: DashboardWidgetId) => boolean;
+
+const esWidgetId = (id: unknown): id is DashboardWidgetId =>
+  typeof id === 'string' && Object.prototype.hasOwnProperty.call(DASHBOARD_WIDGETS, id);
+
+/**
+ * Limpia un layout leído del almacenamiento
+ * Descarta widgets desconocidos, no permitidos o repetidos y corrige tamaños inválidos
+ *
+ * @example
+ * ```typescript
+ * sanitizarLayout([{ id: 'heatmap', size: 'chico' }, { id: 'heatmap', size: 'completo' }], () => true);
+ * // [{ id: 'heatmap', size: 'completo' }] (chico no está permitido; el repetido se descarta)
+ * ```
+ */
+export const sanitizarLayout = (
+  widgets: readonly unknown[],
+  permitido: WidgetPermitido
+): DashboardWidgetInstance[] => {
+  const vistos = new Set<DashboardWidgetId>();
+  const resultado: DashboardWidgetInstance[] = [];
+
+  for (const widget of widgets) {
+    if (!widget || typeof widget !== 'object') continue;
+    const { id, size } = widget as { id?: unknown; size?: unknown };
+    if (!esWidgetId(id) || vistos.has(id) || !permitido(id)) continue;
+
+    const definicion = DASHBOARD_WIDGETS[id];
+    const tamanoValido = definicion.allowedSizes.includes(size as DashboardWidgetSize);
+
+    vistos.add(id);
+    resultado.push({ id, size: tamanoValido ? (size as DashboardWidgetSize) : definicion.defaultSize });
+  }
+
+  return resultado;
+};
+
+/**
+ * Agrega un widget al final con su tamaño por defecto (si aún no está)
+ */
+export const agregarWidget = (
+  widgets: readonly DashboardWidgetInstance[],
+  id: DashboardWidgetId
+): DashboardWidgetInstance[] =>
+  widgets.some(widget => widget.id === id)
+    ? [...widgets]
+    : [...widgets, { id, size: DASHBOARD_WIDGETS[id].defaultSize }];
+
+/**
+ * Quita un widget del layout
+ */
+export const quitarWidget = (
+  widgets: readonly DashboardWidgetInstance[],
+  id: DashboardWidgetId
+): DashboardWidgetInstance[] => widgets.filter(widget => widget.id !== id);
+
+/**
+ * Mueve un widget N posiciones (negativo = antes), sin salirse de los extremos
+ *
+ * @example
+ * ```typescript
+ * moverWidget(layout, 'heatmap', -1); // Sube el mapa de calor una posición
+ * ```
+ */
+export const moverWidget = (
+  widgets: readonly DashboardWidgetInstance[],
+  id: DashboardWidgetId,
+  desplazamiento: number
+): DashboardWidgetInstance[] => {
+  const origen = widgets.findIndex(widget => widget.id === id);
+  if (origen === -1) return [...widgets];
+
+  const destino = Math.min(Math.max(origen + desplazamiento, 0), widgets.length - 1);
+  if (destino === origen) return [...widgets];
+
+  const resultado = [...widgets];
+  const [widget] = resultado.splice(origen, 1);
+  resultado.splice(destino, 0, widget);
+  return resultado;
+};
+
+/**
+ * Cambia el tamaño de un widget si el tamaño está permitido para él
+ */
+export const cambiarTamanoWidget = (
+  widgets: readonly DashboardWidgetInstance[],
+  id: DashboardWidgetId,
+  size: DashboardWidgetSize
+): DashboardWidgetInstance[] =>
+  DASHBOARD_WIDGETS[id].allowedSizes.includes(size)
+    ? widgets.map(widget => (widget.id === id ? { ...widget, size } : widget))
+    : [...widgets];
+
+/**
+ * Widgets permitidos que todavía no están en el layout, en el orden del registro
+ */
+export const widgetsDisponibles = (
+  widgets: readonly DashboardWidgetInstance[],
+  permitido: WidgetPermitido
+): DashboardWidgetDefinition[] => {
+  const enLayout = new Set(widgets.map(widget => widget.id));
+  return DASHBOARD_WIDGET_IDS
+    .filter(id => !enLayout.has(id) && permitido(id))
+    .map(id => DASHBOARD_WIDGETS[id]);
+};
@@ -0,0 +1,7 @@
+/**
+ * Barrel export para utilidades del dashboard de Inicio
+ *
+ * @module utils
+ */
+
+export * from './dashboardLayout';
@@ -0,0 +1,117 @@
+/**
+ * Barra del modo edición del dashboard de Inicio
+ * Agregar widgets, guardar/cancelar y restablecer el predeterminado del sistema
+ *
+ * @module DashboardEditToolbar
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { Check, Plus, RotateCcw, X } from 'lucide-react';
+import type {
+  DashboardLayoutSource,
+  DashboardWidgetDefinition,
+  DashboardWidgetId
+} from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+export interface DashboardEditToolbarProps {
+  disponibles: DashboardWidgetDefinition[];
+  origen: DashboardLayoutSource;
+  guardando: boolean;
+  onAgregar: (id: DashboardWidgetId) => void;
+  onGuardar: () => void;
+  onCancelar: () => void;
+  onRestablecer: () => void;
+}
+
+const ETIQUETAS_ORIGEN: Record<DashboardLayoutSource, string> = {
+  usuario: 'Tu dashboard personalizado',
+  sistema: 'Predeterminado del sistema'
+};
+
+const botonSecundario = `
+  flex items-center gap-2 px-3 py-2 text-sm font-medium text-[#4d4725] bg-white
+  border border-[#c2b186] rounded-lg hover:bg-[#fdf7f1] transition-colors
+  disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer
+`;
+
+/**
+ * Barra de edición del dashboard
+ */
+export const DashboardEditToolbar: React.FC<DashboardEditToolbarProps> = ({
+  disponibles,
+  origen,
+  guardando,
+  onAgregar,
+  onGuardar,
+  onCancelar,
+  onRestablecer
+}) => {
+  return (
+    <div className="bg-white rounded-xl border-2 border-dashed border-[#c2b186] p-4 mb-6 font-poppins space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-[#4d4725]">Personalizar dashboard</h2>
+          <p className="text-xs text-gray-500">
+            {ETIQUETAS_ORIGEN[origen]} · Reordena, cambia el tamaño o quita widgets y guarda los cambios
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={onRestablecer}
+            disabled={guardando || origen !== 'usuario'}
+            title="Borrar tu layout y usar el predeterminado del sistema"
+            className={botonSecundario}
+          >
+            <RotateCcw className="h-4 w-4" />
+            Restablecer
+          </button>
+          <button type="button" onClick={onCancelar} disabled={guardando} className={botonSecundario}>
+            <X className="h-4 w-4" />
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={onGuardar}
+            disabled={guardando}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-[#948b54] rounded-lg hover:bg-[#4d4725] transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+          >
+            <Check className="h-4 w-4" />
+            Guardar
+          </button>
+        </div>
+      </div>
+
+      {/* Widgets que se pueden agregar */}
+      <div>
+        <p className="text-xs font-semibold text-[#6b6b47] uppercase tracking-wide mb-2">Agregar widget</p>
+        {disponibles.length === 0 ? (
+          <p className="text-sm text-gray-500">Todos los widgets disponibles ya están en tu dashboard.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {disponibles.map(definicion => {
+              const Icono = definicion.icon;
+              return (
+                <button
+                  key={definicion.id}
+                  type="button"
+                  onClick={() => onAgregar(definicion.id)}
+                  title={definicion.descripcion}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-full bg-[#fdf7f1] border border-[#c2b186] text-[#4d4725] hover:bg-[#f8f0e7] transition-colors cursor-pointer"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  <Icono className="h-4 w-4 text-[#948b54]" />
+                  {definicion.titulo}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DashboardEditToolbar;
@@ -0,0 +1,118 @@
+/**
+ * Contenedor de un widget del dashboard de Inicio
+ * Ocupa las columnas de su tamaño y, en modo edición, muestra los controles
+ * para reordenar, cambiar tamaño y quitar el widget
+ *
+ * @module DashboardWidgetFrame
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import {
+  DASHBOARD_WIDGETS,
+  DASHBOARD_WIDGET_SIZE_CLASSES,
+  DASHBOARD_WIDGET_SIZE_LABELS
+} from '../config';
+import type {
+  DashboardWidgetInstance,
+  DashboardWidgetSize
+} from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+export interface DashboardWidgetFrameProps {
+  widget: DashboardWidgetInstance;
+  editando: boolean;
+  esPrimero: boolean;
+  esUltimo: boolean;
+  onMover: (desplazamiento: number) => void;
+  onCambiarTamano: (size: DashboardWidgetSize) => void;
+  onQuitar: () => void;
+  children: React.ReactNode;
+}
+
+const botonControl = `
+  p-1.5 rounded-md text-[#4d4725] hover:bg-[#f8f0e7]
+  disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer transition-colors
+`;
+
+/**
+ * Marco de un widget
+ */
+export const DashboardWidgetFrame: React.FC<DashboardWidgetFrameProps> = ({
+  widget,
+  editando,
+  esPrimero,
+  esUltimo,
+  onMover,
+  onCambiarTamano,
+  onQuitar,
+  children
+}) => {
+  const definicion = DASHBOARD_WIDGETS[widget.id];
+  const Icono = definicion.icon;
+
+  return (
+    <section
+      className={`col-span-1 ${DASHBOARD_WIDGET_SIZE_CLASSES[widget.size]} min-w-0 animate-fadeIn`}
+      data-widget={widget.id}
+    >
+      {editando && (
+        <div className="flex items-center justify-between gap-2 mb-2 px-3 py-2 bg-white border-2 border-dashed border-[#c2b186] rounded-lg font-poppins">
+          <div className="flex items-center gap-2 min-w-0">
+            <Icono className="h-4 w-4 text-[#948b54] flex-shrink-0" />
+            <span className="text-sm font-semibold text-[#4d4725] truncate">{definicion.titulo}</span>
+          </div>
+
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <select
+              value={widget.size}
+              onChange={(e) => onCambiarTamano(e.target.value as DashboardWidgetSize)}
+              disabled={definicion.allowedSizes.length < 2}
+              aria-label={`Tamaño de ${definicion.titulo}`}
+              className="text-xs border border-[#c2b186] rounded-md px-2 py-1 text-[#4d4725] bg-[#fdf7f1] cursor-pointer disabled:cursor-not-allowed"
+            >
+              {definicion.allowedSizes.map(size => (
+                <option key={size} value={size}>{DASHBOARD_WIDGET_SIZE_LABELS[size]}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onMover(-1)}
+              disabled={esPrimero}
+              title="Mover antes"
+              aria-label={`Mover ${definicion.titulo} antes`}
+              className={botonControl}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onMover(1)}
+              disabled={esUltimo}
+              title="Mover después"
+              aria-label={`Mover ${definicion.titulo} después`}
+              className={botonControl}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={onQuitar}
+              title="Quitar del dashboard"
+              aria-label={`Quitar ${definicion.titulo}`}
+              className={`${botonControl} hover:text-red-600`}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className={editando ? 'pointer-events-none select-none opacity-90' : ''}>
+        {children}
+      </div>
+    </section>
+  );
+};
+
+export default DashboardWidgetFrame;
@@ -0,0 +1,43 @@
+/**
+ * Widget de la gráfica mensual de IPH con tendencia y pronóstico
+ *
+ * @module GraficaMesWidget
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import GraficaCard from '../../statistics/components/cards/GraficaCard';
+import { useTendenciaMensual } from '../../statistics/hooks/useTendenciaMensual';
+import type { IResumenPorMes } from '../../../../../interfaces/statistics/statistics.interface';
+
+export interface GraficaMesWidgetProps {
+  datos: IResumenPorMes | null;
+  anioSeleccionado: number;
+  setAnioSeleccionado: (anio: number) => void;
+}
+
+/**
+ * Reportes de IPH mensual
+ */
+export const GraficaMesWidget: React.FC<GraficaMesWidgetProps> = ({
+  datos,
+  anioSeleccionado,
+  setAnioSeleccionado
+}) => {
+  // Pronóstico y valores atípicos calculados en el cliente
+  const { tendencia } = useTendenciaMensual(anioSeleccionado, datos);
+
+  if (!datos) return null;
+
+  return (
+    <GraficaCard
+      titulo="Reportes de IPH Mensual"
+      data={datos}
+      anioSeleccionado={anioSeleccionado}
+      setAnioSeleccionado={setAnioSeleccionado}
+      tendencia={tendencia}
+    />
+  );
+};
+
+export default GraficaMesWidget;
@@ -0,0 +1,79 @@
+/**
+ * Widget de la gráfica semanal de IPH por día con tendencia
+ *
+ * @module GraficaSemanaWidget
+ * @version 1.0.0
+ */
+
+import React, { useCallback } from 'react';
+import GraficaSemanaCard from '../../statistics/components/cards/GraficaSemanaCard';
+import { useTendenciaSemanal } from '../../statistics/hooks/useTendenciaSemanal';
+import { logDebug } from '../../../../../helper/log/logger.helper';
+import type { IResumenPorSemana } from '../../../../../interfaces/statistics/statistics.interface';
+
+export interface GraficaSemanaWidgetProps {
+  datos: IResumenPorSemana | null;
+  semanaOffset: number;
+  setSemanaOffset: (offset: number | ((prev: number) => number)) => void;
+  loading: boolean;
+}
+
+const MS_POR_SEMANA = 1000 * 60 * 60 * 24 * 7;
+
+/**
+ * Reportes de IPH por día de la semana
+ */
+export const GraficaSemanaWidget: React.FC<GraficaSemanaWidgetProps> = ({
+  datos,
+  semanaOffset,
+  setSemanaOffset,
+  loading
+}) => {
+  const { tendenciaDias, tendenciaSemanas } = useTendenciaSemanal(semanaOffset);
+
+  /**
+   * Convierte el rango elegido en el calendario a offset de semanas
+   * (0 = semana actual, negativo = semanas pasadas)
+   */
+  const handleDateRangeChange = useCallback((startDate: Date) => {
+    const hoy = new Date();
+    const inicioSemanaActual = new Date(hoy);
+    const diaSemana = hoy.getDay();
+    const diasHastaLunes = diaSemana === 0 ? -6 : 1 - diaSemana;
+    inicioSemanaActual.setDate(hoy.getDate() + diasHastaLunes);
+    inicioSemanaActual.setHours(0, 0, 0, 0);
+
+    const inicioRangoSeleccionado = new Date(startDate);
+    inicioRangoSeleccionado.setHours(0, 0, 0, 0);
+
+    const diffWeeks = Math.round((inicioSemanaActual.getTime() - inicioRangoSeleccionado.getTime()) / MS_POR_SEMANA);
+    const targetOffset = -diffWeeks;
+
+    logDebug('GraficaSemanaWidget', 'Rango seleccionado desde el calendario', {
+      startDate: startDate.toISOString(),
+      targetOffset,
+      currentOffset: semanaOffset
+    });
+
+    if (targetOffset !== semanaOffset) {
+      setSemanaOffset(targetOffset);
+    }
+  }, [semanaOffset, setSemanaOffset]);
+
+  if (!datos) return null;
+
+  return (
+    <GraficaSemanaCard
+      titulo="Reportes de IPH Día"
+      data={datos}
+      semanaOffset={semanaOffset}
+      setSemanaOffset={setSemanaOffset}
+      loading={loading}
+      tendencia={tendenciaDias}
+      tendenciaSemanas={tendenciaSemanas}
+      onDateRangeChange={handleDateRangeChange}
+    />
+  );
+};
+
+export default GraficaSemanaWidget;
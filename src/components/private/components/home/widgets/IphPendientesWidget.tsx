@@ -0,0 +1,69 @@
+/**
+ * Widget de IPH pendientes (en proceso o en supervisión)
+ *
+ * @module IphPendientesWidget
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ClipboardList, Loader2 } from 'lucide-react';
+import { useIphPendientes } from '../hooks/useIphPendientes';
+import { getStatusConfig } from '../../../../../config/status.config';
+
+export interface IphPendientesWidgetProps {
+  refreshKey: number;
+}
+
+/**
+ * Total de IPH sin finalizar por estatus
+ */
+export const IphPendientesWidget: React.FC<IphPendientesWidgetProps> = ({ refreshKey }) => {
+  const { porEstatus, total, loading, error } = useIphPendientes(refreshKey);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 h-full flex flex-col hover:shadow-xl transition-shadow duration-300">
+      <div className="flex items-center gap-2 mb-4">
+        <ClipboardList className="w-5 h-5 text-[#948b54]" />
+        <h2 className="text-xl font-bold text-[#4d4725]">IPH pendientes</h2>
+      </div>
+
+      {loading ? (
+        <div className="flex-1 flex items-center justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-[#948b54]" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <div className="flex-1">
+          <p className="text-4xl font-bold text-[#4d4725] mb-4">{total.toLocaleString('es-MX')}</p>
+          <ul className="space-y-2">
+            {porEstatus.map(({ estatus, cantidad }) => {
+              const config = getStatusConfig(estatus);
+              return (
+                <li key={estatus} className="flex items-center justify-between text-sm">
+                  <span
+                    className="px-2.5 py-0.5 rounded-full text-xs font-medium"
+                    style={{ color: config.color, backgroundColor: config.bgColor }}
+                  >
+                    {config.label}
+                  </span>
+                  <span className="font-semibold text-[#4d4725]">{cantidad.toLocaleString('es-MX')}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <Link
+        to="/historialiph"
+        className="mt-4 text-xs font-medium text-[#948b54] hover:text-[#4d4725] transition-colors"
+      >
+        Ir a Histórico IPH →
+      </Link>
+    </div>
+  );
+};
+
+export default IphPendientesWidget;
@@ -0,0 +1,73 @@
+/**
+ * Widget de resumen de IPH por tipo (Justicia Cívica y Probable Delictivo)
+ *
+ * @module ResumenTipoWidget
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { ShieldCheck, AlertTriangle } from 'lucide-react';
+import type { IResumenPorTipo } from '../../../../../interfaces/statistics/statistics.interface';
+import type { DashboardWidgetSize } from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+export interface ResumenTipoWidgetProps {
+  resumen: IResumenPorTipo;
+  anio: number;
+  size: DashboardWidgetSize;
+}
+
+interface ConteoProps {
+  emoji: string;
+  etiqueta: string;
+  valor: number;
+}
+
+const Conteo: React.FC<ConteoProps> = ({ emoji, etiqueta, valor }) => (
+  <div className="flex flex-col items-center justify-center text-center bg-gradient-to-br from-[#f8f0e7] to-[#ede8d4] rounded-xl p-4 shadow-md border border-[#e5dcc3]">
+    <div className="text-4xl mb-2">{emoji}</div>
+    <p className="text-sm font-semibold text-[#4d4725] mb-1">{etiqueta}</p>
+    <p className="text-3xl font-bold text-[#4d4725]">{valor.toLocaleString('es-MX')}</p>
+  </div>
+);
+
+/**
+ * IPH con y sin detenidos del año por tipo
+ */
+export const ResumenTipoWidget: React.FC<ResumenTipoWidgetProps> = ({ resumen, anio, size }) => (
+  <div className="bg-white rounded-xl shadow-lg p-6 h-full hover:shadow-xl transition-shadow duration-300">
+    <div className="flex items-center justify-between mb-5">
+      <h2 className="text-xl font-bold text-[#4d4725]">Resumen por tipo</h2>
+      <span className="text-xs font-medium text-[#6b6b47] bg-[#fdf7f1] px-3 py-1 rounded-full">{anio}</span>
+    </div>
+
+    <div className={`grid grid-cols-1 gap-6 ${size === 'completo' ? 'lg:grid-cols-2' : ''}`}>
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <div className="p-1.5 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg">
+            <ShieldCheck className="w-4 h-4 text-white" />
+          </div>
+          <h3 className="text-base font-semibold text-[#4d4725]">Justicia Cívica</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <Conteo emoji="🪪" etiqueta="Con Detenidos" valor={resumen.justicia.conDetenido} />
+          <Conteo emoji="🧍‍♂️" etiqueta="Sin Detenidos" valor={resumen.justicia.sinDetenido} />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <div className="p-1.5 bg-gradient-to-br from-red-500 to-red-600 rounded-lg">
+            <AlertTriangle className="w-4 h-4 text-white" />
+          </div>
+          <h3 className="text-base font-semibold text-[#4d4725]">Probable Delictivo</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <Conteo emoji="👮" etiqueta="Con Detenidos" valor={resumen.delito.conDetenido} />
+          <Conteo emoji="⛓️" etiqueta="Sin Detenidos" valor={resumen.delito.sinDetenido} />
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default ResumenTipoWidget;
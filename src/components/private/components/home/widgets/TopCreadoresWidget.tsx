@@ -0,0 +1,76 @@
+/**
+ * Widget de los usuarios que más IPH elaboraron en el mes
+ *
+ * @module TopCreadoresWidget
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, Trophy } from 'lucide-react';
+import { useTopCreadores } from '../hooks/useTopCreadores';
+import { STATISTICS_ROUTES } from '../../statistics/config/constants';
+import type { DashboardWidgetSize } from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+export interface TopCreadoresWidgetProps {
+  size: DashboardWidgetSize;
+  refreshKey: number;
+}
+
+/** Usuarios del ranking según el ancho del widget */
+const LIMITE_POR_TAMANO: Record<DashboardWidgetSize, number> = {
+  chico: 5,
+  mediano: 10,
+  completo: 10
+};
+
+/**
+ * Ranking mensual de creadores de IPH
+ */
+export const TopCreadoresWidget: React.FC<TopCreadoresWidgetProps> = ({ size, refreshKey }) => {
+  const { usuarios, loading, error } = useTopCreadores(LIMITE_POR_TAMANO[size], refreshKey);
+  const mes = new Date().toLocaleDateString('es-MX', { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 h-full flex flex-col hover:shadow-xl transition-shadow duration-300">
+      <div className="flex items-center gap-2 mb-1">
+        <Trophy className="w-5 h-5 text-[#948b54]" />
+        <h2 className="text-xl font-bold text-[#4d4725]">Top creadores</h2>
+      </div>
+      <p className="text-xs text-[#6b6b47] mb-4 capitalize">{mes}</p>
+
+      {loading ? (
+        <div className="flex-1 flex items-center justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-[#948b54]" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : usuarios.length === 0 ? (
+        <p className="text-sm text-gray-500">Sin IPH registrados este mes.</p>
+      ) : (
+        <ol className="space-y-2 flex-1">
+          {usuarios.map((usuario, indice) => (
+            <li key={usuario.usuario_id} className="flex items-center gap-3 text-sm">
+              <span className="w-6 h-6 flex items-center justify-center rounded-full bg-[#f8f0e7] text-[#4d4725] text-xs font-bold flex-shrink-0">
+                {indice + 1}
+              </span>
+              <span className="flex-1 truncate text-[#4d4725]" title={usuario.nombre_completo}>
+                {usuario.nombre_completo}
+              </span>
+              <span className="font-semibold text-[#4d4725]">{usuario.cantidad_iph}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Link
+        to={STATISTICS_ROUTES.USUARIOS_IPH}
+        className="mt-4 text-xs font-medium text-[#948b54] hover:text-[#4d4725] transition-colors"
+      >
+        Ver estadísticas de usuarios →
+      </Link>
+    </div>
+  );
+};
+
+export default TopCreadoresWidget;
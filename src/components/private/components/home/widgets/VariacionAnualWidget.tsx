@@ -0,0 +1,68 @@
+/**
+ * Widget de variación anual de IPH contra el año anterior
+ *
+ * @module VariacionAnualWidget
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import type { IVariacionResumen } from '../../../../../interfaces/statistics/statistics.interface';
+import type { DashboardWidgetSize } from '../../../../../interfaces/components/dashboard-widgets.interface';
+
+export interface VariacionAnualWidgetProps {
+  variaciones: IVariacionResumen;
+  anio: number;
+  size: DashboardWidgetSize;
+}
+
+interface FilaVariacion {
+  etiqueta: string;
+  valor: number;
+}
+
+const Variacion: React.FC<FilaVariacion> = ({ etiqueta, valor }) => {
+  const Icono = valor > 0 ? TrendingUp : valor < 0 ? TrendingDown : Minus;
+  const color = valor > 0
+    ? 'bg-green-100 text-green-700'
+    : valor < 0 ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600';
+
+  return (
+    <div className="flex items-center justify-between gap-3 bg-[#fdf7f1] border border-[#e5dcc3] rounded-lg px-4 py-3">
+      <span className="text-sm text-[#4d4725] font-medium">{etiqueta}</span>
+      <span className={`flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-bold ${color}`}>
+        <Icono className="w-3 h-3" />
+        {valor > 0 ? '+' : ''}{valor.toLocaleString('es-MX', { maximumFractionDigits: 1 })}%
+      </span>
+    </div>
+  );
+};
+
+/**
+ * Cambio porcentual por tipo y detenido
+ */
+export const VariacionAnualWidget: React.FC<VariacionAnualWidgetProps> = ({ variaciones, anio, size }) => {
+  const filas: FilaVariacion[] = [
+    { etiqueta: 'Justicia Cívica con detenidos', valor: variaciones.justicia.con },
+    { etiqueta: 'Justicia Cívica sin detenidos', valor: variaciones.justicia.sin },
+    { etiqueta: 'Probable Delictivo con detenidos', valor: variaciones.delito.con },
+    { etiqueta: 'Probable Delictivo sin detenidos', valor: variaciones.delito.sin }
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 h-full hover:shadow-xl transition-shadow duration-300">
+      <div className="mb-5">
+        <h2 className="text-xl font-bold text-[#4d4725]">Variación anual</h2>
+        <p className="text-xs text-[#6b6b47]">{anio} contra {anio - 1}</p>
+      </div>
+
+      <div className={`grid grid-cols-1 gap-3 ${size === 'completo' ? 'md:grid-cols-2' : ''}`}>
+        {filas.map(fila => (
+          <Variacion key={fila.etiqueta} etiqueta={fila.etiqueta} valor={fila.valor} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VariacionAnualWidget;
@@ -0,0 +1,14 @@
+/**
+ * Barrel export para los widgets del dashboard de Inicio
+ *
+ * @module widgets
+ */
+
+export { DashboardWidgetFrame } from './DashboardWidgetFrame';
+export { DashboardEditToolbar } from './DashboardEditToolbar';
+export { GraficaMesWidget } from './GraficaMesWidget';
+export { GraficaSemanaWidget } from './GraficaSemanaWidget';
+export { ResumenTipoWidget } from './ResumenTipoWidget';
+export { VariacionAnualWidget } from './VariacionAnualWidget';
+export { TopCreadoresWidget } from './TopCreadoresWidget';
+export { IphPendientesWidget } from './IphPendientesWidget';
@@ -11,18 +11,27 @@ import { RefreshCw, FileX, FileText, ArrowLeft } from 'lucide-react';
 
 // Hook personalizado
 import useInformeEjecutivo from './hooks/useInformeEjecutivo';
+import useInformePdf from './hooks/useInformePdf';
 
 // Componentes
 import TabNavigation from './components/TabNavigation';
 import PDFExportButton from './components/PDFExportButton';
 import SectionModal from './components/SectionModal';
+import CompletitudChecklist from './components/CompletitudChecklist';
+import PDFPreviewModal from './components/PDFPreviewModal';
+import CadenaCustodia from './components/CadenaCustodia';
 import { Breadcrumbs, type BreadcrumbItem } from '../../../shared/components/breadcrumbs';
+import { DuplicateWarning } from '../../../shared/components/duplicate-warning';
 
 // Utils
 import { getTabsForIphType, getTabsWithStatus } from './utils/tabsConfig';
+import { buildNarrativeCheckInput } from '../../../../utils/iph-oficial';
 
 // Helpers
 import { logInfo } from '../../../../helper/log/logger.helper';
+import { checkNarrative } from '../../../../helper/narrative/narrative-check.helper';
+import { buildIphCompletenessReport } from '../../../../helper/iph-validation/iph-completeness.helper';
+import type { IphSectionKey } from '../../../../helper/iph-validation/iph-section.schemas';
 
 // Interfaces
 import type { IInformeEjecutivoProps } from '../../../../interfaces/components/informe-ejecutivo.interface';
@@ -31,7 +40,7 @@ const InformeEjecutivo: React.FC<IInformeEjecutivoProps> = ({
   informeId,
   className = '',
   readonly = true,
-  showPDFButton = false
+  showPDFButton = true
 }) => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -41,9 +50,14 @@ const InformeEjecutivo: React.FC<IInformeEjecutivoProps> = ({
     refreshInforme
   } = useInformeEjecutivo(informeId);
 
+  // Generación del PDF en el navegador con vista previa
+  const pdf = useInformePdf();
+
   // Estado para el tab activo y modal
   const [activeTab, setActiveTab] = useState('datos-generales');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  // Objeto del Anexo D a mostrar (desde la cadena de custodia)
+  const [inventarioIndex, setInventarioIndex] = useState(0);
 
   /**
    * Extrae información de origen de la navegación
@@ -74,6 +88,18 @@ const InformeEjecutivo: React.FC<IInformeEjecutivoProps> = ({
     });
   };
 
+  // Revisión automática de la narrativa contra los datos estructurados
+  const narrativeCheck = useMemo(() => {
+    if (!state.responseData) return null;
+    return checkNarrative(buildNarrativeCheckInput(state.responseData));
+  }, [state.responseData]);
+
+  // Completitud y consistencia por sección y anexo
+  const completenessReport = useMemo(() => {
+    if (!state.responseData) return null;
+    return buildIphCompletenessReport(state.responseData);
+  }, [state.responseData]);
+
   // Configuración de tabs basada en el tipo de IPH
   const tabsWithStatus = useMemo(() => {
     if (!state.responseData || !state.responseData.iph || Array.isArray(state.responseData.iph)) {
@@ -88,8 +114,8 @@ const InformeEjecutivo: React.FC<IInformeEjecutivoProps> = ({
       tabsCount: tabsConfig.length
     });
 
-    return getTabsWithStatus(tabsConfig, state.responseData);
-  }, [state.responseData]);
+    return getTabsWithStatus(tabsConfig, state.responseData, narrativeCheck);
+  }, [state.responseData, narrativeCheck]);
 
   // Handler para cambio de tab y apertura de modal
   const handleTabChange = (tabId: string) => {
@@ -98,17 +124,29 @@ const InformeEjecutivo: React.FC<IInformeEjecutivoProps> = ({
     logInfo('InformeEjecutivo', 'Tab changed and modal opened', { tabId });
   };
 
+  // Handler para abrir la sección elegida en el checklist de completitud
+  const handleSelectSection = (key: IphSectionKey) => {
+    const tab = tabsWithStatus.find(item => item.dataKey === key);
+    if (tab) handleTabChange(tab.id);
+  };
+
+  // Handler para abrir un objeto del Anexo D desde la cadena de custodia
+  const handleOpenInventarioItem = (index: number) => {
+    setInventarioIndex(index);
+    handleSelectSection('armaObjeto');
+  };
+
   // Handler para cerrar modal
   const handleCloseModal = () => {
     setIsModalOpen(false);
+    setInventarioIndex(0);
     logInfo('InformeEjecutivo', 'Modal closed', { activeTab });
   };
 
   // Handler para exportación PDF
   const handlePDFExport = async (id: string) => {
     logInfo('InformeEjecutivo', 'PDF export requested', { id });
-    // TODO: Implementar exportación real cuando se active el flag
-    alert('Funcionalidad de exportación PDF en desarrollo');
+    if (state.responseData) await pdf.generate(state.responseData);
   };
 
   // Obtener datos de la sección activa
@@ -308,10 +346,16 @@ const InformeEjecutivo: React.FC<IInformeEjecutivoProps> = ({
               </button>
 
               {/* Botón PDF si está habilitado */}
-              {showPDFButton && informeId && (
+              {showPDFButton && (
                 <PDFExportButton
-                  informeId={informeId}
+                  informeId={informeId || (!Array.isArray(iph) ? iph?.id : undefined) || ''}
                   referencia={!Array.isArray(iph) ? iph?.nReferencia : undefined}
+                  loading={pdf.generating}
+                  loadingLabel={
+                    pdf.progress?.stage === 'recursos'
+                      ? `Imágenes ${pdf.progress.processed}/${pdf.progress.total}`
+                      : undefined
+                  }
                   onExport={handlePDFExport}
                 />
               )}
@@ -319,6 +363,26 @@ const InformeEjecutivo: React.FC<IInformeEjecutivoProps> = ({
           </div>
         </div>
 
+        {/* Posibles duplicados (Superior o superior) */}
+        <DuplicateWarning data={state.responseData} className="mb-6" />
+
+        {/* Completitud del IPH por sección */}
+        {completenessReport && (
+          <CompletitudChecklist
+            report={completenessReport}
+            onSelectSection={handleSelectSection}
+            availableSections={tabsWithStatus.map(tab => tab.dataKey as IphSectionKey)}
+            className="mb-6"
+          />
+        )}
+
+        {/* Cadena de custodia de armas y objetos (Anexo D) */}
+        <CadenaCustodia
+          data={state.responseData}
+          onOpenItem={handleOpenInventarioItem}
+          className="mb-6"
+        />
+
         {/* Sistema de navegación por lista */}
         {tabsWithStatus.length > 0 && (
           <TabNavigation
@@ -384,7 +448,20 @@ const InformeEjecutivo: React.FC<IInformeEjecutivoProps> = ({
         onClose={handleCloseModal}
         onTabChange={setActiveTab}
         getActiveTabData={getActiveTabData}
+        narrativeCheck={narrativeCheck}
+        inventarioIndex={inventarioIndex}
       />
+
+      {/* Vista previa del PDF generado */}
+      {pdf.preview && (
+        <PDFPreviewModal
+          url={pdf.preview.url}
+          fileName={pdf.preview.fileName}
+          pageCount={pdf.preview.pageCount}
+          onDownload={pdf.download}
+          onClose={pdf.closePreview}
+        />
+      )}
     </div>
   );
 };
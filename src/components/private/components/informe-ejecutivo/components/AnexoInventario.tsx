@@ -37,6 +37,8 @@ import type { I_ArmaObjeto } from '../../../../../interfaces/iph/iph.interface';
 
 interface AnexoInventarioProps {
   armaObjeto: I_ArmaObjeto | I_ArmaObjeto[] | null;
+  /** Objeto que se muestra primero (p.ej. al escanear su código de custodia) */
+  initialIndex?: number;
   className?: string;
 }
 
@@ -187,10 +189,11 @@ const TextoExpandible: React.FC<{
 
 const AnexoInventario: React.FC<AnexoInventarioProps> = ({
   armaObjeto,
+  initialIndex = 0,
   className = ''
 }) => {
   // Estado para manejar múltiples objetos/armas
-  const [objetoActivo, setObjetoActivo] = useState(0);
+  const [objetoActivo, setObjetoActivo] = useState(Math.max(0, initialIndex));
   
   // Verificar si los datos están disponibles
   if (!armaObjeto || (Array.isArray(armaObjeto) && armaObjeto.length === 0)) {
@@ -218,7 +221,7 @@ const AnexoInventario: React.FC<AnexoInventarioProps> = ({
 
   // Convertir a array si es objeto único
   const objetos = Array.isArray(armaObjeto) ? armaObjeto : [armaObjeto];
-  const objeto = objetos[objetoActivo];
+  const objeto = objetos[objetoActivo] ?? objetos[0];
 
   // Procesar disposiciones y testigos como arrays
   const disposiciones = Array.isArray(objeto.disposiciones) ? objeto.disposiciones : 
@@ -0,0 +1,203 @@
+/**
+ * Componente CadenaCustodia
+ * Panel de cadena de custodia de las armas y objetos del Anexo D:
+ * códigos por objeto, impresión de hojas en lote (PDF con vista previa)
+ * y acceso al lector de códigos
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Printer, ScanLine, ShieldCheck } from 'lucide-react';
+
+// Componentes
+import PDFPreviewModal from './PDFPreviewModal';
+import CustodiaScanner from './CustodiaScanner';
+
+// Servicios
+import { generateCustodySheetsPdf } from '../services/custody-sheet-pdf.service';
+import type { IphPdfResult } from '../services/iph-pdf.service';
+
+// Utils
+import { buildCustodySheetSet } from '../../../../../utils/iph-oficial';
+
+// Helpers
+import { downloadBlob } from '../../../../../helper/export/export.helper';
+import { showError, showSuccess } from '../../../../../helper/notification/notification.helper';
+import { logError } from '../../../../../helper/log/logger.helper';
+
+// Interfaces
+import type { ResponseIphData } from '../../../../../interfaces/iph/iph.interface';
+
+// =====================================================
+// INTERFACES
+// =====================================================
+
+interface CadenaCustodiaProps {
+  data: ResponseIphData;
+  /** Abre el objeto (posición base 0) en el Anexo D */
+  onOpenItem: (index: number) => void;
+  className?: string;
+}
+
+// =====================================================
+// COMPONENTE PRINCIPAL
+// =====================================================
+
+const CadenaCustodia: React.FC<CadenaCustodiaProps> = ({
+  data,
+  onOpenItem,
+  className = ''
+}) => {
+  const sheetSet = useMemo(() => buildCustodySheetSet(data), [data]);
+
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(sheetSet.items.map(item => item.index)));
+  const [preview, setPreview] = useState<(IphPdfResult & { url: string }) | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+
+  // Todos seleccionados al cambiar de IPH
+  useEffect(() => {
+    setSelected(new Set(sheetSet.items.map(item => item.index)));
+  }, [sheetSet]);
+
+  // Liberar la URL del PDF anterior
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const toggleItem = (index: number) => {
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const allSelected = selected.size === sheetSet.items.length;
+
+  const handlePrint = () => {
+    const items = sheetSet.items.filter(item => selected.has(item.index));
+    try {
+      const result = generateCustodySheetsPdf(sheetSet, items);
+      setPreview({ ...result, url: URL.createObjectURL(result.blob) });
+    } catch (error) {
+      logError('CadenaCustodia', error, 'Error generando las hojas de custodia');
+      showError('No se pudieron generar las hojas de custodia', 'Cadena de custodia');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!preview) return;
+    downloadBlob(preview.blob, preview.fileName);
+    showSuccess(`Se descargó ${preview.fileName}`, 'Cadena de custodia');
+  };
+
+  const handleClosePreview = useCallback(() => setPreview(null), []);
+  const handleCloseScanner = useCallback(() => setIsScannerOpen(false), []);
+
+  const handleOpenItem = (index: number) => {
+    setIsScannerOpen(false);
+    onOpenItem(index);
+  };
+
+  if (sheetSet.items.length === 0) return null;
+
+  return (
+    <div className={`bg-white rounded-xl border border-[#c2b186]/30 font-poppins ${className}`}>
+      {/* Encabezado */}
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          aria-expanded={isExpanded}
+          className="flex items-center gap-2 text-sm font-semibold text-[#4d4725] cursor-pointer"
+        >
+          <ShieldCheck className="h-4 w-4 text-[#c2b186]" />
+          Cadena de custodia
+          <span className="text-xs font-normal text-gray-500">
+            · {sheetSet.items.length} objeto{sheetSet.items.length === 1 ? '' : 's'}
+          </span>
+          {isExpanded ? <ChevronUp className="h-4 w-4 text-gray-500" /> : <ChevronDown className="h-4 w-4 text-gray-500" />}
+        </button>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setIsScannerOpen(true)}
+            className="inline-flex items-center gap-2 px-3 py-2 border border-[#c2b186] text-[#4d4725] rounded-lg text-sm hover:bg-[#fdf7f1] transition-colors cursor-pointer"
+          >
+            <ScanLine className="h-4 w-4" />
+            Escanear
+          </button>
+          <button
+            type="button"
+            onClick={handlePrint}
+            disabled={selected.size === 0}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-[#4d4725] text-white rounded-lg text-sm font-semibold hover:bg-[#3a3519] transition-colors cursor-pointer disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            <Printer className="h-4 w-4" />
+            Hojas de custodia ({selected.size})
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="px-4 pb-4">
+          <label className="flex items-center gap-2 text-xs text-gray-600 mb-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(sheetSet.items.map(item => item.index)))}
+              className="accent-[#4d4725]"
+            />
+            Seleccionar todos
+          </label>
+
+          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {sheetSet.items.map(item => (
+              <li key={item.code} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected.has(item.index)}
+                  onChange={() => toggleItem(item.index)}
+                  className="accent-[#4d4725]"
+                  aria-label={`Incluir ${item.code}`}
+                />
+                <span className="font-mono text-xs font-semibold text-[#4d4725] whitespace-nowrap">{item.code}</span>
+                <span className="text-xs px-2 py-0.5 rounded-full bg-[#fdf7f1] text-[#948b54]">{item.tipo}</span>
+                <button
+                  type="button"
+                  onClick={() => onOpenItem(item.index)}
+                  className="flex-1 min-w-0 text-left text-gray-700 truncate hover:text-[#4d4725] hover:underline cursor-pointer"
+                  title="Ver en Anexo D"
+                >
+                  {item.descripcion}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {preview && (
+        <PDFPreviewModal
+          url={preview.url}
+          fileName={preview.fileName}
+          pageCount={preview.pageCount}
+          onDownload={handleDownload}
+          onClose={handleClosePreview}
+        />
+      )}
+
+      {isScannerOpen && (
+        <CustodiaScanner
+          sheetSet={sheetSet}
+          onOpenItem={handleOpenItem}
+          onClose={handleCloseScanner}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CadenaCustodia;
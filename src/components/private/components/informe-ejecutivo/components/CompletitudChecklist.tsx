@@ -0,0 +1,183 @@
+/**
+ * Componente CompletitudChecklist
+ * Checklist de completitud y consistencia del IPH por sección y anexo:
+ * puntaje general, campos obligatorios faltantes y hallazgos entre secciones
+ */
+
+import React, { useState } from 'react';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  ListChecks,
+  MinusCircle,
+  XCircle
+} from 'lucide-react';
+
+// Helpers
+import {
+  IPH_COMPLETENESS_LEVEL_LABELS,
+  type IphCompletenessReport,
+  type IphSectionReport,
+  type IphSectionStatus
+} from '../../../../../helper/iph-validation/iph-completeness.helper';
+import type { IphSectionKey } from '../../../../../helper/iph-validation/iph-section.schemas';
+
+// =====================================================
+// INTERFACES
+// =====================================================
+
+interface CompletitudChecklistProps {
+  report: IphCompletenessReport;
+  /** Abre la sección en el modal; si no se indica, las filas no son clicables */
+  onSelectSection?: (key: IphSectionKey) => void;
+  /** Secciones que tienen tab en el IPH actual */
+  availableSections?: IphSectionKey[];
+  className?: string;
+}
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const LEVEL_CLASS = {
+  completa: 'bg-green-50 text-green-700 border-green-200',
+  parcial: 'bg-amber-50 text-amber-700 border-amber-200',
+  incompleta: 'bg-red-50 text-red-700 border-red-200'
+} as const;
+
+const STATUS_STYLE: Record<IphSectionStatus, { icon: React.ElementType; className: string; label: string }> = {
+  completa: { icon: CheckCircle2, className: 'text-green-600', label: 'Completa' },
+  incompleta: { icon: AlertTriangle, className: 'text-amber-600', label: 'Incompleta' },
+  con_errores: { icon: XCircle, className: 'text-red-600', label: 'Con errores' },
+  sin_datos: { icon: XCircle, className: 'text-red-600', label: 'Sin datos' },
+  no_aplica: { icon: MinusCircle, className: 'text-gray-400', label: 'No aplica' }
+};
+
+// =====================================================
+// FUNCIONES DE UTILIDAD
+// =====================================================
+
+const getSectionDetail = (section: IphSectionReport): string | null => {
+  if (section.status === 'sin_datos' && section.required) return 'Sección obligatoria sin capturar';
+  if (section.missingFields.length > 0) return `Falta: ${section.missingFields.join(', ')}`;
+  return null;
+};
+
+// =====================================================
+// COMPONENTE PRINCIPAL
+// =====================================================
+
+const CompletitudChecklist: React.FC<CompletitudChecklistProps> = ({
+  report,
+  onSelectSection,
+  availableSections,
+  className = ''
+}) => {
+  const [isExpanded, setIsExpanded] = useState(report.level !== 'completa');
+
+  const pending = report.sections.filter(section => section.status !== 'completa' && section.status !== 'no_aplica').length;
+
+  return (
+    <div className={`bg-white rounded-xl border border-[#c2b186]/30 font-poppins ${className}`}>
+      {/* Encabezado */}
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+        className="w-full flex flex-wrap items-center justify-between gap-3 p-4 cursor-pointer"
+      >
+        <span className="flex items-center gap-2 text-sm font-semibold text-[#4d4725]">
+          <ListChecks className="h-4 w-4 text-[#c2b186]" />
+          Completitud del IPH
+        </span>
+        <span className="flex items-center gap-2">
+          {report.errors > 0 && (
+            <span className="text-xs text-red-700">
+              {report.errors} error{report.errors === 1 ? '' : 'es'}
+            </span>
+          )}
+          {report.warnings > 0 && (
+            <span className="text-xs text-amber-700">
+              {report.warnings} advertencia{report.warnings === 1 ? '' : 's'}
+            </span>
+          )}
+          <span className={`px-2 py-1 text-xs rounded-full border font-medium ${LEVEL_CLASS[report.level]}`}>
+            {IPH_COMPLETENESS_LEVEL_LABELS[report.level]} · {report.score}%
+          </span>
+          {isExpanded ? <ChevronUp className="h-4 w-4 text-gray-500" /> : <ChevronDown className="h-4 w-4 text-gray-500" />}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4">
+          <p className="text-xs text-gray-500 mb-3">
+            {pending === 0
+              ? 'Todas las secciones aplicables están completas.'
+              : `${pending} sección${pending === 1 ? '' : 'es'} requiere${pending === 1 ? '' : 'n'} atención.`}
+          </p>
+
+          <ul className="divide-y divide-gray-100">
+            {report.sections.map(section => {
+              const { icon: Icon, className: iconClass, label } = STATUS_STYLE[section.status];
+              const detail = getSectionDetail(section);
+              const clickable = !!onSelectSection && (availableSections?.includes(section.key) ?? true);
+
+              const content = (
+                <>
+                  <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${iconClass}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium text-gray-700">{section.label}</span>
+                      {section.required && (
+                        <span className="text-[10px] uppercase tracking-wide text-[#948b54]">Obligatoria</span>
+                      )}
+                    </div>
+                    {detail && <p className="text-xs text-gray-500 mt-0.5">{detail}</p>}
+                    {section.findings.map((finding, index) => (
+                      <p
+                        key={index}
+                        className={`text-xs mt-0.5 ${finding.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+                      >
+                        {finding.message}
+                      </p>
+                    ))}
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {section.score === null ? label : `${section.score}%`}
+                  </span>
+                  {clickable && <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />}
+                </>
+              );
+
+              return (
+                <li key={section.key}>
+                  {clickable ? (
+                    <button
+                      type="button"
+                      onClick={() => onSelectSection?.(section.key)}
+                      title={`Abrir ${section.label}`}
+                      className="w-full flex items-start gap-3 py-2 px-1 text-left rounded hover:bg-[#fdf7f1] transition-colors cursor-pointer"
+                    >
+                      {content}
+                    </button>
+                  ) : (
+                    <div className="flex items-start gap-3 py-2 px-1">{content}</div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <p className="mt-3 text-xs text-gray-400">
+            Validación automática de campos obligatorios y consistencia entre secciones.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompletitudChecklist;
@@ -0,0 +1,304 @@
+/**
+ * Componente CustodiaScanner
+ * Lector de códigos de cadena de custodia: resuelve la lectura al arma u
+ * objeto del IPH abierto. Funciona con lectores de mano (modo teclado, envían
+ * el código seguido de Enter) y con la cámara si el navegador tiene BarcodeDetector.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Camera, CameraOff, ExternalLink, ScanLine, X } from 'lucide-react';
+
+// Componentes
+import Code128Barcode from './Code128Barcode';
+
+// Helpers
+import { logInfo, logWarning } from '../../../../../helper/log/logger.helper';
+import {
+  resolveCustodyCode,
+  type CustodyCodeResolution,
+  type CustodySheetSet
+} from '../../../../../helper/custody/custody-chain.helper';
+
+// =====================================================
+// INTERFACES
+// =====================================================
+
+interface CustodiaScannerProps {
+  sheetSet: CustodySheetSet;
+  /** Abre el objeto (posición base 0) en el Anexo D */
+  onOpenItem: (index: number) => void;
+  onClose: () => void;
+}
+
+/** API BarcodeDetector (aún no incluida en lib.dom de TypeScript) */
+interface BarcodeDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<Array<{ rawValue: string }>>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const CAMERA_SCAN_INTERVAL_MS = 400;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const formatDateTime = (value: string | undefined): string =>
+  value ? new Date(value).toLocaleString('es-MX', { hour12: false }) : 'Sin fecha';
+
+// =====================================================
+// COMPONENTE PRINCIPAL
+// =====================================================
+
+const CustodiaScanner: React.FC<CustodiaScannerProps> = ({ sheetSet, onOpenItem, onClose }) => {
+  const [input, setInput] = useState('');
+  const [lastCode, setLastCode] = useState('');
+  const [resolution, setResolution] = useState<CustodyCodeResolution | null>(null);
+  const [cameraActive, setCameraActive] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cameraAvailable = Boolean(getBarcodeDetector()) && Boolean(navigator.mediaDevices?.getUserMedia);
+
+  const handleCode = useCallback((raw: string) => {
+    const code = raw.trim();
+    if (!code) return;
+
+    const result = resolveCustodyCode(sheetSet, code);
+    setLastCode(code);
+    setResolution(result);
+    setInput('');
+    logInfo('CustodiaScanner', 'Código de custodia leído', { code, status: result.status });
+  }, [sheetSet]);
+
+  // Cerrar con Escape y bloquear el scroll del fondo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+    inputRef.current?.focus();
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = 'unset';
+    };
+  }, [onClose]);
+
+  // Lectura con cámara mientras esté activa
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!cameraActive || !Detector) return;
+
+    let stream: MediaStream | null = null;
+    let intervalId: number | undefined;
+    let cancelled = false;
+    const detector = new Detector({ formats: ['code_128'] });
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        void videoRef.current.play();
+
+        intervalId = window.setInterval(async () => {
+          const video = videoRef.current;
+          if (!video || video.readyState < 2) return;
+          const [barcode] = await detector.detect(video).catch(() => []);
+          if (barcode && !cancelled) {
+            handleCode(barcode.rawValue);
+            setCameraActive(false);
+          }
+        }, CAMERA_SCAN_INTERVAL_MS);
+      })
+      .catch(error => {
+        logWarning('CustodiaScanner', 'No se pudo abrir la cámara', { error: String(error) });
+        setCameraError('No se pudo acceder a la cámara. Use el lector o escriba el código.');
+        setCameraActive(false);
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(intervalId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraActive, handleCode]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    handleCode(input);
+    inputRef.current?.focus();
+  };
+
+  const renderResolution = () => {
+    if (!resolution) {
+      return (
+        <p className="text-sm text-gray-500 text-center py-6">
+          Escanee la etiqueta de una hoja de custodia o escriba su código.
+        </p>
+      );
+    }
+
+    if (resolution.status !== 'encontrado') {
+      const message = resolution.status === 'otro-iph'
+        ? `El código pertenece a otro IPH (folio ${resolution.folio}).`
+        : resolution.status === 'no-encontrado'
+          ? `Este IPH no tiene el objeto ${resolution.index + 1} en el Anexo D.`
+          : 'La lectura no corresponde a un código de cadena de custodia.';
+
+      return (
+        <div className="flex items-start gap-3 p-4 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm">
+          <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+          <div>
+            <p className="font-semibold break-all">{lastCode}</p>
+            <p>{message}</p>
+          </div>
+        </div>
+      );
+    }
+
+    const { item } = resolution;
+    return (
+      <div className="rounded-lg border border-[#c2b186]/40 bg-[#fdf7f1] p-4 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-xs font-semibold text-[#948b54] uppercase">
+              {item.tipo} {item.index + 1} de {sheetSet.items.length}
+            </p>
+            <p className="text-lg font-bold text-[#4d4725] break-all">{item.code}</p>
+            <p className="text-sm text-gray-700">{item.descripcion}</p>
+          </div>
+          <Code128Barcode value={item.code} height={40} moduleWidth={1} showText={false} />
+        </div>
+
+        {item.detalles.length > 0 && (
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+            {item.detalles.map(detalle => (
+              <div key={detalle.label}>
+                <dt className="text-xs text-gray-500">{detalle.label}</dt>
+                <dd className="text-[#4d4725] font-medium">{detalle.value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        <div>
+          <p className="text-xs font-semibold text-[#4d4725] uppercase mb-2">Movimientos registrados</p>
+          <ol className="space-y-2">
+            {item.transfers.map((transfer, index) => (
+              <li key={index} className="text-sm bg-white rounded-md border border-gray-200 p-3">
+                <p className="font-semibold text-[#4d4725]">{index + 1}. {transfer.etapa}</p>
+                <p className="text-xs text-gray-500">{formatDateTime(transfer.fecha)}</p>
+                {transfer.entrega.length > 0 && (
+                  <p className="text-gray-700">Entrega: {transfer.entrega.map(person => person.nombre).join(', ')}</p>
+                )}
+                {transfer.recibe.length > 0 && (
+                  <p className="text-gray-700">Recibe: {transfer.recibe.map(person => person.nombre).join(', ')}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onOpenItem(item.index)}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-[#4d4725] text-white rounded-lg text-sm font-semibold hover:bg-[#3a3519] transition-colors cursor-pointer"
+        >
+          <ExternalLink className="h-4 w-4" />
+          Ver en Anexo D
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black/30 backdrop-blur-md z-40"
+        onClick={onClose}
+      />
+
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Lector de cadena de custodia">
+        <div className="relative w-full max-w-2xl max-h-[90vh] bg-white rounded-2xl shadow-2xl flex flex-col font-poppins">
+          {/* Header */}
+          <div className="flex-shrink-0 flex items-center justify-between gap-4 px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center gap-3">
+              <div className="flex items-center justify-center w-10 h-10 rounded-full bg-[#c2b186] text-white">
+                <ScanLine className="h-5 w-5" />
+              </div>
+              <div>
+                <h2 className="text-lg font-bold text-[#4d4725]">Lector de cadena de custodia</h2>
+                <p className="text-sm text-gray-600">Folio {sheetSet.folio || 'N/D'}</p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 text-gray-500 hover:text-[#4d4725] hover:bg-[#fdf7f1] rounded-lg transition-colors cursor-pointer"
+              aria-label="Cerrar lector"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Contenido */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <form onSubmit={handleSubmit} className="flex gap-2">
+              <input
+                ref={inputRef}
+                type="text"
+                value={input}
+                onChange={event => setInput(event.target.value)}
+                placeholder="CC-FOLIO-001"
+                autoComplete="off"
+                spellCheck={false}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-[#c2b186]"
+                aria-label="Código de custodia"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 bg-[#c2b186] text-white rounded-lg text-sm font-semibold hover:bg-[#a89770] transition-colors cursor-pointer"
+              >
+                Buscar
+              </button>
+              {cameraAvailable && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCameraError(null);
+                    setCameraActive(!cameraActive);
+                  }}
+                  className="p-2 border border-gray-300 text-[#4d4725] rounded-lg hover:bg-[#fdf7f1] transition-colors cursor-pointer"
+                  title={cameraActive ? 'Detener cámara' : 'Leer con la cámara'}
+                  aria-label={cameraActive ? 'Detener cámara' : 'Leer con la cámara'}
+                >
+                  {cameraActive ? <CameraOff className="h-5 w-5" /> : <Camera className="h-5 w-5" />}
+                </button>
+              )}
+            </form>
+
+            {cameraActive && (
+              <video
+                ref={videoRef}
+                className="w-full max-h-64 rounded-lg bg-black object-contain"
+                muted
+                playsInline
+              />
+            )}
+            {cameraError && <p className="text-xs text-red-600">{cameraError}</p>}
+
+            {renderResolution()}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CustodiaScanner;
@@ -0,0 +1,187 @@
+/**
+ * Componente NarrativaCompletitud
+ * Resultado de la revisión automática de la narrativa: puntaje, cobertura de
+ * quién / qué / cuándo / dónde / cómo y elementos faltantes o contradictorios
+ */
+
+import React, { useState } from 'react';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  ClipboardCheck,
+  Highlighter,
+  XCircle
+} from 'lucide-react';
+
+// Helpers
+import {
+  NARRATIVE_ELEMENT_LABELS,
+  NARRATIVE_LEVEL_LABELS,
+  type NarrativeCheck,
+  type NarrativeCheckResult,
+  type NarrativeCheckStatus,
+  type NarrativeElement
+} from '../../../../../helper/narrative/narrative-check.helper';
+
+// =====================================================
+// INTERFACES
+// =====================================================
+
+interface NarrativaCompletitudProps {
+  result: NarrativeCheckResult;
+  highlight: boolean;
+  onToggleHighlight: () => void;
+  className?: string;
+}
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const ELEMENTS: NarrativeElement[] = ['quien', 'que', 'cuando', 'donde', 'como'];
+
+const LEVEL_CLASS = {
+  completa: 'bg-green-50 text-green-700 border-green-200',
+  parcial: 'bg-amber-50 text-amber-700 border-amber-200',
+  incompleta: 'bg-red-50 text-red-700 border-red-200'
+} as const;
+
+const STATUS_STYLE: Record<NarrativeCheckStatus, { icon: React.ElementType; className: string; label: string }> = {
+  ok: { icon: CheckCircle2, className: 'text-green-600', label: 'Cubierto' },
+  faltante: { icon: AlertTriangle, className: 'text-amber-600', label: 'Faltante' },
+  contradictorio: { icon: XCircle, className: 'text-red-600', label: 'Contradictorio' }
+};
+
+// =====================================================
+// FUNCIONES DE UTILIDAD
+// =====================================================
+
+/**
+ * Estado del elemento: el peor de sus reglas (contradictorio > faltante > ok)
+ */
+const getElementStatus = (checks: NarrativeCheck[], element: NarrativeElement): NarrativeCheckStatus | null => {
+  const statuses = checks.filter(check => check.element === element).map(check => check.status);
+  if (statuses.length === 0) return null;
+  if (statuses.includes('contradictorio')) return 'contradictorio';
+  if (statuses.includes('faltante')) return 'faltante';
+  return 'ok';
+};
+
+// =====================================================
+// COMPONENTE PRINCIPAL
+// =====================================================
+
+const NarrativaCompletitud: React.FC<NarrativaCompletitudProps> = ({
+  result,
+  highlight,
+  onToggleHighlight,
+  className = ''
+}) => {
+  const [showPassed, setShowPassed] = useState(false);
+
+  const issues = result.checks.filter(check => check.status !== 'ok');
+  const passed = result.checks.filter(check => check.status === 'ok');
+
+  return (
+    <div className={`p-4 bg-white rounded-lg border border-[#c2b186]/20 font-poppins ${className}`}>
+      {/* Encabezado con puntaje */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-[#4d4725]">
+          <ClipboardCheck className="h-4 w-4 text-[#c2b186]" />
+          Revisión de la narrativa
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-1 text-xs rounded-full border font-medium ${LEVEL_CLASS[result.level]}`}>
+            {NARRATIVE_LEVEL_LABELS[result.level]} · {result.score}%
+          </span>
+          <button
+            type="button"
+            onClick={onToggleHighlight}
+            aria-pressed={highlight}
+            className={`flex items-center gap-1 px-2 py-1 text-xs rounded-full border transition-colors cursor-pointer ${
+              highlight
+                ? 'bg-[#c2b186] border-[#c2b186] text-white'
+                : 'bg-white border-[#c2b186] text-[#4d4725] hover:bg-[#fdf7f1]'
+            }`}
+          >
+            <Highlighter className="h-3 w-3" />
+            Resaltar en el texto
+          </button>
+        </div>
+      </div>
+
+      {/* Cobertura por elemento */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 mb-4">
+        {ELEMENTS.map(element => {
+          const status = getElementStatus(result.checks, element);
+          const style = status ? STATUS_STYLE[status] : null;
+          const Icon = style?.icon;
+          return (
+            <div key={element} className="flex items-center gap-2 p-2 rounded-md bg-[#fdf7f1] text-xs">
+              {Icon && <Icon className={`h-4 w-4 ${style.className}`} />}
+              <div>
+                <p className="font-semibold text-[#4d4725]">{NARRATIVE_ELEMENT_LABELS[element]}</p>
+                <p className="text-gray-500">{style?.label ?? 'Sin reglas'}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Pendientes */}
+      {issues.length > 0 ? (
+        <ul className="space-y-2">
+          {issues.map(check => {
+            const { icon: Icon, className: iconClass } = STATUS_STYLE[check.status];
+            return (
+              <li key={check.id} className="flex items-start gap-2 text-sm">
+                <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${iconClass}`} />
+                <div>
+                  <p className="font-medium text-gray-700">{check.label}</p>
+                  <p className="text-xs text-gray-500">{check.detail}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          La narrativa cubre todos los elementos revisados
+        </p>
+      )}
+
+      {/* Reglas cumplidas */}
+      {passed.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <button
+            type="button"
+            onClick={() => setShowPassed(!showPassed)}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-[#4d4725] cursor-pointer"
+          >
+            {showPassed ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+            {passed.length} elemento{passed.length === 1 ? '' : 's'} cubierto{passed.length === 1 ? '' : 's'}
+          </button>
+          {showPassed && (
+            <ul className="mt-2 space-y-1">
+              {passed.map(check => (
+                <li key={check.id} className="flex items-center gap-2 text-xs text-gray-600">
+                  <CheckCircle2 className="h-3 w-3 text-green-600 flex-shrink-0" />
+                  <span className="font-medium">{check.label}:</span> {check.detail}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-gray-400">
+        Revisión automática por reglas; no sustituye la revisión del superior.
+      </p>
+    </div>
+  );
+};
+
+export default NarrativaCompletitud;
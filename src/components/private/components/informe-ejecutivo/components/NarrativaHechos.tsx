@@ -2,6 +2,7 @@
  * Componente NarrativaHechos
  * Muestra la narrativa detallada de los hechos del IPH
  * Incluye funcionalidad de expandir/colapsar para textos largos
+ * y la revisión automática de completitud contra los datos del IPH
  * Mantiene diseño original con colores #c2b186, #fdf7f1
  */
 
@@ -16,6 +17,9 @@ import {
   Hash
 } from 'lucide-react';
 import type { INarrativa } from '../../../../../interfaces/iph/iph.interface';
+import type { NarrativeCheckResult } from '../../../../../helper/narrative/narrative-check.helper';
+import NarrativaCompletitud from './NarrativaCompletitud';
+import NarrativaResaltada from './NarrativaResaltada';
 
 // =====================================================
 // INTERFACES
@@ -23,6 +27,8 @@ import type { INarrativa } from '../../../../../interfaces/iph/iph.interface';
 
 interface NarrativaHechosProps {
   narrativaHecho: INarrativa | INarrativa[] | null;
+  /** Resultado de la revisión automática (ver checkNarrative) */
+  completitud?: NarrativeCheckResult | null;
   className?: string;
 }
 
@@ -70,10 +76,13 @@ const calcularEstadisticas = (contenido: string) => {
 
 const NarrativaHechos: React.FC<NarrativaHechosProps> = ({
   narrativaHecho,
+  completitud,
   className = ''
 }) => {
   // Estado para expandir/colapsar
   const [expandido, setExpandido] = useState(false);
+  // Resaltar en el texto los hallazgos de la revisión automática
+  const [resaltar, setResaltar] = useState(false);
   
   // Verificar si los datos están disponibles y obtener el primer elemento si es array
   if (!narrativaHecho || (Array.isArray(narrativaHecho) && narrativaHecho.length === 0)) {
@@ -186,50 +195,66 @@ const NarrativaHechos: React.FC<NarrativaHechosProps> = ({
               </div>
             </div>
           </div>
+
+          {/* Revisión de completitud */}
+          {completitud && (
+            <NarrativaCompletitud
+              result={completitud}
+              highlight={resaltar}
+              onToggleHighlight={() => setResaltar(!resaltar)}
+            />
+          )}
         </div>
 
         {/* Contenido de la narrativa */}
         <div className="bg-white p-6 rounded-lg border border-[#c2b186]/20">
-          <div className="prose prose-sm max-w-none">
-            {expandido ? (
-              // Mostrar todos los párrafos
-              <div className="space-y-4">
-                {parrafos.map((parrafo, index) => (
-                  <p 
-                    key={index}
-                    className="text-gray-700 leading-relaxed text-justify font-poppins"
-                  >
-                    {parrafo}
-                  </p>
-                ))}
-              </div>
-            ) : (
-              // Mostrar vista previa
-              <div className="space-y-4">
-                {parrafosAMostrar.map((parrafo, index) => (
-                  <p 
-                    key={index}
-                    className="text-gray-700 leading-relaxed text-justify font-poppins"
-                  >
-                    {parrafo}
-                  </p>
-                ))}
-                
-                {/* Texto cortado si es necesario */}
-                {necesitaExpandir && !expandido && contenidoAMostrar.length < narrativa.contenido.length && (
-                  <div className="relative">
-                    <div className="absolute inset-0 bg-gradient-to-t from-white via-white/50 to-transparent h-8"></div>
-                    <p className="text-gray-400 italic text-sm">
-                      ... texto continúa
+          {resaltar && completitud ? (
+            <NarrativaResaltada
+              contenido={narrativa.contenido}
+              highlights={completitud.highlights}
+            />
+          ) : (
+            <div className="prose prose-sm max-w-none">
+              {expandido ? (
+                // Mostrar todos los párrafos
+                <div className="space-y-4">
+                  {parrafos.map((parrafo, index) => (
+                    <p 
+                      key={index}
+                      className="text-gray-700 leading-relaxed text-justify font-poppins"
+                    >
+                      {parrafo}
                     </p>
-                  </div>
-                )}
-              </div>
-            )}
-          </div>
+                  ))}
+                </div>
+              ) : (
+                // Mostrar vista previa
+                <div className="space-y-4">
+                  {parrafosAMostrar.map((parrafo, index) => (
+                    <p 
+                      key={index}
+                      className="text-gray-700 leading-relaxed text-justify font-poppins"
+                    >
+                      {parrafo}
+                    </p>
+                  ))}
+
+                  {/* Texto cortado si es necesario */}
+                  {necesitaExpandir && !expandido && contenidoAMostrar.length < narrativa.contenido.length && (
+                    <div className="relative">
+                      <div className="absolute inset-0 bg-gradient-to-t from-white via-white/50 to-transparent h-8"></div>
+                      <p className="text-gray-400 italic text-sm">
+                        ... texto continúa
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
           
           {/* Botón para expandir/colapsar */}
-          {necesitaExpandir && (
+          {necesitaExpandir && !resaltar && (
             <div className="mt-6 pt-4 border-t border-gray-200 text-center">
               <button
                 onClick={() => setExpandido(!expandido)}
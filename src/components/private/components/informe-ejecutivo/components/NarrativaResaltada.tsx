@@ -0,0 +1,77 @@
+/**
+ * Componente NarrativaResaltada
+ * Texto completo de la narrativa con los fragmentos de la revisión
+ * automática resaltados (evidencia en verde, contradicciones en rojo)
+ */
+
+import React, { useMemo } from 'react';
+import type { NarrativeHighlight } from '../../../../../helper/narrative/narrative-check.helper';
+
+// =====================================================
+// INTERFACES
+// =====================================================
+
+interface NarrativaResaltadaProps {
+  contenido: string;
+  highlights: NarrativeHighlight[];
+  className?: string;
+}
+
+// =====================================================
+// COMPONENTE PRINCIPAL
+// =====================================================
+
+const NarrativaResaltada: React.FC<NarrativaResaltadaProps> = ({
+  contenido,
+  highlights,
+  className = ''
+}) => {
+  // Los fragmentos ya vienen ordenados y sin traslapes
+  const segments = useMemo(() => {
+    const result: Array<{ text: string; highlight?: NarrativeHighlight }> = [];
+    let cursor = 0;
+    for (const highlight of highlights) {
+      if (highlight.start > cursor) result.push({ text: contenido.slice(cursor, highlight.start) });
+      result.push({ text: contenido.slice(highlight.start, highlight.end), highlight });
+      cursor = highlight.end;
+    }
+    if (cursor < contenido.length) result.push({ text: contenido.slice(cursor) });
+    return result;
+  }, [contenido, highlights]);
+
+  return (
+    <div className={className}>
+      <p className="text-gray-700 leading-relaxed text-justify font-poppins whitespace-pre-line">
+        {segments.map((segment, index) =>
+          segment.highlight ? (
+            <mark
+              key={index}
+              className={`rounded px-0.5 ${
+                segment.highlight.kind === 'contradiccion'
+                  ? 'bg-red-100 text-red-800'
+                  : 'bg-green-100 text-green-800'
+              }`}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <React.Fragment key={index}>{segment.text}</React.Fragment>
+          )
+        )}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-green-100 border border-green-200" />
+          Coincide con los datos del IPH
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-red-100 border border-red-200" />
+          Posible contradicción
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default NarrativaResaltada;
@@ -1,16 +1,17 @@
 /**
  * Componente PDFExportButton
- * Botón para exportar el informe a PDF manteniendo diseño original
+ * Botón para generar el PDF del informe (abre la vista previa) manteniendo diseño original
  */
 
 import React from 'react';
-import { FileText, Download, Loader2 } from 'lucide-react';
+import { FileText, Loader2 } from 'lucide-react';
 import type { IPDFExportButtonProps } from '../../../../../interfaces/components/informe-ejecutivo.interface';
 
 const PDFExportButton: React.FC<IPDFExportButtonProps> = ({
   informeId,
   referencia,
   loading = false,
+  loadingLabel = 'Generando...',
   disabled = false,
   className = '',
   onExport
@@ -42,13 +43,13 @@ const PDFExportButton: React.FC<IPDFExportButtonProps> = ({
             ? 'Generando PDF...' 
             : disabled 
               ? 'Exportación no disponible'
-              : `Exportar ${referencia || 'informe'} a PDF`
+              : `Generar PDF de ${referencia || 'informe'} (vista previa antes de descargar)`
         }
       >
         {loading ? (
           <>
             <Loader2 className="h-5 w-5 animate-spin" />
-            Generando...
+            {loadingLabel}
           </>
         ) : (
           <>
@@ -58,24 +59,6 @@ const PDFExportButton: React.FC<IPDFExportButtonProps> = ({
         )}
       </button>
 
-      {/* Información adicional para el usuario */}
-      {!loading && !disabled && (
-        <div className="mt-2 text-xs text-gray-600 font-poppins text-right">
-          <p className="flex items-center justify-end gap-1">
-            <Download className="h-3 w-3" />
-            Se descargará automáticamente
-          </p>
-        </div>
-      )}
-
-      {/* Estado de configuración dummy */}
-      {!loading && (
-        <div className="mt-1 text-xs text-amber-600 font-poppins text-right">
-          <p className="flex items-center justify-end gap-1">
-            ⚠️ Funcionalidad en desarrollo
-          </p>
-        </div>
-      )}
     </div>
   );
 };
@@ -0,0 +1,110 @@
+/**
+ * Componente PDFPreviewModal
+ * Vista previa del PDF del IPH generado en el navegador, con descarga
+ */
+
+import React, { useEffect } from 'react';
+import { Download, FileText, X } from 'lucide-react';
+
+// Componentes
+import { PDFViewer } from '../../../common';
+
+// =====================================================
+// INTERFACES
+// =====================================================
+
+interface PDFPreviewModalProps {
+  url: string;
+  fileName: string;
+  pageCount: number;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+// =====================================================
+// COMPONENTE PRINCIPAL
+// =====================================================
+
+const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
+  url,
+  fileName,
+  pageCount,
+  onDownload,
+  onClose
+}) => {
+  // Cerrar con Escape y bloquear el scroll del fondo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = 'unset';
+    };
+  }, [onClose]);
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black/30 backdrop-blur-md z-40"
+        onClick={onClose}
+      />
+
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Vista previa del PDF">
+        <div className="relative w-full max-w-5xl h-[90vh] bg-white rounded-2xl shadow-2xl flex flex-col font-poppins">
+          {/* Header */}
+          <div className="flex-shrink-0 flex items-center justify-between gap-4 px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="flex items-center justify-center w-10 h-10 rounded-full bg-[#c2b186] text-white flex-shrink-0">
+                <FileText className="h-5 w-5" />
+              </div>
+              <div className="min-w-0">
+                <h2 className="text-lg font-bold text-[#4d4725] truncate">Vista previa del informe</h2>
+                <p className="text-sm text-gray-600 truncate">
+                  {fileName} · {pageCount} página{pageCount === 1 ? '' : 's'}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={onDownload}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-[#4d4725] text-white rounded-lg text-sm font-semibold hover:bg-[#3a3519] transition-colors cursor-pointer"
+              >
+                <Download className="h-4 w-4" />
+                Descargar PDF
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="p-2 text-gray-500 hover:text-[#4d4725] hover:bg-[#fdf7f1] rounded-lg transition-colors cursor-pointer"
+                aria-label="Cerrar vista previa"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+
+          {/* Visor */}
+          <div className="flex-1 min-h-0 bg-gray-100 rounded-b-2xl overflow-hidden">
+            <PDFViewer
+              url={url}
+              urlType="blob"
+              fileName={fileName}
+              showDownloadButton={false}
+              showPrintButton={true}
+              height="100%"
+              width="100%"
+            />
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default PDFPreviewModal;
@@ -21,6 +21,7 @@ import {
 } from 'lucide-react';
 import type { TabWithStatus } from '../utils/tabsConfig';
 import type { I_IphData } from '../../../../../interfaces/iph/iph.interface';
+import type { NarrativeCheckResult } from '../../../../../helper/narrative/narrative-check.helper';
 
 // Componentes de contenido
 import DatosGenerales from './DatosGenerales';
@@ -50,6 +51,10 @@ interface SectionModalProps {
   onClose: () => void;
   onTabChange: (tabId: string) => void;
   getActiveTabData: () => any;
+  /** Revisión automática de la narrativa (sección narrativa-hechos) */
+  narrativeCheck?: NarrativeCheckResult | null;
+  /** Objeto del Anexo D que se muestra al abrir la sección */
+  inventarioIndex?: number;
   className?: string;
 }
 
@@ -95,6 +100,8 @@ const SectionModal: React.FC<SectionModalProps> = ({
   onClose,
   onTabChange,
   getActiveTabData,
+  narrativeCheck,
+  inventarioIndex,
   className = ''
 }) => {
   // Ref para el contenedor de scroll
@@ -315,6 +322,7 @@ const SectionModal: React.FC<SectionModalProps> = ({
               ) : activeTab === 'narrativa-hechos' ? (
                 <NarrativaHechos 
                   narrativaHecho={getActiveTabData()} 
+                  completitud={narrativeCheck}
                   className="mb-0" 
                 />
               ) : activeTab === 'anexo-a-detenciones' || activeTab === 'anexo-a-detenciones-civica' ? (
@@ -353,6 +361,7 @@ const SectionModal: React.FC<SectionModalProps> = ({
               ) : activeTab === 'anexo-d-inventario' ? (
                 <AnexoInventario 
                   armaObjeto={getActiveTabData()} 
+                  initialIndex={inventarioIndex}
                   className="mb-0" 
                 />
               ) : activeTab === 'anexo-e-entrevistas' ? (
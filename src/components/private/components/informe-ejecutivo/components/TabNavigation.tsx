@@ -2,6 +2,7 @@
  * Componente TabNavigation
  * Sistema de lista de elementos para navegación en InformeEjecutivo
  * Con badges de estado, iconos y diseño tipo lista vertical
+ * La narrativa muestra además su puntaje de completitud
  */
 
 import React, { useState } from 'react';
@@ -20,6 +21,10 @@ import {
   Circle
 } from 'lucide-react';
 import type { TabWithStatus } from '../utils/tabsConfig';
+import {
+  NARRATIVE_LEVEL_LABELS,
+  type NarrativeCompletenessLevel
+} from '../../../../../helper/narrative/narrative-check.helper';
 
 // =====================================================
 // INTERFACES
@@ -61,6 +66,17 @@ const getIconForTab = (tabId: string) => {
   return iconMap[tabId] || FileText;
 };
 
+// Colores del badge de completitud por nivel
+const COMPLETENESS_BADGE: Record<NarrativeCompletenessLevel, string> = {
+  completa: 'bg-green-50 text-green-700 border-green-200',
+  parcial: 'bg-amber-50 text-amber-700 border-amber-200',
+  incompleta: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const getCompletenessTitle = (completeness: NonNullable<TabWithStatus['completeness']>): string =>
+  `Completitud de la narrativa: ${NARRATIVE_LEVEL_LABELS[completeness.level]} (${completeness.score}%)` +
+  (completeness.issues > 0 ? ` · ${completeness.issues} pendiente${completeness.issues === 1 ? '' : 's'}` : '');
+
 // =====================================================
 // COMPONENTE PRINCIPAL
 // =====================================================
@@ -191,6 +207,14 @@ const TabNavigation: React.FC<TabNavigationProps> = ({
                         
                         {/* Estado e indicador */}
                         <div className="flex items-center gap-2 ml-2">
+                          {tab.completeness && (
+                            <span
+                              className={`px-2 py-1 text-xs rounded-full border font-medium ${COMPLETENESS_BADGE[tab.completeness.level]}`}
+                              title={getCompletenessTitle(tab.completeness)}
+                            >
+                              {tab.completeness.score}% completa
+                            </span>
+                          )}
                           <div className="transition-transform duration-300 ease-in-out group-hover:scale-110">
                             {getStatusIcon(tab.hasData)}
                           </div>
@@ -258,6 +282,14 @@ const TabNavigation: React.FC<TabNavigationProps> = ({
                         {tab.label}
                       </span>
                       <div className="flex items-center gap-1 ml-2">
+                        {tab.completeness && (
+                          <span
+                            className={`px-1.5 py-0.5 text-xs rounded-full border font-medium ${COMPLETENESS_BADGE[tab.completeness.level]}`}
+                            title={getCompletenessTitle(tab.completeness)}
+                          >
+                            {tab.completeness.score}%
+                          </span>
+                        )}
                         <div className="transition-transform duration-300 ease-in-out hover:scale-110">
                           {getStatusIcon(tab.hasData)}
                         </div>
@@ -0,0 +1,109 @@
+/**
+ * Hook para generar y previsualizar el PDF del IPH
+ *
+ * Genera el documento en el navegador con los datos ya cargados (no vuelve a
+ * consultar el backend) y lo deja listo para la vista previa con PDFViewer.
+ * La URL del blob se libera al cerrar la vista previa o al desmontar.
+ *
+ * @version 1.0.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Servicios
+import { generateIphPdf, type IphPdfProgress } from '../services/iph-pdf.service';
+
+// Helpers
+import { downloadBlob } from '../../../../../helper/export/export.helper';
+import { showError, showSuccess } from '../../../../../helper/notification/notification.helper';
+import { logError } from '../../../../../helper/log/logger.helper';
+
+// Interfaces
+import type { ResponseIphData } from '../../../../../interfaces/iph/iph.interface';
+
+export interface InformePdfPreview {
+  blob: Blob;
+  url: string;
+  fileName: string;
+  pageCount: number;
+}
+
+interface IUseInformePdfReturn {
+  generating: boolean;
+  progress: IphPdfProgress | null;
+  preview: InformePdfPreview | null;
+  generate: (data: ResponseIphData) => Promise<void>;
+  cancel: () => void;
+  closePreview: () => void;
+  download: () => void;
+}
+
+const useInformePdf = (): IUseInformePdfReturn => {
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<IphPdfProgress | null>(null);
+  const [preview, setPreview] = useState<InformePdfPreview | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const previewUrlRef = useRef<string | null>(null);
+
+  const releasePreview = useCallback(() => {
+    if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+    previewUrlRef.current = null;
+  }, []);
+
+  const generate = useCallback(async (data: ResponseIphData) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setGenerating(true);
+    setProgress(null);
+
+    try {
+      const result = await generateIphPdf(data, { signal: controller.signal, onProgress: setProgress });
+      if (controller.signal.aborted) return;
+
+      releasePreview();
+      const url = URL.createObjectURL(result.blob);
+      previewUrlRef.current = url;
+      setPreview({ blob: result.blob, url, fileName: result.fileName, pageCount: result.pageCount });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      logError('useInformePdf', error, 'Error generando el PDF del IPH');
+      showError('No se pudo generar el PDF del informe', 'Exportación PDF');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setGenerating(false);
+        setProgress(null);
+      }
+    }
+  }, [releasePreview]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setGenerating(false);
+    setProgress(null);
+  }, []);
+
+  const closePreview = useCallback(() => {
+    releasePreview();
+    setPreview(null);
+  }, [releasePreview]);
+
+  const download = useCallback(() => {
+    if (!preview) return;
+    downloadBlob(preview.blob, preview.fileName);
+    showSuccess(`Se descargó ${preview.fileName}`, 'Exportación PDF');
+  }, [preview]);
+
+  // Cancelar y liberar memoria al salir del informe
+  useEffect(() => () => {
+    controllerRef.current?.abort();
+    releasePreview();
+  }, [releasePreview]);
+
+  return { generating, progress, preview, generate, cancel, closePreview, download };
+};
+
+export default useInformePdf;
@@ -0,0 +1,324 @@
+/**
+ * Servicio de hojas de cadena de custodia (PDF)
+ *
+ * Una hoja tamaño carta por cada arma u objeto del Anexo D con:
+ * - Código del objeto legible y en Code 128 (folio del IPH + posición)
+ * - Descripción y datos del objeto
+ * - Registro de movimientos: aseguramiento, entregas-recepción del Anexo F
+ *   y renglones en blanco para los traslados posteriores
+ * - Bloques de firma de quien asegura y de quien recibe en resguardo
+ *
+ * Todas las hojas salen en un solo PDF para imprimirlas en lote.
+ */
+
+// Helpers
+import { logInfo } from '../../../../../helper/log/logger.helper';
+import {
+  PDF_LETTER_SIZE,
+  createPdfBlob,
+  wrapPdfText,
+  type PdfFontStyle,
+  type PdfOperation,
+  type PdfPage
+} from '../../../../../helper/export/pdf-writer';
+import { CODE128_QUIET_ZONE, encodeCode128 } from '../../../../../helper/custody/code128.helper';
+import type {
+  CustodyItem,
+  CustodyPerson,
+  CustodySheetSet,
+  CustodyTransfer
+} from '../../../../../helper/custody/custody-chain.helper';
+
+// Services
+import { IPH_PDF_CONFIG, type IphPdfResult } from './iph-pdf.service';
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+export const CUSTODY_SHEET_CONFIG = {
+  /** Renglones mínimos del registro de movimientos (los vacíos se llenan a mano) */
+  minTransferRows: 6,
+  barcode: {
+    height: 46,
+    maxModuleWidth: 1.6
+  }
+} as const;
+
+const { width: PAGE_WIDTH, height: PAGE_HEIGHT } = PDF_LETTER_SIZE;
+const { margin: MARGIN, colors: COLORS } = IPH_PDF_CONFIG;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+/** Columnas del registro de movimientos (suman CONTENT_WIDTH) */
+const TRANSFER_COLUMNS = [
+  { title: 'No.', width: 24 },
+  { title: 'Etapa / fecha y hora', width: 108 },
+  { title: 'Entrega', width: 128 },
+  { title: 'Recibe', width: 128 },
+  { title: 'Firma entrega', width: 72 },
+  { title: 'Firma recibe', width: 72 }
+] as const;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+const formatDateTime = (value: string | undefined): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString('es-MX', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+const formatPerson = (person: CustodyPerson): string =>
+  [person.nombre, person.cargo, person.adscripcion].filter(Boolean).join(', ');
+
+/**
+ * Nombre del archivo descargado
+ */
+export const buildCustodySheetFileName = (referencia: string | undefined): string => {
+  const ref = referencia?.replace(/[^a-zA-Z0-9-]/g, '_') || 'informe';
+  return `CadenaCustodia_${ref}.pdf`;
+};
+
+/**
+ * Escribe el texto ajustado al ancho, como máximo `maxLines` renglones
+ * (el último se corta con "...")
+ */
+const pushWrapped = (
+  ops: PdfOperation[],
+  text: string,
+  x: number,
+  y: number,
+  width: number,
+  size: number,
+  maxLines: number,
+  font: PdfFontStyle = 'normal',
+  color: string = COLORS.text
+): number => {
+  const lines = wrapPdfText(text, size, width, font);
+  const visible = lines.slice(0, maxLines);
+  if (lines.length > maxLines) visible[maxLines - 1] = `${visible[maxLines - 1].replace(/.{0,3}$/, '')}...`;
+
+  const lineHeight = size * IPH_PDF_CONFIG.lineHeight;
+  visible.forEach((line, index) => {
+    ops.push({ type: 'text', x, y: y + size + index * lineHeight, text: line, size, font, color });
+  });
+  return visible.length * lineHeight;
+};
+
+// =====================================================
+// DIBUJO DE LA HOJA
+// =====================================================
+
+const drawHeader = (ops: PdfOperation[], sheetSet: CustodySheetSet): number => {
+  ops.push({ type: 'rect', x: MARGIN, y: MARGIN, width: CONTENT_WIDTH, height: 28, fill: COLORS.primary });
+  ops.push({ type: 'text', x: MARGIN + 8, y: MARGIN + 18, text: 'HOJA DE CADENA DE CUSTODIA', size: 11, font: 'bold', color: '#ffffff' });
+
+  const ids = `Ref. ${sheetSet.referencia || 'N/D'}   |   Folio ${sheetSet.folio || 'N/D'}`;
+  const idsLine = wrapPdfText(ids, 8, CONTENT_WIDTH / 2)[0] ?? '';
+  ops.push({ type: 'text', x: MARGIN + CONTENT_WIDTH / 2, y: MARGIN + 17, text: idsLine, size: 8, font: 'bold', color: COLORS.accent });
+  return MARGIN + 40;
+};
+
+const drawBarcode = (ops: PdfOperation[], code: string, top: number): number => {
+  const encoding = encodeCode128(code);
+  const totalModules = encoding.width + CODE128_QUIET_ZONE * 2;
+  const moduleWidth = Math.min(CUSTODY_SHEET_CONFIG.barcode.maxModuleWidth, (CONTENT_WIDTH / 2) / totalModules);
+  const barcodeWidth = encoding.width * moduleWidth;
+  const x = MARGIN + CONTENT_WIDTH - barcodeWidth - CODE128_QUIET_ZONE * moduleWidth;
+  const { height } = CUSTODY_SHEET_CONFIG.barcode;
+
+  encoding.bars.forEach(bar => {
+    ops.push({ type: 'rect', x: x + bar.x * moduleWidth, y: top, width: bar.width * moduleWidth, height, fill: '#000000' });
+  });
+  ops.push({ type: 'text', x, y: top + height + 11, text: code, size: 9, font: 'bold', color: COLORS.text });
+  return height + 16;
+};
+
+const drawItemSummary = (ops: PdfOperation[], item: CustodyItem, total: number, top: number): number => {
+  const width = CONTENT_WIDTH / 2 - 12;
+  ops.push({ type: 'text', x: MARGIN, y: top + 9, text: `${item.tipo.toUpperCase()} ${item.index + 1} DE ${total}`, size: 8, font: 'bold', color: COLORS.secondary });
+  ops.push({ type: 'text', x: MARGIN, y: top + 28, text: item.code, size: 14, font: 'bold', color: COLORS.primary });
+  const used = pushWrapped(ops, item.descripcion, MARGIN, top + 34, width, 9, 3);
+  return 34 + used;
+};
+
+const drawDetails = (ops: PdfOperation[], item: CustodyItem, top: number): number => {
+  if (item.detalles.length === 0 && item.testigos.length === 0) return 0;
+
+  const gap = 12;
+  const columnWidth = (CONTENT_WIDTH - gap) / 2;
+  const rowHeight = 24;
+  let y = top;
+
+  ops.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: 16, fill: COLORS.background });
+  ops.push({ type: 'text', x: MARGIN + 6, y: y + 11, text: 'DATOS DEL OBJETO (ANEXO D)', size: 8, font: 'bold', color: COLORS.primary });
+  y += 22;
+
+  const detalles = item.testigos.length > 0
+    ? [...item.detalles, { label: 'Testigos', value: item.testigos.join('; ') }]
+    : item.detalles;
+
+  detalles.forEach((detalle, index) => {
+    const x = MARGIN + (index % 2) * (columnWidth + gap);
+    const rowTop = y + Math.floor(index / 2) * rowHeight;
+    ops.push({ type: 'text', x, y: rowTop + 7, text: detalle.label.toUpperCase(), size: 6.5, font: 'bold', color: COLORS.muted });
+    pushWrapped(ops, detalle.value, x, rowTop + 8, columnWidth, 8.5, 1);
+  });
+
+  return y - top + Math.ceil(detalles.length / 2) * rowHeight + 4;
+};
+
+const transferCells = (transfer: CustodyTransfer | null): string[] => {
+  if (!transfer) return ['', '', '', '', ''];
+  return [
+    [transfer.etapa, formatDateTime(transfer.fecha), transfer.observaciones].filter(Boolean).join('\n'),
+    transfer.entrega.map(formatPerson).join('\n'),
+    transfer.recibe.map(formatPerson).join('\n'),
+    '',
+    ''
+  ];
+};
+
+const drawTransfers = (ops: PdfOperation[], transfers: CustodyTransfer[], top: number, bottom: number): number => {
+  const size = 7.5;
+  const lineHeight = size * IPH_PDF_CONFIG.lineHeight;
+  const minRowHeight = 34;
+  let y = top;
+
+  ops.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: 16, fill: COLORS.background });
+  ops.push({ type: 'text', x: MARGIN + 6, y: y + 11, text: 'REGISTRO DE MOVIMIENTOS', size: 8, font: 'bold', color: COLORS.primary });
+  y += 20;
+
+  // Encabezado de la tabla
+  let x = MARGIN;
+  ops.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: 14, fill: COLORS.accent });
+  TRANSFER_COLUMNS.forEach(column => {
+    ops.push({ type: 'text', x: x + 4, y: y + 10, text: column.title, size: 7, font: 'bold', color: '#ffffff' });
+    x += column.width;
+  });
+  y += 14;
+
+  const rows: Array<CustodyTransfer | null> = [...transfers];
+  while (rows.length < CUSTODY_SHEET_CONFIG.minTransferRows) rows.push(null);
+
+  for (const [rowIndex, transfer] of rows.entries()) {
+    const cells = [String(rowIndex + 1), ...transferCells(transfer)];
+    const wrapped = cells.map((cell, index) =>
+      cell.split('\n').flatMap(line => wrapPdfText(line, size, TRANSFER_COLUMNS[index].width - 8))
+    );
+    const rowHeight = Math.max(minRowHeight, Math.max(...wrapped.map(lines => lines.length)) * lineHeight + 8);
+
+    // Los renglones en blanco solo se dibujan mientras quepan en la hoja
+    if (y + rowHeight > bottom) break;
+
+    x = MARGIN;
+    wrapped.forEach((lines, index) => {
+      const column = TRANSFER_COLUMNS[index];
+      ops.push({ type: 'rect', x, y, width: column.width, height: rowHeight, stroke: COLORS.border, lineWidth: 0.6 });
+      lines.forEach((line, lineIndex) => {
+        ops.push({
+          type: 'text',
+          x: x + 4,
+          y: y + 4 + size + lineIndex * lineHeight,
+          text: line,
+          size,
+          font: lineIndex === 0 && index === 1 ? 'bold' : 'normal',
+          color: COLORS.text
+        });
+      });
+      x += column.width;
+    });
+    y += rowHeight;
+  }
+
+  return y - top;
+};
+
+const drawSignatures = (ops: PdfOperation[], top: number): void => {
+  const gap = 40;
+  const width = (CONTENT_WIDTH - gap) / 2;
+  const blocks = ['Asegura (primer respondiente)', 'Recibe en resguardo'];
+
+  blocks.forEach((title, index) => {
+    const x = MARGIN + index * (width + gap);
+    ops.push({ type: 'line', x1: x, y1: top + 34, x2: x + width, y2: top + 34, color: COLORS.text, lineWidth: 0.8 });
+    ops.push({ type: 'text', x, y: top + 46, text: title, size: 8, font: 'bold', color: COLORS.primary });
+    ops.push({ type: 'text', x, y: top + 57, text: 'Nombre, cargo, firma y fecha', size: 7, color: COLORS.muted });
+  });
+};
+
+const drawFooter = (ops: PdfOperation[], item: CustodyItem, generated: string, pageIndex: number, total: number): void => {
+  const footerY = PAGE_HEIGHT - MARGIN - 10;
+  ops.push(
+    { type: 'line', x1: MARGIN, y1: footerY - 12, x2: MARGIN + CONTENT_WIDTH, y2: footerY - 12, color: COLORS.border },
+    { type: 'text', x: MARGIN, y: footerY, text: `${item.code}  ·  ${generated}`, size: 7.5, color: COLORS.muted },
+    { type: 'text', x: MARGIN + CONTENT_WIDTH - 62, y: footerY, text: `Hoja ${pageIndex + 1} de ${total}`, size: 7.5, font: 'bold', color: COLORS.primary }
+  );
+};
+
+const buildSheet = (
+  sheetSet: CustodySheetSet,
+  item: CustodyItem,
+  generated: string,
+  pageIndex: number,
+  total: number
+): PdfPage => {
+  const ops: PdfOperation[] = [];
+  const signaturesTop = PAGE_HEIGHT - MARGIN - 36 - 64;
+
+  let y = drawHeader(ops, sheetSet);
+  const summaryHeight = drawItemSummary(ops, item, sheetSet.items.length, y);
+  const barcodeHeight = drawBarcode(ops, item.code, y);
+  y += Math.max(summaryHeight, barcodeHeight) + 12;
+  y += drawDetails(ops, item, y) + 6;
+  drawTransfers(ops, item.transfers, y, signaturesTop - 8);
+  drawSignatures(ops, signaturesTop);
+  drawFooter(ops, item, generated, pageIndex, total);
+
+  return { operations: ops };
+};
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Genera el PDF con las hojas de custodia
+ *
+ * @param sheetSet - Hojas del IPH (`buildCustodySheetSet`)
+ * @param items - Objetos a imprimir (default: todos)
+ */
+export const generateCustodySheetsPdf = (
+  sheetSet: CustodySheetSet,
+  items: CustodyItem[] = sheetSet.items
+): IphPdfResult => {
+  const generated = `Generado el ${new Date().toLocaleString('es-MX', { hour12: false })}`;
+  const pages = items.map((item, index) => buildSheet(sheetSet, item, generated, index, items.length));
+
+  const blob = createPdfBlob({
+    pages,
+    title: `Cadena de custodia ${sheetSet.referencia}`.trim(),
+    author: 'Sistema IPH'
+  });
+
+  logInfo('CustodySheetPdf', 'Hojas de cadena de custodia generadas', {
+    referencia: sheetSet.referencia,
+    hojas: pages.length,
+    size: blob.size
+  });
+
+  return {
+    blob,
+    fileName: buildCustodySheetFileName(sheetSet.referencia),
+    pageCount: pages.length
+  };
+};
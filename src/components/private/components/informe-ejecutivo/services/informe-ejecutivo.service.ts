@@ -1,6 +1,7 @@
 /**
  * Servicio InformeEjecutivo
- * Patrón mock/real para reportes ejecutivos con integración getIphById existente
+ * Integración con getIphById existente; el PDF se genera en el navegador
+ * (iph-pdf.service) o con el endpoint de exportación del backend
  */
 
 import type { 
@@ -10,6 +11,7 @@ import type {
 
 // Servicio existente
 import { getIphById } from '../../iph-oficial/services/get-iph.service';
+import { generateIphPdf } from './iph-pdf.service';
 
 // Helpers
 import { logInfo, logError } from '../../../../../helper/log/logger.helper';
@@ -18,7 +20,11 @@ import { logInfo, logError } from '../../../../../helper/log/logger.helper';
 // CONFIGURACIÓN
 // =====================================================
 
-const USE_MOCK_PDF_EXPORT = true; // TODO: Cambiar a false cuando esté la API real
+/**
+ * Origen del PDF: 'cliente' arma el documento homologado en el navegador
+ * (funciona sin el endpoint de exportación); 'servidor' usa la API
+ */
+const PDF_EXPORT_SOURCE: 'cliente' | 'servidor' = 'cliente';
 
 // =====================================================
 // TRANSFORMADORES DE DATOS
@@ -241,70 +247,25 @@ const exportInformeToPDFReal = async (id: string): Promise<Blob> => {
 };
 
 // =====================================================
-// SERVICIOS MOCK
+// GENERACIÓN EN EL NAVEGADOR
 // =====================================================
 
 /**
- * Simula la exportación de PDF
+ * Genera el PDF homologado en el navegador a partir de getIphById
  * @param id - ID del informe
- * @returns Mock blob
+ * @returns Blob del PDF
  */
-const exportInformeToPDFMock = async (id: string): Promise<Blob> => {
+const exportInformeToPDFClient = async (id: string): Promise<Blob> => {
   try {
-    logInfo('InformeEjecutivoService', 'Exporting mock PDF', { id });
-    
-    // Simular tiempo de procesamiento
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Crear un blob mock con contenido PDF simulado
-    const pdfContent = `%PDF-1.4
-1 0 obj
-<< /Type /Catalog /Pages 2 0 R >>
-endobj
-2 0 obj
-<< /Type /Pages /Kids [3 0 R] /Count 1 >>
-endobj
-3 0 obj
-<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /MediaBox [0 0 612 792] /Contents 5 0 R >>
-endobj
-4 0 obj
-<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>
-endobj
-5 0 obj
-<< /Length 44 >>
-stream
-BT
-/F1 12 Tf
-72 720 Td
-(Informe Ejecutivo Mock - ID: ${id}) Tj
-ET
-endstream
-endobj
-xref
-0 6
-0000000000 65535 f 
-0000000009 00000 n 
-0000000058 00000 n 
-0000000115 00000 n 
-0000000244 00000 n 
-0000000317 00000 n 
-trailer
-<< /Size 6 /Root 1 0 R >>
-startxref
-410
-%%EOF`;
-    
-    const mockBlob = new Blob([pdfContent], { type: 'application/pdf' });
-    
-    logInfo('InformeEjecutivoService', 'Mock PDF exportado exitosamente', {
-      id,
-      size: mockBlob.size
-    });
-    
-    return mockBlob;
+    logInfo('InformeEjecutivoService', 'Exporting client PDF', { id });
+
+    const data = await getIphById(id);
+    const { blob } = await generateIphPdf(data);
+
+    return blob;
 
   } catch (error) {
-    logError('InformeEjecutivoService', error, `Error al exportar PDF mock - id: ${id}`);
+    logError('InformeEjecutivoService', error, `Error al generar PDF en el navegador - id: ${id}`);
     throw error;
   }
 };
@@ -329,11 +290,11 @@ export const informeEjecutivoService: IInformeEjecutivoService = {
 
   /**
    * Exporta un informe a PDF
-   * Por ahora usa mock, cambiar flag para implementación real
+   * Se genera en el navegador salvo que se configure el endpoint del servidor
    */
   exportInformeToPDF: async (id: string): Promise<Blob> => {
-    if (USE_MOCK_PDF_EXPORT) {
-      return await exportInformeToPDFMock(id);
+    if (PDF_EXPORT_SOURCE === 'cliente') {
+      return await exportInformeToPDFClient(id);
     } else {
       return await exportInformeToPDFReal(id);
     }
@@ -388,6 +349,6 @@ export default informeEjecutivoService;
 export {
   getInformeEjecutivoReal,
   exportInformeToPDFReal,
-  exportInformeToPDFMock,
+  exportInformeToPDFClient,
   transformServerDataToInformeEjecutivo
 };
\ No newline at end of file
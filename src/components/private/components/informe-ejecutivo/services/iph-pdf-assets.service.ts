@@ -0,0 +1,212 @@
+/**
+ * Servicio de recursos gráficos para el PDF del IPH
+ *
+ * Prepara las imágenes que se incrustan en el PDF generado en el navegador:
+ * - Fotos y archivos de imagen del IPH → JPEG (los PNG/WebP se recodifican
+ *   en un canvas; los JPEG pequeños se usan tal cual)
+ * - Captura del mapa de la intervención armada con los mosaicos de
+ *   OpenStreetMap (los mismos que usa MapSection) y un marcador
+ *
+ * Si un recurso no se puede cargar (sin conexión, CORS, formato) se devuelve
+ * null y el PDF muestra un recuadro en su lugar.
+ */
+
+import { API_BASE_URL } from '../../../../../config/env.config';
+
+// Helpers
+import { logWarning } from '../../../../../helper/log/logger.helper';
+import { readJpegInfo, type PdfJpegImage } from '../../../../../helper/export/pdf-writer';
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+export const IPH_PDF_ASSETS_CONFIG = {
+  /** Lado mayor máximo de las fotos (px); suficiente para imprimir a media página */
+  maxImageSize: 1400,
+  /** JPEG originales por debajo de este tamaño se incrustan sin recodificar */
+  maxPassthroughBytes: 600 * 1024,
+  jpegQuality: 0.85,
+  map: {
+    zoom: 16,
+    width: 1040,
+    height: 520,
+    tileSize: 256,
+    tileUrl: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    subdomains: ['a', 'b', 'c'],
+    markerColor: '#c2b186'
+  }
+} as const;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * URL completa de un archivo del IPH (misma regla que DatosGenerales y AnexoArchivos)
+ */
+export const buildIphFileUrl = (path: string | undefined): string => {
+  if (!path) return '';
+  if (path.startsWith('http') || path.startsWith('data:') || path.startsWith('blob:')) return path;
+  const cleanPath = path.startsWith('/') ? path.slice(1) : path;
+  return `${API_BASE_URL}/${cleanPath}`;
+};
+
+const canvasToJpeg = async (canvas: HTMLCanvasElement): Promise<PdfJpegImage | null> => {
+  const blob = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(resolve, 'image/jpeg', IPH_PDF_ASSETS_CONFIG.jpegQuality)
+  );
+  if (!blob) return null;
+
+  const data = new Uint8Array(await blob.arrayBuffer());
+  const info = readJpegInfo(data);
+  return info ? { data, ...info } : null;
+};
+
+/**
+ * Dibuja la imagen en un canvas con fondo blanco (las transparencias de PNG
+ * quedarían negras en JPEG) y la reduce si excede el tamaño máximo
+ */
+const drawToCanvas = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const scale = Math.min(1, IPH_PDF_ASSETS_CONFIG.maxImageSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+};
+
+const loadTile = (url: string, signal?: AbortSignal): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`No se pudo cargar el mosaico ${url}`));
+    signal?.addEventListener('abort', () => {
+      image.src = '';
+      reject(new DOMException('Carga cancelada', 'AbortError'));
+    }, { once: true });
+    image.src = url;
+  });
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Descarga una imagen del IPH y la deja lista para el PDF
+ *
+ * @returns null si no se pudo cargar o no es una imagen
+ */
+export const loadIphImageForPdf = async (path: string | undefined, signal?: AbortSignal): Promise<PdfJpegImage | null> => {
+  const url = buildIphFileUrl(path);
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+
+    if (blob.type === 'image/jpeg' && blob.size <= IPH_PDF_ASSETS_CONFIG.maxPassthroughBytes) {
+      const data = new Uint8Array(await blob.arrayBuffer());
+      const info = readJpegInfo(data);
+      // Los JPEG progresivos y CMYK también los soporta DCTDecode
+      if (info && Math.max(info.width, info.height) <= IPH_PDF_ASSETS_CONFIG.maxImageSize) {
+        return { data, ...info };
+      }
+    }
+
+    const bitmap = await createImageBitmap(blob);
+    try {
+      return await canvasToJpeg(drawToCanvas(bitmap, bitmap.width, bitmap.height));
+    } finally {
+      bitmap.close();
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    logWarning('IphPdfAssets', 'Imagen omitida en el PDF', { path, error: String(error) });
+    return null;
+  }
+};
+
+/**
+ * Captura del mapa centrado en las coordenadas de la intervención
+ *
+ * @returns null si no se pudieron cargar los mosaicos (p.ej. sin conexión)
+ */
+export const captureIphMapSnapshot = async (
+  lat: number,
+  lng: number,
+  signal?: AbortSignal
+): Promise<PdfJpegImage | null> => {
+  const { zoom, width, height, tileSize, tileUrl, subdomains, markerColor } = IPH_PDF_ASSETS_CONFIG.map;
+
+  // Proyección Web Mercator en píxeles del mundo al nivel de zoom
+  const worldSize = tileSize * 2 ** zoom;
+  const latRad = (lat * Math.PI) / 180;
+  const centerX = ((lng + 180) / 360) * worldSize;
+  const centerY = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * worldSize;
+  const left = centerX - width / 2;
+  const top = centerY - height / 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const tiles: Array<{ x: number; y: number; url: string }> = [];
+  const maxTile = 2 ** zoom;
+  for (let tx = Math.floor(left / tileSize); tx <= Math.floor((left + width - 1) / tileSize); tx++) {
+    for (let ty = Math.floor(top / tileSize); ty <= Math.floor((top + height - 1) / tileSize); ty++) {
+      if (ty < 0 || ty >= maxTile) continue;
+      const wrappedX = ((tx % maxTile) + maxTile) % maxTile;
+      tiles.push({
+        x: tx * tileSize - left,
+        y: ty * tileSize - top,
+        url: tileUrl
+          .replace('{s}', subdomains[Math.abs(tx + ty) % subdomains.length])
+          .replace('{z}', String(zoom))
+          .replace('{x}', String(wrappedX))
+          .replace('{y}', String(ty))
+      });
+    }
+  }
+
+  try {
+    const images = await Promise.all(tiles.map(tile => loadTile(tile.url, signal)));
+    context.fillStyle = '#f2efe9';
+    context.fillRect(0, 0, width, height);
+    images.forEach((image, index) => context.drawImage(image, tiles[index].x, tiles[index].y));
+
+    // Marcador del lugar de la intervención
+    context.beginPath();
+    context.arc(width / 2, height / 2, 12, 0, Math.PI * 2);
+    context.fillStyle = markerColor;
+    context.fill();
+    context.lineWidth = 4;
+    context.strokeStyle = '#4d4725';
+    context.stroke();
+
+    // Atribución requerida por OpenStreetMap
+    context.font = '16px sans-serif';
+    const attribution = '© OpenStreetMap contributors';
+    const textWidth = context.measureText(attribution).width;
+    context.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    context.fillRect(width - textWidth - 12, height - 24, textWidth + 12, 24);
+    context.fillStyle = '#333333';
+    context.fillText(attribution, width - textWidth - 6, height - 7);
+
+    return await canvasToJpeg(canvas);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    logWarning('IphPdfAssets', 'Mapa omitido en el PDF', { lat, lng, error: String(error) });
+    return null;
+  }
+};
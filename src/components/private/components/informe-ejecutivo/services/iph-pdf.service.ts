@@ -0,0 +1,794 @@
+/**
+ * Servicio de generación del PDF del IPH en el navegador
+ *
+ * Arma el documento homologado completo a partir de `ResponseIphData`, sin
+ * depender del backend de exportación:
+ * - Datos generales, puesta a disposición, primer respondiente, conocimiento
+ *   del hecho, lugar de la intervención (con captura del mapa) y narrativa
+ * - Anexos A-F (detenciones, uso de la fuerza, vehículos, armas y objetos,
+ *   entrevistas, entrega-recepción) y continuaciones
+ * - Anexo fotográfico con `fotos` y los archivos de imagen (`IArchivo`)
+ * - Encabezado con referencia y folio, y "Página X de N" en cada hoja
+ *
+ * Las imágenes se cargan con concurrencia limitada; si fallan (sin conexión)
+ * el documento se genera igual con un recuadro en su lugar.
+ */
+
+// Helpers
+import { logInfo } from '../../../../../helper/log/logger.helper';
+import { runBulkOperation, throwIfAborted } from '../../../../../helper/bulk/bulk-operation.helper';
+import {
+  PDF_LETTER_SIZE,
+  createPdfBlob,
+  wrapPdfText,
+  type PdfFontStyle,
+  type PdfJpegImage,
+  type PdfOperation,
+  type PdfPage
+} from '../../../../../helper/export/pdf-writer';
+
+// Utils
+import { firstIphItem, parseIphCoordinates, toIphList } from '../../../../../utils/iph-oficial';
+
+// Services
+import { captureIphMapSnapshot, loadIphImageForPdf } from './iph-pdf-assets.service';
+
+// Interfaces
+import type {
+  I_ArmaObjeto,
+  I_InspeccionVehiculo,
+  I_IphData,
+  IConocimientoHecho,
+  IContinuacion,
+  IDetencion,
+  IDisposicionOficial,
+  IEntregaRecepcion,
+  IEntrevista,
+  ILocalizacion,
+  ILugarIntervencion,
+  INarrativa,
+  IPrimerRespondiente,
+  IPuestaDisposicion,
+  IUsoFuerza,
+  ResponseIphData
+} from '../../../../../interfaces/iph/iph.interface';
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+export const IPH_PDF_CONFIG = {
+  margin: 40,
+  headerHeight: 44,
+  footerHeight: 36,
+  fontSize: 9,
+  labelSize: 7,
+  lineHeight: 1.35,
+  imageConcurrency: 3,
+  colors: {
+    primary: '#4d4725',
+    secondary: '#948b54',
+    accent: '#c2b186',
+    background: '#fdf7f1',
+    text: '#222222',
+    muted: '#6b6b6b',
+    border: '#d9cfb4'
+  }
+} as const;
+
+export interface IphPdfProgress {
+  stage: 'recursos' | 'documento';
+  processed: number;
+  total: number;
+}
+
+export interface IphPdfOptions {
+  /** Incluir fotos, archivos de imagen y mapa (default: true) */
+  includeImages?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: IphPdfProgress) => void;
+}
+
+export interface IphPdfResult {
+  blob: Blob;
+  fileName: string;
+  pageCount: number;
+}
+
+type FieldValue = string | number | boolean | Date | null | undefined;
+type Field = [label: string, value: FieldValue, span?: 'full'];
+
+const { width: PAGE_WIDTH, height: PAGE_HEIGHT } = PDF_LETTER_SIZE;
+const CONTENT_WIDTH = PAGE_WIDTH - IPH_PDF_CONFIG.margin * 2;
+const CONTENT_TOP = IPH_PDF_CONFIG.margin + IPH_PDF_CONFIG.headerHeight;
+const CONTENT_BOTTOM = PAGE_HEIGHT - IPH_PDF_CONFIG.margin - IPH_PDF_CONFIG.footerHeight;
+
+// =====================================================
+// FORMATO DE VALORES
+// =====================================================
+
+const EMPTY_VALUE = 'N/D';
+
+const formatDateTime = (value: string | Date): string => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return date.toLocaleString('es-MX', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+const formatValue = (value: FieldValue): string => {
+  if (value === null || value === undefined) return EMPTY_VALUE;
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (value instanceof Date) return formatDateTime(value);
+  const text = String(value).trim();
+  if (text === '') return EMPTY_VALUE;
+  return ISO_DATE.test(text) ? formatDateTime(text) : text;
+};
+
+const joinName = (...parts: Array<string | undefined>): string =>
+  parts.map(part => part?.trim()).filter(Boolean).join(' ');
+
+const formatLocalizacion = (localizacion: ILocalizacion | undefined): string =>
+  [
+    localizacion?.colonia,
+    localizacion?.codigoPostal ? `C.P. ${localizacion.codigoPostal}` : undefined,
+    localizacion?.municipio,
+    localizacion?.estado
+  ].filter(Boolean).join(', ');
+
+const formatDisposicion = (disposicion: IDisposicionOficial | undefined): string =>
+  [
+    joinName(disposicion?.nombre, disposicion?.primerApellido, disposicion?.segundoApellido),
+    disposicion?.cargoGrado,
+    disposicion?.adscripcion
+  ].filter(Boolean).join(' · ');
+
+const isImageFile = (tipo: string | undefined, path: string | undefined): boolean => {
+  const tipoLower = tipo?.toLowerCase() ?? '';
+  return tipoLower.includes('imagen') || tipoLower.includes('image') || tipoLower.includes('img') ||
+    /\.(jpe?g|png|gif|webp|bmp)(\?|$)/i.test(path ?? '');
+};
+
+/**
+ * Nombre del archivo descargado (mismo formato que la descarga masiva)
+ */
+export const buildIphPdfFileName = (referencia: string | undefined): string => {
+  const ref = referencia?.replace(/[^a-zA-Z0-9-]/g, '_') || 'informe';
+  return `InformeEjecutivo_${ref}.pdf`;
+};
+
+// =====================================================
+// MAQUETACIÓN
+// =====================================================
+
+/**
+ * Acomoda bloques de arriba hacia abajo y abre páginas nuevas al llenarse
+ */
+class IphPdfLayout {
+  readonly pages: PdfPage[] = [];
+  private operations: PdfOperation[] = [];
+  private y = CONTENT_TOP;
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.operations = [];
+    this.pages.push({ operations: this.operations });
+    this.y = CONTENT_TOP;
+  }
+
+  /** Abre página nueva si no caben `height` puntos */
+  ensure(height: number): void {
+    if (this.y + height > CONTENT_BOTTOM && this.y > CONTENT_TOP) this.addPage();
+  }
+
+  private text(x: number, y: number, text: string, size: number, font: PdfFontStyle = 'normal', color: string = IPH_PDF_CONFIG.colors.text): void {
+    this.operations.push({ type: 'text', x, y, text, size, font, color });
+  }
+
+  private lineHeight(size: number): number {
+    return size * IPH_PDF_CONFIG.lineHeight;
+  }
+
+  /** Título de documento (primera página) */
+  documentTitle(title: string, subtitle?: string): void {
+    const { colors } = IPH_PDF_CONFIG;
+    this.text(IPH_PDF_CONFIG.margin, this.y + 16, title, 16, 'bold', colors.primary);
+    this.y += 22;
+    if (subtitle) {
+      for (const line of wrapPdfText(subtitle, 10, CONTENT_WIDTH)) {
+        this.text(IPH_PDF_CONFIG.margin, this.y + 10, line, 10, 'normal', colors.secondary);
+        this.y += this.lineHeight(10);
+      }
+    }
+    this.y += 8;
+  }
+
+  /** Barra de sección; se mantiene junto con al menos una fila de contenido */
+  sectionTitle(title: string): void {
+    const { colors, margin } = IPH_PDF_CONFIG;
+    this.ensure(60);
+    this.y += 6;
+    this.operations.push({ type: 'rect', x: margin, y: this.y, width: CONTENT_WIDTH, height: 18, fill: colors.primary });
+    this.text(margin + 6, this.y + 12.5, title.toUpperCase(), 9, 'bold', '#ffffff');
+    this.y += 24;
+  }
+
+  subTitle(title: string): void {
+    const { colors, margin } = IPH_PDF_CONFIG;
+    this.ensure(44);
+    this.text(margin, this.y + 9, title, 9, 'bold', colors.primary);
+    this.y += 12;
+    this.operations.push({ type: 'line', x1: margin, y1: this.y, x2: margin + CONTENT_WIDTH, y2: this.y, color: colors.accent });
+    this.y += 6;
+  }
+
+  /**
+   * Campos etiqueta/valor en dos columnas (los marcados 'full' ocupan la fila)
+   */
+  fields(fields: Field[]): void {
+    const { labelSize, fontSize, colors, margin } = IPH_PDF_CONFIG;
+    const gap = 12;
+    const columnWidth = (CONTENT_WIDTH - gap) / 2;
+
+    // Agrupar en filas
+    const rows: Field[][] = [];
+    let pending: Field | null = null;
+    for (const field of fields) {
+      if (field[2] === 'full') {
+        if (pending) rows.push([pending]);
+        pending = null;
+        rows.push([field]);
+      } else if (pending) {
+        rows.push([pending, field]);
+        pending = null;
+      } else {
+        pending = field;
+      }
+    }
+    if (pending) rows.push([pending]);
+
+    for (const row of rows) {
+      const cells = row.map(([label, value, span]) => {
+        const width = span === 'full' ? CONTENT_WIDTH : columnWidth;
+        return { label, lines: wrapPdfText(formatValue(value), fontSize, width), empty: formatValue(value) === EMPTY_VALUE };
+      });
+      const maxLines = Math.max(...cells.map(cell => cell.lines.length));
+      const labelHeight = this.lineHeight(labelSize);
+      const valueLineHeight = this.lineHeight(fontSize);
+
+      // Textos largos (p.ej. explicaciones) se parten entre páginas
+      if (labelHeight + maxLines * valueLineHeight + 6 > CONTENT_BOTTOM - CONTENT_TOP) {
+        for (const cell of cells) this.labeledParagraph(cell.label, cell.lines);
+        continue;
+      }
+
+      this.ensure(labelHeight + maxLines * valueLineHeight + 6);
+      cells.forEach((cell, index) => {
+        const x = margin + index * (columnWidth + gap);
+        this.text(x, this.y + labelSize, cell.label.toUpperCase(), labelSize, 'bold', colors.secondary);
+        cell.lines.forEach((line, lineIndex) => {
+          this.text(x, this.y + labelHeight + fontSize + lineIndex * valueLineHeight, line, fontSize, 'normal', cell.empty ? colors.muted : colors.text);
+        });
+      });
+      this.y += labelHeight + maxLines * valueLineHeight + 6;
+    }
+  }
+
+  private labeledParagraph(label: string, lines: string[]): void {
+    const { labelSize, colors, margin } = IPH_PDF_CONFIG;
+    this.ensure(30);
+    this.text(margin, this.y + labelSize, label.toUpperCase(), labelSize, 'bold', colors.secondary);
+    this.y += this.lineHeight(labelSize) + 2;
+    this.lines(lines);
+    this.y += 6;
+  }
+
+  private lines(lines: string[], size: number = IPH_PDF_CONFIG.fontSize, color: string = IPH_PDF_CONFIG.colors.text): void {
+    const lineHeight = this.lineHeight(size);
+    for (const line of lines) {
+      this.ensure(lineHeight);
+      this.text(IPH_PDF_CONFIG.margin, this.y + size, line, size, 'normal', color);
+      this.y += lineHeight;
+    }
+  }
+
+  /** Texto corrido (narrativa, entrevistas) */
+  paragraph(text: string | undefined, size: number = 9.5): void {
+    const content = text?.trim();
+    if (!content) {
+      this.note('Sin información registrada');
+      return;
+    }
+    this.lines(wrapPdfText(content, size, CONTENT_WIDTH), size);
+    this.y += 6;
+  }
+
+  note(text: string): void {
+    this.ensure(16);
+    this.lines(wrapPdfText(text, 8.5, CONTENT_WIDTH), 8.5, IPH_PDF_CONFIG.colors.muted);
+    this.y += 4;
+  }
+
+  /**
+   * Imagen ajustada a la caja indicada (o recuadro si no se pudo cargar)
+   */
+  image(image: { index: number; width: number; height: number } | null, box: { x: number; width: number; height: number }, caption?: string): number {
+    const { colors } = IPH_PDF_CONFIG;
+    const top = this.y;
+
+    if (image) {
+      const scale = Math.min(box.width / image.width, box.height / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      this.operations.push({
+        type: 'image',
+        imageIndex: image.index,
+        x: box.x + (box.width - width) / 2,
+        y: top + (box.height - height) / 2,
+        width,
+        height
+      });
+    } else {
+      this.operations.push({ type: 'rect', x: box.x, y: top, width: box.width, height: box.height, fill: colors.background, stroke: colors.border });
+      this.text(box.x + 8, top + box.height / 2 + 3, 'Imagen no disponible', 8, 'normal', colors.muted);
+    }
+
+    let used = box.height + 4;
+    if (caption) {
+      wrapPdfText(caption, 7.5, box.width).slice(0, 2).forEach((line, index) => {
+        this.text(box.x, top + box.height + 10 + index * 10, line, 7.5, 'normal', colors.muted);
+      });
+      used += 22;
+    }
+    return used;
+  }
+
+  /** Reserva la altura de una fila de imágenes y avanza el cursor */
+  imageRow(height: number, draw: () => number): void {
+    this.ensure(height);
+    const used = draw();
+    this.y += used + 8;
+  }
+
+  /**
+   * Encabezado y pie en todas las páginas (al final, cuando se conoce el total)
+   */
+  decorate(referencia: string, folio: string, generatedAt: Date): void {
+    const { colors, margin, headerHeight } = IPH_PDF_CONFIG;
+    const total = this.pages.length;
+    const generated = `Generado el ${formatDateTime(generatedAt)}`;
+
+    this.pages.forEach((page, index) => {
+      const ops = page.operations;
+      const headerTop = margin - 8;
+      ops.unshift(
+        { type: 'rect', x: margin, y: headerTop, width: CONTENT_WIDTH, height: headerHeight - 14, fill: colors.background, stroke: colors.accent },
+        { type: 'text', x: margin + 8, y: headerTop + 19, text: 'INFORME POLICIAL HOMOLOGADO', size: 10, font: 'bold', color: colors.primary }
+      );
+
+      const ids = `Ref. ${referencia || EMPTY_VALUE}   |   Folio ${folio || EMPTY_VALUE}`;
+      const idsLines = wrapPdfText(ids, 8, CONTENT_WIDTH / 2);
+      ops.push({ type: 'text', x: margin + CONTENT_WIDTH / 2, y: headerTop + 19, text: idsLines[0], size: 8, font: 'bold', color: colors.secondary });
+
+      const footerY = PAGE_HEIGHT - margin - 10;
+      ops.push(
+        { type: 'line', x1: margin, y1: footerY - 12, x2: margin + CONTENT_WIDTH, y2: footerY - 12, color: colors.border },
+        { type: 'text', x: margin, y: footerY, text: generated, size: 7.5, color: colors.muted },
+        { type: 'text', x: margin + CONTENT_WIDTH - 62, y: footerY, text: `Página ${index + 1} de ${total}`, size: 7.5, font: 'bold', color: colors.primary }
+      );
+    });
+  }
+}
+
+// =====================================================
+// RECURSOS
+// =====================================================
+
+interface IphPdfImageRequest {
+  key: string;
+  path?: string;
+  map?: { lat: number; lng: number };
+}
+
+/**
+ * Carga el mapa y las imágenes; devuelve las imágenes listas y su índice por clave
+ */
+const loadImages = async (
+  requests: IphPdfImageRequest[],
+  options: IphPdfOptions
+): Promise<{ images: PdfJpegImage[]; byKey: Map<string, { index: number; width: number; height: number }> }> => {
+  const results = await runBulkOperation(requests, request => (
+    request.map
+      ? captureIphMapSnapshot(request.map.lat, request.map.lng, options.signal)
+      : loadIphImageForPdf(request.path, options.signal)
+  ), {
+    concurrency: IPH_PDF_CONFIG.imageConcurrency,
+    signal: options.signal,
+    onProgress: ({ processed, total }) => options.onProgress?.({ stage: 'recursos', processed, total })
+  });
+
+  throwIfAborted(options.signal, 'Generación del PDF cancelada');
+
+  const images: PdfJpegImage[] = [];
+  const byKey = new Map<string, { index: number; width: number; height: number }>();
+  for (const result of results) {
+    if (result.status === 'success' && result.result) {
+      byKey.set(result.item.key, { index: images.length, width: result.result.width, height: result.result.height });
+      images.push(result.result);
+    }
+  }
+  return { images, byKey };
+};
+
+// =====================================================
+// SECCIONES
+// =====================================================
+
+const renderSections = (
+  layout: IphPdfLayout,
+  data: ResponseIphData,
+  imagesByKey: Map<string, { index: number; width: number; height: number }>,
+  includeImages: boolean
+): void => {
+  const iph = firstIphItem<I_IphData>(data.iph);
+  const primerRespondiente = firstIphItem<IPrimerRespondiente>(data.primerRespondiente);
+  const lugar = firstIphItem<ILugarIntervencion>(data.lugarIntervencion);
+  const conocimiento = firstIphItem<IConocimientoHecho>(data.conocimientoHecho);
+  const narrativa = firstIphItem<INarrativa>(data.narrativaHecho);
+  const puesta = firstIphItem<IPuestaDisposicion>(data.puestaDisposicion);
+  const entrega = firstIphItem<IEntregaRecepcion>(data.entregaRecepcion);
+
+  // Datos generales
+  layout.documentTitle('Informe Policial Homologado', iph?.tipoIph?.nombre);
+  layout.fields([
+    ['Número de referencia', iph?.nReferencia],
+    ['Folio del sistema', iph?.nFolioSist],
+    ['Tipo de IPH', iph?.tipoIph?.nombre],
+    ['Estatus', iph?.estatus],
+    ['Fecha de creación', iph?.fechaCreacion],
+    ['Delito / hechos', iph?.hechos],
+    ['Observaciones', iph?.observaciones, 'full']
+  ]);
+
+  // Sección 1. Puesta a disposición
+  layout.sectionTitle('Sección 1. Puesta a disposición');
+  const disposiciones = toIphList(puesta?.disposicionesOficiales);
+  if (disposiciones.length === 0) {
+    layout.note('Sin autoridades registradas');
+  } else {
+    layout.fields(disposiciones.map((disposicion, index) => [
+      `Autoridad que recibe ${index + 1}`,
+      formatDisposicion(disposicion),
+      'full'
+    ]));
+  }
+
+  // Sección 2. Primer respondiente
+  layout.sectionTitle('Sección 2. Primer respondiente');
+  layout.fields([
+    ['Nombre', joinName(primerRespondiente?.nombre, primerRespondiente?.primerApellido, primerRespondiente?.segundoApellido)],
+    ['Institución', primerRespondiente?.institucion],
+    ['Grado o cargo', primerRespondiente?.gradoCargo],
+    ['Unidad de arribo', primerRespondiente?.unidadArribo],
+    ['Número de elementos', primerRespondiente?.nElementos]
+  ]);
+
+  // Sección 3. Conocimiento del hecho
+  layout.sectionTitle('Sección 3. Conocimiento del hecho por el primer respondiente');
+  layout.fields([
+    ['Tipo de conocimiento', conocimiento?.tipoConocimiento],
+    ['Número de conocimiento', conocimiento?.nConocimiento],
+    ['Documento', conocimiento?.docConocimiento],
+    ['Fecha y hora de conocimiento', conocimiento?.fConocimiento],
+    ['Fecha y hora de arribo', conocimiento?.fArribo]
+  ]);
+
+  // Sección 4. Lugar de la intervención
+  layout.sectionTitle('Sección 4. Lugar de la intervención');
+  const coords = lugar?.coordenadas ?? iph?.coordenadas;
+  layout.fields([
+    ['Calle o tramo', lugar?.calleTramo],
+    ['Número exterior / interior', [lugar?.nExterior, lugar?.nInterior].filter(Boolean).join(' / ')],
+    ['Colonia, municipio y entidad', formatLocalizacion(lugar?.localizacion), 'full'],
+    ['Referencias', [lugar?.referencia, lugar?.referencia1, lugar?.referencia2].filter(Boolean).join('; '), 'full'],
+    ['Coordenadas', coords?.latitud && coords?.longitud ? `${coords.latitud}, ${coords.longitud}` : undefined],
+    ['Se realizó inspección del lugar', lugar?.rInspeccion],
+    ['Se encontró algún objeto', lugar?.eObjeto],
+    ['Se preservó el lugar', lugar?.preservo],
+    ['Se priorizó el lugar', lugar?.priorizo],
+    ['Riesgo natural', lugar?.riesgoNatural],
+    ['Riesgo social', lugar?.riesgoSocial],
+    ['Especificación del riesgo', lugar?.especificacionRiesgo, 'full']
+  ]);
+
+  if (includeImages && parseIphCoordinates(coords?.latitud, coords?.longitud)) {
+    const mapHeight = CONTENT_WIDTH / 2;
+    layout.imageRow(mapHeight + 26, () => layout.image(
+      imagesByKey.get('mapa') ?? null,
+      { x: IPH_PDF_CONFIG.margin, width: CONTENT_WIDTH, height: mapHeight },
+      'Ubicación del lugar de la intervención'
+    ));
+  }
+
+  // Sección 5. Narrativa
+  layout.sectionTitle('Sección 5. Narrativa de los hechos');
+  layout.paragraph(narrativa?.contenido);
+
+  // Anexo A. Detenciones
+  layout.sectionTitle('Anexo A. Detenciones');
+  const detenciones = toIphList<IDetencion>(data.detencion);
+  if (detenciones.length === 0) layout.note('Sin detenciones registradas');
+  detenciones.forEach((detencion, index) => {
+    layout.subTitle(`Detenido ${index + 1}`);
+    layout.fields([
+      ['Número de RND', detencion.rnd],
+      ['Fecha y hora de la detención', detencion.fechaHora],
+      ['Nombre', joinName(detencion.nombreDetenido, detencion.primerApellidoDetenido, detencion.segundoApellidoDetenido)],
+      ['Alias', detencion.aliasDetenido],
+      ['Sexo', detencion.sexo],
+      ['Edad', detencion.edad],
+      ['Fecha de nacimiento', detencion.fechaNacimiento],
+      ['Nacionalidad', [detencion.nacionalidad, detencion.tipoNacionalidad].filter(Boolean).join(' - ')],
+      ['Identificación', detencion.identificacion],
+      ['Domicilio', [
+        joinName(detencion.domicilioDetenido, detencion.numeroExteriorDetenido, detencion.numeroInteriorDetenido),
+        formatLocalizacion(detencion.localizacionDetenido),
+        detencion.referenciaDetenido
+      ].filter(Boolean).join(', '), 'full'],
+      ['Descripción', detencion.descripcionDetenido, 'full'],
+      ['Lesiones visibles', detencion.lesionVisible],
+      ['Padecimiento', detencion.padecimiento],
+      ['Grupo vulnerable', detencion.grupoVulnerable],
+      ['Grupo delictivo', detencion.grupoDelictivo],
+      ['Familiar o persona de confianza', joinName(detencion.nombreConocido, detencion.primerApellidoConocido, detencion.segundoApellidoConocido)],
+      ['Teléfono', detencion.telefonoConocido],
+      ['Lectura de derechos', detencion.lecturaDerecho],
+      ['Se encontró objeto', detencion.objetoEncontrado],
+      ['Se recolectaron pertenencias', detencion.recolectoObjeto],
+      ['Detención en el lugar de la intervención', detencion.lugarDetencion],
+      ['Lugar de la detención', [
+        joinName(detencion.calleDetencion, detencion.numeroExteriorDetencion, detencion.numeroInteriorDetencion),
+        formatLocalizacion(detencion.localizacionDetencion),
+        detencion.referenciaDetencion
+      ].filter(Boolean).join(', '), 'full'],
+      ['Lugar de traslado', detencion.lugarTraslado],
+      ['Tipo de lugar de traslado', detencion.tipoLugarTraslado],
+      ['Observaciones', detencion.observaciones, 'full'],
+      ...toIphList(detencion.pertenencias).map((pertenencia, pIndex): Field => [
+        `Pertenencia ${pIndex + 1}`,
+        [pertenencia.tipo, pertenencia.descripcion, pertenencia.estado && `Estado: ${pertenencia.estado}`, pertenencia.destino && `Destino: ${pertenencia.destino}`]
+          .filter(Boolean).join(' · '),
+        'full'
+      ])
+    ]);
+  });
+
+  // Anexo B. Uso de la fuerza
+  layout.sectionTitle('Anexo B. Informe del uso de la fuerza');
+  const usosFuerza = toIphList<IUsoFuerza>(data.usoFuerza);
+  if (usosFuerza.length === 0) layout.note('Sin registro de uso de la fuerza');
+  usosFuerza.forEach((uso, index) => {
+    if (usosFuerza.length > 1) layout.subTitle(`Registro ${index + 1}`);
+    layout.fields([
+      ['Lesionados (autoridad)', uso.lesionadosAutoridad],
+      ['Lesionados (personas)', uso.lesionadosPersonas],
+      ['Fallecidos (autoridad)', uso.fallecidosAutoridad],
+      ['Fallecidos (personas)', uso.fallecidosPersonas],
+      ['Reducción física de movimientos', uso.reduccionMovimiento],
+      ['Uso de armas incapacitantes menos letales', uso.usoArmaNoLetal],
+      ['Uso de armas de fuego o fuerza letal', uso.usoArmaLetal],
+      ['Se brindó asistencia médica', uso.asistenciaMedica],
+      ['Tipo de padecimiento', uso.tipoPadecimiento],
+      ['Conducta', uso.conducta],
+      ['Explicación', uso.explicacion, 'full']
+    ]);
+  });
+
+  // Anexo C. Inspección de vehículo
+  layout.sectionTitle('Anexo C. Inspección de vehículo');
+  const vehiculos = toIphList<I_InspeccionVehiculo>(data.inspeccionVehiculo);
+  if (vehiculos.length === 0) layout.note('Sin vehículos inspeccionados');
+  vehiculos.forEach((vehiculo, index) => {
+    layout.subTitle(`Vehículo ${index + 1}`);
+    layout.fields([
+      ['Tipo', vehiculo.tipoVehiculo],
+      ['Procedencia', vehiculo.procedencia],
+      ['Marca', vehiculo.marca],
+      ['Submarca', vehiculo.submarca],
+      ['Modelo', vehiculo.modelo],
+      ['Color', vehiculo.color],
+      ['Uso', vehiculo.tipoUso],
+      ['Placa', vehiculo.placa],
+      ['Número de serie', vehiculo.numeroSerie],
+      ['Se encontró objeto', vehiculo.objetoEncontrado],
+      ['Destino', vehiculo.destino],
+      ['Observaciones', vehiculo.observaciones, 'full']
+    ]);
+  });
+
+  // Anexo D. Inventario de armas y objetos
+  layout.sectionTitle('Anexo D. Inventario de armas y objetos');
+  const armasObjetos = toIphList<I_ArmaObjeto>(data.armaObjeto);
+  if (armasObjetos.length === 0) layout.note('Sin armas ni objetos inventariados');
+  armasObjetos.forEach((item, index) => {
+    layout.subTitle(`${item.tipoArma ? 'Arma' : 'Objeto'} ${index + 1}`);
+    layout.fields([
+      ['Tipo de inventario', item.tipoInventario],
+      ['Aportación o inspección', item.aportacionInspeccion],
+      ['Tipo de inspección', item.tipoInspeccion],
+      ['Lugar de encuentro', item.lugarEncuentro],
+      ['Descripción', item.descripcionArmObj, 'full'],
+      ['Tipo de arma', item.tipoArma],
+      ['Calibre', item.calibreArma],
+      ['Color', item.colorArma],
+      ['Matrícula', item.matriculaArma],
+      ['Número de serie', item.numeroSerieArma],
+      ['Destino', item.destinoArmOb],
+      ['Persona a quien se aseguró', joinName(item.nombreAsegurado, item.primerApellidoAsegurado, item.segundoApellidoAsegurado)],
+      ['Testigos', toIphList(item.testigos).map(testigo => joinName(testigo.nombre, testigo.primerApellido, testigo.segundoApellido)).filter(Boolean).join('; '), 'full']
+    ]);
+  });
+
+  // Anexo E. Entrevistas
+  layout.sectionTitle('Anexo E. Entrevistas');
+  const entrevistas = toIphList<IEntrevista>(data.entrevista);
+  if (entrevistas.length === 0) layout.note('Sin entrevistas registradas');
+  entrevistas.forEach((entrevista, index) => {
+    layout.subTitle(`Entrevista ${index + 1}`);
+    const reservado = entrevista.datosReservados;
+    const personal = (value: FieldValue): FieldValue => (reservado ? 'Dato reservado' : value);
+    layout.fields([
+      ['Fecha y hora', entrevista.fechaHora],
+      ['Calidad del entrevistado', entrevista.calidad],
+      ['Nombre', personal(joinName(entrevista.nombreEntrevistado, entrevista.apellidoPaternoEntrevistado, entrevista.apellidoMaternoEntrevistado))],
+      ['Sexo', entrevista.sexo],
+      ['Edad', entrevista.edad],
+      ['Fecha de nacimiento', personal(entrevista.fechaNacimiento)],
+      ['Nacionalidad', [entrevista.nacionalidad, entrevista.tipoNacionalidad].filter(Boolean).join(' - ')],
+      ['Requirió traductor', entrevista.traductor],
+      ['Identificación', personal([entrevista.tipoIdentificacion, entrevista.numeroIdentificacion].filter(Boolean).join(' ') || entrevista.identificacion)],
+      ['Teléfono', personal(entrevista.telefonoEntrevistado)],
+      ['Correo', personal(entrevista.correo)],
+      ['Domicilio', personal([
+        joinName(entrevista.calle, entrevista.numeroExterior, entrevista.numeroInterior),
+        formatLocalizacion(entrevista.localizacionEntrevistado),
+        entrevista.referencia
+      ].filter(Boolean).join(', ')), 'full'],
+      ['Canalización', entrevista.canalizacion],
+      ['Lugar de canalización', entrevista.lugarCanalizacion || entrevista.otroLugarCanalizacion],
+      ['Motivo de canalización', entrevista.motivoCanalizacion, 'full'],
+      ['Responsable de la entrevista', formatDisposicion(entrevista.responsable), 'full']
+    ]);
+    layout.paragraph(entrevista.entrevista);
+  });
+
+  // Anexo F. Entrega-recepción
+  layout.sectionTitle('Anexo F. Entrega - recepción del lugar de la intervención');
+  if (!entrega) {
+    layout.note('Sin entrega - recepción registrada');
+  } else {
+    layout.fields([
+      ['Fecha y hora', entrega.fechaEntregaRecepcion],
+      ['Apoyo solicitado', [entrega.apoyoSolicitado, entrega.tipoApoyoSolicitado].filter(Boolean).join(' - ')],
+      ['Ingreso al lugar', entrega.ingresoAlLugar],
+      ['Motivo de ingreso', entrega.motivoIngreso],
+      ['Explicación', entrega.explicacion, 'full'],
+      ['Observaciones', entrega.observaciones, 'full'],
+      ['Quien recibe', formatDisposicion(entrega.respondienteRecepcion), 'full']
+    ]);
+  }
+
+  // Continuaciones
+  const continuaciones = toIphList<IContinuacion>(data.continuacion);
+  if (continuaciones.length > 0) {
+    layout.sectionTitle('Continuación');
+    continuaciones.forEach((continuacion, index) => {
+      const origen = continuacion.narrativa ? 'de la narrativa' : continuacion.entrevista ? 'de entrevista' : '';
+      layout.subTitle(`Continuación ${origen} ${index + 1}`.replace(/\s+/g, ' '));
+      layout.paragraph(continuacion.contenido);
+    });
+  }
+
+  // Anexo fotográfico
+  if (!includeImages) return;
+  const fotos = [
+    ...toIphList(iph?.fotos).map((path, index) => ({ key: `foto-${index}`, caption: `Fotografía ${index + 1}`, path })),
+    ...toIphList(iph?.archivos)
+      .filter(archivo => isImageFile(archivo.tipo, archivo.archivo))
+      .map((archivo, index) => ({
+        key: `archivo-${index}`,
+        caption: [archivo.titulo, archivo.descripcion].filter(Boolean).join(' - ') || `Archivo ${index + 1}`,
+        path: archivo.archivo
+      }))
+  ];
+  if (fotos.length === 0) return;
+
+  layout.sectionTitle('Anexo fotográfico');
+  const gap = 12;
+  const boxWidth = (CONTENT_WIDTH - gap) / 2;
+  const boxHeight = 200;
+  for (let index = 0; index < fotos.length; index += 2) {
+    const pair = fotos.slice(index, index + 2);
+    layout.imageRow(boxHeight + 26, () => Math.max(...pair.map((foto, column) => layout.image(
+      imagesByKey.get(foto.key) ?? null,
+      { x: IPH_PDF_CONFIG.margin + column * (boxWidth + gap), width: boxWidth, height: boxHeight },
+      foto.caption
+    ))));
+  }
+};
+
+/**
+ * Solicitudes de imagen en el mismo orden y con las mismas claves que usa renderSections
+ */
+const collectImageRequests = (data: ResponseIphData): IphPdfImageRequest[] => {
+  const iph = firstIphItem<I_IphData>(data.iph);
+  const lugar = firstIphItem<ILugarIntervencion>(data.lugarIntervencion);
+  const coords = lugar?.coordenadas ?? iph?.coordenadas;
+  const location = parseIphCoordinates(coords?.latitud, coords?.longitud);
+
+  return [
+    ...(location ? [{ key: 'mapa', map: location }] : []),
+    ...toIphList(iph?.fotos).map((path, index) => ({ key: `foto-${index}`, path })),
+    ...toIphList(iph?.archivos)
+      .filter(archivo => isImageFile(archivo.tipo, archivo.archivo))
+      .map((archivo, index) => ({ key: `archivo-${index}`, path: archivo.archivo }))
+  ];
+};
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Genera el PDF homologado del IPH en el navegador
+ *
+ * @param data - IPH completo (`getIphById`)
+ * @returns Blob del PDF, nombre sugerido y número de páginas
+ */
+export const generateIphPdf = async (data: ResponseIphData, options: IphPdfOptions = {}): Promise<IphPdfResult> => {
+  const includeImages = options.includeImages ?? true;
+  const iph = firstIphItem<I_IphData>(data.iph);
+
+  const requests = includeImages ? collectImageRequests(data) : [];
+  const { images, byKey } = requests.length > 0
+    ? await loadImages(requests, options)
+    : { images: [], byKey: new Map() };
+
+  options.onProgress?.({ stage: 'documento', processed: 0, total: 1 });
+  const layout = new IphPdfLayout();
+  renderSections(layout, data, byKey, includeImages);
+  layout.decorate(iph?.nReferencia ?? '', iph?.nFolioSist ?? '', new Date());
+
+  const blob = createPdfBlob({
+    pages: layout.pages,
+    images,
+    title: `Informe Policial Homologado ${iph?.nReferencia ?? ''}`.trim(),
+    author: 'Sistema IPH'
+  });
+  options.onProgress?.({ stage: 'documento', processed: 1, total: 1 });
+
+  logInfo('IphPdfService', 'PDF del IPH generado en el navegador', {
+    id: iph?.id,
+    paginas: layout.pages.length,
+    imagenes: images.length,
+    imagenesOmitidas: requests.length - images.length,
+    size: blob.size
+  });
+
+  return {
+    blob,
+    fileName: buildIphPdfFileName(iph?.nReferencia),
+    pageCount: layout.pages.length
+  };
+};
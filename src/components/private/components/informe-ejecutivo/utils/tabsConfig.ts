@@ -4,6 +4,7 @@
  */
 
 import type { ResponseIphData } from '../../../../../interfaces/iph/iph.interface';
+import type { NarrativeCheckResult } from '../../../../../helper/narrative/narrative-check.helper';
 
 // =====================================================
 // TIPOS Y INTERFACES
@@ -21,6 +22,8 @@ export interface TabConfig {
 export interface TabWithStatus extends TabConfig {
   status: TabStatus;
   hasData: boolean;
+  /** Puntaje de completitud (solo la narrativa de hechos) */
+  completeness?: Pick<NarrativeCheckResult, 'score' | 'level' | 'issues'>;
 }
 
 // =====================================================
@@ -356,8 +359,13 @@ export const hasDataInSection = (data: any): boolean => {
 
 /**
  * Obtiene tabs con su estado de datos
+ * Si se recibe la revisión de la narrativa, su puntaje se agrega al tab correspondiente
  */
-export const getTabsWithStatus = (tabs: TabConfig[], responseData: ResponseIphData): TabWithStatus[] => {
+export const getTabsWithStatus = (
+  tabs: TabConfig[],
+  responseData: ResponseIphData,
+  narrativeCheck?: NarrativeCheckResult | null
+): TabWithStatus[] => {
   return tabs.map(tab => {
     let hasData = false;
     
@@ -373,10 +381,15 @@ export const getTabsWithStatus = (tabs: TabConfig[], responseData: ResponseIphDa
       hasData = hasDataInSection(sectionData);
     }
     
+    const completeness = tab.id === 'narrativa-hechos' && hasData && narrativeCheck
+      ? { score: narrativeCheck.score, level: narrativeCheck.level, issues: narrativeCheck.issues }
+      : undefined;
+
     return {
       ...tab,
       status: hasData ? 'con datos' : 'sin datos',
-      hasData
+      hasData,
+      completeness
     };
   });
 };
\ No newline at end of file
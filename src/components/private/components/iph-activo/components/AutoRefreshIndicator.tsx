@@ -1,18 +1,23 @@
 /**
  * Componente AutoRefreshIndicator
  * Indicador de auto-refresh con countdown y control de toggle
+ * Con el stream en tiempo real activo muestra "En vivo" en lugar del countdown
  */
 
 import React, { useState, useEffect } from 'react';
-import { RotateCcw, Pause, Play, Clock } from 'lucide-react';
+import { RotateCcw, Pause, Play, Clock, Radio, WifiOff } from 'lucide-react';
 import type { IAutoRefreshIndicatorProps } from '../../../../../interfaces/components/informe-policial.interface';
 
 const AutoRefreshIndicator: React.FC<IAutoRefreshIndicatorProps> = ({
   isActive,
   nextRefreshIn,
   onToggle,
+  realtimeStatus,
   className = ''
 }) => {
+  const isLive = isActive && realtimeStatus === 'live';
+  const isStreamDown = realtimeStatus === 'reconnecting' || realtimeStatus === 'fallback';
+
   const [displayTime, setDisplayTime] = useState(() => Math.max(0, nextRefreshIn || 0));
 
   // Actualizar el tiempo cada segundo y crear countdown interno
@@ -81,8 +86,16 @@ const AutoRefreshIndicator: React.FC<IAutoRefreshIndicatorProps> = ({
           )}
         </button>
 
+        {/* Stream en tiempo real activo: el polling queda en espera */}
+        {isLive && (
+          <div className="flex items-center gap-1 text-sm text-gray-600 font-poppins">
+            <Radio className="h-4 w-4 text-green-600" />
+            <span className="hidden sm:inline">Actualización en tiempo real</span>
+          </div>
+        )}
+
         {/* Información de tiempo */}
-        {isActive && (
+        {isActive && !isLive && (
           <div className="flex items-center gap-2">
             
             {/* Icono y tiempo */}
@@ -114,6 +127,17 @@ const AutoRefreshIndicator: React.FC<IAutoRefreshIndicatorProps> = ({
         )}
       </div>
 
+      {/* Aviso de respaldo cuando el stream se cayó */}
+      {isActive && isStreamDown && (
+        <div
+          className="hidden md:flex items-center gap-1 text-xs text-amber-700 font-poppins"
+          title="Se perdió la conexión en tiempo real; se usa la actualización periódica mientras se restablece"
+        >
+          <WifiOff className="h-3.5 w-3.5" />
+          <span>Sin conexión en vivo</span>
+        </div>
+      )}
+
       {/* Badge de estado */}
       <div className="flex items-center">
         <span 
@@ -130,7 +154,7 @@ const AutoRefreshIndicator: React.FC<IAutoRefreshIndicatorProps> = ({
               isActive ? 'bg-green-500 animate-pulse' : 'bg-gray-400'
             }`} 
           />
-          {isActive ? 'Activo' : 'Pausado'}
+          {isLive ? 'En vivo' : isActive ? 'Activo' : 'Pausado'}
         </span>
       </div>
     </div>
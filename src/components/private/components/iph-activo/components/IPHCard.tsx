@@ -70,6 +70,8 @@ const IPHCard: React.FC<IIPHCardProps> = ({
   registro,
   onClick,
   loading = false,
+  selected = false,
+  onToggleSelect,
   className = ''
 }) => {
 
@@ -116,6 +118,7 @@ const IPHCard: React.FC<IIPHCardProps> = ({
         bg-white rounded-lg shadow-md p-4 relative cursor-pointer
         transition-all duration-200 hover:shadow-lg hover:scale-[1.02]
         border-l-4 border-r border-t border-b border-gray-100 hover:border-[#b8ab84]
+        ${selected ? 'bg-[#f8f0e7]' : ''}
         ${className}
       `}
       style={{
@@ -134,6 +137,18 @@ const IPHCard: React.FC<IIPHCardProps> = ({
     >
       {/* Header con referencia e indicador */}
       <div className="flex justify-between items-start mb-3">
+        {/* Casilla de selección múltiple (no abre el detalle) */}
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={() => onToggleSelect(registro)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="h-4 w-4 mt-1.5 mr-2 flex-shrink-0 rounded border-gray-300 accent-[#4d4725] cursor-pointer"
+            aria-label={`Seleccionar informe ${registro.n_referencia}`}
+          />
+        )}
         <h2 className="font-bold text-lg text-[#4d4725] font-poppins truncate flex-1 mr-2">
           {registro.n_referencia}
         </h2>
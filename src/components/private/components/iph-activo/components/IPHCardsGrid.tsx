@@ -2,6 +2,8 @@
  * Componente IPHCardsGrid
  * Grid responsivo de tarjetas IPH con estados de carga y vacío
  * ✅ OPTIMIZACIÓN: Muestra siempre 12 skeleton cards (3 filas x 4 cols) para evitar layout shift
+ * Resalta las tarjetas con eventos en tiempo real recientes (highlightedIds)
+ * Casillas de selección múltiple opcionales (isSelected / onToggleSelect)
  */
 
 import React from 'react';
@@ -17,6 +19,9 @@ const IPHCardsGrid: React.FC<IIPHCardsGridProps> = ({
   registros,
   loading,
   onCardClick,
+  highlightedIds = [],
+  isSelected,
+  onToggleSelect,
   className = ''
 }) => {
 
@@ -75,6 +80,9 @@ const IPHCardsGrid: React.FC<IIPHCardsGridProps> = ({
           registro={registro}
           onClick={onCardClick}
           loading={false}
+          selected={isSelected?.(registro.id) ?? false}
+          onToggleSelect={onToggleSelect}
+          className={highlightedIds.includes(registro.id) ? 'ring-2 ring-[#948b54] ring-offset-2 transition-shadow duration-500' : ''}
         />
       ))}
     </div>
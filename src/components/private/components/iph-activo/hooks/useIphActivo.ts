@@ -2,11 +2,15 @@
  * Hook personalizado para InformePolicial
  * Maneja toda la lógica de negocio separada de la presentación
  * Incluye auto-refresh configurable y control de acceso por roles
+ * Eventos en tiempo real (SSE); el auto-refresh queda como respaldo si el stream cae
  * Cache LRU con límite de 10 páginas y TTL de 1 minuto
  *
- * @version 2.1.0
+ * @version 2.2.0
  * @since 2024-01-29
- * @updated 2025-01-31
+ * @updated 2025-02-01
+ *
+ * @changes v2.2.0
+ * - ✅ Filtros, orden y página reflejados en la URL (un enlace reproduce la vista)
  *
  * @changes v2.1.0
  * - ✅ Integrado usePaginationPersistence para mantener página al navegar
@@ -24,10 +28,17 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { z } from 'zod';
 
 // Hook de paginación persistente
 import { usePaginationPersistence } from '../../../../shared/components/pagination';
 
+// Eventos en tiempo real (SSE) con polling como respaldo
+import { useIphRealtime } from '../../../../shared/hooks/useIphRealtime';
+
+// Estado de filtros en la URL
+import { useUrlFilterState, type UrlStateSchema } from '../../../../shared/hooks/useUrlFilterState';
+
 // Servicios
 import { informePolicialService, getCurrentUserInfo } from '../services/informe-policial.service';
 import { getTiposIPH } from '../services/tipos-iph.service';
@@ -36,8 +47,10 @@ import { getTiposIPH } from '../services/tipos-iph.service';
 import { showSuccess, showError, showWarning } from '../../../../../helper/notification/notification.helper';
 import { logInfo, logError, logAuth, logDebug, logWarning } from '../../../../../helper/log/logger.helper';
 import { getUserRoles } from '../../../../../helper/role/role.helper';
+import { isLeaderTab } from '../../../../../helper/tab-sync/tab-sync.helper';
 import { getUserData } from '../../../../../helper/user/user.helper';
 import { canAccessElemento } from '../../../../../config/permissions.config';
+import type { IphRealtimeEvent } from '../../../../../helper/realtime/realtime.helper';
 
 // Interfaces
 import type { 
@@ -242,11 +255,26 @@ class IPHCacheManager {
 // Instancia global del cache
 const iphCache = new IPHCacheManager();
 
+/** Agrupa ráfagas de eventos en tiempo real en una sola recarga */
+const REALTIME_REFRESH_DEBOUNCE = 1000;
+
+/**
+ * Parámetros de la URL: filtros, orden y página
+ */
+const URL_STATE_SCHEMA: UrlStateSchema<IInformePolicialFilters> = {
+  page: z.coerce.number().int().min(1),
+  orderBy: z.enum(['estatus', 'n_referencia', 'n_folio_sist', 'fecha_creacion']),
+  order: z.enum(['ASC', 'DESC']),
+  search: z.string().max(100),
+  searchBy: z.enum(['n_referencia', 'n_folio_sist']),
+  tipoId: z.string().max(50)
+};
+
 // =====================================================
 // ESTADO INICIAL
 // =====================================================
 
-const createInitialState = (): IInformePolicialState => {
+const createInitialState = (urlFilters: Partial<IInformePolicialFilters> = {}): IInformePolicialState => {
   const userInfo = getCurrentUserInfo();
 
   return {
@@ -257,7 +285,7 @@ const createInitialState = (): IInformePolicialState => {
       totalItems: 0,
       itemsPerPage: INFORME_POLICIAL_CONFIG.ITEMS_PER_PAGE
     },
-    filters: { ...DEFAULT_FILTERS }, // page inicial será 1, luego viene del hook
+    filters: { ...DEFAULT_FILTERS, ...urlFilters }, // la página viene del hook de paginación
     isLoading: false,
     isRefreshing: false,
     error: null,
@@ -290,7 +318,18 @@ const useInformePolicial = (
   enabled: boolean = true
 ): IUseInformePolicialReturn => {
   const navigate = useNavigate();
-  const [state, setState] = useState<IInformePolicialState>(createInitialState);
+
+  /**
+   * Filtros de la URL (enlace compartido); la página de la URL tiene prioridad
+   * sobre la guardada en sessionStorage
+   */
+  const { initialUrlState, externalUrlState, syncUrlState } = useUrlFilterState({
+    schema: URL_STATE_SCHEMA,
+    defaults: DEFAULT_FILTERS,
+    enabled
+  });
+
+  const [state, setState] = useState<IInformePolicialState>(() => createInitialState(initialUrlState));
 
   // =====================================================
   // PAGINACIÓN PERSISTENTE v2.1.0
@@ -309,12 +348,19 @@ const useInformePolicial = (
   } = usePaginationPersistence({
     key: 'informe-policial-pagination',
     itemsPerPage: INFORME_POLICIAL_CONFIG.ITEMS_PER_PAGE,
+    pageOverride: initialUrlState.page,
     logging: false // Desactivado en producción
   });
 
   // Referencias para timers
   const autoRefreshTimer = useRef<NodeJS.Timeout | null>(null);
   const debounceTimer = useRef<NodeJS.Timeout | null>(null);
+  const realtimeRefreshTimer = useRef<NodeJS.Timeout | null>(null);
+  const autoRefreshEnabledRef = useRef<boolean>(state.autoRefreshEnabled);
+
+  useEffect(() => {
+    autoRefreshEnabledRef.current = state.autoRefreshEnabled;
+  }, [state.autoRefreshEnabled]);
 
   // Ref para filtros actuales (evita dependencias circulares)
   const currentFiltersRef = useRef<IInformePolicialFilters>(state.filters);
@@ -342,6 +388,27 @@ const useInformePolicial = (
     });
   }, [currentPage]);
 
+  // Reflejar filtros, orden y página en la URL
+  useEffect(() => {
+    syncUrlState(state.filters);
+  }, [state.filters, syncUrlState]);
+
+  // La URL cambió desde fuera (enlace a esta misma vista): aplicar sus filtros una vez
+  const appliedUrlStateRef = useRef<typeof externalUrlState>(null);
+
+  useEffect(() => {
+    if (!externalUrlState || appliedUrlStateRef.current === externalUrlState) return;
+    appliedUrlStateRef.current = externalUrlState;
+
+    logInfo('InformePolicial', 'Aplicando filtros desde la URL', { urlFilters: externalUrlState });
+    iphCache.clear();
+    setPaginationPage(externalUrlState.page ?? 1);
+    setState(prev => ({
+      ...prev,
+      filters: { ...DEFAULT_FILTERS, ...externalUrlState, page: externalUrlState.page ?? 1 }
+    }));
+  }, [externalUrlState, setPaginationPage]);
+
   // =====================================================
   // FUNCIONES DE CONTROL DE ACCESO
   // =====================================================
@@ -551,6 +618,59 @@ const useInformePolicial = (
     }
   }, [autoRefreshInterval]); // ✅ Solo depende de autoRefreshInterval (estable)
 
+  // =====================================================
+  // TIEMPO REAL (SSE) - POLLING COMO RESPALDO
+  // =====================================================
+
+  /**
+   * Un IPH creado, con cambio de estatus o con archivo nuevo invalida la página actual
+   */
+  const handleRealtimeEvent = useCallback((event: IphRealtimeEvent) => {
+    logDebug('InformePolicial', 'Evento en tiempo real recibido', {
+      type: event.type,
+      iphId: event.iphId
+    });
+
+    iphCache.clear();
+
+    // Auto-actualización pausada por el usuario: la lista se actualiza al reanudar o recargar
+    if (!autoRefreshEnabledRef.current) {
+      return;
+    }
+
+    if (realtimeRefreshTimer.current) {
+      clearTimeout(realtimeRefreshTimer.current);
+    }
+    realtimeRefreshTimer.current = setTimeout(() => {
+      loadIPHs(false, true);
+    }, REALTIME_REFRESH_DEBOUNCE);
+  }, [loadIPHs]);
+
+  const {
+    status: realtimeStatus,
+    isLive,
+    recentIphIds
+  } = useIphRealtime(handleRealtimeEvent, { enabled });
+
+  const isLiveRef = useRef(isLive);
+  const previousRealtimeStatus = useRef(realtimeStatus);
+
+  useEffect(() => {
+    isLiveRef.current = isLive;
+  }, [isLive]);
+
+  // Al recuperar el stream, recargar lo que pudo cambiar durante la caída
+  useEffect(() => {
+    const previous = previousRealtimeStatus.current;
+    previousRealtimeStatus.current = realtimeStatus;
+
+    if (enabled && realtimeStatus === 'live' && (previous === 'reconnecting' || previous === 'fallback')) {
+      logInfo('InformePolicial', 'Stream restablecido - sincronizando lista');
+      iphCache.clear();
+      loadIPHs(false, true);
+    }
+  }, [enabled, realtimeStatus, loadIPHs]);
+
   // =====================================================
   // FUNCIONES DE FILTROS
   // =====================================================
@@ -827,8 +947,16 @@ const useInformePolicial = (
 
       // Programar el próximo refresh exactamente cuando debe ocurrir
       autoRefreshTimer.current = setTimeout(() => {
-        logInfo('InformePolicial', 'Auto-refresh triggered');
-        loadIPHs(false); // Silent refresh
+        // Con el stream en vivo el polling no es necesario; el ciclo sigue como respaldo.
+        // Solo la pestaña líder consulta; las demás mantienen el ciclo por si asumen el liderazgo
+        if (isLiveRef.current) {
+          logDebug('InformePolicial', 'Auto-refresh omitido: stream en tiempo real activo');
+        } else if (isLeaderTab()) {
+          logInfo('InformePolicial', 'Auto-refresh triggered');
+          loadIPHs(false); // Silent refresh
+        } else {
+          logDebug('InformePolicial', 'Auto-refresh omitido: otra pestaña es líder');
+        }
 
         // Actualizar el timestamp del próximo refresh
         setState(prev => ({
@@ -860,6 +988,9 @@ const useInformePolicial = (
       if (debounceTimer.current) {
         clearTimeout(debounceTimer.current);
       }
+      if (realtimeRefreshTimer.current) {
+        clearTimeout(realtimeRefreshTimer.current);
+      }
     };
   }, []);
 
@@ -898,7 +1029,9 @@ const useInformePolicial = (
     hasData,
     isAnyLoading,
     timeUntilNextRefresh,
-    visibleRecords
+    visibleRecords,
+    realtimeStatus,
+    recentIphIds
   };
 };
 
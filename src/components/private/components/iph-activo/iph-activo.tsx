@@ -4,9 +4,14 @@
  * Migrado completamente a TypeScript con arquitectura moderna
  * Auto-refresh cada 5 minutos con control manual
  *
- * @version 2.0.0
+ * @version 2.1.0
  * @since 2024-01-29
- * @updated 2025-01-31
+ * @updated 2025-02-01
+ *
+ * @changes v2.1.0
+ * - ✅ Acciones masivas: selección múltiple (página o todo el filtro),
+ *   cambio de estatus, exportación CSV/XLSX y PDF de informes ejecutivos
+ * - ✅ Filtros en la URL (enlaces compartibles) y filtros guardados por usuario
  *
  * @changes v2.0.0
  * - ✅ Validación de roles refactorizada con patrón memoizado
@@ -23,7 +28,7 @@
  * - Elemento no tiene acceso a este módulo
  */
 
-import React, { useEffect, useMemo } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   AlertCircle,
   RefreshCw,
@@ -32,9 +37,11 @@ import {
   Filter,
   Shield,
 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 
 // Hook personalizado
 import useInformePolicial from "./hooks/useIphActivo";
+import useBulkIphActions from "../historial-iph/hooks/useBulkIphActions";
 
 // Componentes atómicos
 import IPHFilters from "./components/IPHFilters";
@@ -48,14 +55,35 @@ import {
 
 // Componentes compartidos
 import Pagination from "../../../shared/components/pagination";
+import {
+  BulkActionsBar,
+  BulkEstatusDialog,
+  BulkResultsModal,
+  useBulkSelection,
+} from "../../../shared/components/bulk-actions";
+import { FilterPresetChips } from "../../../shared/components/filter-presets";
+
+// Services
+import {
+  buildIphActivoExportFile,
+  fetchAllIphActivoRegistros,
+  toBulkTarget,
+} from "./services/bulk-iph-activo.service";
 
 // Helpers
 import { logInfo, logWarning } from "../../../../helper/log/logger.helper";
 import { getUserRoles } from "../../../../helper/role/role.helper";
 import { canAccessSuperior } from "../../../../config/permissions.config";
+import type { ExportFormat } from "../../../../helper/export/export.helper";
+import { buildIphCompareLink } from "../../../../utils/iph-oficial";
 
 // Interfaces
-import type { IInformePolicialProps } from "../../../../interfaces/components/informe-policial.interface";
+import type {
+  IIphActivoBulkTarget,
+  IInformePolicialFilters,
+  IInformePolicialProps,
+  IRegistroIPH,
+} from "../../../../interfaces/components/informe-policial.interface";
 import { INFORME_POLICIAL_CONFIG } from "../../../../interfaces/components/informe-policial.interface";
 
 const InformePolicial: React.FC<IInformePolicialProps> = ({
@@ -100,8 +128,81 @@ const InformePolicial: React.FC<IInformePolicialProps> = ({
     timeUntilNextRefresh,
     isAnyLoading,
     visibleRecords,
+    realtimeStatus,
+    recentIphIds,
   } = useInformePolicial(autoRefreshInterval, hasAccess);
 
+  /**
+   * Filtros guardados: todo excepto la página
+   */
+  const { orderBy, order, search, searchBy, tipoId } = state.filters;
+  const presetFilters = useMemo<Omit<IInformePolicialFilters, "page">>(
+    () => ({ orderBy, order, search, searchBy, tipoId }),
+    [orderBy, order, search, searchBy, tipoId]
+  );
+
+  /**
+   * Acciones masivas: la selección se reinicia al cambiar filtros (no la página)
+   */
+  const pageTargets = useMemo<IIphActivoBulkTarget[]>(
+    () => visibleRecords.map((registro) => ({ ...toBulkTarget(registro), registro })),
+    [visibleRecords]
+  );
+
+  const selection = useBulkSelection(
+    pageTargets,
+    state.pagination.totalItems,
+    JSON.stringify(presetFilters)
+  );
+  const { selectedItems, allMatching, toggle: toggleSelection } = selection;
+  const [isBulkEstatusOpen, setIsBulkEstatusOpen] = useState(false);
+  const navigate = useNavigate();
+
+  const handleCompareSelection = useCallback(() => {
+    navigate(buildIphCompareLink(selectedItems.map((item) => item.id)));
+  }, [navigate, selectedItems]);
+
+  const resolveBulkTargets = useCallback(
+    async (signal: AbortSignal) =>
+      allMatching
+        ? (await fetchAllIphActivoRegistros(state.filters, signal)).map(toBulkTarget)
+        : selectedItems,
+    [allMatching, state.filters, selectedItems]
+  );
+
+  const exportBulkSelection = useCallback(
+    async (format: ExportFormat, signal: AbortSignal) =>
+      buildIphActivoExportFile(
+        allMatching
+          ? await fetchAllIphActivoRegistros(state.filters, signal)
+          : selectedItems.map((target) => target.registro),
+        format
+      ),
+    [allMatching, state.filters, selectedItems]
+  );
+
+  const bulkActions = useBulkIphActions({
+    resolveTargets: resolveBulkTargets,
+    exportSelection: exportBulkSelection,
+    onDataChanged: handleManualRefresh,
+  });
+
+  const handleToggleSelect = useCallback(
+    (registro: IRegistroIPH) => {
+      const target = pageTargets.find((item) => item.id === registro.id);
+      if (target) toggleSelection(target);
+    },
+    [pageTargets, toggleSelection]
+  );
+
+  const handleBulkEstatusConfirm = useCallback(
+    (nuevoEstatus: string, comentario?: string) => {
+      setIsBulkEstatusOpen(false);
+      void bulkActions.runStatusChange(nuevoEstatus, comentario);
+    },
+    [bulkActions]
+  );
+
   // =====================================================
   // EFFECTS
   // =====================================================
@@ -325,6 +426,13 @@ const InformePolicial: React.FC<IInformePolicialProps> = ({
               </div>
             </div>
             <div className="space-y-4">
+              <FilterPresetChips
+                scope="iph-activo"
+                currentFilters={presetFilters}
+                onApply={updateFilters}
+                disabled={isAnyLoading}
+              />
+
               <IPHFilters
                 filters={state.filters}
                 loading={isAnyLoading}
@@ -393,11 +501,33 @@ const InformePolicial: React.FC<IInformePolicialProps> = ({
               </div>
             )}
 
+            {/* Acciones masivas */}
+            {bulkActions.canUseBulkActions && visibleRecords.length > 0 && (
+              <BulkActionsBar
+                selectedCount={selection.selectedCount}
+                pageSelectionState={selection.pageSelectionState}
+                allMatching={allMatching}
+                totalMatching={state.pagination.totalItems}
+                disabled={isAnyLoading || bulkActions.isRunning}
+                onTogglePage={selection.togglePage}
+                onSelectAllMatching={selection.selectAllMatching}
+                onClear={selection.clear}
+                onChangeStatus={() => setIsBulkEstatusOpen(true)}
+                onExport={bulkActions.runExport}
+                onGeneratePdf={bulkActions.runPdfGeneration}
+                onCompare={handleCompareSelection}
+                className="mb-4"
+              />
+            )}
+
             {/* Grid de tarjetas */}
             <IPHCardsGrid
               registros={visibleRecords}
               loading={state.isLoading}
               onCardClick={handleCardClick}
+              highlightedIds={recentIphIds}
+              isSelected={bulkActions.canUseBulkActions ? selection.isSelected : undefined}
+              onToggleSelect={bulkActions.canUseBulkActions ? handleToggleSelect : undefined}
             />
           </div>
         </div>
@@ -418,6 +548,7 @@ const InformePolicial: React.FC<IInformePolicialProps> = ({
               isActive={state.autoRefreshEnabled}
               nextRefreshIn={timeUntilNextRefresh}
               onToggle={toggleAutoRefresh}
+              realtimeStatus={realtimeStatus}
             />
           </div>
         )}
@@ -491,6 +622,24 @@ const InformePolicial: React.FC<IInformePolicialProps> = ({
             </div>
           </div>
         </div>
+
+        {/* Acciones masivas: estatus y reporte de resultados */}
+        {isBulkEstatusOpen && (
+          <BulkEstatusDialog
+            selectedCount={selection.selectedCount}
+            onConfirm={handleBulkEstatusConfirm}
+            onCancel={() => setIsBulkEstatusOpen(false)}
+          />
+        )}
+
+        {bulkActions.report && (
+          <BulkResultsModal
+            report={bulkActions.report}
+            onCancel={bulkActions.cancel}
+            onRetryFailed={bulkActions.retryFailed}
+            onClose={bulkActions.closeReport}
+          />
+        )}
       </div>
     </div>
   );
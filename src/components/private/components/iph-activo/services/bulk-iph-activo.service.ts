@@ -0,0 +1,112 @@
+/**
+ * Servicio de acciones masivas para IPH Activos
+ *
+ * @fileoverview Resolución de "todos los IPH del filtro" y exportación de la
+ * selección a CSV/XLSX. El cambio de estatus y la generación de PDF se comparten
+ * con el Histórico (historial-iph/services/bulk-iph.service).
+ *
+ * @version 1.0.0
+ * @since 2025-02-01
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { logInfo } from '../../../../../helper/log/logger.helper';
+import { throwIfAborted } from '../../../../../helper/bulk/bulk-operation.helper';
+import {
+  buildExportFile,
+  buildExportFileName,
+  type ExportColumn,
+  type ExportFormat
+} from '../../../../../helper/export/export.helper';
+
+// Services
+import { informePolicialService } from './informe-policial.service';
+
+// Interfaces
+import type {
+  IInformePolicialFilters,
+  IRegistroIPH
+} from '../../../../../interfaces/components/informe-policial.interface';
+import type { BulkIphTarget } from '../../../../../interfaces/components/bulk-actions.interface';
+
+// ==================== CONFIGURACIÓN ====================
+
+/** Límite de páginas al resolver todo el filtro (protección ante respuestas inconsistentes) */
+const MAX_PAGES = 500;
+
+const EXPORT_FILE_BASE_NAME = 'iph-activos';
+const EXPORT_SHEET_NAME = 'IPH Activos';
+
+const CANCEL_MESSAGE = 'Operación cancelada por el usuario';
+
+/**
+ * Columnas exportables de IPH Activos
+ */
+export const IPH_ACTIVO_EXPORT_COLUMNS: ExportColumn<IRegistroIPH>[] = [
+  { key: 'referencia', label: 'No. Referencia', value: registro => registro.n_referencia },
+  { key: 'folio', label: 'Folio del sistema', value: registro => registro.n_folio_sist },
+  { key: 'tipo', label: 'Tipo', value: registro => registro.tipo?.nombre ?? '' },
+  { key: 'estatus', label: 'Estatus', value: registro => registro.estatus?.nombre ?? '' },
+  {
+    key: 'fecha',
+    label: 'Fecha de creación',
+    value: registro => (registro.fecha_creacion ? new Date(registro.fecha_creacion) : '')
+  }
+];
+
+// ==================== HELPERS ====================
+
+/**
+ * Convierte un registro de IPH Activos en objetivo de acción masiva
+ */
+export const toBulkTarget = (registro: IRegistroIPH): BulkIphTarget => ({
+  id: registro.id,
+  referencia: registro.n_referencia,
+  estatus: registro.estatus?.nombre
+});
+
+// ==================== OPERACIONES ====================
+
+/**
+ * Obtiene todos los IPH que coinciden con los filtros activos (todas las páginas)
+ */
+export const fetchAllIphActivoRegistros = async (
+  filters: IInformePolicialFilters,
+  signal?: AbortSignal
+): Promise<IRegistroIPH[]> => {
+  const registros: IRegistroIPH[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    throwIfAborted(signal, CANCEL_MESSAGE);
+
+    const response = await informePolicialService.getIPHList({ ...filters, page });
+    throwIfAborted(signal, CANCEL_MESSAGE);
+
+    registros.push(...response.data);
+    totalPages = Math.min(Math.max(response.totalPages, 1), MAX_PAGES);
+
+    if (response.data.length === 0) break;
+    page++;
+  } while (page <= totalPages);
+
+  logInfo('BulkIphActivo', 'IPH del filtro resueltos', { total: registros.length });
+  return registros;
+};
+
+/**
+ * Genera el archivo de exportación de los IPH indicados
+ */
+export const buildIphActivoExportFile = (
+  registros: IRegistroIPH[],
+  format: ExportFormat
+): { blob: Blob; fileName: string; rows: number } => {
+  const blob = buildExportFile(format, IPH_ACTIVO_EXPORT_COLUMNS, registros, EXPORT_SHEET_NAME);
+  return {
+    blob,
+    fileName: buildExportFileName(EXPORT_FILE_BASE_NAME, format),
+    rows: registros.length
+  };
+};
@@ -0,0 +1,157 @@
+/**
+ * Componente IphDuplicados
+ *
+ * Cola de revisión de posibles IPH duplicados (Superior o superior):
+ * - Pares detectados entre los IPH más recientes, del más al menos probable
+ * - Desglose del puntaje por señal (ubicación, tiempo, tipo, detenidos, narrativa)
+ * - Confirmar / descartar cada par y abrir la comparación lado a lado
+ */
+
+import React from 'react';
+import { AlertCircle, CopyCheck, Loader2, RefreshCw, Shield } from 'lucide-react';
+
+// Hook
+import useDuplicateQueue from './hooks/useDuplicateQueue';
+
+// Componentes
+import DuplicatePairCard from './components/DuplicatePairCard';
+import { Breadcrumbs, type BreadcrumbItem } from '../../../shared/components/breadcrumbs';
+
+// Interfaces
+import type { DuplicateQueueFilter } from '../../../../interfaces/components/duplicates.interface';
+
+const FILTER_LABELS: Record<DuplicateQueueFilter, string> = {
+  pendientes: 'Pendientes',
+  confirmados: 'Confirmados',
+  descartados: 'Descartados'
+};
+
+const BREADCRUMBS: BreadcrumbItem[] = [
+  { label: 'Histórico IPH', path: '/historialiph' },
+  { label: 'Posibles duplicados', isActive: true }
+];
+
+const IphDuplicados: React.FC = () => {
+  const {
+    hasAccess,
+    loading,
+    progressLabel,
+    error,
+    matches,
+    reviews,
+    filter,
+    setFilter,
+    counts,
+    rescan,
+    cancel,
+    decide
+  } = useDuplicateQueue();
+
+  if (!hasAccess) {
+    return (
+      <div className="p-6 bg-[#f8f0e7] min-h-screen font-poppins">
+        <div className="max-w-2xl mx-auto text-center py-16">
+          <Shield size={64} className="mx-auto text-red-400 mb-6" />
+          <h2 className="text-2xl font-bold text-red-600 mb-4">Acceso Restringido</h2>
+          <p className="text-gray-600">
+            La revisión de duplicados está disponible para usuarios con rol de
+            SuperAdmin, Administrador o Superior.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-6 lg:p-8 text-[#4d4725] font-poppins">
+      <div className="max-w-6xl mx-auto">
+        <Breadcrumbs items={BREADCRUMBS} className="mb-6" />
+
+        <div className="flex flex-wrap items-center justify-between gap-4 bg-white rounded-xl border border-gray-200 p-6 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-[#948b54] rounded-lg">
+              <CopyCheck className="h-6 w-6 text-white" aria-hidden="true" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Posibles duplicados</h1>
+              <p className="text-sm text-gray-600">
+                Pares de IPH recientes con ubicación, horario, tipo, detenidos o narrativa coincidentes
+              </p>
+            </div>
+          </div>
+
+          {loading ? (
+            <button
+              onClick={cancel}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 cursor-pointer"
+            >
+              <Loader2 size={16} className="animate-spin" aria-hidden="true" />
+              Cancelar
+            </button>
+          ) : (
+            <button
+              onClick={rescan}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-white bg-[#4d4725] hover:bg-[#3a3519] cursor-pointer"
+            >
+              <RefreshCw size={16} aria-hidden="true" />
+              Buscar de nuevo
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4" role="tablist" aria-label="Estado de revisión">
+          {(Object.keys(FILTER_LABELS) as DuplicateQueueFilter[]).map(key => (
+            <button
+              key={key}
+              role="tab"
+              aria-selected={filter === key}
+              onClick={() => setFilter(key)}
+              className={`px-4 py-1.5 rounded-full text-sm border cursor-pointer transition-colors ${
+                filter === key
+                  ? 'bg-[#4d4725] border-[#4d4725] text-white'
+                  : 'bg-white border-[#c2b186] text-[#4d4725] hover:bg-[#f8f0e7]'
+              }`}
+            >
+              {FILTER_LABELS[key]} ({counts[key]})
+            </button>
+          ))}
+        </div>
+
+        {loading && (
+          <p className="flex items-center gap-2 mb-4 text-sm text-gray-600" role="status">
+            <Loader2 size={14} className="animate-spin" aria-hidden="true" />
+            {progressLabel ?? 'Buscando posibles duplicados…'}
+          </p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-3 mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" role="alert">
+            <AlertCircle size={18} aria-hidden="true" />
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && matches.length === 0 && (
+          <div className="bg-white rounded-xl border border-gray-200 p-10 text-center text-gray-500">
+            {filter === 'pendientes'
+              ? 'No hay posibles duplicados pendientes de revisión'
+              : `No hay pares ${FILTER_LABELS[filter].toLowerCase()}`}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {matches.map(match => (
+            <DuplicatePairCard
+              key={match.pairKey}
+              match={match}
+              review={reviews[match.pairKey]}
+              onDecision={(pairKey, decision) => void decide(pairKey, decision)}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IphDuplicados;
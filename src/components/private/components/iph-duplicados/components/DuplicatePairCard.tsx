@@ -0,0 +1,111 @@
+/**
+ * Componente DuplicatePairCard
+ * Par de posibles IPH duplicados con el desglose del puntaje y las acciones
+ * de revisión (confirmar, descartar, volver a pendiente)
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, Columns3, RotateCcw, XCircle } from 'lucide-react';
+
+// Helpers
+import { DUPLICATE_LEVEL_LABELS } from '../../../../../helper/duplicates/duplicate-detection.helper';
+
+// Utils
+import { buildIphCompareLink } from '../../../../../utils/iph-oficial';
+
+// Interfaces
+import type { DuplicatePairCardProps } from '../../../../../interfaces/components/duplicates.interface';
+
+const LEVEL_CLASS = {
+  alta: 'bg-red-100 text-red-800',
+  media: 'bg-amber-100 text-amber-800'
+} as const;
+
+const DuplicatePairCard: React.FC<DuplicatePairCardProps> = ({ match, review, onDecision }) => (
+  <article className="bg-white rounded-lg border border-gray-200 shadow-sm p-4 font-poppins">
+    <div className="flex flex-wrap items-start justify-between gap-3">
+      <div>
+        <div className="flex flex-wrap items-center gap-2 text-[#4d4725]">
+          {[match.first, match.second].map((record, index) => (
+            <React.Fragment key={record.id}>
+              {index > 0 && <span className="text-gray-400" aria-hidden="true">↔</span>}
+              <Link
+                to={`/informeejecutivo/${encodeURIComponent(record.id)}`}
+                className="font-semibold hover:underline underline-offset-2"
+              >
+                {record.referencia}
+              </Link>
+            </React.Fragment>
+          ))}
+        </div>
+        {match.level && (
+          <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${LEVEL_CLASS[match.level]}`}>
+            {DUPLICATE_LEVEL_LABELS[match.level]} · {Math.round(match.score * 100)}%
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Link
+          to={buildIphCompareLink([match.first.id, match.second.id])}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-[#c2b186] text-[#4d4725] hover:bg-[#f8f0e7]"
+        >
+          <Columns3 size={14} aria-hidden="true" />
+          Comparar
+        </Link>
+
+        {review ? (
+          <button
+            type="button"
+            onClick={() => onDecision(match.pairKey, null)}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-gray-600 hover:bg-gray-100 cursor-pointer"
+          >
+            <RotateCcw size={14} aria-hidden="true" />
+            Volver a pendiente
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => onDecision(match.pairKey, 'duplicado')}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-white bg-[#4d4725] hover:bg-[#3a3519] cursor-pointer"
+            >
+              <CheckCircle size={14} aria-hidden="true" />
+              Es duplicado
+            </button>
+            <button
+              type="button"
+              onClick={() => onDecision(match.pairKey, 'distinto')}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-gray-700 border border-gray-300 hover:bg-gray-50 cursor-pointer"
+            >
+              <XCircle size={14} aria-hidden="true" />
+              No es duplicado
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+
+    <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mt-4">
+      {match.signals.map(signal => (
+        <div key={signal.key} className="text-xs">
+          <dt className="font-semibold text-gray-600">{signal.label}</dt>
+          <dd className="mt-1">
+            {signal.score !== null && (
+              <span className="block h-1.5 mb-1 rounded-full bg-gray-100 overflow-hidden" aria-hidden="true">
+                <span
+                  className="block h-full bg-[#948b54]"
+                  style={{ width: `${Math.round(signal.score * 100)}%` }}
+                />
+              </span>
+            )}
+            <span className={signal.score === null ? 'text-gray-400' : 'text-gray-700'}>{signal.detail}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  </article>
+);
+
+export default DuplicatePairCard;
@@ -0,0 +1,158 @@
+/**
+ * Hook de la cola de revisión de posibles IPH duplicados
+ *
+ * @fileoverview Busca pares de posibles duplicados entre los IPH recientes,
+ * con progreso y cancelación, y registra la decisión del revisor por par.
+ *
+ * @version 1.0.0
+ * @since 2026-10-19
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+
+// Services
+import {
+  scanRecentDuplicates,
+  type DuplicateScanProgress
+} from '../../iph-oficial/services/duplicate-iph.service';
+
+// Helpers
+import {
+  clearDuplicateReview,
+  getDuplicateReviews,
+  saveDuplicateReview,
+  type DuplicateReviewDecision,
+  type DuplicateReviewMap
+} from '../../../../../helper/duplicates/duplicate-review.helper';
+import type { DuplicateMatch } from '../../../../../helper/duplicates/duplicate-detection.helper';
+import { isAbortError } from '../../../../../helper/bulk/bulk-operation.helper';
+import { logError, logInfo } from '../../../../../helper/log/logger.helper';
+import { showError, showSuccess } from '../../../../../helper/notification/notification.helper';
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+import { canAccessSuperior } from '../../../../../config/permissions.config';
+
+// Interfaces
+import type {
+  DuplicateQueueFilter,
+  UseDuplicateQueueReturn
+} from '../../../../../interfaces/components/duplicates.interface';
+
+const DECISION_BY_FILTER: Record<DuplicateQueueFilter, DuplicateReviewDecision | undefined> = {
+  pendientes: undefined,
+  confirmados: 'duplicado',
+  descartados: 'distinto'
+};
+
+const formatProgress = (progress: DuplicateScanProgress): string =>
+  progress.stage === 'listado'
+    ? `Revisando listado: página ${progress.processed} de ${progress.total}`
+    : `Analizando IPH: ${progress.processed} de ${progress.total}`;
+
+export const useDuplicateQueue = (): UseDuplicateQueueReturn => {
+  const hasAccess = useMemo(() => canAccessSuperior(getUserRoles()), []);
+
+  const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+  const [reviews, setReviews] = useState<DuplicateReviewMap>({});
+  const [loading, setLoading] = useState(false);
+  const [progressLabel, setProgressLabel] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<DuplicateQueueFilter>('pendientes');
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const scan = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    setProgressLabel(null);
+
+    try {
+      const [found, stored] = await Promise.all([
+        scanRecentDuplicates(controller.signal, progress => setProgressLabel(formatProgress(progress))),
+        getDuplicateReviews()
+      ]);
+      setMatches(found);
+      setReviews(stored);
+      logInfo('useDuplicateQueue', 'Búsqueda de duplicados terminada', { pares: found.length });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      logError('useDuplicateQueue', err, 'Error buscando posibles duplicados');
+      setError('No se pudieron buscar posibles duplicados. Intenta de nuevo.');
+    } finally {
+      if (controllerRef.current === controller) {
+        setLoading(false);
+        setProgressLabel(null);
+        controllerRef.current = null;
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (hasAccess) void scan();
+    return () => controllerRef.current?.abort();
+  }, [hasAccess, scan]);
+
+  const rescan = useCallback(() => {
+    void scan();
+  }, [scan]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setLoading(false);
+    setProgressLabel(null);
+  }, []);
+
+  const decide = useCallback(async (pairKey: string, decision: DuplicateReviewDecision | null) => {
+    try {
+      setReviews(decision ? await saveDuplicateReview(pairKey, decision) : await clearDuplicateReview(pairKey));
+      if (decision) {
+        showSuccess(
+          decision === 'duplicado' ? 'Par marcado como duplicado' : 'Par descartado como duplicado',
+          'Posibles duplicados'
+        );
+      }
+    } catch (err) {
+      logError('useDuplicateQueue', err, 'Error guardando decisión de duplicado');
+      showError('No se pudo guardar la decisión', 'Posibles duplicados');
+    }
+  }, []);
+
+  const counts = useMemo<Record<DuplicateQueueFilter, number>>(() => {
+    const result: Record<DuplicateQueueFilter, number> = { pendientes: 0, confirmados: 0, descartados: 0 };
+    for (const match of matches) {
+      const decision = reviews[match.pairKey]?.decision;
+      if (decision === 'duplicado') result.confirmados++;
+      else if (decision === 'distinto') result.descartados++;
+      else result.pendientes++;
+    }
+    return result;
+  }, [matches, reviews]);
+
+  const filteredMatches = useMemo(
+    () => matches.filter(match => reviews[match.pairKey]?.decision === DECISION_BY_FILTER[filter]),
+    [matches, reviews, filter]
+  );
+
+  return {
+    hasAccess,
+    loading,
+    progressLabel,
+    error,
+    matches: filteredMatches,
+    reviews,
+    filter,
+    setFilter,
+    counts,
+    rescan,
+    cancel,
+    decide
+  };
+};
+
+export default useDuplicateQueue;
@@ -0,0 +1,181 @@
+/**
+ * Componente IphCompare
+ *
+ * Vista de comparación lado a lado de 2 o 3 IPH (`/iphoficial/compare?ids=a,b`):
+ * - Secciones alineadas (primer respondiente, lugar, detenciones, inventario)
+ *   con las filas que difieren resaltadas
+ * - Diff por palabras de la narrativa de los hechos
+ * - Mapa compartido con la ubicación de cada IPH
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, ArrowLeft, Columns3, RefreshCw, Shield } from 'lucide-react';
+import { Link } from 'react-router-dom';
+
+// Hook
+import useIphCompare from './hooks/useIphCompare';
+
+// Componentes
+import CompareSectionTable from './components/CompareSectionTable';
+import NarrativaDiff from './components/NarrativaDiff';
+import CompareMap from './components/CompareMap';
+
+// Interfaces
+import type { IphCompareSectionId } from '../../../../../interfaces/components/iph-compare.interface';
+
+/** Secciones que van antes del mapa y la narrativa */
+const SECTIONS_BEFORE_NARRATIVA: IphCompareSectionId[] = ['general', 'primerRespondiente', 'lugarIntervencion'];
+
+const IphCompare: React.FC = () => {
+  const {
+    ids,
+    hasAccess,
+    loading,
+    error,
+    failedRecords,
+    columns,
+    sections,
+    narrativas,
+    locations,
+    refetch,
+    goBack
+  } = useIphCompare();
+
+  const [showOnlyDifferences, setShowOnlyDifferences] = useState(false);
+
+  const totalDifferences = sections.reduce((total, section) => total + section.differingCount, 0);
+  const sectionsBefore = sections.filter(section => SECTIONS_BEFORE_NARRATIVA.includes(section.id));
+  const sectionsAfter = sections.filter(section => !SECTIONS_BEFORE_NARRATIVA.includes(section.id));
+
+  const renderSection = (section: (typeof sections)[number]) => (
+    <CompareSectionTable
+      key={section.id}
+      section={section}
+      columns={columns}
+      showOnlyDifferences={showOnlyDifferences}
+    />
+  );
+
+  if (!hasAccess) {
+    return (
+      <div className="p-6 bg-[#f8f0e7] min-h-screen font-poppins">
+        <div className="max-w-2xl mx-auto text-center py-16">
+          <Shield size={64} className="mx-auto text-red-400 mb-6" />
+          <h2 className="text-2xl font-bold text-red-600 mb-4">Acceso Restringido</h2>
+          <p className="text-gray-600 mb-6">
+            La comparación de IPH está disponible para usuarios con rol de
+            SuperAdmin, Administrador o Superior.
+          </p>
+          <button
+            onClick={goBack}
+            className="inline-flex items-center gap-2 px-6 py-2 bg-[#4d4725] text-white rounded-lg hover:bg-[#3a3519] transition-colors cursor-pointer"
+          >
+            <ArrowLeft size={16} />
+            Regresar
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#f8f0e7] min-h-screen p-6 text-[#4d4725] font-poppins">
+      <div className="max-w-7xl mx-auto">
+        {/* Barra de navegación */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={goBack}
+              className="flex items-center gap-2 px-4 py-2 bg-[#4d4725] text-white rounded-lg hover:bg-[#3a3519] transition-colors cursor-pointer"
+              aria-label="Regresar"
+            >
+              <ArrowLeft size={16} />
+              <span className="hidden sm:inline">Regresar</span>
+            </button>
+
+            <div className="flex items-center gap-2">
+              <Columns3 size={24} aria-hidden="true" />
+              <div>
+                <h1 className="text-lg font-bold">Comparar IPH</h1>
+                {!loading && columns.length >= 2 && (
+                  <p className="text-sm text-gray-600">
+                    {totalDifferences} campo{totalDifferences === 1 ? '' : 's'} con diferencias
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label className="inline-flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showOnlyDifferences}
+                onChange={event => setShowOnlyDifferences(event.target.checked)}
+                className="accent-[#4d4725]"
+              />
+              Solo diferencias
+            </label>
+            <button
+              onClick={refetch}
+              disabled={loading || ids.length < 2}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+            >
+              <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+              <span className="hidden sm:inline">Actualizar</span>
+            </button>
+          </div>
+        </div>
+
+        {/* IPH que no se pudieron cargar */}
+        {failedRecords.length > 0 && (
+          <div className="flex items-start gap-3 mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm" role="alert">
+            <AlertCircle size={18} className="text-red-600 flex-shrink-0 mt-0.5" />
+            <ul className="space-y-1 text-red-700">
+              {failedRecords.map(record => (
+                <li key={record.id}>
+                  <span className="font-semibold">{record.id}:</span> {record.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-6" aria-busy="true">
+            {[...Array(3)].map((_, index) => (
+              <div key={index} className="h-40 bg-white rounded-md shadow animate-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="max-w-2xl mx-auto bg-white border border-[#c2b186] rounded-lg p-6 text-center">
+            <AlertCircle size={40} className="mx-auto text-[#948b54] mb-3" />
+            <p className="mb-4">{error}</p>
+            <Link to="/historialiph" className="text-sm font-semibold text-[#948b54] underline hover:text-[#4d4725]">
+              Ir al historial para seleccionar IPH
+            </Link>
+          </div>
+        ) : (
+          <>
+            {sectionsBefore.map(renderSection)}
+
+            <section className="mb-6" aria-labelledby="compare-mapa">
+              <div className="bg-[#b8ab84] text-black px-4 py-2 rounded-t-md">
+                <h2 id="compare-mapa" className="text-sm font-bold uppercase tracking-wide">
+                  Ubicaciones
+                </h2>
+              </div>
+              <CompareMap locations={locations} className="rounded-t-none" />
+            </section>
+
+            <NarrativaDiff columns={columns} narrativas={narrativas} />
+
+            {sectionsAfter.map(renderSection)}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IphCompare;
@@ -0,0 +1,117 @@
+/**
+ * Componente CompareMap
+ * Mapa con la ubicación de cada IPH comparado (un marcador por color de columna)
+ */
+
+import React, { useEffect } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { MapPin } from 'lucide-react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+// Interfaces
+import type {
+  CompareMapProps,
+  IphCompareLocation
+} from '../../../../../../interfaces/components/iph-compare.interface';
+
+const MARKER_SIZE = 28;
+
+const createMarkerIcon = (color: string, label: number): L.DivIcon =>
+  L.divIcon({
+    html: `
+      <svg width="${MARKER_SIZE}" height="${MARKER_SIZE}" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+        <circle cx="12" cy="12" r="11" fill="${color}" stroke="white" stroke-width="2"/>
+        <text x="12" y="16" text-anchor="middle" font-size="11" font-weight="bold" fill="white">${label}</text>
+      </svg>
+    `,
+    className: '',
+    iconSize: [MARKER_SIZE, MARKER_SIZE],
+    iconAnchor: [MARKER_SIZE / 2, MARKER_SIZE / 2],
+    popupAnchor: [0, -MARKER_SIZE / 2]
+  });
+
+/**
+ * Ajusta la vista para que todos los marcadores queden visibles
+ */
+const FitBounds: React.FC<{ locations: IphCompareLocation[] }> = ({ locations }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (locations.length === 0) return;
+    const bounds = L.latLngBounds(locations.map(location => [location.lat, location.lng] as [number, number]));
+    map.fitBounds(bounds, { padding: [40, 40], maxZoom: 16 });
+  }, [map, locations]);
+
+  return null;
+};
+
+const CompareMap: React.FC<CompareMapProps> = ({
+  locations,
+  height = '360px',
+  className = ''
+}) => {
+  if (locations.length === 0) {
+    return (
+      <div
+        className={`flex flex-col items-center justify-center bg-white rounded-md shadow text-[#4d4725] ${className}`}
+        style={{ height }}
+      >
+        <MapPin className="h-10 w-10 text-gray-400 mb-2" aria-hidden="true" />
+        <p className="text-sm text-gray-500">Ninguno de los IPH tiene coordenadas válidas</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`bg-white rounded-md shadow overflow-hidden ${className}`}>
+      <div style={{ height }}>
+        <MapContainer
+          center={[locations[0].lat, locations[0].lng]}
+          zoom={14}
+          style={{ height: '100%', width: '100%' }}
+          scrollWheelZoom={false}
+        >
+          <FitBounds locations={locations} />
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            maxZoom={19}
+          />
+          {locations.map((location, index) => (
+            <Marker
+              key={location.id}
+              position={[location.lat, location.lng]}
+              icon={createMarkerIcon(location.color, index + 1)}
+            >
+              <Popup>
+                <div className="text-sm font-poppins">
+                  <strong className="text-[#4d4725]">{location.referencia}</strong>
+                  {location.direccion && <p className="mt-1 text-gray-600">{location.direccion}</p>}
+                </div>
+              </Popup>
+            </Marker>
+          ))}
+        </MapContainer>
+      </div>
+
+      <ul className="flex flex-wrap gap-x-6 gap-y-1 px-4 py-2 text-xs text-gray-700 border-t border-gray-200">
+        {locations.map((location, index) => (
+          <li key={location.id} className="inline-flex items-center gap-2">
+            <span
+              className="inline-flex items-center justify-center w-4 h-4 rounded-full text-[10px] font-bold text-white"
+              style={{ backgroundColor: location.color }}
+              aria-hidden="true"
+            >
+              {index + 1}
+            </span>
+            <span className="font-semibold">{location.referencia}</span>
+            {location.direccion && <span className="text-gray-500">{location.direccion}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CompareMap;
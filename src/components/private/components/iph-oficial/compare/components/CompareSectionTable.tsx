@@ -0,0 +1,86 @@
+/**
+ * Componente CompareSectionTable
+ * Tabla de una sección con un campo por fila y un IPH por columna;
+ * resalta las filas cuyos valores difieren
+ */
+
+import React from 'react';
+
+// Interfaces
+import type { CompareSectionTableProps } from '../../../../../../interfaces/components/iph-compare.interface';
+
+const CompareSectionTable: React.FC<CompareSectionTableProps> = ({
+  section,
+  columns,
+  showOnlyDifferences
+}) => {
+  const rows = showOnlyDifferences ? section.rows.filter(row => row.differs) : section.rows;
+
+  return (
+    <section className="mb-6" aria-labelledby={`compare-${section.id}`}>
+      <div className="flex items-center justify-between bg-[#b8ab84] text-black px-4 py-2 rounded-t-md">
+        <h2 id={`compare-${section.id}`} className="text-sm font-bold uppercase tracking-wide">
+          {section.title}
+        </h2>
+        <span
+          className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+            section.differingCount > 0 ? 'bg-amber-100 text-amber-800' : 'bg-white/60 text-gray-700'
+          }`}
+        >
+          {section.differingCount > 0
+            ? `${section.differingCount} diferencia${section.differingCount === 1 ? '' : 's'}`
+            : 'Sin diferencias'}
+        </span>
+      </div>
+
+      <div className="bg-white shadow rounded-b-md overflow-x-auto">
+        {rows.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500">
+            {section.rows.length === 0 ? 'Sin información en esta sección' : 'Los campos de esta sección coinciden'}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left">
+                <th scope="col" className="px-4 py-2 w-1/4 font-semibold text-gray-600">Campo</th>
+                {columns.map(column => (
+                  <th key={column.id} scope="col" className="px-4 py-2 font-semibold text-[#4d4725]">
+                    <span className="inline-flex items-center gap-2">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: column.color }} aria-hidden="true" />
+                      {column.referencia}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr
+                  key={row.key}
+                  className={`border-b border-gray-100 last:border-b-0 ${row.differs ? 'bg-amber-50' : ''}`}
+                >
+                  <th scope="row" className="px-4 py-2 font-medium text-left text-gray-600 align-top">
+                    {row.differs && <span className="sr-only">Difiere: </span>}
+                    {row.label}
+                  </th>
+                  {row.values.map((value, index) => (
+                    <td
+                      key={columns[index]?.id ?? index}
+                      className={`px-4 py-2 align-top break-words ${
+                        row.differs && value !== row.values[0] ? 'font-semibold text-amber-900' : 'text-gray-800'
+                      }`}
+                    >
+                      {value || <span className="text-gray-400">—</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CompareSectionTable;
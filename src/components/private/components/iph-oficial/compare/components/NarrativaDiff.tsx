@@ -0,0 +1,95 @@
+/**
+ * Componente NarrativaDiff
+ * Diff por palabras de `narrativaHecho.contenido`: el primer IPH es la base y
+ * se compara contra el IPH elegido (eliminado en rojo, añadido en verde)
+ */
+
+import React, { useMemo, useState } from 'react';
+
+// Helpers
+import { diffWords, summarizeDiff } from '../../../../../../helper/diff/text-diff.helper';
+
+// Interfaces
+import type { NarrativaDiffProps } from '../../../../../../interfaces/components/iph-compare.interface';
+
+const SEGMENT_CLASS = {
+  equal: '',
+  removed: 'bg-red-100 text-red-800 line-through decoration-red-400',
+  added: 'bg-green-100 text-green-800'
+} as const;
+
+const NarrativaDiff: React.FC<NarrativaDiffProps> = ({ columns, narrativas }) => {
+  const [targetIndex, setTargetIndex] = useState(1);
+  const safeTarget = targetIndex < columns.length ? targetIndex : 1;
+
+  const base = narrativas[0] ?? '';
+  const target = narrativas[safeTarget] ?? '';
+
+  const segments = useMemo(() => diffWords(base, target), [base, target]);
+  const summary = useMemo(() => summarizeDiff(segments), [segments]);
+
+  const baseColumn = columns[0];
+  const targetColumn = columns[safeTarget];
+
+  return (
+    <section className="mb-6" aria-labelledby="compare-narrativa">
+      <div className="flex flex-wrap items-center justify-between gap-2 bg-[#b8ab84] text-black px-4 py-2 rounded-t-md">
+        <h2 id="compare-narrativa" className="text-sm font-bold uppercase tracking-wide">
+          Narrativa de los hechos
+        </h2>
+        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-white/60 text-gray-700">
+          {Math.round(summary.similarity * 100)}% similar · +{summary.addedWords} / −{summary.removedWords} palabras
+        </span>
+      </div>
+
+      <div className="bg-white shadow p-4 rounded-b-md text-sm">
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-gray-600">
+          <span>Base:</span>
+          <span className="font-semibold" style={{ color: baseColumn?.color }}>{baseColumn?.referencia}</span>
+          <span>comparada con</span>
+          {columns.length > 2 ? (
+            <div className="inline-flex rounded-lg border border-[#c2b186] overflow-hidden" role="group">
+              {columns.slice(1).map((column, offset) => (
+                <button
+                  key={column.id}
+                  type="button"
+                  onClick={() => setTargetIndex(offset + 1)}
+                  aria-pressed={safeTarget === offset + 1}
+                  className={`px-3 py-1 cursor-pointer ${
+                    safeTarget === offset + 1 ? 'bg-[#4d4725] text-white' : 'bg-white text-[#4d4725] hover:bg-[#f8f0e7]'
+                  }`}
+                >
+                  {column.referencia}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <span className="font-semibold" style={{ color: targetColumn?.color }}>{targetColumn?.referencia}</span>
+          )}
+        </div>
+
+        {!base && !target ? (
+          <p className="py-4 text-center text-gray-500">Ninguno de los IPH tiene narrativa registrada</p>
+        ) : (
+          <p className="whitespace-pre-wrap leading-relaxed text-gray-800">
+            {segments.map((segment, index) => (
+              <span key={index} className={SEGMENT_CLASS[segment.type]}>
+                {segment.type !== 'equal' && (
+                  <span className="sr-only">{segment.type === 'added' ? '[añadido] ' : '[eliminado] '}</span>
+                )}
+                {segment.text}
+              </span>
+            ))}
+          </p>
+        )}
+
+        <div className="flex gap-4 mt-3 pt-3 border-t border-gray-100 text-xs text-gray-500">
+          <span><span className="px-1 bg-red-100 text-red-800 line-through">texto</span> solo en la base</span>
+          <span><span className="px-1 bg-green-100 text-green-800">texto</span> solo en el IPH comparado</span>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default NarrativaDiff;
@@ -0,0 +1,175 @@
+/**
+ * Hook para la comparación lado a lado de IPH
+ *
+ * @fileoverview Lee `?ids=a,b[,c]`, carga cada IPH con `getIphById` en paralelo
+ * y construye las secciones alineadas, las narrativas y las ubicaciones.
+ * Un IPH que falla no bloquea la vista mientras queden al menos dos.
+ *
+ * @version 1.0.0
+ * @since 2026-10-19
+ *
+ * @author Sistema IPH Frontend
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+// Helpers
+import { logInfo, logError, logWarning } from '../../../../../../helper/log/logger.helper';
+import { getUserRoles } from '../../../../../../helper/role/role.helper';
+import { canAccessSuperior } from '../../../../../../config/permissions.config';
+
+// Services
+import { getIphById } from '../../services/get-iph.service';
+
+// Utils
+import {
+  COMPARE_COLORS,
+  MAX_COMPARE_IPH,
+  MIN_COMPARE_IPH,
+  buildCompareSections,
+  getCompareLocation,
+  getCompareNarrativa,
+  getCompareReferencia,
+  parseCompareIds
+} from '../../../../../../utils/iph-oficial';
+
+// Interfaces
+import type {
+  IphCompareColumn,
+  IphCompareLocation,
+  IphCompareRecord,
+  UseIphCompareReturn
+} from '../../../../../../interfaces/components/iph-compare.interface';
+
+/**
+ * Hook de la vista de comparación
+ *
+ * @example
+ * ```typescript
+ * const { columns, sections, narrativas, locations, loading, error } = useIphCompare();
+ * ```
+ */
+export const useIphCompare = (): UseIphCompareReturn => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const idsParam = searchParams.get('ids');
+  const ids = useMemo(() => parseCompareIds(idsParam).slice(0, MAX_COMPARE_IPH), [idsParam]);
+
+  const hasAccess = useMemo(() => canAccessSuperior(getUserRoles()), []);
+
+  const [records, setRecords] = useState<IphCompareRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [reloadToken, setReloadToken] = useState<number>(0);
+
+  useEffect(() => {
+    if (parseCompareIds(idsParam).length > MAX_COMPARE_IPH) {
+      logWarning('useIphCompare', `Se recibieron más de ${MAX_COMPARE_IPH} IPH; se comparan los primeros`, { idsParam });
+    }
+  }, [idsParam]);
+
+  useEffect(() => {
+    if (!hasAccess || ids.length < MIN_COMPARE_IPH) {
+      setRecords([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    logInfo('useIphCompare', 'Cargando IPH a comparar', { ids });
+
+    Promise.allSettled(ids.map(id => getIphById(id))).then(results => {
+      if (cancelled) return;
+
+      const loaded = results.map((result, index): IphCompareRecord => {
+        if (result.status === 'fulfilled') {
+          return { id: ids[index], data: result.value, error: null };
+        }
+        logError('useIphCompare', result.reason, `Error cargando IPH ${ids[index]} para comparar`);
+        return {
+          id: ids[index],
+          data: null,
+          error: result.reason instanceof Error ? result.reason.message : 'Error desconocido'
+        };
+      });
+
+      setRecords(loaded);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ids, hasAccess, reloadToken]);
+
+  // ==================== COMPUTED ====================
+
+  const columns = useMemo<IphCompareColumn[]>(
+    () =>
+      records
+        .filter((record): record is IphCompareRecord & { data: NonNullable<IphCompareRecord['data']> } => record.data !== null)
+        .map((record, index) => ({
+          id: record.id,
+          referencia: getCompareReferencia(record.data, record.id),
+          color: COMPARE_COLORS[index % COMPARE_COLORS.length],
+          data: record.data
+        })),
+    [records]
+  );
+
+  const failedRecords = useMemo(() => records.filter(record => record.data === null), [records]);
+
+  const error = useMemo<string | null>(() => {
+    if (!hasAccess) return 'No tienes permisos para comparar IPH';
+    if (ids.length < MIN_COMPARE_IPH) {
+      return `Indica entre ${MIN_COMPARE_IPH} y ${MAX_COMPARE_IPH} IPH a comparar (?ids=a,b)`;
+    }
+    if (!loading && columns.length < MIN_COMPARE_IPH) {
+      return `Se necesitan al menos ${MIN_COMPARE_IPH} IPH cargados para comparar`;
+    }
+    return null;
+  }, [hasAccess, ids.length, loading, columns.length]);
+
+  const sections = useMemo(() => buildCompareSections(columns.map(column => column.data)), [columns]);
+
+  const narrativas = useMemo(() => columns.map(column => getCompareNarrativa(column.data)), [columns]);
+
+  const locations = useMemo(
+    () => columns.map(getCompareLocation).filter((location): location is IphCompareLocation => location !== null),
+    [columns]
+  );
+
+  // ==================== ACCIONES ====================
+
+  const refetch = useCallback(() => {
+    logInfo('useIphCompare', 'Recarga manual solicitada', { ids });
+    setReloadToken(prev => prev + 1);
+  }, [ids]);
+
+  const goBack = useCallback(() => {
+    if (window.history.length > 1) {
+      navigate(-1);
+    } else {
+      navigate('/historialiph');
+    }
+  }, [navigate]);
+
+  return {
+    ids,
+    hasAccess,
+    loading,
+    error,
+    failedRecords,
+    columns,
+    sections,
+    narrativas,
+    locations,
+    refetch,
+    goBack
+  };
+};
+
+export default useIphCompare;
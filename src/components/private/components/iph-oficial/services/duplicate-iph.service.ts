@@ -0,0 +1,229 @@
+/**
+ * Servicio de detección de posibles IPH duplicados
+ *
+ * El puntaje se calcula en el navegador (duplicate-detection.helper); aquí solo
+ * se obtienen los datos:
+ * 1. Listado paginado más reciente (`getAllIph`, orden por fecha de creación)
+ * 2. Preselección barata con los campos del listado (ubicación, fecha, tipo, hechos)
+ * 3. Descarga completa (`getIphById`) solo de los mejores candidatos para
+ *    puntuar con detenidos y narrativa
+ *
+ * Requiere vista global del listado (Superior o superior).
+ *
+ * @version 1.0.0
+ */
+
+// Servicios
+import { getAllIph, getIphById } from './get-iph.service';
+
+// Helpers
+import {
+  buildDuplicatePairKey,
+  findDuplicateMatches,
+  scoreDuplicatePair,
+  type DuplicateMatch,
+  type IphFingerprint
+} from '../../../../../helper/duplicates/duplicate-detection.helper';
+import { runBulkOperation, throwIfAborted } from '../../../../../helper/bulk/bulk-operation.helper';
+import CacheHelper from '../../../../../helper/cache/cache.helper';
+import { logInfo } from '../../../../../helper/log/logger.helper';
+
+// Utils
+import { buildFingerprintFromIph, buildFingerprintFromListItem } from '../../../../../utils/iph-oficial';
+
+// Interfaces
+import type { IAllIph, ResponseIphData } from '../../../../../interfaces/iph/iph.interface';
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+export const DUPLICATE_SCAN_CONFIG = {
+  /** Páginas del listado revisadas al buscar duplicados de un IPH */
+  maxPages: 5,
+  /** Páginas del listado revisadas por la cola de revisión */
+  queuePages: 3,
+  /** Puntaje mínimo con datos del listado para descargar el IPH completo */
+  prefilterScore: 0.45,
+  /** Candidatos descargados completos por IPH */
+  maxCandidates: 6,
+  /** Pares descargados completos en la cola de revisión */
+  maxQueuePairs: 20,
+  concurrency: 3,
+  /** Margen (ms) antes de la fecha del IPH hasta donde se pagina el listado */
+  lookbackMs: 3 * 24 * 60 * 60 * 1000,
+  /** Los resultados por IPH se reutilizan al reabrir el detalle */
+  resultCacheMs: 5 * 60 * 1000
+} as const;
+
+const RESULT_CACHE_PREFIX = 'iph-duplicates';
+
+const CANCEL_MESSAGE = 'Búsqueda de duplicados cancelada';
+
+export interface DuplicateScanProgress {
+  stage: 'listado' | 'detalle';
+  processed: number;
+  total: number;
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Listado más reciente; se detiene al llegar a registros anteriores a `until`
+ */
+const fetchRecentIph = async (
+  maxPages: number,
+  until: number | null,
+  signal?: AbortSignal,
+  onProgress?: (progress: DuplicateScanProgress) => void
+): Promise<IAllIph[]> => {
+  const registros: IAllIph[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    throwIfAborted(signal, CANCEL_MESSAGE);
+    const response = await getAllIph({
+      page,
+      orderBy: 'fecha_creacion',
+      order: 'DESC',
+      search: '',
+      searchBy: 'n_referencia'
+    });
+    throwIfAborted(signal, CANCEL_MESSAGE);
+
+    registros.push(...response.data);
+    onProgress?.({ stage: 'listado', processed: page, total: Math.min(maxPages, response.totalPages) });
+
+    const oldest = Date.parse(response.data[response.data.length - 1]?.fecha_creacion ?? '');
+    if (response.data.length === 0 || page >= response.totalPages) break;
+    if (until !== null && !Number.isNaN(oldest) && oldest < until) break;
+  }
+
+  return registros;
+};
+
+/**
+ * Descarga los IPH completos (concurrencia limitada); los que fallan se omiten
+ */
+const fetchFingerprints = async (
+  ids: string[],
+  signal?: AbortSignal,
+  onProgress?: (progress: DuplicateScanProgress) => void
+): Promise<Map<string, IphFingerprint>> => {
+  const results = await runBulkOperation(ids, id => getIphById(id), {
+    concurrency: DUPLICATE_SCAN_CONFIG.concurrency,
+    signal,
+    onProgress: ({ processed, total }) => onProgress?.({ stage: 'detalle', processed, total })
+  });
+  throwIfAborted(signal, CANCEL_MESSAGE);
+
+  const fingerprints = new Map<string, IphFingerprint>();
+  for (const result of results) {
+    if (result.status === 'success' && result.result) {
+      fingerprints.set(result.item, buildFingerprintFromIph(result.result, result.item));
+    }
+  }
+  return fingerprints;
+};
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Busca posibles duplicados de un IPH entre los registros recientes
+ *
+ * @param target - IPH completo (o su id para descargarlo)
+ * @returns Posibles duplicados, del más al menos probable
+ */
+export const findPossibleDuplicates = async (
+  target: ResponseIphData | string,
+  signal?: AbortSignal
+): Promise<DuplicateMatch[]> => {
+  const targetData = typeof target === 'string' ? await getIphById(target) : target;
+  const fingerprint = buildFingerprintFromIph(targetData, typeof target === 'string' ? target : '');
+  if (!fingerprint.id) return [];
+
+  const cacheKey = `${RESULT_CACHE_PREFIX}:${fingerprint.id}`;
+  const cached = await CacheHelper.get<DuplicateMatch[]>(cacheKey);
+  if (cached) return cached;
+
+  const targetTime = fingerprint.fechas.length > 0 ? Math.min(...fingerprint.fechas) : null;
+  const listado = await fetchRecentIph(
+    DUPLICATE_SCAN_CONFIG.maxPages,
+    targetTime !== null ? targetTime - DUPLICATE_SCAN_CONFIG.lookbackMs : null,
+    signal
+  );
+
+  const candidateIds = listado
+    .filter(item => item.id !== fingerprint.id)
+    .map(item => ({ id: item.id, score: scoreDuplicatePair(fingerprint, buildFingerprintFromListItem(item)).score }))
+    .filter(candidate => candidate.score >= DUPLICATE_SCAN_CONFIG.prefilterScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, DUPLICATE_SCAN_CONFIG.maxCandidates)
+    .map(candidate => candidate.id);
+
+  logInfo('DuplicateIphService', 'Candidatos a duplicado preseleccionados', {
+    iphId: fingerprint.id,
+    revisados: listado.length,
+    candidatos: candidateIds.length
+  });
+
+  const candidates = candidateIds.length > 0 ? await fetchFingerprints(candidateIds, signal) : new Map<string, IphFingerprint>();
+  const matches = findDuplicateMatches(fingerprint, Array.from(candidates.values()));
+
+  await CacheHelper.set(cacheKey, matches, {
+    expiresIn: DUPLICATE_SCAN_CONFIG.resultCacheMs,
+    namespace: 'data'
+  });
+
+  return matches;
+};
+
+/**
+ * Cola de revisión: pares de posibles duplicados entre los IPH recientes
+ */
+export const scanRecentDuplicates = async (
+  signal?: AbortSignal,
+  onProgress?: (progress: DuplicateScanProgress) => void
+): Promise<DuplicateMatch[]> => {
+  const listado = await fetchRecentIph(DUPLICATE_SCAN_CONFIG.queuePages, null, signal, onProgress);
+  const fingerprints = listado.map(buildFingerprintFromListItem);
+
+  // Preselección por pares con los datos del listado
+  const pairs: Array<{ a: string; b: string; score: number }> = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < fingerprints.length; i++) {
+    for (let j = i + 1; j < fingerprints.length; j++) {
+      const key = buildDuplicatePairKey(fingerprints[i].id, fingerprints[j].id);
+      if (seen.has(key) || fingerprints[i].id === fingerprints[j].id) continue;
+      seen.add(key);
+
+      const { score } = scoreDuplicatePair(fingerprints[i], fingerprints[j]);
+      if (score >= DUPLICATE_SCAN_CONFIG.prefilterScore) {
+        pairs.push({ a: fingerprints[i].id, b: fingerprints[j].id, score });
+      }
+    }
+  }
+
+  const topPairs = pairs.sort((x, y) => y.score - x.score).slice(0, DUPLICATE_SCAN_CONFIG.maxQueuePairs);
+  logInfo('DuplicateIphService', 'Pares preseleccionados para la cola de duplicados', {
+    revisados: listado.length,
+    pares: topPairs.length
+  });
+
+  if (topPairs.length === 0) return [];
+
+  const ids = Array.from(new Set(topPairs.flatMap(pair => [pair.a, pair.b])));
+  const full = await fetchFingerprints(ids, signal, onProgress);
+
+  return topPairs
+    .map(pair => {
+      const a = full.get(pair.a);
+      const b = full.get(pair.b);
+      return a && b ? scoreDuplicatePair(a, b) : null;
+    })
+    .filter((match): match is DuplicateMatch => match !== null && match.level !== null)
+    .sort((x, y) => y.score - x.score);
+};
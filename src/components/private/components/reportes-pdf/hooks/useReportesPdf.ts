@@ -16,6 +16,7 @@ import { useState, useCallback, useMemo } from 'react';
 import type { IReporteCard, IReporteFiltros, IReporteEstado } from '../../../../../interfaces/IReporte';
 import { generarReportePdf, descargarPdf, previsualizarPdf, validarFiltros } from '../services/reportes-pdf.service';
 import { showSuccess, showError, showInfo } from '../../../../../helper/notification/notification.helper';
+import { pushNotification } from '../../../../../helper/notification-center/notification-center.helper';
 import { logInfo, logWarning } from '../../../../../helper/log/logger.helper';
 import { getUserRoles } from '../../../../../helper/role/role.helper';
 import { canAccessSuperior } from '../../../../../config/permissions.config';
@@ -154,6 +155,15 @@ const useReportesPdf = () => {
           showSuccess(`Reporte "${reporte.titulo}" generado exitosamente`);
         }
 
+        // Registrar en el centro de notificaciones (el toast ya se mostró)
+        pushNotification({
+          category: 'report-ready',
+          title: 'Reporte listo',
+          message: `El reporte "${reporte.titulo}" se generó correctamente`,
+          link: '/reportes-pdf',
+          toast: false
+        });
+
         // Completar
         setEstado({
           generando: false,
@@ -27,14 +27,18 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { AlertCircle } from 'lucide-react';
 import { useEstadisticasJC } from './hooks/useEstadisticasJC';
+import { useEstadisticasRango } from './hooks/useEstadisticasRango';
 import FiltroFechaJC from './components/filters/FiltroFechaJC';
+import FiltroRangoFechas from './components/filters/FiltroRangoFechas';
 import GraficaBarrasJC from './components/charts/GraficaBarrasJC';
 import GraficaPromedioJC from './components/charts/GraficaPromedioJC';
 import EstadisticasJCHeader from './sections/EstadisticasJCHeader';
+import EstadisticasJCResumen from './sections/EstadisticasJCResumen';
 import AccessDenied from '../../../shared/components/access-denied';
 import { getUserRoles } from '../../../../helper/role/role.helper';
 import { canAccessSuperior } from '../../../../config/permissions.config';
 import { JC_COLORS } from './config/colorsConfig';
+import { filtrosPeriodoExportacion, type FiltroExportacion } from './utils';
 import { logDebug } from '../../../../helper/log/logger.helper';
 import './styles/EstadisticasJC.css';
 
@@ -45,12 +49,14 @@ export interface EstadisticasJCProps {
     mes: number;
     dia: number;
   };
+  /** Notifica los filtros vigentes (para la exportación de la vista) */
+  onFiltrosExportacion?: (filtros: FiltroExportacion[]) => void;
 }
 
 /**
  * Componente de Estadísticas de Justicia Cívica
  */
-export const EstadisticasJC: React.FC<EstadisticasJCProps> = ({ externalFilters }) => {
+export const EstadisticasJC: React.FC<EstadisticasJCProps> = ({ externalFilters, onFiltrosExportacion }) => {
   // =====================================================
   // #region 🔐 VALIDACIÓN DE ACCESO v4.0 - Centralizado
   // =====================================================
@@ -74,6 +80,9 @@ export const EstadisticasJC: React.FC<EstadisticasJCProps> = ({ externalFilters
     actualizarFecha
   } = useEstadisticasJC();
 
+  // Comparación por rango de fechas (consulta manual)
+  const rango = useEstadisticasRango('justicia-civica');
+
   // Estado para controlar si hay errores críticos
   const [hayErrorCritico, setHayErrorCritico] = useState(false);
 
@@ -92,6 +101,17 @@ export const EstadisticasJC: React.FC<EstadisticasJCProps> = ({ externalFilters
     }
   }, [externalFilters, actualizarFecha, hasAccess]);
 
+  // Informar los filtros vigentes a la vista (exportación)
+  useEffect(() => {
+    if (!onFiltrosExportacion) return;
+    onFiltrosExportacion(filtrosPeriodoExportacion(
+      fechaSeleccionada,
+      rango.comparativo
+        ? { rango: rango.comparativo.actual.rango, rangoComparacion: rango.comparativo.comparacion.rango }
+        : null
+    ));
+  }, [onFiltrosExportacion, fechaSeleccionada, rango.comparativo]);
+
   // Detectar errores críticos
   useEffect(() => {
     const tieneErrores = error.diaria || error.mensual || error.anual;
@@ -183,6 +203,29 @@ export const EstadisticasJC: React.FC<EstadisticasJCProps> = ({ externalFilters
         </div>
       )}
 
+      {/* Comparación por rango de fechas - Solo sin filtros externos */}
+      {!externalFilters && (
+        <>
+          <FiltroRangoFechas
+            rango={rango.rango}
+            modoComparacion={rango.modoComparacion}
+            rangoComparacion={rango.rangoComparacion}
+            onRangoChange={rango.setRango}
+            onModoComparacionChange={rango.setModoComparacion}
+            onRangoComparacionChange={rango.setRangoPersonalizado}
+            onConsultar={rango.consultar}
+            loading={rango.loading}
+            progreso={rango.progreso}
+          />
+          {rango.error && (
+            <div className="flex items-center gap-3 p-4 mb-6 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700 font-poppins">{rango.error}</p>
+            </div>
+          )}
+        </>
+      )}
+
       {/* Gráficas de Barras */}
       {(estadisticas.diaria || estadisticas.mensual || estadisticas.anual) && (
         <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
@@ -239,47 +282,12 @@ export const EstadisticasJC: React.FC<EstadisticasJCProps> = ({ externalFilters
       )}
 
       {/* Resumen General */}
-      {estadisticas.diaria && estadisticas.mensual && estadisticas.anual && (
-        <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
-          <h2 className="text-xl font-semibold text-[#4d4725] font-poppins mb-6">📋 Resumen Comparativo</h2>
-
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-              <span className="text-sm font-semibold text-gray-600 font-poppins block mb-2">Total Diario</span>
-              <span className="text-2xl font-bold text-[#4d4725] font-poppins">
-                {(estadisticas.diaria.data.totalConDetenido +
-                  estadisticas.diaria.data.totalSinDetenido).toLocaleString()}
-              </span>
-            </div>
-
-            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-              <span className="text-sm font-semibold text-gray-600 font-poppins block mb-2">Total Mensual</span>
-              <span className="text-2xl font-bold text-[#4d4725] font-poppins">
-                {(estadisticas.mensual.data.totalConDetenido +
-                  estadisticas.mensual.data.totalSinDetenido).toLocaleString()}
-              </span>
-            </div>
-
-            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-              <span className="text-sm font-semibold text-gray-600 font-poppins block mb-2">Total Anual</span>
-              <span className="text-2xl font-bold text-[#4d4725] font-poppins">
-                {(estadisticas.anual.data.totalConDetenido +
-                  estadisticas.anual.data.totalSinDetenido).toLocaleString()}
-              </span>
-            </div>
-
-            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-              <span className="text-sm font-semibold text-gray-600 font-poppins block mb-2">Promedio Diario (Año)</span>
-              <span className="text-2xl font-bold text-[#4d4725] font-poppins">
-                {Math.round(
-                  (estadisticas.anual.data.totalConDetenido +
-                    estadisticas.anual.data.totalSinDetenido) / 365
-                ).toLocaleString()}
-              </span>
-            </div>
-          </div>
-        </div>
-      )}
+      <EstadisticasJCResumen
+        diaria={estadisticas.diaria}
+        mensual={estadisticas.mensual}
+        anual={estadisticas.anual}
+        comparativo={rango.comparativo}
+      />
 
       {/* Footer con información */}
       <div className="bg-white rounded-xl border border-gray-200 p-4 text-center">
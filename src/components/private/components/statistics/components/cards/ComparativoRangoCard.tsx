@@ -0,0 +1,95 @@
+/**
+ * Tarjeta de comparación entre dos rangos de fechas
+ * Totales con/sin detenido, total y promedio diario con su diferencia porcentual
+ *
+ * @module ComparativoRangoCard
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+import type { ComparativoRango } from '../../services/estadisticas-periodo.service';
+import { formatearNumero, formatearRango } from '../../utils';
+
+export interface ComparativoRangoCardProps {
+  comparativo: ComparativoRango;
+}
+
+/**
+ * Diferencia porcentual con flecha; sin base de comparación muestra un guion
+ * (un aumento en incidencia se marca en rojo y una disminución en verde)
+ */
+const Delta: React.FC<{ valor: number; base: number }> = ({ valor, base }) => {
+  if (base === 0) {
+    return <span className="text-xs text-gray-400" title="Sin registros en el periodo de comparación">—</span>;
+  }
+  if (valor === 0) {
+    return (
+      <span className="inline-flex items-center gap-1 text-sm text-gray-500">
+        <Minus className="h-4 w-4" /> 0%
+      </span>
+    );
+  }
+
+  const Icono = valor > 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={`inline-flex items-center gap-1 text-sm font-semibold ${valor > 0 ? 'text-red-600' : 'text-green-600'}`}>
+      <Icono className="h-4 w-4" />
+      {valor > 0 ? '+' : ''}{valor}%
+    </span>
+  );
+};
+
+/**
+ * Tabla comparativa de dos rangos
+ *
+ * @example
+ * ```tsx
+ * <ComparativoRangoCard comparativo={comparativo} />
+ * ```
+ */
+export const ComparativoRangoCard: React.FC<ComparativoRangoCardProps> = ({ comparativo }) => {
+  const { actual, comparacion, deltas } = comparativo;
+
+  const filas = [
+    { label: 'Con detenido', actual: actual.totalConDetenido, comparacion: comparacion.totalConDetenido, delta: deltas.conDetenido },
+    { label: 'Sin detenido', actual: actual.totalSinDetenido, comparacion: comparacion.totalSinDetenido, delta: deltas.sinDetenido },
+    { label: 'Total', actual: actual.total, comparacion: comparacion.total, delta: deltas.total },
+    { label: 'Promedio diario', actual: actual.promedioDiario, comparacion: comparacion.promedioDiario, delta: deltas.promedioDiario }
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm font-poppins">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+            <th className="py-2 pr-4 font-semibold">Indicador</th>
+            <th className="py-2 pr-4 font-semibold">
+              {formatearRango(actual.rango)}
+              <span className="block font-normal">{actual.dias} días</span>
+            </th>
+            <th className="py-2 pr-4 font-semibold">
+              {formatearRango(comparacion.rango)}
+              <span className="block font-normal">{comparacion.dias} días</span>
+            </th>
+            <th className="py-2 font-semibold">Variación</th>
+          </tr>
+        </thead>
+        <tbody>
+          {filas.map(fila => (
+            <tr key={fila.label} className="border-b border-gray-100 last:border-0">
+              <td className="py-3 pr-4 font-semibold text-gray-600">{fila.label}</td>
+              <td className="py-3 pr-4 text-lg font-bold text-[#4d4725]">{formatearNumero(fila.actual)}</td>
+              <td className="py-3 pr-4 text-gray-700">{formatearNumero(fila.comparacion)}</td>
+              <td className="py-3">
+                <Delta valor={fila.delta} base={fila.comparacion} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ComparativoRangoCard;
@@ -2,6 +2,8 @@ import React, { memo, useMemo, useState, useRef, useEffect } from 'react';
 import { Bar } from "react-chartjs-2";
 import { AlertCircle, BarChart3, Calendar, ChevronDown } from 'lucide-react';
 import type { IResumenPorMes } from '../../../../../../interfaces/statistics/statistics.interface';
+import { construirDatosTendencia, crearTooltipTendencia, type TendenciaGrafica } from '../../utils';
+import TendenciaLeyenda from './TendenciaLeyenda';
 
 // Chart.js se registra centralizadamente en chart.config.ts
 import '../../../../../../config/chart.config';
@@ -15,6 +17,8 @@ interface GraficaCardProps {
   loading?: boolean;
   error?: string | null;
   className?: string;
+  /** Pronóstico de los próximos meses y meses atípicos (useTendenciaMensual) */
+  tendencia?: TendenciaGrafica | null;
 }
 
 const GraficaCard: React.FC<GraficaCardProps> = ({
@@ -24,7 +28,8 @@ const GraficaCard: React.FC<GraficaCardProps> = ({
   setAnioSeleccionado,
   loading = false,
   error = null,
-  className = ''
+  className = '',
+  tendencia = null
 }) => {
   // Generar años disponibles dinámicamente
   const availableYears = useMemo(() => {
@@ -46,6 +51,12 @@ const GraficaCard: React.FC<GraficaCardProps> = ({
            data.datasets.length > 0;
   }, [data]);
 
+  // Datos con meses proyectados y meses atípicos resaltados
+  const chartData = useMemo(
+    () => (data ? construirDatosTendencia(data, tendencia) : null),
+    [data, tendencia]
+  );
+
   // Opciones del gráfico mejoradas
   const chartOptions = useMemo(() => ({
     responsive: true,
@@ -61,7 +72,8 @@ const GraficaCard: React.FC<GraficaCardProps> = ({
         borderColor: '#374151',
         borderWidth: 1,
         cornerRadius: 8,
-        padding: 12
+        padding: 12,
+        callbacks: crearTooltipTendencia(tendencia)
       },
       datalabels: {
         anchor: 'center' as const,
@@ -98,7 +110,7 @@ const GraficaCard: React.FC<GraficaCardProps> = ({
         }
       }
     }
-  }), []);
+  }), [tendencia]);
 
   // Estados para el componente híbrido
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
@@ -162,7 +174,7 @@ const GraficaCard: React.FC<GraficaCardProps> = ({
   };
 
   return (
-    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden ${className}`}>
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden ${className}`} data-export-title={titulo}>
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
         <div className="flex items-center gap-2">
@@ -282,7 +294,7 @@ const GraficaCard: React.FC<GraficaCardProps> = ({
         ) : (
           <div className="h-64">
             <Bar
-              data={data!}
+              data={chartData!}
               options={chartOptions}
             />
           </div>
@@ -300,6 +312,7 @@ const GraficaCard: React.FC<GraficaCardProps> = ({
               {data?.datasets[0]?.data?.reduce((a, b) => a + b, 0) || 0} registros totales
             </span>
           </div>
+          <TendenciaLeyenda tendencia={tendencia} periodo="meses" />
         </div>
       )}
     </div>
@@ -314,6 +327,7 @@ export default memo(GraficaCard, (prevProps, nextProps) => {
     prevProps.loading === nextProps.loading &&
     prevProps.error === nextProps.error &&
     prevProps.data === nextProps.data &&
-    prevProps.className === nextProps.className
+    prevProps.className === nextProps.className &&
+    prevProps.tendencia === nextProps.tendencia
   );
 });
\ No newline at end of file
@@ -1,8 +1,11 @@
 import React, { memo, useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { Bar } from "react-chartjs-2";
 import DatePicker, { registerLocale } from 'react-datepicker';
-import { CalendarDays, AlertCircle, BarChart3, X } from 'lucide-react';
+import { CalendarDays, AlertCircle, BarChart3, X, TrendingUp } from 'lucide-react';
 import type {IResumenPorSemana} from '../../../../../../interfaces/statistics/statistics.interface';
+import { construirDatosTendencia, crearTooltipTendencia, type TendenciaGrafica } from '../../utils';
+import type { TendenciaSemanas } from '../../hooks/useTendenciaSemanal';
+import TendenciaLeyenda from './TendenciaLeyenda';
 
 // Importar estilos CSS de react-datepicker
 import 'react-datepicker/dist/react-datepicker.css';
@@ -204,6 +207,10 @@ interface GraficaSemanaCardProps {
   className?: string;
   onDateRangeChange?: (startDate: Date, endDate: Date) => void;
   availableRanges?: ApiWeekRange[]; // Nuevos rangos disponibles de la API
+  /** Días atípicos de la semana mostrada (useTendenciaSemanal) */
+  tendencia?: TendenciaGrafica | null;
+  /** Totales semanales con pronóstico de 4 semanas (useTendenciaSemanal) */
+  tendenciaSemanas?: TendenciaSemanas | null;
 }
 
 const GraficaSemanaCard: React.FC<GraficaSemanaCardProps> = ({
@@ -215,13 +222,16 @@ const GraficaSemanaCard: React.FC<GraficaSemanaCardProps> = ({
   error = null,
   className = '',
   onDateRangeChange,
-  availableRanges = []
+  availableRanges = [],
+  tendencia = null,
+  tendenciaSemanas = null
 }) => {
   // Estados para el calendario
   const [startDate, setStartDate] = useState<Date | null>(null);
   const [endDate, setEndDate] = useState<Date | null>(null);
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [previewRange, setPreviewRange] = useState<ApiWeekRange | null>(null);
+  const [mostrarTendencia, setMostrarTendencia] = useState(false);
   const calendarRef = useRef<HTMLDivElement>(null);
 
   // 🐛 FIX: Helper para crear fechas en hora local y evitar problemas de zona horaria
@@ -304,6 +314,19 @@ const GraficaSemanaCard: React.FC<GraficaSemanaCardProps> = ({
            data.datasets.length > 0;
   }, [data]);
 
+  // Vista por día (con días atípicos) o tendencia de las últimas semanas
+  const vistaTendencia = mostrarTendencia && tendenciaSemanas !== null;
+  const tendenciaActiva = vistaTendencia ? tendenciaSemanas.tendencia : tendencia;
+  const chartData = useMemo(() => {
+    if (vistaTendencia) {
+      return construirDatosTendencia({
+        labels: tendenciaSemanas.etiquetas,
+        datasets: [{ label: 'IPH por semana', data: tendenciaSemanas.valores, backgroundColor: '#948b54' }]
+      }, tendenciaSemanas.tendencia);
+    }
+    return data ? construirDatosTendencia(data, tendencia) : null;
+  }, [vistaTendencia, tendenciaSemanas, data, tendencia]);
+
   // Opciones del gráfico mejoradas
   const chartOptions = useMemo(() => ({
     responsive: true,
@@ -319,7 +342,8 @@ const GraficaSemanaCard: React.FC<GraficaSemanaCardProps> = ({
         borderColor: '#374151',
         borderWidth: 1,
         cornerRadius: 8,
-        padding: 12
+        padding: 12,
+        callbacks: crearTooltipTendencia(tendenciaActiva)
       },
       datalabels: {
         anchor: 'center' as const,
@@ -356,7 +380,7 @@ const GraficaSemanaCard: React.FC<GraficaSemanaCardProps> = ({
         }
       }
     }
-  }), []);
+  }), [tendenciaActiva]);
 
   // Función para generar rangos válidos de la API (alineado con offsets de la API)
   const generateApiRanges = useCallback((): ApiWeekRange[] => {
@@ -588,7 +612,7 @@ const GraficaSemanaCard: React.FC<GraficaSemanaCardProps> = ({
   }, [isCalendarOpen, findValidRange]);
 
   return (
-    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden ${className}`}>
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden ${className}`} data-export-title={titulo}>
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
         <div className="flex items-center gap-2">
@@ -797,7 +821,7 @@ const GraficaSemanaCard: React.FC<GraficaSemanaCardProps> = ({
         ) : (
           <div className="h-64">
             <Bar
-              data={data!}
+              data={chartData!}
               options={chartOptions}
             />
           </div>
@@ -809,12 +833,28 @@ const GraficaSemanaCard: React.FC<GraficaSemanaCardProps> = ({
         <div className="px-4 py-3 bg-gray-50 border-t border-gray-200">
           <div className="flex items-center justify-between text-sm text-gray-600 font-poppins">
             <span>
-              Semana del {data?.semana_inicio} al {data?.semana_fin}
+              {vistaTendencia
+                ? `Últimas ${tendenciaSemanas.valores.length} semanas cerradas`
+                : `Semana del ${data?.semana_inicio} al ${data?.semana_fin}`}
             </span>
+            {tendenciaSemanas && (
+              <button
+                type="button"
+                onClick={() => setMostrarTendencia(prev => !prev)}
+                className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-100 transition-colors duration-200 cursor-pointer"
+                aria-pressed={mostrarTendencia}
+              >
+                {mostrarTendencia ? <BarChart3 className="h-3.5 w-3.5" /> : <TrendingUp className="h-3.5 w-3.5" />}
+                {mostrarTendencia ? 'Ver días' : 'Tendencia 4 semanas'}
+              </button>
+            )}
             <span>
-              {data?.datasets[0]?.data?.reduce((a, b) => a + b, 0) || 0} registros totales
+              {vistaTendencia
+                ? tendenciaSemanas.valores.reduce((a, b) => a + b, 0)
+                : data?.datasets[0]?.data?.reduce((a, b) => a + b, 0) || 0} registros totales
             </span>
           </div>
+          <TendenciaLeyenda tendencia={tendenciaActiva} periodo={vistaTendencia ? 'semanas' : 'días'} />
         </div>
       )}
     </div>
@@ -832,6 +872,8 @@ export default memo(GraficaSemanaCard, (prevProps, nextProps) => {
     prevProps.className === nextProps.className &&
     prevProps.setSemanaOffset === nextProps.setSemanaOffset &&
     prevProps.onDateRangeChange === nextProps.onDateRangeChange &&
+    prevProps.tendencia === nextProps.tendencia &&
+    prevProps.tendenciaSemanas === nextProps.tendenciaSemanas &&
     // Comparar availableRanges por longitud y contenido (shallow comparison)
     prevProps.availableRanges?.length === nextProps.availableRanges?.length &&
     JSON.stringify(prevProps.availableRanges) === JSON.stringify(nextProps.availableRanges)
@@ -0,0 +1,68 @@
+/**
+ * Leyenda de pronóstico y valores atípicos para las gráficas de IPH
+ * Resume la proyección y cuántos periodos quedaron marcados
+ *
+ * @module TendenciaLeyenda
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { TrendingUp, AlertTriangle } from 'lucide-react';
+import { TENDENCIA_COLORS } from '../../config/colorsConfig';
+import { formatearNumero, type TendenciaGrafica } from '../../utils';
+
+export interface TendenciaLeyendaProps {
+  tendencia: TendenciaGrafica | null;
+  /** Unidad de los periodos, en plural ("meses", "semanas", "días") */
+  periodo: string;
+}
+
+const Muestra: React.FC<{ color: string; borde?: string }> = ({ color, borde }) => (
+  <span
+    className="inline-block h-3 w-3 rounded-sm"
+    style={{ backgroundColor: color, border: borde ? `1px solid ${borde}` : undefined }}
+  />
+);
+
+/**
+ * Leyenda compacta bajo la gráfica (no se muestra si no hay nada que explicar)
+ *
+ * @example
+ * ```tsx
+ * <TendenciaLeyenda tendencia={tendencia} periodo="meses" />
+ * ```
+ */
+export const TendenciaLeyenda: React.FC<TendenciaLeyendaProps> = ({ tendencia, periodo }) => {
+  if (!tendencia || (tendencia.pronostico.length === 0 && tendencia.anomalias.length === 0)) {
+    return null;
+  }
+
+  const { pronostico, anomalias } = tendencia;
+  const estimado = pronostico.reduce((suma, punto) => suma + punto.valor, 0);
+  const inferior = pronostico.reduce((suma, punto) => suma + punto.inferior, 0);
+  const superior = pronostico.reduce((suma, punto) => suma + punto.superior, 0);
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600 font-poppins">
+      {pronostico.length > 0 && (
+        <span className="inline-flex items-center gap-1.5" title="Media móvil combinada con el mismo periodo anterior">
+          <Muestra color={TENDENCIA_COLORS.pronostico} borde={TENDENCIA_COLORS.pronosticoBorde} />
+          <Muestra color={TENDENCIA_COLORS.banda} />
+          <TrendingUp className="h-3.5 w-3.5 text-[#948b54]" />
+          Próximos {pronostico.length} {periodo}: ≈ {formatearNumero(Math.round(estimado))}
+          {' '}({formatearNumero(Math.round(inferior))} – {formatearNumero(Math.round(superior))})
+        </span>
+      )}
+      {anomalias.length > 0 && (
+        <span className="inline-flex items-center gap-1.5">
+          <Muestra color={TENDENCIA_COLORS.anomaliaAlza} />
+          <Muestra color={TENDENCIA_COLORS.anomaliaBaja} />
+          <AlertTriangle className="h-3.5 w-3.5 text-amber-600" />
+          {anomalias.length} {anomalias.length === 1 ? 'valor atípico' : 'valores atípicos'}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default TendenciaLeyenda;
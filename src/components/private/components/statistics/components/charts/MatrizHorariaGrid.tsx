@@ -0,0 +1,119 @@
+/**
+ * Componente de matriz día de la semana × hora
+ * Cuadrícula 7×24 con intensidad proporcional al número de IPH
+ * Cada celda es seleccionable para ver sus IPH
+ */
+
+import React from 'react';
+import {
+  DIAS_MATRIZ,
+  HORAS_MATRIZ,
+  formatearFranjaHoraria,
+  formatearNumero,
+  type MatrizHoraria
+} from '../../utils';
+
+interface MatrizHorariaGridProps {
+  matriz: MatrizHoraria;
+  /** Celda seleccionada (resaltada) */
+  seleccion: { dia: number; hora: number } | null;
+  onSeleccionar: (celda: { dia: number; hora: number }) => void;
+}
+
+/** Extremos de la escala: sin IPH → máximo del periodo */
+const COLOR_MIN = [0xfd, 0xf7, 0xf1];
+const COLOR_MAX = [0x4d, 0x47, 0x25];
+
+const colorCelda = (valor: number, maximo: number): string => {
+  if (valor === 0 || maximo === 0) return '#ffffff';
+  // Raíz cuadrada para que las celdas bajas sigan siendo distinguibles
+  const t = Math.sqrt(valor / maximo);
+  const [r, g, b] = COLOR_MIN.map((inicio, canal) => Math.round(inicio + (COLOR_MAX[canal] - inicio) * t));
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+const HORAS = Array.from({ length: HORAS_MATRIZ }, (_, hora) => hora);
+
+/**
+ * Matriz horaria
+ *
+ * @example
+ * ```tsx
+ * <MatrizHorariaGrid matriz={matriz} seleccion={celda} onSeleccionar={setCelda} />
+ * ```
+ */
+export const MatrizHorariaGrid: React.FC<MatrizHorariaGridProps> = ({ matriz, seleccion, onSeleccionar }) => (
+  <div className="overflow-x-auto font-poppins" data-component="matriz-horaria-grid">
+    <table className="border-separate border-spacing-0.5 text-xs">
+      <thead>
+        <tr>
+          <th className="sticky left-0 bg-white" />
+          {HORAS.map(hora => (
+            <th key={hora} scope="col" className="w-8 min-w-8 font-medium text-gray-500 text-center">
+              {String(hora).padStart(2, '0')}
+            </th>
+          ))}
+          <th scope="col" className="px-2 font-semibold text-[#4d4725] text-right">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        {DIAS_MATRIZ.map((nombreDia, dia) => (
+          <tr key={nombreDia}>
+            <th scope="row" className="sticky left-0 bg-white pr-2 text-left font-medium text-gray-700 whitespace-nowrap">
+              {nombreDia}
+            </th>
+            {HORAS.map(hora => {
+              const valor = matriz.celdas[dia][hora];
+              const activa = seleccion?.dia === dia && seleccion.hora === hora;
+              const oscura = matriz.maximo > 0 && valor / matriz.maximo > 0.45;
+              return (
+                <td key={hora} className="p-0">
+                  <button
+                    type="button"
+                    onClick={() => onSeleccionar({ dia, hora })}
+                    disabled={valor === 0}
+                    title={`${nombreDia} ${formatearFranjaHoraria(hora)}: ${formatearNumero(valor)} IPH`}
+                    aria-label={`${nombreDia} ${formatearFranjaHoraria(hora)}: ${valor} IPH`}
+                    aria-pressed={activa}
+                    className={`h-8 w-8 rounded border text-[10px] transition-transform ${
+                      activa ? 'border-[#948b54] ring-2 ring-[#948b54]' : 'border-gray-100'
+                    } ${valor > 0 ? 'cursor-pointer hover:scale-110' : 'cursor-default'} ${
+                      oscura ? 'text-white' : 'text-[#4d4725]'
+                    }`}
+                    style={{ backgroundColor: colorCelda(valor, matriz.maximo) }}
+                  >
+                    {valor > 0 ? valor : ''}
+                  </button>
+                </td>
+              );
+            })}
+            <td className="px-2 text-right font-semibold text-[#4d4725]">
+              {formatearNumero(matriz.totalesDia[dia])}
+            </td>
+          </tr>
+        ))}
+        <tr>
+          <th scope="row" className="sticky left-0 bg-white pr-2 text-left font-semibold text-[#4d4725]">Total</th>
+          {HORAS.map(hora => (
+            <td key={hora} className="text-center font-semibold text-[#4d4725]">
+              {matriz.totalesHora[hora] > 0 ? formatearNumero(matriz.totalesHora[hora]) : ''}
+            </td>
+          ))}
+          <td className="px-2 text-right font-bold text-[#4d4725]">{formatearNumero(matriz.total)}</td>
+        </tr>
+      </tbody>
+    </table>
+
+    {/* Escala */}
+    <div className="flex items-center gap-2 mt-3 text-xs text-gray-500">
+      <span>0</span>
+      <span
+        className="h-2 w-32 rounded"
+        style={{ background: `linear-gradient(to right, ${colorCelda(1, 1000)}, ${colorCelda(1, 1)})` }}
+      />
+      <span>{formatearNumero(matriz.maximo)}</span>
+    </div>
+  </div>
+);
+
+export default MatrizHorariaGrid;
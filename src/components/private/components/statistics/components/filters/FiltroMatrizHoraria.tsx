@@ -0,0 +1,185 @@
+/**
+ * Componente de filtros para la matriz horaria
+ * Rango de fechas (consulta al backend) y tipo/detenido (filtran en el cliente)
+ *
+ * @optimized Usa React.memo y useCallback para evitar re-renders innecesarios
+ */
+
+import React, { useCallback } from 'react';
+import { Filter, Loader2, X } from 'lucide-react';
+import {
+  contarDiasRango,
+  formatearFechaInput,
+  parsearFechaInput,
+  type FiltrosMatrizHoraria,
+  type RangoFechas
+} from '../../utils';
+import type { FuenteFechaMatriz, ProgresoMatrizHoraria } from '../../services/matriz-horaria.service';
+
+interface FiltroMatrizHorariaProps {
+  rango: RangoFechas;
+  fuenteFecha: FuenteFechaMatriz;
+  filtros: FiltrosMatrizHoraria;
+  onRangoChange: (rango: RangoFechas) => void;
+  onFuenteFechaChange: (fuente: FuenteFechaMatriz) => void;
+  onFiltrosChange: (filtros: FiltrosMatrizHoraria) => void;
+  /** Ejecuta la consulta */
+  onConsultar: () => void;
+  /** Cancela la consulta en curso */
+  onCancelar: () => void;
+  /** Las opciones elegidas requieren descargar el detalle de cada IPH */
+  requiereDetalle: boolean;
+  /** Indica si está cargando */
+  loading?: boolean;
+  /** Avance de la consulta */
+  progreso?: ProgresoMatrizHoraria | null;
+}
+
+const TIPOS: Array<{ value: FiltrosMatrizHoraria['tipo']; label: string }> = [
+  { value: 'todos', label: 'Todos los tipos' },
+  { value: 'justicia-civica', label: 'Justicia Cívica' },
+  { value: 'probable-delictivo', label: 'Probable Delictivo' }
+];
+
+const DETENIDOS: Array<{ value: FiltrosMatrizHoraria['detenido']; label: string }> = [
+  { value: 'todos', label: 'Con y sin detenido' },
+  { value: 'con', label: 'Con detenido' },
+  { value: 'sin', label: 'Sin detenido' }
+];
+
+const FUENTES: Array<{ value: FuenteFechaMatriz; label: string }> = [
+  { value: 'creacion', label: 'Hora de captura del IPH' },
+  { value: 'conocimiento', label: 'Hora de conocimiento del hecho' }
+];
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-poppins focus:outline-none focus:ring-2 focus:ring-[#c2b186] disabled:bg-gray-100';
+
+/**
+ * Filtros de la matriz horaria
+ */
+const FiltroMatrizHorariaComponent: React.FC<FiltroMatrizHorariaProps> = ({
+  rango,
+  fuenteFecha,
+  filtros,
+  onRangoChange,
+  onFuenteFechaChange,
+  onFiltrosChange,
+  onConsultar,
+  onCancelar,
+  requiereDetalle,
+  loading = false,
+  progreso = null
+}) => {
+  const hoy = formatearFechaInput(new Date());
+
+  const handleFecha = useCallback((campo: keyof RangoFechas, valor: string) => {
+    if (!valor) return;
+    onRangoChange({ ...rango, [campo]: parsearFechaInput(valor) });
+  }, [rango, onRangoChange]);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6 font-poppins" data-component="filtro-matriz-horaria">
+      <h3 className="text-lg font-semibold text-[#4d4725] mb-4 flex items-center gap-2">
+        <Filter className="h-5 w-5 text-[#c2b186]" />
+        Filtros
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <label className="text-xs text-gray-600">
+          Desde
+          <input
+            type="date"
+            value={formatearFechaInput(rango.desde)}
+            max={hoy}
+            onChange={event => handleFecha('desde', event.target.value)}
+            disabled={loading}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Hasta
+          <input
+            type="date"
+            value={formatearFechaInput(rango.hasta)}
+            max={hoy}
+            onChange={event => handleFecha('hasta', event.target.value)}
+            disabled={loading}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Tipo de IPH
+          <select
+            value={filtros.tipo}
+            onChange={event => onFiltrosChange({ ...filtros, tipo: event.target.value as FiltrosMatrizHoraria['tipo'] })}
+            className={inputClass}
+          >
+            {TIPOS.map(tipo => (
+              <option key={tipo.value} value={tipo.value}>{tipo.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Detenido
+          <select
+            value={filtros.detenido}
+            onChange={event => onFiltrosChange({ ...filtros, detenido: event.target.value as FiltrosMatrizHoraria['detenido'] })}
+            className={inputClass}
+          >
+            {DETENIDOS.map(detenido => (
+              <option key={detenido.value} value={detenido.value}>{detenido.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mt-4">
+        <label className="text-xs text-gray-600 md:w-72">
+          Ubicar cada IPH por
+          <select
+            value={fuenteFecha}
+            onChange={event => onFuenteFechaChange(event.target.value as FuenteFechaMatriz)}
+            disabled={loading}
+            className={inputClass}
+          >
+            {FUENTES.map(fuente => (
+              <option key={fuente.value} value={fuente.value}>{fuente.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex items-center justify-end gap-3">
+          <span className="text-xs text-gray-500">
+            {loading && progreso
+              ? `${progreso.etapa === 'listado' ? 'Listado' : 'Detalle de IPH'}: ${progreso.processed} de ${progreso.total}...`
+              : `${contarDiasRango(rango)} días${requiereDetalle ? ' · se consultará el detalle de cada IPH' : ''}`}
+          </span>
+          {loading && (
+            <button
+              type="button"
+              onClick={onCancelar}
+              className="inline-flex items-center gap-1 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors cursor-pointer"
+            >
+              <X className="h-4 w-4" />
+              Cancelar
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onConsultar}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-[#4d4725] text-white rounded-lg text-sm font-semibold hover:bg-[#3a3519] transition-colors cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+            Consultar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Memoizar el componente para evitar re-renders innecesarios
+export const FiltroMatrizHoraria = React.memo(FiltroMatrizHorariaComponent);
+
+export default FiltroMatrizHoraria;
@@ -0,0 +1,212 @@
+/**
+ * Componente de filtros por rango de fechas con periodo de comparación
+ * Complementa a FiltroFechaJC (día/mes/año fijos) con intervalos arbitrarios
+ *
+ * @optimized Usa React.memo y useCallback para evitar re-renders innecesarios
+ */
+
+import React, { useCallback, useMemo } from 'react';
+import { GitCompareArrows, Loader2 } from 'lucide-react';
+import {
+  contarDiasRango,
+  formatearFechaInput,
+  formatearRango,
+  parsearFechaInput,
+  type ModoComparacion,
+  type RangoFechas
+} from '../../utils';
+
+interface FiltroRangoFechasProps {
+  /** Rango principal */
+  rango: RangoFechas;
+  /** Modo de comparación */
+  modoComparacion: ModoComparacion;
+  /** Rango de comparación vigente (calculado o personalizado) */
+  rangoComparacion: RangoFechas;
+  onRangoChange: (rango: RangoFechas) => void;
+  onModoComparacionChange: (modo: ModoComparacion) => void;
+  onRangoComparacionChange: (rango: RangoFechas) => void;
+  /** Ejecuta la consulta */
+  onConsultar: () => void;
+  /** Indica si está cargando */
+  loading?: boolean;
+  /** Avance de las consultas al backend */
+  progreso?: { processed: number; total: number } | null;
+}
+
+const MODOS: Array<{ value: ModoComparacion; label: string }> = [
+  { value: 'anio-anterior', label: 'Mismas fechas del año anterior' },
+  { value: 'periodo-anterior', label: 'Periodo inmediato anterior' },
+  { value: 'personalizado', label: 'Rango personalizado' }
+];
+
+/**
+ * Atajos de rango más usados por el mando
+ */
+const crearAtajos = (): Array<{ label: string; rango: RangoFechas }> => {
+  const hoy = new Date();
+  const anio = hoy.getFullYear();
+  const mes = hoy.getMonth();
+  const dia = hoy.getDate();
+  return [
+    { label: 'Últimos 7 días', rango: { desde: new Date(anio, mes, dia - 6), hasta: new Date(anio, mes, dia) } },
+    { label: 'Últimos 30 días', rango: { desde: new Date(anio, mes, dia - 29), hasta: new Date(anio, mes, dia) } },
+    { label: 'Mes en curso', rango: { desde: new Date(anio, mes, 1), hasta: new Date(anio, mes, dia) } },
+    { label: 'Año a la fecha', rango: { desde: new Date(anio, 0, 1), hasta: new Date(anio, mes, dia) } }
+  ];
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-poppins focus:outline-none focus:ring-2 focus:ring-[#c2b186] disabled:bg-gray-100';
+
+/**
+ * Filtros por rango de fechas
+ */
+const FiltroRangoFechasComponent: React.FC<FiltroRangoFechasProps> = ({
+  rango,
+  modoComparacion,
+  rangoComparacion,
+  onRangoChange,
+  onModoComparacionChange,
+  onRangoComparacionChange,
+  onConsultar,
+  loading = false,
+  progreso = null
+}) => {
+  const atajos = useMemo(crearAtajos, []);
+  const hoy = formatearFechaInput(new Date());
+
+  const handleFecha = useCallback((
+    actual: RangoFechas,
+    campo: keyof RangoFechas,
+    valor: string,
+    onChange: (rango: RangoFechas) => void
+  ) => {
+    if (!valor) return;
+    onChange({ ...actual, [campo]: parsearFechaInput(valor) });
+  }, []);
+
+  const personalizado = modoComparacion === 'personalizado';
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6 font-poppins" data-component="filtro-rango-fechas">
+      <h3 className="text-lg font-semibold text-[#4d4725] mb-4 flex items-center gap-2">
+        <GitCompareArrows className="h-5 w-5 text-[#c2b186]" />
+        Comparar rangos de fechas
+      </h3>
+
+      {/* Atajos */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {atajos.map(atajo => (
+          <button
+            key={atajo.label}
+            type="button"
+            onClick={() => onRangoChange(atajo.rango)}
+            disabled={loading}
+            className="px-3 py-1 text-xs rounded-full border border-[#c2b186] text-[#4d4725] hover:bg-[#fdf7f1] transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {atajo.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Rango principal */}
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-semibold text-gray-700 mb-2">Rango a analizar</legend>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-gray-600">
+              Desde
+              <input
+                type="date"
+                value={formatearFechaInput(rango.desde)}
+                max={hoy}
+                onChange={event => handleFecha(rango, 'desde', event.target.value, onRangoChange)}
+                disabled={loading}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Hasta
+              <input
+                type="date"
+                value={formatearFechaInput(rango.hasta)}
+                max={hoy}
+                onChange={event => handleFecha(rango, 'hasta', event.target.value, onRangoChange)}
+                disabled={loading}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">{contarDiasRango(rango)} días</p>
+        </fieldset>
+
+        {/* Rango de comparación */}
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-semibold text-gray-700 mb-2">Comparar contra</legend>
+          <select
+            value={modoComparacion}
+            onChange={event => onModoComparacionChange(event.target.value as ModoComparacion)}
+            disabled={loading}
+            className={inputClass}
+            aria-label="Modo de comparación"
+          >
+            {MODOS.map(modo => (
+              <option key={modo.value} value={modo.value}>{modo.label}</option>
+            ))}
+          </select>
+
+          {personalizado ? (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-600">
+                Desde
+                <input
+                  type="date"
+                  value={formatearFechaInput(rangoComparacion.desde)}
+                  max={hoy}
+                  onChange={event => handleFecha(rangoComparacion, 'desde', event.target.value, onRangoComparacionChange)}
+                  disabled={loading}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Hasta
+                <input
+                  type="date"
+                  value={formatearFechaInput(rangoComparacion.hasta)}
+                  max={hoy}
+                  onChange={event => handleFecha(rangoComparacion, 'hasta', event.target.value, onRangoComparacionChange)}
+                  disabled={loading}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">{formatearRango(rangoComparacion)}</p>
+          )}
+        </fieldset>
+      </div>
+
+      <div className="flex items-center justify-end gap-3 mt-4">
+        {loading && progreso && (
+          <span className="text-xs text-gray-500">
+            Consultando {progreso.processed} de {progreso.total}...
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={onConsultar}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-[#4d4725] text-white rounded-lg text-sm font-semibold hover:bg-[#3a3519] transition-colors cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+          Comparar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Memoizar el componente para evitar re-renders innecesarios
+export const FiltroRangoFechas = React.memo(FiltroRangoFechasComponent);
+
+export default FiltroRangoFechas;
@@ -0,0 +1,51 @@
+/**
+ * Componente compartido para exportar la vista de estadísticas
+ * Descarga un ZIP con las gráficas (PNG), sus datos (CSV) y un resumen en PDF
+ *
+ * @module ExportarVistaButton
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { Download, Loader2 } from 'lucide-react';
+
+export interface ExportarVistaButtonProps {
+  /** Handler al hacer click en exportar */
+  onClick: () => void;
+  /** Exportación en curso */
+  exportando?: boolean;
+  /** Estado deshabilitado del botón */
+  disabled?: boolean;
+}
+
+/**
+ * Botón de exportar vista
+ *
+ * @example
+ * ```tsx
+ * <ExportarVistaButton onClick={exportar} exportando={exportando} />
+ * ```
+ */
+export const ExportarVistaButton: React.FC<ExportarVistaButtonProps> = ({
+  onClick,
+  exportando = false,
+  disabled = false
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled || exportando}
+    title="Descargar gráficas (PNG), datos (CSV) y resumen (PDF) en un ZIP"
+    className="
+      flex items-center gap-2 px-4 py-2 text-sm font-medium
+      text-[#4d4725] bg-white border border-[#c2b186] rounded-lg
+      hover:bg-[#fdf7f1] disabled:opacity-50 disabled:cursor-not-allowed
+      transition-colors duration-200 font-poppins cursor-pointer
+    "
+  >
+    {exportando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+    {exportando ? 'Exportando...' : 'Exportar vista'}
+  </button>
+);
+
+export default ExportarVistaButton;
@@ -5,3 +5,4 @@
 export { default as Pagination } from './Pagination';
 export { ErrorMessage, type ErrorMessageProps } from './ErrorMessage';
 export { RefreshButton, type RefreshButtonProps } from './RefreshButton';
+export { ExportarVistaButton, type ExportarVistaButtonProps } from './ExportarVistaButton';
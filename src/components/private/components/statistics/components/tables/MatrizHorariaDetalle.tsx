@@ -0,0 +1,130 @@
+/**
+ * Componente de detalle de una celda de la matriz horaria
+ * Lista los IPH de la franja con enlace al Histórico IPH filtrado a esos IPH
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ExternalLink, X } from 'lucide-react';
+import { MAX_HISTORIAL_IDS_FILTER } from '../../../historial-iph/services/export-historial-iph.service';
+import {
+  DIAS_MATRIZ,
+  formatearFechaInput,
+  formatearFranjaHoraria,
+  type EventoHorario,
+  type RangoFechas
+} from '../../utils';
+
+interface MatrizHorariaDetalleProps {
+  dia: number;
+  hora: number;
+  eventos: EventoHorario[];
+  /** Rango de fecha de captura consultado para la matriz */
+  rangoListado: RangoFechas;
+  onCerrar: () => void;
+}
+
+const ETIQUETAS_TIPO: Record<NonNullable<EventoHorario['tipo']>, string> = {
+  'justicia-civica': 'Justicia Cívica',
+  'probable-delictivo': 'Probable Delictivo'
+};
+
+const rutaHistorial = (referencia: string): string =>
+  `/historialiph?${new URLSearchParams({ busqueda: referencia, busquedaPor: 'n_referencia' }).toString()}`;
+
+/**
+ * Histórico IPH con el rango consultado y solo los IPH de la celda
+ */
+const rutaHistorialCelda = (eventos: EventoHorario[], rango: RangoFechas): string =>
+  `/historialiph?${new URLSearchParams({
+    fechaInicio: formatearFechaInput(rango.desde),
+    fechaFin: formatearFechaInput(rango.hasta),
+    ids: eventos.map(evento => evento.id).join(',')
+  }).toString()}`;
+
+const etiquetaDetenido = (conDetenido: boolean | null): string => {
+  if (conDetenido === null) return '—';
+  return conDetenido ? 'Con detenido' : 'Sin detenido';
+};
+
+/**
+ * Detalle de la celda seleccionada
+ */
+export const MatrizHorariaDetalle: React.FC<MatrizHorariaDetalleProps> = ({
+  dia,
+  hora,
+  eventos,
+  rangoListado,
+  onCerrar
+}) => (
+  <div className="bg-white rounded-xl border border-gray-200 p-6 font-poppins" data-component="matriz-horaria-detalle">
+    <div className="flex items-start justify-between gap-4 mb-4">
+      <div>
+        <h3 className="text-lg font-semibold text-[#4d4725]">
+          {DIAS_MATRIZ[dia]} · {formatearFranjaHoraria(hora)}
+        </h3>
+        <p className="text-sm text-gray-600">{eventos.length} IPH en esta franja</p>
+      </div>
+      <div className="flex items-center gap-3">
+        {eventos.length > 0 && eventos.length <= MAX_HISTORIAL_IDS_FILTER ? (
+          <Link
+            to={rutaHistorialCelda(eventos, rangoListado)}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-semibold text-white bg-[#948b54] hover:bg-[#4d4725] rounded-lg transition-colors whitespace-nowrap"
+          >
+            Ver estos IPH en Histórico
+            <ExternalLink className="h-4 w-4" />
+          </Link>
+        ) : eventos.length > MAX_HISTORIAL_IDS_FILTER && (
+          <span className="text-xs text-gray-500">
+            Más de {MAX_HISTORIAL_IDS_FILTER} IPH: consúltelos desde la lista
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={onCerrar}
+          className="p-1 text-gray-500 hover:text-[#4d4725] rounded cursor-pointer"
+          aria-label="Cerrar detalle"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+
+    <div className="overflow-x-auto max-h-96">
+      <table className="min-w-full text-sm">
+        <thead className="sticky top-0 bg-[#fdf7f1]">
+          <tr className="text-left text-[#4d4725]">
+            <th className="px-3 py-2 font-semibold">Referencia</th>
+            <th className="px-3 py-2 font-semibold">Fecha</th>
+            <th className="px-3 py-2 font-semibold">Tipo</th>
+            <th className="px-3 py-2 font-semibold">Detenido</th>
+            <th className="px-3 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {eventos.map(evento => (
+            <tr key={evento.id} className="hover:bg-[#fdf7f1]/60">
+              <td className="px-3 py-2 font-medium text-gray-800">{evento.referencia}</td>
+              <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                {evento.fecha.toLocaleString('es-MX', { dateStyle: 'medium', timeStyle: 'short' })}
+              </td>
+              <td className="px-3 py-2 text-gray-600">{evento.tipo ? ETIQUETAS_TIPO[evento.tipo] : '—'}</td>
+              <td className="px-3 py-2 text-gray-600">{etiquetaDetenido(evento.conDetenido)}</td>
+              <td className="px-3 py-2 text-right">
+                <Link
+                  to={rutaHistorial(evento.referencia)}
+                  className="inline-flex items-center gap-1 text-xs font-semibold text-[#948b54] hover:text-[#4d4725] whitespace-nowrap"
+                >
+                  Ver en Histórico
+                  <ExternalLink className="h-3.5 w-3.5" />
+                </Link>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default MatrizHorariaDetalle;
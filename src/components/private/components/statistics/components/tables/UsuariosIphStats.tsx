@@ -3,6 +3,7 @@ import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Toolti
 import ChartDataLabels from 'chartjs-plugin-datalabels';
 import { Bar, Doughnut } from 'react-chartjs-2';
 import { estadisticasUsuarioIphService } from '../../services/estadisticas-usuario-iph.service';
+import { formatearNombreMes, type FiltroExportacion } from '../../utils';
 import type {
   RankingResponse,
   TotalesResponse,
@@ -17,9 +18,24 @@ ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend,
 interface UsuariosIphStatsProps {
   onError: (message: string) => void;
   refreshTrigger?: number;
+  /** Notifica los filtros vigentes (para la exportación de la vista) */
+  onFiltrosExportacion?: (filtros: FiltroExportacion[]) => void;
 }
 
-const UsuariosIphStats: React.FC<UsuariosIphStatsProps> = ({ onError, refreshTrigger }) => {
+const ETIQUETAS_PERIODO: Record<PeriodoEnum, string> = {
+  anual: 'Anual',
+  mensual: 'Mensual',
+  semanal: 'Semanal',
+  diario: 'Diario'
+};
+
+const ETIQUETAS_TAB = {
+  mayores: 'Top usuarios',
+  menores: 'Usuarios con menos IPH',
+  totales: 'Resumen general'
+} as const;
+
+const UsuariosIphStats: React.FC<UsuariosIphStatsProps> = ({ onError, refreshTrigger, onFiltrosExportacion }) => {
   // Estados principales
   const [activeTab, setActiveTab] = useState<'mayores' | 'menores' | 'totales'>('mayores');
   const [mayoresData, setMayoresData] = useState<RankingResponse | null>(null);
@@ -40,6 +56,26 @@ const UsuariosIphStats: React.FC<UsuariosIphStatsProps> = ({ onError, refreshTri
     loadData();
   }, [filtros]);
 
+  // Informar los filtros vigentes a la vista (exportación)
+  useEffect(() => {
+    if (!onFiltrosExportacion) return;
+    const { periodo, anio, mes, semana, dia, limite } = filtros;
+    const contexto: FiltroExportacion[] = [
+      { etiqueta: 'Período', valor: periodo ? ETIQUETAS_PERIODO[periodo] : 'Anual' },
+      { etiqueta: 'Año', valor: String(anio ?? '') }
+    ];
+    if ((periodo === 'mensual' || periodo === 'diario') && mes) {
+      contexto.push({ etiqueta: 'Mes', valor: formatearNombreMes(mes) });
+    }
+    if (periodo === 'semanal' && semana) contexto.push({ etiqueta: 'Semana', valor: String(semana) });
+    if (periodo === 'diario' && dia) contexto.push({ etiqueta: 'Día', valor: String(dia) });
+    contexto.push(
+      { etiqueta: 'Usuarios por ranking', valor: String(limite ?? '') },
+      { etiqueta: 'Vista', valor: ETIQUETAS_TAB[activeTab] }
+    );
+    onFiltrosExportacion(contexto);
+  }, [onFiltrosExportacion, filtros, activeTab]);
+
   // Recargar datos cuando se active el refresh desde el padre
   useEffect(() => {
     if (refreshTrigger && refreshTrigger > 0) {
@@ -84,6 +84,22 @@ export const CHART_COLORS = {
   label: '#4d4725'
 } as const;
 
+/**
+ * Colores para pronósticos y valores atípicos en gráficas
+ */
+export const TENDENCIA_COLORS = {
+  /** Barras de periodos proyectados */
+  pronostico: 'rgba(194, 177, 134, 0.55)',
+  /** Borde de periodos proyectados */
+  pronosticoBorde: '#948b54',
+  /** Banda de confianza del pronóstico */
+  banda: 'rgba(77, 71, 37, 0.18)',
+  /** Periodo por encima de lo esperado */
+  anomaliaAlza: '#dc3545',
+  /** Periodo por debajo de lo esperado */
+  anomaliaBaja: '#17a2b8'
+} as const;
+
 /**
  * Gradientes para fondos de cards
  */
@@ -173,6 +189,7 @@ export const ALL_COLORS = {
   pd: PD_COLORS,
   theme: THEME_COLORS,
   chart: CHART_COLORS,
+  tendencia: TENDENCIA_COLORS,
   gradient: GRADIENT_COLORS,
   opacity: OPACITIES
 } as const;
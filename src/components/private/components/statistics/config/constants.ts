@@ -61,6 +61,7 @@ export const STATISTICS_ROUTES = {
   USUARIOS_IPH: '/estadisticasusuario/usuarios-iph',
   JUSTICIA_CIVICA: '/estadisticasusuario/justicia-civica',
   PROBABLE_DELICTIVO: '/estadisticasusuario/probable-delictivo',
+  MATRIZ_HORARIA: '/estadisticasusuario/matriz-horaria',
   // Legacy routes (deprecadas)
   VENTAS: '/estadisticas/ventas',
   USUARIOS: '/estadisticas/usuarios',
@@ -32,6 +32,7 @@ export {
   PD_COLORS,
   THEME_COLORS,
   CHART_COLORS,
+  TENDENCIA_COLORS,
   GRADIENT_COLORS,
   OPACITIES,
   ALL_COLORS,
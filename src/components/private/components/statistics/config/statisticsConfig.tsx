@@ -45,6 +45,19 @@ export const statisticsCardsConfig: IStatisticCard[] = [
     color: STATISTICS_COLORS.IPH_DARK,
     ruta: STATISTICS_ROUTES.PROBABLE_DELICTIVO
   },
+  {
+    id: 'matriz-horaria',
+    titulo: 'Matriz Horaria de IPH',
+    descripcion: 'Concentración de IPH por día de la semana y hora, con filtros por tipo, detenido y fechas para planear turnos',
+    icono: (
+      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="stat-icon">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+    ),
+    habilitado: true,
+    color: STATISTICS_COLORS.IPH_PRIMARY,
+    ruta: STATISTICS_ROUTES.MATRIZ_HORARIA
+  },
   {
     id: 'iph-rango',
     titulo: 'Iph\'s por fechas',
@@ -0,0 +1,135 @@
+/**
+ * Hook personalizado para estadísticas por rango de fechas
+ * Compara un rango arbitrario contra el periodo anterior, el mismo periodo
+ * del año anterior o un segundo rango personalizado
+ *
+ * @pattern Custom Hook - Separación de lógica y presentación
+ * @uses compararRangos - Agrega los endpoints diarios/mensuales/anuales
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  compararRangos,
+  type ComparativoRango,
+  type FuenteEstadistica
+} from '../services/estadisticas-periodo.service';
+import {
+  calcularRangoComparacion,
+  esRangoValido,
+  type ModoComparacion,
+  type RangoFechas
+} from '../utils';
+import { logInfo, logError } from '../../../../../helper/log/logger.helper';
+
+/**
+ * Rango inicial: los últimos 7 días incluyendo hoy
+ */
+const crearRangoInicial = (): RangoFechas => {
+  const hoy = new Date();
+  return {
+    desde: new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate() - 6),
+    hasta: new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate())
+  };
+};
+
+/**
+ * Hook para consultar y comparar estadísticas por rango
+ *
+ * @param fuente - Justicia Cívica o Probable Delictivo
+ */
+export const useEstadisticasRango = (fuente: FuenteEstadistica) => {
+  const [rango, setRango] = useState<RangoFechas>(crearRangoInicial);
+  const [modoComparacion, setModoComparacion] = useState<ModoComparacion>('anio-anterior');
+  const [rangoPersonalizado, setRangoPersonalizado] = useState<RangoFechas>(() =>
+    calcularRangoComparacion(crearRangoInicial(), 'anio-anterior')
+  );
+
+  const [comparativo, setComparativo] = useState<ComparativoRango | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progreso, setProgreso] = useState<{ processed: number; total: number } | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Rango contra el que se compara según el modo elegido
+   */
+  const rangoComparacion = useMemo(() => (
+    modoComparacion === 'personalizado'
+      ? rangoPersonalizado
+      : calcularRangoComparacion(rango, modoComparacion)
+  ), [modoComparacion, rango, rangoPersonalizado]);
+
+  /**
+   * Consultar ambos rangos y calcular las diferencias
+   */
+  const consultar = useCallback(async () => {
+    if (!esRangoValido(rango) || !esRangoValido(rangoComparacion)) {
+      setError('Revise las fechas: la fecha inicial debe ser anterior o igual a la final');
+      return;
+    }
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    logInfo('useEstadisticasRango', 'Comparando rangos', { fuente, modoComparacion });
+    setLoading(true);
+    setError(null);
+    setProgreso(null);
+
+    try {
+      const resultado = await compararRangos(fuente, rango, rangoComparacion, {
+        signal: controller.signal,
+        onProgress: setProgreso
+      });
+      if (!controller.signal.aborted) setComparativo(resultado);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const mensaje = err instanceof Error ? err.message : 'Error al obtener estadísticas del rango';
+      setError(mensaje);
+      logError('useEstadisticasRango', err, 'Error en comparación por rango');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLoading(false);
+        setProgreso(null);
+      }
+    }
+  }, [fuente, modoComparacion, rango, rangoComparacion]);
+
+  /**
+   * Limpiar el resultado (p.ej. al cerrar el modo comparativo)
+   */
+  const limpiar = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setComparativo(null);
+    setError(null);
+    setLoading(false);
+    setProgreso(null);
+  }, []);
+
+  // Cancelar consultas pendientes al desmontar
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    // Estados
+    rango,
+    modoComparacion,
+    rangoComparacion,
+    comparativo,
+    loading,
+    error,
+    progreso,
+
+    // Funciones de manipulación
+    setRango,
+    setModoComparacion,
+    setRangoPersonalizado,
+
+    // Funciones de consulta
+    consultar,
+    limpiar
+  };
+};
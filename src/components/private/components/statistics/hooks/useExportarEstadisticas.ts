@@ -0,0 +1,64 @@
+/**
+ * Hook para exportar una vista de estadísticas (PNG + CSV + PDF en un ZIP)
+ *
+ * @pattern Custom Hook - Separación de lógica y presentación
+ * @uses exportarVistaEstadisticas - Captura las gráficas visibles del contenedor
+ */
+
+import { useState, useCallback, type RefObject } from 'react';
+import { exportarVistaEstadisticas } from '../services/exportacion-estadisticas.service';
+import type { FiltroExportacion } from '../utils';
+import { downloadBlob } from '../../../../../helper/export/export.helper';
+import { logError } from '../../../../../helper/log/logger.helper';
+import { showError, showSuccess } from '../../../../../helper/notification/notification.helper';
+
+export interface UseExportarEstadisticasOptions {
+  /** Título de la vista (encabezado del PDF) */
+  titulo: string;
+  /** Prefijo del archivo ZIP */
+  nombreBase: string;
+  /** Contenedor con las gráficas a exportar */
+  contenedorRef: RefObject<HTMLElement | null>;
+  /** Filtros vigentes de la vista */
+  filtros: FiltroExportacion[];
+}
+
+/**
+ * Hook de exportación de la vista
+ */
+export const useExportarEstadisticas = ({
+  titulo,
+  nombreBase,
+  contenedorRef,
+  filtros
+}: UseExportarEstadisticasOptions) => {
+  const [exportando, setExportando] = useState(false);
+
+  const exportar = useCallback(async () => {
+    const contenedor = contenedorRef.current;
+    if (!contenedor || exportando) return;
+
+    setExportando(true);
+    try {
+      const resultado = await exportarVistaEstadisticas({ titulo, nombreBase, contenedor, filtros });
+      downloadBlob(resultado.blob, resultado.fileName);
+      showSuccess(
+        `Se exportaron ${resultado.graficas} ${resultado.graficas === 1 ? 'gráfica' : 'gráficas'} con sus datos y el resumen en PDF`,
+        'Exportación completada'
+      );
+    } catch (error) {
+      logError('useExportarEstadisticas', error, 'Error exportando la vista de estadísticas');
+      showError(
+        error instanceof Error ? error.message : 'No se pudo exportar la vista. Intenta de nuevo.',
+        'Error de exportación'
+      );
+    } finally {
+      setExportando(false);
+    }
+  }, [contenedorRef, exportando, titulo, nombreBase, filtros]);
+
+  return {
+    exportando,
+    exportar
+  };
+};
@@ -0,0 +1,163 @@
+/**
+ * Hook personalizado para la matriz día de la semana × hora
+ * Consulta los IPH de un rango y filtra la matriz en el cliente por tipo y
+ * detenido sin volver a consultar
+ *
+ * @pattern Custom Hook - Separación de lógica y presentación
+ * @uses obtenerEventosHorarios - Listado del histórico (+ detalle cuando hace falta)
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  obtenerEventosHorarios,
+  type FuenteFechaMatriz,
+  type ProgresoMatrizHoraria,
+  type ResultadoEventosHorarios
+} from '../services/matriz-horaria.service';
+import {
+  construirMatrizHoraria,
+  esRangoValido,
+  eventosDeCelda,
+  filtrarEventosHorarios,
+  obtenerCeldasPico,
+  type FiltrosMatrizHoraria,
+  type RangoFechas
+} from '../utils';
+import { logInfo, logError } from '../../../../../helper/log/logger.helper';
+import { isAbortError } from '../../../../../helper/bulk/bulk-operation.helper';
+
+const CELDAS_PICO = 3;
+
+/**
+ * Rango inicial: los últimos 30 días incluyendo hoy
+ */
+const crearRangoInicial = (): RangoFechas => {
+  const hoy = new Date();
+  return {
+    desde: new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate() - 29),
+    hasta: new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate())
+  };
+};
+
+/**
+ * Hook para construir y filtrar la matriz horaria
+ */
+export const useMatrizHoraria = () => {
+  const [rango, setRango] = useState<RangoFechas>(crearRangoInicial);
+  const [fuenteFecha, setFuenteFecha] = useState<FuenteFechaMatriz>('creacion');
+  const [filtros, setFiltros] = useState<FiltrosMatrizHoraria>({ tipo: 'todos', detenido: 'todos' });
+
+  const [resultado, setResultado] = useState<ResultadoEventosHorarios | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progreso, setProgreso] = useState<ProgresoMatrizHoraria | null>(null);
+  const [celdaSeleccionada, setCeldaSeleccionada] = useState<{ dia: number; hora: number } | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * El filtro de detenido y la hora del hecho requieren el detalle de cada IPH
+   */
+  const requiereDetalle = fuenteFecha === 'conocimiento' || filtros.detenido !== 'todos';
+
+  /**
+   * El resultado actual ya no corresponde a las opciones elegidas
+   */
+  const desactualizado = resultado !== null && requiereDetalle && !resultado.conDetalle;
+
+  /**
+   * Consultar los IPH del rango
+   */
+  const consultar = useCallback(async () => {
+    if (!esRangoValido(rango)) {
+      setError('Revise las fechas: la fecha inicial debe ser anterior o igual a la final');
+      return;
+    }
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    logInfo('useMatrizHoraria', 'Consultando matriz horaria', { fuenteFecha, requiereDetalle });
+    setLoading(true);
+    setError(null);
+    setProgreso(null);
+    setCeldaSeleccionada(null);
+
+    try {
+      const datos = await obtenerEventosHorarios({
+        rango,
+        fuenteFecha,
+        incluirDetenidos: requiereDetalle,
+        signal: controller.signal,
+        onProgress: setProgreso
+      });
+      if (!controller.signal.aborted) setResultado(datos);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      const mensaje = err instanceof Error ? err.message : 'Error al obtener los IPH del rango';
+      setError(mensaje);
+      logError('useMatrizHoraria', err, 'Error al construir la matriz horaria');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLoading(false);
+        setProgreso(null);
+      }
+    }
+  }, [rango, fuenteFecha, requiereDetalle]);
+
+  /**
+   * Cancelar la consulta en curso
+   */
+  const cancelar = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setLoading(false);
+    setProgreso(null);
+  }, []);
+
+  // Cancelar consultas pendientes al desmontar
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const eventosFiltrados = useMemo(
+    () => (resultado ? filtrarEventosHorarios(resultado.eventos, filtros) : []),
+    [resultado, filtros]
+  );
+
+  const matriz = useMemo(() => construirMatrizHoraria(eventosFiltrados), [eventosFiltrados]);
+
+  const celdasPico = useMemo(() => obtenerCeldasPico(matriz, CELDAS_PICO), [matriz]);
+
+  const eventosSeleccionados = useMemo(
+    () => (celdaSeleccionada ? eventosDeCelda(eventosFiltrados, celdaSeleccionada.dia, celdaSeleccionada.hora) : []),
+    [eventosFiltrados, celdaSeleccionada]
+  );
+
+  return {
+    // Estados
+    rango,
+    fuenteFecha,
+    filtros,
+    resultado,
+    matriz,
+    celdasPico,
+    celdaSeleccionada,
+    eventosSeleccionados,
+    loading,
+    error,
+    progreso,
+    requiereDetalle,
+    desactualizado,
+
+    // Funciones de manipulación
+    setRango,
+    setFuenteFecha,
+    setFiltros,
+    setCeldaSeleccionada,
+
+    // Funciones de consulta
+    consultar,
+    cancelar
+  };
+};
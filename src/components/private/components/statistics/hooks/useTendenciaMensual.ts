@@ -0,0 +1,102 @@
+/**
+ * Hook de tendencia para la gráfica mensual de IPH
+ * Usa los dos años anteriores como historia para la línea base estacional
+ * (media móvil de 3 meses + mismo mes del año anterior)
+ *
+ * @pattern Custom Hook - Separación de lógica y presentación
+ * @uses getResumenPorMes - Historia de años anteriores (con cache HTTP)
+ * @uses pronosticarSerie, detectarAnomalias - Cálculo en el cliente
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { getResumenPorMes } from '../services/statistics.service';
+import {
+  ajustarLineaBase,
+  detectarAnomalias,
+  formatearNombreMes,
+  pronosticarSerie,
+  sumarSeries,
+  type TendenciaGrafica
+} from '../utils';
+import { logWarning } from '../../../../../helper/log/logger.helper';
+import type { IResumenPorMes } from '../../../../../interfaces/statistics/statistics.interface';
+
+const MESES_PRONOSTICO = 3;
+const OPCIONES_LINEA_BASE = { ventana: 3, periodoEstacional: 12 } as const;
+
+const totalesPorMes = (datos: IResumenPorMes): number[] =>
+  sumarSeries(datos.datasets.map(dataset => dataset.data)).slice(0, 12);
+
+/**
+ * Hook para pronóstico (año en curso) y anomalías de la gráfica mensual
+ *
+ * @param anio - Año mostrado en la gráfica
+ * @param datos - Resumen por mes del año mostrado
+ */
+export const useTendenciaMensual = (anio: number, datos: IResumenPorMes | null) => {
+  const [historia, setHistoria] = useState<{ anio: number; meses: number[] } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Cargar los dos años anteriores (si uno falla se usa solo el contiguo disponible)
+  useEffect(() => {
+    let cancelado = false;
+    setLoading(true);
+
+    Promise.allSettled([getResumenPorMes(anio - 2), getResumenPorMes(anio - 1)])
+      .then(([hace2, hace1]) => {
+        if (cancelado) return;
+
+        const meses: number[] = [];
+        if (hace1.status === 'fulfilled') {
+          if (hace2.status === 'fulfilled') meses.push(...totalesPorMes(hace2.value));
+          meses.push(...totalesPorMes(hace1.value));
+        } else {
+          logWarning('useTendenciaMensual', 'Sin historia del año anterior, se usa solo la media móvil', { anio });
+        }
+        setHistoria({ anio, meses });
+      })
+      .finally(() => {
+        if (!cancelado) setLoading(false);
+      });
+
+    return () => {
+      cancelado = true;
+    };
+  }, [anio]);
+
+  const tendencia = useMemo<TendenciaGrafica | null>(() => {
+    if (!datos || !historia || historia.anio !== anio) return null;
+
+    const hoy = new Date();
+    if (anio > hoy.getFullYear()) return null;
+
+    // En el año en curso solo se usan los meses cerrados; el mes actual se proyecta
+    const esAnioActual = anio === hoy.getFullYear();
+    const mesesCerrados = esAnioActual ? hoy.getMonth() : 12;
+    const serie = [...historia.meses, ...totalesPorMes(datos).slice(0, mesesCerrados)];
+    const inicioAnio = historia.meses.length;
+
+    const lineaBase = ajustarLineaBase(serie, OPCIONES_LINEA_BASE);
+    const anomalias = detectarAnomalias(serie, { lineaBase })
+      .filter(anomalia => anomalia.indice >= inicioAnio)
+      .map(anomalia => ({ ...anomalia, indice: anomalia.indice - inicioAnio }));
+
+    const pronostico = esAnioActual
+      ? pronosticarSerie(serie, { ...OPCIONES_LINEA_BASE, horizonte: MESES_PRONOSTICO }).map(punto => {
+          const indice = punto.indice - inicioAnio;
+          const mes = (indice % 12) + 1;
+          const etiqueta = indice < 12
+            ? formatearNombreMes(mes)
+            : `${formatearNombreMes(mes, 'corto')} ${anio + 1}`;
+          return { ...punto, indice, etiqueta };
+        })
+      : [];
+
+    return { pronostico, anomalias };
+  }, [anio, datos, historia]);
+
+  return {
+    tendencia,
+    loading
+  };
+};
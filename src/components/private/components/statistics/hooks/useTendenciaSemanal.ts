@@ -0,0 +1,146 @@
+/**
+ * Hook de tendencia para la gráfica semanal de IPH
+ * Reúne las 8 semanas que expone la API (offsets -7 a 0) para:
+ * - Marcar días atípicos contra el mismo día de la semana anterior
+ * - Proyectar las próximas 4 semanas sobre los totales semanales
+ *
+ * @pattern Custom Hook - Separación de lógica y presentación
+ * @uses getResumenPorSemana - Historia semanal (con cache HTTP)
+ * @uses pronosticarSerie, detectarAnomalias - Cálculo en el cliente
+ *
+ * La API no expone semanas del año anterior, por lo que aquí la componente
+ * estacional es el patrón por día de la semana.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { getResumenPorSemana } from '../services/statistics.service';
+import {
+  ajustarLineaBase,
+  calcularSuma,
+  detectarAnomalias,
+  pronosticarSerie,
+  sumarSeries,
+  type TendenciaGrafica
+} from '../utils';
+import { logWarning } from '../../../../../helper/log/logger.helper';
+import type { IResumenPorSemana } from '../../../../../interfaces/statistics/statistics.interface';
+
+/** Offset más antiguo disponible en la API */
+const OFFSET_MINIMO = -7;
+const SEMANAS_PRONOSTICO = 4;
+const DIAS_SEMANA = 7;
+
+export interface TendenciaSemanas {
+  /** Etiquetas de las semanas cerradas (inicio de semana) */
+  etiquetas: string[];
+  /** Total de IPH de cada semana cerrada */
+  valores: number[];
+  tendencia: TendenciaGrafica;
+}
+
+const parsearFechaLocal = (fecha: string): Date =>
+  new Date(fecha.includes('T') ? fecha : `${fecha}T00:00:00`);
+
+const etiquetaSemana = (inicio: Date): string =>
+  isNaN(inicio.getTime())
+    ? 'Semana'
+    : `Sem. ${inicio.toLocaleDateString('es-MX', { day: 'numeric', month: 'short' })}`;
+
+/**
+ * Hook para anomalías diarias y pronóstico semanal
+ *
+ * @param semanaOffset - Semana mostrada en la gráfica (-7 a 0)
+ */
+export const useTendenciaSemanal = (semanaOffset: number) => {
+  const [semanas, setSemanas] = useState<IResumenPorSemana[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Cargar una sola vez las 8 semanas disponibles
+  useEffect(() => {
+    let cancelado = false;
+    setLoading(true);
+
+    const offsets = Array.from({ length: -OFFSET_MINIMO + 1 }, (_, indice) => OFFSET_MINIMO + indice);
+    Promise.allSettled(offsets.map(offset => getResumenPorSemana(offset)))
+      .then(resultados => {
+        if (cancelado) return;
+        const fallidas = resultados.filter(resultado => resultado.status === 'rejected').length;
+        if (fallidas > 0) {
+          // Sin semanas contiguas la línea base no es confiable
+          logWarning('useTendenciaSemanal', 'Historia semanal incompleta, se omite la tendencia', { fallidas });
+          setSemanas(null);
+          return;
+        }
+        setSemanas(resultados.map(resultado => (resultado as PromiseFulfilledResult<IResumenPorSemana>).value));
+      })
+      .finally(() => {
+        if (!cancelado) setLoading(false);
+      });
+
+    return () => {
+      cancelado = true;
+    };
+  }, []);
+
+  // Serie diaria cerrada (hasta ayer) de las 8 semanas
+  const serieDiaria = useMemo(() => {
+    if (!semanas) return null;
+    const dias = semanas.flatMap(semana =>
+      sumarSeries(semana.datasets.map(dataset => dataset.data)).slice(0, DIAS_SEMANA)
+    );
+    const hoy = new Date();
+    const diaActual = (hoy.getDay() + 6) % 7; // Lunes = 0
+    return dias.slice(0, (semanas.length - 1) * DIAS_SEMANA + diaActual);
+  }, [semanas]);
+
+  /**
+   * Días atípicos de la semana mostrada
+   */
+  const tendenciaDias = useMemo<TendenciaGrafica | null>(() => {
+    if (!serieDiaria) return null;
+
+    const lineaBase = ajustarLineaBase(serieDiaria, { ventana: DIAS_SEMANA, periodoEstacional: DIAS_SEMANA });
+    const inicioSemana = (semanaOffset - OFFSET_MINIMO) * DIAS_SEMANA;
+    const anomalias = detectarAnomalias(serieDiaria, { lineaBase })
+      .filter(anomalia => anomalia.indice >= inicioSemana && anomalia.indice < inicioSemana + DIAS_SEMANA)
+      .map(anomalia => ({ ...anomalia, indice: anomalia.indice - inicioSemana }));
+
+    return { pronostico: [], anomalias };
+  }, [serieDiaria, semanaOffset]);
+
+  /**
+   * Totales de las semanas cerradas y proyección de las siguientes 4
+   * (la semana en curso es la primera proyectada)
+   */
+  const tendenciaSemanas = useMemo<TendenciaSemanas | null>(() => {
+    if (!semanas) return null;
+
+    const cerradas = semanas.slice(0, -1);
+    const valores = cerradas.map(semana =>
+      calcularSuma(sumarSeries(semana.datasets.map(dataset => dataset.data)))
+    );
+    const inicios = cerradas.map(semana => parsearFechaLocal(semana.semana_inicio));
+    const ultimoInicio = inicios[inicios.length - 1];
+
+    const pronostico = pronosticarSerie(valores, { ventana: 4, horizonte: SEMANAS_PRONOSTICO }).map((punto, paso) => {
+      const inicio = new Date(ultimoInicio);
+      inicio.setDate(inicio.getDate() + (paso + 1) * DIAS_SEMANA);
+      return { ...punto, etiqueta: etiquetaSemana(inicio) };
+    });
+
+    return {
+      etiquetas: inicios.map(etiquetaSemana),
+      valores,
+      tendencia: {
+        pronostico,
+        anomalias: detectarAnomalias(valores, { lineaBase: ajustarLineaBase(valores, { ventana: 4 }) })
+      }
+    };
+  }, [semanas]);
+
+  return {
+    tendenciaDias,
+    tendenciaSemanas,
+    loading
+  };
+};
@@ -1,16 +1,19 @@
 /**
  * Sección de resumen para componente EstadisticasProbableDelictivo
- * Muestra resumen comparativo de totales
+ * Muestra resumen comparativo de totales y, si se consultó, la comparación
+ * entre rangos de fechas personalizados
  * Reutiliza la misma lógica que JC
  *
  * @module ProbableDelictivoResumen
- * @version 1.0.0
+ * @version 1.1.0
  */
 
 import React from 'react';
 import type { RespuestaJC } from '../../../../../interfaces/estadisticas-jc';
 import { calcularTotalCombinado, calcularPromedioDiarioAnual } from '../utils';
 import { formatearNumero } from '../utils';
+import ComparativoRangoCard from '../components/cards/ComparativoRangoCard';
+import type { ComparativoRango } from '../services/estadisticas-periodo.service';
 
 export interface ProbableDelictivoResumenProps {
   /** Estadísticas diarias */
@@ -19,6 +22,8 @@ export interface ProbableDelictivoResumenProps {
   mensual: RespuestaJC | null;
   /** Estadísticas anuales */
   anual: RespuestaJC | null;
+  /** Comparación entre rangos personalizados (useEstadisticasRango) */
+  comparativo?: ComparativoRango | null;
 }
 
 /**
@@ -30,58 +35,61 @@ export interface ProbableDelictivoResumenProps {
  *   diaria={estadisticas.diaria}
  *   mensual={estadisticas.mensual}
  *   anual={estadisticas.anual}
+ *   comparativo={rango.comparativo}
  * />
  * ```
  */
 export const ProbableDelictivoResumen: React.FC<ProbableDelictivoResumenProps> = ({
   diaria,
   mensual,
-  anual
+  anual,
+  comparativo = null
 }) => {
-  // Solo renderizar si hay los 3 tipos de datos
-  if (!diaria || !mensual || !anual) {
+  const tieneFijos = Boolean(diaria && mensual && anual);
+
+  // Solo renderizar si hay los 3 tipos de datos o una comparación por rango
+  if (!tieneFijos && !comparativo) {
     return null;
   }
 
   // Calcular totales usando utilidades
-  const totalDiario = calcularTotalCombinado(diaria.data);
-  const totalMensual = calcularTotalCombinado(mensual.data);
-  const totalAnual = calcularTotalCombinado(anual.data);
+  const totalDiario = diaria ? calcularTotalCombinado(diaria.data) : 0;
+  const totalMensual = mensual ? calcularTotalCombinado(mensual.data) : 0;
+  const totalAnual = anual ? calcularTotalCombinado(anual.data) : 0;
   const promedioDiarioAnual = calcularPromedioDiarioAnual(totalAnual);
 
-  return (
-    <div className="estadisticas-jc-resumen">
-      <h2 className="resumen-title">📋 Resumen Comparativo</h2>
-
-      <div className="resumen-grid">
-        <div className="resumen-item">
-          <span className="resumen-label">Total Diario</span>
-          <span className="resumen-valor">
-            {formatearNumero(totalDiario)}
-          </span>
-        </div>
+  const items = [
+    { label: 'Total Diario', valor: totalDiario },
+    { label: 'Total Mensual', valor: totalMensual },
+    { label: 'Total Anual', valor: totalAnual },
+    { label: 'Promedio Diario (Año)', valor: promedioDiarioAnual }
+  ];
 
-        <div className="resumen-item">
-          <span className="resumen-label">Total Mensual</span>
-          <span className="resumen-valor">
-            {formatearNumero(totalMensual)}
-          </span>
-        </div>
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
+      <h2 className="text-xl font-semibold text-[#4d4725] font-poppins mb-6">📋 Resumen Comparativo</h2>
 
-        <div className="resumen-item">
-          <span className="resumen-label">Total Anual</span>
-          <span className="resumen-valor">
-            {formatearNumero(totalAnual)}
-          </span>
+      {tieneFijos && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {items.map(item => (
+            <div key={item.label} className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+              <span className="text-sm font-semibold text-gray-600 font-poppins block mb-2">{item.label}</span>
+              <span className="text-2xl font-bold text-[#4d4725] font-poppins">
+                {formatearNumero(item.valor)}
+              </span>
+            </div>
+          ))}
         </div>
+      )}
 
-        <div className="resumen-item">
-          <span className="resumen-label">Promedio Diario (Año)</span>
-          <span className="resumen-valor">
-            {formatearNumero(promedioDiarioAnual)}
-          </span>
+      {comparativo && (
+        <div className={tieneFijos ? 'mt-6 pt-6 border-t border-gray-200' : ''}>
+          <h3 className="text-base font-semibold text-[#4d4725] font-poppins mb-3">
+            Comparación por rango de fechas
+          </h3>
+          <ComparativoRangoCard comparativo={comparativo} />
         </div>
-      </div>
+      )}
     </div>
   );
 };
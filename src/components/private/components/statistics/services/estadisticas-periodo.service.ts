@@ -0,0 +1,244 @@
+/**
+ * @file estadisticas-periodo.service.ts
+ * @description Estadísticas de Justicia Cívica y Probable Delictivo para
+ * cualquier rango de fechas, con comparación contra otro periodo
+ * @module services/estadisticas-periodo
+ *
+ * @pattern Composición sobre los servicios existentes (sin endpoints nuevos)
+ * @uses getJusticiaCivica*, getProbableDelictivo* - Consultas por día/mes/año
+ * @uses runBulkOperation - Concurrencia limitada y cancelación
+ * @uses CacheHelper - Cache por segmento (los rangos comparten días/meses)
+ *
+ * El rango se parte en años, meses y días completos (`descomponerRango`) y se
+ * suman los totales de cada consulta. Si alguna consulta falla se lanza error
+ * en lugar de mostrar un total incompleto.
+ */
+
+import CacheHelper from '../../../../../helper/cache/cache.helper';
+import { runBulkOperation, throwIfAborted } from '../../../../../helper/bulk/bulk-operation.helper';
+import { logInfo, logError } from '../../../../../helper/log/logger.helper';
+
+// Servicios
+import {
+  getJusticiaCivicaDiaria,
+  getJusticiaCivicaMensual,
+  getJusticiaCivicaAnual
+} from './get-jc.service';
+import {
+  getProbableDelictivoDiario,
+  getProbableDelictivoMensual,
+  getProbableDelictivoAnual
+} from './probable-delictivo.service';
+
+// Utils
+import {
+  calcularDiferenciaPorcentual,
+  contarDiasRango,
+  descomponerRango,
+  esRangoValido,
+  formatearFechaInput,
+  type RangoFechas,
+  type SegmentoRango
+} from '../utils';
+
+// Constantes del módulo
+const MODULE_NAME = 'EstadisticasPeriodo';
+
+export const ESTADISTICAS_PERIODO_CONFIG = {
+  /** Consultas simultáneas por rango (actual y comparación corren en paralelo) */
+  concurrency: 4,
+  /** Vigencia de cada segmento en cache */
+  cacheMs: 5 * 60 * 1000
+} as const;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type FuenteEstadistica = 'justicia-civica' | 'probable-delictivo';
+
+export interface TotalesSegmento {
+  totalConDetenido: number;
+  totalSinDetenido: number;
+}
+
+export interface TotalesRango extends TotalesSegmento {
+  rango: RangoFechas;
+  total: number;
+  dias: number;
+  promedioDiario: number;
+  /** Consultas al backend usadas para el rango */
+  consultas: number;
+}
+
+/**
+ * Diferencias porcentuales del rango actual contra el de comparación
+ */
+export interface DeltasRango {
+  conDetenido: number;
+  sinDetenido: number;
+  total: number;
+  promedioDiario: number;
+}
+
+export interface ComparativoRango {
+  fuente: FuenteEstadistica;
+  actual: TotalesRango;
+  comparacion: TotalesRango;
+  deltas: DeltasRango;
+}
+
+export interface OpcionesConsultaRango {
+  signal?: AbortSignal;
+  onProgress?: (progreso: { processed: number; total: number }) => void;
+}
+
+// =====================================================
+// CONSULTA POR SEGMENTO
+// =====================================================
+
+const buildCacheKey = (fuente: FuenteEstadistica, segmento: SegmentoRango): string =>
+  `estadisticas-periodo:${fuente}:${Object.values(segmento).join('-')}`;
+
+const consultarSegmento = async (
+  fuente: FuenteEstadistica,
+  segmento: SegmentoRango
+): Promise<TotalesSegmento> => {
+  const cached = await CacheHelper.get<TotalesSegmento>(buildCacheKey(fuente, segmento));
+  if (cached) return cached;
+
+  const esJC = fuente === 'justicia-civica';
+  const respuesta = segmento.tipo === 'anual'
+    ? await (esJC ? getJusticiaCivicaAnual : getProbableDelictivoAnual)({ anio: segmento.anio })
+    : segmento.tipo === 'mensual'
+      ? await (esJC ? getJusticiaCivicaMensual : getProbableDelictivoMensual)({ anio: segmento.anio, mes: segmento.mes })
+      : await (esJC ? getJusticiaCivicaDiaria : getProbableDelictivoDiario)({
+          anio: segmento.anio,
+          mes: segmento.mes,
+          dia: segmento.dia
+        });
+
+  const totales: TotalesSegmento = {
+    totalConDetenido: Number(respuesta.data.totalConDetenido) || 0,
+    totalSinDetenido: Number(respuesta.data.totalSinDetenido) || 0
+  };
+
+  await CacheHelper.set(buildCacheKey(fuente, segmento), totales, {
+    expiresIn: ESTADISTICAS_PERIODO_CONFIG.cacheMs,
+    namespace: 'data'
+  });
+  return totales;
+};
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * @function obtenerTotalesPorRango
+ * @description Suma los totales con y sin detenido de cualquier rango de fechas
+ *
+ * @param {FuenteEstadistica} fuente - Justicia Cívica o Probable Delictivo
+ * @param {RangoFechas} rango - Intervalo inclusivo
+ * @param {OpcionesConsultaRango} opciones - Cancelación y progreso
+ *
+ * @returns {Promise<TotalesRango>} Totales del rango y promedio diario
+ *
+ * @throws {Error} Si el rango es inválido o alguna consulta falla
+ *
+ * @example
+ * const semana = await obtenerTotalesPorRango('justicia-civica', {
+ *   desde: new Date(2025, 3, 13),
+ *   hasta: new Date(2025, 3, 19)
+ * });
+ * console.log(semana.total, semana.promedioDiario);
+ */
+export const obtenerTotalesPorRango = async (
+  fuente: FuenteEstadistica,
+  rango: RangoFechas,
+  opciones: OpcionesConsultaRango = {}
+): Promise<TotalesRango> => {
+  if (!esRangoValido(rango)) {
+    throw new Error('El rango de fechas no es válido');
+  }
+
+  const segmentos = descomponerRango(rango);
+  const periodo = { desde: formatearFechaInput(rango.desde), hasta: formatearFechaInput(rango.hasta) };
+  logInfo(MODULE_NAME, 'Consultando estadísticas por rango', { fuente, ...periodo, consultas: segmentos.length });
+
+  const resultados = await runBulkOperation(segmentos, segmento => consultarSegmento(fuente, segmento), {
+    concurrency: ESTADISTICAS_PERIODO_CONFIG.concurrency,
+    signal: opciones.signal,
+    onProgress: ({ processed, total }) => opciones.onProgress?.({ processed, total })
+  });
+
+  throwIfAborted(opciones.signal, 'Consulta cancelada');
+
+  const fallidos = resultados.filter(resultado => resultado.status !== 'success');
+  if (fallidos.length > 0) {
+    const error = new Error(fallidos[0].message || 'No se pudieron obtener todas las estadísticas del rango');
+    logError(MODULE_NAME, error, `Fallaron ${fallidos.length} de ${segmentos.length} consultas (${periodo.desde} a ${periodo.hasta})`);
+    throw error;
+  }
+
+  const totalConDetenido = resultados.reduce((suma, { result }) => suma + (result?.totalConDetenido ?? 0), 0);
+  const totalSinDetenido = resultados.reduce((suma, { result }) => suma + (result?.totalSinDetenido ?? 0), 0);
+  const total = totalConDetenido + totalSinDetenido;
+  const dias = contarDiasRango(rango);
+
+  return {
+    rango,
+    totalConDetenido,
+    totalSinDetenido,
+    total,
+    dias,
+    promedioDiario: dias > 0 ? Number((total / dias).toFixed(1)) : 0,
+    consultas: segmentos.length
+  };
+};
+
+/**
+ * @function compararRangos
+ * @description Totales de dos rangos y sus diferencias porcentuales
+ *
+ * @param {FuenteEstadistica} fuente - Justicia Cívica o Probable Delictivo
+ * @param {RangoFechas} actual - Rango principal
+ * @param {RangoFechas} comparacion - Rango contra el que se compara
+ * @param {OpcionesConsultaRango} opciones - Cancelación y progreso (de ambas consultas)
+ *
+ * @returns {Promise<ComparativoRango>} Totales de cada rango y deltas (%)
+ *
+ * @example
+ * const comparativo = await compararRangos('probable-delictivo', semanaSanta2025, semanaSanta2024);
+ * console.log(comparativo.deltas.total); // 12.5 (incremento del 12.5%)
+ */
+export const compararRangos = async (
+  fuente: FuenteEstadistica,
+  actual: RangoFechas,
+  comparacion: RangoFechas,
+  opciones: OpcionesConsultaRango = {}
+): Promise<ComparativoRango> => {
+  const totalConsultas = descomponerRango(actual).length + descomponerRango(comparacion).length;
+  const avance = { actual: 0, comparacion: 0 };
+  const reportar = (clave: keyof typeof avance) => ({ processed }: { processed: number }) => {
+    avance[clave] = processed;
+    opciones.onProgress?.({ processed: avance.actual + avance.comparacion, total: totalConsultas });
+  };
+
+  const [totalesActual, totalesComparacion] = await Promise.all([
+    obtenerTotalesPorRango(fuente, actual, { signal: opciones.signal, onProgress: reportar('actual') }),
+    obtenerTotalesPorRango(fuente, comparacion, { signal: opciones.signal, onProgress: reportar('comparacion') })
+  ]);
+
+  return {
+    fuente,
+    actual: totalesActual,
+    comparacion: totalesComparacion,
+    deltas: {
+      conDetenido: calcularDiferenciaPorcentual(totalesActual.totalConDetenido, totalesComparacion.totalConDetenido),
+      sinDetenido: calcularDiferenciaPorcentual(totalesActual.totalSinDetenido, totalesComparacion.totalSinDetenido),
+      total: calcularDiferenciaPorcentual(totalesActual.total, totalesComparacion.total),
+      promedioDiario: calcularDiferenciaPorcentual(totalesActual.promedioDiario, totalesComparacion.promedioDiario)
+    }
+  };
+};
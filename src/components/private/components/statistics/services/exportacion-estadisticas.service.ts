@@ -0,0 +1,425 @@
+/**
+ * @file exportacion-estadisticas.service.ts
+ * @description Paquete de exportación de una vista de estadísticas (ZIP)
+ * @module services/exportacion-estadisticas
+ *
+ * Contenido del ZIP:
+ * - graficas/NN-titulo.png: cada gráfica de Chart.js visible en la vista
+ * - datos/NN-titulo.csv: etiquetas y datasets de cada gráfica
+ * - resumen.pdf: portada con los filtros vigentes y una sección por gráfica
+ *   (imagen y total/máximo/mínimo de cada serie)
+ *
+ * Las gráficas se localizan en el DOM con `Chart.getChart(canvas)`, por lo que
+ * cualquier gráfica nueva dentro del contenedor se exporta sin registrarla.
+ * El título sale de `data-export-title` (si el contenedor lo declara) o del
+ * plugin `title` de la gráfica.
+ */
+
+import { Chart } from 'chart.js';
+
+// Helpers
+import { logInfo } from '../../../../../helper/log/logger.helper';
+import { buildCsv } from '../../../../../helper/export/export.helper';
+import { createZipBlob, uniqueZipEntryName, type ZipEntry } from '../../../../../helper/export/zip-writer';
+import {
+  PDF_LETTER_SIZE,
+  createPdf,
+  measurePdfText,
+  readJpegInfo,
+  wrapPdfText,
+  type PdfJpegImage,
+  type PdfOperation,
+  type PdfPage
+} from '../../../../../helper/export/pdf-writer';
+
+// Utils
+import {
+  columnasGrafica,
+  formatearFechaInput,
+  formatearNumero,
+  nombreArchivoSeguro,
+  normalizarEtiquetaGrafica,
+  normalizarValorGrafica,
+  resumirSeries,
+  type DatosGraficaExportable,
+  type FiltroExportacion
+} from '../utils';
+
+// Constantes del módulo
+const MODULE_NAME = 'ExportacionEstadisticas';
+
+export const EXPORTACION_ESTADISTICAS_CONFIG = {
+  jpegQuality: 0.92,
+  /** Alto máximo de cada gráfica en el PDF (puntos) */
+  maxImageHeight: 250,
+  margin: 40,
+  headerHeight: 56,
+  footerHeight: 36,
+  colors: {
+    primary: '#4d4725',
+    secondary: '#948b54',
+    accent: '#c2b186',
+    background: '#fdf7f1',
+    text: '#222222',
+    muted: '#6b6b6b',
+    border: '#d9cfb4'
+  }
+} as const;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface OpcionesExportacionEstadisticas {
+  /** Título de la vista (encabezado del PDF) */
+  titulo: string;
+  /** Prefijo del archivo ZIP */
+  nombreBase: string;
+  /** Elemento que contiene las gráficas */
+  contenedor: HTMLElement;
+  /** Filtros vigentes de la vista */
+  filtros: FiltroExportacion[];
+}
+
+export interface ResultadoExportacionEstadisticas {
+  blob: Blob;
+  fileName: string;
+  graficas: number;
+}
+
+interface GraficaCapturada {
+  datos: DatosGraficaExportable;
+  png: Uint8Array;
+  jpeg: PdfJpegImage | null;
+}
+
+const { width: PAGE_WIDTH, height: PAGE_HEIGHT } = PDF_LETTER_SIZE;
+const { margin: MARGIN, colors: COLORS } = EXPORTACION_ESTADISTICAS_CONFIG;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = EXPORTACION_ESTADISTICAS_CONFIG.headerHeight + 28;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - EXPORTACION_ESTADISTICAS_CONFIG.footerHeight;
+
+/** Columnas del resumen por serie (suman CONTENT_WIDTH) */
+const RESUMEN_COLUMNS = [
+  { title: 'Serie', width: 212 },
+  { title: 'Total', width: 80 },
+  { title: 'Máximo', width: 120 },
+  { title: 'Mínimo', width: 120 }
+] as const;
+
+const ROW_HEIGHT = 15;
+
+// =====================================================
+// CAPTURA DE GRÁFICAS
+// =====================================================
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Copia el canvas sobre fondo blanco (Chart.js dibuja con fondo transparente)
+ */
+const conFondoBlanco = (canvas: HTMLCanvasElement): HTMLCanvasElement => {
+  const copia = document.createElement('canvas');
+  copia.width = canvas.width;
+  copia.height = canvas.height;
+
+  const context = copia.getContext('2d');
+  if (context) {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, copia.width, copia.height);
+    context.drawImage(canvas, 0, 0);
+  }
+  return copia;
+};
+
+const tituloGrafica = (canvas: HTMLCanvasElement, chart: Chart, posicion: number): string => {
+  const declarado = canvas.closest<HTMLElement>('[data-export-title]')?.dataset.exportTitle;
+  if (declarado) return declarado;
+
+  const texto = chart.options.plugins?.title?.text;
+  const titulo = Array.isArray(texto) ? texto.join(' ') : texto;
+  return titulo?.trim() || `Gráfica ${posicion}`;
+};
+
+const extraerDatos = (chart: Chart, titulo: string): DatosGraficaExportable => ({
+  titulo,
+  etiquetas: (chart.data.labels ?? []).map(normalizarEtiquetaGrafica),
+  series: chart.data.datasets.map((dataset, indice) => ({
+    nombre: dataset.label ?? `Serie ${indice + 1}`,
+    valores: (dataset.data as unknown[]).map(normalizarValorGrafica)
+  }))
+});
+
+/**
+ * Gráficas de Chart.js visibles dentro del contenedor, en orden del documento
+ */
+const capturarGraficas = async (contenedor: HTMLElement): Promise<GraficaCapturada[]> => {
+  const capturas: GraficaCapturada[] = [];
+
+  for (const canvas of Array.from(contenedor.querySelectorAll('canvas'))) {
+    const chart = Chart.getChart(canvas);
+    // Gráficas ocultas (pestañas inactivas) tienen tamaño 0
+    if (!chart || canvas.width === 0 || canvas.height === 0) continue;
+
+    const copia = conFondoBlanco(canvas);
+    const [png, jpeg] = await Promise.all([
+      canvasToBlob(copia, 'image/png'),
+      canvasToBlob(copia, 'image/jpeg', EXPORTACION_ESTADISTICAS_CONFIG.jpegQuality)
+    ]);
+    if (!png) continue;
+
+    const jpegData = jpeg ? new Uint8Array(await jpeg.arrayBuffer()) : null;
+    const jpegInfo = jpegData ? readJpegInfo(jpegData) : null;
+
+    capturas.push({
+      datos: extraerDatos(chart, tituloGrafica(canvas, chart, capturas.length + 1)),
+      png: new Uint8Array(await png.arrayBuffer()),
+      jpeg: jpegData && jpegInfo ? { data: jpegData, ...jpegInfo } : null
+    });
+  }
+
+  return capturas;
+};
+
+// =====================================================
+// PDF DE RESUMEN
+// =====================================================
+
+const formatearFechaHora = (fecha: Date): string =>
+  fecha.toLocaleString('es-MX', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+
+const formatearValor = (valor: number): string =>
+  Number.isInteger(valor) ? formatearNumero(valor) : valor.toFixed(2);
+
+/**
+ * Arma las páginas en orden; encabezado y pie se agregan al final (total de páginas)
+ */
+class ResumenPdfLayout {
+  readonly pages: PdfPage[] = [];
+  readonly images: PdfJpegImage[] = [];
+  private operations: PdfOperation[] = [];
+  private y = CONTENT_TOP;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage(): void {
+    this.operations = [];
+    this.pages.push({ operations: this.operations });
+    this.y = CONTENT_TOP;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y + height > CONTENT_BOTTOM) this.newPage();
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(28);
+    this.y += 6;
+    this.operations.push(
+      { type: 'text', x: MARGIN, y: this.y + 10, text, size: 12, font: 'bold', color: COLORS.primary },
+      { type: 'line', x1: MARGIN, y1: this.y + 15, x2: MARGIN + CONTENT_WIDTH, y2: this.y + 15, color: COLORS.accent, lineWidth: 1 }
+    );
+    this.y += 24;
+  }
+
+  paragraph(text: string, color: string = COLORS.text): void {
+    for (const line of wrapPdfText(text, 9, CONTENT_WIDTH)) {
+      this.ensureSpace(13);
+      this.operations.push({ type: 'text', x: MARGIN, y: this.y + 9, text: line, size: 9, color });
+      this.y += 13;
+    }
+  }
+
+  field(label: string, value: string): void {
+    const labelWidth = 150;
+    const lines = wrapPdfText(value, 9, CONTENT_WIDTH - labelWidth);
+    this.ensureSpace(lines.length * 13 + 2);
+    this.operations.push({ type: 'text', x: MARGIN, y: this.y + 9, text: label, size: 9, font: 'bold', color: COLORS.secondary });
+    lines.forEach((line, indice) => {
+      this.operations.push({ type: 'text', x: MARGIN + labelWidth, y: this.y + 9 + indice * 13, text: line, size: 9, color: COLORS.text });
+    });
+    this.y += lines.length * 13 + 2;
+  }
+
+  /**
+   * Sección de una gráfica: título, imagen y resumen por serie (en la misma página)
+   */
+  chart(grafica: GraficaCapturada, posicion: number): void {
+    const resumen = resumirSeries(grafica.datos);
+    const image = grafica.jpeg;
+    const scale = image
+      ? Math.min(CONTENT_WIDTH / image.width, EXPORTACION_ESTADISTICAS_CONFIG.maxImageHeight / image.height)
+      : 0;
+    const imageHeight = image ? image.height * scale : 0;
+    const tableHeight = resumen.length > 0 ? (resumen.length + 1) * ROW_HEIGHT : 0;
+
+    this.ensureSpace(28 + imageHeight + 8 + tableHeight + 16);
+    this.heading(`${posicion}. ${grafica.datos.titulo}`);
+
+    if (image) {
+      const imageWidth = image.width * scale;
+      this.images.push(image);
+      this.operations.push({
+        type: 'image',
+        x: MARGIN + (CONTENT_WIDTH - imageWidth) / 2,
+        y: this.y,
+        width: imageWidth,
+        height: imageHeight,
+        imageIndex: this.images.length - 1
+      });
+      this.y += imageHeight + 8;
+    } else {
+      this.paragraph('No fue posible incrustar la imagen; consulte el PNG incluido en el paquete.', COLORS.muted);
+    }
+
+    if (resumen.length > 0) this.resumenTable(resumen);
+    this.y += 16;
+  }
+
+  private resumenTable(resumen: ReturnType<typeof resumirSeries>): void {
+    const row = (cells: string[], header: boolean) => {
+      let x = MARGIN;
+      if (header) {
+        this.operations.push({ type: 'rect', x: MARGIN, y: this.y, width: CONTENT_WIDTH, height: ROW_HEIGHT, fill: COLORS.background });
+      }
+      cells.forEach((cell, indice) => {
+        const { width } = RESUMEN_COLUMNS[indice];
+        const [text] = wrapPdfText(cell, 8, width - 8, header ? 'bold' : 'normal');
+        this.operations.push({
+          type: 'text',
+          x: x + 4,
+          y: this.y + 10.5,
+          text,
+          size: 8,
+          font: header ? 'bold' : 'normal',
+          color: header ? COLORS.primary : COLORS.text
+        });
+        x += width;
+      });
+      this.operations.push({ type: 'line', x1: MARGIN, y1: this.y + ROW_HEIGHT, x2: MARGIN + CONTENT_WIDTH, y2: this.y + ROW_HEIGHT, color: COLORS.border });
+      this.y += ROW_HEIGHT;
+    };
+
+    row(RESUMEN_COLUMNS.map(column => column.title), true);
+    resumen.forEach(serie => row([
+      serie.nombre,
+      formatearValor(serie.total),
+      `${formatearValor(serie.maximo.valor)} (${serie.maximo.etiqueta})`,
+      `${formatearValor(serie.minimo.valor)} (${serie.minimo.etiqueta})`
+    ], false));
+  }
+
+  /**
+   * Encabezado con la marca y pie con "Página X de N" en cada hoja
+   */
+  finish(titulo: string, generado: Date): void {
+    const total = this.pages.length;
+    const fecha = formatearFechaHora(generado);
+
+    this.pages.forEach((page, indice) => {
+      const pagina = `Página ${indice + 1} de ${total}`;
+      page.operations.unshift(
+        { type: 'rect', x: 0, y: 0, width: PAGE_WIDTH, height: EXPORTACION_ESTADISTICAS_CONFIG.headerHeight, fill: COLORS.primary },
+        { type: 'rect', x: 0, y: EXPORTACION_ESTADISTICAS_CONFIG.headerHeight, width: PAGE_WIDTH, height: 3, fill: COLORS.accent },
+        { type: 'text', x: MARGIN, y: 22, text: 'SISTEMA IPH · ESTADÍSTICAS', size: 8, font: 'bold', color: COLORS.accent },
+        { type: 'text', x: MARGIN, y: 42, text: titulo, size: 15, font: 'bold', color: '#ffffff' }
+      );
+      page.operations.push(
+        { type: 'line', x1: MARGIN, y1: PAGE_HEIGHT - MARGIN - 14, x2: PAGE_WIDTH - MARGIN, y2: PAGE_HEIGHT - MARGIN - 14, color: COLORS.border },
+        { type: 'text', x: MARGIN, y: PAGE_HEIGHT - MARGIN, text: `Generado el ${fecha}`, size: 8, color: COLORS.muted },
+        { type: 'text', x: PAGE_WIDTH - MARGIN - measurePdfText(pagina, 8), y: PAGE_HEIGHT - MARGIN, text: pagina, size: 8, color: COLORS.muted }
+      );
+    });
+  }
+}
+
+const crearResumenPdf = (
+  titulo: string,
+  filtros: FiltroExportacion[],
+  graficas: GraficaCapturada[],
+  generado: Date
+): Uint8Array => {
+  const builder = new ResumenPdfLayout();
+
+  builder.heading('Filtros aplicados');
+  if (filtros.length === 0) {
+    builder.paragraph('Sin filtros: valores predeterminados de la vista.', COLORS.muted);
+  }
+  filtros.forEach(filtro => builder.field(filtro.etiqueta, filtro.valor));
+
+  builder.heading(`Contenido (${graficas.length} ${graficas.length === 1 ? 'gráfica' : 'gráficas'})`);
+  graficas.forEach((grafica, indice) => builder.paragraph(`${indice + 1}. ${grafica.datos.titulo}`));
+  builder.paragraph('Los datos completos de cada gráfica se incluyen en la carpeta "datos" (CSV).', COLORS.muted);
+
+  builder.newPage();
+  graficas.forEach((grafica, indice) => builder.chart(grafica, indice + 1));
+
+  builder.finish(titulo, generado);
+  return createPdf({ pages: builder.pages, images: builder.images, title: titulo, author: 'Sistema IPH' });
+};
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * @function exportarVistaEstadisticas
+ * @description Genera el ZIP con PNG, CSV y PDF de las gráficas visibles
+ *
+ * @param {OpcionesExportacionEstadisticas} opciones - Vista, contenedor y filtros
+ *
+ * @returns {Promise<ResultadoExportacionEstadisticas>} ZIP listo para `downloadBlob`
+ *
+ * @throws {Error} Si el contenedor no tiene gráficas visibles
+ *
+ * @example
+ * const { blob, fileName } = await exportarVistaEstadisticas({
+ *   titulo: 'Estadísticas de Justicia Cívica',
+ *   nombreBase: 'estadisticas-justicia-civica',
+ *   contenedor: contenidoRef.current,
+ *   filtros: [{ etiqueta: 'Fecha', valor: '15/04/2025' }]
+ * });
+ * downloadBlob(blob, fileName);
+ */
+export const exportarVistaEstadisticas = async ({
+  titulo,
+  nombreBase,
+  contenedor,
+  filtros
+}: OpcionesExportacionEstadisticas): Promise<ResultadoExportacionEstadisticas> => {
+  const graficas = await capturarGraficas(contenedor);
+  if (graficas.length === 0) {
+    throw new Error('No hay gráficas visibles para exportar. Espere a que carguen los datos.');
+  }
+
+  const generado = new Date();
+  const usados = new Set<string>();
+  const entries: ZipEntry[] = [
+    { name: uniqueZipEntryName('resumen.pdf', usados), data: crearResumenPdf(titulo, filtros, graficas, generado) }
+  ];
+
+  const encoder = new TextEncoder();
+  graficas.forEach((grafica, indice) => {
+    const base = `${String(indice + 1).padStart(2, '0')}-${nombreArchivoSeguro(grafica.datos.titulo)}`;
+    const filas = grafica.datos.etiquetas.map((_, posicion) => posicion);
+    entries.push(
+      { name: uniqueZipEntryName(`graficas/${base}.png`, usados), data: grafica.png },
+      { name: uniqueZipEntryName(`datos/${base}.csv`, usados), data: encoder.encode(buildCsv(columnasGrafica(grafica.datos), filas)) }
+    );
+  });
+
+  const fileName = `${nombreBase}_${formatearFechaInput(generado)}.zip`;
+  logInfo(MODULE_NAME, 'Paquete de estadísticas generado', { fileName, graficas: graficas.length });
+
+  return { blob: createZipBlob(entries), fileName, graficas: graficas.length };
+};
@@ -0,0 +1,237 @@
+/**
+ * @file matriz-horaria.service.ts
+ * @description IPH de un rango de fechas como eventos con fecha y hora para la
+ * matriz día de la semana × hora
+ * @module services/matriz-horaria
+ *
+ * @pattern Composición sobre servicios existentes (sin endpoints nuevos)
+ * @uses fetchAllHistorialPages - Listado filtrado por fechas (fecha de creación y tipo)
+ * @uses getIphById - Detalle por IPH: fecha de conocimiento y detenidos
+ * @uses runBulkOperation - Concurrencia limitada y cancelación
+ * @uses CacheHelper - Los datos mínimos de cada detalle se reutilizan entre consultas
+ *
+ * El listado no incluye detenidos ni la fecha del hecho; solo cuando se piden se
+ * descarga el detalle, con un tope de IPH para no saturar el backend.
+ */
+
+import CacheHelper from '../../../../../helper/cache/cache.helper';
+import { runBulkOperation, throwIfAborted } from '../../../../../helper/bulk/bulk-operation.helper';
+import { logInfo, logWarning } from '../../../../../helper/log/logger.helper';
+
+// Servicios
+import { fetchAllHistorialPages } from '../../historial-iph/services/export-historial-iph.service';
+import { getIphById } from '../../iph-oficial/services/get-iph.service';
+
+// Utils
+import { firstIphItem, toIphList } from '../../../../../utils/iph-oficial';
+import {
+  clasificarTipoIph,
+  extenderRango,
+  fechaEnRango,
+  formatearFechaInput,
+  type EventoHorario,
+  type RangoFechas
+} from '../utils';
+
+// Constantes del módulo
+const MODULE_NAME = 'MatrizHoraria';
+
+const CANCEL_MESSAGE = 'Consulta cancelada';
+
+export const MATRIZ_HORARIA_CONFIG = {
+  /** IPH máximos a los que se descarga el detalle en una consulta */
+  maxDetalles: 500,
+  concurrency: 4,
+  /**
+   * Días después del rango que se consultan al ubicar por fecha de conocimiento:
+   * el listado filtra por fecha de captura, que puede ser posterior al hecho
+   */
+  margenCapturaDias: 7,
+  /** Vigencia del detalle mínimo en cache */
+  cacheMs: 30 * 60 * 1000
+} as const;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Fecha usada para ubicar cada IPH en la matriz
+ * - creacion: cuando se capturó el IPH (solo listado, rápido)
+ * - conocimiento: cuando la autoridad conoció el hecho (requiere detalle)
+ */
+export type FuenteFechaMatriz = 'creacion' | 'conocimiento';
+
+export interface OpcionesEventosHorarios {
+  rango: RangoFechas;
+  fuenteFecha: FuenteFechaMatriz;
+  /** Descargar el detalle para conocer si hubo detenido */
+  incluirDetenidos: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progreso: ProgresoMatrizHoraria) => void;
+}
+
+export interface ProgresoMatrizHoraria {
+  etapa: 'listado' | 'detalle';
+  processed: number;
+  total: number;
+}
+
+export interface ResultadoEventosHorarios {
+  eventos: EventoHorario[];
+  /** Se descargó el detalle (fecha de conocimiento y detenidos disponibles) */
+  conDetalle: boolean;
+  /** IPH sin fecha de conocimiento ubicados por su fecha de creación */
+  sinFechaConocimiento: number;
+  /** IPH cuyo detalle no se pudo descargar (se quedan sin dato de detenido) */
+  detallesFallidos: number;
+  /** El listado se cortó por el límite de páginas: la matriz no incluye todos los IPH */
+  truncado: boolean;
+  /** Rango de fecha de captura consultado (enlaces al Histórico IPH) */
+  rangoListado: RangoFechas;
+}
+
+interface DetalleMinimo {
+  fConocimiento: string | null;
+  conDetenido: boolean;
+  tipo: string | null;
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+const buildCacheKey = (id: string): string => `matriz-horaria:detalle:${id}`;
+
+/**
+ * Solo se conserva lo necesario para la matriz (el IPH completo es pesado)
+ */
+const obtenerDetalleMinimo = async (id: string): Promise<DetalleMinimo> => {
+  const cached = await CacheHelper.get<DetalleMinimo>(buildCacheKey(id));
+  if (cached) return cached;
+
+  const iph = await getIphById(id);
+  const detalle: DetalleMinimo = {
+    fConocimiento: firstIphItem(iph.conocimientoHecho)?.fConocimiento ?? null,
+    conDetenido: toIphList(iph.detencion).length > 0,
+    tipo: firstIphItem(iph.iph)?.tipoIph?.nombre ?? null
+  };
+
+  await CacheHelper.set(buildCacheKey(id), detalle, {
+    expiresIn: MATRIZ_HORARIA_CONFIG.cacheMs,
+    namespace: 'data'
+  });
+  return detalle;
+};
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * @function obtenerEventosHorarios
+ * @description IPH del rango según la fecha elegida para la matriz
+ *
+ * Con fecha de conocimiento se consulta el listado hasta `margenCapturaDias` después
+ * del rango (un hecho del último día puede capturarse días más tarde) y los eventos
+ * se vuelven a filtrar por el rango con su fecha final.
+ *
+ * @param {OpcionesEventosHorarios} opciones - Rango, fecha a usar, detenidos y progreso
+ *
+ * @returns {Promise<ResultadoEventosHorarios>} Eventos y avisos de datos incompletos
+ *
+ * @throws {Error} Si se requiere detalle y el rango excede `MATRIZ_HORARIA_CONFIG.maxDetalles`
+ * @throws {DOMException} `AbortError` si se cancela mediante `signal`
+ *
+ * @example
+ * const { eventos } = await obtenerEventosHorarios({
+ *   rango: { desde: new Date(2025, 3, 1), hasta: new Date(2025, 3, 30) },
+ *   fuenteFecha: 'creacion',
+ *   incluirDetenidos: false
+ * });
+ */
+export const obtenerEventosHorarios = async ({
+  rango,
+  fuenteFecha,
+  incluirDetenidos,
+  signal,
+  onProgress
+}: OpcionesEventosHorarios): Promise<ResultadoEventosHorarios> => {
+  const rangoListado = fuenteFecha === 'conocimiento'
+    ? extenderRango(rango, MATRIZ_HORARIA_CONFIG.margenCapturaDias)
+    : rango;
+  const periodo = {
+    fechaInicio: formatearFechaInput(rangoListado.desde),
+    fechaFin: formatearFechaInput(rangoListado.hasta)
+  };
+  logInfo(MODULE_NAME, 'Consultando IPH para matriz horaria', { ...periodo, fuenteFecha, incluirDetenidos });
+
+  const { registros, truncated: truncado } = await fetchAllHistorialPages(periodo, signal, progress =>
+    onProgress?.({ etapa: 'listado', processed: progress.page, total: progress.totalPages })
+  );
+  throwIfAborted(signal, CANCEL_MESSAGE);
+
+  const eventos: EventoHorario[] = registros.map(registro => ({
+    id: registro.id,
+    referencia: registro.nReferencia,
+    fecha: new Date(registro.fechaCreacion),
+    tipo: clasificarTipoIph(registro.tipoDelito),
+    conDetenido: null
+  }));
+
+  const conDetalle = fuenteFecha === 'conocimiento' || incluirDetenidos;
+  if (!conDetalle) {
+    return { eventos, conDetalle, sinFechaConocimiento: 0, detallesFallidos: 0, truncado, rangoListado };
+  }
+
+  if (eventos.length > MATRIZ_HORARIA_CONFIG.maxDetalles) {
+    throw new Error(
+      `El rango tiene ${eventos.length} IPH; para usar la hora del hecho o filtrar por detenido ` +
+      `el máximo es ${MATRIZ_HORARIA_CONFIG.maxDetalles}. Reduzca el rango de fechas.`
+    );
+  }
+
+  const resultados = await runBulkOperation(eventos, evento => obtenerDetalleMinimo(evento.id), {
+    concurrency: MATRIZ_HORARIA_CONFIG.concurrency,
+    signal,
+    onProgress: ({ processed, total }) => onProgress?.({ etapa: 'detalle', processed, total })
+  });
+  throwIfAborted(signal, CANCEL_MESSAGE);
+
+  let sinFechaConocimiento = 0;
+  let detallesFallidos = 0;
+  const enriquecidos: EventoHorario[] = [];
+
+  // Los IPH del margen de captura solo cuentan si su fecha final cae dentro del rango
+  const fueraDeRango = (fecha: Date) => fuenteFecha === 'conocimiento' && !fechaEnRango(fecha, rango);
+
+  for (const { item: evento, status, result } of resultados) {
+    if (status !== 'success' || !result) {
+      // Sin detalle se conserva la fecha de captura
+      if (fueraDeRango(evento.fecha)) continue;
+      detallesFallidos++;
+      enriquecidos.push(evento);
+      continue;
+    }
+
+    const conocimiento = result.fConocimiento ? new Date(result.fConocimiento) : null;
+    const usarConocimiento = fuenteFecha === 'conocimiento' && conocimiento !== null && !isNaN(conocimiento.getTime());
+    const fecha = usarConocimiento ? conocimiento : evento.fecha;
+
+    if (fueraDeRango(fecha)) continue;
+    if (fuenteFecha === 'conocimiento' && !usarConocimiento) sinFechaConocimiento++;
+
+    enriquecidos.push({
+      ...evento,
+      fecha,
+      tipo: evento.tipo ?? clasificarTipoIph(result.tipo),
+      conDetenido: result.conDetenido
+    });
+  }
+
+  if (detallesFallidos > 0) {
+    logWarning(MODULE_NAME, 'No se pudo descargar el detalle de algunos IPH', { detallesFallidos });
+  }
+
+  return { eventos: enriquecidos, conDetalle, sinFechaConocimiento, detallesFallidos, truncado, rangoListado };
+};
@@ -1,5 +1,5 @@
 import { API_BASE_URL } from "../../../../../config/env.config";
-import {HttpHelper} from "../../../../../helper/http/http.helper";
+import {HttpHelper, type HttpRequestConfig} from "../../../../../helper/http/http.helper";
 import { API_BASE_ROUTES } from "../../../../../config/routes.config";
 //+interfaces 
 import type {
@@ -21,10 +21,19 @@ const http = HttpHelper.getInstance({
   }
 });
 
+/**
+ * Los resúmenes del dashboard cambian poco: se sirven desde caché al instante
+ * y se revalidan en segundo plano al vencer
+ */
+const RESUMEN_CACHE_CONFIG: Omit<HttpRequestConfig, 'method' | 'body'> = {
+  staleWhileRevalidate: true,
+  cacheTTL: 60000
+};
+
 export const getResumenEstadisticas = async (year: number = new Date().getFullYear()): Promise<IResumenPorTipo> => {
   const url: string = `/${API_BASE_ROUTES.ESTADISTICAS}/getSummaryByType/${year}`;
   try {
-    const response = await http.get<IResumenPorTipo>(url);
+    const response = await http.get<IResumenPorTipo>(url, RESUMEN_CACHE_CONFIG);
     const resumenEstadisticas: IResumenPorTipo = response.data;
     if (!resumenEstadisticas) throw new Error('No se encontró el resumen de estadísticas');
     return resumenEstadisticas;
@@ -46,7 +55,7 @@ export const getVariacionResumen = async (year: number = new Date().getFullYear(
   const url : string = `/${API_BASE_ROUTES.ESTADISTICAS}/getTypeVariationSummary?year=${year}&compareTo=${compareTo}`;
   
   try {
-   const response = await http.get<IVariacionResumen>(url);
+   const response = await http.get<IVariacionResumen>(url, RESUMEN_CACHE_CONFIG);
    const variacionResumen : IVariacionResumen = response.data;
    if(!variacionResumen) throw new Error('No se encontró el resumen de variación');
    return variacionResumen;
@@ -64,7 +73,7 @@ export const getVariacionResumen = async (year: number = new Date().getFullYear(
 export const getResumenPorSemana = async (offset: number = -1)=>{
   const url : string = `/${API_BASE_ROUTES.ESTADISTICAS}/getIphsGroupedByWeek/${offset}`;
   try {
-   const response = await http.get<IResumenPorSemana>(url);
+   const response = await http.get<IResumenPorSemana>(url, RESUMEN_CACHE_CONFIG);
    const resumenPorSemana : IResumenPorSemana = response.data;
    if(!resumenPorSemana) throw new Error('No se encontró el resumen por semana');
    return resumenPorSemana;
@@ -81,7 +90,7 @@ export const getResumenPorSemana = async (offset: number = -1)=>{
 export const getResumenPorMes = async(year: number = new Date().getFullYear())=>{
   const url : string = `/${API_BASE_ROUTES.ESTADISTICAS}/getIphsGroupedByMonth/${year}`;
   try {
-   const response = await http.get<IResumenPorMes>(url);
+   const response = await http.get<IResumenPorMes>(url, RESUMEN_CACHE_CONFIG);
    const resumenPorMes : IResumenPorMes = response.data;
    if(!resumenPorMes) throw new Error('No se encontró el resumen por mes');
    return resumenPorMes;
@@ -0,0 +1,63 @@
+/**
+ * Tests para la exportación de datos de gráficas
+ *
+ * @module exportacionGraficasTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  columnasGrafica,
+  nombreArchivoSeguro,
+  normalizarValorGrafica,
+  resumirSeries,
+  type DatosGraficaExportable
+} from './exportacionGraficas';
+
+const datos: DatosGraficaExportable = {
+  titulo: 'IPH por mes',
+  etiquetas: ['Ene', 'Feb', 'Mar'],
+  series: [
+    { nombre: 'Con detenido', valores: [4, 10, 1] },
+    { nombre: 'Intervalo 95%', valores: ['2 – 6', '5 – 15', null] }
+  ]
+};
+
+describe('normalizarValorGrafica', () => {
+  it('convierte números, barras flotantes y puntos', () => {
+    expect(normalizarValorGrafica(7)).toBe(7);
+    expect(normalizarValorGrafica(Number.NaN)).toBeNull();
+    expect(normalizarValorGrafica([3, 9])).toBe('3 – 9');
+    expect(normalizarValorGrafica({ x: 'Ene', y: 4 })).toBe(4);
+    expect(normalizarValorGrafica(undefined)).toBeNull();
+  });
+});
+
+describe('columnasGrafica', () => {
+  it('una columna de etiquetas y una por serie', () => {
+    const columnas = columnasGrafica(datos);
+    expect(columnas.map(columna => columna.label)).toEqual(['Etiqueta', 'Con detenido', 'Intervalo 95%']);
+    expect(columnas[0].value(1)).toBe('Feb');
+    expect(columnas[1].value(1)).toBe(10);
+    expect(columnas[2].value(2)).toBeNull();
+  });
+});
+
+describe('resumirSeries', () => {
+  it('total, máximo y mínimo solo de series numéricas', () => {
+    expect(resumirSeries(datos)).toEqual([{
+      nombre: 'Con detenido',
+      total: 15,
+      maximo: { valor: 10, etiqueta: 'Feb' },
+      minimo: { valor: 1, etiqueta: 'Mar' }
+    }]);
+  });
+});
+
+describe('nombreArchivoSeguro', () => {
+  it('quita acentos y símbolos', () => {
+    expect(nombreArchivoSeguro('Promedio Diario - Octubre 2025')).toBe('promedio-diario-octubre-2025');
+    expect(nombreArchivoSeguro('Justicia Cívica (año)')).toBe('justicia-civica-ano');
+    expect(nombreArchivoSeguro('📊')).toBe('grafica');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Utilidades para exportar los datos de las gráficas de estadísticas
+ * Normalizan los datasets de Chart.js (números, barras flotantes, puntos)
+ * a columnas CSV y resúmenes por serie
+ *
+ * @module exportacionGraficas
+ * @version 1.0.0
+ */
+
+import type { ExportCellValue, ExportColumn } from '../../../../../helper/export/export.helper';
+import { formatearNombreMes } from './formatters';
+import { formatearRango, type RangoFechas } from './rangoFechas';
+
+// =====================================================
+// TIPOS
+// =====================================================
+
+/**
+ * Filtro vigente de la vista, tal como se muestra en pantalla
+ */
+export interface FiltroExportacion {
+  etiqueta: string;
+  valor: string;
+}
+
+export interface SerieExportable {
+  nombre: string;
+  valores: ExportCellValue[];
+}
+
+/**
+ * Datos de una gráfica listos para CSV y PDF
+ */
+export interface DatosGraficaExportable {
+  titulo: string;
+  etiquetas: string[];
+  series: SerieExportable[];
+}
+
+export interface ResumenSerie {
+  nombre: string;
+  total: number;
+  maximo: { etiqueta: string; valor: number };
+  minimo: { etiqueta: string; valor: number };
+}
+
+// =====================================================
+// NORMALIZACIÓN
+// =====================================================
+
+/**
+ * Valor de un punto de Chart.js como celda exportable
+ *
+ * @example
+ * ```typescript
+ * normalizarValorGrafica(12);        // 12
+ * normalizarValorGrafica([3, 9]);    // '3 – 9' (barra flotante)
+ * normalizarValorGrafica({ x: 'Ene', y: 4 }); // 4
+ * ```
+ */
+export const normalizarValorGrafica = (valor: unknown): ExportCellValue => {
+  if (valor === null || valor === undefined) return null;
+  if (typeof valor === 'number') return Number.isFinite(valor) ? valor : null;
+  if (typeof valor === 'string') return valor;
+  if (Array.isArray(valor)) {
+    return valor.length === 2 ? `${valor[0]} – ${valor[1]}` : valor.join(' ');
+  }
+  if (typeof valor === 'object' && 'y' in valor) {
+    return normalizarValorGrafica((valor as { y: unknown }).y);
+  }
+  return null;
+};
+
+/**
+ * Etiqueta del eje como texto (Chart.js admite etiquetas multilínea)
+ */
+export const normalizarEtiquetaGrafica = (etiqueta: unknown): string =>
+  Array.isArray(etiqueta) ? etiqueta.join(' ') : String(etiqueta ?? '');
+
+/**
+ * Columnas CSV de una gráfica; cada fila es el índice de la etiqueta
+ *
+ * @example
+ * ```typescript
+ * const filas = datos.etiquetas.map((_, indice) => indice);
+ * buildCsv(columnasGrafica(datos), filas);
+ * ```
+ */
+export const columnasGrafica = (datos: DatosGraficaExportable): ExportColumn<number>[] => [
+  { key: 'etiqueta', label: 'Etiqueta', value: indice => datos.etiquetas[indice] ?? '' },
+  ...datos.series.map((serie, posicion) => ({
+    key: `serie-${posicion}`,
+    label: serie.nombre || `Serie ${posicion + 1}`,
+    value: (indice: number) => serie.valores[indice] ?? null
+  }))
+];
+
+/**
+ * Total, máximo y mínimo de cada serie numérica (las series sin números se omiten)
+ */
+export const resumirSeries = (datos: DatosGraficaExportable): ResumenSerie[] =>
+  datos.series.flatMap(serie => {
+    const numericos = serie.valores
+      .map((valor, indice) => ({ valor, etiqueta: datos.etiquetas[indice] ?? '' }))
+      .filter((punto): punto is { valor: number; etiqueta: string } => typeof punto.valor === 'number');
+    if (numericos.length === 0) return [];
+
+    let maximo = numericos[0];
+    let minimo = numericos[0];
+    for (const punto of numericos) {
+      if (punto.valor > maximo.valor) maximo = punto;
+      if (punto.valor < minimo.valor) minimo = punto;
+    }
+
+    return [{
+      nombre: serie.nombre,
+      total: numericos.reduce((suma, punto) => suma + punto.valor, 0),
+      maximo,
+      minimo
+    }];
+  });
+
+/**
+ * Nombre de archivo sin acentos ni caracteres especiales
+ *
+ * @example
+ * ```typescript
+ * nombreArchivoSeguro('Promedio Diario - Octubre 2025'); // 'promedio-diario-octubre-2025'
+ * ```
+ */
+export const nombreArchivoSeguro = (texto: string, maximo: number = 60): string =>
+  texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, maximo)
+    .replace(/^-+|-+$/g, '') || 'grafica';
+
+/**
+ * Filtros de las vistas por periodo (Justicia Cívica y Probable Delictivo)
+ *
+ * @param fecha - Fecha seleccionada en los filtros de día/mes/año
+ * @param comparacion - Rangos de la comparación, solo si ya se consultó
+ *
+ * @example
+ * ```typescript
+ * filtrosPeriodoExportacion({ anio: 2025, mes: 4, dia: 15 });
+ * // [{ etiqueta: 'Fecha consultada', valor: '15 de Abril de 2025' }, ...]
+ * ```
+ */
+export const filtrosPeriodoExportacion = (
+  fecha: { anio: number; mes: number; dia: number },
+  comparacion?: { rango: RangoFechas; rangoComparacion: RangoFechas } | null
+): FiltroExportacion[] => [
+  { etiqueta: 'Fecha consultada', valor: `${fecha.dia} de ${formatearNombreMes(fecha.mes)} de ${fecha.anio}` },
+  { etiqueta: 'Periodos', valor: `Diario (día ${fecha.dia}), mensual (${formatearNombreMes(fecha.mes)}) y anual (${fecha.anio})` },
+  ...(comparacion
+    ? [
+      { etiqueta: 'Rango analizado', valor: formatearRango(comparacion.rango) },
+      { etiqueta: 'Comparado contra', valor: formatearRango(comparacion.rangoComparacion) }
+    ]
+    : [])
+];
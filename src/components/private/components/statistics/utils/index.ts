@@ -1,9 +1,14 @@
 /**
  * Barrel export para utilidades de estadísticas
- * Centraliza exports de cálculos y formatters
+ * Centraliza exports de cálculos, formatters, rangos, pronósticos, matriz horaria y exportación
  *
  * @module utils
  */
 
 export * from './calculosEstadisticos';
 export * from './formatters';
+export * from './rangoFechas';
+export * from './pronosticos';
+export * from './tendenciaGrafica';
+export * from './matrizHoraria';
+export * from './exportacionGraficas';
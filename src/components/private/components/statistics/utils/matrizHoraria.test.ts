@@ -0,0 +1,74 @@
+/**
+ * Tests para la matriz día de la semana × hora
+ *
+ * @module matrizHorariaTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clasificarTipoIph,
+  construirMatrizHoraria,
+  eventosDeCelda,
+  filtrarEventosHorarios,
+  indiceDiaSemana,
+  obtenerCeldasPico,
+  type EventoHorario
+} from './matrizHoraria';
+
+const evento = (
+  id: string,
+  fecha: Date,
+  tipo: EventoHorario['tipo'] = 'justicia-civica',
+  conDetenido: boolean | null = null
+): EventoHorario => ({ id, referencia: `REF-${id}`, fecha, tipo, conDetenido });
+
+// 2025-04-14 es lunes
+const eventos = [
+  evento('1', new Date(2025, 3, 14, 8, 15), 'justicia-civica', true),
+  evento('2', new Date(2025, 3, 14, 8, 50), 'probable-delictivo', false),
+  evento('3', new Date(2025, 3, 20, 23, 5), 'probable-delictivo', true),
+  evento('4', new Date(2025, 3, 21, 8, 0), 'justicia-civica', null)
+];
+
+describe('clasificación', () => {
+  it('lunes = 0 y domingo = 6', () => {
+    expect(indiceDiaSemana(new Date(2025, 3, 14))).toBe(0);
+    expect(indiceDiaSemana(new Date(2025, 3, 20))).toBe(6);
+  });
+
+  it('reconoce el tipo de IPH sin importar acentos', () => {
+    expect(clasificarTipoIph('JUSTICIA CÍVICA')).toBe('justicia-civica');
+    expect(clasificarTipoIph('Probable hecho delictivo')).toBe('probable-delictivo');
+    expect(clasificarTipoIph(undefined)).toBeNull();
+  });
+});
+
+describe('construirMatrizHoraria', () => {
+  it('cuenta por día y hora con totales', () => {
+    const matriz = construirMatrizHoraria(eventos);
+    expect(matriz.celdas[0][8]).toBe(3);
+    expect(matriz.celdas[6][23]).toBe(1);
+    expect(matriz.totalesDia[0]).toBe(3);
+    expect(matriz.totalesHora[8]).toBe(3);
+    expect(matriz.total).toBe(4);
+    expect(matriz.maximo).toBe(3);
+  });
+
+  it('celdas pico y eventos de una celda', () => {
+    const matriz = construirMatrizHoraria(eventos);
+    expect(obtenerCeldasPico(matriz, 5)).toEqual([
+      { dia: 0, hora: 8, total: 3 },
+      { dia: 6, hora: 23, total: 1 }
+    ]);
+    expect(eventosDeCelda(eventos, 0, 8).map(actual => actual.id)).toEqual(['4', '2', '1']);
+  });
+});
+
+describe('filtrarEventosHorarios', () => {
+  it('filtra por tipo y por detenido (sin detalle se excluye)', () => {
+    expect(filtrarEventosHorarios(eventos, { tipo: 'probable-delictivo', detenido: 'todos' })).toHaveLength(2);
+    expect(filtrarEventosHorarios(eventos, { tipo: 'todos', detenido: 'con' })).toHaveLength(2);
+    expect(filtrarEventosHorarios(eventos, { tipo: 'justicia-civica', detenido: 'sin' })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Utilidades para la matriz día de la semana × hora del día
+ * Agrupa IPH por el momento en que ocurrieron para planear turnos
+ *
+ * @module matrizHoraria
+ * @version 1.0.0
+ */
+
+import type { FuenteEstadistica } from '../services/estadisticas-periodo.service';
+
+// =====================================================
+// TIPOS
+// =====================================================
+
+export interface EventoHorario {
+  id: string;
+  referencia: string;
+  fecha: Date;
+  /** Tipo de IPH (null si el nombre del tipo no se reconoce) */
+  tipo: FuenteEstadistica | null;
+  /** null mientras no se descargue el detalle del IPH */
+  conDetenido: boolean | null;
+}
+
+export interface FiltrosMatrizHoraria {
+  tipo: 'todos' | FuenteEstadistica;
+  detenido: 'todos' | 'con' | 'sin';
+}
+
+export interface MatrizHoraria {
+  /** celdas[dia][hora], lunes = 0 */
+  celdas: number[][];
+  totalesDia: number[];
+  totalesHora: number[];
+  total: number;
+  /** Valor de la celda más alta (escala de color) */
+  maximo: number;
+}
+
+export interface CeldaHoraria {
+  dia: number;
+  hora: number;
+  total: number;
+}
+
+export const DIAS_MATRIZ = ['Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado', 'Domingo'] as const;
+export const HORAS_MATRIZ = 24;
+
+// =====================================================
+// CLASIFICACIÓN
+// =====================================================
+
+/**
+ * Día de la semana con lunes = 0 y domingo = 6
+ */
+export const indiceDiaSemana = (fecha: Date): number => (fecha.getDay() + 6) % 7;
+
+/**
+ * Clasificar el nombre del tipo de IPH
+ *
+ * @param nombre - Nombre del tipo tal como lo envía el backend
+ * @returns Fuente estadística o null si no se reconoce
+ *
+ * @example
+ * ```typescript
+ * clasificarTipoIph('Justicia Cívica'); // 'justicia-civica'
+ * clasificarTipoIph('Probable Hecho Delictivo'); // 'probable-delictivo'
+ * ```
+ */
+export const clasificarTipoIph = (nombre?: string | null): FuenteEstadistica | null => {
+  const normalizado = (nombre ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  if (normalizado.includes('civica')) return 'justicia-civica';
+  if (normalizado.includes('delict')) return 'probable-delictivo';
+  return null;
+};
+
+/**
+ * Aplicar los filtros de tipo y detenido
+ * Con filtro de detenido, los eventos sin detalle (conDetenido null) se excluyen
+ */
+export const filtrarEventosHorarios = (
+  eventos: EventoHorario[],
+  filtros: FiltrosMatrizHoraria
+): EventoHorario[] =>
+  eventos.filter(evento => {
+    if (filtros.tipo !== 'todos' && evento.tipo !== filtros.tipo) return false;
+    if (filtros.detenido === 'con') return evento.conDetenido === true;
+    if (filtros.detenido === 'sin') return evento.conDetenido === false;
+    return true;
+  });
+
+// =====================================================
+// MATRIZ
+// =====================================================
+
+/**
+ * Construir la matriz 7×24 de conteos
+ *
+ * @param eventos - Eventos ya filtrados
+ * @returns Conteos por celda, totales por día y por hora
+ *
+ * @example
+ * ```typescript
+ * const matriz = construirMatrizHoraria(eventos);
+ * matriz.celdas[4][22]; // IPH del viernes entre 22:00 y 22:59
+ * ```
+ */
+export const construirMatrizHoraria = (eventos: EventoHorario[]): MatrizHoraria => {
+  const celdas = DIAS_MATRIZ.map(() => new Array<number>(HORAS_MATRIZ).fill(0));
+
+  for (const evento of eventos) {
+    if (isNaN(evento.fecha.getTime())) continue;
+    celdas[indiceDiaSemana(evento.fecha)][evento.fecha.getHours()]++;
+  }
+
+  const totalesDia = celdas.map(fila => fila.reduce((suma, valor) => suma + valor, 0));
+  const totalesHora = Array.from({ length: HORAS_MATRIZ }, (_, hora) =>
+    celdas.reduce((suma, fila) => suma + fila[hora], 0)
+  );
+
+  return {
+    celdas,
+    totalesDia,
+    totalesHora,
+    total: totalesDia.reduce((suma, valor) => suma + valor, 0),
+    maximo: Math.max(0, ...celdas.flat())
+  };
+};
+
+/**
+ * Eventos que caen en una celda (para el detalle)
+ */
+export const eventosDeCelda = (eventos: EventoHorario[], dia: number, hora: number): EventoHorario[] =>
+  eventos
+    .filter(evento => indiceDiaSemana(evento.fecha) === dia && evento.fecha.getHours() === hora)
+    .sort((a, b) => b.fecha.getTime() - a.fecha.getTime());
+
+/**
+ * Celdas con más incidencia, de mayor a menor
+ *
+ * @param matriz - Matriz construida
+ * @param cantidad - Número de celdas a devolver
+ * @returns Celdas con total mayor a 0 (empates: día y hora más tempranos primero)
+ */
+export const obtenerCeldasPico = (matriz: MatrizHoraria, cantidad: number = 3): CeldaHoraria[] =>
+  matriz.celdas
+    .flatMap((fila, dia) => fila.map((total, hora) => ({ dia, hora, total })))
+    .filter(celda => celda.total > 0)
+    .sort((a, b) => b.total - a.total || a.dia - b.dia || a.hora - b.hora)
+    .slice(0, cantidad);
+
+/**
+ * Etiqueta de una franja horaria
+ *
+ * @example
+ * ```typescript
+ * formatearFranjaHoraria(7); // "07:00 – 07:59"
+ * ```
+ */
+export const formatearFranjaHoraria = (hora: number): string => {
+  const hh = String(hora).padStart(2, '0');
+  return `${hh}:00 – ${hh}:59`;
+};
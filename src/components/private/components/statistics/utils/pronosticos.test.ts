@@ -0,0 +1,81 @@
+/**
+ * Tests para pronósticos y detección de anomalías
+ *
+ * @module pronosticosTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ajustarLineaBase,
+  calcularDesviacionEstandar,
+  calcularMediaMovil,
+  detectarAnomalias,
+  pronosticarSerie
+} from './pronosticos';
+
+describe('estadísticos básicos', () => {
+  it('desviación estándar muestral', () => {
+    expect(calcularDesviacionEstandar([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+    expect(calcularDesviacionEstandar([5])).toBe(0);
+  });
+
+  it('media móvil de los periodos anteriores', () => {
+    expect(calcularMediaMovil([10, 20, 30, 40], 2)).toEqual([null, null, 15, 25]);
+  });
+});
+
+describe('ajustarLineaBase', () => {
+  it('sin periodo estacional equivale a la media móvil', () => {
+    expect(ajustarLineaBase([3, 6, 9, 12], { ventana: 3 })).toEqual([null, null, null, 6]);
+  });
+
+  it('combina con el mismo periodo de la temporada anterior', () => {
+    // Patrón semanal: domingo (índice 6) siempre alto
+    const semana = [10, 10, 10, 10, 10, 10, 40];
+    const serie = [...semana, ...semana];
+    const base = ajustarLineaBase(serie, { ventana: 3, periodoEstacional: 7, pesoEstacional: 1 });
+    expect(base[13]).toBe(40);
+    expect(base[10]).toBe(10);
+  });
+});
+
+describe('pronosticarSerie', () => {
+  it('serie constante: proyección plana y banda nula', () => {
+    const puntos = pronosticarSerie([20, 20, 20, 20, 20, 20], { horizonte: 3, ventana: 3 });
+    expect(puntos).toHaveLength(3);
+    expect(puntos[0]).toEqual({ indice: 6, valor: 20, inferior: 20, superior: 20 });
+  });
+
+  it('la banda se amplía con el horizonte y no baja de cero', () => {
+    const puntos = pronosticarSerie([2, 9, 1, 8, 0, 10, 3, 7], { horizonte: 4, ventana: 2 });
+    expect(puntos[3].superior - puntos[3].valor).toBeGreaterThan(puntos[0].superior - puntos[0].valor);
+    expect(puntos.every(punto => punto.inferior >= 0)).toBe(true);
+  });
+
+  it('sin historia suficiente no proyecta', () => {
+    expect(pronosticarSerie([5, 6], { horizonte: 3, ventana: 3 })).toHaveLength(0);
+  });
+});
+
+describe('detectarAnomalias', () => {
+  it('marca un pico aislado', () => {
+    const anomalias = detectarAnomalias([10, 12, 11, 9, 10, 48, 11]);
+    expect(anomalias).toHaveLength(1);
+    expect(anomalias[0].indice).toBe(5);
+    expect(anomalias[0].tipo).toBe('alza');
+    expect(anomalias[0].esperado).toBe(11);
+  });
+
+  it('usa la línea base cuando se proporciona', () => {
+    const serie = [10, 10, 10, 10, 10, 10, 10, 40];
+    // Con una línea base que ya espera el 40 no es atípico; contra la mediana sí
+    expect(detectarAnomalias(serie, { lineaBase: serie })).toHaveLength(0);
+    expect(detectarAnomalias(serie)).toHaveLength(1);
+  });
+
+  it('serie plana o corta no tiene anomalías', () => {
+    expect(detectarAnomalias([5, 5, 5, 5, 5, 5, 5])).toHaveLength(0);
+    expect(detectarAnomalias([1, 100])).toHaveLength(0);
+  });
+});
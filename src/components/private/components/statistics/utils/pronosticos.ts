@@ -0,0 +1,300 @@
+/**
+ * Utilidades de pronóstico y detección de valores atípicos
+ * Línea base estacional (media móvil + mismo periodo anterior), proyección
+ * con banda de confianza y puntuación robusta de anomalías
+ *
+ * @module pronosticos
+ * @version 1.0.0
+ */
+
+import { calcularMediana, calcularSuma } from './calculosEstadisticos';
+
+// =====================================================
+// TIPOS
+// =====================================================
+
+export interface OpcionesLineaBase {
+  /** Periodos usados en la media móvil (default: 3) */
+  ventana?: number;
+  /**
+   * Longitud de la temporada dentro de la serie (12 en series mensuales,
+   * 7 en series diarias). Sin valor solo se usa la media móvil
+   */
+  periodoEstacional?: number;
+  /** Peso del componente estacional, entre 0 y 1 (default: 0.5) */
+  pesoEstacional?: number;
+}
+
+export interface OpcionesPronostico extends OpcionesLineaBase {
+  /** Periodos a proyectar */
+  horizonte: number;
+  /** Valor z de la banda de confianza (default: 1.96 ≈ 95%) */
+  z?: number;
+}
+
+export interface PuntoPronostico {
+  /** Posición del periodo proyectado (continúa la numeración de la serie) */
+  indice: number;
+  valor: number;
+  inferior: number;
+  superior: number;
+}
+
+export interface AnomaliaSerie {
+  indice: number;
+  valor: number;
+  /** Valor esperado según la línea base */
+  esperado: number;
+  /** Puntuación z modificada (positiva = por encima de lo esperado) */
+  puntuacion: number;
+  tipo: 'alza' | 'baja';
+}
+
+/**
+ * Pronóstico y anomalías ubicados sobre una gráfica
+ * (`indice` es la posición de la barra, no la de la serie histórica)
+ */
+export interface TendenciaGrafica {
+  pronostico: Array<PuntoPronostico & { etiqueta: string }>;
+  anomalias: AnomaliaSerie[];
+}
+
+export interface OpcionesAnomalias {
+  /** Línea base contra la que se miden los residuos (default: mediana de la serie) */
+  lineaBase?: Array<number | null>;
+  /** Puntuación mínima para marcar un valor (default: 3.5, Iglewicz-Hoaglin) */
+  umbral?: number;
+  /** Tamaño mínimo de la serie para evaluar anomalías (default: 6) */
+  minimoPuntos?: number;
+}
+
+// Constantes del módulo
+const VENTANA_DEFAULT = 3;
+const PESO_ESTACIONAL_DEFAULT = 0.5;
+const Z_DEFAULT = 1.96;
+const UMBRAL_ANOMALIA_DEFAULT = 3.5;
+const MINIMO_PUNTOS_DEFAULT = 6;
+/** Límites del ajuste de nivel entre temporadas (evita saltos por años atípicos) */
+const FACTOR_NIVEL_MIN = 0.5;
+const FACTOR_NIVEL_MAX = 2;
+
+const redondear = (valor: number): number => Number(valor.toFixed(1));
+
+const promedioExacto = (valores: number[]): number =>
+  valores.length === 0 ? 0 : calcularSuma(valores) / valores.length;
+
+// =====================================================
+// ESTADÍSTICOS BÁSICOS
+// =====================================================
+
+/**
+ * Calcular desviación estándar muestral
+ *
+ * @param valores - Array de valores numéricos
+ * @returns Desviación estándar (0 con menos de 2 valores)
+ *
+ * @example
+ * ```typescript
+ * const sigma = calcularDesviacionEstandar([2, 4, 4, 4, 5, 5, 7, 9]);
+ * // Returns: 2.138...
+ * ```
+ */
+export const calcularDesviacionEstandar = (valores: number[]): number => {
+  if (valores.length < 2) return 0;
+  const media = promedioExacto(valores);
+  const sumaCuadrados = valores.reduce((acc, val) => acc + (val - media) ** 2, 0);
+  return Math.sqrt(sumaCuadrados / (valores.length - 1));
+};
+
+/**
+ * Calcular media móvil de los periodos anteriores
+ *
+ * @param valores - Serie cronológica
+ * @param ventana - Periodos a promediar
+ * @returns Media de los `ventana` periodos previos a cada índice (null si no hay suficientes)
+ *
+ * @example
+ * ```typescript
+ * const media = calcularMediaMovil([10, 20, 30, 40], 2);
+ * // Returns: [null, null, 15, 25]
+ * ```
+ */
+export const calcularMediaMovil = (valores: number[], ventana: number): Array<number | null> =>
+  valores.map((_, indice) =>
+    indice < ventana ? null : promedioExacto(valores.slice(indice - ventana, indice))
+  );
+
+/**
+ * Sumar varias series periodo a periodo (p.ej. los datasets de una gráfica)
+ *
+ * @param series - Series de igual longitud
+ * @returns Serie con la suma de cada periodo
+ *
+ * @example
+ * ```typescript
+ * const total = sumarSeries([[1, 2, 3], [10, 20, 30]]);
+ * // Returns: [11, 22, 33]
+ * ```
+ */
+export const sumarSeries = (series: number[][]): number[] => {
+  const longitud = Math.max(0, ...series.map(serie => serie.length));
+  return Array.from({ length: longitud }, (_, indice) =>
+    calcularSuma(series.map(serie => Number(serie[indice]) || 0))
+  );
+};
+
+// =====================================================
+// LÍNEA BASE Y PRONÓSTICO
+// =====================================================
+
+/**
+ * Valor esperado del índice a partir de los periodos anteriores
+ * Combina la media móvil con el mismo periodo de la temporada anterior,
+ * escalado por la relación de nivel entre ambas temporadas
+ */
+const estimarPeriodo = (
+  serie: number[],
+  indice: number,
+  opciones: OpcionesLineaBase
+): number | null => {
+  const ventana = opciones.ventana ?? VENTANA_DEFAULT;
+  if (indice < ventana) return null;
+
+  const recientes = serie.slice(indice - ventana, indice);
+  const mediaMovil = promedioExacto(recientes);
+
+  const periodo = opciones.periodoEstacional;
+  if (!periodo || indice - periodo - ventana < 0) return mediaMovil;
+
+  const mismoPeriodo = serie[indice - periodo];
+  const temporadaAnterior = calcularSuma(serie.slice(indice - periodo - ventana, indice - periodo));
+  const factorNivel = temporadaAnterior > 0
+    ? Math.min(FACTOR_NIVEL_MAX, Math.max(FACTOR_NIVEL_MIN, calcularSuma(recientes) / temporadaAnterior))
+    : 1;
+
+  const peso = Math.min(1, Math.max(0, opciones.pesoEstacional ?? PESO_ESTACIONAL_DEFAULT));
+  return (1 - peso) * mediaMovil + peso * mismoPeriodo * factorNivel;
+};
+
+/**
+ * Ajustar la línea base estacional de una serie
+ *
+ * @param serie - Serie cronológica (conteos por día, semana o mes)
+ * @param opciones - Ventana de media móvil y periodo estacional
+ * @returns Valor esperado de cada periodo (null donde no hay historia suficiente)
+ *
+ * @example
+ * ```typescript
+ * // 36 meses: media móvil de 3 meses + mismo mes del año anterior
+ * const base = ajustarLineaBase(meses, { ventana: 3, periodoEstacional: 12 });
+ * ```
+ */
+export const ajustarLineaBase = (
+  serie: number[],
+  opciones: OpcionesLineaBase = {}
+): Array<number | null> => serie.map((_, indice) => {
+  const estimado = estimarPeriodo(serie, indice, opciones);
+  return estimado === null ? null : redondear(estimado);
+});
+
+/**
+ * Proyectar los siguientes periodos de una serie
+ * La banda usa la desviación de los residuos del ajuste y se amplía con √h
+ * conforme se aleja el horizonte; nunca baja de cero (son conteos)
+ *
+ * @param serie - Serie cronológica con los periodos ya cerrados
+ * @param opciones - Horizonte, línea base y nivel de confianza
+ * @returns Puntos proyectados (vacío si la serie es más corta que la ventana)
+ *
+ * @example
+ * ```typescript
+ * const siguientes = pronosticarSerie(semanas, { horizonte: 4, ventana: 4 });
+ * // [{ indice: 8, valor: 41.5, inferior: 30.2, superior: 52.8 }, ...]
+ * ```
+ */
+export const pronosticarSerie = (serie: number[], opciones: OpcionesPronostico): PuntoPronostico[] => {
+  const ventana = opciones.ventana ?? VENTANA_DEFAULT;
+  if (serie.length < ventana || opciones.horizonte <= 0) return [];
+
+  const ajuste = ajustarLineaBase(serie, opciones);
+  const residuos = serie.flatMap((valor, indice) => {
+    const esperado = ajuste[indice];
+    return esperado === null ? [] : [valor - esperado];
+  });
+  const sigma = residuos.length >= 2
+    ? calcularDesviacionEstandar(residuos)
+    : calcularDesviacionEstandar(serie);
+  const z = opciones.z ?? Z_DEFAULT;
+
+  // Proyección recursiva: cada periodo proyectado alimenta la media móvil del siguiente
+  const extendida = [...serie];
+  const puntos: PuntoPronostico[] = [];
+
+  for (let paso = 1; paso <= opciones.horizonte; paso++) {
+    const indice = extendida.length;
+    const valor = Math.max(0, estimarPeriodo(extendida, indice, opciones) ?? 0);
+    const margen = z * sigma * Math.sqrt(paso);
+
+    puntos.push({
+      indice,
+      valor: redondear(valor),
+      inferior: redondear(Math.max(0, valor - margen)),
+      superior: redondear(valor + margen)
+    });
+    extendida.push(valor);
+  }
+
+  return puntos;
+};
+
+// =====================================================
+// ANOMALÍAS
+// =====================================================
+
+/**
+ * Detectar valores atípicos con la puntuación z modificada
+ * Usa mediana y desviación absoluta mediana (MAD) de los residuos para que
+ * un pico aislado no infle la dispersión y se oculte a sí mismo
+ *
+ * @param serie - Serie cronológica
+ * @param opciones - Línea base, umbral y tamaño mínimo
+ * @returns Periodos marcados, en orden cronológico
+ *
+ * @example
+ * ```typescript
+ * const atipicos = detectarAnomalias([10, 12, 11, 9, 10, 48, 11]);
+ * // [{ indice: 5, valor: 48, esperado: 11, puntuacion: 25, tipo: 'alza' }]
+ * ```
+ */
+export const detectarAnomalias = (
+  serie: number[],
+  opciones: OpcionesAnomalias = {}
+): AnomaliaSerie[] => {
+  if (serie.length < (opciones.minimoPuntos ?? MINIMO_PUNTOS_DEFAULT)) return [];
+
+  const mediana = calcularMediana(serie);
+  const esperados = serie.map((_, indice) => opciones.lineaBase?.[indice] ?? mediana);
+  const residuos = serie.map((valor, indice) => valor - esperados[indice]);
+
+  const centro = calcularMediana(residuos);
+  const desviaciones = residuos.map(residuo => Math.abs(residuo - centro));
+  const mad = calcularMediana(desviaciones);
+
+  // Con más de la mitad de residuos iguales la MAD es 0: se usa la desviación media absoluta
+  const escala = mad > 0 ? mad / 0.6745 : promedioExacto(desviaciones) * 1.2533;
+  if (escala === 0) return [];
+
+  const umbral = opciones.umbral ?? UMBRAL_ANOMALIA_DEFAULT;
+
+  return serie.flatMap((valor, indice) => {
+    const puntuacion = (residuos[indice] - centro) / escala;
+    if (Math.abs(puntuacion) < umbral) return [];
+    return [{
+      indice,
+      valor,
+      esperado: redondear(esperados[indice]),
+      puntuacion: redondear(puntuacion),
+      tipo: puntuacion > 0 ? 'alza' as const : 'baja' as const
+    }];
+  });
+};
@@ -0,0 +1,87 @@
+/**
+ * Tests para la descomposición de rangos de fechas
+ *
+ * @module rangoFechasTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calcularRangoComparacion,
+  contarDiasRango,
+  descomponerRango,
+  esRangoValido,
+  extenderRango,
+  fechaEnRango,
+  formatearFechaInput,
+  parsearFechaInput
+} from './rangoFechas';
+
+const fecha = (anio: number, mes: number, dia: number) => new Date(anio, mes - 1, dia);
+
+describe('descomponerRango', () => {
+  it('usa consultas diarias para una semana', () => {
+    const segmentos = descomponerRango({ desde: fecha(2025, 4, 13), hasta: fecha(2025, 4, 19) });
+    expect(segmentos).toHaveLength(7);
+    expect(segmentos[0]).toEqual({ tipo: 'diaria', anio: 2025, mes: 4, dia: 13 });
+  });
+
+  it('agrupa meses y años completos', () => {
+    const segmentos = descomponerRango({ desde: fecha(2023, 12, 30), hasta: fecha(2025, 2, 28) });
+    expect(segmentos).toEqual([
+      { tipo: 'diaria', anio: 2023, mes: 12, dia: 30 },
+      { tipo: 'diaria', anio: 2023, mes: 12, dia: 31 },
+      { tipo: 'anual', anio: 2024 },
+      { tipo: 'mensual', anio: 2025, mes: 1 },
+      { tipo: 'mensual', anio: 2025, mes: 2 }
+    ]);
+  });
+
+  it('ignora la hora y devuelve vacío si el rango está invertido', () => {
+    expect(descomponerRango({ desde: new Date(2025, 0, 1, 23, 59), hasta: new Date(2025, 0, 1, 0, 1) })).toHaveLength(1);
+    expect(descomponerRango({ desde: fecha(2025, 1, 2), hasta: fecha(2025, 1, 1) })).toHaveLength(0);
+  });
+});
+
+describe('calcularRangoComparacion', () => {
+  it('periodo anterior con el mismo número de días', () => {
+    const rango = calcularRangoComparacion({ desde: fecha(2025, 3, 1), hasta: fecha(2025, 3, 10) }, 'periodo-anterior');
+    expect(formatearFechaInput(rango.desde)).toBe('2025-02-19');
+    expect(formatearFechaInput(rango.hasta)).toBe('2025-02-28');
+  });
+
+  it('mismas fechas del año anterior (29 de febrero → 28)', () => {
+    const rango = calcularRangoComparacion({ desde: fecha(2024, 2, 29), hasta: fecha(2024, 3, 6) }, 'anio-anterior');
+    expect(formatearFechaInput(rango.desde)).toBe('2023-02-28');
+    expect(formatearFechaInput(rango.hasta)).toBe('2023-03-06');
+  });
+});
+
+describe('contarDiasRango / esRangoValido', () => {
+  it('cuenta días incluyendo ambos extremos', () => {
+    expect(contarDiasRango({ desde: fecha(2024, 1, 1), hasta: fecha(2024, 12, 31) })).toBe(366);
+  });
+
+  it('valida fechas y orden', () => {
+    expect(esRangoValido({ desde: fecha(2025, 1, 1), hasta: fecha(2025, 1, 1) })).toBe(true);
+    expect(esRangoValido({ desde: parsearFechaInput('2025-02-01'), hasta: fecha(2025, 1, 31) })).toBe(false);
+    expect(esRangoValido({ desde: new Date('x'), hasta: fecha(2025, 1, 1) })).toBe(false);
+  });
+});
+
+describe('fechaEnRango / extenderRango', () => {
+  const rango = { desde: fecha(2025, 4, 1), hasta: fecha(2025, 4, 30) };
+
+  it('incluye todo el último día y excluye el siguiente', () => {
+    expect(fechaEnRango(new Date(2025, 3, 1, 0, 0), rango)).toBe(true);
+    expect(fechaEnRango(new Date(2025, 3, 30, 23, 59), rango)).toBe(true);
+    expect(fechaEnRango(new Date(2025, 4, 1, 0, 0), rango)).toBe(false);
+    expect(fechaEnRango(new Date(2025, 2, 31, 23, 59), rango)).toBe(false);
+  });
+
+  it('recorre solo el fin del rango', () => {
+    const extendido = extenderRango(rango, 7);
+    expect(formatearFechaInput(extendido.desde)).toBe('2025-04-01');
+    expect(formatearFechaInput(extendido.hasta)).toBe('2025-05-07');
+  });
+});
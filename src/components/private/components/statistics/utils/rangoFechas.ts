@@ -0,0 +1,186 @@
+/**
+ * Utilidades para consultas por rango de fechas
+ * Los endpoints de estadísticas solo aceptan día, mes o año completo; estas
+ * funciones parten cualquier intervalo [desde, hasta] en el menor número de
+ * consultas y calculan el intervalo de comparación
+ *
+ * @module rangoFechas
+ * @version 1.0.0
+ */
+
+/**
+ * Intervalo de fechas inclusivo (solo se considera la fecha, no la hora)
+ */
+export interface RangoFechas {
+  desde: Date;
+  hasta: Date;
+}
+
+/**
+ * Consulta que cubre una parte del rango con un endpoint existente
+ */
+export type SegmentoRango =
+  | { tipo: 'anual'; anio: number }
+  | { tipo: 'mensual'; anio: number; mes: number }
+  | { tipo: 'diaria'; anio: number; mes: number; dia: number };
+
+/**
+ * Contra qué se compara el rango:
+ * - periodo-anterior: el mismo número de días inmediatamente antes
+ * - anio-anterior: las mismas fechas del año anterior
+ * - personalizado: un segundo rango elegido por el usuario
+ */
+export type ModoComparacion = 'periodo-anterior' | 'anio-anterior' | 'personalizado';
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+/**
+ * Fecha a medianoche local (descarta la hora)
+ */
+export const inicioDelDia = (fecha: Date): Date =>
+  new Date(fecha.getFullYear(), fecha.getMonth(), fecha.getDate());
+
+const sumarDias = (fecha: Date, dias: number): Date =>
+  new Date(fecha.getFullYear(), fecha.getMonth(), fecha.getDate() + dias);
+
+const diasEnMes = (anio: number, mes: number): number => new Date(anio, mes, 0).getDate();
+
+/**
+ * Número de días del rango (inclusivo)
+ *
+ * @example
+ * ```typescript
+ * contarDiasRango({ desde: new Date(2025, 0, 1), hasta: new Date(2025, 0, 7) });
+ * // Returns: 7
+ * ```
+ */
+export const contarDiasRango = (rango: RangoFechas): number => {
+  const desde = inicioDelDia(rango.desde);
+  const hasta = inicioDelDia(rango.hasta);
+  // Math.round absorbe el cambio de horario de verano
+  return Math.max(0, Math.round((hasta.getTime() - desde.getTime()) / MS_POR_DIA) + 1);
+};
+
+/**
+ * Parte el rango en años, meses y días completos (en ese orden de preferencia)
+ *
+ * @example
+ * ```typescript
+ * descomponerRango({ desde: new Date(2024, 11, 30), hasta: new Date(2025, 1, 28) });
+ * // Returns: [30/12/2024, 31/12/2024, enero 2025, febrero 2025]
+ * ```
+ */
+export const descomponerRango = (rango: RangoFechas): SegmentoRango[] => {
+  const hasta = inicioDelDia(rango.hasta);
+  const segmentos: SegmentoRango[] = [];
+  let cursor = inicioDelDia(rango.desde);
+
+  while (cursor <= hasta) {
+    const anio = cursor.getFullYear();
+    const mes = cursor.getMonth() + 1;
+    const dia = cursor.getDate();
+
+    if (mes === 1 && dia === 1 && new Date(anio, 11, 31) <= hasta) {
+      segmentos.push({ tipo: 'anual', anio });
+      cursor = new Date(anio + 1, 0, 1);
+    } else if (dia === 1 && new Date(anio, mes - 1, diasEnMes(anio, mes)) <= hasta) {
+      segmentos.push({ tipo: 'mensual', anio, mes });
+      cursor = new Date(anio, mes, 1);
+    } else {
+      segmentos.push({ tipo: 'diaria', anio, mes, dia });
+      cursor = sumarDias(cursor, 1);
+    }
+  }
+
+  return segmentos;
+};
+
+/**
+ * Mismo día y mes con otro año (29 de febrero pasa a 28 en años no bisiestos)
+ */
+const cambiarAnio = (fecha: Date, anios: number): Date => {
+  const anio = fecha.getFullYear() + anios;
+  const mes = fecha.getMonth();
+  return new Date(anio, mes, Math.min(fecha.getDate(), diasEnMes(anio, mes + 1)));
+};
+
+/**
+ * Rango de comparación automático
+ *
+ * @example
+ * ```typescript
+ * // Semana santa 2025 contra la misma semana de 2024
+ * calcularRangoComparacion({ desde: new Date(2025, 3, 13), hasta: new Date(2025, 3, 19) }, 'anio-anterior');
+ * // Returns: { desde: 13/04/2024, hasta: 19/04/2024 }
+ * ```
+ */
+export const calcularRangoComparacion = (
+  rango: RangoFechas,
+  modo: Exclude<ModoComparacion, 'personalizado'>
+): RangoFechas => {
+  if (modo === 'anio-anterior') {
+    return { desde: cambiarAnio(rango.desde, -1), hasta: cambiarAnio(rango.hasta, -1) };
+  }
+
+  const dias = contarDiasRango(rango);
+  const desde = inicioDelDia(rango.desde);
+  return { desde: sumarDias(desde, -dias), hasta: sumarDias(desde, -1) };
+};
+
+/**
+ * Valida que el rango tenga fechas válidas y desde <= hasta
+ */
+export const esRangoValido = (rango: RangoFechas): boolean =>
+  !Number.isNaN(rango.desde.getTime()) &&
+  !Number.isNaN(rango.hasta.getTime()) &&
+  inicioDelDia(rango.desde) <= inicioDelDia(rango.hasta);
+
+/**
+ * Indica si la fecha (con hora) cae dentro del rango, incluyendo todo el día final
+ */
+export const fechaEnRango = (fecha: Date, rango: RangoFechas): boolean =>
+  fecha >= inicioDelDia(rango.desde) && fecha < sumarDias(inicioDelDia(rango.hasta), 1);
+
+/**
+ * Recorre el fin del rango N días hacia adelante
+ *
+ * @example
+ * ```typescript
+ * extenderRango({ desde: new Date(2025, 3, 1), hasta: new Date(2025, 3, 30) }, 7);
+ * // Returns: { desde: 01/04/2025, hasta: 07/05/2025 }
+ * ```
+ */
+export const extenderRango = (rango: RangoFechas, dias: number): RangoFechas => ({
+  desde: inicioDelDia(rango.desde),
+  hasta: sumarDias(inicioDelDia(rango.hasta), dias)
+});
+
+/**
+ * Fecha a 'YYYY-MM-DD' (valor de <input type="date">) sin conversión a UTC
+ */
+export const formatearFechaInput = (fecha: Date): string =>
+  `${fecha.getFullYear()}-${String(fecha.getMonth() + 1).padStart(2, '0')}-${String(fecha.getDate()).padStart(2, '0')}`;
+
+/**
+ * 'YYYY-MM-DD' a fecha local (new Date('YYYY-MM-DD') la tomaría como UTC)
+ */
+export const parsearFechaInput = (valor: string): Date => {
+  const [anio, mes, dia] = valor.split('-').map(Number);
+  return new Date(anio, (mes || 1) - 1, dia || 1);
+};
+
+/**
+ * Texto legible del rango
+ *
+ * @example
+ * ```typescript
+ * formatearRango({ desde: new Date(2025, 3, 13), hasta: new Date(2025, 3, 19) });
+ * // Returns: '13/04/2025 – 19/04/2025'
+ * ```
+ */
+export const formatearRango = (rango: RangoFechas): string => {
+  const formato = (fecha: Date) => fecha.toLocaleDateString('es-MX', { day: '2-digit', month: '2-digit', year: 'numeric' });
+  return contarDiasRango(rango) === 1
+    ? formato(rango.desde)
+    : `${formato(rango.desde)} – ${formato(rango.hasta)}`;
+};
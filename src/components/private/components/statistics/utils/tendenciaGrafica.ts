@@ -0,0 +1,120 @@
+/**
+ * Utilidades para dibujar pronósticos y anomalías en gráficas de barras
+ * Agrega barras proyectadas, la banda de confianza (barras flotantes) y
+ * resalta los periodos atípicos sin registrar elementos extra de Chart.js
+ *
+ * @module tendenciaGrafica
+ * @version 1.0.0
+ */
+
+import type { ChartData, TooltipItem } from 'chart.js';
+import { TENDENCIA_COLORS } from '../config/colorsConfig';
+import type { TendenciaGrafica } from './pronosticos';
+
+/** Valor de barra: simple, flotante [inferior, superior] o vacío */
+export type ValorBarraTendencia = number | [number, number] | null;
+
+export interface DatosGraficaBarras {
+  labels: string[];
+  datasets: Array<{
+    label: string;
+    data: number[];
+    backgroundColor: string | string[];
+  }>;
+}
+
+export const ETIQUETA_PRONOSTICO = 'Pronóstico';
+export const ETIQUETA_BANDA = 'Intervalo 95%';
+
+/**
+ * Combinar los datos de la gráfica con su tendencia
+ *
+ * @param datos - Labels y datasets originales
+ * @param tendencia - Pronóstico y anomalías (null = sin cambios)
+ * @returns Datos para `<Bar />` con etiquetas extendidas para los periodos proyectados
+ *
+ * @example
+ * ```tsx
+ * const chartData = useMemo(() => construirDatosTendencia(data, tendencia), [data, tendencia]);
+ * <Bar data={chartData} options={chartOptions} />
+ * ```
+ */
+export const construirDatosTendencia = (
+  datos: DatosGraficaBarras,
+  tendencia?: TendenciaGrafica | null
+): ChartData<'bar', ValorBarraTendencia[], string> => {
+  const pronostico = tendencia?.pronostico ?? [];
+  const anomalias = new Map((tendencia?.anomalias ?? []).map(anomalia => [anomalia.indice, anomalia]));
+
+  const longitud = Math.max(datos.labels.length, ...pronostico.map(punto => punto.indice + 1));
+  const labels = Array.from({ length: longitud }, (_, indice) =>
+    datos.labels[indice] ?? pronostico.find(punto => punto.indice === indice)?.etiqueta ?? ''
+  );
+  const completar = <T>(valores: T[], vacio: T): T[] =>
+    Array.from({ length: longitud }, (_, indice) => valores[indice] ?? vacio);
+
+  const datasets: ChartData<'bar', ValorBarraTendencia[], string>['datasets'] = datos.datasets.map(dataset => ({
+    ...dataset,
+    data: completar<ValorBarraTendencia>(dataset.data, null),
+    backgroundColor: anomalias.size === 0
+      ? dataset.backgroundColor
+      : labels.map((_, indice) => {
+          const anomalia = anomalias.get(indice);
+          if (anomalia) {
+            return anomalia.tipo === 'alza' ? TENDENCIA_COLORS.anomaliaAlza : TENDENCIA_COLORS.anomaliaBaja;
+          }
+          return Array.isArray(dataset.backgroundColor)
+            ? dataset.backgroundColor[indice]
+            : dataset.backgroundColor;
+        })
+  }));
+
+  if (pronostico.length > 0) {
+    const porIndice = new Map(pronostico.map(punto => [punto.indice, punto]));
+
+    datasets.push({
+      label: ETIQUETA_PRONOSTICO,
+      data: labels.map((_, indice) => porIndice.get(indice)?.valor ?? null),
+      backgroundColor: TENDENCIA_COLORS.pronostico,
+      borderColor: TENDENCIA_COLORS.pronosticoBorde,
+      borderWidth: 1,
+      grouped: false,
+      datalabels: { display: false }
+    });
+    datasets.push({
+      label: ETIQUETA_BANDA,
+      data: labels.map((_, indice) => {
+        const punto = porIndice.get(indice);
+        return punto ? [punto.inferior, punto.superior] : null;
+      }),
+      backgroundColor: TENDENCIA_COLORS.banda,
+      grouped: false,
+      barPercentage: 0.25,
+      datalabels: { display: false }
+    });
+  }
+
+  return { labels, datasets };
+};
+
+/**
+ * Callbacks de tooltip para la banda de confianza y los valores atípicos
+ *
+ * @param tendencia - Pronóstico y anomalías de la gráfica
+ * @returns Callbacks para `plugins.tooltip.callbacks`
+ */
+export const crearTooltipTendencia = (tendencia?: TendenciaGrafica | null) => ({
+  label: (item: TooltipItem<'bar'>): string => {
+    const raw = item.raw as ValorBarraTendencia;
+    if (Array.isArray(raw)) {
+      return `${item.dataset.label}: ${raw[0]} – ${raw[1]}`;
+    }
+    return `${item.dataset.label}: ${item.formattedValue}`;
+  },
+  afterLabel: (item: TooltipItem<'bar'>): string => {
+    if (item.datasetIndex !== 0) return '';
+    const anomalia = tendencia?.anomalias.find(actual => actual.indice === item.dataIndex);
+    if (!anomalia) return '';
+    return `Valor atípico ${anomalia.tipo === 'alza' ? 'alto' : 'bajo'} (esperado ≈ ${anomalia.esperado})`;
+  }
+});
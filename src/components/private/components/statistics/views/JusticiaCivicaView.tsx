@@ -1,20 +1,34 @@
 /**
  * Vista de Estadísticas de Justicia Cívica
- * Wrapper con breadcrumbs para navegación jerárquica
+ * Wrapper con breadcrumbs para navegación jerárquica y exportación de la vista
  *
  * @pattern Page View Wrapper
- * @version 1.0.0
+ * @version 1.1.0
  */
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Breadcrumbs, type BreadcrumbItem } from '../../../../shared/components/breadcrumbs';
 import EstadisticasJC from '../EstadisticasJC';
+import { ExportarVistaButton } from '../components/shared/ExportarVistaButton';
+import { useExportarEstadisticas } from '../hooks/useExportarEstadisticas';
+import type { FiltroExportacion } from '../utils';
 
 /**
  * Vista completa de estadísticas de Justicia Cívica con breadcrumbs
  * Renderiza el componente hijo sin filtros externos (vista completa)
  */
 const JusticiaCivicaView: React.FC = () => {
+  const contenidoRef = useRef<HTMLDivElement>(null);
+  const [filtrosExportacion, setFiltrosExportacion] = useState<FiltroExportacion[]>([]);
+
+  // Exportación de gráficas, datos y resumen
+  const { exportando, exportar } = useExportarEstadisticas({
+    titulo: 'Estadísticas de Justicia Cívica',
+    nombreBase: 'estadisticas-justicia-civica',
+    contenedorRef: contenidoRef,
+    filtros: filtrosExportacion
+  });
+
   // Breadcrumbs de navegación
   const breadcrumbItems: BreadcrumbItem[] = [
     { label: 'Panel de Estadísticas', path: '/estadisticasusuario' },
@@ -25,13 +39,16 @@ const JusticiaCivicaView: React.FC = () => {
     <div className="min-h-screen p-4 md:p-6 lg:p-8" data-component="justicia-civica-view">
       <div className="max-w-7xl mx-auto">
 
-        {/* Breadcrumbs */}
-        <div className="mb-8">
+        {/* Breadcrumbs y exportación */}
+        <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
           <Breadcrumbs items={breadcrumbItems} />
+          <ExportarVistaButton onClick={exportar} exportando={exportando} />
         </div>
 
         {/* Componente de estadísticas JC sin filtros externos */}
-        <EstadisticasJC />
+        <div ref={contenidoRef}>
+          <EstadisticasJC onFiltrosExportacion={setFiltrosExportacion} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,170 @@
+/**
+ * Vista de Matriz Horaria de IPH
+ * Concentración de IPH por día de la semana y hora para planear turnos
+ *
+ * @pattern Page View Wrapper
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { AlertTriangle, CalendarClock, Flame } from 'lucide-react';
+import { Breadcrumbs, type BreadcrumbItem } from '../../../../shared/components/breadcrumbs';
+import { ErrorMessage } from '../components/shared/ErrorMessage';
+import FiltroMatrizHoraria from '../components/filters/FiltroMatrizHoraria';
+import MatrizHorariaGrid from '../components/charts/MatrizHorariaGrid';
+import MatrizHorariaDetalle from '../components/tables/MatrizHorariaDetalle';
+import { useMatrizHoraria } from '../hooks/useMatrizHoraria';
+import { DIAS_MATRIZ, formatearFranjaHoraria, formatearNumero, formatearRango } from '../utils';
+
+/**
+ * Vista completa de la matriz horaria con breadcrumbs
+ */
+const MatrizHorariaView: React.FC = () => {
+  const {
+    rango,
+    fuenteFecha,
+    filtros,
+    resultado,
+    matriz,
+    celdasPico,
+    celdaSeleccionada,
+    eventosSeleccionados,
+    loading,
+    error,
+    progreso,
+    requiereDetalle,
+    desactualizado,
+    setRango,
+    setFuenteFecha,
+    setFiltros,
+    setCeldaSeleccionada,
+    consultar,
+    cancelar
+  } = useMatrizHoraria();
+
+  // Breadcrumbs de navegación
+  const breadcrumbItems: BreadcrumbItem[] = [
+    { label: 'Panel de Estadísticas', path: '/estadisticasusuario' },
+    { label: 'Matriz Horaria de IPH', isActive: true }
+  ];
+
+  return (
+    <div className="min-h-screen p-4 md:p-6 lg:p-8" data-component="matriz-horaria-view">
+      <div className="max-w-7xl mx-auto">
+
+        {/* Breadcrumbs */}
+        <div className="mb-8">
+          <Breadcrumbs items={breadcrumbItems} />
+        </div>
+
+        {/* Header principal */}
+        <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="p-3 bg-[#948b54] rounded-lg">
+              <CalendarClock className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-[#4d4725] font-poppins">
+                Matriz Horaria de IPH
+              </h1>
+              <p className="text-gray-600 font-poppins">
+                Concentración de informes por día de la semana y hora para la planeación de turnos
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <FiltroMatrizHoraria
+          rango={rango}
+          fuenteFecha={fuenteFecha}
+          filtros={filtros}
+          onRangoChange={setRango}
+          onFuenteFechaChange={setFuenteFecha}
+          onFiltrosChange={setFiltros}
+          onConsultar={consultar}
+          onCancelar={cancelar}
+          requiereDetalle={requiereDetalle}
+          loading={loading}
+          progreso={progreso}
+        />
+
+        <ErrorMessage error={error} onRetry={consultar} isLoading={loading} className="mb-6" />
+
+        {!resultado && !loading && !error && (
+          <div className="bg-white rounded-xl border border-gray-200 p-10 text-center text-gray-500 font-poppins">
+            Seleccione el rango de fechas y presione “Consultar” para construir la matriz.
+          </div>
+        )}
+
+        {resultado && (
+          <>
+            {/* Avisos de datos incompletos */}
+            {(desactualizado || resultado.truncado || resultado.sinFechaConocimiento > 0 || resultado.detallesFallidos > 0) && (
+              <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3 mb-6 text-sm font-poppins">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <div className="space-y-1">
+                  {desactualizado && (
+                    <p>Las opciones elegidas requieren el detalle de cada IPH. Presione “Consultar” para actualizar la matriz.</p>
+                  )}
+                  {resultado.truncado && (
+                    <p>El rango excede el límite de consulta; la matriz no incluye todos los IPH. Reduzca el rango de fechas.</p>
+                  )}
+                  {resultado.sinFechaConocimiento > 0 && (
+                    <p>{resultado.sinFechaConocimiento} IPH sin fecha de conocimiento se ubicaron por su hora de captura.</p>
+                  )}
+                  {resultado.detallesFallidos > 0 && (
+                    <p>No se pudo consultar el detalle de {resultado.detallesFallidos} IPH; no se incluyen al filtrar por detenido.</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4 font-poppins">
+                <div>
+                  <h2 className="text-lg font-semibold text-[#4d4725]">
+                    {formatearNumero(matriz.total)} IPH · {formatearRango(rango)}
+                  </h2>
+                  <p className="text-xs text-gray-500">Seleccione una celda para ver sus IPH</p>
+                </div>
+                {celdasPico.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <Flame className="h-4 w-4 text-[#948b54]" />
+                    {celdasPico.map(celda => (
+                      <button
+                        key={`${celda.dia}-${celda.hora}`}
+                        type="button"
+                        onClick={() => setCeldaSeleccionada({ dia: celda.dia, hora: celda.hora })}
+                        className="px-2 py-1 rounded-full bg-[#fdf7f1] border border-[#c2b186] text-[#4d4725] hover:bg-[#f8f0e7] cursor-pointer"
+                      >
+                        {DIAS_MATRIZ[celda.dia]} {formatearFranjaHoraria(celda.hora)} · {celda.total}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <MatrizHorariaGrid
+                matriz={matriz}
+                seleccion={celdaSeleccionada}
+                onSeleccionar={setCeldaSeleccionada}
+              />
+            </div>
+
+            {celdaSeleccionada && (
+              <MatrizHorariaDetalle
+                dia={celdaSeleccionada.dia}
+                hora={celdaSeleccionada.hora}
+                eventos={eventosSeleccionados}
+                rangoListado={resultado.rangoListado}
+                onCerrar={() => setCeldaSeleccionada(null)}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatrizHorariaView;
@@ -1,20 +1,34 @@
 /**
  * Vista de Estadísticas de Probable Hecho Delictivo
- * Wrapper con breadcrumbs para navegación jerárquica
+ * Wrapper con breadcrumbs para navegación jerárquica y exportación de la vista
  *
  * @pattern Page View Wrapper
- * @version 1.0.0
+ * @version 1.1.0
  */
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Breadcrumbs, type BreadcrumbItem } from '../../../../shared/components/breadcrumbs';
 import EstadisticasProbableDelictivo from '../EstadisticasProbableDelictivo';
+import { ExportarVistaButton } from '../components/shared/ExportarVistaButton';
+import { useExportarEstadisticas } from '../hooks/useExportarEstadisticas';
+import type { FiltroExportacion } from '../utils';
 
 /**
  * Vista completa de estadísticas de Probable Delictivo con breadcrumbs
  * Renderiza el componente hijo sin filtros externos (vista completa)
  */
 const ProbableDelictivoView: React.FC = () => {
+  const contenidoRef = useRef<HTMLDivElement>(null);
+  const [filtrosExportacion, setFiltrosExportacion] = useState<FiltroExportacion[]>([]);
+
+  // Exportación de gráficas, datos y resumen
+  const { exportando, exportar } = useExportarEstadisticas({
+    titulo: 'Estadísticas de Probable Hecho Delictivo',
+    nombreBase: 'estadisticas-probable-delictivo',
+    contenedorRef: contenidoRef,
+    filtros: filtrosExportacion
+  });
+
   // Breadcrumbs de navegación
   const breadcrumbItems: BreadcrumbItem[] = [
     { label: 'Panel de Estadísticas', path: '/estadisticasusuario' },
@@ -25,13 +39,16 @@ const ProbableDelictivoView: React.FC = () => {
     <div className="min-h-screen p-4 md:p-6 lg:p-8" data-component="probable-delictivo-view">
       <div className="max-w-7xl mx-auto">
 
-        {/* Breadcrumbs */}
-        <div className="mb-8">
+        {/* Breadcrumbs y exportación */}
+        <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
           <Breadcrumbs items={breadcrumbItems} />
+          <ExportarVistaButton onClick={exportar} exportando={exportando} />
         </div>
 
         {/* Componente de estadísticas PD sin filtros externos */}
-        <EstadisticasProbableDelictivo />
+        <div ref={contenidoRef}>
+          <EstadisticasProbableDelictivo onFiltrosExportacion={setFiltrosExportacion} />
+        </div>
       </div>
     </div>
   );
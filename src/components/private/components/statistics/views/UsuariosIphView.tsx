@@ -3,14 +3,17 @@
  * Wrapper con breadcrumbs para navegación jerárquica
  *
  * @pattern Page View Wrapper
- * @version 2.0.0 - Normalizado con patrón Usuarios.tsx
+ * @version 2.1.0 - Exportación de la vista (PNG + CSV + PDF)
  */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Users, RefreshCw } from 'lucide-react';
 import { Breadcrumbs, type BreadcrumbItem } from '../../../../shared/components/breadcrumbs';
 import UsuariosIphStats from '../components/tables/UsuariosIphStats';
 import { ErrorMessage } from '../components/shared/ErrorMessage';
+import { ExportarVistaButton } from '../components/shared/ExportarVistaButton';
+import { useExportarEstadisticas } from '../hooks/useExportarEstadisticas';
+import type { FiltroExportacion } from '../utils';
 
 /**
  * Vista completa de estadísticas de usuarios con breadcrumbs
@@ -19,6 +22,16 @@ const UsuariosIphView: React.FC = () => {
   const [error, setError] = useState<string>('');
   const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [filtrosExportacion, setFiltrosExportacion] = useState<FiltroExportacion[]>([]);
+  const contenidoRef = useRef<HTMLDivElement>(null);
+
+  // Exportación de gráficas, datos y resumen
+  const { exportando, exportar } = useExportarEstadisticas({
+    titulo: 'Estadísticas de Usuarios IPH',
+    nombreBase: 'estadisticas-usuarios-iph',
+    contenedorRef: contenidoRef,
+    filtros: filtrosExportacion
+  });
 
   // Breadcrumbs de navegación
   const breadcrumbItems: BreadcrumbItem[] = [
@@ -78,6 +91,8 @@ const UsuariosIphView: React.FC = () => {
               </div>
             </div>
             <div className="flex items-center space-x-3">
+              <ExportarVistaButton onClick={exportar} exportando={exportando} disabled={isRefreshing} />
+
               {/* Botón de refrescar */}
               <button
                 onClick={handleRefresh}
@@ -108,7 +123,13 @@ const UsuariosIphView: React.FC = () => {
         )}
 
         {/* Componente de estadísticas */}
-        <UsuariosIphStats onError={handleError} refreshTrigger={refreshTrigger} />
+        <div ref={contenidoRef}>
+          <UsuariosIphStats
+            onError={handleError}
+            refreshTrigger={refreshTrigger}
+            onFiltrosExportacion={setFiltrosExportacion}
+          />
+        </div>
       </div>
     </div>
   );
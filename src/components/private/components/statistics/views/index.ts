@@ -6,3 +6,4 @@
 export { default as UsuariosIphView } from './UsuariosIphView';
 export { default as JusticiaCivicaView } from './JusticiaCivicaView';
 export { default as ProbableDelictivoView } from './ProbableDelictivoView';
+export { default as MatrizHorariaView } from './MatrizHorariaView';
@@ -18,9 +18,12 @@ import { Menu } from 'lucide-react';
 
 // Componentes atómicos
 import Sidebar from './sidebar/Sidebar';
-// import Topbar from './topbar/Topbar'; // Desactivado temporalmente
+import Topbar from './topbar/Topbar';
 import { Breadcrumbs, useBreadcrumbs } from '../../shared/components/breadcrumbs';
 import { UserCard } from '../../shared/components/user-card';
+import { OfflineQueueIndicator } from '../../shared/components/offline-queue';
+import { SessionExpiryModal } from '../../shared/components/session-expiry';
+import { CommandPalette, useCommandPaletteShortcut } from './command-palette';
 
 // Hooks
 import useUserSession from './hooks/useUserSession';
@@ -29,6 +32,15 @@ import useSidebar from './hooks/useSidebar';
 
 // Helpers
 import { logInfo } from '../../../helper/log/logger.helper';
+import {
+  startNotificationCenter,
+  stopNotificationCenter,
+  registerNotificationSource
+} from '../../../helper/notification-center/notification-center.helper';
+import {
+  iphRealtimeNotificationSource,
+  sessionNotificationSource
+} from '../../../helper/notification-center/notification-sources';
 
 // Interfaces
 import type { DashboardProps } from '../../../interfaces/components/dashboard.interface';
@@ -52,6 +64,9 @@ const DashboardContent: React.FC<DashboardProps> = ({
   // Hook para manejo del sidebar responsive
   const sidebar = useSidebar();
 
+  // Paleta de comandos global (Ctrl+K)
+  const commandPalette = useCommandPaletteShortcut();
+
   // Hook para breadcrumbs
   const { breadcrumbs } = useBreadcrumbs();
 
@@ -70,6 +85,23 @@ const DashboardContent: React.FC<DashboardProps> = ({
     }
   }, [isAuthenticated, userRole, userData]);
 
+  // Centro de notificaciones: historial del usuario y fuentes de eventos
+  const userId = userData?.id;
+  React.useEffect(() => {
+    if (!isAuthenticated || !userId) return;
+
+    const unregisterSources = [
+      registerNotificationSource(iphRealtimeNotificationSource),
+      registerNotificationSource(sessionNotificationSource)
+    ];
+    startNotificationCenter(String(userId));
+
+    return () => {
+      unregisterSources.forEach(unregister => unregister());
+      stopNotificationCenter();
+    };
+  }, [isAuthenticated, userId]);
+
   // Estados de carga
   if (isLoading) {
     return (
@@ -106,6 +138,14 @@ const DashboardContent: React.FC<DashboardProps> = ({
 
       {/* Main Content Area */}
       <main className="flex-1 flex flex-col overflow-hidden">
+        {/* Topbar con búsqueda global y centro de notificaciones */}
+        <Topbar
+          userRole={userRole}
+          onLogout={logout}
+          onSearchClick={commandPalette.open}
+          className="flex-shrink-0"
+        />
+
         {/* Content Area con scroll */}
         <div
           className="flex-1 overflow-y-auto"
@@ -114,6 +154,15 @@ const DashboardContent: React.FC<DashboardProps> = ({
           {children || <Outlet />}
         </div>
       </main>
+
+      {/* Bandeja de salida offline (solo visible sin conexión o con cambios pendientes) */}
+      <OfflineQueueIndicator position="bottom-left" />
+
+      {/* Renovación de sesión y aviso de expiración con cuenta regresiva */}
+      <SessionExpiryModal />
+
+      {/* Búsqueda global y acciones rápidas */}
+      <CommandPalette isOpen={commandPalette.isOpen} onClose={commandPalette.close} />
     </div>
   );
 };
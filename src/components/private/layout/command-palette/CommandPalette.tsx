@@ -0,0 +1,133 @@
+/**
+ * Componente CommandPalette
+ * Paleta de comandos global (Ctrl+K): busca IPH, usuarios y grupos,
+ * navega a las rutas permitidas por rol y ejecuta acciones rápidas
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Search, Loader2 } from 'lucide-react';
+
+// Componentes
+import CommandPaletteItem from './components/CommandPaletteItem';
+
+// Hooks
+import useCommandPalette from './hooks/useCommandPalette';
+
+// Config
+import { COMMAND_PALETTE_CONFIG } from './config/commandPaletteConfig';
+
+// Interfaces
+import type { ICommandPaletteProps } from '../../../../interfaces/components/command-palette.interface';
+
+const CommandPalette: React.FC<ICommandPaletteProps> = ({ isOpen, onClose }) => {
+  const {
+    query,
+    setQuery,
+    sections,
+    flatItems,
+    activeIndex,
+    setActiveIndex,
+    isSearching,
+    selectItem,
+    handleKeyDown,
+    removeRecentSearch
+  } = useCommandPalette(isOpen, onClose);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  // Mantener visible el resultado activo al navegar con el teclado
+  useEffect(() => {
+    const activeItem = flatItems[activeIndex];
+    if (!activeItem) return;
+    document.getElementById(`command-palette-${activeItem.id}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex, flatItems]);
+
+  if (!isOpen) return null;
+
+  const trimmedQuery = query.trim();
+  const showEmptyState = !isSearching && flatItems.length === 0;
+
+  const content = (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-black/40 px-4 pt-[12vh] font-poppins"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Paleta de comandos"
+        className="w-full max-w-xl bg-white rounded-xl shadow-2xl overflow-hidden border border-gray-200"
+        onMouseDown={event => event.stopPropagation()}
+      >
+        {/* Input */}
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-200">
+          <Search size={18} className="text-[#4d4725]" aria-hidden="true" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Buscar IPH, usuarios, grupos o ir a..."
+            className="flex-1 bg-transparent text-sm text-black outline-none placeholder:text-gray-400"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-results"
+            aria-activedescendant={flatItems[activeIndex] ? `command-palette-${flatItems[activeIndex].id}` : undefined}
+          />
+          {isSearching && <Loader2 size={16} className="animate-spin text-[#948b54]" aria-label="Buscando" />}
+        </div>
+
+        {/* Resultados */}
+        <div className="max-h-[60vh] overflow-y-auto" id="command-palette-results" role="listbox">
+          {sections.map(section => (
+            <div key={section.kind} role="group" aria-label={section.title}>
+              <p className="px-4 pt-3 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">
+                {section.title}
+              </p>
+              <ul>
+                {section.items.map(item => {
+                  const index = flatItems.indexOf(item);
+                  return (
+                    <CommandPaletteItem
+                      key={item.id}
+                      item={item}
+                      isActive={index === activeIndex}
+                      onSelect={selectItem}
+                      onHover={() => setActiveIndex(index)}
+                      onRemove={removeRecentSearch}
+                    />
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+
+          {showEmptyState && (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              {trimmedQuery.length < COMMAND_PALETTE_CONFIG.minRemoteQueryLength
+                ? 'Escribe al menos 2 caracteres para buscar'
+                : `Sin resultados para "${trimmedQuery}"`}
+            </p>
+          )}
+        </div>
+
+        {/* Ayuda de teclado */}
+        <div className="flex items-center justify-end gap-4 px-4 py-2 bg-gray-50 border-t border-gray-100 text-[11px] text-gray-500">
+          <span><kbd className="font-sans">↑↓</kbd> navegar</span>
+          <span><kbd className="font-sans">Enter</kbd> abrir</span>
+          <span><kbd className="font-sans">Esc</kbd> cerrar</span>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default CommandPalette;
@@ -0,0 +1,76 @@
+/**
+ * Componente CommandPaletteItem
+ * Resultado individual de la paleta de comandos
+ */
+
+import React from 'react';
+import { Clock, Zap, CornerDownRight, FileText, User, Users, X } from 'lucide-react';
+import type {
+  CommandPaletteItemKind,
+  ICommandPaletteItem
+} from '../../../../../interfaces/components/command-palette.interface';
+
+interface CommandPaletteItemProps {
+  item: ICommandPaletteItem;
+  isActive: boolean;
+  onSelect: (item: ICommandPaletteItem) => void;
+  onHover: () => void;
+  onRemove?: (query: string) => void;
+}
+
+const KIND_ICONS: Record<CommandPaletteItemKind, React.ElementType> = {
+  recent: Clock,
+  action: Zap,
+  route: CornerDownRight,
+  iph: FileText,
+  usuario: User,
+  grupo: Users
+};
+
+const CommandPaletteItem: React.FC<CommandPaletteItemProps> = ({
+  item,
+  isActive,
+  onSelect,
+  onHover,
+  onRemove
+}) => {
+  const Icon = KIND_ICONS[item.kind];
+
+  return (
+    <li
+      id={`command-palette-${item.id}`}
+      role="option"
+      aria-selected={isActive}
+      onMouseMove={onHover}
+      className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${
+        isActive ? 'bg-[#f8f0e7]' : 'bg-white'
+      }`}
+      onClick={() => onSelect(item)}
+    >
+      <Icon size={16} className="flex-shrink-0 text-[#948b54]" aria-hidden="true" />
+
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-[#4d4725] truncate">{item.label}</p>
+        {item.description && (
+          <p className="text-xs text-gray-500 truncate">{item.description}</p>
+        )}
+      </div>
+
+      {item.kind === 'recent' && onRemove && item.query && (
+        <button
+          type="button"
+          onClick={event => {
+            event.stopPropagation();
+            onRemove(item.query as string);
+          }}
+          className="p-0.5 rounded text-gray-400 hover:text-gray-600 cursor-pointer"
+          aria-label={`Quitar "${item.label}" de búsquedas recientes`}
+        >
+          <X size={14} />
+        </button>
+      )}
+    </li>
+  );
+};
+
+export default CommandPaletteItem;
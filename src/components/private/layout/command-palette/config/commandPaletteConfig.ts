@@ -0,0 +1,107 @@
+/**
+ * Configuración de la paleta de comandos
+ * Acciones rápidas y rutas navegables filtradas por rol
+ *
+ * Las rutas salen de APP_ROUTES y el acceso se valida con
+ * `userHasAccessToRoute` (mismo `requiredRoles` que Router y Sidebar).
+ */
+
+import { APP_ROUTES, userHasAccessToRoute } from '../../../../../config/app-routes.config';
+import type {
+  ICommandPaletteAction,
+  ICommandPaletteItem
+} from '../../../../../interfaces/components/command-palette.interface';
+
+/**
+ * Parámetros de búsqueda
+ */
+export const COMMAND_PALETTE_CONFIG = {
+  /** Mínimo de caracteres para consultar al servidor */
+  minRemoteQueryLength: 2,
+  /** Espera (ms) tras la última tecla antes de consultar */
+  debounceDelay: 300,
+  /** Resultados por sección */
+  maxItemsPerSection: 5,
+  /** Búsquedas recientes guardadas por usuario */
+  maxRecentSearches: 8,
+  /** Prefijo de la llave de localStorage (se agrega el userId) */
+  recentStorageKeyPrefix: 'iph_command_palette_recent_'
+} as const;
+
+/**
+ * Acciones rápidas disponibles en la paleta
+ */
+export const COMMAND_PALETTE_ACTIONS: ICommandPaletteAction[] = [
+  {
+    id: 'nuevo-usuario',
+    label: 'Nuevo usuario',
+    description: 'Registrar un usuario en el sistema',
+    to: '/usuarios/nuevo',
+    routeId: 'usuariosNuevo',
+    keywords: ['crear', 'alta', 'registrar', 'usuario']
+  },
+  {
+    id: 'reporte-diario',
+    label: 'Generar reporte diario',
+    description: 'Abrir el formulario del reporte diario en PDF',
+    to: '/reportes-pdf?reporteId=reporte-diario',
+    routeId: 'reportes-pdf',
+    keywords: ['pdf', 'reporte', 'diario', 'generar']
+  },
+  {
+    id: 'ver-historial',
+    label: 'Consultar historial de IPH',
+    description: 'Buscar y filtrar IPH registrados',
+    to: '/historialiph',
+    routeId: 'historial',
+    keywords: ['historial', 'iph', 'buscar']
+  }
+];
+
+/**
+ * Normaliza texto para comparar sin acentos ni mayúsculas
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remover acentos
+    .toLowerCase()
+    .trim();
+
+const matchesQuery = (query: string, values: (string | undefined)[]): boolean => {
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) return true;
+  return values.some(value => value && normalizeSearchText(value).includes(normalizedQuery));
+};
+
+/**
+ * Acciones a las que el usuario tiene acceso que coinciden con la búsqueda
+ */
+export const getAvailableActions = (query: string): ICommandPaletteItem[] =>
+  COMMAND_PALETTE_ACTIONS
+    .filter(action => userHasAccessToRoute(action.routeId))
+    .filter(action => matchesQuery(query, [action.label, action.description, ...action.keywords]))
+    .map(action => ({
+      id: `action:${action.id}`,
+      kind: 'action',
+      label: action.label,
+      description: action.description,
+      to: action.to
+    }));
+
+/**
+ * Rutas de APP_ROUTES accesibles para el usuario que coinciden con la búsqueda
+ * Se omiten rutas con parámetros (`:id`), que requieren un registro concreto
+ */
+export const getAvailableRoutes = (query: string): ICommandPaletteItem[] =>
+  APP_ROUTES
+    .filter(route => !route.path.includes(':'))
+    .filter(route => userHasAccessToRoute(route.id))
+    .filter(route => matchesQuery(query, [route.title, route.description, route.path]))
+    .map(route => ({
+      id: `route:${route.id}`,
+      kind: 'route',
+      label: route.title,
+      description: route.description,
+      to: `/${route.path}`
+    }));
@@ -0,0 +1,246 @@
+/**
+ * Hook principal de la paleta de comandos
+ * Combina resultados locales (acciones y rutas) con búsquedas remotas
+ * (IPH, usuarios, grupos) y recuerda las búsquedas recientes por usuario
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef, type KeyboardEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// Config y servicios
+import {
+  COMMAND_PALETTE_CONFIG,
+  getAvailableActions,
+  getAvailableRoutes
+} from '../config/commandPaletteConfig';
+import { searchIphs, searchUsuarios, searchGrupos } from '../services/command-palette-search.service';
+
+// Helpers
+import { logInfo, logWarning } from '../../../../../helper/log/logger.helper';
+import { getUserId } from '../../../../../helper/user/user.helper';
+
+// Interfaces
+import type {
+  ICommandPaletteItem,
+  ICommandPaletteSection,
+  IUseCommandPaletteReturn
+} from '../../../../../interfaces/components/command-palette.interface';
+
+// =====================================================
+// BÚSQUEDAS RECIENTES
+// =====================================================
+
+const getRecentStorageKey = (): string | null => {
+  const userId = getUserId();
+  return userId ? `${COMMAND_PALETTE_CONFIG.recentStorageKeyPrefix}${userId}` : null;
+};
+
+const loadRecentSearches = (): string[] => {
+  const key = getRecentStorageKey();
+  if (!key) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveRecentSearches = (searches: string[]): void => {
+  const key = getRecentStorageKey();
+  if (!key) return;
+
+  try {
+    localStorage.setItem(key, JSON.stringify(searches));
+  } catch (error) {
+    logWarning('CommandPalette', 'No se pudieron guardar las búsquedas recientes', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+// =====================================================
+// HOOK
+// =====================================================
+
+const SECTION_TITLES = {
+  recent: 'Búsquedas recientes',
+  action: 'Acciones',
+  route: 'Ir a',
+  iph: 'IPH',
+  usuario: 'Usuarios',
+  grupo: 'Grupos'
+} as const;
+
+/**
+ * @param isOpen - Si la paleta está visible (reinicia el estado al abrir)
+ * @param onClose - Cierra la paleta tras seleccionar un resultado
+ */
+const useCommandPalette = (isOpen: boolean, onClose: () => void): IUseCommandPaletteReturn => {
+  const navigate = useNavigate();
+
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [remoteSections, setRemoteSections] = useState<ICommandPaletteSection[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>(loadRecentSearches);
+
+  // Descarta respuestas de búsquedas anteriores a la última
+  const requestIdRef = useRef(0);
+
+  // Reiniciar al abrir
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    setRemoteSections([]);
+    setRecentSearches(loadRecentSearches());
+  }, [isOpen]);
+
+  // Búsqueda remota con debounce
+  useEffect(() => {
+    const trimmed = query.trim();
+    const requestId = ++requestIdRef.current;
+
+    if (!isOpen || trimmed.length < COMMAND_PALETTE_CONFIG.minRemoteQueryLength) {
+      setRemoteSections([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const [iphs, usuarios, grupos] = await Promise.all([
+        searchIphs(trimmed),
+        searchUsuarios(trimmed),
+        searchGrupos(trimmed)
+      ]);
+
+      if (requestId !== requestIdRef.current) return;
+
+      setRemoteSections([
+        { kind: 'iph', title: SECTION_TITLES.iph, items: iphs },
+        { kind: 'usuario', title: SECTION_TITLES.usuario, items: usuarios },
+        { kind: 'grupo', title: SECTION_TITLES.grupo, items: grupos }
+      ]);
+      setIsSearching(false);
+    }, COMMAND_PALETTE_CONFIG.debounceDelay);
+
+    return () => clearTimeout(timer);
+  }, [query, isOpen]);
+
+  const sections = useMemo<ICommandPaletteSection[]>(() => {
+    const trimmed = query.trim();
+    const localSections: ICommandPaletteSection[] = [];
+
+    if (!trimmed && recentSearches.length > 0) {
+      localSections.push({
+        kind: 'recent',
+        title: SECTION_TITLES.recent,
+        items: recentSearches.map(search => ({
+          id: `recent:${search}`,
+          kind: 'recent',
+          label: search,
+          to: '',
+          query: search
+        }))
+      });
+    }
+
+    localSections.push(
+      { kind: 'action', title: SECTION_TITLES.action, items: getAvailableActions(trimmed) },
+      {
+        kind: 'route',
+        title: SECTION_TITLES.route,
+        items: getAvailableRoutes(trimmed).slice(0, trimmed ? COMMAND_PALETTE_CONFIG.maxItemsPerSection : undefined)
+      }
+    );
+
+    return [...localSections, ...remoteSections].filter(section => section.items.length > 0);
+  }, [query, recentSearches, remoteSections]);
+
+  const flatItems = useMemo(() => sections.flatMap(section => section.items), [sections]);
+
+  // Mantener el índice activo dentro del rango al cambiar resultados
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [flatItems]);
+
+  const rememberSearch = useCallback((search: string) => {
+    const trimmed = search.trim();
+    if (!trimmed) return;
+
+    setRecentSearches(prev => {
+      const next = [trimmed, ...prev.filter(item => item !== trimmed)]
+        .slice(0, COMMAND_PALETTE_CONFIG.maxRecentSearches);
+      saveRecentSearches(next);
+      return next;
+    });
+  }, []);
+
+  const removeRecentSearch = useCallback((search: string) => {
+    setRecentSearches(prev => {
+      const next = prev.filter(item => item !== search);
+      saveRecentSearches(next);
+      return next;
+    });
+  }, []);
+
+  const selectItem = useCallback((item: ICommandPaletteItem) => {
+    if (item.kind === 'recent' && item.query) {
+      setQuery(item.query);
+      return;
+    }
+
+    rememberSearch(query);
+
+    logInfo('CommandPalette', 'Resultado seleccionado', {
+      kind: item.kind,
+      to: item.to
+    });
+
+    onClose();
+    navigate(item.to, item.state ? { state: item.state } : undefined);
+  }, [query, rememberSearch, onClose, navigate]);
+
+  const handleKeyDown = useCallback((event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex(prev => (flatItems.length === 0 ? 0 : (prev + 1) % flatItems.length));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(prev => (flatItems.length === 0 ? 0 : (prev - 1 + flatItems.length) % flatItems.length));
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const item = flatItems[activeIndex];
+        if (item) selectItem(item);
+        break;
+      }
+      case 'Escape':
+        event.preventDefault();
+        onClose();
+        break;
+      default:
+        break;
+    }
+  }, [flatItems, activeIndex, selectItem, onClose]);
+
+  return {
+    query,
+    setQuery,
+    sections,
+    flatItems,
+    activeIndex,
+    setActiveIndex,
+    isSearching,
+    selectItem,
+    handleKeyDown,
+    removeRecentSearch
+  };
+};
+
+export default useCommandPalette;
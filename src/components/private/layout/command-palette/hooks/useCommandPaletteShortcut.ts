@@ -0,0 +1,39 @@
+/**
+ * Hook para abrir la paleta de comandos con Ctrl+K (Cmd+K en macOS)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { logInfo } from '../../../../../helper/log/logger.helper';
+import type { IUseCommandPaletteShortcutReturn } from '../../../../../interfaces/components/command-palette.interface';
+
+const useCommandPaletteShortcut = (): IUseCommandPaletteShortcutReturn => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const open = useCallback(() => {
+    setIsOpen(true);
+    logInfo('CommandPalette', 'Paleta de comandos abierta');
+  }, []);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        // Evita el atajo de búsqueda del navegador
+        event.preventDefault();
+        setIsOpen(prev => !prev);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  return { isOpen, open, close };
+};
+
+export default useCommandPaletteShortcut;
@@ -0,0 +1,8 @@
+/**
+ * Barrel export para la paleta de comandos
+ */
+
+export { default as CommandPalette } from './CommandPalette';
+export { default as CommandPaletteItem } from './components/CommandPaletteItem';
+export { default as useCommandPalette } from './hooks/useCommandPalette';
+export { default as useCommandPaletteShortcut } from './hooks/useCommandPaletteShortcut';
@@ -0,0 +1,133 @@
+/**
+ * Servicio de búsqueda de la paleta de comandos
+ * Reutiliza los servicios de cada módulo; el alcance por rol lo aplica cada uno:
+ * - IPH: informePolicialService (vista global para Superior+, personal para Elemento)
+ * - Usuarios y grupos: solo si el usuario tiene acceso a la ruta del módulo
+ */
+
+// Servicios de módulos
+import { informePolicialService } from '../../../components/iph-activo/services/informe-policial.service';
+import { getUsuarios } from '../../../components/usuarios/services/crud-user.service';
+import { getGrupos, filterGrupos } from '../../../components/gestion-grupos/services/grupos.service';
+
+// Helpers
+import { logError } from '../../../../../helper/log/logger.helper';
+import { userHasAccessToRoute } from '../../../../../config/app-routes.config';
+
+// Config
+import { COMMAND_PALETTE_CONFIG } from '../config/commandPaletteConfig';
+
+// Interfaces
+import type { ICommandPaletteItem } from '../../../../../interfaces/components/command-palette.interface';
+import type { IInformePolicialFilters, IRegistroIPH } from '../../../../../interfaces/components/informe-policial.interface';
+import { UserSearchParams } from '../../../../../interfaces/user/crud/user-search-params.enum';
+
+const MODULE_NAME = 'CommandPaletteSearch';
+
+/** Un CUIP es alfanumérico sin espacios y contiene dígitos */
+const CUIP_PATTERN = /^(?=.*\d)[a-z0-9]+$/i;
+
+const buildIphFilters = (
+  query: string,
+  searchBy: IInformePolicialFilters['searchBy']
+): IInformePolicialFilters => ({
+  page: 1,
+  orderBy: 'fecha_creacion',
+  order: 'DESC',
+  search: query,
+  searchBy
+});
+
+const toIphItem = (registro: IRegistroIPH): ICommandPaletteItem => ({
+  id: `iph:${registro.id}`,
+  kind: 'iph',
+  label: registro.n_referencia || registro.n_folio_sist || `IPH ${registro.id}`,
+  description: [
+    registro.n_folio_sist && `Folio ${registro.n_folio_sist}`,
+    registro.tipo?.nombre,
+    registro.estatus?.nombre
+  ].filter(Boolean).join(' · '),
+  to: `/informeejecutivo/${registro.id}`,
+  state: {
+    from: 'command-palette',
+    fromLabel: 'Búsqueda',
+    fromPath: '/informepolicial'
+  }
+});
+
+/**
+ * Busca IPH por número de referencia y por folio del sistema
+ */
+export const searchIphs = async (query: string): Promise<ICommandPaletteItem[]> => {
+  if (!userHasAccessToRoute('iphActivo')) return [];
+
+  const [porReferencia, porFolio] = await Promise.allSettled([
+    informePolicialService.getIPHList(buildIphFilters(query, 'n_referencia')),
+    informePolicialService.getIPHList(buildIphFilters(query, 'n_folio_sist'))
+  ]);
+
+  const registros = new Map<string, IRegistroIPH>();
+  [porReferencia, porFolio].forEach(result => {
+    if (result.status === 'fulfilled') {
+      result.value.data.forEach(registro => registros.set(registro.id, registro));
+    } else {
+      logError(MODULE_NAME, result.reason, 'Error buscando IPH');
+    }
+  });
+
+  return Array.from(registros.values())
+    .slice(0, COMMAND_PALETTE_CONFIG.maxItemsPerSection)
+    .map(toIphItem);
+};
+
+/**
+ * Busca usuarios por CUIP (si el texto lo parece) o por nombre completo
+ */
+export const searchUsuarios = async (query: string): Promise<ICommandPaletteItem[]> => {
+  if (!userHasAccessToRoute('usuarios')) return [];
+
+  try {
+    const response = await getUsuarios({
+      page: 1,
+      search: query,
+      searchBy: CUIP_PATTERN.test(query) ? UserSearchParams.CUIP : UserSearchParams.NOMBRE_COMPLETO
+    });
+
+    return response.data
+      .slice(0, COMMAND_PALETTE_CONFIG.maxItemsPerSection)
+      .map(usuario => ({
+        id: `usuario:${usuario.id}`,
+        kind: 'usuario',
+        label: [usuario.nombre, usuario.primer_apellido, usuario.segundo_apellido].filter(Boolean).join(' '),
+        description: [usuario.cuip && `CUIP ${usuario.cuip}`, usuario.cargo?.nombre].filter(Boolean).join(' · '),
+        to: `/usuarios/editar/${usuario.id}`
+      }));
+  } catch (error) {
+    logError(MODULE_NAME, error, 'Error buscando usuarios');
+    return [];
+  }
+};
+
+/**
+ * Busca grupos por nombre (el catálogo de grupos es corto: se filtra en cliente)
+ */
+export const searchGrupos = async (query: string): Promise<ICommandPaletteItem[]> => {
+  if (!userHasAccessToRoute('grupos')) return [];
+
+  try {
+    const grupos = filterGrupos(await getGrupos(), { search: query });
+
+    return grupos
+      .slice(0, COMMAND_PALETTE_CONFIG.maxItemsPerSection)
+      .map(grupo => ({
+        id: `grupo:${grupo.id}`,
+        kind: 'grupo',
+        label: grupo.nombre,
+        description: grupo.descripcion,
+        to: `/gestion-grupos?grupoId=${encodeURIComponent(String(grupo.id))}`
+      }));
+  } catch (error) {
+    logError(MODULE_NAME, error, 'Error buscando grupos');
+    return [];
+  }
+};
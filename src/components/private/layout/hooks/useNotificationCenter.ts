@@ -0,0 +1,64 @@
+/**
+ * Hook personalizado para el centro de notificaciones
+ * Conecta con NotificationCenterHelper y expone la bandeja con sus acciones
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  subscribeToNotificationCenter,
+  getNotificationEntries,
+  getUnreadNotificationCount,
+  markNotificationAsRead,
+  markAllNotificationsAsRead,
+  removeNotificationEntry,
+  clearNotificationCenter,
+  type NotificationCenterEntry
+} from '../../../../helper/notification-center/notification-center.helper';
+
+interface UseNotificationCenterReturn {
+  entries: NotificationCenterEntry[];
+  unreadCount: number;
+  markAsRead: (id: string) => void;
+  markAllAsRead: () => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+const useNotificationCenter = (): UseNotificationCenterReturn => {
+  const [entries, setEntries] = useState<NotificationCenterEntry[]>(() => getNotificationEntries());
+  const [unreadCount, setUnreadCount] = useState<number>(() => getUnreadNotificationCount());
+
+  useEffect(() => {
+    return subscribeToNotificationCenter((updatedEntries, updatedUnreadCount) => {
+      setEntries(updatedEntries);
+      setUnreadCount(updatedUnreadCount);
+    });
+  }, []);
+
+  const markAsRead = useCallback((id: string) => {
+    markNotificationAsRead(id);
+  }, []);
+
+  const markAllAsRead = useCallback(() => {
+    markAllNotificationsAsRead();
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    removeNotificationEntry(id);
+  }, []);
+
+  const clear = useCallback(() => {
+    clearNotificationCenter();
+  }, []);
+
+  return {
+    entries,
+    unreadCount,
+    markAsRead,
+    markAllAsRead,
+    remove,
+    clear
+  };
+};
+
+export default useNotificationCenter;
@@ -17,6 +17,7 @@
  * - Logging de eventos de sesión
  * - Estados de carga optimizados
  * - Logout seguro con limpieza completa
+ * - Sincronización entre pestañas (logout y cambios de datos de usuario)
  *
  * @returns Estado y funciones de la sesión de usuario
  */
@@ -28,8 +29,9 @@ import { useNavigate } from 'react-router-dom';
 import { isUserAuthenticated, getUserFromStorage, clearNavigationData } from '../../../../helper/navigation/navigation.helper';
 import { getUserRoles } from '../../../../helper/role/role.helper';
 import { logInfo, logError, logWarning } from '../../../../helper/log/logger.helper';
-import { showSuccess, showWarning } from '../../../../helper/notification/notification.helper';
+import { showSuccess, showWarning, showInfo } from '../../../../helper/notification/notification.helper';
 import { isTokenExpired, getStoredToken } from '../../../../helper/security/jwt.helper';
+import { broadcastTabMessage, subscribeToTabMessages } from '../../../../helper/tab-sync/tab-sync.helper';
 
 // Interfaces
 import type { UserSessionState, UserData } from '../../../../interfaces/components/dashboard.interface';
@@ -156,6 +158,7 @@ const useUserSession = (): UserSessionState => {
    */
   const logout = useCallback(() => {
     try {
+      broadcastTabMessage({ type: 'logout', userId: state.userData?.id ?? null });
       clearNavigationData();
       setState({
         userRole: null,
@@ -169,7 +172,39 @@ const useUserSession = (): UserSessionState => {
       logError('useUserSession', error, 'Error durante el logout');
       navigate('/');
     }
-  }, [navigate]);
+  }, [navigate, state.userData?.id]);
+
+  const currentUserId = state.userData?.id ?? null;
+
+  /**
+   * Efecto para reaccionar a cambios hechos en otras pestañas
+   */
+  useEffect(() => {
+    const unsubscribeLogout = subscribeToTabMessages('logout', message => {
+      // Cada pestaña puede tener su propia sesión: solo cerrar la del mismo usuario
+      if (message.userId && currentUserId && message.userId !== currentUserId) {
+        return;
+      }
+
+      logInfo('useUserSession', 'Sesión cerrada desde otra pestaña', { userId: message.userId });
+      clearNavigationData();
+      setState({
+        userRole: null,
+        userData: null,
+        isAuthenticated: false,
+        isLoading: false
+      });
+      showInfo('La sesión se cerró en otra pestaña');
+      navigate('/');
+    });
+
+    const unsubscribeUserData = subscribeToTabMessages('user-data-invalidated', loadUserSession);
+
+    return () => {
+      unsubscribeLogout();
+      unsubscribeUserData();
+    };
+  }, [currentUserId, loadUserSession, navigate]);
 
   /**
    * Efecto para cargar sesión al montar el componente
@@ -0,0 +1,241 @@
+/**
+ * Componente NotificationBell
+ * Campana con contador de no leídas y panel con el historial de notificaciones
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Bell,
+  CheckCheck,
+  ClipboardList,
+  FileCheck,
+  RefreshCw,
+  ShieldAlert,
+  Trash2,
+  X
+} from 'lucide-react';
+
+// Hooks
+import useClickOutside from '../hooks/useClickOutside';
+import useNotificationCenter from '../hooks/useNotificationCenter';
+
+// Helpers
+import { logInfo } from '../../../../helper/log/logger.helper';
+import {
+  NOTIFICATION_CATEGORY_LABELS,
+  type NotificationCategory,
+  type NotificationCenterEntry
+} from '../../../../helper/notification-center/notification-center.helper';
+
+// Interfaces
+import type { NotificationBellProps } from '../../../../interfaces/components/dashboard.interface';
+
+type NotificationFilter = 'all' | 'unread';
+
+const CATEGORY_ICONS: Record<NotificationCategory, React.ElementType> = {
+  'iph-assigned': ClipboardList,
+  'status-changed': RefreshCw,
+  'report-ready': FileCheck,
+  session: ShieldAlert
+};
+
+/**
+ * Formatea la antigüedad de una notificación ("hace 5 min")
+ */
+const formatRelativeTime = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Ahora';
+  if (minutes < 60) return `Hace ${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Hace ${hours} h`;
+
+  return new Date(timestamp).toLocaleDateString('es-MX', { day: '2-digit', month: 'short' });
+};
+
+/**
+ * Componente de la campana de notificaciones
+ *
+ * @param props - Props de la campana
+ * @returns JSX.Element de la campana con su panel
+ */
+const NotificationBell: React.FC<NotificationBellProps> = ({
+  maxVisible = 50,
+  className = ''
+}) => {
+  const navigate = useNavigate();
+  const { entries, unreadCount, markAsRead, markAllAsRead, remove, clear } = useNotificationCenter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+
+  // Hook para cerrar el panel al hacer click fuera
+  const panelRef = useClickOutside<HTMLDivElement>(() => {
+    setIsOpen(false);
+  });
+
+  const visibleEntries = useMemo(() => (
+    (filter === 'unread' ? entries.filter(entry => !entry.read) : entries).slice(0, maxVisible)
+  ), [entries, filter, maxVisible]);
+
+  /**
+   * Toggle del panel
+   */
+  const togglePanel = useCallback(() => {
+    setIsOpen(prev => !prev);
+  }, []);
+
+  /**
+   * Marca como leída y navega al enlace de la notificación
+   */
+  const handleEntryClick = useCallback((entry: NotificationCenterEntry) => {
+    markAsRead(entry.id);
+
+    if (entry.link) {
+      logInfo('NotificationBell', 'Navegación desde notificación', {
+        category: entry.category,
+        link: entry.link
+      });
+      setIsOpen(false);
+      navigate(entry.link);
+    }
+  }, [markAsRead, navigate]);
+
+  return (
+    <div className={`relative ${className}`} ref={panelRef}>
+      {/* Trigger del panel */}
+      <button
+        onClick={togglePanel}
+        className="
+          relative flex items-center cursor-pointer
+          hover:text-[#948b54] transition-colors duration-200
+          focus:outline-none focus:ring-2 focus:ring-[#4d4725] rounded
+          p-1
+        "
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        aria-label={unreadCount > 0 ? `Notificaciones (${unreadCount} sin leer)` : 'Notificaciones'}
+      >
+        <Bell size={22} />
+        {unreadCount > 0 && (
+          <span
+            className="
+              absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1
+              rounded-full bg-red-600 text-white text-[10px] font-semibold
+              flex items-center justify-center
+            "
+            aria-hidden="true"
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {/* Panel de notificaciones */}
+      {isOpen && (
+        <div
+          className="
+            absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)]
+            bg-white rounded-xl shadow-lg z-50
+            overflow-hidden border border-gray-200 font-poppins
+            animate-in slide-in-from-top-2 duration-200
+          "
+          role="dialog"
+          aria-label="Centro de notificaciones"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 bg-[#f8f0e7]">
+            <p className="font-semibold text-[#4d4725]">Notificaciones</p>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={markAllAsRead}
+                disabled={unreadCount === 0}
+                className="p-1 rounded text-[#4d4725] hover:bg-white/60 disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+                title="Marcar todas como leídas"
+                aria-label="Marcar todas como leídas"
+              >
+                <CheckCheck size={16} />
+              </button>
+              <button
+                onClick={clear}
+                disabled={entries.length === 0}
+                className="p-1 rounded text-[#4d4725] hover:bg-white/60 disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+                title="Vaciar bandeja"
+                aria-label="Vaciar bandeja"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+
+          {/* Filtros */}
+          <div className="flex gap-2 px-4 py-2 border-b border-gray-100 text-xs" role="tablist">
+            {(['all', 'unread'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setFilter(option)}
+                className={`px-3 py-1 rounded-full transition-colors cursor-pointer ${
+                  filter === option ? 'bg-[#4d4725] text-white' : 'bg-gray-100 text-[#4d4725] hover:bg-gray-200'
+                }`}
+                role="tab"
+                aria-selected={filter === option}
+              >
+                {option === 'all' ? 'Todas' : `No leídas (${unreadCount})`}
+              </button>
+            ))}
+          </div>
+
+          {/* Lista */}
+          {visibleEntries.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              {filter === 'unread' ? 'No tienes notificaciones sin leer' : 'No tienes notificaciones'}
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {visibleEntries.map(entry => {
+                const Icon = CATEGORY_ICONS[entry.category];
+
+                return (
+                  <li
+                    key={entry.id}
+                    className={`group flex gap-3 px-4 py-3 ${entry.read ? 'bg-white' : 'bg-[#f8f0e7]/60'}`}
+                  >
+                    <Icon size={18} className="mt-0.5 flex-shrink-0 text-[#948b54]" aria-hidden="true" />
+
+                    <button
+                      onClick={() => handleEntryClick(entry)}
+                      className="flex-1 min-w-0 text-left cursor-pointer focus:outline-none"
+                    >
+                      <p className={`text-sm text-[#4d4725] truncate ${entry.read ? '' : 'font-semibold'}`}>
+                        {entry.title}
+                      </p>
+                      <p className="text-xs text-gray-600 line-clamp-2">{entry.message}</p>
+                      <p className="mt-1 text-[10px] text-gray-400">
+                        {NOTIFICATION_CATEGORY_LABELS[entry.category]} · {formatRelativeTime(entry.createdAt)}
+                      </p>
+                    </button>
+
+                    <div className="flex flex-col items-center gap-2">
+                      {!entry.read && (
+                        <span className="w-2 h-2 rounded-full bg-[#948b54]" aria-label="Sin leer" />
+                      )}
+                      <button
+                        onClick={() => remove(entry.id)}
+                        className="p-0.5 rounded text-gray-400 hover:text-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100 cursor-pointer"
+                        aria-label="Eliminar notificación"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -1,100 +1,59 @@
 /**
  * Componente SearchBar
- * Barra de búsqueda reutilizable para IPH
+ * Acceso a la paleta de comandos global (también se abre con Ctrl+K)
  */
 
-import React, { useState, useCallback } from 'react';
+import React from 'react';
 import { Search } from 'lucide-react';
 
 // Interfaces
 import type { SearchBarProps } from '../../../../interfaces/components/dashboard.interface';
 
+/** Etiqueta del atajo según la plataforma */
+const SHORTCUT_LABEL = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+  ? '⌘K'
+  : 'Ctrl K';
+
 /**
  * Componente de búsqueda
- * 
+ *
  * @param props - Props de la barra de búsqueda
- * @returns JSX.Element de la barra de búsqueda
+ * @returns JSX.Element del acceso a la búsqueda
  */
-const SearchBar: React.FC<SearchBarProps> = ({ 
+const SearchBar: React.FC<SearchBarProps> = ({
   placeholder = "Buscar...",
-  onSearch,
+  onOpen,
   className = ''
 }) => {
-  const [searchQuery, setSearchQuery] = useState('');
-
-  /**
-   * Maneja el cambio en el input de búsqueda
-   */
-  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setSearchQuery(value);
-    
-    // Búsqueda en tiempo real (opcional)
-    if (onSearch) {
-      onSearch(value);
-    }
-  }, [onSearch]);
-
-  /**
-   * Maneja el envío del formulario de búsqueda
-   */
-  const handleSubmit = useCallback((e: React.FormEvent) => {
-    e.preventDefault();
-    if (onSearch) {
-      onSearch(searchQuery);
-    }
-  }, [searchQuery, onSearch]);
-
-  /**
-   * Limpia el campo de búsqueda
-   */
-  const clearSearch = useCallback(() => {
-    setSearchQuery('');
-    if (onSearch) {
-      onSearch('');
-    }
-  }, [onSearch]);
-
   return (
-    <form onSubmit={handleSubmit} className={`relative ${className}`}>
-      <input 
-        type="text" 
-        value={searchQuery}
-        onChange={handleInputChange}
-        placeholder={placeholder}
-        className="
-          w-full pl-10 pr-10 py-2 rounded 
-          bg-white text-black 
-          border border-gray-300
-          focus:outline-none focus:ring-2 focus:ring-[#4d4725] focus:border-transparent
-          transition-all duration-200
-        " 
-        aria-label={placeholder}
-      />
-      
+    <button
+      type="button"
+      onClick={onOpen}
+      className={`
+        relative flex items-center w-full pl-10 pr-3 py-2 rounded
+        bg-white text-gray-400 text-left
+        border border-gray-300 cursor-pointer
+        focus:outline-none focus:ring-2 focus:ring-[#4d4725] focus:border-transparent
+        transition-all duration-200
+        ${className}
+      `}
+      aria-label={`${placeholder} (${SHORTCUT_LABEL})`}
+      aria-haspopup="dialog"
+    >
       {/* Icono de búsqueda */}
-      <Search 
-        className="absolute left-3 top-2.5 text-[#4d4725] pointer-events-none" 
-        size={20} 
+      <Search
+        className="absolute left-3 top-2.5 text-[#4d4725] pointer-events-none"
+        size={20}
         aria-hidden="true"
       />
-      
-      {/* Botón para limpiar (mostrar solo si hay texto) */}
-      {searchQuery && (
-        <button
-          type="button"
-          onClick={clearSearch}
-          className="
-            absolute right-3 top-2.5 text-gray-400 
-            hover:text-gray-600 transition-colors
-          "
-          aria-label="Limpiar búsqueda"
-        >
-          ×
-        </button>
-      )}
-    </form>
+
+      <span className="flex-1 truncate">{placeholder}</span>
+
+      <kbd className="ml-2 px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 text-[11px] font-sans text-gray-500">
+        {SHORTCUT_LABEL}
+      </kbd>
+    </button>
   );
 };
 
-export default SearchBar;
\ No newline at end of file
+export default SearchBar;
@@ -1,12 +1,14 @@
 /**
  * Componente Topbar refactorizado
- * Barra superior simplificada con solo el dropdown de usuario
+ * Barra superior con búsqueda global, centro de notificaciones y dropdown de usuario
  */
 
 import React from 'react';
 
 // Componentes
 import UserDropdown from './UserDropdown';
+import NotificationBell from './NotificationBell';
+import SearchBar from './SearchBar';
 
 // Hooks
 import useUserSession from '../hooks/useUserSession';
@@ -23,6 +25,8 @@ import type { TopbarProps } from '../../../../interfaces/components/dashboard.in
 const Topbar: React.FC<Partial<TopbarProps>> = ({
   userRole: propUserRole,
   onLogout: propOnLogout,
+  showSearch = true,
+  onSearchClick,
   className = ''
 }) => {
   const {
@@ -49,18 +53,28 @@ const Topbar: React.FC<Partial<TopbarProps>> = ({
 
   return (
     <div
-      className={`flex justify-end items-center px-6 py-4 ${className}`}
+      className={`flex justify-between items-center gap-4 px-6 py-4 ${className}`}
       style={{ backgroundColor: 'rgb(148, 139, 84)' }}
     >
-      {/* Solo UserDropdown alineado a la derecha */}
-      <UserDropdown
-        userData={userData}
-        onLogout={onLogout}
-        onProfileClick={() => {
-          // TODO: Implementar navegación a perfil
-          console.log('Navigate to profile');
-        }}
-      />
+      {/* Búsqueda global (paleta de comandos) */}
+      <div className="flex-1 max-w-md">
+        {showSearch && onSearchClick && (
+          <SearchBar placeholder="Buscar IPH, usuarios, grupos..." onOpen={onSearchClick} />
+        )}
+      </div>
+
+      {/* Notificaciones y UserDropdown alineados a la derecha */}
+      <div className="flex items-center gap-4">
+        <NotificationBell />
+        <UserDropdown
+          userData={userData}
+          onLogout={onLogout}
+          onProfileClick={() => {
+            // TODO: Implementar navegación a perfil
+            console.log('Navigate to profile');
+          }}
+        />
+      </div>
     </div>
   );
 };
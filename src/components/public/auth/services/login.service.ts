@@ -7,6 +7,7 @@ import type { Token, UserRole } from "../../../../interfaces/token/token.interfa
 import type { LoginRequest, LoginResponse } from "../../../../interfaces/user/login/login.interface";
 //+ Enviroment
 import { ALLOWED_ROLES, API_BASE_URL } from "../../../../config/env.config";
+import { API_BASE_ROUTES } from "../../../../config/routes.config";
 //+ Helpers
 import {HttpHelper} from "../../../../helper/http/http.helper";
 import CacheHelper from "../../../../helper/cache/cache.helper";
@@ -15,6 +16,9 @@ import type { IRole } from "../../../../interfaces/role/role.interface";
 import { clearAllPaginationPersistence } from '../../../shared/components/pagination';
 import { setUserRoles, clearRoles } from '../../../../helper/role/role.helper';
 import { hydrateUserDataCache, clearUserData } from '../../../../helper/user/user.helper';
+import { clearOfflineQueue } from '../../../../helper/http/offline-queue.helper';
+import { stopSessionManager } from '../../../../helper/session/session-manager.helper';
+import { broadcastTabMessage } from '../../../../helper/tab-sync/tab-sync.helper';
 
 /**
  * Handler para decodificar JWT con manejo seguro de excepciones y validaciones
@@ -305,7 +309,8 @@ export const login = async (loginRequest : LoginRequest)
     });
 
     // Endpoint con /api para que coincida con la ruta del backend
-    const response= await http.post<LoginResponse>(endpoint, loginRequest);
+    // skipAuthRefresh: un 401 aquí son credenciales inválidas, no una sesión vencida
+    const response= await http.post<LoginResponse>(endpoint, loginRequest, { skipAuthRefresh: true });
 
     const loginResponse: LoginResponse = response.data;
 
@@ -403,9 +408,101 @@ export const login = async (loginRequest : LoginRequest)
   }
 }
 
-export const logout = async () : Promise<void> => {
+/**
+ * Renueva el token JWT de la sesión actual
+ *
+ * Usado por el session manager (single-flight) antes de que el token expire
+ * y al recibir un 401. El nuevo token se guarda igual que en el login.
+ * Solo se invoca con AUTH_REFRESH_ENABLED: el endpoint debe existir en el backend.
+ *
+ * @returns Nuevo token JWT
+ * @throws HttpError si el backend rechaza el refresco, Error si el token recibido es inválido
+ */
+export const refreshAuthToken = async (): Promise<string> => {
+  const response = await http.post<LoginResponse>(`/${API_BASE_ROUTES.AUTH_REFRESH}`, undefined, {
+    skipAuthRefresh: true,
+    retries: 1
+  });
+
+  const newToken = response.data?.token;
+  if (!newToken || typeof newToken !== 'string') {
+    throw new Error('Token inválido recibido al renovar la sesión');
+  }
+
+  // Misma validación de estructura y expiración que en el login
+  decodeAndValidateToken(newToken);
+  await saveAuthToken(newToken);
+
+  logger.debug(refreshAuthToken.name, 'Token de sesión renovado');
+
+  return newToken;
+};
+
+/**
+ * Adopta un token renovado por otra pestaña del mismo navegador
+ *
+ * Solo se acepta si pertenece al mismo usuario que la sesión de esta pestaña
+ * (cada pestaña guarda su token en sessionStorage y puede tener otra sesión).
+ *
+ * @param token - Token JWT recibido vía tab-sync
+ * @returns true si el token fue adoptado
+ */
+export const adoptAuthToken = async (token: string): Promise<boolean> => {
+  try {
+    const currentUserId = await getCurrentUserId();
+    if (!currentUserId) {
+      return false;
+    }
+
+    const incoming = decodeAndValidateToken(token);
+    if (incoming.data.id !== currentUserId) {
+      logger.debug(adoptAuthToken.name, 'Token de otra pestaña ignorado: pertenece a otro usuario');
+      return false;
+    }
+
+    await saveAuthToken(token);
+    logger.debug(adoptAuthToken.name, 'Token renovado en otra pestaña adoptado');
+    return true;
+  } catch (error) {
+    logger.warn(adoptAuthToken.name, 'Token recibido de otra pestaña inválido', {
+      error: error instanceof Error ? error.message : 'unknown'
+    });
+    return false;
+  }
+};
+
+/**
+ * Obtiene el id de usuario del token de esta pestaña
+ */
+const getCurrentUserId = async (): Promise<string | null> => {
+  const token = await getAuthToken();
+  if (!token) {
+    return null;
+  }
+
+  try {
+    return (jwtDecode(token) as Token).data?.id ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Cierra la sesión y limpia los datos locales
+ *
+ * @param options.broadcast - false cuando el logout proviene de otra pestaña (evita reenviarlo)
+ */
+export const logout = async (options: { broadcast?: boolean } = {}) : Promise<void> => {
   logger.debug(logout.name,'Inicio del proceso de logout');
   try {
+    // Avisar a las demás pestañas antes de perder el id de usuario
+    if (options.broadcast !== false) {
+      broadcastTabMessage({ type: 'logout', userId: await getCurrentUserId() });
+    }
+
+    // Detener timers de renovación y modal de expiración
+    stopSessionManager();
+
     // ========================================
     // ✅ LIMPIAR CACHE CON CACHEHELPER (DRY)
     // ========================================
@@ -417,7 +514,13 @@ export const logout = async () : Promise<void> => {
     // Previene que el siguiente usuario vea la página del usuario anterior
     clearAllPaginationPersistence();
 
-    logger.debug(logout.name,'Logout exitoso, cache de autenticación y paginaciones limpiados');
+    // Descartar mutaciones offline pendientes: no deben reenviarse con la sesión de otro usuario
+    clearOfflineQueue();
+
+    // Vaciar caché de respuestas HTTP (stale-while-revalidate podría servir datos del usuario anterior)
+    http.clearCache();
+
+    logger.debug(logout.name,'Logout exitoso, cache de autenticación, paginaciones y bandeja offline limpiados');
   } catch (error) {
     throw new Error((error as Error).message || 'Error desconocido, habla con soporte');
   }
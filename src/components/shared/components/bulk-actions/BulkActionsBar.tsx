@@ -0,0 +1,149 @@
+/**
+ * Componente BulkActionsBar
+ * Barra de selección múltiple: seleccionar página / todos los del filtro
+ * y acciones masivas (cambio de estatus, exportar, PDF de informes ejecutivos, comparar)
+ */
+
+import React from 'react';
+import { CheckSquare, Columns3, FileDown, FileText, MinusSquare, RefreshCcw, Square, X } from 'lucide-react';
+
+// Helpers
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from '../../../../helper/export/export.helper';
+import { MAX_COMPARE_IPH, MIN_COMPARE_IPH } from '../../../../utils/iph-oficial';
+
+// Interfaces
+import type { BulkActionsBarProps } from '../../../../interfaces/components/bulk-actions.interface';
+
+const EXPORT_FORMATS: ExportFormat[] = ['xlsx', 'csv'];
+
+const ACTION_BUTTON_CLASS = `
+  inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-lg
+  text-[#4d4725] bg-white border border-[#c2b186] hover:bg-[#f8f0e7]
+  disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer
+`;
+
+const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+  selectedCount,
+  pageSelectionState,
+  allMatching,
+  totalMatching,
+  disabled = false,
+  onTogglePage,
+  onSelectAllMatching,
+  onClear,
+  onChangeStatus,
+  onExport,
+  onGeneratePdf,
+  onCompare,
+  className = ''
+}) => {
+  const PageIcon = pageSelectionState === 'all'
+    ? CheckSquare
+    : pageSelectionState === 'some' ? MinusSquare : Square;
+
+  const hasSelection = selectedCount > 0;
+  const canSelectAllMatching = !allMatching && pageSelectionState === 'all' && totalMatching > selectedCount;
+  const canCompare = !allMatching && selectedCount >= MIN_COMPARE_IPH && selectedCount <= MAX_COMPARE_IPH;
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-3 px-4 py-3 rounded-lg border font-poppins ${
+        hasSelection ? 'bg-[#f8f0e7] border-[#c2b186]' : 'bg-gray-50 border-gray-200'
+      } ${className}`}
+      role="toolbar"
+      aria-label="Acciones masivas"
+    >
+      <button
+        type="button"
+        onClick={onTogglePage}
+        disabled={disabled}
+        className="inline-flex items-center gap-2 text-sm text-[#4d4725] cursor-pointer disabled:opacity-50"
+        aria-label={pageSelectionState === 'all' ? 'Quitar selección de la página' : 'Seleccionar la página'}
+      >
+        <PageIcon size={18} aria-hidden="true" />
+        <span>
+          {hasSelection
+            ? `${selectedCount} seleccionado${selectedCount === 1 ? '' : 's'}`
+            : 'Seleccionar página'}
+        </span>
+      </button>
+
+      {canSelectAllMatching && (
+        <button
+          type="button"
+          onClick={onSelectAllMatching}
+          disabled={disabled}
+          className="text-sm font-semibold text-[#948b54] underline underline-offset-2 hover:text-[#4d4725] cursor-pointer"
+        >
+          Seleccionar los {totalMatching} que coinciden con el filtro
+        </button>
+      )}
+
+      {allMatching && (
+        <span className="text-sm text-gray-600">
+          Todos los registros del filtro actual
+        </span>
+      )}
+
+      {hasSelection && (
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          {onChangeStatus && (
+            <button type="button" onClick={onChangeStatus} disabled={disabled} className={ACTION_BUTTON_CLASS}>
+              <RefreshCcw size={14} aria-hidden="true" />
+              Cambiar estatus
+            </button>
+          )}
+
+          {onExport && EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => onExport(format)}
+              disabled={disabled}
+              className={ACTION_BUTTON_CLASS}
+              title={`Exportar selección a ${EXPORT_FORMAT_LABELS[format]}`}
+            >
+              <FileDown size={14} aria-hidden="true" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+
+          {onGeneratePdf && (
+            <button type="button" onClick={onGeneratePdf} disabled={disabled} className={ACTION_BUTTON_CLASS}>
+              <FileText size={14} aria-hidden="true" />
+              PDF informes
+            </button>
+          )}
+
+          {onCompare && (
+            <button
+              type="button"
+              onClick={onCompare}
+              disabled={disabled || !canCompare}
+              className={ACTION_BUTTON_CLASS}
+              title={canCompare
+                ? 'Comparar los IPH seleccionados'
+                : `Selecciona entre ${MIN_COMPARE_IPH} y ${MAX_COMPARE_IPH} IPH para compararlos`}
+            >
+              <Columns3 size={14} aria-hidden="true" />
+              Comparar
+            </button>
+          )}
+
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={disabled}
+            className="p-1.5 text-gray-500 hover:text-gray-700 rounded cursor-pointer"
+            aria-label="Limpiar selección"
+            title="Limpiar selección"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionsBar;
@@ -0,0 +1,152 @@
+/**
+ * Componente BulkEstatusDialog
+ * Elige el estatus destino y el comentario para un cambio de estatus masivo.
+ * Solo ofrece destinos que el rol puede alcanzar; los IPH cuyo estatus actual
+ * no permita la transición se omiten y aparecen en el reporte de resultados.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+// Config
+import {
+  STATUS_TRANSITIONS,
+  MIN_TRANSITION_COMMENT_LENGTH,
+  getStatusConfig
+} from '../../../../../config/status.config';
+import { hasHierarchicalAccess } from '../../../../../config/permissions.config';
+
+// Helpers
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+
+// Interfaces
+import type { BulkEstatusDialogProps } from '../../../../../interfaces/components/bulk-actions.interface';
+
+const BulkEstatusDialog: React.FC<BulkEstatusDialogProps> = ({ selectedCount, onConfirm, onCancel }) => {
+  const transiciones = useMemo(() => {
+    const userRoles = getUserRoles();
+    return STATUS_TRANSITIONS.filter(transition => hasHierarchicalAccess(userRoles, transition.minRole));
+  }, []);
+
+  const destinos = useMemo(
+    () => Array.from(new Set(transiciones.map(transition => transition.to))),
+    [transiciones]
+  );
+
+  const [nuevoEstatus, setNuevoEstatus] = useState<string>(destinos[0] ?? '');
+  const [comentario, setComentario] = useState('');
+  const [touched, setTouched] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const origenes = transiciones.filter(transition => transition.to === nuevoEstatus);
+  const requiresComment = origenes.some(transition => transition.requiresComment);
+  const commentValid = !requiresComment || comentario.trim().length >= MIN_TRANSITION_COMMENT_LENGTH;
+
+  const handleConfirm = (): void => {
+    setTouched(true);
+    if (!nuevoEstatus || !commentValid) return;
+    onConfirm(nuevoEstatus, comentario.trim() || undefined);
+  };
+
+  const content = (
+    <div className="fixed inset-0 z-[60] overflow-y-auto font-poppins">
+      <div className="fixed inset-0 bg-black/50" onClick={onCancel} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="bulk-estatus-title"
+          className="relative bg-white rounded-xl shadow-xl w-full max-w-md"
+        >
+          <div className="p-6 border-b border-gray-200">
+            <h3 id="bulk-estatus-title" className="text-lg font-semibold text-gray-900">
+              Cambiar estatus de {selectedCount} IPH
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Los IPH cuyo estatus actual no permita el cambio se omitirán
+            </p>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {destinos.length === 0 ? (
+              <p className="text-sm text-gray-600">Tu rol no puede cambiar estatus de IPH.</p>
+            ) : (
+              <>
+                <div>
+                  <label htmlFor="bulk-estatus-destino" className="block text-sm font-medium text-[#4d4725] mb-2">
+                    Nuevo estatus
+                  </label>
+                  <select
+                    id="bulk-estatus-destino"
+                    value={nuevoEstatus}
+                    onChange={event => setNuevoEstatus(event.target.value)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4d4725]"
+                  >
+                    {destinos.map(destino => (
+                      <option key={destino} value={destino}>{getStatusConfig(destino).label}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Aplica a IPH en: {origenes.map(transition => getStatusConfig(transition.from).label).join(', ')}
+                  </p>
+                </div>
+
+                <div>
+                  <label htmlFor="bulk-estatus-comentario" className="block text-sm font-medium text-[#4d4725] mb-2">
+                    Comentario {requiresComment ? '(obligatorio)' : '(opcional)'}
+                  </label>
+                  <textarea
+                    id="bulk-estatus-comentario"
+                    value={comentario}
+                    onChange={event => setComentario(event.target.value)}
+                    onBlur={() => setTouched(true)}
+                    rows={3}
+                    maxLength={500}
+                    className={`w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4d4725] ${
+                      touched && !commentValid ? 'border-red-400' : 'border-gray-300'
+                    }`}
+                  />
+                  {touched && !commentValid && (
+                    <p className="mt-1 text-sm text-red-600">
+                      El comentario es obligatorio (mínimo {MIN_TRANSITION_COMMENT_LENGTH} caracteres)
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-xl">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={destinos.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-[#4d4725] rounded-lg hover:bg-[#3a3519] disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+            >
+              Aplicar cambio
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default BulkEstatusDialog;
@@ -0,0 +1,147 @@
+/**
+ * Componente BulkResultsModal
+ * Progreso y reporte por elemento de una operación masiva:
+ * éxitos, fallos (con motivo), omitidos y cancelados; permite reintentar los fallidos
+ */
+
+import React, { useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { AlertTriangle, Ban, CheckCircle2, Loader2, MinusCircle, RotateCcw, XCircle } from 'lucide-react';
+
+// Helpers
+import { summarizeBulkResults, type BulkItemStatus } from '../../../../../helper/bulk/bulk-operation.helper';
+
+// Interfaces
+import type { BulkResultsModalProps } from '../../../../../interfaces/components/bulk-actions.interface';
+
+const STATUS_META: Record<BulkItemStatus, { label: string; icon: React.ElementType; className: string }> = {
+  success: { label: 'Correctos', icon: CheckCircle2, className: 'text-green-600' },
+  error: { label: 'Fallidos', icon: XCircle, className: 'text-red-600' },
+  skipped: { label: 'Omitidos', icon: MinusCircle, className: 'text-amber-600' },
+  cancelled: { label: 'Cancelados', icon: Ban, className: 'text-gray-500' }
+};
+
+/** Orden de la lista: primero lo que requiere atención */
+const STATUS_ORDER: BulkItemStatus[] = ['error', 'skipped', 'cancelled', 'success'];
+
+const BulkResultsModal: React.FC<BulkResultsModalProps> = ({ report, onCancel, onRetryFailed, onClose }) => {
+  const { title, running, progress, results, error } = report;
+
+  const summary = useMemo(() => summarizeBulkResults(results), [results]);
+  const sortedResults = useMemo(
+    () => [...results].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)),
+    [results]
+  );
+
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  const content = (
+    <div className="fixed inset-0 z-[60] overflow-y-auto font-poppins">
+      <div className="fixed inset-0 bg-black/50" />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="bulk-results-title"
+          className="relative bg-white rounded-xl shadow-xl w-full max-w-xl"
+        >
+          <div className="p-6 border-b border-gray-200">
+            <h3 id="bulk-results-title" className="text-lg font-semibold text-gray-900">{title}</h3>
+
+            {running && (
+              <div className="mt-4" aria-live="polite">
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span className="flex items-center gap-1.5">
+                    <Loader2 size={12} className="animate-spin" aria-hidden="true" />
+                    {progress.total > 0 ? `Procesando ${progress.processed} de ${progress.total}` : 'Preparando...'}
+                  </span>
+                  {progress.failed > 0 && <span className="text-red-600">{progress.failed} con error</span>}
+                </div>
+                <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+                  <div className="h-full bg-[#4d4725] transition-all duration-300" style={{ width: `${percent}%` }} />
+                </div>
+              </div>
+            )}
+
+            {!running && results.length > 0 && (
+              <div className="flex flex-wrap gap-4 mt-4 text-sm">
+                {(Object.keys(STATUS_META) as BulkItemStatus[])
+                  .filter(status => summary[status] > 0)
+                  .map(status => {
+                    const { label, icon: Icon, className } = STATUS_META[status];
+                    return (
+                      <span key={status} className={`flex items-center gap-1.5 ${className}`}>
+                        <Icon size={16} aria-hidden="true" />
+                        {summary[status]} {label.toLowerCase()}
+                      </span>
+                    );
+                  })}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <p className="mx-6 mt-4 flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+              <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" aria-hidden="true" />
+              {error}
+            </p>
+          )}
+
+          {!running && sortedResults.length > 0 && (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 px-6 py-2">
+              {sortedResults.map(result => {
+                const { icon: Icon, className } = STATUS_META[result.status];
+                return (
+                  <li key={result.item.id} className="flex items-start gap-3 py-2 text-sm">
+                    <Icon size={16} className={`mt-0.5 flex-shrink-0 ${className}`} aria-label={STATUS_META[result.status].label} />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">#{result.item.referencia}</p>
+                      {result.message && <p className="text-xs text-gray-500 break-words">{result.message}</p>}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-xl">
+            {running ? (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer"
+              >
+                Cancelar
+              </button>
+            ) : (
+              <>
+                {summary.error > 0 && (
+                  <button
+                    type="button"
+                    onClick={onRetryFailed}
+                    className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-[#4d4725] bg-white border border-[#c2b186] rounded-lg hover:bg-[#f8f0e7] cursor-pointer"
+                  >
+                    <RotateCcw size={14} aria-hidden="true" />
+                    Reintentar fallidos
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm font-medium text-white bg-[#4d4725] rounded-lg hover:bg-[#3a3519] cursor-pointer"
+                >
+                  Cerrar
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(content, document.body);
+};
+
+export default BulkResultsModal;
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Hook de selección múltiple para listas paginadas
+ * @version 1.0.0
+ * @description Mantiene la selección al cambiar de página y soporta el modo
+ * "todos los que coinciden con el filtro" (se resuelven al ejecutar la acción).
+ * La selección se reinicia cuando cambia `resetKey` (p.ej. los filtros).
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type {
+  BulkIphTarget,
+  UseBulkSelectionReturn
+} from '../../../../../interfaces/components/bulk-actions.interface';
+
+/**
+ * Hook de selección múltiple
+ *
+ * @param pageItems - Elementos de la página visible
+ * @param totalMatching - Total de registros que coinciden con el filtro
+ * @param resetKey - Al cambiar, se limpia la selección
+ *
+ * @example
+ * ```typescript
+ * const selection = useBulkSelection(targets, paginacion.total, JSON.stringify(filtros));
+ * ```
+ */
+export const useBulkSelection = <T extends BulkIphTarget>(
+  pageItems: T[],
+  totalMatching: number,
+  resetKey: string = ''
+): UseBulkSelectionReturn<T> => {
+  const [selected, setSelected] = useState<Map<string, T>>(() => new Map());
+  const [allMatching, setAllMatching] = useState(false);
+
+  useEffect(() => {
+    setSelected(new Map());
+    setAllMatching(false);
+  }, [resetKey]);
+
+  const isSelected = useCallback(
+    (id: string) => allMatching || selected.has(id),
+    [allMatching, selected]
+  );
+
+  const toggle = useCallback((item: T) => {
+    if (allMatching) {
+      // Salir del modo "todos": queda seleccionada la página visible sin este elemento
+      setAllMatching(false);
+      setSelected(new Map(pageItems.filter(p => p.id !== item.id).map(p => [p.id, p])));
+      return;
+    }
+
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(item.id)) next.delete(item.id);
+      else next.set(item.id, item);
+      return next;
+    });
+  }, [allMatching, pageItems]);
+
+  const pageSelectionState = useMemo<'none' | 'some' | 'all'>(() => {
+    if (pageItems.length === 0) return 'none';
+    if (allMatching) return 'all';
+    const count = pageItems.filter(item => selected.has(item.id)).length;
+    if (count === 0) return 'none';
+    return count === pageItems.length ? 'all' : 'some';
+  }, [pageItems, selected, allMatching]);
+
+  const togglePage = useCallback(() => {
+    if (allMatching || pageSelectionState === 'all') {
+      setAllMatching(false);
+      setSelected(prev => {
+        const next = new Map(prev);
+        pageItems.forEach(item => next.delete(item.id));
+        return next;
+      });
+      return;
+    }
+
+    setSelected(prev => {
+      const next = new Map(prev);
+      pageItems.forEach(item => next.set(item.id, item));
+      return next;
+    });
+  }, [allMatching, pageSelectionState, pageItems]);
+
+  const selectAllMatching = useCallback(() => {
+    setAllMatching(true);
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelected(new Map());
+    setAllMatching(false);
+  }, []);
+
+  const selectedItems = useMemo(() => Array.from(selected.values()), [selected]);
+
+  return {
+    selectedItems,
+    allMatching,
+    selectedCount: allMatching ? totalMatching : selected.size,
+    pageSelectionState,
+    isSelected,
+    toggle,
+    togglePage,
+    selectAllMatching,
+    clear
+  };
+};
+
+export default useBulkSelection;
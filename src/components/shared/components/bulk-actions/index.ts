@@ -0,0 +1,8 @@
+/**
+ * Barrel export para las acciones masivas (selección múltiple y reporte de resultados)
+ */
+
+export { default as BulkActionsBar } from './BulkActionsBar';
+export { default as BulkEstatusDialog } from './components/BulkEstatusDialog';
+export { default as BulkResultsModal } from './components/BulkResultsModal';
+export { default as useBulkSelection } from './hooks/useBulkSelection';
@@ -181,7 +181,7 @@ export const CacheDebugPanel: React.FC<CacheDebugPanelProps> = ({
             <div className="cache-debug-panel__stats">
               <StatItem
                 label="L2 Hits"
-                value={stats.hits - (stats.l1Cache?.hits || 0)}
+                value={stats.hits - (stats.l1Cache?.hits || 0) - (stats.l3Cache?.hits || 0)}
                 icon="💾"
               />
               <StatItem
@@ -203,6 +203,61 @@ export const CacheDebugPanel: React.FC<CacheDebugPanelProps> = ({
             </div>
           </div>
 
+          {/* L3 Cache Stats */}
+          {stats.l3Cache && (
+            <div className="cache-debug-panel__section">
+              <h4 className="cache-debug-panel__section-title">
+                🗄️ L3 Cache (IndexedDB)
+              </h4>
+              <div className="cache-debug-panel__stats">
+                <StatItem
+                  label="Estado"
+                  value={stats.l3Cache.available ? 'Disponible' : 'No disponible (fallback L2)'}
+                  icon="🔌"
+                  highlight={stats.l3Cache.available ? undefined : 'warning'}
+                />
+                <StatItem
+                  label="Items en L3"
+                  value={stats.l3Cache.items}
+                  icon="🗄️"
+                />
+                <StatItem
+                  label="L3 Hits"
+                  value={`${stats.l3Cache.hits} (${stats.l3Cache.hitRate}%)`}
+                  icon="🎯"
+                />
+                <StatItem
+                  label="Total Size"
+                  value={formatBytes(stats.l3Cache.totalSize)}
+                  icon="📏"
+                />
+              </div>
+
+              {/* Uso de cuota por namespace (solo los que tienen datos) */}
+              {Object.entries(stats.l3Cache.byNamespace)
+                .filter(([, usage]) => usage.items > 0)
+                .map(([namespace, usage]) => {
+                  const percent = Math.min(100, Math.round((usage.size / usage.quota) * 100));
+                  return (
+                    <div key={namespace} className="cache-debug-panel__progress">
+                      <div className="cache-debug-panel__progress-label">
+                        {namespace}: {formatBytes(usage.size)} / {formatBytes(usage.quota)} ({usage.items})
+                      </div>
+                      <div className="cache-debug-panel__progress-bar">
+                        <div
+                          className="cache-debug-panel__progress-fill"
+                          style={{
+                            width: `${percent}%`,
+                            backgroundColor: percent > 90 ? '#ff6b6b' : '#4CAF50'
+                          }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="cache-debug-panel__actions">
             <button
@@ -222,7 +277,7 @@ export const CacheDebugPanel: React.FC<CacheDebugPanelProps> = ({
             <button
               className="cache-debug-panel__button cache-debug-panel__button--danger"
               onClick={clearAll}
-              title="Limpiar todo el cache (L1 + L2)"
+              title="Limpiar todo el cache (L1 + L2 + L3)"
             >
               🗑️ Clear All
             </button>
@@ -0,0 +1,123 @@
+/**
+ * Componente DuplicateWarning
+ * Aviso de posibles IPH duplicados con enlace al otro registro, comparación
+ * lado a lado y acciones de confirmar / descartar
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, CheckCircle, Columns3, ExternalLink, Loader2, XCircle } from 'lucide-react';
+
+// Hooks
+import useIphDuplicates from './hooks/useIphDuplicates';
+
+// Helpers
+import { DUPLICATE_LEVEL_LABELS } from '../../../../helper/duplicates/duplicate-detection.helper';
+
+// Utils
+import { buildIphCompareLink } from '../../../../utils/iph-oficial';
+
+// Interfaces
+import type { DuplicateWarningProps } from '../../../../interfaces/components/duplicates.interface';
+
+const DuplicateWarning: React.FC<DuplicateWarningProps> = ({ iphId, data, className = '' }) => {
+  const { hasAccess, loading, matches, reviews, decide } = useIphDuplicates({ iphId, data });
+
+  if (!hasAccess) return null;
+
+  if (loading) {
+    return (
+      <p className={`flex items-center gap-2 text-sm text-gray-500 font-poppins ${className}`} role="status">
+        <Loader2 size={14} className="animate-spin" aria-hidden="true" />
+        Buscando posibles duplicados…
+      </p>
+    );
+  }
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div
+      className={`rounded-lg border border-amber-300 bg-amber-50 p-4 font-poppins ${className}`}
+      role="alert"
+    >
+      <h3 className="flex items-center gap-2 mb-3 text-sm font-semibold text-amber-900">
+        <AlertTriangle size={16} aria-hidden="true" />
+        {matches.length === 1 ? 'Posible IPH duplicado' : `${matches.length} posibles IPH duplicados`}
+      </h3>
+
+      <ul className="space-y-3">
+        {matches.map(match => {
+          const other = match.second;
+          const confirmed = reviews[match.pairKey]?.decision === 'duplicado';
+
+          return (
+            <li key={match.pairKey} className="rounded-md bg-white border border-amber-200 p-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-[#4d4725]">{other.referencia}</span>
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                    {match.level ? DUPLICATE_LEVEL_LABELS[match.level] : ''} · {Math.round(match.score * 100)}%
+                  </span>
+                  {confirmed && (
+                    <span className="inline-flex items-center gap-1 text-xs font-medium text-red-700">
+                      <CheckCircle size={12} aria-hidden="true" />
+                      Confirmado como duplicado
+                    </span>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3 text-xs">
+                  <Link
+                    to={`/informeejecutivo/${encodeURIComponent(other.id)}`}
+                    className="inline-flex items-center gap-1 text-[#948b54] hover:text-[#4d4725] underline underline-offset-2"
+                  >
+                    <ExternalLink size={12} aria-hidden="true" />
+                    Ver IPH
+                  </Link>
+                  <Link
+                    to={buildIphCompareLink([match.first.id, other.id])}
+                    className="inline-flex items-center gap-1 text-[#948b54] hover:text-[#4d4725] underline underline-offset-2"
+                  >
+                    <Columns3 size={12} aria-hidden="true" />
+                    Comparar
+                  </Link>
+                  {!confirmed && (
+                    <button
+                      type="button"
+                      onClick={() => void decide(match.pairKey, 'duplicado')}
+                      className="inline-flex items-center gap-1 text-red-700 hover:underline cursor-pointer"
+                    >
+                      <CheckCircle size={12} aria-hidden="true" />
+                      Confirmar
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => void decide(match.pairKey, 'distinto')}
+                    className="inline-flex items-center gap-1 text-gray-600 hover:underline cursor-pointer"
+                  >
+                    <XCircle size={12} aria-hidden="true" />
+                    No es duplicado
+                  </button>
+                </div>
+              </div>
+
+              <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-600">
+                {match.signals
+                  .filter(signal => signal.score !== null)
+                  .map(signal => (
+                    <li key={signal.key}>
+                      <span className="font-medium">{signal.label}:</span> {signal.detail}
+                    </li>
+                  ))}
+              </ul>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicateWarning;
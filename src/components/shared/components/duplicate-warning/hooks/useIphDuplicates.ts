@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Hook de posibles duplicados de un IPH
+ * @version 1.0.0
+ * @description Busca duplicados del IPH (si el usuario es Superior o superior)
+ * y oculta los pares que el usuario ya descartó en la cola de revisión.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+
+// Services
+import { findPossibleDuplicates } from '../../../../private/components/iph-oficial/services/duplicate-iph.service';
+
+// Helpers
+import {
+  getDuplicateReviews,
+  saveDuplicateReview,
+  type DuplicateReviewDecision,
+  type DuplicateReviewMap
+} from '../../../../../helper/duplicates/duplicate-review.helper';
+import type { DuplicateMatch } from '../../../../../helper/duplicates/duplicate-detection.helper';
+import { isAbortError } from '../../../../../helper/bulk/bulk-operation.helper';
+import { logError } from '../../../../../helper/log/logger.helper';
+import { showError } from '../../../../../helper/notification/notification.helper';
+import { getUserRoles } from '../../../../../helper/role/role.helper';
+import { canAccessSuperior } from '../../../../../config/permissions.config';
+
+// Interfaces
+import type {
+  UseIphDuplicatesOptions,
+  UseIphDuplicatesReturn
+} from '../../../../../interfaces/components/duplicates.interface';
+
+export const useIphDuplicates = ({ iphId, data }: UseIphDuplicatesOptions): UseIphDuplicatesReturn => {
+  const hasAccess = useMemo(() => canAccessSuperior(getUserRoles()), []);
+
+  const [allMatches, setAllMatches] = useState<DuplicateMatch[]>([]);
+  const [reviews, setReviews] = useState<DuplicateReviewMap>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = data ?? iphId;
+
+  useEffect(() => {
+    if (!hasAccess || !target) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    Promise.all([findPossibleDuplicates(target, controller.signal), getDuplicateReviews()])
+      .then(([found, stored]) => {
+        setAllMatches(found);
+        setReviews(stored);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        logError('useIphDuplicates', err, 'Error buscando posibles duplicados');
+        setError('No se pudieron buscar posibles duplicados');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [hasAccess, target]);
+
+  const matches = useMemo(
+    () => allMatches.filter(match => reviews[match.pairKey]?.decision !== 'distinto'),
+    [allMatches, reviews]
+  );
+
+  const decide = useCallback(async (pairKey: string, decision: DuplicateReviewDecision) => {
+    try {
+      setReviews(await saveDuplicateReview(pairKey, decision));
+    } catch (err) {
+      logError('useIphDuplicates', err, 'Error guardando decisión de duplicado');
+      showError('No se pudo guardar la decisión', 'Posibles duplicados');
+    }
+  }, []);
+
+  return { hasAccess, loading, error, matches, reviews, decide };
+};
+
+export default useIphDuplicates;
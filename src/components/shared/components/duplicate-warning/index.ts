@@ -0,0 +1,6 @@
+/**
+ * Barrel export para el aviso de posibles IPH duplicados
+ */
+
+export { default as DuplicateWarning } from './DuplicateWarning';
+export { default as useIphDuplicates } from './hooks/useIphDuplicates';
@@ -0,0 +1,111 @@
+/**
+ * Error boundary con reporte de fallos
+ * Captura excepciones de render, genera un reporte estructurado y muestra una UI de recuperación
+ *
+ * - scope="app": última línea de defensa alrededor de todas las rutas
+ * - scope="route": aísla un módulo; el layout (sidebar) sigue funcionando
+ *
+ * Los chunks que fallan al cargar tras un deploy recargan la página una vez antes del fallback.
+ */
+
+import React from 'react';
+import CrashFallback from './components/CrashFallback';
+import {
+  createCrashReport,
+  reloadForChunkError,
+  type CrashReport,
+  type CrashScope
+} from '../../../../helper/crash-report/crash-report.helper';
+import { logInfo } from '../../../../helper/log/logger.helper';
+
+export interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  scope: CrashScope;
+  routeId?: string;
+  /** Al cambiar cualquier valor se limpia el error (p.ej. el pathname) */
+  resetKeys?: unknown[];
+  /** Acción "Ir al inicio"; por defecto recarga en /inicio */
+  onGoHome?: () => void;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+  report: CrashReport | null;
+}
+
+const haveResetKeysChanged = (prev: unknown[] = [], next: unknown[] = []): boolean =>
+  prev.length !== next.length || prev.some((value, index) => !Object.is(value, next[index]));
+
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null, report: null };
+
+  static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: React.ErrorInfo): void {
+    const report = createCrashReport(error, {
+      scope: this.props.scope,
+      routeId: this.props.routeId,
+      componentStack: errorInfo.componentStack
+    });
+
+    if (report.isChunkLoadError && reloadForChunkError()) {
+      return;
+    }
+
+    this.setState({ report });
+  }
+
+  componentDidUpdate(prevProps: ErrorBoundaryProps): void {
+    if (this.state.error && haveResetKeysChanged(prevProps.resetKeys, this.props.resetKeys)) {
+      this.reset();
+    }
+  }
+
+  private reset = (): void => {
+    this.setState({ error: null, report: null });
+  };
+
+  private handleRetry = (): void => {
+    logInfo('ErrorBoundary', 'Reintentando render tras fallo', {
+      scope: this.props.scope,
+      routeId: this.props.routeId,
+      reportId: this.state.report?.id
+    });
+
+    // Un chunk fallido queda en caché de React.lazy: solo una recarga lo vuelve a pedir
+    if (this.state.report?.isChunkLoadError) {
+      window.location.reload();
+      return;
+    }
+
+    this.reset();
+  };
+
+  private handleGoHome = (): void => {
+    if (this.props.onGoHome) {
+      this.reset();
+      this.props.onGoHome();
+      return;
+    }
+    window.location.assign('/inicio');
+  };
+
+  render(): React.ReactNode {
+    if (!this.state.error) {
+      return this.props.children;
+    }
+
+    return (
+      <CrashFallback
+        scope={this.props.scope}
+        report={this.state.report}
+        onRetry={this.handleRetry}
+        onGoHome={this.handleGoHome}
+      />
+    );
+  }
+}
+
+export default ErrorBoundary;
@@ -0,0 +1,32 @@
+/**
+ * Error boundary por ruta
+ * Se limpia al navegar a otra ruta y usa el router para "Ir al inicio"
+ * (sin recargar la app ni perder la sesión)
+ */
+
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import ErrorBoundary from './ErrorBoundary';
+
+interface RouteErrorBoundaryProps {
+  routeId: string;
+  children: React.ReactNode;
+}
+
+const RouteErrorBoundary: React.FC<RouteErrorBoundaryProps> = ({ routeId, children }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  return (
+    <ErrorBoundary
+      scope="route"
+      routeId={routeId}
+      resetKeys={[location.pathname]}
+      onGoHome={() => navigate('/inicio')}
+    >
+      {children}
+    </ErrorBoundary>
+  );
+};
+
+export default RouteErrorBoundary;
@@ -0,0 +1,108 @@
+/**
+ * UI de recuperación tras un fallo de render
+ * Ofrece reintentar, volver al inicio y copiar el ID de diagnóstico para soporte
+ */
+
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Copy, Home, RefreshCw } from 'lucide-react';
+import type { CrashReport, CrashScope } from '../../../../../helper/crash-report/crash-report.helper';
+import { showError, showSuccess } from '../../../../../helper/notification/notification.helper';
+
+interface CrashFallbackProps {
+  scope: CrashScope;
+  /** null mientras se genera el reporte (primer render tras el error) */
+  report: CrashReport | null;
+  onRetry: () => void;
+  onGoHome: () => void;
+}
+
+const CrashFallback: React.FC<CrashFallbackProps> = ({ scope, report, onRetry, onGoHome }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!report) return;
+
+    try {
+      await navigator.clipboard.writeText(report.id);
+      setCopied(true);
+      showSuccess('ID de diagnóstico copiado');
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      showError(`No se pudo copiar. ID de diagnóstico: ${report.id}`);
+    }
+  };
+
+  const title = report?.isChunkLoadError
+    ? 'Hay una nueva versión disponible'
+    : 'Algo salió mal en este módulo';
+
+  const description = report?.isChunkLoadError
+    ? 'No se pudo cargar parte de la aplicación, probablemente por una actualización reciente. Recarga para obtener la versión más reciente.'
+    : 'Ocurrió un error inesperado al mostrar esta sección. Puedes reintentar o volver al inicio; si el problema persiste, comparte el ID de diagnóstico con soporte.';
+
+  return (
+    <div
+      className={`flex items-center justify-center p-4 font-poppins ${
+        scope === 'app' ? 'min-h-screen bg-[#f8f0e7]' : 'min-h-[60vh]'
+      }`}
+      role="alert"
+      data-component="crash-fallback"
+    >
+      <div className="bg-white rounded-xl border border-gray-200 p-8 max-w-lg w-full shadow-lg">
+        <div className="flex items-center justify-center mb-4">
+          <div className="p-3 bg-[#f8f0e7] rounded-full">
+            <AlertTriangle className="h-8 w-8 text-[#4d4725]" aria-hidden="true" />
+          </div>
+        </div>
+
+        <h2 className="text-xl font-bold text-center text-gray-900 mb-2">{title}</h2>
+        <p className="text-center text-gray-600 leading-relaxed">{description}</p>
+
+        {report && (
+          <div className="mt-6 flex items-center justify-between gap-3 rounded-lg bg-gray-50 border border-gray-200 px-4 py-3">
+            <div className="min-w-0">
+              <p className="text-xs text-gray-500">ID de diagnóstico</p>
+              <p className="font-mono text-sm text-gray-900 truncate">{report.id}</p>
+            </div>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-[#4d4725] bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#4d4725] focus:ring-offset-1 transition-all duration-200 cursor-pointer"
+              aria-label="Copiar ID de diagnóstico"
+            >
+              {copied ? <Check className="h-4 w-4" aria-hidden="true" /> : <Copy className="h-4 w-4" aria-hidden="true" />}
+              {copied ? 'Copiado' : 'Copiar'}
+            </button>
+          </div>
+        )}
+
+        {import.meta.env.DEV && report && (
+          <pre className="mt-4 max-h-40 overflow-auto rounded-lg bg-gray-900 p-3 text-xs text-red-300 whitespace-pre-wrap">
+            {report.error.name}: {report.error.message}
+          </pre>
+        )}
+
+        <div className="mt-6 flex flex-col sm:flex-row items-center justify-center gap-3">
+          <button
+            type="button"
+            onClick={onGoHome}
+            className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-1 transition-all duration-200 cursor-pointer"
+          >
+            <Home className="h-4 w-4" aria-hidden="true" />
+            Ir al inicio
+          </button>
+          <button
+            type="button"
+            onClick={onRetry}
+            className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-[#4d4725] rounded-lg hover:bg-[#3a3519] focus:outline-none focus:ring-2 focus:ring-[#4d4725] focus:ring-offset-1 transition-all duration-200 cursor-pointer"
+          >
+            <RefreshCw className="h-4 w-4" aria-hidden="true" />
+            {report?.isChunkLoadError ? 'Recargar' : 'Reintentar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrashFallback;
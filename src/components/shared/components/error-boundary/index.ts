@@ -0,0 +1,8 @@
+/**
+ * Barrel export para los error boundaries
+ */
+
+export { default as ErrorBoundary } from './ErrorBoundary';
+export { default as RouteErrorBoundary } from './RouteErrorBoundary';
+export { default as CrashFallback } from './components/CrashFallback';
+export type { ErrorBoundaryProps } from './ErrorBoundary';
@@ -0,0 +1,145 @@
+/**
+ * Componente FilterPresetChips
+ * Chips de filtros guardados (un clic aplica el preset), guardar los filtros
+ * actuales con nombre y copiar el enlace de la vista actual
+ */
+
+import React, { useState } from 'react';
+import { Bookmark, BookmarkPlus, Check, Link2, X } from 'lucide-react';
+
+// Hooks
+import useFilterPresets from './hooks/useFilterPresets';
+
+// Helpers
+import { MAX_PRESET_NAME_LENGTH } from '../../../../helper/filter-presets/filter-presets.helper';
+import { showError, showSuccess } from '../../../../helper/notification/notification.helper';
+
+// Interfaces
+import type { FilterPresetChipsProps } from '../../../../interfaces/components/filter-presets.interface';
+
+const FilterPresetChips = <T extends object>({
+  scope,
+  currentFilters,
+  onApply,
+  disabled = false,
+  className = ''
+}: FilterPresetChipsProps<T>): React.ReactElement => {
+  const { presets, activePresetId, savePreset, deletePreset } = useFilterPresets(scope, currentFilters);
+
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = async (event: React.FormEvent): Promise<void> => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    if (await savePreset(name)) {
+      setName('');
+      setIsNaming(false);
+    }
+  };
+
+  const handleCopyLink = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      showSuccess('Enlace copiado: reproduce los filtros y la página actuales', 'Compartir vista');
+    } catch {
+      showError('No se pudo copiar el enlace', 'Compartir vista');
+    }
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 font-poppins ${className}`} aria-label="Filtros guardados">
+      {presets.map(preset => {
+        const isActive = preset.id === activePresetId;
+        return (
+          <span
+            key={preset.id}
+            className={`inline-flex items-center rounded-full border text-sm transition-colors ${
+              isActive
+                ? 'bg-[#4d4725] border-[#4d4725] text-white'
+                : 'bg-white border-[#c2b186] text-[#4d4725] hover:bg-[#f8f0e7]'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => onApply(preset.filters)}
+              disabled={disabled}
+              className="inline-flex items-center gap-1.5 pl-3 pr-1 py-1 cursor-pointer disabled:cursor-not-allowed"
+              aria-pressed={isActive}
+              title={`Aplicar "${preset.name}"`}
+            >
+              <Bookmark size={14} aria-hidden="true" />
+              {preset.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => void deletePreset(preset.id)}
+              className="p-1 mr-1 rounded-full opacity-70 hover:opacity-100 cursor-pointer"
+              aria-label={`Eliminar filtro guardado ${preset.name}`}
+            >
+              <X size={12} />
+            </button>
+          </span>
+        );
+      })}
+
+      {isNaming ? (
+        <form onSubmit={event => void handleSave(event)} className="inline-flex items-center gap-1">
+          <input
+            type="text"
+            value={name}
+            onChange={event => setName(event.target.value)}
+            maxLength={MAX_PRESET_NAME_LENGTH}
+            placeholder="Nombre del filtro"
+            autoFocus
+            className="w-44 px-3 py-1 text-sm border border-[#c2b186] rounded-full focus:outline-none focus:ring-2 focus:ring-[#4d4725]"
+            aria-label="Nombre del filtro guardado"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="p-1.5 text-white bg-[#4d4725] rounded-full hover:bg-[#3a3519] disabled:opacity-50 cursor-pointer"
+            aria-label="Guardar filtro"
+          >
+            <Check size={14} />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsNaming(false);
+              setName('');
+            }}
+            className="p-1.5 text-gray-500 hover:text-gray-700 rounded-full cursor-pointer"
+            aria-label="Cancelar"
+          >
+            <X size={14} />
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsNaming(true)}
+          disabled={disabled || activePresetId !== null}
+          className="inline-flex items-center gap-1.5 px-3 py-1 text-sm text-[#948b54] border border-dashed border-[#c2b186] rounded-full hover:text-[#4d4725] hover:bg-[#f8f0e7] disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+          title={activePresetId ? 'Estos filtros ya están guardados' : 'Guardar los filtros actuales'}
+        >
+          <BookmarkPlus size={14} aria-hidden="true" />
+          Guardar filtros
+        </button>
+      )}
+
+      <button
+        type="button"
+        onClick={() => void handleCopyLink()}
+        className="inline-flex items-center gap-1.5 px-3 py-1 text-sm text-gray-600 rounded-full hover:text-[#4d4725] hover:bg-[#f8f0e7] cursor-pointer ml-auto"
+        title="Copiar enlace a esta vista"
+      >
+        <Link2 size={14} aria-hidden="true" />
+        Copiar enlace
+      </button>
+    </div>
+  );
+};
+
+export default FilterPresetChips;
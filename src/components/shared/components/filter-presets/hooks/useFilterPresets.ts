@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Hook de filtros guardados (presets) por usuario
+ * @version 1.0.0
+ * @description Carga, guarda y elimina presets de una lista y detecta cuál
+ * coincide con los filtros actuales.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+
+import {
+  areFiltersEqual,
+  deleteFilterPreset,
+  getFilterPresets,
+  saveFilterPreset
+} from '../../../../../helper/filter-presets/filter-presets.helper';
+import { logError } from '../../../../../helper/log/logger.helper';
+import { showError, showSuccess } from '../../../../../helper/notification/notification.helper';
+
+import type {
+  FilterPreset,
+  FilterPresetScope,
+  UseFilterPresetsReturn
+} from '../../../../../interfaces/components/filter-presets.interface';
+
+/**
+ * Hook de presets de filtros
+ *
+ * @param scope - Lista a la que pertenecen los presets
+ * @param currentFilters - Filtros actuales (se guardan al crear un preset)
+ */
+export const useFilterPresets = <T extends object>(
+  scope: FilterPresetScope,
+  currentFilters: T
+): UseFilterPresetsReturn<T> => {
+  const [presets, setPresets] = useState<FilterPreset<T>[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getFilterPresets<T>(scope)
+      .then(stored => {
+        if (!cancelled) setPresets(stored);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  const activePresetId = useMemo(
+    () => presets.find(preset => areFiltersEqual(preset.filters, currentFilters))?.id ?? null,
+    [presets, currentFilters]
+  );
+
+  const savePreset = useCallback(async (name: string): Promise<boolean> => {
+    try {
+      setPresets(await saveFilterPreset(scope, name, currentFilters));
+      showSuccess(`Filtro "${name.trim()}" guardado`, 'Filtros guardados');
+      return true;
+    } catch (error) {
+      logError('useFilterPresets', error, 'Error guardando preset');
+      showError(error instanceof Error ? error.message : 'No se pudo guardar el filtro', 'Filtros guardados');
+      return false;
+    }
+  }, [scope, currentFilters]);
+
+  const deletePreset = useCallback(async (id: string): Promise<void> => {
+    try {
+      setPresets(await deleteFilterPreset<T>(scope, id));
+    } catch (error) {
+      logError('useFilterPresets', error, 'Error eliminando preset');
+      showError('No se pudo eliminar el filtro', 'Filtros guardados');
+    }
+  }, [scope]);
+
+  return { presets, loading, activePresetId, savePreset, deletePreset };
+};
+
+export default useFilterPresets;
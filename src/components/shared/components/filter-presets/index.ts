@@ -0,0 +1,6 @@
+/**
+ * Barrel export para los filtros guardados (presets) de las listas de IPH
+ */
+
+export { default as FilterPresetChips } from './FilterPresetChips';
+export { default as useFilterPresets } from './hooks/useFilterPresets';
@@ -0,0 +1,117 @@
+/**
+ * Indicador de la bandeja de salida offline
+ * Muestra el estado de conexión y las mutaciones pendientes o en conflicto
+ *
+ * Solo se renderiza cuando el navegador está sin conexión o existen entradas en la bandeja.
+ */
+
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CloudOff, UploadCloud, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import OfflineQueueItem from './components/OfflineQueueItem';
+import useOfflineQueue from './hooks/useOfflineQueue';
+
+interface OfflineQueueIndicatorProps {
+  position?: 'bottom-left' | 'bottom-right';
+  portalTarget?: HTMLElement;
+}
+
+const POSITION_STYLES = {
+  'bottom-left': 'bottom-4 left-4',
+  'bottom-right': 'bottom-4 right-4'
+};
+
+const OfflineQueueIndicator: React.FC<OfflineQueueIndicatorProps> = ({
+  position = 'bottom-left',
+  portalTarget = document.body
+}) => {
+  const { entries, summary, isOnline, replay, retry, discard } = useOfflineQueue();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (isOnline && summary.total === 0) {
+    return null;
+  }
+
+  const hasConflicts = summary.conflicts > 0;
+  const hasFailed = summary.failed > 0;
+  const headerColor = !isOnline
+    ? 'bg-gray-700'
+    : hasConflicts || hasFailed
+      ? 'bg-red-700'
+      : 'bg-[#4d4725]';
+
+  const headerText = !isOnline
+    ? 'Sin conexión'
+    : summary.isReplaying
+      ? 'Sincronizando cambios...'
+      : 'Cambios pendientes';
+
+  const content = (
+    <div
+      role="region"
+      aria-label="Bandeja de salida sin conexión"
+      aria-live="polite"
+      className={`fixed ${POSITION_STYLES[position]} z-50 font-poppins`}
+      style={{ width: 'min(360px, calc(100vw - 2rem))' }}
+    >
+      <div className="rounded-lg shadow-lg overflow-hidden bg-white border border-gray-200">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(prev => !prev)}
+          className={`w-full flex items-center justify-between gap-2 px-4 py-2 text-white ${headerColor} cursor-pointer`}
+          aria-expanded={isExpanded}
+        >
+          <span className="flex items-center gap-2 text-sm font-medium">
+            {isOnline ? <UploadCloud size={16} aria-hidden="true" /> : <CloudOff size={16} aria-hidden="true" />}
+            {headerText}
+          </span>
+          <span className="flex items-center gap-2 text-xs">
+            {summary.pending > 0 && <span>{summary.pending} pendiente(s)</span>}
+            {hasConflicts && <span>{summary.conflicts} conflicto(s)</span>}
+            {hasFailed && <span>{summary.failed} sin enviar</span>}
+            {isExpanded ? <ChevronDown size={16} aria-hidden="true" /> : <ChevronUp size={16} aria-hidden="true" />}
+          </span>
+        </button>
+
+        {isExpanded && (
+          <div>
+            {entries.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-600">
+                Los cambios que realices sin conexión se guardarán aquí y se enviarán al reconectar.
+              </p>
+            ) : (
+              <ul className="max-h-72 overflow-y-auto">
+                {entries.map(entry => (
+                  <OfflineQueueItem
+                    key={entry.id}
+                    entry={entry}
+                    onRetry={retry}
+                    onDiscard={discard}
+                  />
+                ))}
+              </ul>
+            )}
+
+            {summary.pending > 0 && (
+              <div className="px-4 py-2 bg-gray-50 border-t border-gray-100 flex justify-end">
+                <button
+                  type="button"
+                  onClick={replay}
+                  disabled={!isOnline || summary.isReplaying}
+                  className="inline-flex items-center gap-1 px-3 py-1 text-xs rounded bg-[#4d4725] text-white hover:bg-[#3a3519] disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+                >
+                  <RefreshCw size={12} className={summary.isReplaying ? 'animate-spin' : ''} aria-hidden="true" />
+                  Sincronizar ahora
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return createPortal(content, portalTarget);
+};
+
+export default OfflineQueueIndicator;
@@ -0,0 +1,102 @@
+/**
+ * Componente individual de la bandeja de salida
+ * Muestra una mutación pendiente, en conflicto o fallida con sus acciones
+ */
+
+import React, { useMemo } from 'react';
+import { Clock, AlertTriangle, RefreshCw, Trash2, XCircle } from 'lucide-react';
+import type { OfflineQueueEntry } from '../../../../../helper/http/offline-queue.helper';
+
+interface OfflineQueueItemProps {
+  entry: OfflineQueueEntry;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const STATUS_STYLES = {
+  pending: {
+    label: 'Pendiente',
+    badge: 'bg-yellow-100 text-yellow-800',
+    icon: Clock
+  },
+  replaying: {
+    label: 'Enviando',
+    badge: 'bg-blue-100 text-blue-800',
+    icon: RefreshCw
+  },
+  conflict: {
+    label: 'Conflicto',
+    badge: 'bg-red-100 text-red-800',
+    icon: AlertTriangle
+  },
+  failed: {
+    label: 'Sin enviar',
+    badge: 'bg-red-100 text-red-800',
+    icon: XCircle
+  }
+} as const;
+
+const OfflineQueueItem: React.FC<OfflineQueueItemProps> = ({
+  entry,
+  onRetry,
+  onDiscard
+}) => {
+  const styles = STATUS_STYLES[entry.status];
+  const needsAction = entry.status === 'conflict' || entry.status === 'failed';
+  const Icon = styles.icon;
+
+  const formattedTime = useMemo(
+    () => new Date(entry.createdAt).toLocaleString(),
+    [entry.createdAt]
+  );
+
+  return (
+    <li className="px-4 py-3 border-b border-gray-100 last:border-b-0">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-[#4d4725] truncate" title={entry.label}>
+            {entry.label}
+          </p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {entry.method} · {formattedTime}
+            {entry.attempts > 0 && ` · ${entry.attempts} intento(s)`}
+          </p>
+          {needsAction && entry.lastError && (
+            <p className="text-xs text-red-700 mt-1 break-words">
+              {entry.lastError.status ? `HTTP ${entry.lastError.status}: ` : ''}
+              {entry.lastError.message}
+            </p>
+          )}
+        </div>
+
+        <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${styles.badge}`}>
+          <Icon size={12} className={entry.status === 'replaying' ? 'animate-spin' : ''} aria-hidden="true" />
+          {styles.label}
+        </span>
+      </div>
+
+      {needsAction && (
+        <div className="flex justify-end gap-2 mt-2">
+          <button
+            type="button"
+            onClick={() => onRetry(entry.id)}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded border border-[#4d4725] text-[#4d4725] hover:bg-[#f8f0e7] transition-colors cursor-pointer"
+          >
+            <RefreshCw size={12} aria-hidden="true" />
+            Reintentar
+          </button>
+          <button
+            type="button"
+            onClick={() => onDiscard(entry.id)}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded border border-red-300 text-red-700 hover:bg-red-50 transition-colors cursor-pointer"
+          >
+            <Trash2 size={12} aria-hidden="true" />
+            Descartar
+          </button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default React.memo(OfflineQueueItem);
@@ -0,0 +1,74 @@
+/**
+ * Hook personalizado para la bandeja de salida offline
+ * Conecta con OfflineQueue y expone el estado de conectividad del navegador
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  subscribeToOfflineQueue,
+  getOfflineQueueEntries,
+  getOfflineQueueSummary,
+  replayOfflineQueue,
+  retryOfflineQueueEntry,
+  discardOfflineQueueEntry,
+  type OfflineQueueEntry,
+  type OfflineQueueSummary
+} from '../../../../../helper/http/offline-queue.helper';
+
+interface UseOfflineQueueReturn {
+  entries: OfflineQueueEntry[];
+  summary: OfflineQueueSummary;
+  isOnline: boolean;
+  replay: () => void;
+  retry: (id: string) => void;
+  discard: (id: string) => void;
+}
+
+const readOnlineStatus = (): boolean =>
+  typeof navigator === 'undefined' || navigator.onLine !== false;
+
+const useOfflineQueue = (): UseOfflineQueueReturn => {
+  const [entries, setEntries] = useState<OfflineQueueEntry[]>(() => getOfflineQueueEntries());
+  const [summary, setSummary] = useState<OfflineQueueSummary>(() => getOfflineQueueSummary());
+  const [isOnline, setIsOnline] = useState<boolean>(readOnlineStatus);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToOfflineQueue((updatedEntries, updatedSummary) => {
+      setEntries(updatedEntries);
+      setSummary(updatedSummary);
+    });
+
+    const updateOnlineStatus = () => setIsOnline(readOnlineStatus());
+    window.addEventListener('online', updateOnlineStatus);
+    window.addEventListener('offline', updateOnlineStatus);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', updateOnlineStatus);
+      window.removeEventListener('offline', updateOnlineStatus);
+    };
+  }, []);
+
+  const replay = useCallback(() => {
+    void replayOfflineQueue();
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    void retryOfflineQueueEntry(id);
+  }, []);
+
+  const discard = useCallback((id: string) => {
+    discardOfflineQueueEntry(id);
+  }, []);
+
+  return {
+    entries,
+    summary,
+    isOnline,
+    replay,
+    retry,
+    discard
+  };
+};
+
+export default useOfflineQueue;
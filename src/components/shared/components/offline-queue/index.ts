@@ -0,0 +1,7 @@
+/**
+ * Barrel export para la bandeja de salida offline
+ */
+
+export { default as OfflineQueueIndicator } from './OfflineQueueIndicator';
+export { default as OfflineQueueItem } from './components/OfflineQueueItem';
+export { default as useOfflineQueue } from './hooks/useOfflineQueue';
@@ -112,6 +112,12 @@ export interface UsePaginationPersistenceConfig {
    * @default 3600000 (1 hora)
    */
   ttl?: number;
+
+  /**
+   * Página con prioridad sobre la guardada en sessionStorage
+   * Útil cuando la vista se abre desde un enlace con `?page=N`
+   */
+  pageOverride?: number;
 }
 
 /**
@@ -273,7 +279,8 @@ export const usePaginationPersistence = (
     itemsPerPage = DEFAULT_CONFIG.itemsPerPage,
     initialPage = DEFAULT_CONFIG.initialPage,
     logging = DEFAULT_CONFIG.logging,
-    ttl = DEFAULT_CONFIG.ttl
+    ttl = DEFAULT_CONFIG.ttl,
+    pageOverride
   } = config;
 
   // Construir clave de storage
@@ -286,6 +293,14 @@ export const usePaginationPersistence = (
    * Inicializado mediante función lazy para restaurar desde storage
    */
   const [currentPage, setCurrentPageState] = useState<number>(() => {
+    // La página de la URL gana sobre la guardada (enlace compartido)
+    if (pageOverride !== undefined && Number.isInteger(pageOverride) && pageOverride >= 1) {
+      if (logging) {
+        logDebug('usePaginationPersistence', 'Usando página indicada por la URL', { key, pageOverride });
+      }
+      return pageOverride;
+    }
+
     try {
       const stored = sessionStorage.getItem(storageKey);
 
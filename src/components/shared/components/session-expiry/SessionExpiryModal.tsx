@@ -0,0 +1,149 @@
+/**
+ * Modal de aviso de expiración de sesión
+ * Muestra una cuenta regresiva antes del cierre forzado y permite renovar la sesión
+ * (solo si la renovación está habilitada; si no, únicamente cerrar sesión)
+ *
+ * Se monta una sola vez en el layout privado; el session manager decide cuándo mostrarlo
+ * (usuario inactivo al momento de renovar o fallo al renovar en silencio).
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Clock, LogOut, RefreshCw } from 'lucide-react';
+import useSessionExpiry from './hooks/useSessionExpiry';
+import { getSessionConfig } from '../../../../helper/session/session-manager.helper';
+
+interface SessionExpiryModalProps {
+  portalTarget?: HTMLElement;
+}
+
+const formatCountdown = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const SessionExpiryModal: React.FC<SessionExpiryModalProps> = ({
+  portalTarget = document.body
+}) => {
+  const { state, remainingSeconds, isRefreshing, canRefresh, staySignedIn, logoutNow } = useSessionExpiry();
+  const [isVisible, setIsVisible] = useState(false);
+  const stayButtonRef = useRef<HTMLButtonElement>(null);
+  const logoutButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Mantener visible durante la renovación iniciada desde el aviso
+  useEffect(() => {
+    if (state.status === 'warning') {
+      setIsVisible(true);
+    } else if (state.status !== 'refreshing') {
+      setIsVisible(false);
+    }
+  }, [state.status]);
+
+  useEffect(() => {
+    if (isVisible) {
+      (canRefresh ? stayButtonRef : logoutButtonRef).current?.focus();
+    }
+  }, [isVisible, canRefresh]);
+
+  if (!isVisible) {
+    return null;
+  }
+
+  const leadSeconds = Math.max(1, Math.round(getSessionConfig().refreshLeadTime / 1000));
+  const progress = Math.min(100, (remainingSeconds / leadSeconds) * 100);
+
+  const content = (
+    <div className="fixed inset-0 z-[60] overflow-y-auto font-poppins">
+      {/* Overlay (sin cierre al hacer click: la decisión debe ser explícita) */}
+      <div
+        className="fixed inset-0"
+        style={{
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          backdropFilter: 'blur(2px)',
+          WebkitBackdropFilter: 'blur(2px)'
+        }}
+      />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div
+          role="alertdialog"
+          aria-modal="true"
+          aria-labelledby="session-expiry-title"
+          aria-describedby="session-expiry-description"
+          className="relative bg-white rounded-xl shadow-xl w-full max-w-md"
+        >
+          {/* Header */}
+          <div className="flex items-center gap-3 p-6 border-b border-gray-200">
+            <div className="p-2 rounded-full bg-[#f8f0e7]">
+              <Clock className="h-6 w-6 text-[#4d4725]" aria-hidden="true" />
+            </div>
+            <h3 id="session-expiry-title" className="text-lg font-semibold text-gray-900">
+              Tu sesión está por expirar
+            </h3>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-4">
+            <p id="session-expiry-description" className="text-gray-700 leading-relaxed">
+              Por seguridad, la sesión se cerrará automáticamente. Los cambios que no hayas guardado se perderán.
+              {!canRefresh && ' Guarda tu trabajo y vuelve a iniciar sesión para continuar.'}
+            </p>
+
+            <div className="text-center">
+              <span
+                className="text-4xl font-bold text-[#4d4725] tabular-nums"
+                aria-live="polite"
+                aria-atomic="true"
+              >
+                {formatCountdown(remainingSeconds)}
+              </span>
+              <div className="mt-3 h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+                <div
+                  className="h-full bg-[#4d4725] transition-all duration-1000 ease-linear"
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+            </div>
+
+            {state.lastError && (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+                {state.lastError}
+              </p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-xl">
+            <button
+              ref={logoutButtonRef}
+              type="button"
+              onClick={logoutNow}
+              disabled={isRefreshing}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+            >
+              <LogOut className="h-4 w-4" aria-hidden="true" />
+              Cerrar sesión
+            </button>
+            {canRefresh && (
+              <button
+                ref={stayButtonRef}
+                type="button"
+                onClick={staySignedIn}
+                disabled={isRefreshing}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-[#4d4725] rounded-lg hover:bg-[#3a3519] focus:outline-none focus:ring-2 focus:ring-[#4d4725] focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+              >
+                <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} aria-hidden="true" />
+                {isRefreshing ? 'Renovando...' : 'Seguir conectado'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(content, portalTarget);
+};
+
+export default SessionExpiryModal;
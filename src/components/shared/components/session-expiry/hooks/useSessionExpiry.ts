@@ -0,0 +1,99 @@
+/**
+ * Hook personalizado para el aviso de expiración de sesión
+ * Inicia el session manager mientras el layout privado está montado
+ * y redirige al login cuando la sesión finaliza
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { HttpHelper } from '../../../../../helper/http/http.helper';
+import {
+  startSessionManager,
+  stopSessionManager,
+  subscribeToSession,
+  getSessionState,
+  getSessionConfig,
+  refreshSession,
+  endSession,
+  type SessionState
+} from '../../../../../helper/session/session-manager.helper';
+import { showSuccess, showWarning } from '../../../../../helper/notification/notification.helper';
+
+interface UseSessionExpiryReturn {
+  state: SessionState;
+  /** Segundos restantes antes del cierre forzado */
+  remainingSeconds: number;
+  isRefreshing: boolean;
+  /** false si la renovación está deshabilitada (AUTH_REFRESH_ENABLED) */
+  canRefresh: boolean;
+  staySignedIn: () => void;
+  logoutNow: () => void;
+}
+
+const computeRemainingSeconds = (expiresAt: number | null): number =>
+  expiresAt ? Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)) : 0;
+
+const useSessionExpiry = (): UseSessionExpiryReturn => {
+  const navigate = useNavigate();
+  const navigateRef = useRef(navigate);
+  navigateRef.current = navigate;
+
+  const [state, setState] = useState<SessionState>(() => getSessionState());
+  const [remainingSeconds, setRemainingSeconds] = useState(() => computeRemainingSeconds(state.expiresAt));
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSession(next => {
+      setState(next);
+
+      if (next.status === 'expired') {
+        if (next.endReason === 'user_logout') {
+          showSuccess('Sesión cerrada correctamente');
+        } else {
+          showWarning('Su sesión ha expirado. Por favor, inicie sesión nuevamente.');
+        }
+        navigateRef.current('/');
+      }
+    });
+
+    void startSessionManager(HttpHelper.getInstance());
+
+    return () => {
+      unsubscribe();
+      stopSessionManager();
+    };
+  }, []);
+
+  // Cuenta regresiva solo mientras se muestra el aviso
+  useEffect(() => {
+    setRemainingSeconds(computeRemainingSeconds(state.expiresAt));
+
+    if (state.status !== 'warning' && state.status !== 'refreshing') {
+      return;
+    }
+
+    const intervalId = window.setInterval(() => {
+      setRemainingSeconds(computeRemainingSeconds(state.expiresAt));
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [state.status, state.expiresAt]);
+
+  const staySignedIn = useCallback(() => {
+    void refreshSession();
+  }, []);
+
+  const logoutNow = useCallback(() => {
+    void endSession('user_logout');
+  }, []);
+
+  return {
+    state,
+    remainingSeconds,
+    isRefreshing: state.status === 'refreshing',
+    canRefresh: getSessionConfig().refreshEnabled,
+    staySignedIn,
+    logoutNow
+  };
+};
+
+export default useSessionExpiry;
@@ -0,0 +1,6 @@
+/**
+ * Barrel export para el aviso de expiración de sesión
+ */
+
+export { default as SessionExpiryModal } from './SessionExpiryModal';
+export { default as useSessionExpiry } from './hooks/useSessionExpiry';
@@ -4,3 +4,6 @@
 
 export { useRouteTransition } from './useRouteTransition';
 export { useCacheMonitor, useCacheMonitorAdvanced, useL1CacheMonitor } from './useCacheMonitor';
+export { useIphRealtime } from './useIphRealtime';
+export { useUrlFilterState, parseUrlState, buildUrlState } from './useUrlFilterState';
+export type { UrlStateSchema } from './useUrlFilterState';
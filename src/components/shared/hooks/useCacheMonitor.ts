@@ -6,7 +6,7 @@
  * Características:
  * - ✅ Actualización automática de estadísticas
  * - ✅ Intervalo configurable
- * - ✅ Métricas detalladas L1 + L2
+ * - ✅ Métricas detalladas L1 + L2 + L3
  * - ✅ Cleanup automático
  * - ✅ TypeScript strict
  *
@@ -177,7 +177,7 @@ export const useCacheMonitorAdvanced = (config: CacheMonitorConfig = {}) => {
   };
 
   /**
-   * Limpia todo el cache (L1 + L2)
+   * Limpia todo el cache (L1 + L2 + L3)
    */
   const clearAll = () => {
     CacheHelper.clear(false); // localStorage
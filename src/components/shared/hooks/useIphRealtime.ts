@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Hook para recibir eventos de IPH en tiempo real
+ * @version 1.0.0
+ * @description Suscribe el componente al stream de eventos (SSE) y expone el estado
+ * de la conexión para que el módulo decida cuándo volver a su polling
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  subscribeToIphEvents,
+  subscribeToRealtimeStatus,
+  getRealtimeStatus,
+  type IphRealtimeEvent,
+  type IphRealtimeEventType,
+  type RealtimeStatus
+} from '@/helper/realtime/realtime.helper';
+
+/**
+ * Opciones del hook
+ *
+ * @interface UseIphRealtimeOptions
+ */
+export interface UseIphRealtimeOptions {
+  /** Si es false no se suscribe (p.ej. usuario sin permisos) */
+  enabled?: boolean;
+  /** Tipos de evento de interés; por defecto todos */
+  types?: IphRealtimeEventType[];
+  /** Tiempo (ms) que un IPH permanece resaltado tras un evento */
+  highlightDuration?: number;
+}
+
+/**
+ * Resultado del hook
+ *
+ * @interface UseIphRealtimeReturn
+ */
+export interface UseIphRealtimeReturn {
+  status: RealtimeStatus;
+  /** true mientras el stream entrega eventos (el polling puede pausarse) */
+  isLive: boolean;
+  /** IDs de IPH con eventos recientes (para resaltarlos en la UI) */
+  recentIphIds: string[];
+}
+
+const DEFAULT_HIGHLIGHT_DURATION = 8000;
+
+/**
+ * Hook de eventos IPH en tiempo real
+ *
+ * @param onEvent - Callback por evento (puede cambiar entre renders sin resuscribir)
+ * @param options - Opciones de suscripción
+ *
+ * @example
+ * ```typescript
+ * const { isLive, recentIphIds } = useIphRealtime(() => refetch(), {
+ *   types: ['iph.created', 'iph.status-changed']
+ * });
+ * ```
+ */
+export const useIphRealtime = (
+  onEvent: (event: IphRealtimeEvent) => void,
+  options: UseIphRealtimeOptions = {}
+): UseIphRealtimeReturn => {
+  const { enabled = true, types, highlightDuration = DEFAULT_HIGHLIGHT_DURATION } = options;
+
+  const [status, setStatus] = useState<RealtimeStatus>(getRealtimeStatus);
+  const [recentIphIds, setRecentIphIds] = useState<string[]>([]);
+
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const highlightTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  const highlight = useCallback((iphId: string) => {
+    setRecentIphIds(prev => (prev.includes(iphId) ? prev : [...prev, iphId]));
+
+    const timers = highlightTimers.current;
+    const existing = timers.get(iphId);
+    if (existing) clearTimeout(existing);
+
+    timers.set(iphId, setTimeout(() => {
+      timers.delete(iphId);
+      setRecentIphIds(prev => prev.filter(id => id !== iphId));
+    }, highlightDuration));
+  }, [highlightDuration]);
+
+  const typesKey = types ? types.join(',') : '*';
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const subscribedTypes = typesKey === '*'
+      ? ['*' as const]
+      : (typesKey.split(',') as IphRealtimeEventType[]);
+
+    const unsubscribers = subscribedTypes.map(type =>
+      subscribeToIphEvents(type, event => {
+        highlight(event.iphId);
+        onEventRef.current(event);
+      })
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [enabled, typesKey, highlight]);
+
+  useEffect(() => subscribeToRealtimeStatus(setStatus), []);
+
+  useEffect(() => {
+    const timers = highlightTimers.current;
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  return {
+    status,
+    isLive: enabled && status === 'live',
+    recentIphIds
+  };
+};
+
+export default useIphRealtime;
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Hook para reflejar filtros, orden y página en la query string
+ * @version 1.0.0
+ * @description Un enlace copiado reproduce exactamente la misma vista:
+ * - Al montar se leen los valores de la URL (validados campo por campo con Zod;
+ *   un parámetro inválido se ignora sin descartar los demás)
+ * - `syncUrlState` escribe el estado con `replace` (no llena el historial) y
+ *   omite valores vacíos o iguales al default para mantener la URL corta
+ * - Si la URL cambia desde fuera (enlace a la misma ruta, paleta de comandos),
+ *   `externalUrlState` expone los nuevos valores para aplicarlos
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { z } from 'zod';
+
+import { logWarning } from '../../../helper/log/logger.helper';
+
+// ==================== TIPOS ====================
+
+/**
+ * Esquema por campo: solo los campos presentes se leen/escriben en la URL
+ */
+export type UrlStateSchema<T> = {
+  [K in keyof T]?: z.ZodType<NonNullable<T[K]>>;
+};
+
+export interface UseUrlFilterStateOptions<T> {
+  schema: UrlStateSchema<T>;
+  /** Valores que no se escriben en la URL */
+  defaults: Partial<T>;
+  /** Si false no se modifica la URL (p.ej. usuario sin acceso) */
+  enabled?: boolean;
+}
+
+export interface UseUrlFilterStateReturn<T> {
+  /** Valores presentes en la URL al montar */
+  initialUrlState: Partial<T>;
+  /** Valores de la URL tras un cambio externo (null si no ha habido) */
+  externalUrlState: Partial<T> | null;
+  syncUrlState: (state: T) => void;
+}
+
+// ==================== HELPERS ====================
+
+const schemaKeys = <T>(schema: UrlStateSchema<T>): Array<keyof T & string> =>
+  Object.keys(schema) as Array<keyof T & string>;
+
+/**
+ * Lee y valida los campos del esquema desde la query string
+ */
+export const parseUrlState = <T>(params: URLSearchParams, schema: UrlStateSchema<T>): Partial<T> => {
+  const state: Partial<T> = {};
+
+  for (const key of schemaKeys(schema)) {
+    const raw = params.get(key);
+    const fieldSchema = schema[key];
+    if (raw === null || !fieldSchema) continue;
+
+    const result = fieldSchema.safeParse(raw);
+    if (result.success) {
+      state[key] = result.data;
+    } else {
+      logWarning('useUrlFilterState', `Parámetro de URL inválido ignorado: ${key}`, { value: raw });
+    }
+  }
+
+  return state;
+};
+
+/**
+ * Escribe los campos del esquema sobre `base` (conserva parámetros ajenos)
+ */
+export const buildUrlState = <T>(
+  state: T,
+  defaults: Partial<T>,
+  schema: UrlStateSchema<T>,
+  base: URLSearchParams
+): URLSearchParams => {
+  const params = new URLSearchParams(base);
+
+  for (const key of schemaKeys(schema)) {
+    params.delete(key);
+    const value = state[key];
+    if (value === undefined || value === null || value === '' || value === defaults[key]) continue;
+    params.set(key, String(value));
+  }
+
+  return params;
+};
+
+// ==================== HOOK ====================
+
+/**
+ * Hook de estado de filtros en la URL
+ *
+ * @example
+ * ```typescript
+ * const { initialUrlState, externalUrlState, syncUrlState } = useUrlFilterState({
+ *   schema: { estatus: z.string(), page: z.coerce.number().int().min(1) },
+ *   defaults: { page: 1 }
+ * });
+ * useEffect(() => syncUrlState({ ...filtros, page }), [filtros, page, syncUrlState]);
+ * ```
+ */
+export const useUrlFilterState = <T extends object>({
+  schema,
+  defaults,
+  enabled = true
+}: UseUrlFilterStateOptions<T>): UseUrlFilterStateReturn<T> => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [initialUrlState] = useState<Partial<T>>(() => parseUrlState(searchParams, schema));
+  const [externalUrlState, setExternalUrlState] = useState<Partial<T> | null>(null);
+
+  // Última query escrita por este hook: distingue cambios propios de externos
+  const lastQueryRef = useRef(searchParams.toString());
+
+  // Refs para que `syncUrlState` sea estable: si dependiera de la URL, un cambio
+  // externo reescribiría la URL con el estado anterior antes de aplicarse
+  const searchParamsRef = useRef(searchParams);
+  const setSearchParamsRef = useRef(setSearchParams);
+  searchParamsRef.current = searchParams;
+  setSearchParamsRef.current = setSearchParams;
+
+  useEffect(() => {
+    const query = searchParams.toString();
+    if (query === lastQueryRef.current) return;
+
+    lastQueryRef.current = query;
+    setExternalUrlState(parseUrlState(searchParams, schema));
+  }, [searchParams, schema]);
+
+  const syncUrlState = useCallback((state: T) => {
+    if (!enabled) return;
+
+    const current = searchParamsRef.current;
+    const next = buildUrlState(state, defaults, schema, current);
+    const query = next.toString();
+    if (query === current.toString()) return;
+
+    lastQueryRef.current = query;
+    setSearchParamsRef.current(next, { replace: true });
+  }, [enabled, defaults, schema]);
+
+  return { initialUrlState, externalUrlState, syncUrlState };
+};
+
+export default useUrlFilterState;
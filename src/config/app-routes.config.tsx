@@ -17,12 +17,15 @@
  * @refactored v2.0.0 - Centralización de roles con role.helper
  */
 
-import { lazy, type ComponentType, type LazyExoticComponent, type ReactElement } from 'react';
+import { type ReactElement } from 'react';
 import { Home, BarChart, FileText, Clock, Users, Settings, UserPen, UserCog, ChartNoAxesCombined, FileBarChart } from 'lucide-react';
 
 // Helpers de roles
 import { getUserRoles, hasAnyRole } from '../helper/role/role.helper';
 
+// Carga diferida con reintentos (recarga una vez si el chunk desapareció tras un deploy)
+import { lazyWithRetry, type RetryableLazyComponent } from '../helper/crash-report/crash-report.helper';
+
 // =====================================================
 // INTERFACES
 // =====================================================
@@ -35,8 +38,8 @@ export interface AppRoute {
   id: string;
   /** Path de la ruta (sin slash inicial) */
   path: string;
-  /** Componente lazy-loaded */
-  component: LazyExoticComponent<ComponentType<any>>;
+  /** Componente lazy-loaded (con reintentos y precarga) */
+  component: RetryableLazyComponent<any>;
   /** Roles requeridos para acceder (vacío = todos los autenticados) */
   requiredRoles?: string[];
   /** Título de la página (para SEO y navegación) */
@@ -62,25 +65,28 @@ export interface AppRoute {
 // =====================================================
 
 // Componentes principales
-const Inicio = lazy(() => import('../components/private/components/home/Inicio'));
-const Estadisticas = lazy(() => import('../components/private/components/statistics/Estadisticas'));
-const HistorialIPH = lazy(() => import('../components/private/components/historial-iph/HistorialIPH'));
-const IphOficial = lazy(() => import('../components/private/components/iph-oficial/IphOficial'));
-const InformePolicial = lazy(() => import('../components/private/components/iph-activo/iph-activo'));
-const PerfilUsuario = lazy(() => import('../components/private/components/perfil-usuario/PerfilUsuario'));
-const Usuarios = lazy(() => import('../components/private/components/usuarios/Usuarios'));
-const InformeEjecutivo = lazy(() => import('../components/private/components/informe-ejecutivo/InformeEjecutivo'));
-const Ajustes = lazy(() => import('../components/private/components/ajustes/Ajustes'));
-const AdministracionCatalogos = lazy(() => import('../components/private/components/ajustes/catalogos/AdministracionCatalogos'));
-const GestionGrupos = lazy(() => import('../components/private/components/gestion-grupos/GestionGrupos'));
+const Inicio = lazyWithRetry(() => import('../components/private/components/home/Inicio'));
+const Estadisticas = lazyWithRetry(() => import('../components/private/components/statistics/Estadisticas'));
+const HistorialIPH = lazyWithRetry(() => import('../components/private/components/historial-iph/HistorialIPH'));
+const IphOficial = lazyWithRetry(() => import('../components/private/components/iph-oficial/IphOficial'));
+const IphCompare = lazyWithRetry(() => import('../components/private/components/iph-oficial/compare/IphCompare'));
+const IphDuplicados = lazyWithRetry(() => import('../components/private/components/iph-duplicados/IphDuplicados'));
+const InformePolicial = lazyWithRetry(() => import('../components/private/components/iph-activo/iph-activo'));
+const PerfilUsuario = lazyWithRetry(() => import('../components/private/components/perfil-usuario/PerfilUsuario'));
+const Usuarios = lazyWithRetry(() => import('../components/private/components/usuarios/Usuarios'));
+const InformeEjecutivo = lazyWithRetry(() => import('../components/private/components/informe-ejecutivo/InformeEjecutivo'));
+const Ajustes = lazyWithRetry(() => import('../components/private/components/ajustes/Ajustes'));
+const AdministracionCatalogos = lazyWithRetry(() => import('../components/private/components/ajustes/catalogos/AdministracionCatalogos'));
+const GestionGrupos = lazyWithRetry(() => import('../components/private/components/gestion-grupos/GestionGrupos'));
 
 // Componentes de estadísticas (vistas hijas)
-const UsuariosIphView = lazy(() => import('../components/private/components/statistics/views/UsuariosIphView'));
-const JusticiaCivicaView = lazy(() => import('../components/private/components/statistics/views/JusticiaCivicaView'));
-const ProbableDelictivoView = lazy(() => import('../components/private/components/statistics/views/ProbableDelictivoView'));
+const UsuariosIphView = lazyWithRetry(() => import('../components/private/components/statistics/views/UsuariosIphView'));
+const JusticiaCivicaView = lazyWithRetry(() => import('../components/private/components/statistics/views/JusticiaCivicaView'));
+const ProbableDelictivoView = lazyWithRetry(() => import('../components/private/components/statistics/views/ProbableDelictivoView'));
+const MatrizHorariaView = lazyWithRetry(() => import('../components/private/components/statistics/views/MatrizHorariaView'));
 
 // Componente de Reportes PDF
-const ReportesPdf = lazy(() => import('../components/private/components/reportes-pdf/ReportesPdf'));
+const ReportesPdf = lazyWithRetry(() => import('../components/private/components/reportes-pdf/ReportesPdf'));
 
 // =====================================================
 // CONSTANTES DE GRUPOS DE ROLES
@@ -245,6 +251,16 @@ export const APP_ROUTES: AppRoute[] = [
     showInSidebar: false,
     parentSidebarId: 'estadisticas' // Pertenece a Estadísticas
   },
+  {
+    id: 'estadisticasMatrizHoraria',
+    path: 'estadisticasusuario/matriz-horaria',
+    component: MatrizHorariaView,
+    requiredRoles: ROLE_GROUPS.MANAGEMENT,
+    title: 'Matriz Horaria de IPH',
+    description: 'IPH por día de la semana y hora para planeación de turnos',
+    showInSidebar: false,
+    parentSidebarId: 'estadisticas' // Pertenece a Estadísticas
+  },
 
   {
     id: 'iphOficial',
@@ -256,6 +272,26 @@ export const APP_ROUTES: AppRoute[] = [
     showInSidebar: false,
     parentSidebarId: 'iphActivo' // Pertenece a IPH's Activos
   },
+  {
+    id: 'iphCompare',
+    path: 'iphoficial/compare',
+    component: IphCompare,
+    requiredRoles: ROLE_GROUPS.MANAGEMENT,
+    title: 'Comparar IPH',
+    description: 'Comparación lado a lado de 2 o 3 informes policiales',
+    showInSidebar: false,
+    parentSidebarId: 'historial' // Se abre desde la selección del historial
+  },
+  {
+    id: 'iphDuplicados',
+    path: 'iphduplicados',
+    component: IphDuplicados,
+    requiredRoles: ROLE_GROUPS.MANAGEMENT,
+    title: 'Posibles duplicados',
+    description: 'Cola de revisión de posibles IPH duplicados',
+    showInSidebar: false,
+    parentSidebarId: 'historial' // Se abre desde el encabezado del historial
+  },
   {
     id: 'informeEjecutivo',
     path: 'informeejecutivo/:id',
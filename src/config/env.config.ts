@@ -5,6 +5,15 @@ import runtimeConfig from './runtime.config';
 // API Base URL - Usa runtime config con fallback a import.meta.env
 export const API_BASE_URL = runtimeConfig.apiBaseUrl;
 
+// Endpoint de logs remotos - Vacío deshabilita el envío
+export const LOG_SHIPPING_URL = runtimeConfig.logShippingUrl;
+
+// Stream de eventos IPH en tiempo real - Vacío deshabilita el tiempo real (polling)
+export const REALTIME_STREAM_URL = runtimeConfig.realtimeStreamUrl;
+
+// Renovación de sesión contra el backend - Deshabilitada hasta que exista el endpoint
+export const AUTH_REFRESH_ENABLED = runtimeConfig.authRefreshEnabled;
+
 // ==================== SCHEMAS DE VALIDACIÓN ====================
 
 /**
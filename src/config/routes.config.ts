@@ -1,6 +1,7 @@
 
 export const API_BASE_ROUTES = {
   USER: `api/auth-web/login`,
+  AUTH_REFRESH: `api/auth-web/refresh`,
   IPH: `api/iph-web`,
   ESTADISTICAS: `api/estadisticas`,
   HISTORIAL: `api/historial`,
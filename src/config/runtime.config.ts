@@ -24,6 +24,9 @@ interface RuntimeConfig {
   appName: string;
   appVersion: string;
   debugMode: boolean;
+  logShippingUrl: string;
+  realtimeStreamUrl: string;
+  authRefreshEnabled: boolean;
 }
 
 // Extender Window interface para incluir nuestro config
@@ -153,6 +156,46 @@ export const runtimeConfig = {
     );
   },
 
+  /**
+   * Endpoint de ingesta de logs remotos (vacío = deshabilitado)
+   * Docker: docker run -e LOG_SHIPPING_URL=https://logs.prod.com/ingest
+   * Local: VITE_LOG_SHIPPING_URL en .env
+   */
+  get logShippingUrl(): string {
+    return getConfigValue(
+      'logShippingUrl',
+      'VITE_LOG_SHIPPING_URL',
+      ''
+    );
+  },
+
+  /**
+   * Stream de eventos IPH en tiempo real (SSE); vacío = deshabilitado (polling)
+   * Docker: docker run -e REALTIME_STREAM_URL=https://api.prod.com/api/iph-events/stream
+   * Local: VITE_REALTIME_STREAM_URL en .env
+   */
+  get realtimeStreamUrl(): string {
+    return getConfigValue(
+      'realtimeStreamUrl',
+      'VITE_REALTIME_STREAM_URL',
+      ''
+    );
+  },
+
+  /**
+   * Renovación de sesión vía POST /api/auth-web/refresh (silenciosa y tras un 401)
+   * Deshabilitada por defecto: activarla solo cuando el backend exponga ese endpoint
+   * Docker: docker run -e AUTH_REFRESH_ENABLED=true
+   * Local: VITE_AUTH_REFRESH_ENABLED en .env
+   */
+  get authRefreshEnabled(): boolean {
+    return getConfigValue(
+      'authRefreshEnabled',
+      'VITE_AUTH_REFRESH_ENABLED',
+      false
+    );
+  },
+
   /**
    * Verifica si hay configuración de runtime disponible
    */
@@ -169,7 +212,10 @@ export const runtimeConfig = {
       appEnvironment: this.appEnvironment,
       appName: this.appName,
       appVersion: this.appVersion,
-      debugMode: this.debugMode
+      debugMode: this.debugMode,
+      logShippingUrl: this.logShippingUrl,
+      realtimeStreamUrl: this.realtimeStreamUrl,
+      authRefreshEnabled: this.authRefreshEnabled
     };
   }
 };
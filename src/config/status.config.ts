@@ -3,10 +3,14 @@
  * Define colores y etiquetas para los diferentes estados de un IPH
  *
  * @fileoverview Centraliza la configuración visual de los estatus del sistema IPH
- * @version 1.0.0
+ * y el flujo de trabajo (transiciones permitidas por rol)
+ * @version 1.1.0
  * @since 2024-01-30
  */
 
+import { hasHierarchicalAccess, type SystemRoleType } from './permissions.config';
+import type { IRole } from '../interfaces/role/role.interface';
+
 /**
  * Interface para la configuración de un estatus
  */
@@ -99,3 +103,127 @@ export const isValidStatus = (status: string): status is StatusType => {
 export const getValidStatuses = (): StatusType[] => {
   return Object.keys(STATUS_CONFIG).filter(key => key !== 'N/D') as StatusType[];
 };
+
+// =====================================================
+// FLUJO DE TRABAJO (MÁQUINA DE ESTADOS)
+// =====================================================
+
+/**
+ * Transición permitida entre dos estatus
+ */
+export interface StatusTransition {
+  from: StatusType;
+  to: StatusType;
+
+  /** Rol mínimo requerido (jerárquico: SUPERIOR incluye ADMIN y SUPERADMIN) */
+  minRole: SystemRoleType;
+
+  /** Texto de la acción en botones y menús */
+  actionLabel: string;
+
+  /** Requiere comentario obligatorio (rechazos y reaperturas) */
+  requiresComment?: boolean;
+}
+
+/**
+ * Transiciones permitidas del flujo de un IPH
+ *
+ * @description
+ * - **Procesando → Supervisión**: cualquier rol envía el IPH a revisión
+ * - **Supervisión → Finalizado**: solo Superior o mayor aprueba
+ * - **Supervisión → Procesando**: rechazo de Superior o mayor, con comentario obligatorio
+ * - **Finalizado → Supervisión**: reapertura por Administrador o mayor, con comentario obligatorio
+ * - **N/D → Procesando**: Administrador o mayor normaliza registros sin estatus
+ */
+export const STATUS_TRANSITIONS: readonly StatusTransition[] = [
+  { from: 'Procesando', to: 'Supervisión', minRole: 'ELEMENTO', actionLabel: 'Enviar a supervisión' },
+  { from: 'Supervisión', to: 'Finalizado', minRole: 'SUPERIOR', actionLabel: 'Aprobar y finalizar' },
+  { from: 'Supervisión', to: 'Procesando', minRole: 'SUPERIOR', actionLabel: 'Rechazar', requiresComment: true },
+  { from: 'Finalizado', to: 'Supervisión', minRole: 'ADMIN', actionLabel: 'Reabrir', requiresComment: true },
+  { from: 'N/D', to: 'Procesando', minRole: 'ADMIN', actionLabel: 'Marcar como procesando' }
+] as const;
+
+/**
+ * Longitud mínima del comentario en transiciones que lo requieren
+ */
+export const MIN_TRANSITION_COMMENT_LENGTH = 10;
+
+/**
+ * Resultado de validar una transición
+ */
+export interface StatusTransitionValidation {
+  valid: boolean;
+  transition?: StatusTransition;
+  reason?: string;
+}
+
+/**
+ * Normaliza un estatus del backend al tipo del flujo (desconocidos → N/D)
+ */
+const toStatusType = (status: string): StatusType =>
+  status in STATUS_CONFIG ? status as StatusType : 'N/D';
+
+/**
+ * Obtiene las transiciones que el usuario puede ejecutar desde un estatus
+ *
+ * @param from - Estatus actual del IPH
+ * @param userRoles - Roles del usuario
+ * @returns Transiciones permitidas (vacío si no puede mover el IPH)
+ *
+ * @example
+ * ```typescript
+ * getAllowedTransitions('Supervisión', getUserRoles());
+ * // Superior → [Aprobar y finalizar, Rechazar]
+ * // Elemento → []
+ * ```
+ */
+export const getAllowedTransitions = (from: string, userRoles: IRole[]): StatusTransition[] => {
+  const current = toStatusType(from);
+  return STATUS_TRANSITIONS.filter(transition =>
+    transition.from === current && hasHierarchicalAccess(userRoles, transition.minRole)
+  );
+};
+
+/**
+ * Indica si la transición exige comentario (rechazos y reaperturas)
+ *
+ * @param from - Estatus actual
+ * @param to - Estatus solicitado
+ */
+export const transitionRequiresComment = (from: string, to: string): boolean =>
+  STATUS_TRANSITIONS.some(t => t.from === toStatusType(from) && t.to === to && t.requiresComment);
+
+/**
+ * Valida un cambio de estatus contra el flujo, el rol y el comentario
+ *
+ * @param from - Estatus actual
+ * @param to - Estatus solicitado
+ * @param userRoles - Roles del usuario
+ * @param comment - Comentario del cambio
+ */
+export const validateStatusTransition = (
+  from: string,
+  to: string,
+  userRoles: IRole[],
+  comment?: string
+): StatusTransitionValidation => {
+  const transition = STATUS_TRANSITIONS.find(t => t.from === toStatusType(from) && t.to === to);
+
+  if (!transition) {
+    return { valid: false, reason: `No se permite cambiar de "${from}" a "${to}"` };
+  }
+
+  if (!hasHierarchicalAccess(userRoles, transition.minRole)) {
+    return { valid: false, transition, reason: `No tienes permisos para "${transition.actionLabel.toLowerCase()}"` };
+  }
+
+  if (transition.requiresComment && (comment?.trim().length ?? 0) < MIN_TRANSITION_COMMENT_LENGTH) {
+    return {
+      valid: false,
+      transition,
+      reason: `El comentario es obligatorio (mínimo ${MIN_TRANSITION_COMMENT_LENGTH} caracteres)`
+    };
+  }
+
+  return { valid: true, transition };
+};
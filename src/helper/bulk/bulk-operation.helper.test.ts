@@ -0,0 +1,91 @@
+/**
+ * Tests para Bulk Operation Helper
+ *
+ * Valida el límite de concurrencia, el resultado por elemento (éxito, error,
+ * omitido) y la cancelación de los elementos pendientes.
+ *
+ * @module BulkOperationHelperTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// El logger importa env.config (que a su vez usa el logger); se simula para no depender de .env
+vi.mock('../log/logger.helper', () => ({
+  logInfo: vi.fn(),
+  logWarning: vi.fn(),
+  logError: vi.fn(),
+  logDebug: vi.fn()
+}));
+
+import {
+  runBulkOperation,
+  summarizeBulkResults,
+  BulkSkipError,
+  throwIfAborted,
+  isAbortError,
+  type BulkOperationProgress
+} from './bulk-operation.helper';
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runBulkOperation', () => {
+  it('nunca ejecuta más trabajos que el límite de concurrencia', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await runBulkOperation(Array.from({ length: 10 }, (_, i) => i), async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(5);
+      running--;
+    }, { concurrency: 3 });
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('reporta cada elemento sin detener el lote ante fallos parciales', async () => {
+    const progress: BulkOperationProgress[] = [];
+
+    const results = await runBulkOperation(['a', 'b', 'c', 'd'], async item => {
+      if (item === 'b') throw new Error('Falló b');
+      if (item === 'c') throw new BulkSkipError('Transición no permitida');
+      return item.toUpperCase();
+    }, { onProgress: p => progress.push(p) });
+
+    expect(results.map(r => r.status)).toEqual(['success', 'error', 'skipped', 'success']);
+    expect(results[0].result).toBe('A');
+    expect(results[1].message).toBe('Falló b');
+    expect(summarizeBulkResults(results)).toEqual({ success: 2, error: 1, skipped: 1, cancelled: 0 });
+    expect(progress.at(-1)).toEqual({ processed: 4, total: 4, succeeded: 2, failed: 1 });
+  });
+
+  it('marca como cancelados los elementos pendientes al abortar', async () => {
+    const controller = new AbortController();
+
+    const results = await runBulkOperation([1, 2, 3, 4, 5], async item => {
+      if (item === 2) controller.abort();
+      await delay(1);
+    }, { concurrency: 1, signal: controller.signal });
+
+    expect(results.map(r => r.status)).toEqual(['success', 'success', 'cancelled', 'cancelled', 'cancelled']);
+  });
+});
+
+describe('cancelación', () => {
+  it('throwIfAborted lanza un AbortError reconocible solo si la señal se canceló', () => {
+    const controller = new AbortController();
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+
+    controller.abort();
+    let capturado: unknown;
+    try {
+      throwIfAborted(controller.signal, 'Exportación cancelada');
+    } catch (error) {
+      capturado = error;
+    }
+    expect(isAbortError(capturado)).toBe(true);
+    expect((capturado as Error).message).toBe('Exportación cancelada');
+    expect(isAbortError(new Error('otro'))).toBe(false);
+  });
+});
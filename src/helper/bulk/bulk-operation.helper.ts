@@ -0,0 +1,151 @@
+/**
+ * Bulk Operation Helper - Operaciones masivas con límite de concurrencia
+ *
+ * - Pool de N trabajadores: nunca hay más de N peticiones en vuelo contra el backend
+ * - Resultado por elemento (éxito, error, omitido o cancelado): los fallos parciales
+ *   no detienen el resto del lote
+ * - Cancelación con AbortSignal: los elementos pendientes quedan como "cancelados"
+ *
+ * @example
+ * ```typescript
+ * const report = await runBulkOperation(ids, id => updateEstatus(id), {
+ *   concurrency: 3,
+ *   signal: controller.signal,
+ *   onProgress: ({ processed, total }) => setProgress(processed / total)
+ * });
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { logInfo } from '../log/logger.helper';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type BulkItemStatus = 'success' | 'error' | 'skipped' | 'cancelled';
+
+export interface BulkItemResult<T, R = void> {
+  item: T;
+  status: BulkItemStatus;
+  result?: R;
+  /** Motivo del error u omisión */
+  message?: string;
+}
+
+export interface BulkOperationProgress {
+  processed: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface BulkOperationOptions {
+  /** Máximo de elementos procesándose a la vez (default 3) */
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: BulkOperationProgress) => void;
+}
+
+/**
+ * Error que el trabajador lanza para marcar un elemento como omitido (no fallido)
+ * p.ej. transición de estatus no permitida para ese IPH
+ */
+export class BulkSkipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkSkipError';
+  }
+}
+
+export const DEFAULT_BULK_CONCURRENCY = 3;
+
+// =====================================================
+// EJECUCIÓN
+// =====================================================
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Error desconocido';
+
+/**
+ * Ejecuta `worker` sobre cada elemento con concurrencia limitada
+ *
+ * @param items - Elementos a procesar
+ * @param worker - Operación por elemento
+ * @param options - Concurrencia, cancelación y progreso
+ * @returns Resultados en el mismo orden que `items`
+ */
+export const runBulkOperation = async <T, R = void>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: BulkOperationOptions = {}
+): Promise<BulkItemResult<T, R>[]> => {
+  const { signal, onProgress } = options;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_BULK_CONCURRENCY);
+
+  const results: BulkItemResult<T, R>[] = items.map(item => ({ item, status: 'cancelled' }));
+  const progress: BulkOperationProgress = { processed: 0, total: items.length, succeeded: 0, failed: 0 };
+  let nextIndex = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      const item = items[index];
+
+      try {
+        const result = await worker(item, index);
+        results[index] = { item, status: 'success', result };
+        progress.succeeded++;
+      } catch (error) {
+        const skipped = error instanceof BulkSkipError;
+        results[index] = { item, status: skipped ? 'skipped' : 'error', message: getErrorMessage(error) };
+        if (!skipped) progress.failed++;
+      }
+
+      progress.processed++;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker));
+
+  logInfo('BulkOperation', 'Operación masiva terminada', {
+    ...progress,
+    cancelled: signal?.aborted ?? false
+  });
+
+  return results;
+};
+
+/**
+ * Cuenta resultados por estatus
+ */
+export const summarizeBulkResults = <T, R>(results: BulkItemResult<T, R>[]): Record<BulkItemStatus, number> =>
+  results.reduce<Record<BulkItemStatus, number>>(
+    (summary, result) => ({ ...summary, [result.status]: summary[result.status] + 1 }),
+    { success: 0, error: 0, skipped: 0, cancelled: 0 }
+  );
+
+// =====================================================
+// CANCELACIÓN
+// =====================================================
+
+/**
+ * Lanza un `AbortError` si la operación fue cancelada
+ *
+ * @param signal - Señal de cancelación de la operación
+ * @param message - Mensaje del error (p.ej. 'Exportación cancelada por el usuario')
+ */
+export const throwIfAborted = (signal?: AbortSignal, message: string = 'Operación cancelada'): void => {
+  if (signal?.aborted) {
+    throw new DOMException(message, 'AbortError');
+  }
+};
+
+/**
+ * Indica si el error corresponde a una operación cancelada
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
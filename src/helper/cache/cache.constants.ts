@@ -113,6 +113,58 @@ export const CACHE_LIMITS = {
   MAX_KEY_LENGTH: 100
 } as const;
 
+// =====================================================
+// L3 CACHE (INDEXEDDB)
+// =====================================================
+
+/**
+ * Constantes del tier L3 (IndexedDB) para payloads grandes
+ *
+ * JUSTIFICACIÓN:
+ * - localStorage tiene ~5-10MB compartidos y es síncrono (bloquea el hilo principal)
+ * - IndexedDB permite cientos de MB y es asíncrono
+ * - Las cuotas por namespace evitan que un solo módulo (p.ej. catálogos) desplace al resto
+ */
+export const INDEXEDDB_CONSTANTS = {
+  /** Nombre de la base de datos */
+  DB_NAME: 'iph_cache',
+
+  /** Versión del schema (incrementar al cambiar object stores) */
+  DB_VERSION: 1,
+
+  /** Object store con los CacheItem completos */
+  ENTRIES_STORE: 'entries',
+
+  /** Object store con metadata ligera (índice LRU y cuotas sin leer payloads) */
+  META_STORE: 'meta',
+
+  /**
+   * Tamaño a partir del cual un item va a L3 en modo `tier: 'auto'`
+   *
+   * JUSTIFICACIÓN:
+   * - 256KB es ~5% del límite de L2: pocos items así llenarían localStorage
+   * - Items menores se leen más rápido desde L2 (sin abrir transacción)
+   */
+  AUTO_TIER_THRESHOLD: 256 * 1024, // 256KB
+
+  /**
+   * Cuota por namespace en bytes
+   *
+   * JUSTIFICACIÓN:
+   * - data: registros IPH completos, clusters de heatmap, catálogos (el grueso)
+   * - temp: exportaciones y cálculos intermedios
+   * - Resto: margen para datos puntuales sin competir con data
+   */
+  NAMESPACE_QUOTAS: {
+    routes: 2 * 1024 * 1024, // 2MB
+    data: 50 * 1024 * 1024, // 50MB
+    components: 5 * 1024 * 1024, // 5MB
+    user: 5 * 1024 * 1024, // 5MB
+    system: 5 * 1024 * 1024, // 5MB
+    temp: 20 * 1024 * 1024 // 20MB
+  }
+} as const;
+
 // =====================================================
 // INTERVALOS DE LIMPIEZA
 // =====================================================
@@ -319,6 +371,7 @@ export const ERROR_MESSAGES = {
 export const CACHE_CONSTANTS = {
   TTL_LIMITS,
   CACHE_LIMITS,
+  INDEXEDDB_CONSTANTS,
   CLEANUP_INTERVALS,
   ENCRYPTION_CONSTANTS,
   HASH_CONSTANTS,
@@ -1,7 +1,7 @@
 /**
- * Cache Helper Optimizado v2.4.0 - TWO-LEVEL CACHE (ENTERPRISE GRADE)
+ * Cache Helper Optimizado v2.5.0 - MULTI-LEVEL CACHE (ENTERPRISE GRADE)
  *
- * Helper avanzado para manejo de cache con arquitectura de dos niveles:
+ * Helper avanzado para manejo de cache con arquitectura de tres niveles:
  *
  * 📦 L1 CACHE (Memoria - Ultra Rápido):
  * - Map en memoria para acceso O(1)
@@ -18,6 +18,12 @@
  * - Fallback graceful si storage no disponible
  * - Validación Zod en runtime para datos corruptos
  *
+ * 🗄️ L3 CACHE (IndexedDB - Payloads grandes):
+ * - Asíncrono, cientos de MB disponibles
+ * - Cuota por namespace con LRU propio (cache.indexeddb.ts)
+ * - Solo para items de localStorage (no sessionStorage)
+ * - Fallback automático a L2 si IndexedDB no está disponible
+ *
  * 🚀 CARACTERÍSTICAS:
  * - Auto-cleanup de items expirados
  * - Sistema de prioridades (low/normal/high/critical)
@@ -37,9 +43,17 @@
  * - Sanitización de keys (prevención XSS)
  *
  * @author Sistema IPH
- * @version 2.4.0
+ * @version 2.5.0
  *
  * @changelog
+ * v2.5.0 🗄️ L3 CACHE (IndexedDB)
+ * - ✅ Nuevo tier L3 asíncrono en IndexedDB (CacheIndexedDBStore)
+ * - ✅ Opción `tier` en set/setEncrypted: 'auto' (default, por tamaño), 'storage', 'indexeddb'
+ * - ✅ Cuotas por namespace (INDEXEDDB_CONSTANTS.NAMESPACE_QUOTAS, configurable)
+ * - ✅ get()/getEncrypted() buscan L1 → L2 → L3; L3 promueve a L1
+ * - ✅ setEncrypted() guarda en L3 el mismo payload AES-GCM que en L2
+ * - ✅ remove/clear/cleanup alcanzan L3; getStats() reporta `l3Cache`
+ *
  * v2.4.0 (2025-01-31) 🏗️ MAJOR REFACTORING - ENTERPRISE ARCHITECTURE
  * - ✅ REFACTOR: Extracted constants to cache.constants.ts (~480 lines)
  *   - Eliminados TODOS los números mágicos con documentación completa
@@ -162,10 +176,13 @@ import {
 import { EncryptHelper } from '../encrypt/encrypt.helper';
 
 // ✅ v2.4.0: Imports de clases de refactoring
-import { CACHE_CONSTANTS, TTL_LIMITS, CACHE_LIMITS, CLEANUP_INTERVALS } from './cache.constants';
+import { CACHE_CONSTANTS, TTL_LIMITS, CACHE_LIMITS, CLEANUP_INTERVALS, INDEXEDDB_CONSTANTS } from './cache.constants';
 import { CacheValidator } from './cache.validator';
 import type { TTLValidationResult, KeyValidationResult } from './cache.validator';
 import { CacheMetrics } from './cache.metrics';
+import { CacheIndexedDBStore } from './cache.indexeddb';
+import type { IndexedDBNamespaceUsage } from './cache.indexeddb';
+import { broadcastTabMessage, subscribeToTabMessages } from '../tab-sync/tab-sync.helper';
 import type { CacheMetricsSnapshot } from './cache.metrics';
 
 // =====================================================
@@ -186,6 +203,14 @@ export type CachePriority = 'low' | 'normal' | 'high' | 'critical';
  */
 export type CacheNamespace = 'routes' | 'data' | 'components' | 'user' | 'system' | 'temp';
 
+/**
+ * Tier persistente donde se guarda un item
+ * - auto: L3 si el item supera `indexedDBThreshold`, si no L2
+ * - storage: siempre L2 (localStorage/sessionStorage)
+ * - indexeddb: L3 cuando está disponible (fallback a L2)
+ */
+export type CacheTier = 'auto' | 'storage' | 'indexeddb';
+
 /**
  * Item de cache con metadata completa
  */
@@ -230,6 +255,8 @@ export type CacheSetOptions = {
   useSessionStorage?: boolean;
   /** Guardar datos encriptados en L2 storage */
   encrypt?: boolean;
+  /** Tier persistente (default: 'auto'). Ignorado con useSessionStorage */
+  tier?: CacheTier;
   /** Passphrase personalizada para encriptar */
   passphrase?: string;
   /** Metadata adicional */
@@ -271,6 +298,23 @@ export type CacheStats = {
     /** Uso como porcentaje */
     usage: number;
   };
+  /** Estadísticas de L3 cache (IndexedDB) */
+  l3Cache?: {
+    /** Si IndexedDB está disponible y abierto */
+    available: boolean;
+    /** Items en L3 */
+    items: number;
+    /** Items expirados pendientes de cleanup */
+    expiredItems: number;
+    /** Tamaño total en bytes */
+    totalSize: number;
+    /** Hits desde L3 */
+    hits: number;
+    /** Porcentaje de hits desde L3 */
+    hitRate: number;
+    /** Uso y cuota por namespace */
+    byNamespace: Record<CacheNamespace, IndexedDBNamespaceUsage>;
+  };
 };
 
 /**
@@ -313,6 +357,12 @@ type CacheConfig = {
   enableMemoryCache: boolean;
   /** Número máximo de items en L1 cache (default: 100) */
   memoryCacheMaxItems: number;
+  /** Habilitar L3 cache en IndexedDB (default: true) */
+  enableIndexedDB: boolean;
+  /** Tamaño (bytes) a partir del cual `tier: 'auto'` usa L3 (default: 256KB) */
+  indexedDBThreshold: number;
+  /** Cuotas L3 por namespace en bytes (default: INDEXEDDB_CONSTANTS.NAMESPACE_QUOTAS) */
+  indexedDBQuotas?: Partial<Record<CacheNamespace, number>>;
 };
 
 // =====================================================
@@ -424,7 +474,9 @@ export class CacheHelper {
     enableLogging: true,
     defaultExpiration: 24 * 60 * 60 * 1000, // 1 día
     enableMemoryCache: true, // L1 cache habilitado por defecto
-    memoryCacheMaxItems: 100 // Máximo 100 items en memoria
+    memoryCacheMaxItems: 100, // Máximo 100 items en memoria
+    enableIndexedDB: true, // L3 cache habilitado por defecto
+    indexedDBThreshold: INDEXEDDB_CONSTANTS.AUTO_TIER_THRESHOLD
   };
 
   // L1 Cache: Memoria (ultra rápido, volátil)
@@ -434,6 +486,9 @@ export class CacheHelper {
   // ✅ v2.4.0: Métricas encapsuladas en clase CacheMetrics
   private static metrics = new CacheMetrics();
 
+  // ✅ v2.5.0: L3 Cache: IndexedDB (asíncrono, payloads grandes)
+  private static indexedDB = new CacheIndexedDBStore((message, data) => CacheHelper.log('warn', message, data));
+
   // Timer para auto-cleanup
   private static cleanupTimer: NodeJS.Timeout | null = null;
 
@@ -444,6 +499,9 @@ export class CacheHelper {
   private static initialized = false;
   private static destroyed = false;
 
+  /** Cancelación de la suscripción a limpiezas hechas en otras pestañas */
+  private static tabSyncUnsubscribe: (() => void) | null = null;
+
   /**
    * Inicializa el cache helper con configuración opcional
    * Se llama automáticamente en el primer uso
@@ -481,6 +539,18 @@ export class CacheHelper {
       this.startAutoCleanup();
     }
 
+    // Abrir L3 en segundo plano (las operaciones esperan a que termine)
+    if (this.config.enableIndexedDB) {
+      this.configureIndexedDB();
+    }
+
+    // Replicar limpiezas hechas en otras pestañas (sin volver a difundirlas)
+    if (!this.tabSyncUnsubscribe) {
+      this.tabSyncUnsubscribe = subscribeToTabMessages('cache-cleared', message => {
+        this.clearLocal(message.useSessionStorage, message.namespace);
+      });
+    }
+
     this.initialized = true;
     this.log('info', 'Cache Helper inicializado', this.config);
   }
@@ -493,6 +563,10 @@ export class CacheHelper {
   static configure(config: Partial<CacheConfig>): void {
     this.config = { ...this.config, ...config };
 
+    if (config.indexedDBQuotas || config.enableIndexedDB) {
+      this.configureIndexedDB();
+    }
+
     // Reiniciar auto-cleanup si cambió la configuración
     if (config.enableAutoCleanup !== undefined || config.cleanupInterval !== undefined) {
       this.stopAutoCleanup();
@@ -554,11 +628,16 @@ export class CacheHelper {
 
     // 2. Detener auto-cleanup (previene memory leak)
     this.stopAutoCleanup();
+    this.tabSyncUnsubscribe?.();
+    this.tabSyncUnsubscribe = null;
 
     // 3. Limpiar L1 cache (memoria) - IMPORTANTE para liberar memoria
     const l1Size = this.memoryCache.size;
     this.memoryCache.clear();
 
+    // 3.1 Cerrar conexión L3 (los datos persisten en IndexedDB)
+    this.indexedDB.close();
+
     // 4. Resetear métricas
     this.resetMetrics();
 
@@ -686,8 +765,11 @@ export class CacheHelper {
       // Calcular tamaño estimado
       const size = this.estimateSize(data);
 
+      // ✅ v2.5.0: Payloads grandes van a L3 (IndexedDB) en lugar de L2
+      const useIndexedDB = await this.shouldUseIndexedDB(size, options);
+
       // Verificar límite de memoria
-      if (!this.ensureSpace(size, options.useSessionStorage || false)) {
+      if (!useIndexedDB && !this.ensureSpace(size, options.useSessionStorage || false)) {
         this.log('warn', `No hay espacio suficiente en cache para "${key}"`);
         return false;
       }
@@ -726,7 +808,30 @@ export class CacheHelper {
       this.addToMemoryCache(cacheKey, cacheItem);
 
       // ========================================
-      // PASO 2: Guardar en L2 Cache (Storage)
+      // PASO 2: Guardar en L3 Cache (IndexedDB) si corresponde
+      // ========================================
+      if (useIndexedDB) {
+        if (await this.indexedDB.set(cacheKey, cacheItem)) {
+          // Evitar que una copia anterior en L2 quede obsoleta
+          this.getStorage(false)?.removeItem(cacheKey);
+
+          this.log('info', `Cache set: "${key}" (L1 + L3)`, {
+            size,
+            namespace: cacheItem.namespace,
+            priority: cacheItem.priority
+          });
+          return true;
+        }
+
+        // Cuota de namespace agotada o error de escritura: fallback a L2
+        this.log('warn', `L3 cache no aceptó "${key}", usando L2`);
+        this.ensureSpace(size, false);
+      } else if (!options.useSessionStorage && this.indexedDB.has(cacheKey)) {
+        void this.indexedDB.delete(cacheKey);
+      }
+
+      // ========================================
+      // PASO 3: Guardar en L2 Cache (Storage)
       // ========================================
       const storage = this.getStorage(options.useSessionStorage || false);
 
@@ -801,6 +906,7 @@ export class CacheHelper {
         priority: options?.priority ?? 'normal',
         namespace: options?.namespace ?? 'data',
         useSessionStorage: options?.useSessionStorage ?? false,
+        tier: options?.tier ?? 'auto',
         metadata: options?.metadata,
         passphrase: options?.passphrase
       };
@@ -817,8 +923,9 @@ export class CacheHelper {
       }
 
       const size = this.estimateSize(data);
+      const useIndexedDB = await this.shouldUseIndexedDB(size, normalizedOptions);
 
-      if (!this.ensureSpace(size, normalizedOptions.useSessionStorage)) {
+      if (!useIndexedDB && !this.ensureSpace(size, normalizedOptions.useSessionStorage)) {
         this.log('warn', `No hay espacio suficiente en cache para "${key}" (encrypted)`);
         return false;
       }
@@ -848,7 +955,7 @@ export class CacheHelper {
 
       const storage = this.getStorage(normalizedOptions.useSessionStorage);
 
-      if (!storage) {
+      if (!storage && !useIndexedDB) {
         this.log('warn', `L2 cache no disponible, "${key}" se guardó solo en L1 (encrypted)`);
         return true;
       }
@@ -870,6 +977,29 @@ export class CacheHelper {
           metadata: storageMetadata
         };
 
+        // ✅ v2.5.0: Mismo payload encriptado en L3 para items grandes
+        if (useIndexedDB) {
+          if (await this.indexedDB.set(cacheKey, storageItem)) {
+            storage?.removeItem(cacheKey);
+
+            this.log('info', `Cache set (encrypted): "${key}" (L1 + L3)`, {
+              namespace: storageItem.namespace,
+              priority: storageItem.priority,
+              algorithm: encryptedPayload.algorithm
+            });
+            return true;
+          }
+
+          this.log('warn', `L3 cache no aceptó "${key}" (encrypted), usando L2`);
+        } else if (!normalizedOptions.useSessionStorage && this.indexedDB.has(cacheKey)) {
+          void this.indexedDB.delete(cacheKey);
+        }
+
+        if (!storage) {
+          this.log('warn', `L2 cache no disponible, "${key}" se guardó solo en L1 (encrypted)`);
+          return true;
+        }
+
         storage.setItem(cacheKey, JSON.stringify(storageItem));
 
         this.log('info', `Cache set (encrypted): "${key}" (L1 + L2)`, {
@@ -941,15 +1071,13 @@ export class CacheHelper {
       const storage = this.getStorage(useSessionStorage);
 
       if (!storage) {
-        this.metrics.recordMiss();
-        return null;
+        return this.getFromIndexedDB<T>(key, cacheKey, useSessionStorage, { passphrase });
       }
 
       const cached = storage.getItem(cacheKey);
 
       if (!cached) {
-        this.metrics.recordMiss();
-        return null;
+        return this.getFromIndexedDB<T>(key, cacheKey, useSessionStorage, { passphrase });
       }
 
       const cacheItem = this.parseCacheItem<unknown>(cached, key);
@@ -1166,16 +1294,17 @@ export class CacheHelper {
       const storage = this.getStorage(useSessionStorage);
 
       if (!storage) {
-        // L2 no disponible, solo tenemos L1
-        this.metrics.recordMiss();
-        return null;
+        // L2 no disponible, intentar L3
+        return this.getFromIndexedDB<T>(key, cacheKey, useSessionStorage);
       }
 
       const cached = storage.getItem(cacheKey);
 
       if (!cached) {
-        this.metrics.recordMiss();
-        return null;
+        // ========================================
+        // PASO 3: Buscar en L3 Cache (IndexedDB)
+        // ========================================
+        return this.getFromIndexedDB<T>(key, cacheKey, useSessionStorage);
       }
 
       // Parse y validar desde storage con Zod (operación costosa)
@@ -1361,6 +1490,11 @@ export class CacheHelper {
       // Eliminar de L1 (memoria)
       this.removeFromMemoryCache(cacheKey);
 
+      // Eliminar de L3 (IndexedDB, asíncrono; solo guarda items de localStorage)
+      if (!useSessionStorage && this.config.enableIndexedDB) {
+        void this.indexedDB.delete(cacheKey);
+      }
+
       // Eliminar de L2 (storage)
       const storage = this.getStorage(useSessionStorage);
       if (storage) {
@@ -1388,12 +1522,30 @@ export class CacheHelper {
 
   /**
    * Limpia todo el cache con el prefijo IPH (L1 y L2)
+   * La limpieza se replica en las demás pestañas abiertas
    *
    * @param useSessionStorage - Si usar sessionStorage
    * @param namespace - Opcional: limpiar solo un namespace específico
    */
   static clear(useSessionStorage: boolean = false, namespace?: CacheNamespace): void {
+    this.clearLocal(useSessionStorage, namespace);
+    broadcastTabMessage({ type: 'cache-cleared', useSessionStorage, namespace });
+  }
+
+  /**
+   * Limpia el cache solo en esta pestaña
+   */
+  private static clearLocal(useSessionStorage: boolean, namespace?: CacheNamespace): void {
     try {
+      // L3 solo guarda items de localStorage
+      if (!useSessionStorage && this.config.enableIndexedDB) {
+        void this.indexedDB.clear(namespace).then(removed => {
+          if (removed > 0) {
+            this.log('info', `Cache L3 cleared: ${removed} items`, { namespace });
+          }
+        });
+      }
+
       const storage = this.getStorage(useSessionStorage);
 
       if (!storage) {
@@ -1459,6 +1611,15 @@ export class CacheHelper {
    */
   static cleanup(useSessionStorage: boolean = false): number {
     try {
+      // L3 se limpia en segundo plano (no suma al conteo síncrono)
+      if (!useSessionStorage && this.config.enableIndexedDB) {
+        void this.indexedDB.cleanupExpired().then(removed => {
+          if (removed > 0) {
+            this.log('info', `Cleanup L3 completed: ${removed} items removed`);
+          }
+        });
+      }
+
       const storage = this.getStorage(useSessionStorage);
 
       if (!storage) {
@@ -1553,7 +1714,8 @@ export class CacheHelper {
             high: 0,
             critical: 0
           },
-          l1Cache: l1CacheStats
+          l1Cache: l1CacheStats,
+          l3Cache: this.buildL3Stats(metricsSnapshot)
         };
       }
 
@@ -1633,7 +1795,8 @@ export class CacheHelper {
         totalSize,
         itemsByNamespace,
         itemsByPriority,
-        l1Cache: l1CacheStats
+        l1Cache: l1CacheStats,
+        l3Cache: this.buildL3Stats(metricsSnapshot)
       };
 
     } catch (error) {
@@ -1654,6 +1817,8 @@ export class CacheHelper {
           l1HitRate: 0,
           l2Hits: 0,
           l2HitRate: 0,
+          l3Hits: 0,
+          l3HitRate: 0,
           lastCleanup: Date.now(),
           startedAt: Date.now(),
           uptime: 0,
@@ -1717,6 +1882,132 @@ export class CacheHelper {
   // MÉTODOS PRIVADOS
   // =====================================================
 
+  /**
+   * Aplica cuotas configuradas y abre L3 en segundo plano
+   */
+  private static configureIndexedDB(): void {
+    if (this.config.indexedDBQuotas) {
+      this.indexedDB.setQuotas(this.config.indexedDBQuotas);
+    }
+    void this.indexedDB.open();
+  }
+
+  /**
+   * Decide si un item se persiste en L3 (IndexedDB) en lugar de L2
+   *
+   * L3 es compartido entre pestañas como localStorage, por eso los items
+   * de sessionStorage nunca van a L3.
+   */
+  private static async shouldUseIndexedDB(
+    size: number,
+    options: Pick<CacheSetOptions, 'tier' | 'useSessionStorage'>
+  ): Promise<boolean> {
+    if (!this.config.enableIndexedDB || options.useSessionStorage) {
+      return false;
+    }
+
+    const tier = options.tier ?? 'auto';
+
+    if (tier === 'storage' || (tier === 'auto' && size < this.config.indexedDBThreshold)) {
+      return false;
+    }
+
+    return this.indexedDB.isAvailable();
+  }
+
+  /**
+   * Busca un item en L3 tras un miss de L2 y lo promueve a L1
+   *
+   * @param secure - Presente cuando se llama desde getEncrypted (permite desencriptar)
+   * @returns Los datos o null (registra el miss)
+   */
+  private static async getFromIndexedDB<T>(
+    key: string,
+    cacheKey: string,
+    useSessionStorage: boolean,
+    secure?: { passphrase?: string }
+  ): Promise<T | null> {
+    if (useSessionStorage || !this.config.enableIndexedDB) {
+      this.metrics.recordMiss();
+      return null;
+    }
+
+    const item = await this.indexedDB.get<unknown>(cacheKey);
+
+    if (!item) {
+      this.metrics.recordMiss();
+      return null;
+    }
+
+    const encrypted = this.isEncryptedMetadata(item.metadata) || this.isEncryptedPayload(item.data);
+
+    if (encrypted && !secure) {
+      this.metrics.recordMiss();
+      this.log('warn', `Cache item "${key}" está encriptado. Usa getEncrypted()`);
+      return null;
+    }
+
+    let data: T;
+
+    if (encrypted) {
+      if (!this.isEncryptedPayload(item.data) || !item.data.salt) {
+        this.log('warn', `Cache item L3 "${key}" marcado como encriptado sin payload válido, eliminando`);
+        void this.indexedDB.delete(cacheKey);
+        this.metrics.recordMiss();
+        return null;
+      }
+
+      try {
+        data = this.deserializePayload<T>(await this.decryptPayload(item.data, secure?.passphrase));
+      } catch (decryptError) {
+        this.log('error', `Error desencriptando cache L3 "${key}"`, decryptError);
+        void this.indexedDB.delete(cacheKey);
+        this.metrics.recordMiss();
+        return null;
+      }
+    } else {
+      data = item.data as T;
+    }
+
+    const now = Date.now();
+    this.indexedDB.touch(cacheKey, now);
+
+    // Igual que L2: en memoria se guarda el dato ya desencriptado
+    this.addToMemoryCache(cacheKey, {
+      ...item,
+      data,
+      accessCount: item.accessCount + 1,
+      lastAccess: now,
+      metadata: encrypted ? { ...(item.metadata ?? {}), encrypted: true } : item.metadata
+    });
+
+    this.metrics.recordL3Hit();
+    this.log('info', `L3 Cache hit: "${key}" → promoted to L1`);
+
+    return data;
+  }
+
+  /**
+   * Estadísticas de L3 a partir de la metadata en memoria
+   */
+  private static buildL3Stats(metricsSnapshot: CacheMetricsSnapshot): CacheStats['l3Cache'] {
+    if (!this.config.enableIndexedDB) {
+      return undefined;
+    }
+
+    const l3Stats = this.indexedDB.getStats();
+
+    return {
+      available: l3Stats.available,
+      items: l3Stats.items,
+      expiredItems: l3Stats.expiredItems,
+      totalSize: l3Stats.totalSize,
+      hits: metricsSnapshot.l3Hits,
+      hitRate: Math.round(metricsSnapshot.l3HitRate * 100) / 100,
+      byNamespace: l3Stats.byNamespace
+    };
+  }
+
   /**
    * Verifica que el helper esté en estado válido para operar
    * Si fue destruido, loggea una advertencia
@@ -0,0 +1,493 @@
+/**
+ * @fileoverview Tier L3 (IndexedDB) de Cache Helper
+ * @version 1.0.0
+ *
+ * Almacenamiento asíncrono para payloads grandes que no caben bien en
+ * localStorage (registros IPH completos, clusters de heatmap, catálogos).
+ *
+ * DISEÑO:
+ * - Dos object stores: `entries` (CacheItem completo) y `meta` (metadata ligera)
+ * - La metadata se carga en memoria al abrir: cuotas, LRU y estadísticas
+ *   se resuelven sin leer payloads
+ * - Cuota por namespace con eviction LRU (nunca elimina items 'critical')
+ * - Si IndexedDB no está disponible (modo privado, SSR, políticas), `isAvailable()`
+ *   resuelve false y CacheHelper continúa con L2
+ *
+ * El cifrado NO se hace aquí: CacheHelper entrega el item ya encriptado
+ * (mismo payload que guarda en L2 con setEncrypted).
+ *
+ * @author Sistema IPH
+ */
+
+import { INDEXEDDB_CONSTANTS } from './cache.constants';
+import type { CacheItem, CacheNamespace, CachePriority } from './cache.helper';
+
+/**
+ * Metadata ligera de un item en L3
+ */
+export interface IndexedDBEntryMeta {
+  namespace: CacheNamespace;
+  priority: CachePriority;
+  size: number;
+  timestamp: number;
+  expiresIn: number;
+  lastAccess: number;
+}
+
+/**
+ * Uso de un namespace en L3
+ */
+export interface IndexedDBNamespaceUsage {
+  items: number;
+  size: number;
+  quota: number;
+}
+
+/**
+ * Estadísticas del tier L3
+ */
+export interface IndexedDBStoreStats {
+  available: boolean;
+  items: number;
+  totalSize: number;
+  expiredItems: number;
+  byNamespace: Record<CacheNamespace, IndexedDBNamespaceUsage>;
+}
+
+type AvailabilityStatus = 'unknown' | 'available' | 'unavailable';
+
+const NAMESPACES: CacheNamespace[] = ['routes', 'data', 'components', 'user', 'system', 'temp'];
+
+/**
+ * Convierte un IDBRequest en promesa
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resuelve cuando la transacción termina (commit) o falla
+ */
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Almacén L3 sobre IndexedDB
+ */
+export class CacheIndexedDBStore {
+  private db: IDBDatabase | null = null;
+  private openPromise: Promise<boolean> | null = null;
+  private status: AvailabilityStatus = 'unknown';
+  private readonly index = new Map<string, IndexedDBEntryMeta>();
+  private quotas: Record<CacheNamespace, number> = { ...INDEXEDDB_CONSTANTS.NAMESPACE_QUOTAS };
+
+  private readonly onWarning: (message: string, data?: unknown) => void;
+
+  /**
+   * @param onWarning - Logger de CacheHelper (respeta enableLogging)
+   */
+  constructor(onWarning: (message: string, data?: unknown) => void = () => {}) {
+    this.onWarning = onWarning;
+  }
+
+  /**
+   * Ajusta cuotas por namespace (bytes)
+   */
+  setQuotas(quotas: Partial<Record<CacheNamespace, number>>): void {
+    this.quotas = { ...this.quotas, ...quotas };
+  }
+
+  getQuota(namespace: CacheNamespace): number {
+    return this.quotas[namespace];
+  }
+
+  /**
+   * Abre la base de datos y carga la metadata (una sola vez)
+   * @returns true si L3 está disponible
+   */
+  open(): Promise<boolean> {
+    if (this.openPromise) {
+      return this.openPromise;
+    }
+
+    this.openPromise = (async () => {
+      if (typeof indexedDB === 'undefined') {
+        this.status = 'unavailable';
+        return false;
+      }
+
+      try {
+        const request = indexedDB.open(INDEXEDDB_CONSTANTS.DB_NAME, INDEXEDDB_CONSTANTS.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(INDEXEDDB_CONSTANTS.ENTRIES_STORE)) {
+            db.createObjectStore(INDEXEDDB_CONSTANTS.ENTRIES_STORE);
+          }
+          if (!db.objectStoreNames.contains(INDEXEDDB_CONSTANTS.META_STORE)) {
+            db.createObjectStore(INDEXEDDB_CONSTANTS.META_STORE);
+          }
+        };
+
+        const db = await promisifyRequest(request);
+
+        // Otra pestaña necesita actualizar el schema: liberar la conexión
+        db.onversionchange = () => this.close();
+
+        this.db = db;
+        await this.loadIndex();
+        this.status = 'available';
+        return true;
+
+      } catch (error) {
+        this.onWarning('IndexedDB no disponible, L3 cache deshabilitado', error);
+        this.db = null;
+        this.status = 'unavailable';
+        return false;
+      }
+    })();
+
+    return this.openPromise;
+  }
+
+  /**
+   * Indica si L3 está disponible (abre la base de datos si hace falta)
+   */
+  isAvailable(): Promise<boolean> {
+    return this.open();
+  }
+
+  /**
+   * Indica si la key está registrada en L3 (según la metadata en memoria)
+   */
+  has(key: string): boolean {
+    return this.index.has(key);
+  }
+
+  /**
+   * Lee un item de L3
+   * Los items expirados se eliminan y se reportan como ausentes
+   */
+  async get<T>(key: string): Promise<CacheItem<T> | null> {
+    if (!(await this.isAvailable()) || !this.db) {
+      return null;
+    }
+
+    try {
+      const transaction = this.db.transaction(INDEXEDDB_CONSTANTS.ENTRIES_STORE, 'readonly');
+      const item = await promisifyRequest<CacheItem<T> | undefined>(
+        transaction.objectStore(INDEXEDDB_CONSTANTS.ENTRIES_STORE).get(key)
+      );
+
+      if (!item) {
+        this.index.delete(key);
+        return null;
+      }
+
+      if (Date.now() - item.timestamp > item.expiresIn) {
+        await this.delete(key);
+        return null;
+      }
+
+      // La metadata pudo escribirla otra pestaña
+      this.index.set(key, { ...this.toMeta(item), lastAccess: Date.now() });
+      return item;
+
+    } catch (error) {
+      this.onWarning(`Error leyendo "${key}" desde L3`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Guarda un item respetando la cuota de su namespace
+   * @returns false si no cabe en la cuota o L3 no está disponible
+   */
+  async set(key: string, item: CacheItem<unknown>): Promise<boolean> {
+    if (!(await this.isAvailable()) || !this.db) {
+      return false;
+    }
+
+    const quota = this.quotas[item.namespace];
+    if (item.size > quota) {
+      this.onWarning(`Item "${key}" excede la cuota L3 del namespace "${item.namespace}"`, {
+        size: item.size,
+        quota
+      });
+      return false;
+    }
+
+    const evicted = this.selectEvictions(key, item, quota);
+    if (evicted === null) {
+      this.onWarning(`Sin espacio en L3 para "${key}" (namespace "${item.namespace}")`);
+      return false;
+    }
+
+    try {
+      const transaction = this.db.transaction(
+        [INDEXEDDB_CONSTANTS.ENTRIES_STORE, INDEXEDDB_CONSTANTS.META_STORE],
+        'readwrite'
+      );
+      const entries = transaction.objectStore(INDEXEDDB_CONSTANTS.ENTRIES_STORE);
+      const meta = transaction.objectStore(INDEXEDDB_CONSTANTS.META_STORE);
+      const itemMeta = this.toMeta(item);
+
+      evicted.forEach(evictedKey => {
+        entries.delete(evictedKey);
+        meta.delete(evictedKey);
+      });
+      entries.put(item, key);
+      meta.put(itemMeta, key);
+
+      await promisifyTransaction(transaction);
+
+      evicted.forEach(evictedKey => this.index.delete(evictedKey));
+      this.index.set(key, itemMeta);
+      return true;
+
+    } catch (error) {
+      // QuotaExceededError del navegador u otro fallo de escritura
+      this.onWarning(`Error guardando "${key}" en L3`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Actualiza el último acceso (solo en memoria; basta para el LRU de la sesión)
+   */
+  touch(key: string, lastAccess: number): void {
+    const meta = this.index.get(key);
+    if (meta) {
+      meta.lastAccess = lastAccess;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.index.delete(key);
+
+    if (!this.db) {
+      return;
+    }
+
+    try {
+      const transaction = this.db.transaction(
+        [INDEXEDDB_CONSTANTS.ENTRIES_STORE, INDEXEDDB_CONSTANTS.META_STORE],
+        'readwrite'
+      );
+      transaction.objectStore(INDEXEDDB_CONSTANTS.ENTRIES_STORE).delete(key);
+      transaction.objectStore(INDEXEDDB_CONSTANTS.META_STORE).delete(key);
+      await promisifyTransaction(transaction);
+    } catch (error) {
+      this.onWarning(`Error eliminando "${key}" de L3`, error);
+    }
+  }
+
+  /**
+   * Elimina todos los items (o solo los de un namespace)
+   * @returns Número de items eliminados
+   */
+  async clear(namespace?: CacheNamespace): Promise<number> {
+    if (!(await this.isAvailable()) || !this.db) {
+      return 0;
+    }
+
+    const keys = namespace
+      ? Array.from(this.index.entries()).filter(([, meta]) => meta.namespace === namespace).map(([key]) => key)
+      : Array.from(this.index.keys());
+
+    try {
+      const transaction = this.db.transaction(
+        [INDEXEDDB_CONSTANTS.ENTRIES_STORE, INDEXEDDB_CONSTANTS.META_STORE],
+        'readwrite'
+      );
+      const entries = transaction.objectStore(INDEXEDDB_CONSTANTS.ENTRIES_STORE);
+      const meta = transaction.objectStore(INDEXEDDB_CONSTANTS.META_STORE);
+
+      if (namespace) {
+        keys.forEach(key => {
+          entries.delete(key);
+          meta.delete(key);
+        });
+      } else {
+        entries.clear();
+        meta.clear();
+      }
+
+      await promisifyTransaction(transaction);
+      keys.forEach(key => this.index.delete(key));
+      if (!namespace) {
+        this.index.clear();
+      }
+      return keys.length;
+
+    } catch (error) {
+      this.onWarning('Error limpiando L3 cache', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Elimina los items expirados
+   * @returns Número de items eliminados
+   */
+  async cleanupExpired(): Promise<number> {
+    if (this.status !== 'available' || !this.db) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const expired = Array.from(this.index.entries())
+      .filter(([, meta]) => now - meta.timestamp > meta.expiresIn)
+      .map(([key]) => key);
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    try {
+      const transaction = this.db.transaction(
+        [INDEXEDDB_CONSTANTS.ENTRIES_STORE, INDEXEDDB_CONSTANTS.META_STORE],
+        'readwrite'
+      );
+      const entries = transaction.objectStore(INDEXEDDB_CONSTANTS.ENTRIES_STORE);
+      const meta = transaction.objectStore(INDEXEDDB_CONSTANTS.META_STORE);
+
+      expired.forEach(key => {
+        entries.delete(key);
+        meta.delete(key);
+      });
+
+      await promisifyTransaction(transaction);
+      expired.forEach(key => this.index.delete(key));
+      return expired.length;
+
+    } catch (error) {
+      this.onWarning('Error en cleanup de L3 cache', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Estadísticas calculadas desde la metadata en memoria (síncrono)
+   */
+  getStats(): IndexedDBStoreStats {
+    const now = Date.now();
+    const byNamespace = NAMESPACES.reduce((acc, namespace) => {
+      acc[namespace] = { items: 0, size: 0, quota: this.quotas[namespace] };
+      return acc;
+    }, {} as Record<CacheNamespace, IndexedDBNamespaceUsage>);
+
+    let totalSize = 0;
+    let expiredItems = 0;
+
+    this.index.forEach(meta => {
+      byNamespace[meta.namespace].items++;
+      byNamespace[meta.namespace].size += meta.size;
+      totalSize += meta.size;
+      if (now - meta.timestamp > meta.expiresIn) {
+        expiredItems++;
+      }
+    });
+
+    return {
+      available: this.status === 'available',
+      items: this.index.size,
+      totalSize,
+      expiredItems,
+      byNamespace
+    };
+  }
+
+  /**
+   * Cierra la conexión; el siguiente uso vuelve a abrirla
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    this.openPromise = null;
+    this.status = 'unknown';
+    this.index.clear();
+  }
+
+  // =====================================================
+  // PRIVADOS
+  // =====================================================
+
+  private async loadIndex(): Promise<void> {
+    if (!this.db) return;
+
+    const transaction = this.db.transaction(INDEXEDDB_CONSTANTS.META_STORE, 'readonly');
+    const store = transaction.objectStore(INDEXEDDB_CONSTANTS.META_STORE);
+    const [keys, values] = await Promise.all([
+      promisifyRequest(store.getAllKeys()),
+      promisifyRequest<IndexedDBEntryMeta[]>(store.getAll())
+    ]);
+
+    this.index.clear();
+    keys.forEach((key, i) => {
+      if (typeof key === 'string' && values[i]) {
+        this.index.set(key, values[i]);
+      }
+    });
+  }
+
+  /**
+   * Elige qué items desalojar (LRU, sin 'critical') para que el nuevo quepa en la cuota
+   * @returns Keys a eliminar, o null si no es posible liberar suficiente espacio
+   */
+  private selectEvictions(key: string, item: CacheItem<unknown>, quota: number): string[] | null {
+    const candidates: Array<[string, IndexedDBEntryMeta]> = [];
+    let used = 0;
+
+    this.index.forEach((meta, existingKey) => {
+      // El item que se reemplaza no cuenta contra la cuota
+      if (meta.namespace !== item.namespace || existingKey === key) return;
+      used += meta.size;
+      if (meta.priority !== 'critical') {
+        candidates.push([existingKey, meta]);
+      }
+    });
+
+    if (used + item.size <= quota) {
+      return [];
+    }
+
+    // Expirados primero, luego los menos recientemente usados
+    const now = Date.now();
+    candidates.sort(([, a], [, b]) => {
+      const aExpired = now - a.timestamp > a.expiresIn ? 0 : 1;
+      const bExpired = now - b.timestamp > b.expiresIn ? 0 : 1;
+      return aExpired - bExpired || a.lastAccess - b.lastAccess;
+    });
+
+    const evicted: string[] = [];
+    for (const [candidateKey, meta] of candidates) {
+      evicted.push(candidateKey);
+      used -= meta.size;
+      if (used + item.size <= quota) {
+        return evicted;
+      }
+    }
+
+    return null;
+  }
+
+  private toMeta(item: CacheItem<unknown>): IndexedDBEntryMeta {
+    return {
+      namespace: item.namespace,
+      priority: item.priority,
+      size: item.size,
+      timestamp: item.timestamp,
+      expiresIn: item.expiresIn,
+      lastAccess: item.lastAccess
+    };
+  }
+}
+
+export default CacheIndexedDBStore;
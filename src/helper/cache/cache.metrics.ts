@@ -20,7 +20,7 @@
  */
 export interface CacheMetricsSnapshot {
   // Métricas generales
-  /** Total de hits (L1 + L2) */
+  /** Total de hits (L1 + L2 + L3) */
   hits: number;
   /** Total de misses */
   misses: number;
@@ -41,6 +41,12 @@ export interface CacheMetricsSnapshot {
   /** Hit rate de L2 sobre total de hits (%) */
   l2HitRate: number;
 
+  // Métricas de L3 (IndexedDB)
+  /** Hits desde L3 cache */
+  l3Hits: number;
+  /** Hit rate de L3 sobre total de hits (%) */
+  l3HitRate: number;
+
   // Métricas de tiempo
   /** Timestamp de última limpieza */
   lastCleanup: number;
@@ -103,6 +109,9 @@ export class CacheMetrics {
   /** Hits desde L2 cache (storage) */
   private l2Hits = 0;
 
+  /** Hits desde L3 cache (IndexedDB) */
+  private l3Hits = 0;
+
   /** Timestamp de última limpieza de cache */
   private lastCleanup = Date.now();
 
@@ -147,6 +156,18 @@ export class CacheMetrics {
     this.l2Hits++;
   }
 
+  /**
+   * Registra un hit de L3 cache (IndexedDB)
+   *
+   * EFECTO:
+   * - Incrementa hits totales
+   * - Incrementa hits de L3
+   */
+  recordL3Hit(): void {
+    this.hits++;
+    this.l3Hits++;
+  }
+
   /**
    * Registra un miss (dato no en cache)
    *
@@ -211,6 +232,7 @@ export class CacheMetrics {
     const hitRate = totalAccesses > 0 ? (this.hits / totalAccesses) * 100 : 0;
     const l1HitRate = this.hits > 0 ? (this.l1Hits / this.hits) * 100 : 0;
     const l2HitRate = this.hits > 0 ? (this.l2Hits / this.hits) * 100 : 0;
+    const l3HitRate = this.hits > 0 ? (this.l3Hits / this.hits) * 100 : 0;
 
     // Calcular rates por segundo (con protección contra división por cero)
     const uptimeSeconds = uptime / 1000;
@@ -229,6 +251,8 @@ export class CacheMetrics {
       l1HitRate,
       l2Hits: this.l2Hits,
       l2HitRate,
+      l3Hits: this.l3Hits,
+      l3HitRate,
 
       // Timestamps
       lastCleanup: this.lastCleanup,
@@ -343,6 +367,7 @@ export class CacheMetrics {
     this.misses = 0;
     this.l1Hits = 0;
     this.l2Hits = 0;
+    this.l3Hits = 0;
     this.lastCleanup = Date.now();
     // NO resetear startedAt - queremos uptime total
   }
@@ -396,6 +421,7 @@ export class CacheMetrics {
       `  Hit Rate: ${snapshot.hitRate.toFixed(1)}% (${snapshot.hits}/${snapshot.totalAccesses} accesses)`,
       `  L1 Hit Rate: ${snapshot.l1HitRate.toFixed(1)}% (${snapshot.l1Hits}/${snapshot.hits} hits)`,
       `  L2 Hit Rate: ${snapshot.l2HitRate.toFixed(1)}% (${snapshot.l2Hits}/${snapshot.hits} hits)`,
+      `  L3 Hit Rate: ${snapshot.l3HitRate.toFixed(1)}% (${snapshot.l3Hits}/${snapshot.hits} hits)`,
       `  Misses: ${snapshot.misses}`,
       `  Uptime: ${uptimeMinutes} minutes`,
       `  Performance: ${snapshot.hitsPerSecond.toFixed(2)} hits/sec, ${snapshot.missesPerSecond.toFixed(2)} misses/sec`,
@@ -0,0 +1,70 @@
+/**
+ * Tests para Crash Report Helper
+ *
+ * Valida la detección de chunks fallidos y que `lazyWithRetry` vuelva a pedir
+ * el módulo después de un fallo (React.lazy guardaría el rechazo).
+ *
+ * @module CrashReportHelperTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// El logger importa env.config (que a su vez usa el logger); se simula para no depender de .env
+vi.mock('../log/logger.helper', () => ({
+  getStoredLogs: vi.fn(() => []),
+  logDebug: vi.fn(),
+  logInfo: vi.fn(),
+  logWarning: vi.fn(),
+  logError: vi.fn(),
+  logCritical: vi.fn(),
+  logHttp: vi.fn()
+}));
+
+import { isChunkLoadError, lazyWithRetry } from './crash-report.helper';
+
+const Modulo = () => null;
+
+describe('isChunkLoadError', () => {
+  it('reconoce los mensajes de import() dinámico de los navegadores', () => {
+    expect(isChunkLoadError(new TypeError('Failed to fetch dynamically imported module: /assets/Inicio.js'))).toBe(true);
+    expect(isChunkLoadError(new Error('Importing a module script failed.'))).toBe(true);
+    expect(isChunkLoadError(new Error('Cannot read properties of undefined'))).toBe(false);
+    expect(isChunkLoadError('Failed to fetch dynamically imported module')).toBe(false);
+  });
+});
+
+describe('lazyWithRetry', () => {
+  it('reintenta el import antes de rendirse', async () => {
+    const factory = vi.fn()
+      .mockRejectedValueOnce(new Error('red'))
+      .mockResolvedValueOnce({ default: Modulo });
+
+    const Componente = lazyWithRetry(factory, 2, 0);
+
+    await expect(Componente.preload()).resolves.toEqual({ default: Modulo });
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it('tras agotar los reintentos vuelve a pedir el módulo en la siguiente carga', async () => {
+    const fallo = new Error('Error evaluando el módulo');
+    const factory = vi.fn()
+      .mockRejectedValueOnce(fallo)
+      .mockRejectedValueOnce(fallo)
+      .mockResolvedValueOnce({ default: Modulo });
+
+    const Componente = lazyWithRetry(factory, 1, 0);
+
+    await expect(Componente.preload()).rejects.toBe(fallo);
+    await expect(Componente.preload()).resolves.toEqual({ default: Modulo });
+    expect(factory).toHaveBeenCalledTimes(3);
+  });
+
+  it('comparte la carga en curso entre precarga y render', async () => {
+    const factory = vi.fn().mockResolvedValue({ default: Modulo });
+    const Componente = lazyWithRetry(factory);
+
+    await Promise.all([Componente.preload(), Componente.preload()]);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+});
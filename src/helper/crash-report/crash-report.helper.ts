@@ -0,0 +1,332 @@
+/**
+ * Crash Report Helper
+ *
+ * Genera reportes estructurados cuando un error boundary captura un fallo de render:
+ * ruta, contexto de roles, últimos logs del buffer y métricas HTTP.
+ *
+ * - Cada reporte tiene un ID de diagnóstico que el usuario puede copiar y enviar a soporte
+ * - Se guardan los últimos reportes en localStorage para inspección posterior
+ * - Se registran como CRITICAL, por lo que el transporte remoto de logs los envía siempre
+ * - Detecta fallos de carga de chunks (típicos tras un deploy) y recarga una sola vez
+ *
+ * @example
+ * ```typescript
+ * const report = createCrashReport(error, { scope: 'route', routeId: 'informeEjecutivo' });
+ * console.log(report.id); // IPH-20261019-7K2QXD
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { createElement, lazy, type ComponentType } from 'react';
+import { getStoredLogs, logCritical, logWarning, type LogLevelName } from '../log/logger.helper';
+import { getUserRoleContext } from '../role/role.helper';
+import { HttpHelper, type HttpMetrics } from '../http/http.helper';
+import { APP_ENVIRONMENT } from '../../config/env.config';
+import runtimeConfig from '../../config/runtime.config';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Nivel donde se capturó el error
+ */
+export type CrashScope = 'app' | 'route';
+
+/**
+ * Entrada reducida del buffer de logs incluida en el reporte
+ */
+export interface CrashLogEntry {
+  timestamp: string;
+  level: LogLevelName;
+  module: string;
+  message: string;
+}
+
+/**
+ * Reporte estructurado de un fallo de render
+ */
+export interface CrashReport {
+  /** ID de diagnóstico (visible para el usuario) */
+  id: string;
+  timestamp: string;
+  scope: CrashScope;
+  routeId: string | null;
+  path: string;
+  error: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+  componentStack?: string;
+  isChunkLoadError: boolean;
+  roleContext: {
+    userId?: string;
+    roles: string[];
+  } | null;
+  recentLogs: CrashLogEntry[];
+  httpMetrics: Pick<
+    HttpMetrics,
+    'totalRequests' | 'successfulRequests' | 'failedRequests' | 'averageDuration' | 'requestsByStatus' | 'retryCount'
+  > | null;
+  app: {
+    name: string;
+    version: string;
+    environment: string;
+    userAgent: string;
+  };
+}
+
+/**
+ * Contexto con el que se reporta un fallo
+ */
+export interface CrashContext {
+  scope: CrashScope;
+  routeId?: string;
+  componentStack?: string | null;
+}
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const MODULE = 'CrashReport';
+const STORAGE_KEY = 'iph_crash_reports';
+const MAX_STORED_REPORTS = 10;
+const RECENT_LOGS_LIMIT = 30;
+
+/** Marca de la última recarga por chunk fallido (evita bucles de recarga) */
+const CHUNK_RELOAD_KEY = 'iph_chunk_reload_at';
+/** Ventana en la que no se vuelve a recargar automáticamente */
+const CHUNK_RELOAD_WINDOW = 60 * 1000;
+
+/** Mensajes de los navegadores cuando un import() dinámico falla */
+const CHUNK_ERROR_PATTERNS = [
+  /Failed to fetch dynamically imported module/i,
+  /error loading dynamically imported module/i,
+  /Importing a module script failed/i,
+  /Loading chunk [\w-]+ failed/i,
+  /Loading CSS chunk/i
+];
+
+// =====================================================
+// REPORTES
+// =====================================================
+
+/**
+ * Indica si el error corresponde a un chunk que ya no existe en el servidor
+ */
+export const isChunkLoadError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) return false;
+  if (error.name === 'ChunkLoadError') return true;
+  return CHUNK_ERROR_PATTERNS.some(pattern => pattern.test(error.message));
+};
+
+/**
+ * Genera un ID de diagnóstico corto y legible (IPH-AAAAMMDD-XXXXXX)
+ */
+const generateDiagnosticId = (): string => {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const random = typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID().replace(/-/g, '').slice(0, 6)
+    : Math.random().toString(36).slice(2, 8);
+  return `IPH-${date}-${random.toUpperCase()}`;
+};
+
+const collectRecentLogs = (): CrashLogEntry[] => {
+  try {
+    return getStoredLogs()
+      .slice(-RECENT_LOGS_LIMIT)
+      .map(entry => ({
+        timestamp: entry.timestamp,
+        level: entry.levelName,
+        module: entry.module,
+        message: entry.message
+      }));
+  } catch {
+    return [];
+  }
+};
+
+const collectHttpMetrics = (): CrashReport['httpMetrics'] => {
+  try {
+    const metrics = HttpHelper.getInstance().getMetrics();
+    return {
+      totalRequests: metrics.totalRequests,
+      successfulRequests: metrics.successfulRequests,
+      failedRequests: metrics.failedRequests,
+      averageDuration: Math.round(metrics.averageDuration),
+      requestsByStatus: metrics.requestsByStatus,
+      retryCount: metrics.retryCount
+    };
+  } catch {
+    return null;
+  }
+};
+
+const collectRoleContext = (): CrashReport['roleContext'] => {
+  try {
+    const context = getUserRoleContext();
+    return context
+      ? { userId: context.userId, roles: context.roles.map(role => role.nombre) }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const persistReport = (report: CrashReport): void => {
+  try {
+    const reports = [...getCrashReports(), report].slice(-MAX_STORED_REPORTS);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(reports));
+  } catch {
+    // Storage lleno o deshabilitado: el reporte ya quedó en el logger
+  }
+};
+
+/**
+ * Construye, persiste y registra el reporte de un fallo
+ */
+export const createCrashReport = (error: unknown, context: CrashContext): CrashReport => {
+  const normalized = error instanceof Error ? error : new Error(String(error));
+
+  const report: CrashReport = {
+    id: generateDiagnosticId(),
+    timestamp: new Date().toISOString(),
+    scope: context.scope,
+    routeId: context.routeId ?? null,
+    path: typeof window !== 'undefined' ? window.location.pathname : '',
+    error: {
+      name: normalized.name,
+      message: normalized.message,
+      stack: normalized.stack
+    },
+    componentStack: context.componentStack ?? undefined,
+    isChunkLoadError: isChunkLoadError(normalized),
+    roleContext: collectRoleContext(),
+    recentLogs: collectRecentLogs(),
+    httpMetrics: collectHttpMetrics(),
+    app: {
+      name: runtimeConfig.appName,
+      version: runtimeConfig.appVersion,
+      environment: APP_ENVIRONMENT,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : ''
+    }
+  };
+
+  persistReport(report);
+  logCritical(MODULE, `Fallo de render capturado (${report.id}): ${normalized.message}`, report);
+
+  return report;
+};
+
+/**
+ * Obtiene los últimos reportes guardados en este navegador
+ */
+export const getCrashReports = (): CrashReport[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) as unknown : [];
+    return Array.isArray(parsed) ? parsed as CrashReport[] : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearCrashReports = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// =====================================================
+// CHUNKS
+// =====================================================
+
+/**
+ * Recarga la página para obtener el nuevo index.html tras un deploy
+ * Solo una vez por ventana de tiempo; si el chunk sigue fallando se muestra el fallback
+ *
+ * @returns true si se inició la recarga
+ */
+export const reloadForChunkError = (): boolean => {
+  try {
+    const lastReload = Number(sessionStorage.getItem(CHUNK_RELOAD_KEY) ?? 0);
+    if (Date.now() - lastReload < CHUNK_RELOAD_WINDOW) {
+      return false;
+    }
+    sessionStorage.setItem(CHUNK_RELOAD_KEY, String(Date.now()));
+  } catch {
+    return false;
+  }
+
+  logWarning(MODULE, 'Chunk no disponible (posible deploy nuevo), recargando aplicación');
+  window.location.reload();
+  return true;
+};
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Componente diferido de `lazyWithRetry`
+ */
+export type RetryableLazyComponent<P extends object> = ComponentType<P> & {
+  /** Inicia la carga del módulo sin renderizarlo (precarga de rutas) */
+  preload: () => Promise<{ default: ComponentType<P> }>;
+};
+
+/**
+ * `React.lazy` con reintentos del import dinámico
+ * Cubre fallos de red transitorios; si el chunk ya no existe (deploy nuevo)
+ * recarga la página una vez antes de propagar el error al error boundary.
+ *
+ * `React.lazy` guarda el rechazo para siempre: si la carga falla se crea otro
+ * componente diferido, así "Reintentar" (o volver a la ruta) pide el módulo de nuevo.
+ *
+ * @param factory - Import dinámico del módulo
+ * @param retries - Reintentos antes de rendirse
+ * @param retryDelay - Espera base (ms) entre reintentos, crece linealmente
+ */
+export const lazyWithRetry = <P extends object>(
+  factory: () => Promise<{ default: ComponentType<P> }>,
+  retries = 2,
+  retryDelay = 1000
+): RetryableLazyComponent<P> => {
+  const loadWithRetries = async (): Promise<{ default: ComponentType<P> }> => {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        return await factory();
+      } catch (error) {
+        lastError = error;
+        if (attempt < retries) {
+          await wait(retryDelay * (attempt + 1));
+        }
+      }
+    }
+
+    if (isChunkLoadError(lastError) && reloadForChunkError()) {
+      // La página se está recargando: no resolver para no mostrar el fallback
+      return new Promise<{ default: ComponentType<P> }>(() => {});
+    }
+
+    throw lastError;
+  };
+
+  let pending: Promise<{ default: ComponentType<P> }> | null = null;
+
+  const load = (): Promise<{ default: ComponentType<P> }> => {
+    pending ??= loadWithRetries().catch((error: unknown) => {
+      pending = null;
+      current = lazy(load);
+      throw error;
+    });
+    return pending;
+  };
+
+  let current = lazy(load);
+
+  const LazyWithRetry = (props: P) => createElement(current as ComponentType<P>, props);
+  return Object.assign(LazyWithRetry, { preload: load });
+};
@@ -0,0 +1,105 @@
+/**
+ * Code 128 Helper - Codificación de códigos de barras Code 128 (subconjunto B)
+ *
+ * Convierte un texto ASCII imprimible en la secuencia de barras del código,
+ * con carácter de inicio, dígito verificador (módulo 103) y carácter de paro.
+ * El resultado está en módulos (ancho de la barra más delgada) para que lo
+ * dibuje cualquier salida: SVG en pantalla o rectángulos en el PDF.
+ *
+ * Los lectores de mano (modo teclado) y `BarcodeDetector` leen Code 128 sin
+ * configuración adicional.
+ *
+ * @example
+ * ```typescript
+ * const { bars, width } = encodeCode128('CC-IPH2024-001');
+ * bars.forEach(bar => dibujar(bar.x * escala, bar.width * escala));
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface Code128Bar {
+  /** Posición en módulos desde el inicio del símbolo (sin zona de silencio) */
+  x: number;
+  /** Ancho en módulos (1-4) */
+  width: number;
+}
+
+export interface Code128Encoding {
+  text: string;
+  /** Valores de los símbolos: inicio, datos, verificador y paro */
+  values: number[];
+  bars: Code128Bar[];
+  /** Ancho total en módulos */
+  width: number;
+}
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+/**
+ * Anchos barra/espacio de cada símbolo (0-105) y el de paro (106)
+ */
+export const CODE128_PATTERNS: readonly string[] = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const START_B = 104;
+const STOP = 106;
+
+/** Zona de silencio recomendada a cada lado (módulos) */
+export const CODE128_QUIET_ZONE = 10;
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Indica si el texto se puede codificar en el subconjunto B (ASCII 32-126)
+ */
+export const isCode128Encodable = (text: string): boolean =>
+  text.length > 0 && [...text].every(char => char.charCodeAt(0) >= 32 && char.charCodeAt(0) <= 126);
+
+/**
+ * Codifica el texto en Code 128-B
+ *
+ * @throws Error si el texto está vacío o tiene caracteres fuera de ASCII 32-126
+ */
+export const encodeCode128 = (text: string): Code128Encoding => {
+  if (!isCode128Encodable(text)) {
+    throw new Error(`Texto no codificable en Code 128: "${text}"`);
+  }
+
+  const data = [...text].map(char => char.charCodeAt(0) - 32);
+  const checksum = data.reduce((sum, value, index) => sum + value * (index + 1), START_B) % 103;
+  const values = [START_B, ...data, checksum, STOP];
+
+  const bars: Code128Bar[] = [];
+  let x = 0;
+  values.forEach(value => {
+    [...CODE128_PATTERNS[value]].forEach((digit, index) => {
+      const width = Number(digit);
+      // Posiciones pares son barras, impares espacios
+      if (index % 2 === 0) bars.push({ x, width });
+      x += width;
+    });
+  });
+
+  return { text, values, bars, width: x };
+};
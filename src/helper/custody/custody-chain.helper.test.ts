@@ -0,0 +1,92 @@
+/**
+ * Tests para los códigos de cadena de custodia y Code 128
+ *
+ * @module CustodyChainTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCustodyItemCode,
+  normalizeCustodyFolio,
+  parseCustodyItemCode,
+  resolveCustodyCode,
+  type CustodySheetSet
+} from './custody-chain.helper';
+import { CODE128_PATTERNS, encodeCode128, isCode128Encodable } from './code128.helper';
+
+const sheetSet: CustodySheetSet = {
+  folio: 'IPH/2024/0153',
+  referencia: 'REF-1',
+  items: [0, 1].map(index => ({
+    index,
+    code: buildCustodyItemCode('IPH/2024/0153', index),
+    tipo: 'Arma',
+    descripcion: `Objeto ${index + 1}`,
+    detalles: [],
+    testigos: [],
+    transfers: []
+  }))
+};
+
+describe('normalizeCustodyFolio', () => {
+  it('deja solo mayúsculas, dígitos y guiones', () => {
+    expect(normalizeCustodyFolio(' iph/2024 – año ')).toBe('IPH-2024-ANO');
+  });
+
+  it('usa un folio genérico si no hay folio', () => {
+    expect(normalizeCustodyFolio(undefined)).toBe('SINFOLIO');
+  });
+});
+
+describe('buildCustodyItemCode / parseCustodyItemCode', () => {
+  it('ida y vuelta con posición base 1 en el código', () => {
+    const code = buildCustodyItemCode('IPH/2024/0153', 4);
+    expect(code).toBe('CC-IPH-2024-0153-005');
+    expect(parseCustodyItemCode(code)).toEqual({ folio: 'IPH-2024-0153', index: 4 });
+  });
+
+  it('tolera espacios y minúsculas del lector', () => {
+    expect(parseCustodyItemCode('  cc-iph-1-012\n')).toEqual({ folio: 'IPH-1', index: 11 });
+  });
+
+  it('rechaza textos que no son códigos de custodia', () => {
+    expect(parseCustodyItemCode('IPH-2024-0153')).toBeNull();
+    expect(parseCustodyItemCode('CC-IPH-000')).toBeNull();
+  });
+});
+
+describe('resolveCustodyCode', () => {
+  it('encuentra el objeto del IPH abierto', () => {
+    const result = resolveCustodyCode(sheetSet, 'CC-IPH-2024-0153-002');
+    expect(result.status).toBe('encontrado');
+    expect(result.status === 'encontrado' ? result.item.descripcion : '').toBe('Objeto 2');
+  });
+
+  it('distingue códigos de otro IPH y posiciones inexistentes', () => {
+    expect(resolveCustodyCode(sheetSet, 'CC-OTRO-001').status).toBe('otro-iph');
+    expect(resolveCustodyCode(sheetSet, 'CC-IPH-2024-0153-009').status).toBe('no-encontrado');
+    expect(resolveCustodyCode(sheetSet, 'hola').status).toBe('invalido');
+  });
+});
+
+describe('encodeCode128', () => {
+  it('cada símbolo mide 11 módulos y el de paro 13', () => {
+    CODE128_PATTERNS.slice(0, 106).forEach(pattern => {
+      expect([...pattern].reduce((sum, digit) => sum + Number(digit), 0)).toBe(11);
+    });
+    expect(new Set(CODE128_PATTERNS).size).toBe(CODE128_PATTERNS.length);
+  });
+
+  it('calcula el verificador módulo 103', () => {
+    // 104 + 48·1 + 42·2 + 42·3 + 17·4 + 18·5 + 19·6 + 35·7 = 879 → 879 mod 103 = 55
+    const { values, width } = encodeCode128('PJJ123C');
+    expect(values).toEqual([104, 48, 42, 42, 17, 18, 19, 35, 55, 106]);
+    expect(width).toBe(11 * 9 + 13);
+  });
+
+  it('solo acepta ASCII imprimible', () => {
+    expect(isCode128Encodable('CC-A-001')).toBe(true);
+    expect(isCode128Encodable('Ñ')).toBe(false);
+  });
+});
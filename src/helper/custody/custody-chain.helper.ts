@@ -0,0 +1,134 @@
+/**
+ * Custody Chain Helper - Códigos y hojas de cadena de custodia
+ *
+ * Cada arma u objeto del Anexo D recibe un código `CC-<FOLIO>-<NNN>` que
+ * identifica el IPH (folio del sistema) y la posición del objeto en el
+ * inventario. El mismo texto se imprime legible y en Code 128 en su hoja de
+ * custodia, y el lector lo resuelve de vuelta al objeto dentro del IPH.
+ *
+ * Este módulo no conoce la forma de `ResponseIphData`: recibe las hojas ya
+ * armadas (ver utils/iph-oficial/custody.util).
+ *
+ * @example
+ * ```typescript
+ * const code = buildCustodyItemCode('IPH/2024/0153', 0); // 'CC-IPH-2024-0153-001'
+ * const result = resolveCustodyCode(sheetSet, lecturaDelEscaner);
+ * if (result.status === 'encontrado') mostrar(result.item);
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface CustodyPerson {
+  nombre: string;
+  cargo?: string;
+  adscripcion?: string;
+}
+
+/**
+ * Movimiento de custodia: quién entrega, quién recibe y cuándo
+ */
+export interface CustodyTransfer {
+  etapa: string;
+  fecha?: string;
+  entrega: CustodyPerson[];
+  recibe: CustodyPerson[];
+  observaciones?: string;
+}
+
+export interface CustodyItemDetail {
+  label: string;
+  value: string;
+}
+
+export interface CustodyItem {
+  /** Posición (base 0) en el Anexo D */
+  index: number;
+  code: string;
+  tipo: string;
+  descripcion: string;
+  detalles: CustodyItemDetail[];
+  testigos: string[];
+  transfers: CustodyTransfer[];
+}
+
+export interface CustodySheetSet {
+  folio: string;
+  referencia: string;
+  items: CustodyItem[];
+}
+
+export type CustodyCodeResolution =
+  | { status: 'encontrado'; item: CustodyItem }
+  | { status: 'otro-iph'; folio: string; index: number }
+  | { status: 'no-encontrado'; index: number }
+  | { status: 'invalido' };
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+export const CUSTODY_CODE_PREFIX = 'CC';
+
+/** Folio usado cuando el IPH aún no tiene folio del sistema */
+const FOLIO_FALLBACK = 'SINFOLIO';
+
+const CODE_PATTERN = new RegExp(`^${CUSTODY_CODE_PREFIX}-([A-Z0-9-]+)-(\\d{3,})$`);
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Folio en mayúsculas y solo con letras, dígitos y guiones (seguro para Code 128
+ * y para lectores configurados con otra distribución de teclado)
+ */
+export const normalizeCustodyFolio = (folio: string | undefined): string => {
+  const normalized = (folio ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return normalized || FOLIO_FALLBACK;
+};
+
+/**
+ * Código del objeto: prefijo, folio normalizado y posición con 3 dígitos (base 1)
+ */
+export const buildCustodyItemCode = (folio: string | undefined, index: number): string =>
+  `${CUSTODY_CODE_PREFIX}-${normalizeCustodyFolio(folio)}-${String(index + 1).padStart(3, '0')}`;
+
+/**
+ * Interpreta una lectura del escáner; tolera espacios y minúsculas
+ *
+ * @returns folio normalizado y posición base 0, o null si no es un código de custodia
+ */
+export const parseCustodyItemCode = (raw: string): { folio: string; index: number } | null => {
+  const match = CODE_PATTERN.exec(raw.trim().toUpperCase());
+  if (!match) return null;
+
+  const position = Number(match[2]);
+  if (position < 1) return null;
+  return { folio: match[1], index: position - 1 };
+};
+
+/**
+ * Resuelve una lectura al objeto del IPH abierto
+ */
+export const resolveCustodyCode = (sheetSet: CustodySheetSet, raw: string): CustodyCodeResolution => {
+  const parsed = parseCustodyItemCode(raw);
+  if (!parsed) return { status: 'invalido' };
+
+  if (parsed.folio !== normalizeCustodyFolio(sheetSet.folio)) {
+    return { status: 'otro-iph', folio: parsed.folio, index: parsed.index };
+  }
+
+  const item = sheetSet.items.find(candidate => candidate.index === parsed.index);
+  return item ? { status: 'encontrado', item } : { status: 'no-encontrado', index: parsed.index };
+};
@@ -0,0 +1,103 @@
+/**
+ * Dashboard Layout Helper - Layouts de widgets del dashboard de Inicio
+ *
+ * El layout del usuario se guarda por rol (para que un usuario con varios roles
+ * no mezcle layouts); si no tiene uno guardado aplica el del sistema.
+ *
+ * @example
+ * ```typescript
+ * const { layout, origen } = await resolveDashboardLayout('SUPERIOR');
+ * await saveUserDashboardLayout('SUPERIOR', layout.widgets);
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import CacheHelper from '../cache/cache.helper';
+import { logInfo, logError } from '../log/logger.helper';
+import { getUserId } from '../user/user.helper';
+
+import type { SystemRoleType } from '../../config/permissions.config';
+import type {
+  DashboardLayout,
+  DashboardLayoutSource,
+  DashboardWidgetInstance
+} from '../../interfaces/components/dashboard-widgets.interface';
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+const CACHE_KEY_PREFIX = 'dashboard-layout';
+
+/** Los layouts no caducan en la práctica (1 año) */
+const LAYOUT_EXPIRATION_MS = 365 * 24 * 60 * 60 * 1000;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+const buildUserKey = (rol: SystemRoleType): string =>
+  `${CACHE_KEY_PREFIX}:${rol}:${getUserId() ?? 'anonimo'}`;
+
+const buildLayout = (widgets: DashboardWidgetInstance[]): DashboardLayout => ({
+  widgets,
+  updatedAt: new Date().toISOString()
+});
+
+const readLayout = async (key: string): Promise<DashboardLayout | null> => {
+  try {
+    const layout = await CacheHelper.get<DashboardLayout>(key);
+    return layout && Array.isArray(layout.widgets) ? layout : null;
+  } catch (error) {
+    logError('DashboardLayout', error, `Error leyendo layout ${key}`);
+    return null;
+  }
+};
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Resuelve el layout del usuario actual para un rol
+ *
+ * @returns Layout y su origen; `layout` es null cuando aplica el del sistema
+ */
+export const resolveDashboardLayout = async (
+  rol: SystemRoleType
+): Promise<{ layout: DashboardLayout | null; origen: DashboardLayoutSource }> => {
+  const userLayout = await readLayout(buildUserKey(rol));
+  if (userLayout) return { layout: userLayout, origen: 'usuario' };
+
+  return { layout: null, origen: 'sistema' };
+};
+
+/**
+ * Guarda el layout del usuario actual para un rol
+ */
+export const saveUserDashboardLayout = async (
+  rol: SystemRoleType,
+  widgets: DashboardWidgetInstance[]
+): Promise<DashboardLayout> => {
+  const layout = buildLayout(widgets);
+
+  await CacheHelper.set(buildUserKey(rol), layout, {
+    expiresIn: LAYOUT_EXPIRATION_MS,
+    priority: 'high',
+    namespace: 'user'
+  });
+  logInfo('DashboardLayout', 'Layout de usuario guardado', { rol, widgets: widgets.length });
+
+  return layout;
+};
+
+/**
+ * Elimina el layout del usuario actual (vuelve al del sistema)
+ */
+export const resetUserDashboardLayout = (rol: SystemRoleType): void => {
+  CacheHelper.remove(buildUserKey(rol));
+  logInfo('DashboardLayout', 'Layout de usuario restablecido', { rol });
+};
+
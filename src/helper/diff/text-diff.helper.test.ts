@@ -0,0 +1,54 @@
+/**
+ * Tests para Text Diff Helper
+ *
+ * Valida que los segmentos reconstruyan ambos textos y el resumen de palabras.
+ *
+ * @module TextDiffHelperTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffWords, summarizeDiff, type DiffSegment } from './text-diff.helper';
+
+const rebuild = (segments: DiffSegment[], side: 'base' | 'next'): string =>
+  segments
+    .filter(segment => segment.type === 'equal' || segment.type === (side === 'base' ? 'removed' : 'added'))
+    .map(segment => segment.text)
+    .join('');
+
+describe('diffWords', () => {
+  it('marca la palabra reemplazada y conserva el resto', () => {
+    const segments = diffWords('llegó la unidad al lugar', 'llegó la patrulla al lugar');
+
+    expect(segments).toEqual([
+      { type: 'equal', text: 'llegó la ' },
+      { type: 'removed', text: 'unidad' },
+      { type: 'added', text: 'patrulla' },
+      { type: 'equal', text: ' al lugar' }
+    ]);
+  });
+
+  it('los segmentos reconstruyen ambos textos', () => {
+    const base = 'Se detuvo a una persona  en la calle Juárez.\nSin lesiones.';
+    const next = 'Se detuvieron dos personas en la calle Juárez.\nSin lesiones visibles.';
+    const segments = diffWords(base, next);
+
+    expect(rebuild(segments, 'base')).toBe(base);
+    expect(rebuild(segments, 'next')).toBe(next);
+  });
+
+  it('textos idénticos producen un solo segmento igual', () => {
+    expect(diffWords('mismo texto', 'mismo texto')).toEqual([{ type: 'equal', text: 'mismo texto' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
+
+describe('summarizeDiff', () => {
+  it('cuenta palabras añadidas, eliminadas y la similitud', () => {
+    const summary = summarizeDiff(diffWords('a b c d', 'a b x d e'));
+
+    expect(summary.removedWords).toBe(1);
+    expect(summary.addedWords).toBe(2);
+    expect(summary.similarity).toBeCloseTo(3 / 5);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Text Diff Helper
+ *
+ * Diff por palabras (LCS) entre dos textos, p.ej. la narrativa de dos IPH.
+ * Los espacios se conservan como tokens para poder reconstruir ambos textos
+ * a partir de los segmentos.
+ *
+ * @module TextDiffHelper
+ * @version 1.0.0
+ */
+
+// ==================== TIPOS ====================
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+export interface DiffSummary {
+  /** Palabras presentes solo en el texto nuevo */
+  addedWords: number;
+  /** Palabras presentes solo en el texto base */
+  removedWords: number;
+  /** Proporción de palabras en común (0-1) respecto al texto más largo */
+  similarity: number;
+}
+
+// ==================== CONFIGURACIÓN ====================
+
+/**
+ * Límite de celdas de la tabla LCS; por encima el bloque central se marca
+ * como reemplazado completo para no bloquear el navegador
+ */
+export const MAX_DIFF_CELLS = 4_000_000;
+
+// ==================== HELPERS INTERNOS ====================
+
+const tokenize = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+const isWord = (token: string): boolean => token.trim().length > 0;
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, text: string): void => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * LCS clásico sobre el bloque central (sin prefijo/sufijo comunes)
+ */
+const diffTokens = (base: string[], next: string[], segments: DiffSegment[]): void => {
+  const n = base.length;
+  const m = next.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'removed', base.join(''));
+    pushSegment(segments, 'added', next.join(''));
+    return;
+  }
+
+  // table[i][j] = LCS de base[i..] y next[j..]
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = base[i] === next[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (base[i] === next[j]) {
+      pushSegment(segments, 'equal', base[i]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      pushSegment(segments, 'removed', base[i++]);
+    } else {
+      pushSegment(segments, 'added', next[j++]);
+    }
+  }
+  while (i < n) pushSegment(segments, 'removed', base[i++]);
+  while (j < m) pushSegment(segments, 'added', next[j++]);
+};
+
+// ==================== API PÚBLICA ====================
+
+/**
+ * Calcula el diff por palabras entre `base` y `next`
+ *
+ * @example
+ * ```typescript
+ * diffWords('llegó la unidad', 'llegó la patrulla');
+ * // [{ type: 'equal', text: 'llegó la ' }, { type: 'removed', text: 'unidad' }, { type: 'added', text: 'patrulla' }]
+ * ```
+ */
+export const diffWords = (base: string, next: string): DiffSegment[] => {
+  const baseTokens = tokenize(base);
+  const nextTokens = tokenize(next);
+  const segments: DiffSegment[] = [];
+
+  // Prefijo y sufijo comunes fuera de la tabla LCS
+  let start = 0;
+  while (
+    start < baseTokens.length &&
+    start < nextTokens.length &&
+    baseTokens[start] === nextTokens[start]
+  ) {
+    start++;
+  }
+
+  let baseEnd = baseTokens.length;
+  let nextEnd = nextTokens.length;
+  while (baseEnd > start && nextEnd > start && baseTokens[baseEnd - 1] === nextTokens[nextEnd - 1]) {
+    baseEnd--;
+    nextEnd--;
+  }
+
+  pushSegment(segments, 'equal', baseTokens.slice(0, start).join(''));
+  diffTokens(baseTokens.slice(start, baseEnd), nextTokens.slice(start, nextEnd), segments);
+  pushSegment(segments, 'equal', baseTokens.slice(baseEnd).join(''));
+
+  return segments;
+};
+
+/**
+ * Resume un diff en palabras añadidas/eliminadas y similitud
+ */
+export const summarizeDiff = (segments: DiffSegment[]): DiffSummary => {
+  const counts: Record<DiffSegmentType, number> = { equal: 0, added: 0, removed: 0 };
+
+  for (const segment of segments) {
+    counts[segment.type] += tokenize(segment.text).filter(isWord).length;
+  }
+
+  const longest = Math.max(counts.equal + counts.removed, counts.equal + counts.added);
+
+  return {
+    addedWords: counts.added,
+    removedWords: counts.removed,
+    similarity: longest === 0 ? 1 : counts.equal / longest
+  };
+};
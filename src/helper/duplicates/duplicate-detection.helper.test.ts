@@ -0,0 +1,106 @@
+/**
+ * Tests para Duplicate Detection Helper
+ *
+ * Valida las señales (ubicación, tiempo, tipo, detenidos, narrativa), el
+ * descarte directo por distancia/tiempo y que los datos faltantes no penalicen.
+ *
+ * @module DuplicateDetectionHelperTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  distanceInMeters,
+  findDuplicateMatches,
+  normalizeForMatching,
+  scoreDuplicatePair,
+  type IphFingerprint
+} from './duplicate-detection.helper';
+
+const HOUR = 60 * 60 * 1000;
+const BASE_TIME = Date.parse('2026-03-10T22:00:00Z');
+
+const fingerprint = (overrides: Partial<IphFingerprint>): IphFingerprint => ({
+  id: 'A',
+  referencia: 'REF-A',
+  tipo: 'Probable hecho delictivo',
+  coordenadas: { lat: 19.4326, lng: -99.1332 },
+  fechas: [BASE_TIME],
+  detenidos: [],
+  narrativa: '',
+  ...overrides
+});
+
+describe('distanceInMeters', () => {
+  it('un grado de latitud mide ~111 km', () => {
+    const meters = distanceInMeters({ lat: 19, lng: -99 }, { lat: 20, lng: -99 });
+    expect(meters).toBeGreaterThan(110_000);
+    expect(meters).toBeLessThan(112_000);
+  });
+});
+
+describe('normalizeForMatching', () => {
+  it('ignora acentos, mayúsculas y signos', () => {
+    expect(normalizeForMatching('  JOSÉ  Pérez-Núñez ')).toBe('jose perez nunez');
+  });
+});
+
+describe('scoreDuplicatePair', () => {
+  it('marca como alta probabilidad el mismo hecho registrado dos veces', () => {
+    const a = fingerprint({
+      detenidos: ['José Pérez López'],
+      narrativa: 'Se atendió reporte de robo a transeúnte sobre avenida Juárez, se aseguró al probable responsable'
+    });
+    const b = fingerprint({
+      id: 'B',
+      referencia: 'REF-B',
+      coordenadas: { lat: 19.4327, lng: -99.1333 },
+      fechas: [BASE_TIME + 0.25 * HOUR],
+      detenidos: ['JOSE PEREZ'],
+      narrativa: 'Reporte de robo a transeúnte en avenida Juárez; se aseguró al probable responsable del robo'
+    });
+
+    const match = scoreDuplicatePair(a, b);
+
+    expect(match.level).toBe('alta');
+    expect(match.pairKey).toBe('A|B');
+    expect(match.signals.find(signal => signal.key === 'detenidos')?.score).toBe(1);
+  });
+
+  it('descarta hechos separados por más de la ventana de tiempo', () => {
+    const match = scoreDuplicatePair(fingerprint({}), fingerprint({ id: 'B', fechas: [BASE_TIME + 5 * 24 * HOUR] }));
+
+    expect(match.score).toBe(0);
+    expect(match.level).toBeNull();
+  });
+
+  it('las señales sin datos no penalizan el puntaje', () => {
+    const match = scoreDuplicatePair(fingerprint({}), fingerprint({ id: 'B' }));
+
+    expect(match.signals.find(signal => signal.key === 'narrativa')?.score).toBeNull();
+    expect(match.score).toBe(1);
+  });
+
+  it('no emite puntaje si solo hay señales débiles', () => {
+    const match = scoreDuplicatePair(
+      fingerprint({ coordenadas: undefined, fechas: [] }),
+      fingerprint({ id: 'B', coordenadas: undefined, fechas: [] })
+    );
+
+    expect(match.level).toBeNull();
+  });
+});
+
+describe('findDuplicateMatches', () => {
+  it('devuelve solo posibles duplicados, del más al menos probable', () => {
+    const target = fingerprint({});
+    const matches = findDuplicateMatches(target, [
+      target,
+      fingerprint({ id: 'LEJOS', coordenadas: { lat: 20.5, lng: -99.1332 } }),
+      fingerprint({ id: 'CERCA', fechas: [BASE_TIME + 4 * HOUR] }),
+      fingerprint({ id: 'MISMO' })
+    ]);
+
+    expect(matches.map(match => match.second.id)).toEqual(['MISMO', 'CERCA']);
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Duplicate Detection Helper - Puntaje de posibles IPH duplicados
+ *
+ * Compara dos IPH (ya descargados) y calcula un puntaje 0-1 combinando:
+ * - Proximidad de las coordenadas
+ * - Ventana de tiempo entre fechas de creación / conocimiento del hecho
+ * - Mismo tipo de IPH
+ * - Nombres de detenidos en común
+ * - Similitud de la narrativa
+ *
+ * Todo corre en el navegador sobre datos ya obtenidos: no hay llamadas de red
+ * y se puede probar sin backend. Las señales sin datos (p.ej. IPH sin
+ * detenidos) no cuentan en el promedio en lugar de penalizar.
+ *
+ * @example
+ * ```typescript
+ * const match = scoreDuplicatePair(fingerprintA, fingerprintB);
+ * if (match.level === 'alta') mostrarAviso(match);
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Datos de un IPH relevantes para detectar duplicados
+ */
+export interface IphFingerprint {
+  id: string;
+  referencia: string;
+  tipo?: string;
+  coordenadas?: { lat: number; lng: number };
+  /** Fechas del hecho en ms (creación, conocimiento); inválidas se omiten */
+  fechas: number[];
+  detenidos: string[];
+  narrativa: string;
+}
+
+export type DuplicateSignalKey = 'proximidad' | 'tiempo' | 'tipo' | 'detenidos' | 'narrativa';
+
+export interface DuplicateSignal {
+  key: DuplicateSignalKey;
+  label: string;
+  /** 0-1, o null si alguno de los IPH no tiene el dato */
+  score: number | null;
+  detail: string;
+}
+
+export type DuplicateLevel = 'alta' | 'media';
+
+export interface DuplicateRecordRef {
+  id: string;
+  referencia: string;
+}
+
+export interface DuplicateMatch {
+  pairKey: string;
+  first: DuplicateRecordRef;
+  second: DuplicateRecordRef;
+  score: number;
+  /** null si no alcanza el umbral de posible duplicado */
+  level: DuplicateLevel | null;
+  signals: DuplicateSignal[];
+}
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+export const DUPLICATE_DETECTION_CONFIG = {
+  weights: {
+    proximidad: 0.3,
+    tiempo: 0.25,
+    tipo: 0.1,
+    detenidos: 0.2,
+    narrativa: 0.15
+  } satisfies Record<DuplicateSignalKey, number>,
+  /** Distancia con puntaje completo y a partir de la cual el puntaje es 0 */
+  distanceFullMeters: 100,
+  distanceZeroMeters: 1500,
+  timeFullMinutes: 60,
+  timeZeroMinutes: 12 * 60,
+  /** Más lejos o más separados en el tiempo nunca se consideran duplicados */
+  maxDistanceMeters: 5000,
+  maxTimeHours: 72,
+  /** Peso mínimo de señales con datos para emitir un puntaje */
+  minSignalWeight: 0.4,
+  thresholds: {
+    alta: 0.75,
+    media: 0.55
+  },
+  /** Dos nombres coinciden si comparten al menos esta proporción de palabras */
+  nameMatchRatio: 0.6,
+  /** Palabras más cortas no cuentan para la similitud de narrativa */
+  narrativeMinWordLength: 4
+} as const;
+
+export const DUPLICATE_LEVEL_LABELS: Record<DuplicateLevel, string> = {
+  alta: 'Probabilidad alta',
+  media: 'Probabilidad media'
+};
+
+const SIGNAL_LABELS: Record<DuplicateSignalKey, string> = {
+  proximidad: 'Ubicación',
+  tiempo: 'Fecha y hora',
+  tipo: 'Tipo de IPH',
+  detenidos: 'Detenidos',
+  narrativa: 'Narrativa'
+};
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Distancia en metros entre dos coordenadas (fórmula de haversine)
+ */
+export const distanceInMeters = (
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Minúsculas, sin acentos ni signos; útil para comparar nombres y textos
+ */
+export const normalizeForMatching = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const wordSet = (text: string, minLength = 1): Set<string> =>
+  new Set(normalizeForMatching(text).split(' ').filter(word => word.length >= minLength));
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+/** 1 hasta `full`, 0 desde `zero`, lineal entre ambos */
+const linearDecay = (value: number, full: number, zero: number): number => {
+  if (value <= full) return 1;
+  if (value >= zero) return 0;
+  return 1 - (value - full) / (zero - full);
+};
+
+const minTimeDiffMinutes = (a: number[], b: number[]): number | null => {
+  let min: number | null = null;
+  for (const timeA of a) {
+    for (const timeB of b) {
+      const diff = Math.abs(timeA - timeB) / 60_000;
+      if (min === null || diff < min) min = diff;
+    }
+  }
+  return min;
+};
+
+const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)} h`;
+  return `${Math.round(minutes / (24 * 60))} días`;
+};
+
+/**
+ * Cuántos nombres de `a` tienen pareja en `b` (cada nombre se usa una sola vez)
+ */
+const countMatchingNames = (a: string[], b: string[]): number => {
+  const remaining = b.map(name => wordSet(name));
+  let matches = 0;
+
+  for (const name of a) {
+    const words = wordSet(name);
+    const index = remaining.findIndex(candidate => jaccard(words, candidate) >= DUPLICATE_DETECTION_CONFIG.nameMatchRatio);
+    if (index !== -1) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+
+  return matches;
+};
+
+// =====================================================
+// SEÑALES
+// =====================================================
+
+const proximitySignal = (a: IphFingerprint, b: IphFingerprint): { signal: DuplicateSignal; meters: number | null } => {
+  if (!a.coordenadas || !b.coordenadas) {
+    return { signal: { key: 'proximidad', label: SIGNAL_LABELS.proximidad, score: null, detail: 'Sin coordenadas' }, meters: null };
+  }
+
+  const meters = distanceInMeters(a.coordenadas, b.coordenadas);
+  return {
+    meters,
+    signal: {
+      key: 'proximidad',
+      label: SIGNAL_LABELS.proximidad,
+      score: linearDecay(meters, DUPLICATE_DETECTION_CONFIG.distanceFullMeters, DUPLICATE_DETECTION_CONFIG.distanceZeroMeters),
+      detail: meters < 1000 ? `${Math.round(meters)} m de distancia` : `${(meters / 1000).toFixed(1)} km de distancia`
+    }
+  };
+};
+
+const timeSignal = (a: IphFingerprint, b: IphFingerprint): { signal: DuplicateSignal; minutes: number | null } => {
+  const minutes = minTimeDiffMinutes(a.fechas, b.fechas);
+  if (minutes === null) {
+    return { signal: { key: 'tiempo', label: SIGNAL_LABELS.tiempo, score: null, detail: 'Sin fechas' }, minutes: null };
+  }
+
+  return {
+    minutes,
+    signal: {
+      key: 'tiempo',
+      label: SIGNAL_LABELS.tiempo,
+      score: linearDecay(minutes, DUPLICATE_DETECTION_CONFIG.timeFullMinutes, DUPLICATE_DETECTION_CONFIG.timeZeroMinutes),
+      detail: `${formatDuration(minutes)} de diferencia`
+    }
+  };
+};
+
+const tipoSignal = (a: IphFingerprint, b: IphFingerprint): DuplicateSignal => {
+  if (!a.tipo || !b.tipo) {
+    return { key: 'tipo', label: SIGNAL_LABELS.tipo, score: null, detail: 'Sin tipo' };
+  }
+  const same = normalizeForMatching(a.tipo) === normalizeForMatching(b.tipo);
+  return { key: 'tipo', label: SIGNAL_LABELS.tipo, score: same ? 1 : 0, detail: same ? a.tipo : `${a.tipo} / ${b.tipo}` };
+};
+
+const detenidosSignal = (a: IphFingerprint, b: IphFingerprint): DuplicateSignal => {
+  const namesA = a.detenidos.filter(name => name.trim());
+  const namesB = b.detenidos.filter(name => name.trim());
+  if (namesA.length === 0 || namesB.length === 0) {
+    return { key: 'detenidos', label: SIGNAL_LABELS.detenidos, score: null, detail: 'Sin detenidos en alguno de los IPH' };
+  }
+
+  const matches = countMatchingNames(namesA, namesB);
+  const smaller = Math.min(namesA.length, namesB.length);
+  return {
+    key: 'detenidos',
+    label: SIGNAL_LABELS.detenidos,
+    score: matches / smaller,
+    detail: `${matches} de ${smaller} nombre${smaller === 1 ? '' : 's'} en común`
+  };
+};
+
+const narrativaSignal = (a: IphFingerprint, b: IphFingerprint): DuplicateSignal => {
+  const wordsA = wordSet(a.narrativa, DUPLICATE_DETECTION_CONFIG.narrativeMinWordLength);
+  const wordsB = wordSet(b.narrativa, DUPLICATE_DETECTION_CONFIG.narrativeMinWordLength);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return { key: 'narrativa', label: SIGNAL_LABELS.narrativa, score: null, detail: 'Sin narrativa' };
+  }
+
+  const similarity = jaccard(wordsA, wordsB);
+  return {
+    key: 'narrativa',
+    label: SIGNAL_LABELS.narrativa,
+    score: similarity,
+    detail: `${Math.round(similarity * 100)}% de vocabulario en común`
+  };
+};
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Llave estable de un par (independiente del orden)
+ */
+export const buildDuplicatePairKey = (idA: string, idB: string): string =>
+  [idA, idB].sort().join('|');
+
+export const getDuplicateLevel = (score: number): DuplicateLevel | null => {
+  if (score >= DUPLICATE_DETECTION_CONFIG.thresholds.alta) return 'alta';
+  if (score >= DUPLICATE_DETECTION_CONFIG.thresholds.media) return 'media';
+  return null;
+};
+
+/**
+ * Calcula el puntaje de duplicado entre dos IPH
+ */
+export const scoreDuplicatePair = (a: IphFingerprint, b: IphFingerprint): DuplicateMatch => {
+  const { signal: proximidad, meters } = proximitySignal(a, b);
+  const { signal: tiempo, minutes } = timeSignal(a, b);
+  const signals = [proximidad, tiempo, tipoSignal(a, b), detenidosSignal(a, b), narrativaSignal(a, b)];
+
+  const base = {
+    pairKey: buildDuplicatePairKey(a.id, b.id),
+    first: { id: a.id, referencia: a.referencia },
+    second: { id: b.id, referencia: b.referencia },
+    signals
+  };
+
+  // Descarte directo: hechos lejanos en espacio o tiempo no son el mismo
+  const tooFar = meters !== null && meters > DUPLICATE_DETECTION_CONFIG.maxDistanceMeters;
+  const tooLate = minutes !== null && minutes > DUPLICATE_DETECTION_CONFIG.maxTimeHours * 60;
+  if (a.id === b.id || tooFar || tooLate) {
+    return { ...base, score: 0, level: null };
+  }
+
+  let weightedSum = 0;
+  let availableWeight = 0;
+  for (const signal of signals) {
+    if (signal.score === null) continue;
+    const weight = DUPLICATE_DETECTION_CONFIG.weights[signal.key];
+    weightedSum += signal.score * weight;
+    availableWeight += weight;
+  }
+
+  if (availableWeight < DUPLICATE_DETECTION_CONFIG.minSignalWeight) {
+    return { ...base, score: 0, level: null };
+  }
+
+  const score = weightedSum / availableWeight;
+  return { ...base, score, level: getDuplicateLevel(score) };
+};
+
+/**
+ * Puntúa un IPH contra varios candidatos y devuelve solo los posibles
+ * duplicados, del más probable al menos probable
+ */
+export const findDuplicateMatches = (
+  target: IphFingerprint,
+  candidates: IphFingerprint[]
+): DuplicateMatch[] =>
+  candidates
+    .filter(candidate => candidate.id !== target.id)
+    .map(candidate => scoreDuplicatePair(target, candidate))
+    .filter(match => match.level !== null)
+    .sort((x, y) => y.score - x.score);
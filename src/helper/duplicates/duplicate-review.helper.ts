@@ -0,0 +1,100 @@
+/**
+ * Duplicate Review Helper - Decisiones de la cola de posibles duplicados
+ *
+ * Guarda, por par de IPH, si el revisor lo confirmó como duplicado o lo
+ * descartó. Se guarda con CacheHelper en el namespace `user` (llave por
+ * usuario), igual que los filtros guardados; los pares descartados dejan de
+ * mostrarse como aviso en el detalle del IPH.
+ *
+ * @example
+ * ```typescript
+ * await saveDuplicateReview(match.pairKey, 'distinto');
+ * const reviews = await getDuplicateReviews();
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import CacheHelper from '../cache/cache.helper';
+import { logInfo, logError } from '../log/logger.helper';
+import { getUserId } from '../user/user.helper';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type DuplicateReviewDecision = 'duplicado' | 'distinto';
+
+export interface DuplicateReview {
+  pairKey: string;
+  decision: DuplicateReviewDecision;
+  reviewedAt: string;
+}
+
+export type DuplicateReviewMap = Record<string, DuplicateReview>;
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+const CACHE_KEY_PREFIX = 'duplicate-reviews';
+
+/** Las decisiones no caducan en la práctica (1 año) */
+const REVIEWS_EXPIRATION_MS = 365 * 24 * 60 * 60 * 1000;
+
+const buildCacheKey = (): string => `${CACHE_KEY_PREFIX}:${getUserId() ?? 'anonimo'}`;
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Decisiones del usuario actual indexadas por par
+ */
+export const getDuplicateReviews = async (): Promise<DuplicateReviewMap> => {
+  try {
+    return (await CacheHelper.get<DuplicateReviewMap>(buildCacheKey())) ?? {};
+  } catch (error) {
+    logError('DuplicateReview', error, 'Error leyendo decisiones de duplicados');
+    return {};
+  }
+};
+
+const persistReviews = async (reviews: DuplicateReviewMap): Promise<boolean> =>
+  CacheHelper.set(buildCacheKey(), reviews, {
+    expiresIn: REVIEWS_EXPIRATION_MS,
+    priority: 'high',
+    namespace: 'user'
+  });
+
+/**
+ * Registra la decisión sobre un par (reemplaza la anterior)
+ */
+export const saveDuplicateReview = async (
+  pairKey: string,
+  decision: DuplicateReviewDecision
+): Promise<DuplicateReviewMap> => {
+  const reviews = await getDuplicateReviews();
+  const next: DuplicateReviewMap = {
+    ...reviews,
+    [pairKey]: { pairKey, decision, reviewedAt: new Date().toISOString() }
+  };
+
+  await persistReviews(next);
+  logInfo('DuplicateReview', 'Decisión de duplicado registrada', { pairKey, decision });
+
+  return next;
+};
+
+/**
+ * Devuelve un par a pendiente de revisión
+ */
+export const clearDuplicateReview = async (pairKey: string): Promise<DuplicateReviewMap> => {
+  const { [pairKey]: removed, ...rest } = await getDuplicateReviews();
+  if (removed) {
+    await persistReviews(rest);
+    logInfo('DuplicateReview', 'Decisión de duplicado eliminada', { pairKey });
+  }
+  return rest;
+};
@@ -0,0 +1,146 @@
+/**
+ * Export Helper - Exportación de datos tabulares a CSV y XLSX
+ *
+ * - CSV en UTF-8 con BOM para que Excel respete acentos y ñ
+ * - XLSX real (Office Open XML) generado en el navegador, sin dependencias
+ * - Columnas declarativas: cada módulo define qué exporta y cómo se formatea
+ *
+ * @example
+ * ```typescript
+ * const columns: ExportColumn<Registro>[] = [
+ *   { key: 'referencia', label: 'Referencia', value: r => r.numeroReferencia },
+ *   { key: 'fecha', label: 'Fecha', value: r => r.fechaCreacion }
+ * ];
+ *
+ * downloadBlob(buildExportFile('xlsx', columns, registros, 'Historial'), 'historial.xlsx');
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { createXlsx, XLSX_MIME_TYPE, type XlsxCellValue } from './xlsx-writer';
+import { logInfo } from '../log/logger.helper';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportCellValue = XlsxCellValue;
+
+/**
+ * Columna exportable
+ */
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportCellValue;
+}
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const UTF8_BOM = '\uFEFF';
+
+const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV (Excel, UTF-8)',
+  xlsx: 'Excel (.xlsx)'
+};
+
+// =====================================================
+// CSV
+// =====================================================
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Fecha legible para CSV (dd/mm/yyyy hh:mm, hora local)
+ */
+const formatCsvDate = (date: Date): string =>
+  `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * Escapa un valor según RFC 4180 (comillas dobles si contiene separador, comillas o saltos)
+ * Los valores que empiezan con = + - @ se prefijan con ' para evitar inyección de fórmulas
+ */
+const escapeCsvValue = (value: ExportCellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : formatCsvDate(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Construye el contenido CSV (con BOM) de las filas
+ */
+export const buildCsv = <T>(columns: ExportColumn<T>[], rows: T[]): string => {
+  const lines = [
+    columns.map(column => escapeCsvValue(column.label)).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(column.value(row))).join(','))
+  ];
+  return `${UTF8_BOM}${lines.join('\r\n')}\r\n`;
+};
+
+// =====================================================
+// ARCHIVOS
+// =====================================================
+
+/**
+ * Construye el archivo de exportación en el formato indicado
+ *
+ * @param format - csv | xlsx
+ * @param columns - Columnas a exportar (en orden)
+ * @param rows - Filas de datos
+ * @param sheetName - Nombre de la hoja (solo XLSX)
+ */
+export const buildExportFile = <T>(
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  rows: T[],
+  sheetName: string = 'Datos'
+): Blob => {
+  if (format === 'csv') {
+    return new Blob([buildCsv(columns, rows)], { type: CSV_MIME_TYPE });
+  }
+
+  const bytes = createXlsx(
+    sheetName,
+    columns.map(column => column.label),
+    rows.map(row => columns.map(column => column.value(row)))
+  );
+  return new Blob([bytes], { type: XLSX_MIME_TYPE });
+};
+
+/**
+ * Nombre de archivo con fecha: `historial-iph_2025-01-31.xlsx`
+ */
+export const buildExportFileName = (baseName: string, format: ExportFormat, date: Date = new Date()): string =>
+  `${baseName}_${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.${format}`;
+
+/**
+ * Descarga un Blob en el navegador
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Liberar la URL después de que el navegador inicie la descarga
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+  logInfo('ExportHelper', 'Archivo exportado', { fileName, size: blob.size });
+};
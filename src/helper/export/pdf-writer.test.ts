@@ -0,0 +1,81 @@
+/**
+ * Tests para el escritor PDF
+ *
+ * Valida la medición y el ajuste de texto, la lectura de dimensiones JPEG y
+ * la estructura del archivo (tabla xref con desplazamientos correctos).
+ *
+ * @module PdfWriterTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createPdf, measurePdfText, readJpegInfo, wrapPdfText } from './pdf-writer';
+
+const decode = (bytes: Uint8Array): string => new TextDecoder('latin1').decode(bytes);
+
+/** JPEG mínimo: SOI, APP0 vacío y SOF0 de 640x480 RGB */
+const JPEG_HEADER = new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+  0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0xe0, 0x02, 0x80, 0x03
+]);
+
+describe('measurePdfText', () => {
+  it('usa los anchos de Helvetica', () => {
+    expect(measurePdfText('AAAA', 10)).toBeCloseTo(26.68);
+    expect(measurePdfText('i', 10, 'bold')).toBeCloseTo(2.78);
+  });
+
+  it('mide letras acentuadas como su letra base', () => {
+    expect(measurePdfText('Ñandú', 10)).toBe(measurePdfText('Nandu', 10));
+  });
+});
+
+describe('wrapPdfText', () => {
+  it('ajusta por palabras y respeta saltos de línea', () => {
+    const lines = wrapPdfText('uno dos tres\ncuatro', 10, measurePdfText('uno dos', 10));
+    expect(lines).toEqual(['uno dos', 'tres', 'cuatro']);
+  });
+
+  it('parte palabras más largas que la línea', () => {
+    const lines = wrapPdfText('AAAAAAAAAA', 10, measurePdfText('AAAA', 10));
+    expect(lines).toEqual(['AAAA', 'AAAA', 'AA']);
+  });
+});
+
+describe('readJpegInfo', () => {
+  it('lee ancho, alto y canales del marcador SOF', () => {
+    expect(readJpegInfo(JPEG_HEADER)).toEqual({ width: 640, height: 480, components: 3 });
+  });
+
+  it('rechaza datos que no son JPEG', () => {
+    expect(readJpegInfo(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+});
+
+describe('createPdf', () => {
+  it('genera una tabla xref que apunta a cada objeto', () => {
+    const pdf = decode(createPdf({
+      pages: [
+        { operations: [{ type: 'text', x: 40, y: 60, text: '¿Número de página?', size: 12 }] },
+        { operations: [{ type: 'rect', x: 40, y: 40, width: 100, height: 20, fill: '#4d4725' }] }
+      ],
+      title: 'Prueba'
+    }));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+
+    const xrefStart = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    const entries = pdf.slice(xrefStart).split('\n').slice(3).filter(line => / n $/.test(line));
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset, offset + 10).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('codifica el texto en WinAnsi', () => {
+    const pdf = decode(createPdf({ pages: [{ operations: [{ type: 'text', x: 0, y: 10, text: 'ñ', size: 10 }] }] }));
+    expect(pdf).toContain('<f1> Tj');
+  });
+});
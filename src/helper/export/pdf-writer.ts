@@ -0,0 +1,474 @@
+/**
+ * Escritor PDF mínimo sin dependencias
+ *
+ * Genera un PDF 1.4 a partir de una lista de operaciones por página:
+ * - Texto con las fuentes estándar Helvetica / Helvetica-Bold (WinAnsiEncoding,
+ *   cubre acentos, ñ, ¿ y ¡); no se incrustan fuentes
+ * - Rectángulos, líneas e imágenes JPEG (DCTDecode, sin recodificar)
+ * - Coordenadas en puntos con origen en la esquina superior izquierda
+ *
+ * La maquetación (saltos de línea, saltos de página, encabezados) es
+ * responsabilidad de quien arma las páginas; aquí solo se mide el texto.
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+export type PdfFontStyle = 'normal' | 'bold';
+
+export interface PdfTextOperation {
+  type: 'text';
+  x: number;
+  /** Línea base del texto */
+  y: number;
+  text: string;
+  size: number;
+  font?: PdfFontStyle;
+  /** Color hexadecimal (#rrggbb) */
+  color?: string;
+}
+
+export interface PdfRectOperation {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export interface PdfLineOperation {
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color?: string;
+  lineWidth?: number;
+}
+
+export interface PdfImageOperation {
+  type: 'image';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Índice dentro de `PdfDocumentInput.images` */
+  imageIndex: number;
+}
+
+export type PdfOperation = PdfTextOperation | PdfRectOperation | PdfLineOperation | PdfImageOperation;
+
+export interface PdfPage {
+  operations: PdfOperation[];
+}
+
+/**
+ * Imagen JPEG lista para incrustar
+ */
+export interface PdfJpegImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  /** 1 = escala de grises, 3 = RGB, 4 = CMYK */
+  components: number;
+}
+
+export interface PdfDocumentInput {
+  pages: PdfPage[];
+  images?: PdfJpegImage[];
+  title?: string;
+  author?: string;
+  pageSize?: { width: number; height: number };
+}
+
+/** Tamaño carta en puntos (formato del IPH homologado) */
+export const PDF_LETTER_SIZE = { width: 612, height: 792 } as const;
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+// =====================================================
+// MÉTRICAS DE FUENTE (AFM de Helvetica, 1/1000 em)
+// =====================================================
+
+/** Anchos ASCII 32-126 */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+/** Anchos de signos fuera de ASCII sin letra base [normal, negrita] */
+const EXTRA_WIDTHS: Record<string, [number, number]> = {
+  '¿': [611, 611],
+  '¡': [333, 333],
+  '°': [400, 400],
+  'º': [365, 365],
+  'ª': [370, 370],
+  '«': [556, 556],
+  '»': [556, 556],
+  '–': [556, 556],
+  '—': [1000, 1000],
+  '‘': [222, 278],
+  '’': [222, 278],
+  '“': [333, 500],
+  '”': [333, 500],
+  '•': [350, 350],
+  '…': [1000, 1000],
+  '€': [556, 556]
+};
+
+const DEFAULT_WIDTH = 556;
+
+const getCharWidth = (char: string, font: PdfFontStyle): number => {
+  const table = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return table[code - 32];
+
+  const extra = EXTRA_WIDTHS[char];
+  if (extra) return extra[font === 'bold' ? 1 : 0];
+
+  // Letras acentuadas: mismo ancho que la letra base
+  const base = char.normalize('NFD').charCodeAt(0);
+  if (base >= 32 && base <= 126) return table[base - 32];
+  return DEFAULT_WIDTH;
+};
+
+/**
+ * Ancho del texto en puntos
+ */
+export const measurePdfText = (text: string, size: number, font: PdfFontStyle = 'normal'): number => {
+  let width = 0;
+  for (const char of text) width += getCharWidth(char, font);
+  return (width * size) / 1000;
+};
+
+/**
+ * Divide el texto en líneas que caben en `maxWidth`
+ *
+ * Respeta los saltos de línea del texto; las palabras más largas que la línea
+ * se cortan por carácter.
+ */
+export const wrapPdfText = (
+  text: string,
+  size: number,
+  maxWidth: number,
+  font: PdfFontStyle = 'normal'
+): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const words = paragraph.split(/[ \t]+/).filter(Boolean);
+    if (words.length === 0) {
+      lines.push('');
+      continue;
+    }
+
+    let current = '';
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measurePdfText(candidate, size, font) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+
+      if (current) lines.push(current);
+
+      // Palabra que no cabe sola: se parte
+      current = '';
+      for (const char of word) {
+        if (current && measurePdfText(current + char, size, font) > maxWidth) {
+          lines.push(current);
+          current = '';
+        }
+        current += char;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+};
+
+// =====================================================
+// CODIFICACIÓN
+// =====================================================
+
+/** Caracteres WinAnsi en 0x80-0x9F (el resto coincide con Latin-1) */
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+const toWinAnsiByte = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  if (char === '\t') return 32;
+
+  const extra = WIN_ANSI_EXTRA[char];
+  if (extra) return extra;
+
+  // Sin equivalente: letra base sin diacríticos o '?'
+  const base = char.normalize('NFD').charCodeAt(0);
+  return base >= 32 && base <= 126 ? base : 63;
+};
+
+/**
+ * Cadena PDF hexadecimal en WinAnsi: <48 6F 6C 61>
+ */
+const toPdfHexString = (text: string): string => {
+  let hex = '<';
+  for (const char of text) hex += toWinAnsiByte(char).toString(16).padStart(2, '0');
+  return `${hex}>`;
+};
+
+const formatNumber = (value: number): string => {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const toRgb = (color: string): string => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  const value = Number.parseInt(full, 16);
+  if (Number.isNaN(value) || full.length !== 6) return '0 0 0';
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+    .map(channel => formatNumber(channel / 255))
+    .join(' ');
+};
+
+const formatPdfDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+// =====================================================
+// JPEG
+// =====================================================
+
+/**
+ * Lee dimensiones y canales de un JPEG (marcador SOF)
+ *
+ * @returns null si los bytes no son un JPEG reconocible
+ */
+export const readJpegInfo = (data: Uint8Array): Omit<PdfJpegImage, 'data'> | null => {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = data[offset + 1];
+    // SOF0-SOF15 excepto DHT (C4), JPG (C8) y DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8],
+        components: data[offset + 9]
+      };
+    }
+
+    // Marcadores sin longitud
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+
+    offset += 2 + ((data[offset + 2] << 8) | data[offset + 3]);
+  }
+
+  return null;
+};
+
+// =====================================================
+// CONTENIDO DE PÁGINA
+// =====================================================
+
+const buildContentStream = (page: PdfPage, pageHeight: number): string => {
+  const commands: string[] = [];
+  const y = (value: number) => formatNumber(pageHeight - value);
+
+  for (const op of page.operations) {
+    switch (op.type) {
+      case 'text':
+        if (!op.text) break;
+        commands.push(
+          'BT',
+          `/${op.font === 'bold' ? 'F2' : 'F1'} ${formatNumber(op.size)} Tf`,
+          `${toRgb(op.color ?? '#000000')} rg`,
+          `${formatNumber(op.x)} ${y(op.y)} Td`,
+          `${toPdfHexString(op.text)} Tj`,
+          'ET'
+        );
+        break;
+
+      case 'rect': {
+        if (!op.fill && !op.stroke) break;
+        commands.push('q');
+        if (op.fill) commands.push(`${toRgb(op.fill)} rg`);
+        if (op.stroke) commands.push(`${toRgb(op.stroke)} RG`, `${formatNumber(op.lineWidth ?? 0.5)} w`);
+        commands.push(
+          `${formatNumber(op.x)} ${y(op.y + op.height)} ${formatNumber(op.width)} ${formatNumber(op.height)} re`,
+          op.fill && op.stroke ? 'B' : op.fill ? 'f' : 'S',
+          'Q'
+        );
+        break;
+      }
+
+      case 'line':
+        commands.push(
+          'q',
+          `${toRgb(op.color ?? '#000000')} RG`,
+          `${formatNumber(op.lineWidth ?? 0.5)} w`,
+          `${formatNumber(op.x1)} ${y(op.y1)} m`,
+          `${formatNumber(op.x2)} ${y(op.y2)} l`,
+          'S',
+          'Q'
+        );
+        break;
+
+      case 'image':
+        commands.push(
+          'q',
+          `${formatNumber(op.width)} 0 0 ${formatNumber(op.height)} ${formatNumber(op.x)} ${y(op.y + op.height)} cm`,
+          `/Im${op.imageIndex} Do`,
+          'Q'
+        );
+        break;
+    }
+  }
+
+  return commands.join('\n');
+};
+
+// =====================================================
+// DOCUMENTO
+// =====================================================
+
+const COLOR_SPACES: Record<number, string> = {
+  1: '/DeviceGray',
+  3: '/DeviceRGB',
+  4: '/DeviceCMYK'
+};
+
+/**
+ * Genera el PDF
+ *
+ * @param input - Páginas, imágenes y metadatos
+ * @returns Bytes del PDF
+ */
+export const createPdf = (input: PdfDocumentInput): Uint8Array<ArrayBuffer> => {
+  const { width: pageWidth, height: pageHeight } = input.pageSize ?? PDF_LETTER_SIZE;
+  const images = input.images ?? [];
+  const pages = input.pages.length > 0 ? input.pages : [{ operations: [] }];
+
+  // Números de objeto: 1 catálogo, 2 páginas, 3-4 fuentes, 5 info, luego imágenes y páginas
+  const imageObjStart = 6;
+  const pageObjStart = imageObjStart + images.length;
+  const objectCount = pageObjStart + pages.length * 2 - 1;
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = new Array(objectCount + 1).fill(0);
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    // El contenido textual del PDF es ASCII (las cadenas van en hexadecimal)
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const writeObject = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  const writeStream = (id: number, dictionary: string, data: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`);
+    write(data);
+    write('\nendstream\nendobj\n');
+  };
+
+  // Encabezado con bytes binarios para que se trate como archivo binario
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  const pageIds = pages.map((_, index) => pageObjStart + index * 2);
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const info = [`/Producer ${toPdfHexString('Sistema IPH')}`, `/CreationDate (${formatPdfDate(new Date())})`];
+  if (input.title) info.push(`/Title ${toPdfHexString(input.title)}`);
+  if (input.author) info.push(`/Author ${toPdfHexString(input.author)}`);
+  writeObject(5, `<< ${info.join(' ')} >>`);
+
+  images.forEach((image, index) => {
+    writeStream(
+      imageObjStart + index,
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `/ColorSpace ${COLOR_SPACES[image.components] ?? '/DeviceRGB'} /BitsPerComponent 8 /Filter /DCTDecode` +
+      // Los JPEG CMYK de Adobe vienen invertidos
+      (image.components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : ''),
+      image.data
+    );
+  });
+
+  const xObjects = images.length > 0
+    ? `/XObject << ${images.map((_, index) => `/Im${index} ${imageObjStart + index} 0 R`).join(' ')} >>`
+    : '';
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> ${xObjects} >> /Contents ${pageId + 1} 0 R >>`
+    );
+    writeStream(pageId + 1, '', encoder.encode(buildContentStream(page, pageHeight)));
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const result = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * Genera el PDF como Blob listo para descargar o previsualizar
+ */
+export const createPdfBlob = (input: PdfDocumentInput): Blob =>
+  new Blob([createPdf(input)], { type: PDF_MIME_TYPE });
@@ -0,0 +1,158 @@
+/**
+ * Escritor XLSX mínimo (Office Open XML) sin dependencias
+ *
+ * Genera un libro con una sola hoja:
+ * - Encabezado en negritas y fijo al hacer scroll
+ * - Textos como inline strings, números como celdas numéricas
+ * - Fechas como número de serie de Excel con formato dd/mm/yyyy hh:mm
+ *
+ * El contenedor es un ZIP sin compresión (ver zip-writer), suficiente para que
+ * Excel, LibreOffice y Google Sheets lo abran como un XLSX real.
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { createZip } from './zip-writer';
+
+export type XlsxCellValue = string | number | Date | null | undefined;
+
+// =====================================================
+// SPREADSHEETML
+// =====================================================
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** Caracteres de control no permitidos en XML 1.0 */
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Convierte índice de columna (0-based) a letra de Excel: 0 → A, 27 → AB
+ */
+const columnLetter = (index: number): string => {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+/** Número de serie de Excel (días desde 1899-12-30) en hora local */
+const toExcelSerial = (date: Date): number =>
+  (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+
+/** Índices de estilo definidos en styles.xml */
+const STYLE = { DEFAULT: 0, HEADER: 1, DATE: 2 } as const;
+
+const buildCell = (ref: string, value: XlsxCellValue, style: number = STYLE.DEFAULT): string => {
+  if (value === null || value === undefined || value === '') {
+    return style === STYLE.DEFAULT ? '' : `<c r="${ref}" s="${style}"/>`;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? ''
+      : `<c r="${ref}" s="${STYLE.DATE}"><v>${toExcelSerial(value)}</v></c>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${style ? ` s="${style}"` : ''}><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const buildSheetXml = (header: string[], rows: XlsxCellValue[][]): string => {
+  const headerRow = `<row r="1">${header.map((label, col) => buildCell(`${columnLetter(col)}1`, label, STYLE.HEADER)).join('')}</row>`;
+  const dataRows = rows.map((row, rowIndex) => {
+    const r = rowIndex + 2;
+    return `<row r="${r}">${row.map((value, col) => buildCell(`${columnLetter(col)}${r}`, value)).join('')}</row>`;
+  });
+
+  const cols = header.map((label, col) => {
+    const width = Math.min(60, Math.max(12, label.length + 4));
+    return `<col min="${col + 1}" max="${col + 1}" width="${width}" customWidth="1"/>`;
+  }).join('');
+
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + (cols ? `<cols>${cols}</cols>` : '')
+    + `<sheetData>${headerRow}${dataRows.join('')}</sheetData>`
+    + '</worksheet>';
+};
+
+const STYLES_XML = `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+  + '<numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy hh:mm"/></numFmts>'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="3">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '</cellXfs>'
+  + '</styleSheet>';
+
+const CONTENT_TYPES_XML = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const ROOT_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>';
+
+const WORKBOOK_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '</Relationships>';
+
+/**
+ * Nombre de hoja válido: máximo 31 caracteres y sin []:*?/\
+ */
+const sanitizeSheetName = (name: string): string =>
+  (name.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Hoja1').slice(0, 31);
+
+const buildWorkbookXml = (sheetName: string): string =>
+  `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+  + `<sheets><sheet name="${escapeXml(sanitizeSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>`
+  + '</workbook>';
+
+// =====================================================
+// API PÚBLICA
+// =====================================================
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Genera los bytes de un archivo XLSX con una hoja
+ *
+ * @param sheetName - Nombre de la hoja
+ * @param header - Títulos de columna
+ * @param rows - Filas (mismo orden que el encabezado)
+ */
+export const createXlsx = (sheetName: string, header: string[], rows: XlsxCellValue[][]): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES_XML) },
+    { name: '_rels/.rels', data: encoder.encode(ROOT_RELS_XML) },
+    { name: 'xl/workbook.xml', data: encoder.encode(buildWorkbookXml(sheetName)) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(WORKBOOK_RELS_XML) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    { name: 'xl/worksheets/sheet1.xml', data: encoder.encode(buildSheetXml(header, rows)) }
+  ]);
+};
@@ -0,0 +1,140 @@
+/**
+ * Escritor ZIP mínimo sin dependencias
+ *
+ * - Método STORE (sin compresión): PDF, PNG y XLSX ya vienen comprimidos
+ * - CRC-32 por archivo y nombres en UTF-8
+ * - Usado por el escritor XLSX y por las descargas masivas (varios archivos en uno)
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Archivo dentro del ZIP
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Fecha/hora en formato DOS usado por los encabezados ZIP
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Genera un ZIP sin compresión con los archivos indicados
+ *
+ * @param entries - Archivos (rutas con / para subcarpetas)
+ * @returns Bytes del ZIP
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Firma local file header
+    local.setUint16(4, 20, true); // Versión requerida
+    local.setUint16(6, 0x0800, true); // Nombres en UTF-8
+    local.setUint16(8, 0, true); // STORE
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Firma central directory
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, entry.data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + size;
+  });
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // Firma end of central directory
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    result.set(part, position);
+    position += part.length;
+  });
+
+  return result;
+};
+
+export const ZIP_MIME_TYPE = 'application/zip';
+
+/**
+ * Genera un ZIP como Blob listo para descargar
+ */
+export const createZipBlob = (entries: ZipEntry[]): Blob =>
+  new Blob([createZip(entries)], { type: ZIP_MIME_TYPE });
+
+/**
+ * Evita nombres repetidos dentro del ZIP: `informe.pdf`, `informe (2).pdf`, ...
+ */
+export const uniqueZipEntryName = (name: string, usedNames: Set<string>): string => {
+  let candidate = name;
+  let counter = 2;
+  while (usedNames.has(candidate)) {
+    const dot = name.lastIndexOf('.');
+    candidate = dot > 0
+      ? `${name.slice(0, dot)} (${counter})${name.slice(dot)}`
+      : `${name} (${counter})`;
+    counter++;
+  }
+  usedNames.add(candidate);
+  return candidate;
+};
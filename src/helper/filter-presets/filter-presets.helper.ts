@@ -0,0 +1,134 @@
+/**
+ * Filter Presets Helper - Filtros guardados por usuario
+ *
+ * Los presets ("Mis pendientes de supervisión", "Robos este mes") se guardan con
+ * CacheHelper en el namespace `user`, con llave por lista y por usuario para que
+ * dos usuarios en el mismo navegador no compartan filtros.
+ *
+ * @example
+ * ```typescript
+ * await saveFilterPreset('historial-iph', 'Pendientes', { estatus: 'Supervisión' });
+ * const presets = await getFilterPresets<FiltrosHistorial>('historial-iph');
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import CacheHelper from '../cache/cache.helper';
+import { logInfo, logError } from '../log/logger.helper';
+import { getUserId } from '../user/user.helper';
+
+import type { FilterPreset, FilterPresetScope } from '../../interfaces/components/filter-presets.interface';
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+const CACHE_KEY_PREFIX = 'filter-presets';
+
+/** Los presets no caducan en la práctica (1 año) */
+const PRESETS_EXPIRATION_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const MAX_FILTER_PRESETS = 12;
+export const MAX_PRESET_NAME_LENGTH = 40;
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+const buildCacheKey = (scope: FilterPresetScope): string =>
+  `${CACHE_KEY_PREFIX}:${scope}:${getUserId() ?? 'anonimo'}`;
+
+const createPresetId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Compara filtros ignorando valores vacíos (p.ej. '' vs undefined)
+ */
+export const areFiltersEqual = <T extends object>(a: T, b: T): boolean => {
+  const normalize = (filters: T): string => JSON.stringify(
+    Object.entries(filters)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
+  );
+  return normalize(a) === normalize(b);
+};
+
+const persistPresets = async <T>(scope: FilterPresetScope, presets: FilterPreset<T>[]): Promise<boolean> =>
+  CacheHelper.set(buildCacheKey(scope), presets, {
+    expiresIn: PRESETS_EXPIRATION_MS,
+    priority: 'high',
+    namespace: 'user'
+  });
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * Obtiene los presets del usuario actual para una lista
+ */
+export const getFilterPresets = async <T>(scope: FilterPresetScope): Promise<FilterPreset<T>[]> => {
+  try {
+    return (await CacheHelper.get<FilterPreset<T>[]>(buildCacheKey(scope))) ?? [];
+  } catch (error) {
+    logError('FilterPresets', error, `Error leyendo presets de ${scope}`);
+    return [];
+  }
+};
+
+/**
+ * Guarda un preset; si ya existe uno con el mismo nombre se reemplaza
+ *
+ * @throws Error si el nombre es inválido o se alcanzó el límite de presets
+ */
+export const saveFilterPreset = async <T>(
+  scope: FilterPresetScope,
+  name: string,
+  filters: T
+): Promise<FilterPreset<T>[]> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error('El nombre del filtro es obligatorio');
+  if (trimmedName.length > MAX_PRESET_NAME_LENGTH) {
+    throw new Error(`El nombre no puede exceder ${MAX_PRESET_NAME_LENGTH} caracteres`);
+  }
+
+  const presets = await getFilterPresets<T>(scope);
+  const existing = presets.find(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+
+  if (!existing && presets.length >= MAX_FILTER_PRESETS) {
+    throw new Error(`Solo puedes guardar ${MAX_FILTER_PRESETS} filtros; elimina alguno primero`);
+  }
+
+  const preset: FilterPreset<T> = {
+    id: existing?.id ?? createPresetId(),
+    name: trimmedName,
+    filters,
+    createdAt: new Date().toISOString()
+  };
+
+  const next = existing
+    ? presets.map(item => (item.id === existing.id ? preset : item))
+    : [...presets, preset];
+
+  await persistPresets(scope, next);
+  logInfo('FilterPresets', 'Preset guardado', { scope, name: trimmedName, replaced: Boolean(existing) });
+
+  return next;
+};
+
+/**
+ * Elimina un preset
+ */
+export const deleteFilterPreset = async <T>(scope: FilterPresetScope, id: string): Promise<FilterPreset<T>[]> => {
+  const presets = await getFilterPresets<T>(scope);
+  const next = presets.filter(preset => preset.id !== id);
+
+  await persistPresets(scope, next);
+  logInfo('FilterPresets', 'Preset eliminado', { scope, id });
+
+  return next;
+};
@@ -0,0 +1,197 @@
+/**
+ * Tests para HTTP Helper (caché de respuestas v2)
+ *
+ * Levanta un servidor local (node:http) para validar la deduplicación de GETs
+ * en curso, stale-while-revalidate y las peticiones condicionales con ETag.
+ *
+ * @module HttpHelperTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// El logger importa env.config (que a su vez usa el logger); se simula para no depender de .env
+vi.mock('../log/logger.helper', () => ({
+  logDebug: vi.fn(),
+  logInfo: vi.fn(),
+  logWarning: vi.fn(),
+  logError: vi.fn(),
+  logCritical: vi.fn(),
+  logHttp: vi.fn()
+}));
+
+import { HttpHelper, type HttpResponse } from './http.helper';
+
+// El helper programa los timeouts con window.setTimeout (entorno de navegador)
+vi.stubGlobal('window', globalThis);
+
+// =====================================================
+// SERVIDOR LOCAL
+// =====================================================
+
+let server: Server;
+let baseUrl: string;
+let http: HttpHelper;
+
+/** Peticiones recibidas por ruta (headers de cada una) */
+const requests = new Map<string, IncomingHttpHeaders[]>();
+
+const hits = (path: string): IncomingHttpHeaders[] => requests.get(path) ?? [];
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = req.url ?? '/';
+    const received = [...hits(path), req.headers];
+    requests.set(path, received);
+
+    const sendJson = (body: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+    switch (path) {
+      // Responde tarde para que las peticiones se traslapen
+      case '/lento':
+        setTimeout(() => sendJson({ n: received.length }), 50);
+        break;
+
+      // Cuenta las peticiones: cada respuesta trae un valor distinto
+      case '/contador':
+        sendJson({ n: received.length });
+        break;
+
+      // 304 mientras el cliente envíe el ETag vigente
+      case '/etag':
+        if (req.headers['if-none-match'] === '"v1"') {
+          res.writeHead(304, { ETag: '"v1"' });
+          res.end();
+        } else {
+          sendJson({ version: 1 }, { ETag: '"v1"' });
+        }
+        break;
+
+      // La entrada se desaloja antes de que llegue el 304
+      case '/etag-desalojado':
+        if (req.headers['if-none-match']) {
+          http.clearCache();
+          res.writeHead(304, { ETag: '"v1"' });
+          res.end();
+        } else {
+          sendJson({ version: 1 }, { ETag: '"v1"' });
+        }
+        break;
+
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  http = HttpHelper.getInstance({ retries: 0, enableCache: false });
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests.clear();
+  http.clearCache();
+  http.resetMetrics();
+  http.updateConfig({ enableETag: false });
+});
+
+// =====================================================
+// TESTS
+// =====================================================
+
+describe('HttpHelper - deduplicación', () => {
+  it('GETs idénticos en curso comparten una sola petición', async () => {
+    const [a, b] = await Promise.all([
+      http.get<{ n: number }>(`${baseUrl}/lento`),
+      http.get<{ n: number }>(`${baseUrl}/lento`)
+    ]);
+
+    expect(hits('/lento')).toHaveLength(1);
+    expect(a).toBe(b);
+    expect(http.getMetrics().deduplicatedRequests).toBe(1);
+  });
+
+  it('dedupe: false hace una petición por llamada', async () => {
+    await Promise.all([
+      http.get(`${baseUrl}/lento`, { dedupe: false }),
+      http.get(`${baseUrl}/lento`, { dedupe: false })
+    ]);
+
+    expect(hits('/lento')).toHaveLength(2);
+  });
+});
+
+describe('HttpHelper - stale-while-revalidate', () => {
+  it('sirve la entrada vencida y la revalida en segundo plano', async () => {
+    const config = { staleWhileRevalidate: true, cacheTTL: 20, maxStaleAge: 5000 };
+
+    const primera = await http.get<{ n: number }>(`${baseUrl}/contador`, config);
+    expect(primera.data.n).toBe(1);
+
+    await delay(40);
+
+    const revalidada = new Promise<HttpResponse<unknown>>(resolve => {
+      void http.get<{ n: number }>(`${baseUrl}/contador`, { ...config, onRevalidate: resolve })
+        .then(segunda => {
+          expect(segunda.stale).toBe(true);
+          expect(segunda.data.n).toBe(1);
+        });
+    });
+
+    expect(((await revalidada).data as { n: number }).n).toBe(2);
+    expect(hits('/contador')).toHaveLength(2);
+
+    const tercera = await http.get<{ n: number }>(`${baseUrl}/contador`, config);
+    expect(tercera.data.n).toBe(2);
+    expect(tercera.stale).toBe(false);
+    expect(http.getMetrics().staleHits).toBe(1);
+  });
+});
+
+describe('HttpHelper - ETag / 304', () => {
+  it('no envía If-None-Match con la configuración por defecto', async () => {
+    await http.get(`${baseUrl}/etag`);
+    await http.get(`${baseUrl}/etag`);
+
+    expect(hits('/etag').map(headers => headers['if-none-match'])).toEqual([undefined, undefined]);
+  });
+
+  it('con enableETag devuelve la respuesta guardada ante un 304', async () => {
+    http.updateConfig({ enableETag: true });
+
+    await http.get(`${baseUrl}/etag`);
+    const segunda = await http.get<{ version: number }>(`${baseUrl}/etag`);
+
+    expect(hits('/etag')[1]['if-none-match']).toBe('"v1"');
+    expect(segunda.revalidated).toBe(true);
+    expect(segunda.data).toEqual({ version: 1 });
+    expect(http.getMetrics().notModified).toBe(1);
+  });
+
+  it('repite la petición sin validador si la entrada se desalojó antes del 304', async () => {
+    http.updateConfig({ enableETag: true });
+
+    await http.get(`${baseUrl}/etag-desalojado`);
+    const segunda = await http.get<{ version: number }>(`${baseUrl}/etag-desalojado`);
+
+    const recibidas = hits('/etag-desalojado');
+    expect(recibidas).toHaveLength(3);
+    expect(recibidas[1]['if-none-match']).toBe('"v1"');
+    expect(recibidas[2]['if-none-match']).toBeUndefined();
+    expect(segunda.status).toBe(200);
+    expect(segunda.data).toEqual({ version: 1 });
+  });
+});
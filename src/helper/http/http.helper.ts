@@ -2,7 +2,7 @@
  * HTTP Helper Avanzado para manejo de peticiones HTTP
  * Siguiendo principios SOLID, KISS y DRY
  *
- * @version 2.3.0
+ * @version 2.4.0
  * @refactored 2025-01-31
  *
  * Mejoras implementadas:
@@ -25,6 +25,18 @@
  *   • Token Bucket algorithm con burst support
  *   • Métricas en tiempo real (tokens, rejectionRate)
  *   • API completa para gestión y observabilidad
+ * - 🆕 Soporte para outbox offline (offline-queue.helper.ts)
+ *   • Flag `queueable` en HttpRequestConfig para mutaciones
+ *   • HttpError expone `requestConfig` para que los observers reconstruyan la petición
+ * - 🆕 Caché de respuestas v2
+ *   • Deduplicación de GETs idénticos en curso (una sola promesa compartida)
+ *   • Modo stale-while-revalidate con revalidación en segundo plano
+ *   • Peticiones condicionales ETag / If-None-Match (respuestas 304)
+ *   • LRU real (acceso renueva la posición) con tamaño configurable
+ *   • Métricas de stale hits, revalidaciones, 304 y peticiones deduplicadas
+ * - 🆕 Refresco de sesión ante 401 (session-manager.helper.ts)
+ *   • `setAuthRefreshHandler` registra el refresco single-flight
+ *   • La petición rechazada se reenvía una sola vez con el token renovado
  */
 
 import {
@@ -64,6 +76,22 @@ export interface HttpRequestConfig {
   retryDelay?: number;
   cache?: boolean;
   cacheTTL?: number;
+  /** Permite encolar la petición en el outbox offline si falla por red (solo mutaciones) */
+  queueable?: boolean;
+  /** Descripción legible de la operación para mostrar en la bandeja de salida */
+  queueLabel?: string;
+  /** Comparte la promesa con GETs idénticos en curso (default: config global `enableDeduplication`) */
+  dedupe?: boolean;
+  /** Sirve la respuesta en caché aunque esté vencida y la revalida en segundo plano */
+  staleWhileRevalidate?: boolean;
+  /** Tiempo máximo (ms) tras vencer el TTL en que una entrada puede servirse como stale */
+  maxStaleAge?: number;
+  /** Callback con la respuesta actualizada tras una revalidación en segundo plano */
+  onRevalidate?: (response: HttpResponse<unknown>) => void;
+  /** No intentar refrescar la sesión ni reenviar la petición ante un 401 */
+  skipAuthRefresh?: boolean;
+  /** No enviar If-None-Match aunque haya un ETag guardado (reenvío tras un 304 sin caché) */
+  skipConditional?: boolean;
 }
 
 /**
@@ -78,6 +106,10 @@ export interface HttpResponse<T = unknown> {
   url: string;
   duration: number;
   fromCache?: boolean;
+  /** La respuesta proviene de caché vencida (stale-while-revalidate) */
+  stale?: boolean;
+  /** El servidor confirmó con 304 que la respuesta en caché sigue vigente */
+  revalidated?: boolean;
 }
 
 /**
@@ -92,6 +124,10 @@ export interface HttpError extends Error {
   originalError?: unknown;
   response?: Response;
   details?: unknown;
+  /** Configuración original de la petición (adjuntada al notificar observers) */
+  requestConfig?: HttpRequestConfig;
+  /** ID de la entrada en el outbox offline si la petición fue encolada */
+  offlineQueueId?: string;
 }
 
 /**
@@ -110,6 +146,12 @@ export interface ResponseInterceptor {
   onResponseError?: (error: HttpError) => void | Promise<void>;
 }
 
+/**
+ * Handler de refresco de sesión invocado ante un 401
+ * Debe resolver `true` si el token fue renovado y la petición puede reenviarse
+ */
+export type AuthRefreshHandler = () => Promise<boolean>;
+
 /**
  * Interface para la configuración del Circuit Breaker
  */
@@ -181,6 +223,11 @@ export interface HttpHelperConfig {
   authHeaderPrefix: string;
   enableCache: boolean;
   defaultCacheTTL: number;
+  maxCacheEntries: number;
+  enableDeduplication: boolean;
+  staleWhileRevalidate: boolean;
+  maxStaleAge: number;
+  enableETag: boolean;
   enableMetrics: boolean;
   circuitBreaker: CircuitBreakerConfig;
   rateLimiter: RateLimiterConfig;
@@ -200,6 +247,10 @@ export interface HttpMetrics {
   retryCount: number;
   cacheHits: number;
   cacheMisses: number;
+  staleHits: number;
+  revalidations: number;
+  notModified: number;
+  deduplicatedRequests: number;
 }
 
 /**
@@ -218,6 +269,25 @@ interface CacheEntry<T = unknown> {
   data: HttpResponse<T>;
   timestamp: number;
   ttl: number;
+  maxStaleAge: number;
+  etag?: string;
+}
+
+/**
+ * Estado de una entrada de caché al consultarla
+ * - fresh: dentro del TTL
+ * - stale: vencida pero dentro de `maxStaleAge` (servible con stale-while-revalidate)
+ * - expired: solo útil como validador ETag
+ */
+type CacheEntryState = 'fresh' | 'stale' | 'expired';
+
+/**
+ * Resultado de consultar la caché
+ */
+interface CacheLookup<T = unknown> {
+  response: HttpResponse<T>;
+  state: CacheEntryState;
+  age: number;
 }
 
 /**
@@ -242,6 +312,13 @@ const DEFAULT_CONFIG: HttpHelperConfig = {
   },
   enableCache: false,
   defaultCacheTTL: 60000, // 1 minuto
+  maxCacheEntries: 100,
+  enableDeduplication: true,
+  staleWhileRevalidate: false,
+  maxStaleAge: 300000, // 5 minutos
+  // If-None-Match no es un header simple de CORS: con backend cross-origin cada GET
+  // condicional exige preflight. Activar solo si el backend lo permite y expone ETag
+  enableETag: false,
   enableMetrics: true,
   circuitBreaker: {
     enabled: true,
@@ -391,28 +468,44 @@ class HttpErrorHandler {
 
 /**
  * Sistema de caché para peticiones HTTP
+ *
+ * Las entradas se conservan más allá de su TTL mientras sigan siendo útiles:
+ * - dentro de `maxStaleAge` para stale-while-revalidate
+ * - indefinidamente (hasta evicción LRU) si tienen ETag, para peticiones condicionales
  */
 class HttpCache {
   private cache = new Map<string, CacheEntry>();
-  private readonly MAX_CACHE_SIZE = 100;
+  private maxCacheSize: number;
+
+  constructor(maxCacheSize: number) {
+    this.maxCacheSize = maxCacheSize;
+  }
 
   /**
    * Genera una key única para la caché
+   * Se usa el JSON directamente: btoa falla con caracteres fuera de Latin-1
    */
-  private generateKey(url: string, config: HttpRequestConfig): string {
-    const params = JSON.stringify({
+  public generateKey(url: string, config: HttpRequestConfig): string {
+    return JSON.stringify({
       url,
       method: config.method || 'GET',
       headers: config.headers,
       body: config.body
     });
-    return btoa(params);
   }
 
   /**
-   * Obtiene una entrada de la caché si es válida
+   * Indica si una entrada todavía debe conservarse
    */
-  public get<T>(url: string, config: HttpRequestConfig): HttpResponse<T> | null {
+  private isRetained(entry: CacheEntry, now: number): boolean {
+    return !!entry.etag || now - entry.timestamp < entry.ttl + entry.maxStaleAge;
+  }
+
+  /**
+   * Consulta una entrada sin descartarla si está vencida
+   * Renueva su posición LRU cuando existe
+   */
+  public lookup<T>(url: string, config: HttpRequestConfig): CacheLookup<T> | null {
     const key = this.generateKey(url, config);
     const entry = this.cache.get(key);
 
@@ -425,31 +518,108 @@ class HttpCache {
     }
 
     const now = Date.now();
-    const isExpired = now - entry.timestamp > entry.ttl;
+    const age = now - entry.timestamp;
 
-    if (isExpired) {
+    if (!this.isRetained(entry, now)) {
       this.cache.delete(key);
       logDebug('HttpCache', 'Cache entry expired', {
         url,
-        age: now - entry.timestamp,
+        age,
         ttl: entry.ttl
       });
       return null;
     }
 
-    logDebug('HttpCache', 'Cache hit', {
+    // LRU: mover al final del Map
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    const state: CacheEntryState = age < entry.ttl
+      ? 'fresh'
+      : age < entry.ttl + entry.maxStaleAge
+        ? 'stale'
+        : 'expired';
+
+    logDebug('HttpCache', `Cache ${state}`, {
       url,
-      age: now - entry.timestamp,
+      age,
       ttl: entry.ttl
     });
 
-    return { ...entry.data, fromCache: true } as HttpResponse<T>;
+    return {
+      response: {
+        ...entry.data,
+        fromCache: true,
+        stale: state !== 'fresh'
+      } as HttpResponse<T>,
+      state,
+      age
+    };
+  }
+
+  /**
+   * Obtiene una entrada de la caché si está vigente
+   */
+  public get<T>(url: string, config: HttpRequestConfig): HttpResponse<T> | null {
+    const result = this.lookup<T>(url, config);
+    return result?.state === 'fresh' ? result.response : null;
+  }
+
+  /**
+   * Obtiene el ETag almacenado para la petición (si existe)
+   */
+  public getETag(url: string, config: HttpRequestConfig): string | undefined {
+    return this.cache.get(this.generateKey(url, config))?.etag;
+  }
+
+  /**
+   * Renueva una entrada tras recibir 304 Not Modified
+   * @returns La respuesta en caché marcada como revalidada, o null si ya no existe
+   */
+  public refresh<T>(
+    url: string,
+    config: HttpRequestConfig,
+    ttl: number,
+    maxStaleAge: number
+  ): HttpResponse<T> | null {
+    const key = this.generateKey(url, config);
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    this.cache.delete(key);
+    this.cache.set(key, {
+      ...entry,
+      timestamp: Date.now(),
+      ttl: Math.max(entry.ttl, ttl),
+      maxStaleAge: Math.max(entry.maxStaleAge, maxStaleAge)
+    });
+
+    logDebug('HttpCache', 'Cache entry revalidated (304)', {
+      url,
+      ttl
+    });
+
+    return {
+      ...entry.data,
+      fromCache: true,
+      stale: false,
+      revalidated: true
+    } as HttpResponse<T>;
   }
 
   /**
    * Almacena una respuesta en la caché
    */
-  public set<T>(url: string, config: HttpRequestConfig, response: HttpResponse<T>, ttl: number): void {
+  public set<T>(
+    url: string,
+    config: HttpRequestConfig,
+    response: HttpResponse<T>,
+    ttl: number,
+    maxStaleAge: number = 0
+  ): void {
     // Solo cachear GET requests exitosos
     if (config.method !== 'GET' && config.method !== undefined) {
       logDebug('HttpCache', 'Skipping cache for non-GET request', {
@@ -468,22 +638,25 @@ class HttpCache {
     }
 
     const key = this.generateKey(url, config);
+    this.cache.delete(key);
 
-    // Limitar tamaño de caché (LRU simple)
-    if (this.cache.size >= this.MAX_CACHE_SIZE) {
+    // Limitar tamaño de caché (LRU: el primer elemento es el menos usado)
+    if (this.cache.size >= this.maxCacheSize) {
       const firstKey = this.cache.keys().next().value;
       if (firstKey) {
         this.cache.delete(firstKey);
-        logWarning('HttpCache', 'Cache full, evicting oldest entry', {
-          cacheSize: this.MAX_CACHE_SIZE
+        logWarning('HttpCache', 'Cache full, evicting least recently used entry', {
+          cacheSize: this.maxCacheSize
         });
       }
     }
 
     this.cache.set(key, {
-      data: response,
+      data: { ...response, fromCache: false, stale: false, revalidated: false },
       timestamp: Date.now(),
-      ttl
+      ttl,
+      maxStaleAge,
+      etag: response.headers?.get('etag') || undefined
     });
 
     logDebug('HttpCache', 'Response cached', {
@@ -493,6 +666,19 @@ class HttpCache {
     });
   }
 
+  /**
+   * Ajusta el tamaño máximo, descartando las entradas menos usadas si sobran
+   */
+  public setMaxSize(maxCacheSize: number): void {
+    this.maxCacheSize = maxCacheSize;
+
+    while (this.cache.size > this.maxCacheSize) {
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey === undefined) break;
+      this.cache.delete(firstKey);
+    }
+  }
+
   /**
    * Limpia la caché completa
    */
@@ -505,14 +691,14 @@ class HttpCache {
   }
 
   /**
-   * Limpia entradas expiradas
+   * Limpia entradas que ya no son útiles (ni vigentes, ni stale, ni validadores)
    */
   public clearExpired(): void {
     const now = Date.now();
     let expiredCount = 0;
 
     for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
+      if (!this.isRetained(entry, now)) {
         this.cache.delete(key);
         expiredCount++;
       }
@@ -554,7 +740,11 @@ class HttpMetricsTracker {
     requestsByStatus: {},
     retryCount: 0,
     cacheHits: 0,
-    cacheMisses: 0
+    cacheMisses: 0,
+    staleHits: 0,
+    revalidations: 0,
+    notModified: 0,
+    deduplicatedRequests: 0
   };
 
   /**
@@ -621,6 +811,34 @@ class HttpMetricsTracker {
     this.metrics.cacheMisses++;
   }
 
+  /**
+   * Registra una respuesta vencida servida en modo stale-while-revalidate
+   */
+  public trackStaleHit(): void {
+    this.metrics.staleHits++;
+  }
+
+  /**
+   * Registra una revalidación en segundo plano
+   */
+  public trackRevalidation(): void {
+    this.metrics.revalidations++;
+  }
+
+  /**
+   * Registra una respuesta 304 Not Modified
+   */
+  public trackNotModified(): void {
+    this.metrics.notModified++;
+  }
+
+  /**
+   * Registra una petición resuelta con una promesa en curso
+   */
+  public trackDeduplicated(): void {
+    this.metrics.deduplicatedRequests++;
+  }
+
   /**
    * Obtiene las métricas actuales
    */
@@ -648,7 +866,11 @@ class HttpMetricsTracker {
       requestsByStatus: {},
       retryCount: 0,
       cacheHits: 0,
-      cacheMisses: 0
+      cacheMisses: 0,
+      staleHits: 0,
+      revalidations: 0,
+      notModified: 0,
+      deduplicatedRequests: 0
     };
   }
 }
@@ -1127,10 +1349,12 @@ class HttpHelper {
   private circuitBreakers: Map<string, CircuitBreaker>;
   private globalRateLimiter: RateLimiter | null;
   private endpointRateLimiters: Map<string, RateLimiter>;
+  private inFlightRequests = new Map<string, Promise<HttpResponse<unknown>>>();
+  private authRefreshHandler: AuthRefreshHandler | null = null;
 
   private constructor(config?: Partial<HttpHelperConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.cache = new HttpCache();
+    this.cache = new HttpCache(this.config.maxCacheEntries);
     this.metricsTracker = new HttpMetricsTracker();
     this.circuitBreakers = new Map();
     this.endpointRateLimiters = new Map();
@@ -1151,17 +1375,17 @@ class HttpHelper {
       timeout: this.config.timeout,
       retries: this.config.retries,
       enableCache: this.config.enableCache,
+      enableDeduplication: this.config.enableDeduplication,
+      enableETag: this.config.enableETag,
       enableMetrics: this.config.enableMetrics,
       baseURL: this.config.baseURL || 'not configured'
     });
 
-    // Limpiar caché expirada periódicamente
-    if (this.config.enableCache) {
-      setInterval(() => this.cache.clearExpired(), 60000); // Cada minuto
-      logDebug('HttpCache', 'Auto-cleanup enabled', {
-        interval: 60000
-      });
-    }
+    // Limpiar caché expirada periódicamente (también guarda validadores ETag y entradas stale)
+    setInterval(() => this.cache.clearExpired(), 60000); // Cada minuto
+    logDebug('HttpCache', 'Auto-cleanup enabled', {
+      interval: 60000
+    });
   }
 
   /**
@@ -1209,6 +1433,10 @@ class HttpHelper {
       });
     }
 
+    if (newConfig.maxCacheEntries !== undefined) {
+      this.cache.setMaxSize(this.config.maxCacheEntries);
+    }
+
     if (rateLimiterUpdated) {
       const clearedEndpoints = this.endpointRateLimiters.size;
       this.endpointRateLimiters.clear();
@@ -1277,6 +1505,14 @@ class HttpHelper {
     this.responseInterceptors.delete(interceptor);
   }
 
+  /**
+   * Registra (o elimina con `null`) el handler de refresco de sesión ante 401
+   */
+  public setAuthRefreshHandler(handler: AuthRefreshHandler | null): void {
+    this.authRefreshHandler = handler;
+    logDebug('HttpHelper', handler ? 'Auth refresh handler registered' : 'Auth refresh handler removed');
+  }
+
   /**
    * Registra un observer
    */
@@ -1351,8 +1587,9 @@ class HttpHelper {
 
   /**
    * Notifica a observers sobre error
+   * Adjunta la configuración de la petición para observers que necesitan reconstruirla (ej. outbox offline)
    */
-  private notifyErrorObservers(error: HttpError): void {
+  private notifyErrorObservers(error: HttpError, requestConfig?: HttpRequestConfig): void {
     const taggedError = error as HttpError & { __notified?: boolean };
 
     if (taggedError.__notified) {
@@ -1361,6 +1598,10 @@ class HttpHelper {
 
     taggedError.__notified = true;
 
+    if (requestConfig && !taggedError.requestConfig) {
+      taggedError.requestConfig = requestConfig;
+    }
+
     this.observers.forEach(observer => {
       if (observer.onError) {
         try {
@@ -2076,6 +2317,22 @@ class HttpHelper {
       const headers = this.buildHeaders(processedConfig);
       const body = this.processBody(processedConfig.body, processedConfig.contentType);
 
+      // Petición condicional: si conocemos el ETag, el servidor puede responder 304
+      let conditional = false;
+      if (
+        method === 'GET' &&
+        this.config.enableETag &&
+        requestConfig.cache !== false &&
+        !requestConfig.skipConditional &&
+        !headers['If-None-Match']
+      ) {
+        const etag = this.cache.getETag(url, requestConfig);
+        if (etag) {
+          headers['If-None-Match'] = etag;
+          conditional = true;
+        }
+      }
+
       // Remover Content-Type para FormData
       if (processedConfig.contentType === 'multipart/form-data') {
         delete headers['Content-Type'];
@@ -2098,6 +2355,73 @@ class HttpHelper {
 
       const duration = Date.now() - startTime;
 
+      if (response.status === 304) {
+        const notModified = this.cache.refresh<T>(
+          url,
+          requestConfig,
+          this.isCacheEnabled(requestConfig) ? this.resolveCacheTTL(requestConfig) : 0,
+          this.resolveMaxStaleAge(requestConfig)
+        );
+
+        if (notModified) {
+          if (this.config.enableMetrics) {
+            this.metricsTracker.trackSuccess(response.status, duration);
+            this.metricsTracker.trackNotModified();
+          }
+
+          circuitBreaker?.recordSuccess();
+
+          logHttp(method, HttpErrorHandler['sanitizeUrl'](url), response.status, duration);
+
+          const revalidatedResponse = { ...notModified, duration };
+          this.notifyResponseObservers(revalidatedResponse);
+          return revalidatedResponse;
+        }
+
+        // La entrada se desalojó mientras la petición estaba en curso: no hay cuerpo
+        // que devolver, así que se pide de nuevo sin validador (una sola vez)
+        if (conditional) {
+          logWarning('HttpHelper', '304 without cached entry, retrying without If-None-Match', {
+            url: HttpErrorHandler['sanitizeUrl'](url)
+          });
+
+          return this.executeWithRetries<T>(
+            url,
+            { ...requestConfig, skipConditional: true },
+            attempt,
+            circuitBreaker,
+            globalRateLimiter,
+            endpointRateLimiter
+          );
+        }
+      }
+
+      // 401: refrescar la sesión (single-flight) y reenviar la petición una sola vez
+      if (
+        response.status === 401 &&
+        this.authRefreshHandler &&
+        !requestConfig.skipAuthRefresh &&
+        requestConfig.includeAuth !== false
+      ) {
+        const refreshed = await this.authRefreshHandler().catch(() => false);
+
+        if (refreshed) {
+          logInfo('HttpHelper', 'Replaying request after session refresh', {
+            method,
+            url: HttpErrorHandler['sanitizeUrl'](url)
+          });
+
+          return this.executeWithRetries<T>(
+            url,
+            { ...requestConfig, skipAuthRefresh: true },
+            attempt,
+            circuitBreaker,
+            globalRateLimiter,
+            endpointRateLimiter
+          );
+        }
+      }
+
       if (!response.ok) {
         const errorDetails = await HttpErrorHandler.extractErrorDetails(response);
         const errorType = HttpErrorHandler.getErrorType(response.status);
@@ -2122,7 +2446,7 @@ class HttpHelper {
         }
 
         // Notify observers
-        this.notifyErrorObservers(httpError);
+        this.notifyErrorObservers(httpError, requestConfig);
 
         throw httpError;
       }
@@ -2155,10 +2479,19 @@ class HttpHelper {
       // Notify observers
       this.notifyResponseObservers(processedResponse);
 
-      // Cachear si está habilitado
-      if (this.config.enableCache && requestConfig.cache !== false) {
-        const ttl = requestConfig.cacheTTL || this.config.defaultCacheTTL;
-        this.cache.set(url, requestConfig, processedResponse, ttl);
+      // Cachear si está habilitado; si no, conservar solo como validador ETag
+      if (method === 'GET' && requestConfig.cache !== false) {
+        if (this.isCacheEnabled(requestConfig)) {
+          this.cache.set(
+            url,
+            requestConfig,
+            processedResponse,
+            this.resolveCacheTTL(requestConfig),
+            this.resolveMaxStaleAge(requestConfig)
+          );
+        } else if (this.config.enableETag && processedResponse.headers?.get('etag')) {
+          this.cache.set(url, requestConfig, processedResponse, 0);
+        }
       }
 
       return processedResponse;
@@ -2183,7 +2516,7 @@ class HttpHelper {
           this.metricsTracker.trackFailure(undefined, duration);
         }
 
-        this.notifyErrorObservers(timeoutError);
+        this.notifyErrorObservers(timeoutError, requestConfig);
         throw timeoutError;
       }
 
@@ -2198,7 +2531,7 @@ class HttpHelper {
           }
         }
 
-        this.notifyErrorObservers(httpError);
+        this.notifyErrorObservers(httpError, requestConfig);
         throw httpError;
       }
 
@@ -2238,7 +2571,7 @@ class HttpHelper {
 
         // Evitar reintentos cuando el circuito se abrió durante este fallo
         if (circuitBreaker && circuitBreaker.getState() === 'OPEN') {
-          this.notifyErrorObservers(networkError);
+          this.notifyErrorObservers(networkError, requestConfig);
           throw networkError;
         }
 
@@ -2250,11 +2583,112 @@ class HttpHelper {
         this.metricsTracker.trackFailure(undefined, duration);
       }
 
-      this.notifyErrorObservers(networkError);
+      this.notifyErrorObservers(networkError, requestConfig);
       throw networkError;
     }
   }
 
+  /**
+   * Indica si la respuesta de la petición debe guardarse y servirse desde caché
+   */
+  private isCacheEnabled(config: HttpRequestConfig): boolean {
+    if (config.cache === false) return false;
+    return this.config.enableCache || config.cache === true || this.isStaleWhileRevalidate(config);
+  }
+
+  private isStaleWhileRevalidate(config: HttpRequestConfig): boolean {
+    return config.staleWhileRevalidate ?? this.config.staleWhileRevalidate;
+  }
+
+  private resolveCacheTTL(config: HttpRequestConfig): number {
+    return config.cacheTTL || this.config.defaultCacheTTL;
+  }
+
+  private resolveMaxStaleAge(config: HttpRequestConfig): number {
+    return this.isStaleWhileRevalidate(config)
+      ? config.maxStaleAge ?? this.config.maxStaleAge
+      : 0;
+  }
+
+  /**
+   * Registra una petición GET en curso para que las idénticas compartan su promesa
+   */
+  private trackInFlight<T>(key: string, promise: Promise<HttpResponse<T>>): Promise<HttpResponse<T>> {
+    const tracked = promise.finally(() => {
+      this.inFlightRequests.delete(key);
+    });
+    this.inFlightRequests.set(key, tracked as Promise<HttpResponse<unknown>>);
+    return tracked;
+  }
+
+  /**
+   * Revalida en segundo plano una entrada servida como stale
+   * Si ya hay una petición idéntica en curso, esa actualizará la caché
+   */
+  private revalidateInBackground<T>(url: string, config: HttpRequestConfig): void {
+    const key = this.cache.generateKey(url, config);
+    if (this.inFlightRequests.has(key)) {
+      return;
+    }
+
+    if (this.config.enableMetrics) {
+      this.metricsTracker.trackRevalidation();
+    }
+
+    logDebug('HttpHelper', 'Background revalidation started', {
+      url: HttpErrorHandler['sanitizeUrl'](url)
+    });
+
+    this.trackInFlight(key, this.performRequest<T>(url, 'GET', config))
+      .then(response => {
+        config.onRevalidate?.(response as HttpResponse<unknown>);
+      })
+      .catch(error => {
+        logWarning('HttpHelper', 'Background revalidation failed', {
+          url: HttpErrorHandler['sanitizeUrl'](url),
+          error: String(error)
+        });
+      });
+  }
+
+  /**
+   * Ejecuta la petición contra la red (circuit breaker, rate limit y reintentos)
+   */
+  private async performRequest<T>(
+    fullUrl: string,
+    method: HttpMethod,
+    config: HttpRequestConfig
+  ): Promise<HttpResponse<T>> {
+    const circuitBreaker = this.resolveCircuitBreaker(fullUrl, method);
+    const endpointRateLimiter = this.resolveEndpointRateLimiter(fullUrl, method);
+
+    try {
+      return await this.executeWithRetries<T>(
+        fullUrl,
+        config,
+        1,
+        circuitBreaker ?? undefined,
+        this.globalRateLimiter,
+        endpointRateLimiter
+      );
+    } catch (error) {
+      if (error && typeof error === 'object' && 'type' in error) {
+        const httpError = error as HttpError;
+
+        if (this.config.enableMetrics) {
+          const details = httpError.details as { circuitBreakerState?: string; rateLimitType?: string } | undefined;
+          if (details?.circuitBreakerState === 'OPEN' || details?.circuitBreakerState === 'HALF_OPEN' || details?.rateLimitType) {
+            this.metricsTracker.trackRequest(method);
+            this.metricsTracker.trackFailure(undefined, 0);
+          }
+        }
+
+        this.notifyErrorObservers(httpError, config);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Método genérico para realizar peticiones HTTP
    */
@@ -2269,59 +2703,63 @@ class HttpHelper {
     this.notifyRequestObservers(fullUrl, config);
 
     // Verificar caché
-    if (this.config.enableCache && config.cache !== false && method === 'GET') {
-      const cached = this.cache.get<T>(fullUrl, config);
-      if (cached) {
+    if (method === 'GET' && this.isCacheEnabled(config)) {
+      const cached = this.cache.lookup<T>(fullUrl, config);
+      const canServeStale = cached?.state === 'stale' && this.isStaleWhileRevalidate(config);
+
+      if (cached && (cached.state === 'fresh' || canServeStale)) {
         if (this.config.enableMetrics) {
           this.metricsTracker.trackCacheHit();
+          if (canServeStale) {
+            this.metricsTracker.trackStaleHit();
+          }
         }
 
         // Log cache hit usando logHttp
-        logHttp(method, HttpErrorHandler['sanitizeUrl'](fullUrl), cached.status, cached.duration);
+        logHttp(method, HttpErrorHandler['sanitizeUrl'](fullUrl), cached.response.status, cached.response.duration);
 
         logInfo('HttpHelper', 'HTTP request served from cache', {
           method,
           url: HttpErrorHandler['sanitizeUrl'](fullUrl),
-          status: cached.status,
-          duration: cached.duration,
-          fromCache: true
+          status: cached.response.status,
+          duration: cached.response.duration,
+          fromCache: true,
+          stale: canServeStale,
+          age: cached.age
         });
 
-        return cached;
+        if (canServeStale) {
+          this.revalidateInBackground<T>(fullUrl, config);
+        }
+
+        return cached.response;
       }
       if (this.config.enableMetrics) {
         this.metricsTracker.trackCacheMiss();
       }
     }
 
-    const circuitBreaker = this.resolveCircuitBreaker(fullUrl, method);
-    const endpointRateLimiter = this.resolveEndpointRateLimiter(fullUrl, method);
-
-    try {
-      return await this.executeWithRetries<T>(
-        fullUrl,
-        config,
-        1,
-        circuitBreaker ?? undefined,
-        this.globalRateLimiter,
-        endpointRateLimiter
-      );
-    } catch (error) {
-      if (error && typeof error === 'object' && 'type' in error) {
-        const httpError = error as HttpError;
+    // Deduplicar GETs idénticos en curso
+    if (method === 'GET' && (config.dedupe ?? this.config.enableDeduplication)) {
+      const key = this.cache.generateKey(fullUrl, config);
+      const inFlight = this.inFlightRequests.get(key);
 
+      if (inFlight) {
         if (this.config.enableMetrics) {
-          const details = httpError.details as { circuitBreakerState?: string; rateLimitType?: string } | undefined;
-          if (details?.circuitBreakerState === 'OPEN' || details?.circuitBreakerState === 'HALF_OPEN' || details?.rateLimitType) {
-            this.metricsTracker.trackRequest(method);
-            this.metricsTracker.trackFailure(undefined, 0);
-          }
+          this.metricsTracker.trackDeduplicated();
         }
 
-        this.notifyErrorObservers(httpError);
+        logDebug('HttpHelper', 'Joined in-flight request', {
+          url: HttpErrorHandler['sanitizeUrl'](fullUrl)
+        });
+
+        return inFlight as Promise<HttpResponse<T>>;
       }
-      throw error;
+
+      return this.trackInFlight(key, this.performRequest<T>(fullUrl, method, config));
     }
+
+    return this.performRequest<T>(fullUrl, method, config);
   }
 
   /**
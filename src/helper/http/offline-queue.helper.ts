@@ -0,0 +1,792 @@
+/**
+ * Offline Queue (Outbox) para mutaciones HTTP
+ *
+ * Mantiene una bandeja de salida persistente con las peticiones
+ * POST/PUT/PATCH/DELETE que fallaron por falta de conectividad y las
+ * reenvía en orden cuando la red regresa.
+ *
+ * Se integra con HttpHelper exclusivamente mediante sus hooks públicos:
+ * - RequestInterceptor: si `sendIdempotencyKey` está activo, agrega una llave de
+ *   idempotencia a las mutaciones encolables para que el backend descarte duplicados
+ * - HttpObserver: detecta errores de red en peticiones marcadas con `queueable: true`
+ *   y las guarda en la bandeja de salida
+ *
+ * Estados de una entrada:
+ * - pending: esperando reconexión
+ * - replaying: reenviándose en este momento
+ * - conflict: el servidor la rechazó (4xx), requiere decisión del usuario
+ * - failed: agotó `maxAttempts` con errores transitorios, requiere decisión del usuario
+ *
+ * La bandeja se persiste en sessionStorage: sobrevive recargas de página pero
+ * pertenece a la sesión de la pestaña (el token también vive ahí). Los headers
+ * de autorización NUNCA se persisten; se reconstruyen al reenviar.
+ *
+ * @example
+ * ```typescript
+ * // Marcar una mutación como encolable
+ * await http.put(url, body, { queueable: true, queueLabel: 'Cambio de estatus IPH' });
+ *
+ * // En el catch del hook
+ * if (isQueuedHttpError(error)) {
+ *   return; // El outbox ya notificó al usuario
+ * }
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { logDebug, logInfo, logWarning, logError } from '../log/logger.helper';
+import { showSuccess, showWarning } from '../notification/notification.helper';
+import type {
+  ContentType,
+  HttpError,
+  HttpHelper,
+  HttpMethod,
+  HttpObserver,
+  HttpRequestConfig,
+  RequestInterceptor
+} from './http.helper';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Métodos HTTP que pueden encolarse (solo mutaciones)
+ */
+export type QueueableMethod = Exclude<HttpMethod, 'GET'>;
+
+/**
+ * Estado de una entrada en la bandeja de salida
+ */
+export type OfflineQueueStatus = 'pending' | 'replaying' | 'conflict' | 'failed';
+
+/**
+ * Entrada persistida en la bandeja de salida
+ */
+export interface OfflineQueueEntry {
+  id: string;
+  url: string;
+  method: QueueableMethod;
+  body?: unknown;
+  headers?: Record<string, string>;
+  contentType?: ContentType;
+  label: string;
+  idempotencyKey: string;
+  createdAt: number;
+  attempts: number;
+  lastAttemptAt?: number;
+  status: OfflineQueueStatus;
+  lastError?: {
+    message: string;
+    type: HttpError['type'];
+    status?: number;
+  };
+}
+
+/**
+ * Resumen de la bandeja para UI
+ */
+export interface OfflineQueueSummary {
+  total: number;
+  pending: number;
+  conflicts: number;
+  failed: number;
+  isReplaying: boolean;
+}
+
+/**
+ * Resultado de un ciclo de reenvío
+ */
+export interface OfflineQueueReplayResult {
+  replayed: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+  stoppedByError: boolean;
+}
+
+/**
+ * Configuración del outbox
+ */
+export interface OfflineQueueConfig {
+  storageKey: string;
+  maxEntries: number;
+  retryInterval: number;
+  /** Reenvíos con error transitorio antes de marcar la entrada como 'failed' */
+  maxAttempts: number;
+  /**
+   * Enviar `idempotencyHeader` en las mutaciones encolables
+   * Es un header no CORS-safelisted: el backend debe incluirlo en
+   * `Access-Control-Allow-Headers` o el preflight falla (y se vería como error de red)
+   */
+  sendIdempotencyKey: boolean;
+  idempotencyHeader: string;
+  notifyUser: boolean;
+}
+
+type OfflineQueueListener = (entries: OfflineQueueEntry[], summary: OfflineQueueSummary) => void;
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const DEFAULT_OFFLINE_QUEUE_CONFIG: OfflineQueueConfig = {
+  storageKey: 'iph_offline_queue',
+  maxEntries: 50,
+  retryInterval: 30000, // 30 segundos mientras existan pendientes
+  maxAttempts: 5,
+  // Desactivado hasta confirmar que el backend acepta el header en el preflight (CORS)
+  sendIdempotencyKey: false,
+  idempotencyHeader: 'X-Idempotency-Key',
+  notifyUser: true
+};
+
+const QUEUEABLE_METHODS: readonly QueueableMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Códigos de estado que indican un problema transitorio: se mantiene la entrada
+ * como pendiente y se detiene el reenvío para preservar el orden.
+ */
+const TRANSIENT_STATUS_CODES = [401, 408, 429];
+
+// =====================================================
+// CLASE PRINCIPAL
+// =====================================================
+
+/**
+ * Bandeja de salida offline
+ * Implementa patrón Singleton y Observer pattern básico
+ */
+class OfflineQueue {
+  private static instance: OfflineQueue;
+  private config: OfflineQueueConfig;
+  private entries: OfflineQueueEntry[] = [];
+  private listeners: Set<OfflineQueueListener> = new Set();
+  private http: HttpHelper | null = null;
+  private replayPromise: Promise<OfflineQueueReplayResult> | null = null;
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private loaded = false;
+
+  private readonly interceptor: RequestInterceptor = {
+    onRequest: (config) => this.stampIdempotencyKey(config)
+  };
+
+  private readonly observer: HttpObserver = {
+    onError: (error) => this.handleHttpError(error)
+  };
+
+  private readonly handleOnline = (): void => {
+    logInfo('OfflineQueue', 'Conexión restablecida, reenviando bandeja de salida', {
+      pending: this.getSummary().pending
+    });
+    void this.replay();
+  };
+
+  private constructor(config?: Partial<OfflineQueueConfig>) {
+    this.config = { ...DEFAULT_OFFLINE_QUEUE_CONFIG, ...config };
+  }
+
+  public static getInstance(config?: Partial<OfflineQueueConfig>): OfflineQueue {
+    if (!OfflineQueue.instance) {
+      OfflineQueue.instance = new OfflineQueue(config);
+    } else if (config) {
+      OfflineQueue.instance.updateConfig(config);
+    }
+    return OfflineQueue.instance;
+  }
+
+  /**
+   * Actualiza la configuración del outbox
+   */
+  public updateConfig(newConfig: Partial<OfflineQueueConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Conecta el outbox con una instancia de HttpHelper
+   * Idempotente: llamarlo varias veces no duplica interceptores ni listeners
+   */
+  public attach(http: HttpHelper): void {
+    if (this.http === http) {
+      return;
+    }
+
+    if (this.http) {
+      this.detach();
+    }
+
+    this.http = http;
+    http.addRequestInterceptor(this.interceptor);
+    http.addObserver(this.observer);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+
+    this.load();
+    this.recoverInterruptedEntries();
+    this.syncRetryTimer();
+
+    logInfo('OfflineQueue', 'Outbox offline conectado a HttpHelper', {
+      entries: this.entries.length
+    });
+
+    if (this.isOnline() && this.getSummary().pending > 0) {
+      void this.replay();
+    }
+  }
+
+  /**
+   * Desconecta el outbox de HttpHelper (la bandeja persistida se conserva)
+   */
+  public detach(): void {
+    if (!this.http) {
+      return;
+    }
+
+    this.http.removeRequestInterceptor(this.interceptor);
+    this.http.removeObserver(this.observer);
+    this.http = null;
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+
+    this.stopRetryTimer();
+    logDebug('OfflineQueue', 'Outbox offline desconectado');
+  }
+
+  /**
+   * Obtiene las entradas en orden de llegada
+   */
+  public getEntries(): OfflineQueueEntry[] {
+    this.load();
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Obtiene el resumen de la bandeja
+   */
+  public getSummary(): OfflineQueueSummary {
+    this.load();
+    return {
+      total: this.entries.length,
+      pending: this.entries.filter(entry => entry.status === 'pending' || entry.status === 'replaying').length,
+      conflicts: this.entries.filter(entry => entry.status === 'conflict').length,
+      failed: this.entries.filter(entry => entry.status === 'failed').length,
+      isReplaying: this.replayPromise !== null
+    };
+  }
+
+  /**
+   * Suscribe a cambios en la bandeja
+   */
+  public subscribe(listener: OfflineQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reenvía las entradas pendientes en orden (single-flight)
+   *
+   * - Éxito: la entrada se elimina
+   * - Error de red, 5xx o sesión expirada: se detiene el ciclo para preservar el orden;
+   *   al llegar a `maxAttempts` la entrada pasa a 'failed' y el ciclo continúa
+   * - Otro 4xx: la entrada pasa a 'conflict' y el ciclo continúa
+   */
+  public replay(): Promise<OfflineQueueReplayResult> {
+    if (this.replayPromise) {
+      return this.replayPromise;
+    }
+
+    this.replayPromise = this.runReplay().finally(() => {
+      this.replayPromise = null;
+      this.syncRetryTimer();
+      this.notifyListeners();
+    });
+
+    this.notifyListeners();
+    return this.replayPromise;
+  }
+
+  /**
+   * Reintenta una entrada en conflicto o fallida (reinicia sus intentos)
+   */
+  public async retryEntry(id: string): Promise<OfflineQueueReplayResult> {
+    const entry = this.entries.find(item => item.id === id);
+
+    if (entry && (entry.status === 'conflict' || entry.status === 'failed')) {
+      entry.status = 'pending';
+      entry.attempts = 0;
+      this.persist();
+      this.notifyListeners();
+    }
+
+    return this.replay();
+  }
+
+  /**
+   * Descarta una entrada de la bandeja
+   */
+  public discard(id: string): boolean {
+    const index = this.entries.findIndex(entry => entry.id === id);
+
+    if (index === -1 || this.entries[index].status === 'replaying') {
+      return false;
+    }
+
+    const [removed] = this.entries.splice(index, 1);
+    this.persist();
+    this.syncRetryTimer();
+    this.notifyListeners();
+
+    logInfo('OfflineQueue', 'Entrada descartada por el usuario', {
+      id: removed.id,
+      method: removed.method,
+      label: removed.label
+    });
+
+    return true;
+  }
+
+  /**
+   * Vacía la bandeja completa (ej. al cerrar sesión)
+   */
+  public clear(): void {
+    const count = this.entries.length;
+    this.entries = [];
+    this.persist();
+    this.stopRetryTimer();
+    this.notifyListeners();
+
+    if (count > 0) {
+      logInfo('OfflineQueue', 'Bandeja de salida vaciada', { entriesRemoved: count });
+    }
+  }
+
+  // =====================================================
+  // HOOKS DE HTTPHELPER
+  // =====================================================
+
+  /**
+   * Agrega la llave de idempotencia a mutaciones encolables (si `sendIdempotencyKey`)
+   * Muta el config recibido para que el error posterior conserve la misma llave
+   */
+  private stampIdempotencyKey(config: HttpRequestConfig): HttpRequestConfig {
+    if (!this.config.sendIdempotencyKey || !this.isQueueableConfig(config)) {
+      return config;
+    }
+
+    const header = this.config.idempotencyHeader;
+    if (!config.headers?.[header]) {
+      config.headers = { ...(config.headers ?? {}), [header]: this.generateId('idem') };
+    }
+
+    return config;
+  }
+
+  /**
+   * Encola peticiones que fallaron por conectividad
+   */
+  private handleHttpError(error: HttpError): void {
+    const config = error.requestConfig;
+
+    if (!config || !this.isQueueableConfig(config) || !this.isConnectivityError(error)) {
+      return;
+    }
+
+    if (typeof FormData !== 'undefined' && config.body instanceof FormData) {
+      logWarning('OfflineQueue', 'Peticiones multipart no pueden encolarse', { url: error.url });
+      return;
+    }
+
+    const entry = this.enqueue(error.url, config, error);
+    if (entry) {
+      error.offlineQueueId = entry.id;
+    }
+  }
+
+  // =====================================================
+  // MÉTODOS PRIVADOS
+  // =====================================================
+
+  private async runReplay(): Promise<OfflineQueueReplayResult> {
+    const result: OfflineQueueReplayResult = {
+      replayed: 0,
+      conflicts: 0,
+      failed: 0,
+      remaining: 0,
+      stoppedByError: false
+    };
+
+    if (!this.http) {
+      logWarning('OfflineQueue', 'Replay solicitado sin HttpHelper conectado');
+      result.remaining = this.entries.length;
+      return result;
+    }
+
+    if (!this.isOnline()) {
+      logDebug('OfflineQueue', 'Replay omitido: navegador sin conexión');
+      result.remaining = this.entries.length;
+      result.stoppedByError = true;
+      return result;
+    }
+
+    const queue = this.entries.filter(entry => entry.status === 'pending');
+
+    for (const entry of queue) {
+      entry.status = 'replaying';
+      entry.attempts++;
+      entry.lastAttemptAt = Date.now();
+      this.persist();
+      this.notifyListeners();
+
+      try {
+        await this.http.request(entry.url, {
+          method: entry.method,
+          body: entry.body,
+          headers: this.config.sendIdempotencyKey
+            ? { ...entry.headers, [this.config.idempotencyHeader]: entry.idempotencyKey }
+            : entry.headers,
+          contentType: entry.contentType,
+          retries: 1,
+          queueable: false
+        });
+
+        this.entries = this.entries.filter(item => item.id !== entry.id);
+        result.replayed++;
+
+        logInfo('OfflineQueue', 'Entrada reenviada exitosamente', {
+          id: entry.id,
+          method: entry.method,
+          label: entry.label,
+          attempts: entry.attempts
+        });
+      } catch (error) {
+        const httpError = error as HttpError;
+        entry.lastError = {
+          message: httpError.message || String(error),
+          type: httpError.type ?? 'UNKNOWN',
+          status: httpError.status
+        };
+
+        if (this.isTransientError(httpError) && entry.attempts >= this.config.maxAttempts) {
+          entry.status = 'failed';
+          result.failed++;
+          logError('OfflineQueue', httpError, `"${entry.label}" (${entry.method}) no se pudo reenviar tras ${entry.attempts} intentos`);
+        } else if (this.isTransientError(httpError)) {
+          entry.status = 'pending';
+          result.stoppedByError = true;
+          logWarning('OfflineQueue', 'Replay detenido por error transitorio', {
+            id: entry.id,
+            type: entry.lastError.type,
+            status: entry.lastError.status
+          });
+          this.persist();
+          break;
+        } else {
+          entry.status = 'conflict';
+          result.conflicts++;
+          logError('OfflineQueue', httpError, `Conflicto al reenviar "${entry.label}" (${entry.method})`);
+        }
+      }
+
+      this.persist();
+      this.notifyListeners();
+    }
+
+    result.remaining = this.entries.length;
+
+    if (this.config.notifyUser && result.replayed > 0) {
+      showSuccess(
+        `${result.replayed} cambio(s) guardado(s) sin conexión se enviaron correctamente`,
+        'Sincronización completada'
+      );
+    }
+
+    if (this.config.notifyUser && result.conflicts > 0) {
+      showWarning(
+        `${result.conflicts} cambio(s) fueron rechazados por el servidor. Revisa la bandeja de salida.`,
+        'Conflictos de sincronización'
+      );
+    }
+
+    if (this.config.notifyUser && result.failed > 0) {
+      showWarning(
+        `${result.failed} cambio(s) no se pudieron enviar tras varios intentos. Revisa la bandeja de salida.`,
+        'Cambios sin enviar'
+      );
+    }
+
+    return result;
+  }
+
+  private enqueue(url: string, config: HttpRequestConfig, error: HttpError): OfflineQueueEntry | null {
+    this.load();
+
+    const idempotencyKey = config.headers?.[this.config.idempotencyHeader] ?? this.generateId('idem');
+    const existing = this.entries.find(entry => entry.idempotencyKey === idempotencyKey);
+    if (existing) {
+      return existing;
+    }
+
+    if (this.entries.length >= this.config.maxEntries) {
+      logWarning('OfflineQueue', 'Bandeja de salida llena, petición no encolada', {
+        maxEntries: this.config.maxEntries,
+        url
+      });
+      return null;
+    }
+
+    const method = config.method as QueueableMethod;
+    const entry: OfflineQueueEntry = {
+      id: this.generateId('outbox'),
+      url,
+      method,
+      body: config.body,
+      headers: this.sanitizeHeaders(config.headers),
+      contentType: config.contentType,
+      label: config.queueLabel || `${method} ${url}`,
+      idempotencyKey,
+      createdAt: Date.now(),
+      attempts: 0,
+      status: 'pending',
+      lastError: {
+        message: error.message,
+        type: error.type,
+        status: error.status
+      }
+    };
+
+    this.entries.push(entry);
+    this.persist();
+    this.syncRetryTimer();
+    this.notifyListeners();
+
+    logInfo('OfflineQueue', 'Petición encolada en bandeja de salida', {
+      id: entry.id,
+      method: entry.method,
+      label: entry.label,
+      errorType: error.type,
+      queueSize: this.entries.length
+    });
+
+    if (this.config.notifyUser) {
+      showWarning(
+        `"${entry.label}" se guardó y se enviará automáticamente al recuperar la conexión.`,
+        'Sin conexión'
+      );
+    }
+
+    return entry;
+  }
+
+  private isQueueableConfig(config: HttpRequestConfig): boolean {
+    return config.queueable === true
+      && !!config.method
+      && (QUEUEABLE_METHODS as readonly string[]).includes(config.method);
+  }
+
+  private isConnectivityError(error: HttpError): boolean {
+    if (error.type === 'NETWORK') {
+      return true;
+    }
+    return error.type === 'TIMEOUT' && !this.isOnline();
+  }
+
+  private isTransientError(error: HttpError): boolean {
+    if (!error || typeof error !== 'object' || !('type' in error)) {
+      return true;
+    }
+
+    if (error.type === 'NETWORK' || error.type === 'TIMEOUT' || error.type === 'SERVER') {
+      return true;
+    }
+
+    const details = error.details as { rateLimitType?: string } | undefined;
+    if (details?.rateLimitType) {
+      return true;
+    }
+
+    return error.status !== undefined && TRANSIENT_STATUS_CODES.includes(error.status);
+  }
+
+  /**
+   * Remueve headers de autorización antes de persistir
+   */
+  private sanitizeHeaders(headers?: Record<string, string>): Record<string, string> | undefined {
+    if (!headers) {
+      return undefined;
+    }
+
+    const authHeader = (this.http?.getConfig().authHeaderName ?? 'Authorization').toLowerCase();
+    const sanitized: Record<string, string> = {};
+
+    Object.entries(headers).forEach(([key, value]) => {
+      const normalized = key.toLowerCase();
+      if (normalized === authHeader || normalized === 'authorization' || normalized === this.config.idempotencyHeader.toLowerCase()) {
+        return;
+      }
+      sanitized[key] = value;
+    });
+
+    return sanitized;
+  }
+
+  /**
+   * Entradas que quedaron en 'replaying' por una recarga vuelven a 'pending'
+   */
+  private recoverInterruptedEntries(): void {
+    let recovered = 0;
+    this.entries.forEach(entry => {
+      if (entry.status === 'replaying') {
+        entry.status = 'pending';
+        recovered++;
+      }
+    });
+
+    if (recovered > 0) {
+      this.persist();
+      logDebug('OfflineQueue', 'Entradas interrumpidas recuperadas', { recovered });
+    }
+  }
+
+  private syncRetryTimer(): void {
+    const hasPending = this.entries.some(entry => entry.status === 'pending');
+
+    if (hasPending && this.http && !this.retryTimer) {
+      this.retryTimer = setInterval(() => {
+        if (this.isOnline()) {
+          void this.replay();
+        }
+      }, this.config.retryInterval);
+    } else if (!hasPending) {
+      this.stopRetryTimer();
+    }
+  }
+
+  private stopRetryTimer(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    try {
+      const raw = sessionStorage.getItem(this.config.storageKey);
+      if (!raw) {
+        return;
+      }
+
+      const parsed = JSON.parse(raw) as unknown;
+      if (Array.isArray(parsed)) {
+        this.entries = parsed.filter((item): item is OfflineQueueEntry =>
+          !!item && typeof item === 'object' && 'id' in item && 'url' in item && 'method' in item
+        );
+      }
+    } catch (error) {
+      logWarning('OfflineQueue', 'No se pudo cargar la bandeja de salida persistida', {
+        error: String(error)
+      });
+      this.entries = [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      if (this.entries.length === 0) {
+        sessionStorage.removeItem(this.config.storageKey);
+      } else {
+        sessionStorage.setItem(this.config.storageKey, JSON.stringify(this.entries));
+      }
+    } catch (error) {
+      logWarning('OfflineQueue', 'No se pudo persistir la bandeja de salida', {
+        error: String(error)
+      });
+    }
+  }
+
+  private notifyListeners(): void {
+    const entries = this.getEntries();
+    const summary = this.getSummary();
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(entries, summary);
+      } catch (error) {
+        logError('OfflineQueue', error, 'Error en listener de bandeja de salida');
+      }
+    });
+  }
+
+  private generateId(prefix: string): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return `${prefix}_${crypto.randomUUID()}`;
+    }
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
+
+// Instancia por defecto
+const offlineQueue = OfflineQueue.getInstance();
+
+// =====================================================
+// FUNCIONES HELPER PARA USO DIRECTO
+// =====================================================
+
+/**
+ * Conecta el outbox con HttpHelper (llamar una vez al iniciar la app)
+ */
+export const installOfflineQueue = (http: HttpHelper): void =>
+  offlineQueue.attach(http);
+
+/**
+ * Desconecta el outbox de HttpHelper
+ */
+export const uninstallOfflineQueue = (): void =>
+  offlineQueue.detach();
+
+export const getOfflineQueueEntries = (): OfflineQueueEntry[] =>
+  offlineQueue.getEntries();
+
+export const getOfflineQueueSummary = (): OfflineQueueSummary =>
+  offlineQueue.getSummary();
+
+export const subscribeToOfflineQueue = (listener: OfflineQueueListener): (() => void) =>
+  offlineQueue.subscribe(listener);
+
+export const replayOfflineQueue = (): Promise<OfflineQueueReplayResult> =>
+  offlineQueue.replay();
+
+export const retryOfflineQueueEntry = (id: string): Promise<OfflineQueueReplayResult> =>
+  offlineQueue.retryEntry(id);
+
+export const discardOfflineQueueEntry = (id: string): boolean =>
+  offlineQueue.discard(id);
+
+export const clearOfflineQueue = (): void =>
+  offlineQueue.clear();
+
+/**
+ * Indica si un error corresponde a una petición que quedó en la bandeja de salida
+ */
+export const isQueuedHttpError = (error: unknown): error is HttpError =>
+  !!error && typeof error === 'object' && typeof (error as HttpError).offlineQueueId === 'string';
+
+// Exportaciones
+export { OfflineQueue, offlineQueue };
+export default offlineQueue;
@@ -0,0 +1,169 @@
+/**
+ * Tests para IPH Completeness Helper
+ *
+ * Valida la normalización de secciones (formas variables del backend), los
+ * campos faltantes por sección, las reglas de consistencia y el puntaje.
+ *
+ * @module IphCompletenessHelperTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildIphCompletenessReport, getIphCompletenessLevel } from './iph-completeness.helper';
+import { normalizeIphSections } from './iph-section.schemas';
+
+const IPH_BASE = {
+  iph: {
+    nReferencia: 'REF-001',
+    nFolioSist: 'FOL-001',
+    tipoIph: { nombre: 'IPH para hechos probablemente delictivos sin detenido' },
+    fechaCreacion: '2026-03-12T15:00:00'
+  },
+  primerRespondiente: {
+    nombre: 'Ana',
+    primerApellido: 'López',
+    institucion: 'Policía Estatal',
+    gradoCargo: 'Policía Primero',
+    unidadArribo: 'P-120',
+    nElementos: '2'
+  },
+  lugarIntervencion: {
+    calleTramo: 'Francisco Villa',
+    coordenadas: { latitud: '19.4326', longitud: '-99.1332' },
+    localizacion: { colonia: 'Centro', municipio: 'Cuauhtémoc', estado: 'Ciudad de México' }
+  },
+  conocimientoHecho: {
+    tipoConocimiento: 'Llamada de emergencia',
+    fConocimiento: '2026-03-12T14:20:00',
+    fArribo: '2026-03-12T14:35:00'
+  },
+  narrativaHecho: [{ contenido: 'Siendo las 14:30 horas...' }],
+  detencion: [],
+  usoFuerza: []
+};
+
+const CON_DETENIDO = {
+  ...IPH_BASE,
+  iph: { ...IPH_BASE.iph, tipoIph: { nombre: 'IPH para hechos probablemente delictivos con detenido' } }
+};
+
+const findSection = (report: ReturnType<typeof buildIphCompletenessReport>, key: string) =>
+  report.sections.find(section => section.key === key);
+
+describe('normalizeIphSections', () => {
+  it('unifica secciones sueltas, arreglos y vacíos', () => {
+    const { sections } = normalizeIphSections({
+      narrativaHecho: [{ contenido: 'texto' }],
+      detencion: { nombreDetenido: 'Juan' },
+      usoFuerza: null,
+      entregaRecepcion: []
+    });
+    expect(sections.narrativaHecho?.contenido).toBe('texto');
+    expect(sections.detencion).toHaveLength(1);
+    expect(sections.usoFuerza).toEqual([]);
+    expect(sections.entregaRecepcion).toBeUndefined();
+  });
+
+  it('convierte conteos y banderas en texto', () => {
+    const { sections } = normalizeIphSections({
+      usoFuerza: { lesionadosPersonas: '2', usoArmaLetal: 'si', asistenciaMedica: 0 }
+    });
+    expect(sections.usoFuerza[0].lesionadosPersonas).toBe(2);
+    expect(sections.usoFuerza[0].usoArmaLetal).toBe(true);
+    expect(sections.usoFuerza[0].asistenciaMedica).toBe(false);
+  });
+
+  it('reporta y descarta campos inválidos sin perder la sección', () => {
+    const { sections, issues } = normalizeIphSections({
+      detencion: [{ nombreDetenido: 'Juan', fechaHora: 'ayer' }]
+    });
+    expect(sections.detencion[0].nombreDetenido).toBe('Juan');
+    expect(sections.detencion[0].fechaHora).toBeUndefined();
+    expect(issues).toEqual([{ section: 'detencion', path: '0.fechaHora', message: 'Fecha inválida' }]);
+  });
+});
+
+describe('buildIphCompletenessReport', () => {
+  it('IPH sin detenido completo obtiene 100 y anexos opcionales no aplican', () => {
+    const report = buildIphCompletenessReport(IPH_BASE);
+    expect(report.score).toBe(100);
+    expect(report.level).toBe('completa');
+    expect(findSection(report, 'detencion')?.status).toBe('no_aplica');
+    expect(findSection(report, 'usoFuerza')?.score).toBeNull();
+  });
+
+  it('IPH con detenido sin registros de detención es error', () => {
+    const report = buildIphCompletenessReport(CON_DETENIDO);
+    const detencion = findSection(report, 'detencion');
+    expect(detencion?.required).toBe(true);
+    expect(detencion?.findings[0].severity).toBe('error');
+    expect(report.level).not.toBe('completa');
+  });
+
+  it('lista los campos obligatorios faltantes', () => {
+    const report = buildIphCompletenessReport({
+      ...IPH_BASE,
+      primerRespondiente: { ...IPH_BASE.primerRespondiente, institucion: '  ', unidadArribo: null }
+    });
+    const section = findSection(report, 'primerRespondiente');
+    expect(section?.status).toBe('incompleta');
+    expect(section?.missingFields).toEqual(['Institución', 'Unidad de arribo']);
+  });
+
+  it('uso de arma letal sin lesionados ni fallecidos es error', () => {
+    const report = buildIphCompletenessReport({
+      ...IPH_BASE,
+      usoFuerza: [{ usoArmaLetal: true, explicacion: 'Disparo preventivo' }]
+    });
+    expect(findSection(report, 'usoFuerza')?.status).toBe('con_errores');
+  });
+
+  it('lesionados sin asistencia médica es advertencia', () => {
+    const report = buildIphCompletenessReport({
+      ...IPH_BASE,
+      usoFuerza: [{
+        lesionadosAutoridad: 0,
+        lesionadosPersonas: 1,
+        fallecidosAutoridad: 0,
+        fallecidosPersonas: 0,
+        reduccionMovimiento: true,
+        asistenciaMedica: false,
+        explicacion: 'Sometimiento'
+      }]
+    });
+    const section = findSection(report, 'usoFuerza');
+    expect(section?.status).toBe('completa');
+    expect(section?.findings.map(f => f.severity)).toEqual(['advertencia']);
+    expect(report.warnings).toBe(1);
+  });
+
+  it('arribo anterior al conocimiento es error', () => {
+    const report = buildIphCompletenessReport({
+      ...IPH_BASE,
+      conocimientoHecho: { ...IPH_BASE.conocimientoHecho, fArribo: '2026-03-12T13:00:00' }
+    });
+    expect(findSection(report, 'conocimientoHecho')?.status).toBe('con_errores');
+  });
+
+  it('coordenadas fuera de rango son error', () => {
+    const report = buildIphCompletenessReport({
+      ...IPH_BASE,
+      lugarIntervencion: { ...IPH_BASE.lugarIntervencion, coordenadas: { latitud: '191.43', longitud: '-99.13' } }
+    });
+    expect(findSection(report, 'lugarIntervencion')?.status).toBe('con_errores');
+  });
+
+  it('datos vacíos obtienen 0', () => {
+    const report = buildIphCompletenessReport(undefined);
+    expect(report.score).toBe(0);
+    expect(report.level).toBe('incompleta');
+  });
+});
+
+describe('getIphCompletenessLevel', () => {
+  it('no permite nivel completo con errores', () => {
+    expect(getIphCompletenessLevel(95)).toBe('completa');
+    expect(getIphCompletenessLevel(95, 1)).toBe('parcial');
+    expect(getIphCompletenessLevel(40)).toBe('incompleta');
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * IPH Completeness Helper - Reporte de completitud y consistencia por sección
+ *
+ * Sobre las secciones normalizadas (iph-section.schemas) calcula, para cada
+ * sección y anexo A-F:
+ * - Si aplica según el tipo de IPH (con / sin detenido, justicia cívica)
+ * - Porcentaje de campos obligatorios capturados y cuáles faltan
+ * - Hallazgos de consistencia entre secciones (errores y advertencias)
+ *
+ * Las secciones opcionales sin datos no cuentan en el puntaje; las
+ * obligatorias sin datos cuentan como 0.
+ *
+ * @example
+ * ```typescript
+ * const report = buildIphCompletenessReport(await getIphById(id));
+ * report.sections.filter(s => s.status === 'con_errores');
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import {
+  normalizeIphSections,
+  type IphSchemaIssue,
+  type IphSectionItem,
+  type IphSectionKey,
+  type NormalizedIph
+} from './iph-section.schemas';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type IphSectionStatus = 'completa' | 'incompleta' | 'con_errores' | 'sin_datos' | 'no_aplica';
+
+export type IphCompletenessLevel = 'completa' | 'parcial' | 'incompleta';
+
+export interface IphFinding {
+  severity: 'error' | 'advertencia';
+  message: string;
+}
+
+export interface IphSectionReport {
+  key: IphSectionKey;
+  label: string;
+  required: boolean;
+  status: IphSectionStatus;
+  /** 0-100, o null si la sección no aplica */
+  score: number | null;
+  missingFields: string[];
+  findings: IphFinding[];
+}
+
+export interface IphCompletenessSummary {
+  /** 0-100 */
+  score: number;
+  level: IphCompletenessLevel;
+  errors: number;
+  warnings: number;
+}
+
+export interface IphCompletenessReport extends IphCompletenessSummary {
+  sections: IphSectionReport[];
+}
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+export const IPH_COMPLETENESS_CONFIG = {
+  thresholds: {
+    completa: 90,
+    parcial: 60
+  }
+} as const;
+
+export const IPH_SECTION_LABELS: Record<IphSectionKey, string> = {
+  iph: 'Datos generales',
+  primerRespondiente: 'Primer respondiente',
+  lugarIntervencion: 'Lugar de la intervención',
+  conocimientoHecho: 'Conocimiento del hecho',
+  narrativaHecho: 'Narrativa de hechos',
+  puestaDisposicion: 'Puesta a disposición',
+  detencion: 'Anexo A. Detenciones',
+  usoFuerza: 'Anexo B. Uso de la fuerza',
+  inspeccionVehiculo: 'Anexo C. Inspección de vehículo',
+  armaObjeto: 'Anexo D. Inventario de armas y objetos',
+  entrevista: 'Anexo E. Entrevistas',
+  entregaRecepcion: 'Anexo F. Entrega - recepción del lugar'
+};
+
+export const IPH_COMPLETENESS_LEVEL_LABELS: Record<IphCompletenessLevel, string> = {
+  completa: 'Completo',
+  parcial: 'Parcial',
+  incompleta: 'Incompleto'
+};
+
+type FieldRule<K extends IphSectionKey> = [label: string, read: (item: IphSectionItem<K>) => unknown];
+
+/**
+ * Campos obligatorios por sección (en anexos con varios registros se exigen en cada uno)
+ */
+const REQUIRED_FIELDS: { [K in IphSectionKey]: FieldRule<K>[] } = {
+  iph: [
+    ['Número de referencia', s => s.nReferencia],
+    ['Folio del sistema', s => s.nFolioSist],
+    ['Tipo de IPH', s => s.tipoIph?.nombre],
+    ['Fecha de creación', s => s.fechaCreacion]
+  ],
+  primerRespondiente: [
+    ['Nombre', s => s.nombre],
+    ['Primer apellido', s => s.primerApellido],
+    ['Institución', s => s.institucion],
+    ['Grado o cargo', s => s.gradoCargo],
+    ['Unidad de arribo', s => s.unidadArribo],
+    ['Número de elementos', s => s.nElementos]
+  ],
+  lugarIntervencion: [
+    ['Calle o tramo', s => s.calleTramo],
+    ['Colonia', s => s.localizacion?.colonia],
+    ['Municipio', s => s.localizacion?.municipio],
+    ['Entidad', s => s.localizacion?.estado],
+    ['Coordenadas', s => s.coordenadas?.latitud && s.coordenadas?.longitud]
+  ],
+  conocimientoHecho: [
+    ['Tipo de conocimiento', s => s.tipoConocimiento],
+    ['Fecha de conocimiento', s => s.fConocimiento],
+    ['Fecha de arribo', s => s.fArribo]
+  ],
+  narrativaHecho: [
+    ['Contenido', s => s.contenido]
+  ],
+  puestaDisposicion: [
+    ['Autoridades que reciben', s => s.disposicionesOficiales]
+  ],
+  detencion: [
+    ['Nombre del detenido', s => s.nombreDetenido],
+    ['Primer apellido del detenido', s => s.primerApellidoDetenido],
+    ['Fecha y hora de detención', s => s.fechaHora],
+    ['Sexo', s => s.sexo],
+    ['Edad', s => s.edad],
+    ['Lectura de derechos', s => s.lecturaDerecho],
+    ['Lugar de traslado', s => s.lugarTraslado]
+  ],
+  usoFuerza: [
+    ['Lesionados (autoridad)', s => s.lesionadosAutoridad],
+    ['Lesionados (personas)', s => s.lesionadosPersonas],
+    ['Fallecidos (autoridad)', s => s.fallecidosAutoridad],
+    ['Fallecidos (personas)', s => s.fallecidosPersonas],
+    ['Explicación', s => s.explicacion]
+  ],
+  inspeccionVehiculo: [
+    ['Tipo de vehículo', s => s.tipoVehiculo],
+    ['Marca', s => s.marca],
+    ['Modelo', s => s.modelo],
+    ['Color', s => s.color],
+    ['Destino', s => s.destino]
+  ],
+  armaObjeto: [
+    ['Tipo de inventario', s => s.tipoInventario],
+    ['Descripción', s => s.descripcionArmObj],
+    ['Lugar de encuentro', s => s.lugarEncuentro],
+    ['Destino', s => s.destinoArmOb]
+  ],
+  entrevista: [
+    ['Nombre del entrevistado', s => s.nombreEntrevistado],
+    ['Apellido del entrevistado', s => s.apellidoPaternoEntrevistado],
+    ['Calidad', s => s.calidad],
+    ['Fecha y hora', s => s.fechaHora],
+    ['Contenido de la entrevista', s => s.entrevista]
+  ],
+  entregaRecepcion: [
+    ['Explicación', s => s.explicacion],
+    ['Fecha de entrega', s => s.fechaEntregaRecepcion],
+    ['Quien recibe', s => s.respondienteRecepcion?.nombre]
+  ]
+};
+
+const SECTION_ORDER = Object.keys(IPH_SECTION_LABELS) as IphSectionKey[];
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+const normalizeTipo = (tipo: string | undefined): string =>
+  (tipo ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, '');
+
+/**
+ * Perfil del IPH según su tipo (mismo criterio que los tabs de InformeEjecutivo)
+ */
+const getIphProfile = (tipo: string | undefined) => {
+  const normalized = normalizeTipo(tipo);
+  return {
+    conDetenido: normalized.includes('condetenido'),
+    sinDetenido: normalized.includes('sindetenido'),
+    justiciaCivica: normalized.includes('justiciacivica')
+  };
+};
+
+const isFilled = (value: unknown): boolean => {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+const getItems = <K extends IphSectionKey>(sections: NormalizedIph, key: K): IphSectionItem<K>[] => {
+  const value = sections[key] as unknown;
+  if (Array.isArray(value)) return value as IphSectionItem<K>[];
+  return value ? [value as IphSectionItem<K>] : [];
+};
+
+/**
+ * Campos faltantes y porcentaje capturado (promedio entre registros)
+ */
+const evaluateFields = <K extends IphSectionKey>(
+  key: K,
+  items: IphSectionItem<K>[]
+): { score: number; missingFields: string[] } => {
+  const rules = REQUIRED_FIELDS[key];
+  if (items.length === 0 || rules.length === 0) return { score: 0, missingFields: [] };
+
+  const missing = new Set<string>();
+  let filled = 0;
+
+  items.forEach((item, index) => {
+    for (const [label, read] of rules) {
+      if (isFilled(read(item))) {
+        filled++;
+      } else {
+        missing.add(items.length > 1 ? `${label} (registro ${index + 1})` : label);
+      }
+    }
+  });
+
+  return {
+    score: Math.round((filled / (rules.length * items.length)) * 100),
+    missingFields: [...missing]
+  };
+};
+
+const toTime = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const isValidCoordinate = (latitud?: string, longitud?: string): boolean => {
+  const lat = Number(latitud);
+  const lng = Number(longitud);
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && !(lat === 0 && lng === 0);
+};
+
+const formatIssue = (issue: IphSchemaIssue): IphFinding => ({
+  severity: 'error',
+  message: `Formato inválido en "${issue.path || 'sección'}": ${issue.message}`
+});
+
+// =====================================================
+// REGLAS DE CONSISTENCIA
+// =====================================================
+
+/**
+ * Hallazgos que cruzan secciones, agrupados por la sección donde se muestran
+ */
+const checkConsistency = (
+  sections: NormalizedIph,
+  profile: ReturnType<typeof getIphProfile>
+): Partial<Record<IphSectionKey, IphFinding[]>> => {
+  const findings: Partial<Record<IphSectionKey, IphFinding[]>> = {};
+  const add = (key: IphSectionKey, severity: IphFinding['severity'], message: string) => {
+    (findings[key] ??= []).push({ severity, message });
+  };
+
+  const detenciones = sections.detencion;
+  const conocimiento = sections.conocimientoHecho;
+  const fConocimiento = toTime(conocimiento?.fConocimiento);
+  const fArribo = toTime(conocimiento?.fArribo);
+
+  // Detención según el tipo de IPH
+  if (profile.conDetenido && detenciones.length === 0) {
+    add('detencion', 'error', 'El tipo de IPH indica detenido pero no hay registros de detención');
+  }
+  if (profile.sinDetenido && detenciones.length > 0) {
+    add('detencion', 'advertencia', 'El tipo de IPH es "sin detenido" pero hay registros de detención');
+  }
+
+  // Fechas
+  if (fConocimiento !== null && fArribo !== null && fArribo < fConocimiento) {
+    add('conocimientoHecho', 'error', 'La fecha de arribo es anterior a la de conocimiento del hecho');
+  }
+
+  detenciones.forEach((detencion, index) => {
+    const fDetencion = toTime(detencion.fechaHora);
+    const registro = detenciones.length > 1 ? ` (registro ${index + 1})` : '';
+    if (fDetencion !== null && fConocimiento !== null && fDetencion < fConocimiento) {
+      add('detencion', 'advertencia', `La detención es anterior al conocimiento del hecho${registro}`);
+    }
+    if (detencion.lecturaDerecho === false) {
+      add('detencion', 'advertencia', `No se registró la lectura de derechos${registro}`);
+    }
+  });
+
+  // Ubicación
+  const coordenadas = sections.lugarIntervencion?.coordenadas;
+  if (coordenadas?.latitud && coordenadas.longitud && !isValidCoordinate(coordenadas.latitud, coordenadas.longitud)) {
+    add('lugarIntervencion', 'error', `Coordenadas inválidas (${coordenadas.latitud}, ${coordenadas.longitud})`);
+  }
+
+  // Uso de la fuerza
+  sections.usoFuerza.forEach(uso => {
+    const conteos = [uso.lesionadosAutoridad, uso.lesionadosPersonas, uso.fallecidosAutoridad, uso.fallecidosPersonas];
+    const sinConteos = conteos.every(conteo => conteo === undefined);
+    const lesionados = (uso.lesionadosAutoridad ?? 0) + (uso.lesionadosPersonas ?? 0);
+    const fallecidos = (uso.fallecidosAutoridad ?? 0) + (uso.fallecidosPersonas ?? 0);
+
+    if (uso.usoArmaLetal && sinConteos) {
+      add('usoFuerza', 'error', 'Se reporta uso de arma letal sin datos de lesionados ni fallecidos');
+    }
+    if (uso.asistenciaMedica && !sinConteos && lesionados + fallecidos === 0) {
+      add('usoFuerza', 'advertencia', 'Se reporta asistencia médica pero no hay lesionados registrados');
+    }
+    if (lesionados > 0 && uso.asistenciaMedica === false) {
+      add('usoFuerza', 'advertencia', `Hay ${lesionados} lesionado${lesionados === 1 ? '' : 's'} sin asistencia médica registrada`);
+    }
+    if (!uso.reduccionMovimiento && !uso.usoArmaNoLetal && !uso.usoArmaLetal && lesionados + fallecidos > 0) {
+      add('usoFuerza', 'advertencia', 'Hay lesionados o fallecidos pero no se indica el tipo de fuerza empleada');
+    }
+  });
+
+  // Vehículos y armas sin identificación
+  sections.inspeccionVehiculo.forEach((vehiculo, index) => {
+    if (!vehiculo.placa && !vehiculo.numeroSerie) {
+      const registro = sections.inspeccionVehiculo.length > 1 ? ` (registro ${index + 1})` : '';
+      add('inspeccionVehiculo', 'advertencia', `Vehículo sin placa ni número de serie${registro}`);
+    }
+  });
+  sections.armaObjeto.forEach((arma, index) => {
+    if (arma.tipoArma && !arma.matriculaArma && !arma.numeroSerieArma) {
+      const registro = sections.armaObjeto.length > 1 ? ` (registro ${index + 1})` : '';
+      add('armaObjeto', 'advertencia', `Arma sin matrícula ni número de serie${registro}`);
+    }
+  });
+
+  return findings;
+};
+
+// =====================================================
+// API
+// =====================================================
+
+export const getIphCompletenessLevel = (score: number, errors = 0): IphCompletenessLevel => {
+  if (score >= IPH_COMPLETENESS_CONFIG.thresholds.completa && errors === 0) return 'completa';
+  if (score >= IPH_COMPLETENESS_CONFIG.thresholds.parcial) return 'parcial';
+  return 'incompleta';
+};
+
+/**
+ * Reporte de completitud y consistencia del IPH completo (`getIphById`)
+ */
+export const buildIphCompletenessReport = (data: unknown): IphCompletenessReport => {
+  const { sections, issues } = normalizeIphSections(data);
+  const profile = getIphProfile(sections.iph?.tipoIph?.nombre);
+  const consistency = checkConsistency(sections, profile);
+
+  const required: Record<IphSectionKey, boolean> = {
+    iph: true,
+    primerRespondiente: true,
+    lugarIntervencion: true,
+    conocimientoHecho: true,
+    narrativaHecho: true,
+    puestaDisposicion: profile.conDetenido && !profile.justiciaCivica,
+    detencion: profile.conDetenido,
+    usoFuerza: false,
+    inspeccionVehiculo: false,
+    armaObjeto: false,
+    entrevista: false,
+    entregaRecepcion: false
+  };
+
+  const reports: IphSectionReport[] = SECTION_ORDER.map(key => {
+    const items = getItems(sections, key);
+    const findings = [
+      ...issues.filter(issue => issue.section === key).map(formatIssue),
+      ...(consistency[key] ?? [])
+    ];
+    const base = { key, label: IPH_SECTION_LABELS[key], required: required[key], findings };
+
+    if (items.length === 0) {
+      return required[key]
+        ? { ...base, status: 'sin_datos' as const, score: 0, missingFields: [] }
+        : { ...base, status: findings.length > 0 ? 'sin_datos' as const : 'no_aplica' as const, score: null, missingFields: [] };
+    }
+
+    const { score, missingFields } = evaluateFields(key, items);
+    const status: IphSectionStatus = findings.some(finding => finding.severity === 'error')
+      ? 'con_errores'
+      : score < 100 ? 'incompleta' : 'completa';
+
+    return { ...base, status, score, missingFields };
+  });
+
+  const scored = reports.filter(report => report.score !== null);
+  const score = scored.length === 0
+    ? 0
+    : Math.round(scored.reduce((sum, report) => sum + (report.score ?? 0), 0) / scored.length);
+  const allFindings = reports.flatMap(report => report.findings);
+  const errors = allFindings.filter(finding => finding.severity === 'error').length;
+  const warnings = allFindings.length - errors;
+
+  return {
+    score,
+    level: getIphCompletenessLevel(score, errors),
+    errors,
+    warnings,
+    sections: reports
+  };
+};
+
+/**
+ * Resumen para listados (sin el detalle por sección)
+ */
+export const summarizeIphCompleteness = (report: IphCompletenessReport): IphCompletenessSummary => ({
+  score: report.score,
+  level: report.level,
+  errors: report.errors,
+  warnings: report.warnings
+});
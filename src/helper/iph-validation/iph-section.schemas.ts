@@ -0,0 +1,352 @@
+/**
+ * IPH Section Schemas - Normalización tipada de `ResponseIphData` con Zod
+ *
+ * El backend envía cada sección como objeto, arreglo, `[]`, `null` o
+ * `undefined` según el IPH, y los campos con tipos variables (conteos como
+ * texto, booleanos como "true"/"1", fechas como `Date` o string). Estos
+ * schemas dejan cada sección en una forma única:
+ * - Secciones de un solo registro → objeto o `undefined`
+ * - Anexos con varios registros → siempre arreglo
+ * - Textos vacíos → `undefined`; conteos → number; booleanos → boolean
+ *
+ * Cada sección se valida por separado: un campo con formato inválido se
+ * reporta y se descarta sin perder el resto de la sección.
+ *
+ * @example
+ * ```typescript
+ * const { sections, issues } = normalizeIphSections(await getIphById(id));
+ * sections.detencion.forEach(d => console.log(d.nombreDetenido));
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+// =====================================================
+// CAMPOS
+// =====================================================
+
+const isBlank = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+/** Texto opcional; números se convierten a texto y vacíos a undefined */
+const text = z.preprocess(
+  value => (isBlank(value) ? undefined : typeof value === 'number' ? String(value) : value),
+  z.string().optional()
+);
+
+/** Booleano opcional; acepta "true"/"false", "si"/"no" y 1/0 */
+const flag = z.preprocess(value => {
+  if (isBlank(value)) return undefined;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (['true', '1', 'si', 'sí'].includes(normalized)) return true;
+    if (['false', '0', 'no'].includes(normalized)) return false;
+  }
+  if (value === 1 || value === 0) return value === 1;
+  return value;
+}, z.boolean().optional());
+
+/** Conteo opcional (entero ≥ 0); acepta texto numérico */
+const count = z.preprocess(
+  value => (isBlank(value) ? undefined : typeof value === 'string' ? Number(value.trim()) : value),
+  z.number().int().nonnegative().optional()
+);
+
+/** Fecha opcional como string ISO; `Date` se serializa */
+const date = z.preprocess(
+  value => (isBlank(value) ? undefined : value instanceof Date ? value.toISOString() : value),
+  z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Fecha inválida').optional()
+);
+
+/** Arreglo siempre (un objeto suelto se envuelve, null/undefined → []) */
+const listOf = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => (isBlank(value) ? [] : Array.isArray(value) ? value : [value]), z.array(schema));
+
+/** Un solo registro (de un arreglo se toma el primero; `[]` → undefined) */
+const singleOf = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => (Array.isArray(value) ? value[0] : isBlank(value) ? undefined : value), schema.optional());
+
+// =====================================================
+// OBJETOS COMUNES
+// =====================================================
+
+const CoordenadasSchema = z.looseObject({
+  latitud: text,
+  longitud: text
+});
+
+const LocalizacionSchema = z.looseObject({
+  colonia: text,
+  codigoPostal: text,
+  municipio: text,
+  estado: text
+});
+
+const DisposicionSchema = z.looseObject({
+  nombre: text,
+  primerApellido: text,
+  segundoApellido: text,
+  adscripcion: text,
+  cargoGrado: text
+});
+
+// =====================================================
+// SECCIONES
+// =====================================================
+
+const DatosGeneralesSchema = z.looseObject({
+  id: text,
+  nReferencia: text,
+  nFolioSist: text,
+  observaciones: text,
+  hechos: text,
+  estatus: text,
+  coordenadas: CoordenadasSchema.optional(),
+  tipoIph: z.looseObject({ nombre: text, descripcion: text }).optional(),
+  fechaCreacion: date,
+  archivos: listOf(z.looseObject({ titulo: text, archivo: text, tipo: text }))
+});
+
+const PrimerRespondienteSchema = z.looseObject({
+  nombre: text,
+  primerApellido: text,
+  segundoApellido: text,
+  institucion: text,
+  gradoCargo: text,
+  unidadArribo: text,
+  nElementos: count
+});
+
+const LugarIntervencionSchema = z.looseObject({
+  calleTramo: text,
+  nExterior: text,
+  nInterior: text,
+  referencia: text,
+  coordenadas: CoordenadasSchema.optional(),
+  localizacion: LocalizacionSchema.optional(),
+  preservo: flag,
+  priorizo: flag,
+  riesgoNatural: flag,
+  riesgoSocial: flag
+});
+
+const ConocimientoHechoSchema = z.looseObject({
+  nConocimiento: text,
+  docConocimiento: text,
+  tipoConocimiento: text,
+  fConocimiento: date,
+  fArribo: date
+});
+
+const NarrativaSchema = z.looseObject({
+  contenido: text
+});
+
+const PuestaDisposicionSchema = z.looseObject({
+  disposicionesOficiales: listOf(DisposicionSchema)
+});
+
+const DetencionSchema = z.looseObject({
+  rnd: text,
+  fechaHora: date,
+  nombreDetenido: text,
+  primerApellidoDetenido: text,
+  segundoApellidoDetenido: text,
+  sexo: text,
+  edad: text,
+  nacionalidad: text,
+  descripcionDetenido: text,
+  lesionVisible: text,
+  lecturaDerecho: flag,
+  lugarTraslado: text,
+  pertenencias: listOf(z.looseObject({ tipo: text, descripcion: text }))
+});
+
+const UsoFuerzaSchema = z.looseObject({
+  lesionadosAutoridad: count,
+  lesionadosPersonas: count,
+  fallecidosAutoridad: count,
+  fallecidosPersonas: count,
+  reduccionMovimiento: flag,
+  usoArmaNoLetal: flag,
+  usoArmaLetal: flag,
+  asistenciaMedica: flag,
+  conducta: text,
+  explicacion: text
+});
+
+const InspeccionVehiculoSchema = z.looseObject({
+  tipoVehiculo: text,
+  procedencia: text,
+  marca: text,
+  submarca: text,
+  modelo: text,
+  color: text,
+  placa: text,
+  numeroSerie: text,
+  objetoEncontrado: flag,
+  destino: text
+});
+
+const ArmaObjetoSchema = z.looseObject({
+  tipoInventario: text,
+  lugarEncuentro: text,
+  descripcionArmObj: text,
+  destinoArmOb: text,
+  tipoArma: text,
+  calibreArma: text,
+  matriculaArma: text,
+  numeroSerieArma: text
+});
+
+const EntrevistaSchema = z.looseObject({
+  datosReservados: flag,
+  fechaHora: date,
+  nombreEntrevistado: text,
+  apellidoPaternoEntrevistado: text,
+  apellidoMaternoEntrevistado: text,
+  calidad: text,
+  entrevista: text
+});
+
+const EntregaRecepcionSchema = z.looseObject({
+  explicacion: text,
+  apoyoSolicitado: text,
+  motivoIngreso: text,
+  observaciones: text,
+  fechaEntregaRecepcion: date,
+  respondienteRecepcion: DisposicionSchema.optional()
+});
+
+/**
+ * Schema por clave de `ResponseIphData`
+ */
+export const IPH_SECTION_SCHEMAS = {
+  iph: singleOf(DatosGeneralesSchema),
+  primerRespondiente: singleOf(PrimerRespondienteSchema),
+  lugarIntervencion: singleOf(LugarIntervencionSchema),
+  conocimientoHecho: singleOf(ConocimientoHechoSchema),
+  narrativaHecho: singleOf(NarrativaSchema),
+  puestaDisposicion: singleOf(PuestaDisposicionSchema),
+  detencion: listOf(DetencionSchema),
+  usoFuerza: listOf(UsoFuerzaSchema),
+  inspeccionVehiculo: listOf(InspeccionVehiculoSchema),
+  armaObjeto: listOf(ArmaObjetoSchema),
+  entrevista: listOf(EntrevistaSchema),
+  entregaRecepcion: singleOf(EntregaRecepcionSchema)
+} as const;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type IphSectionKey = keyof typeof IPH_SECTION_SCHEMAS;
+
+export type NormalizedIph = {
+  [K in IphSectionKey]: z.infer<(typeof IPH_SECTION_SCHEMAS)[K]>;
+};
+
+/** Registro individual de una sección (el elemento si es anexo con varios) */
+export type IphSectionItem<K extends IphSectionKey> =
+  NormalizedIph[K] extends Array<infer T> ? T : NonNullable<NormalizedIph[K]>;
+
+export interface IphSchemaIssue {
+  section: IphSectionKey;
+  /** Ruta del campo dentro de la sección, p.ej. "0.fechaHora" */
+  path: string;
+  message: string;
+}
+
+export interface NormalizedIphResult {
+  sections: NormalizedIph;
+  issues: IphSchemaIssue[];
+}
+
+// =====================================================
+// NORMALIZACIÓN
+// =====================================================
+
+const IPH_SECTION_KEYS = Object.keys(IPH_SECTION_SCHEMAS) as IphSectionKey[];
+
+/** Anexos que pueden tener varios registros */
+const LIST_SECTIONS = new Set<IphSectionKey>(['detencion', 'usoFuerza', 'inspeccionVehiculo', 'armaObjeto', 'entrevista']);
+
+/** Máximo de reintentos descartando campos inválidos */
+const MAX_PARSE_ATTEMPTS = 5;
+
+/**
+ * Lleva la sección a la forma final antes de validar, para que las rutas de
+ * los errores coincidan con el valor que se corrige
+ */
+const shapeSection = (key: IphSectionKey, raw: unknown): unknown => {
+  if (LIST_SECTIONS.has(key)) {
+    return raw === null || raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+  }
+  return Array.isArray(raw) ? raw[0] : raw;
+};
+
+/**
+ * Copia del valor con los campos indicados eliminados
+ */
+const dropPaths = (value: unknown, paths: PropertyKey[][]): unknown => {
+  if (paths.some(path => path.length === 0)) return undefined;
+
+  const clone = structuredClone(value) as unknown;
+  for (const path of paths) {
+    let target: unknown = clone;
+    for (const step of path.slice(0, -1)) {
+      target = (target as Record<PropertyKey, unknown> | undefined)?.[step];
+    }
+    if (target && typeof target === 'object') {
+      delete (target as Record<PropertyKey, unknown>)[path[path.length - 1]];
+    }
+  }
+  return clone;
+};
+
+const parseSection = <K extends IphSectionKey>(
+  key: K,
+  raw: unknown
+): { value: NormalizedIph[K]; issues: IphSchemaIssue[] } => {
+  const schema: z.ZodType = IPH_SECTION_SCHEMAS[key];
+  const issues: IphSchemaIssue[] = [];
+  let current = shapeSection(key, raw);
+
+  for (let attempt = 0; attempt < MAX_PARSE_ATTEMPTS; attempt++) {
+    const result = schema.safeParse(current);
+    if (result.success) {
+      return { value: result.data as NormalizedIph[K], issues };
+    }
+
+    issues.push(...result.error.issues.map(issue => ({
+      section: key,
+      path: issue.path.map(String).join('.'),
+      message: issue.message
+    })));
+    current = dropPaths(current, result.error.issues.map(issue => issue.path));
+  }
+
+  // No se pudo recuperar: la sección se trata como vacía
+  const empty = schema.safeParse(undefined);
+  return { value: (empty.success ? empty.data : undefined) as NormalizedIph[K], issues };
+};
+
+/**
+ * Normaliza todas las secciones del IPH y reporta los campos con formato inválido
+ */
+export const normalizeIphSections = (data: unknown): NormalizedIphResult => {
+  const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const sections = {} as Record<IphSectionKey, unknown>;
+  const issues: IphSchemaIssue[] = [];
+
+  for (const key of IPH_SECTION_KEYS) {
+    const parsed = parseSection(key, raw[key]);
+    sections[key] = parsed.value;
+    issues.push(...parsed.issues);
+  }
+
+  return { sections: sections as NormalizedIph, issues };
+};
@@ -0,0 +1,630 @@
+/**
+ * Transporte remoto de logs (log shipping)
+ *
+ * Observer del Logger que envía las entradas a un endpoint de ingesta para que
+ * los errores de producción sean visibles fuera del navegador.
+ *
+ * - Agrupa entradas en lotes (por tamaño o por intervalo)
+ * - Muestreo por nivel según el ambiente (`AppEnvironment`)
+ * - Redacta campos sensibles con `EncryptHelper.sanitizeForLogging` antes de encolar
+ * - Reintentos con backoff exponencial; 4xx definitivos descartan el lote
+ * - Lotes no enviados se persisten en localStorage, un outbox por pestaña
+ *   (`app_logs_outbox:<sessionId>`); la pestaña líder (tab-sync) recupera y envía
+ *   los outbox de pestañas cerradas, así dos pestañas nunca envían el mismo lote
+ * - Al ocultar/cerrar la página se vacía la cola con `navigator.sendBeacon`
+ *
+ * Usa `fetch` directo (no HttpHelper): HttpHelper registra cada petición en el
+ * Logger y el transporte terminaría enviando sus propios logs en bucle.
+ *
+ * @example
+ * ```typescript
+ * // Al iniciar la app (no-op si no hay endpoint configurado)
+ * installRemoteLogTransport();
+ *
+ * // Forzar envío (p.ej. antes de un logout)
+ * await flushRemoteLogs();
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import {
+  addLogObserver,
+  removeLogObserver,
+  logInfo,
+  logWarning,
+  type AppEnvironment,
+  type LogEntry,
+  type LogLevelName,
+  type LogObserver
+} from './logger.helper';
+import { EncryptHelper } from '../encrypt/encrypt.helper';
+import { APP_ENVIRONMENT, LOG_SHIPPING_URL } from '../../config/env.config';
+import runtimeConfig from '../../config/runtime.config';
+import { isLeaderTab } from '../tab-sync/tab-sync.helper';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Probabilidad (0-1) de enviar una entrada por nivel
+ */
+export type LogSamplingRates = Record<LogLevelName, number>;
+
+/**
+ * Lote de entradas pendiente de envío
+ */
+export interface RemoteLogBatch {
+  id: string;
+  entries: LogEntry[];
+  attempts: number;
+  /** Timestamp (ms) a partir del cual puede reintentarse */
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+/**
+ * Configuración del transporte remoto
+ */
+export interface RemoteLogTransportConfig {
+  /** URL de ingesta; vacío deshabilita el transporte */
+  endpoint: string;
+  environment: AppEnvironment;
+  /** Entradas por lote */
+  batchSize: number;
+  /** Intervalo (ms) de envío de lotes incompletos */
+  flushInterval: number;
+  /** Máximo de entradas sin agrupar (se descartan las más antiguas) */
+  maxQueueSize: number;
+  /** Máximo de lotes persistidos (se descartan los más antiguos) */
+  maxPendingBatches: number;
+  /** Backoff inicial (ms) tras un envío fallido */
+  baseBackoff: number;
+  /** Backoff máximo (ms) */
+  maxBackoff: number;
+  /** Sobrescribe el muestreo del ambiente */
+  sampling?: Partial<LogSamplingRates>;
+  /** Prefijo del outbox en localStorage (se le agrega el id de la pestaña) */
+  storageKey: string;
+}
+
+/**
+ * Outbox persistido por una pestaña
+ */
+interface PersistedOutbox {
+  /** Timestamp (ms) de la última escritura; una pestaña viva lo renueva en cada flush */
+  updatedAt: number;
+  batches: RemoteLogBatch[];
+}
+
+/**
+ * Estado observable del transporte (debug)
+ */
+export interface RemoteLogTransportStats {
+  installed: boolean;
+  queued: number;
+  pendingBatches: number;
+  sent: number;
+  dropped: number;
+  sampledOut: number;
+  lastError: string | null;
+}
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+/**
+ * Muestreo por ambiente
+ * CRITICAL y ERROR siempre se envían; el resto se reduce conforme sube el volumen
+ */
+const ENVIRONMENT_SAMPLING: Record<AppEnvironment, LogSamplingRates> = {
+  development: { VERBOSE: 0, DEBUG: 0, INFO: 0, WARN: 0, ERROR: 1, CRITICAL: 1 },
+  staging: { VERBOSE: 0, DEBUG: 0.05, INFO: 0.25, WARN: 1, ERROR: 1, CRITICAL: 1 },
+  production: { VERBOSE: 0, DEBUG: 0, INFO: 0.05, WARN: 0.5, ERROR: 1, CRITICAL: 1 }
+};
+
+const DEFAULT_REMOTE_LOG_CONFIG: RemoteLogTransportConfig = {
+  endpoint: LOG_SHIPPING_URL,
+  environment: APP_ENVIRONMENT,
+  batchSize: 20,
+  flushInterval: 15000, // 15 segundos
+  maxQueueSize: 500,
+  maxPendingBatches: 25,
+  baseBackoff: 2000, // 2 segundos
+  maxBackoff: 5 * 60 * 1000, // 5 minutos
+  storageKey: 'app_logs_outbox'
+};
+
+/** Módulo propio: sus entradas nunca se envían (evita bucles) */
+const TRANSPORT_MODULE = 'RemoteLogTransport';
+
+/** Estados que indican fallo transitorio (se reintenta aunque sean 4xx) */
+const RETRYABLE_STATUS_CODES = [408, 425, 429];
+
+/** Sin escrituras en este tiempo el outbox de otra pestaña se considera abandonado */
+const ORPHAN_OUTBOX_AGE = 5 * 60 * 1000; // 5 minutos (cubre timers ralentizados en pestañas ocultas)
+
+/** Tokens JWT incrustados en mensajes de texto */
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+const REDACTED = '***REDACTED***';
+
+// =====================================================
+// CLASE PRINCIPAL
+// =====================================================
+
+/**
+ * Transporte remoto de logs
+ * Implementa patrón Singleton; se conecta al Logger como LogObserver
+ */
+class RemoteLogTransport {
+  private static instance: RemoteLogTransport;
+  private config: RemoteLogTransportConfig;
+  private queue: LogEntry[] = [];
+  private pending: RemoteLogBatch[] = [];
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private sending = false;
+  private installed = false;
+  private readonly sessionId = this.generateId('session');
+
+  private stats = {
+    sent: 0,
+    dropped: 0,
+    sampledOut: 0,
+    lastError: null as string | null
+  };
+
+  private readonly observer: LogObserver = {
+    onLog: (entry) => this.enqueue(entry)
+  };
+
+  private readonly handlePageHide = (): void => {
+    this.flushWithBeacon();
+  };
+
+  private readonly handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.flushWithBeacon();
+    }
+  };
+
+  private readonly handleOnline = (): void => {
+    // La red regresó: no esperar el backoff acumulado
+    this.pending.forEach(batch => {
+      batch.nextAttemptAt = 0;
+    });
+    void this.flush();
+  };
+
+  private constructor(config?: Partial<RemoteLogTransportConfig>) {
+    this.config = { ...DEFAULT_REMOTE_LOG_CONFIG, ...config };
+  }
+
+  public static getInstance(config?: Partial<RemoteLogTransportConfig>): RemoteLogTransport {
+    if (!RemoteLogTransport.instance) {
+      RemoteLogTransport.instance = new RemoteLogTransport(config);
+    } else if (config) {
+      RemoteLogTransport.instance.updateConfig(config);
+    }
+    return RemoteLogTransport.instance;
+  }
+
+  public updateConfig(newConfig: Partial<RemoteLogTransportConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+
+    if (this.installed && newConfig.flushInterval !== undefined) {
+      this.startTimer();
+    }
+  }
+
+  /**
+   * Conecta el transporte al Logger
+   * Idempotente; no hace nada si no hay endpoint configurado
+   */
+  public install(config?: Partial<RemoteLogTransportConfig>): void {
+    if (config) {
+      this.updateConfig(config);
+    }
+
+    if (this.installed || typeof window === 'undefined') {
+      return;
+    }
+
+    if (!this.config.endpoint) {
+      logInfo(TRANSPORT_MODULE, 'Envío remoto de logs deshabilitado (sin endpoint configurado)');
+      return;
+    }
+
+    this.installed = true;
+    this.adoptOrphanedOutboxes();
+
+    addLogObserver(this.observer);
+    window.addEventListener('pagehide', this.handlePageHide);
+    window.addEventListener('online', this.handleOnline);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.startTimer();
+
+    logInfo(TRANSPORT_MODULE, 'Envío remoto de logs activo', {
+      environment: this.config.environment,
+      pendingBatches: this.pending.length
+    });
+
+    // Reintentar lo que quedó de pestañas cerradas
+    if (this.pending.length > 0) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Desconecta el transporte (conserva lo persistido para la próxima carga)
+   */
+  public uninstall(): void {
+    if (!this.installed) {
+      return;
+    }
+
+    this.installed = false;
+    removeLogObserver(this.observer);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    window.removeEventListener('online', this.handleOnline);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.sealQueue();
+    this.persist();
+  }
+
+  /**
+   * Agrupa la cola y envía los lotes cuyo backoff ya venció (uno a la vez, en orden)
+   */
+  public async flush(): Promise<void> {
+    if (!this.installed || this.sending) {
+      return;
+    }
+
+    this.adoptOrphanedOutboxes();
+    this.sealQueue();
+    this.sending = true;
+
+    try {
+      while (this.pending.length > 0) {
+        const batch = this.pending[0];
+        if (batch.nextAttemptAt > Date.now()) {
+          break;
+        }
+
+        const delivered = await this.send(batch);
+        if (!delivered) {
+          break;
+        }
+
+        this.pending.shift();
+      }
+    } finally {
+      this.sending = false;
+      this.persist();
+    }
+  }
+
+  public getStats(): RemoteLogTransportStats {
+    return {
+      installed: this.installed,
+      queued: this.queue.length,
+      pendingBatches: this.pending.length,
+      ...this.stats
+    };
+  }
+
+  // =====================================================
+  // PRIVADOS
+  // =====================================================
+
+  private enqueue(entry: LogEntry): void {
+    if (entry.module === TRANSPORT_MODULE) {
+      return;
+    }
+
+    const rate = this.getSamplingRate(entry.levelName);
+    if (rate <= 0 || Math.random() >= rate) {
+      this.stats.sampledOut++;
+      return;
+    }
+
+    this.queue.push(this.redact(entry));
+
+    if (this.queue.length > this.config.maxQueueSize) {
+      this.queue.splice(0, this.queue.length - this.config.maxQueueSize);
+      this.stats.dropped++;
+    }
+
+    if (this.queue.length >= this.config.batchSize) {
+      void this.flush();
+    } else if (entry.levelName === 'ERROR' || entry.levelName === 'CRITICAL') {
+      // No perder errores si la pestaña se cae antes del próximo flush
+      this.persist();
+    }
+  }
+
+  private getSamplingRate(level: LogLevelName): number {
+    const rates = { ...ENVIRONMENT_SAMPLING[this.config.environment], ...this.config.sampling };
+    return rates[level] ?? 0;
+  }
+
+  /**
+   * Redacta campos sensibles (data y stack) y tokens incrustados en el mensaje
+   */
+  private redact(entry: LogEntry): LogEntry {
+    const encryptHelper = EncryptHelper.getInstance();
+
+    return {
+      ...entry,
+      message: entry.message.replace(JWT_PATTERN, REDACTED),
+      data: entry.data !== undefined
+        ? encryptHelper.sanitizeForLogging(entry.data, { showPartial: 0, replacement: REDACTED })
+        : undefined,
+      stackTrace: entry.stackTrace?.replace(JWT_PATTERN, REDACTED)
+    };
+  }
+
+  /**
+   * Convierte la cola en lotes pendientes
+   */
+  private sealQueue(): void {
+    while (this.queue.length > 0) {
+      const entries = this.queue.splice(0, this.config.batchSize);
+      this.pending.push({
+        id: this.generateId('batch'),
+        entries,
+        attempts: 0,
+        nextAttemptAt: 0,
+        createdAt: Date.now()
+      });
+    }
+
+    if (this.pending.length > this.config.maxPendingBatches) {
+      const overflow = this.pending.splice(0, this.pending.length - this.config.maxPendingBatches);
+      this.stats.dropped += overflow.reduce((total, batch) => total + batch.entries.length, 0);
+    }
+  }
+
+  /**
+   * Envía un lote
+   * @returns true si el lote salió de la cola (entregado o descartado)
+   */
+  private async send(batch: RemoteLogBatch): Promise<boolean> {
+    try {
+      const response = await fetch(this.config.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: this.serialize([batch]),
+        keepalive: true
+      });
+
+      if (response.ok) {
+        this.stats.sent += batch.entries.length;
+        return true;
+      }
+
+      if (response.status < 500 && !RETRYABLE_STATUS_CODES.includes(response.status)) {
+        // El endpoint rechazó el formato: reintentar no cambiaría el resultado
+        this.stats.dropped += batch.entries.length;
+        this.stats.lastError = `HTTP ${response.status}: lote descartado`;
+        return true;
+      }
+
+      this.scheduleRetry(batch, `HTTP ${response.status}`);
+      return false;
+
+    } catch (error) {
+      this.scheduleRetry(batch, error instanceof Error ? error.message : 'Error de red');
+      return false;
+    }
+  }
+
+  private scheduleRetry(batch: RemoteLogBatch, reason: string): void {
+    batch.attempts++;
+    const backoff = Math.min(
+      this.config.maxBackoff,
+      this.config.baseBackoff * Math.pow(2, batch.attempts - 1)
+    );
+    // Jitter de ±20% para que varias pestañas no reintenten al mismo tiempo
+    batch.nextAttemptAt = Date.now() + backoff * (0.8 + Math.random() * 0.4);
+    this.stats.lastError = reason;
+  }
+
+  /**
+   * Vacía cola y lotes con sendBeacon (la página se está ocultando o cerrando)
+   * Lo que el navegador no acepte queda persistido para la próxima carga
+   */
+  private flushWithBeacon(): void {
+    if (!this.installed) {
+      return;
+    }
+
+    this.sealQueue();
+
+    if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      while (this.pending.length > 0) {
+        const batch = this.pending[0];
+        const blob = new Blob([this.serialize([batch])], { type: 'application/json' });
+
+        // false = excede el límite del navegador (~64KB) o la cola de beacons está llena
+        if (!navigator.sendBeacon(this.config.endpoint, blob)) {
+          break;
+        }
+
+        this.stats.sent += batch.entries.length;
+        this.pending.shift();
+      }
+    }
+
+    this.persist();
+  }
+
+  private serialize(batches: RemoteLogBatch[]): string {
+    return JSON.stringify({
+      app: runtimeConfig.appName,
+      version: runtimeConfig.appVersion,
+      environment: this.config.environment,
+      sessionId: this.sessionId,
+      url: typeof window !== 'undefined' ? window.location.pathname : undefined,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      sentAt: new Date().toISOString(),
+      entries: batches.flatMap(batch => batch.entries)
+    });
+  }
+
+  private startTimer(): void {
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+    }
+    this.flushTimer = setInterval(() => void this.flush(), this.config.flushInterval);
+  }
+
+  private get outboxKey(): string {
+    return `${this.config.storageKey}:${this.sessionId}`;
+  }
+
+  private persist(): void {
+    try {
+      const snapshot = [...this.pending];
+      if (this.queue.length > 0) {
+        snapshot.push({
+          id: this.generateId('batch'),
+          entries: [...this.queue],
+          attempts: 0,
+          nextAttemptAt: 0,
+          createdAt: Date.now()
+        });
+      }
+
+      if (snapshot.length === 0) {
+        localStorage.removeItem(this.outboxKey);
+      } else {
+        const outbox: PersistedOutbox = { updatedAt: Date.now(), batches: snapshot };
+        localStorage.setItem(this.outboxKey, JSON.stringify(outbox));
+      }
+    } catch (error) {
+      logWarning(TRANSPORT_MODULE, 'No se pudieron persistir los logs pendientes', {
+        error: error instanceof Error ? error.message : 'unknown'
+      });
+    }
+  }
+
+  /**
+   * Recupera los outbox de pestañas cerradas (y el outbox compartido de versiones anteriores)
+   * Solo la pestaña líder lo hace: dos pestañas no pueden adoptar el mismo lote
+   */
+  private adoptOrphanedOutboxes(): void {
+    if (!isLeaderTab()) {
+      return;
+    }
+
+    const prefix = `${this.config.storageKey}:`;
+    const restored: RemoteLogBatch[] = [];
+
+    try {
+      const keys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && key !== this.outboxKey && (key === this.config.storageKey || key.startsWith(prefix))) {
+          keys.push(key);
+        }
+      }
+
+      keys.forEach(key => {
+        const outbox = this.readOutbox(key);
+        if (outbox && Date.now() - outbox.updatedAt < ORPHAN_OUTBOX_AGE) {
+          return;
+        }
+
+        localStorage.removeItem(key);
+
+        // Los lotes restaurados se reintentan de inmediato
+        (outbox?.batches ?? [])
+          .filter(batch => batch && Array.isArray(batch.entries) && batch.entries.length > 0)
+          .forEach(batch => restored.push({ ...batch, nextAttemptAt: 0 }));
+      });
+    } catch (error) {
+      logWarning(TRANSPORT_MODULE, 'No se pudieron recuperar los logs de otras pestañas', {
+        error: error instanceof Error ? error.message : 'unknown'
+      });
+    }
+
+    if (restored.length === 0) {
+      return;
+    }
+
+    this.pending = [...restored, ...this.pending].slice(-this.config.maxPendingBatches);
+    this.persist();
+
+    logInfo(TRANSPORT_MODULE, 'Logs pendientes de pestañas cerradas recuperados', {
+      batches: restored.length
+    });
+  }
+
+  /**
+   * Lee un outbox persistido; null si está corrupto
+   * El formato anterior (arreglo de lotes, sin pestaña) se trata como abandonado
+   */
+  private readOutbox(key: string): PersistedOutbox | null {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) ?? 'null') as unknown;
+
+      if (Array.isArray(parsed)) {
+        return { updatedAt: 0, batches: parsed as RemoteLogBatch[] };
+      }
+
+      const outbox = parsed as Partial<PersistedOutbox> | null;
+      if (outbox && typeof outbox.updatedAt === 'number' && Array.isArray(outbox.batches)) {
+        return { updatedAt: outbox.updatedAt, batches: outbox.batches };
+      }
+    } catch {
+      // JSON corrupto
+    }
+    return null;
+  }
+
+  private generateId(prefix: string): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return `${prefix}_${crypto.randomUUID()}`;
+    }
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
+
+// Instancia por defecto
+const remoteLogTransport = RemoteLogTransport.getInstance();
+
+// =====================================================
+// FUNCIONES HELPER PARA USO DIRECTO
+// =====================================================
+
+/**
+ * Conecta el transporte al Logger (llamar una vez al iniciar la app)
+ */
+export const installRemoteLogTransport = (config?: Partial<RemoteLogTransportConfig>): void =>
+  remoteLogTransport.install(config);
+
+/**
+ * Desconecta el transporte del Logger
+ */
+export const uninstallRemoteLogTransport = (): void =>
+  remoteLogTransport.uninstall();
+
+export const flushRemoteLogs = (): Promise<void> =>
+  remoteLogTransport.flush();
+
+export const getRemoteLogTransportStats = (): RemoteLogTransportStats =>
+  remoteLogTransport.getStats();
+
+// Exportaciones
+export { RemoteLogTransport, remoteLogTransport };
+export default remoteLogTransport;
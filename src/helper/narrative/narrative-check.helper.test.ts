@@ -0,0 +1,124 @@
+/**
+ * Tests para Narrative Check Helper
+ *
+ * Valida la extracción de fechas/horas, el contraste con los datos
+ * estructurados (fechas, lugar, detenidos, uso de la fuerza) y el puntaje.
+ *
+ * @module NarrativeCheckHelperTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkNarrative,
+  extractNarrativeDates,
+  extractNarrativeTimes,
+  getNarrativeCompletenessLevel,
+  type NarrativeCheckInput
+} from './narrative-check.helper';
+
+const NARRATIVA_COMPLETA = [
+  'Siendo las 14:30 horas del día 12 de marzo de 2026, al realizar recorrido de vigilancia sobre la calle',
+  'Francisco Villa en la colonia Centro, observamos a una persona del sexo masculino que corría con una mochila.',
+  'Acto seguido le marcamos el alto y se identificó como Juan Pérez López, quien manifestó haber tomado la mochila',
+  'de un vehículo estacionado. Posteriormente se realizó la inspección de la mochila encontrando diversas',
+  'herramientas, por lo que se procedió a su detención, se le dio lectura de sus derechos y se trasladó a la',
+  'agencia del ministerio público para su puesta a disposición junto con los objetos asegurados en el lugar.'
+].join(' ');
+
+const input = (overrides: Partial<NarrativeCheckInput> = {}): NarrativeCheckInput => ({
+  narrativa: NARRATIVA_COMPLETA,
+  fechas: [{ label: 'Conocimiento del hecho', value: '2026-03-12T14:20:00' }],
+  lugar: { calle: 'Calle Francisco Villa', colonia: 'Centro' },
+  detenidos: ['Juan Pérez López'],
+  ...overrides
+});
+
+const findCheck = (result: ReturnType<typeof checkNarrative>, id: string) =>
+  result.checks.find(check => check.id === id);
+
+describe('extractNarrativeDates', () => {
+  it('reconoce formatos numéricos y escritos', () => {
+    const dates = extractNarrativeDates('El 12/03/2026, luego 2026-03-13 y el 14 de marzo', 2026);
+    expect(dates.map(d => d.date.getDate())).toEqual([12, 13, 14]);
+  });
+
+  it('descarta fechas imposibles', () => {
+    expect(extractNarrativeDates('el 31/02/2026')).toHaveLength(0);
+  });
+});
+
+describe('extractNarrativeTimes', () => {
+  it('reconoce horas con y sin minutos', () => {
+    const times = extractNarrativeTimes('a las 14:30 horas, luego 16 hrs y 09.15 horas');
+    expect(times.map(t => t.minutes)).toEqual([870, 960, 555]);
+  });
+
+  it('no confunde números sueltos con horas', () => {
+    expect(extractNarrativeTimes('medía 1.75 metros y tenía 25 años')).toHaveLength(0);
+  });
+});
+
+describe('checkNarrative', () => {
+  it('narrativa consistente obtiene puntaje completo', () => {
+    const result = checkNarrative(input());
+    expect(result.issues).toBe(0);
+    expect(result.score).toBe(100);
+    expect(result.level).toBe('completa');
+    expect(result.highlights.length).toBeGreaterThan(0);
+  });
+
+  it('marca como contradictoria una fecha distinta a la registrada', () => {
+    const result = checkNarrative(input({ fechas: [{ label: 'Conocimiento del hecho', value: '2026-03-15T14:20:00' }] }));
+    expect(findCheck(result, 'cuando-fecha')?.status).toBe('contradictorio');
+    expect(result.highlights.some(h => h.kind === 'contradiccion')).toBe(true);
+  });
+
+  it('interpreta las fechas sin hora en horario local', () => {
+    const result = checkNarrative(input({ fechas: [{ label: 'Conocimiento del hecho', value: '2026-03-12' }] }));
+    expect(findCheck(result, 'cuando-fecha')?.status).toBe('ok');
+  });
+
+  it('marca la hora fuera de tolerancia como contradictoria', () => {
+    const result = checkNarrative(input({ fechas: [{ label: 'Conocimiento del hecho', value: '2026-03-12T20:00:00' }] }));
+    expect(findCheck(result, 'cuando-hora')?.status).toBe('contradictorio');
+  });
+
+  it('detecta detenidos que no se mencionan', () => {
+    const result = checkNarrative(input({ detenidos: ['Juan Pérez López', 'María Gómez Ruiz'] }));
+    expect(findCheck(result, 'quien-detenido-0')?.status).toBe('ok');
+    expect(findCheck(result, 'quien-detenido-1')?.status).toBe('faltante');
+  });
+
+  it('detecta calle no mencionada', () => {
+    const result = checkNarrative(input({ lugar: { calle: 'Avenida Insurgentes Sur' } }));
+    expect(findCheck(result, 'donde-calle')?.status).toBe('faltante');
+  });
+
+  it('uso de la fuerza registrado pero no narrado queda como faltante', () => {
+    const result = checkNarrative(input({ usoFuerza: { reduccionMovimiento: true } }));
+    expect(findCheck(result, 'como-reduccionMovimiento')?.status).toBe('faltante');
+  });
+
+  it('arma letal narrada pero registrada como "No" es contradictoria', () => {
+    const result = checkNarrative(input({
+      narrativa: `${NARRATIVA_COMPLETA} Durante la persecución se realizaron dos disparos.`,
+      usoFuerza: { armaLetal: false }
+    }));
+    expect(findCheck(result, 'como-armaLetal')?.status).toBe('contradictorio');
+  });
+
+  it('narrativa vacía obtiene 0', () => {
+    const result = checkNarrative(input({ narrativa: '' }));
+    expect(result.score).toBe(0);
+    expect(result.level).toBe('incompleta');
+  });
+});
+
+describe('getNarrativeCompletenessLevel', () => {
+  it('respeta los umbrales', () => {
+    expect(getNarrativeCompletenessLevel(90)).toBe('completa');
+    expect(getNarrativeCompletenessLevel(70)).toBe('parcial');
+    expect(getNarrativeCompletenessLevel(30)).toBe('incompleta');
+  });
+});
@@ -0,0 +1,612 @@
+/**
+ * Narrative Check Helper - Completitud y consistencia de la narrativa del IPH
+ *
+ * Revisa con reglas simples que la narrativa responda quién / qué / cuándo /
+ * dónde / cómo y la contrasta con los datos estructurados del IPH:
+ * - Fechas y horas del conocimiento del hecho y del arribo
+ * - Calle y colonia del lugar de la intervención
+ * - Nombres de los detenidos
+ * - Indicadores del informe del uso de la fuerza
+ *
+ * Cada regla devuelve un estado (ok / faltante / contradictorio) y los
+ * fragmentos de la narrativa que la sustentan, para resaltarlos en pantalla.
+ * El puntaje es la proporción (ponderada) de reglas cumplidas.
+ *
+ * @example
+ * ```typescript
+ * const result = checkNarrative(input);
+ * if (result.level === 'incompleta') mostrarPendientes(result.checks);
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { normalizeForMatching } from '../duplicates/duplicate-detection.helper';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type NarrativeElement = 'quien' | 'que' | 'cuando' | 'donde' | 'como';
+
+export type NarrativeCheckStatus = 'ok' | 'faltante' | 'contradictorio';
+
+export type NarrativeCompletenessLevel = 'completa' | 'parcial' | 'incompleta';
+
+/**
+ * Fragmento de la narrativa (posiciones sobre el texto original)
+ */
+export interface NarrativeHighlight {
+  start: number;
+  end: number;
+  kind: 'evidencia' | 'contradiccion';
+  checkId: string;
+}
+
+export interface NarrativeCheck {
+  id: string;
+  element: NarrativeElement;
+  label: string;
+  status: NarrativeCheckStatus;
+  detail: string;
+  weight: number;
+  highlights: NarrativeHighlight[];
+}
+
+/**
+ * Datos estructurados contra los que se revisa la narrativa
+ */
+export interface NarrativeCheckInput {
+  narrativa: string;
+  /** Fechas de referencia (conocimiento del hecho, arribo) tal como llegan del backend */
+  fechas: Array<{ label: string; value: string }>;
+  lugar: {
+    calle?: string;
+    colonia?: string;
+  };
+  detenidos: string[];
+  /** undefined si el IPH no tiene informe del uso de la fuerza */
+  usoFuerza?: {
+    reduccionMovimiento?: boolean;
+    armaNoLetal?: boolean;
+    armaLetal?: boolean;
+    asistenciaMedica?: boolean;
+    lesionados?: boolean;
+    fallecidos?: boolean;
+  };
+}
+
+export interface NarrativeCheckResult {
+  /** 0-100 */
+  score: number;
+  level: NarrativeCompletenessLevel;
+  checks: NarrativeCheck[];
+  /** Pendientes: reglas faltantes o contradictorias */
+  issues: number;
+  /** Fragmentos ordenados y sin traslapes */
+  highlights: NarrativeHighlight[];
+}
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+export const NARRATIVE_CHECK_CONFIG = {
+  /** Palabras mínimas para considerar que la narrativa describe el hecho */
+  minWords: 60,
+  /** Diferencia máxima entre la hora narrada y la registrada */
+  timeToleranceMinutes: 90,
+  /** Proporción de palabras de la calle / nombre que deben aparecer */
+  addressMatchRatio: 0.6,
+  thresholds: {
+    completa: 85,
+    parcial: 60
+  },
+  weights: {
+    extension: 2,
+    personas: 1,
+    detenido: 2,
+    fecha: 2,
+    hora: 1,
+    calle: 2,
+    colonia: 1,
+    secuencia: 1,
+    usoFuerza: 2
+  }
+} as const;
+
+export const NARRATIVE_ELEMENT_LABELS: Record<NarrativeElement, string> = {
+  quien: '¿Quién?',
+  que: '¿Qué?',
+  cuando: '¿Cuándo?',
+  donde: '¿Dónde?',
+  como: '¿Cómo?'
+};
+
+export const NARRATIVE_LEVEL_LABELS: Record<NarrativeCompletenessLevel, string> = {
+  completa: 'Completa',
+  parcial: 'Parcial',
+  incompleta: 'Incompleta'
+};
+
+const MONTHS = [
+  'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
+  'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'
+];
+
+/** Palabras que no identifican una calle o colonia */
+const ADDRESS_STOPWORDS = new Set([
+  'calle', 'avenida', 'av', 'ave', 'col', 'colonia', 'fracc', 'fraccionamiento', 'barrio',
+  'boulevard', 'blvd', 'privada', 'priv', 'andador', 'callejon', 'carretera', 'km',
+  'de', 'del', 'la', 'las', 'los', 'el', 'y', 'sin', 'numero', 'num', 'no', 'sn', 'esquina', 'esq'
+]);
+
+/** Términos (raíces) que indican personas en la narrativa */
+const PERSON_STEMS = [
+  'persona', 'sujeto', 'ciudadan', 'masculino', 'femenin', 'hombre', 'mujer', 'individuo',
+  'detenid', 'victima', 'denunciante', 'reportante', 'testigo', 'conductor', 'agraviad',
+  'probable', 'responsable', 'menor', 'senor', 'senora', 'quien', 'quienes'
+];
+
+/** Conectores que indican una secuencia de acciones (el "cómo") */
+const SEQUENCE_STEMS = [
+  'posteriorment', 'procedi', 'acto', 'seguido', 'despues', 'enseguida', 'inmediatament',
+  'motivo', 'llegar', 'arribar', 'arribo', 'realiz', 'solicit', 'observ', 'traslad', 'asegur'
+];
+
+type UsoFuerzaFlag = keyof NonNullable<NarrativeCheckInput['usoFuerza']>;
+
+const USO_FUERZA_RULES: Record<UsoFuerzaFlag, { label: string; stems: string[]; contradicts: boolean }> = {
+  reduccionMovimiento: {
+    label: 'Reducción física de movimientos',
+    stems: ['somet', 'reduc', 'inmoviliz', 'esposa', 'candado', 'control', 'forceje', 'sujet'],
+    contradicts: false
+  },
+  armaNoLetal: {
+    label: 'Uso de arma no letal',
+    stems: ['tolete', 'macana', 'pimienta', 'lacrimog', 'aerosol', 'taser', 'electrochoq', 'baston'],
+    contradicts: true
+  },
+  armaLetal: {
+    label: 'Uso de arma letal',
+    stems: ['dispar', 'deton', 'balazo'],
+    contradicts: true
+  },
+  asistenciaMedica: {
+    label: 'Asistencia médica',
+    stems: ['ambulancia', 'paramedic', 'medic', 'hospital', 'clinica', 'curacion', 'atendid'],
+    contradicts: false
+  },
+  lesionados: {
+    label: 'Personas lesionadas',
+    stems: ['lesion', 'herid', 'golpe', 'contusion', 'sangr'],
+    contradicts: false
+  },
+  fallecidos: {
+    label: 'Personas fallecidas',
+    stems: ['falleci', 'occiso', 'cadaver', 'muert', 'deceso'],
+    contradicts: true
+  }
+};
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+interface NarrativeToken {
+  start: number;
+  end: number;
+  word: string;
+}
+
+/**
+ * Palabras de la narrativa normalizadas, con su posición en el texto original
+ */
+const tokenize = (text: string): NarrativeToken[] => {
+  const tokens: NarrativeToken[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = normalizeForMatching(match[0]);
+    if (word) tokens.push({ start: match.index, end: match.index + match[0].length, word });
+  }
+  return tokens;
+};
+
+const significantWords = (text: string | undefined, stopwords?: Set<string>): string[] =>
+  normalizeForMatching(text ?? '')
+    .split(' ')
+    .filter(word => word.length >= 3 && !stopwords?.has(word));
+
+const highlightTokens = (
+  tokens: NarrativeToken[],
+  checkId: string,
+  kind: NarrativeHighlight['kind'] = 'evidencia'
+): NarrativeHighlight[] => tokens.map(token => ({ start: token.start, end: token.end, kind, checkId }));
+
+const findByStems = (tokens: NarrativeToken[], stems: readonly string[]): NarrativeToken[] =>
+  tokens.filter(token => stems.some(stem => token.word.startsWith(stem)));
+
+/**
+ * Busca las palabras en la narrativa; devuelve la proporción encontrada y
+ * las apariciones para resaltar
+ */
+const matchWords = (tokens: NarrativeToken[], words: string[]): { ratio: number; found: NarrativeToken[] } => {
+  const unique = [...new Set(words)];
+  if (unique.length === 0) return { ratio: 0, found: [] };
+  const found = tokens.filter(token => unique.includes(token.word));
+  const distinct = new Set(found.map(token => token.word));
+  return { ratio: distinct.size / unique.length, found };
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatDay = (date: Date): string =>
+  `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+
+const sameDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+const normalizeYear = (year: number): number => (year < 100 ? 2000 + year : year);
+
+interface NarrativeDate {
+  start: number;
+  end: number;
+  date: Date;
+}
+
+/**
+ * Fechas escritas en la narrativa: 12/03/2025, 12-03-25, 2025-03-12,
+ * "12 de marzo de 2025" y "12 de marzo" (se asume el año de referencia)
+ */
+export const extractNarrativeDates = (text: string, defaultYear = new Date().getFullYear()): NarrativeDate[] => {
+  const dates: NarrativeDate[] = [];
+  const push = (index: number, length: number, year: number, month: number, day: number) => {
+    const date = new Date(year, month, day);
+    if (date.getMonth() === month && date.getDate() === day) {
+      dates.push({ start: index, end: index + length, date });
+    }
+  };
+
+  for (const match of text.matchAll(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g)) {
+    push(match.index, match[0].length, Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  for (const match of text.matchAll(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/g)) {
+    push(match.index, match[0].length, normalizeYear(Number(match[3])), Number(match[2]) - 1, Number(match[1]));
+  }
+
+  const monthPattern = new RegExp(`\\b(\\d{1,2})\\s+de\\s+(${MONTHS.join('|')})(?:\\s+(?:de|del)\\s+(?:año\\s+)?(\\d{4}))?`, 'gi');
+  for (const match of text.matchAll(monthPattern)) {
+    const month = MONTHS.indexOf(match[2].toLowerCase());
+    push(match.index, match[0].length, match[3] ? Number(match[3]) : defaultYear, month, Number(match[1]));
+  }
+
+  return dates.sort((a, b) => a.start - b.start);
+};
+
+interface NarrativeTime {
+  start: number;
+  end: number;
+  /** Minutos desde la medianoche */
+  minutes: number;
+}
+
+/**
+ * Horas escritas en la narrativa: 14:30, 14:30 horas, 14.30 hrs, 14 horas
+ */
+export const extractNarrativeTimes = (text: string): NarrativeTime[] => {
+  const times: NarrativeTime[] = [];
+  const pattern = /\b([01]?\d|2[0-3])(?::([0-5]\d)(?:\s*(?:horas|hrs?|hs)\b)?|(?:\.([0-5]\d))?\s*(?:horas|hrs?|hs)\b)/gi;
+  for (const match of text.matchAll(pattern)) {
+    const minutes = Number(match[2] ?? match[3] ?? 0);
+    times.push({ start: match.index, end: match.index + match[0].length, minutes: Number(match[1]) * 60 + minutes });
+  }
+  return times;
+};
+
+const timeDistance = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % (24 * 60);
+  return Math.min(diff, 24 * 60 - diff);
+};
+
+const formatMinutes = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/**
+ * Fecha de referencia; "YYYY-MM-DD" se interpreta en hora local (con
+ * `new Date` sería medianoche UTC y podría caer en el día anterior)
+ */
+const parseReferenceDate = (value: string): Date => {
+  const dayOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  return dayOnly
+    ? new Date(Number(dayOnly[1]), Number(dayOnly[2]) - 1, Number(dayOnly[3]))
+    : new Date(value);
+};
+
+/** Las fechas sin hora (solo día) no sirven para comparar horas */
+const hasTimeComponent = (value: string): boolean => /\d{1,2}:\d{2}/.test(value);
+
+// =====================================================
+// REGLAS
+// =====================================================
+
+const { weights } = NARRATIVE_CHECK_CONFIG;
+
+const checkExtension = (tokens: NarrativeToken[]): NarrativeCheck => {
+  const ok = tokens.length >= NARRATIVE_CHECK_CONFIG.minWords;
+  return {
+    id: 'que-extension',
+    element: 'que',
+    label: 'Descripción de los hechos',
+    status: ok ? 'ok' : 'faltante',
+    detail: ok
+      ? `${tokens.length} palabras`
+      : `Solo ${tokens.length} palabras; se esperan al menos ${NARRATIVE_CHECK_CONFIG.minWords}`,
+    weight: weights.extension,
+    highlights: []
+  };
+};
+
+const checkPersonas = (tokens: NarrativeToken[]): NarrativeCheck => {
+  const found = findByStems(tokens, PERSON_STEMS);
+  return {
+    id: 'quien-personas',
+    element: 'quien',
+    label: 'Personas involucradas',
+    status: found.length > 0 ? 'ok' : 'faltante',
+    detail: found.length > 0
+      ? 'La narrativa identifica a las personas involucradas'
+      : 'No se identifica a ninguna persona involucrada',
+    weight: weights.personas,
+    highlights: highlightTokens(found.slice(0, 5), 'quien-personas')
+  };
+};
+
+const checkDetenidos = (tokens: NarrativeToken[], detenidos: string[]): NarrativeCheck[] =>
+  detenidos
+    .filter(nombre => nombre.trim())
+    .map((nombre, index) => {
+      const id = `quien-detenido-${index}`;
+      const { ratio, found } = matchWords(tokens, significantWords(nombre));
+      const ok = ratio >= NARRATIVE_CHECK_CONFIG.addressMatchRatio;
+      return {
+        id,
+        element: 'quien' as const,
+        label: `Detenido: ${nombre}`,
+        status: ok ? 'ok' as const : 'faltante' as const,
+        detail: ok
+          ? 'Mencionado en la narrativa'
+          : found.length > 0
+            ? 'Solo se menciona parte del nombre registrado en el Anexo A'
+            : 'No se menciona al detenido registrado en el Anexo A',
+        weight: weights.detenido,
+        highlights: ok ? highlightTokens(found, id) : []
+      };
+    });
+
+const checkFecha = (text: string, fechas: NarrativeCheckInput['fechas']): NarrativeCheck => {
+  const id = 'cuando-fecha';
+  const references = fechas
+    .map(fecha => ({ ...fecha, date: parseReferenceDate(fecha.value) }))
+    .filter(fecha => !Number.isNaN(fecha.date.getTime()));
+  const defaultYear = references[0]?.date.getFullYear();
+  const mentioned = extractNarrativeDates(text, defaultYear);
+  const base = { id, element: 'cuando' as const, label: 'Fecha de los hechos', weight: weights.fecha };
+
+  if (mentioned.length === 0) {
+    return { ...base, status: 'faltante', detail: 'La narrativa no indica la fecha de los hechos', highlights: [] };
+  }
+
+  if (references.length === 0) {
+    return {
+      ...base,
+      status: 'ok',
+      detail: `Menciona ${formatDay(mentioned[0].date)} (sin fecha registrada para contrastar)`,
+      highlights: mentioned.map(date => ({ start: date.start, end: date.end, kind: 'evidencia' as const, checkId: id }))
+    };
+  }
+
+  const matching = mentioned.filter(date => references.some(ref => sameDay(ref.date, date.date)));
+  if (matching.length > 0) {
+    return {
+      ...base,
+      status: 'ok',
+      detail: `Coincide con ${references.find(ref => sameDay(ref.date, matching[0].date))?.label.toLowerCase()}`,
+      highlights: matching.map(date => ({ start: date.start, end: date.end, kind: 'evidencia' as const, checkId: id }))
+    };
+  }
+
+  return {
+    ...base,
+    status: 'contradictorio',
+    detail: `La narrativa menciona ${formatDay(mentioned[0].date)}; ${references[0].label.toLowerCase()}: ${formatDay(references[0].date)}`,
+    highlights: mentioned.map(date => ({ start: date.start, end: date.end, kind: 'contradiccion' as const, checkId: id }))
+  };
+};
+
+const checkHora = (text: string, fechas: NarrativeCheckInput['fechas']): NarrativeCheck => {
+  const id = 'cuando-hora';
+  const references = fechas
+    .filter(fecha => hasTimeComponent(fecha.value))
+    .map(fecha => ({ ...fecha, date: parseReferenceDate(fecha.value) }))
+    .filter(fecha => !Number.isNaN(fecha.date.getTime()))
+    .map(fecha => ({ label: fecha.label, minutes: fecha.date.getHours() * 60 + fecha.date.getMinutes() }));
+  const mentioned = extractNarrativeTimes(text);
+  const base = { id, element: 'cuando' as const, label: 'Hora de los hechos', weight: weights.hora };
+
+  if (mentioned.length === 0) {
+    return { ...base, status: 'faltante', detail: 'La narrativa no indica la hora de los hechos', highlights: [] };
+  }
+
+  const toHighlight = (times: NarrativeTime[], kind: NarrativeHighlight['kind']) =>
+    times.map(time => ({ start: time.start, end: time.end, kind, checkId: id }));
+
+  if (references.length === 0) {
+    return { ...base, status: 'ok', detail: `Menciona las ${formatMinutes(mentioned[0].minutes)}`, highlights: toHighlight(mentioned, 'evidencia') };
+  }
+
+  const matching = mentioned.filter(time =>
+    references.some(ref => timeDistance(ref.minutes, time.minutes) <= NARRATIVE_CHECK_CONFIG.timeToleranceMinutes)
+  );
+  if (matching.length > 0) {
+    return { ...base, status: 'ok', detail: `Coincide con la hora registrada`, highlights: toHighlight(matching, 'evidencia') };
+  }
+
+  return {
+    ...base,
+    status: 'contradictorio',
+    detail: `La narrativa menciona las ${formatMinutes(mentioned[0].minutes)}; ${references[0].label.toLowerCase()}: ${formatMinutes(references[0].minutes)}`,
+    highlights: toHighlight(mentioned, 'contradiccion')
+  };
+};
+
+const checkLugar = (tokens: NarrativeToken[], lugar: NarrativeCheckInput['lugar']): NarrativeCheck[] => {
+  const checks: NarrativeCheck[] = [];
+  const entries = [
+    { id: 'donde-calle', label: 'Calle del lugar de la intervención', value: lugar.calle, weight: weights.calle },
+    { id: 'donde-colonia', label: 'Colonia del lugar de la intervención', value: lugar.colonia, weight: weights.colonia }
+  ];
+
+  for (const entry of entries) {
+    const words = significantWords(entry.value, ADDRESS_STOPWORDS);
+    if (words.length === 0) continue;
+    const { ratio, found } = matchWords(tokens, words);
+    const ok = ratio >= NARRATIVE_CHECK_CONFIG.addressMatchRatio;
+    checks.push({
+      id: entry.id,
+      element: 'donde',
+      label: entry.label,
+      status: ok ? 'ok' : 'faltante',
+      detail: ok ? `Menciona "${entry.value}"` : `No se menciona "${entry.value}"`,
+      weight: entry.weight,
+      highlights: ok ? highlightTokens(found, entry.id) : []
+    });
+  }
+
+  // Sin dirección registrada: basta con que la narrativa describa un lugar
+  if (checks.length === 0) {
+    const found = findByStems(tokens, ['calle', 'avenida', 'colonia', 'domicilio', 'esquina', 'cruce', 'carretera', 'kilometro']);
+    checks.push({
+      id: 'donde-calle',
+      element: 'donde',
+      label: 'Lugar de los hechos',
+      status: found.length > 0 ? 'ok' : 'faltante',
+      detail: found.length > 0 ? 'La narrativa describe el lugar' : 'La narrativa no indica dónde ocurrieron los hechos',
+      weight: weights.calle,
+      highlights: highlightTokens(found.slice(0, 3), 'donde-calle')
+    });
+  }
+
+  return checks;
+};
+
+const checkSecuencia = (tokens: NarrativeToken[]): NarrativeCheck => {
+  const found = findByStems(tokens, SEQUENCE_STEMS);
+  return {
+    id: 'como-secuencia',
+    element: 'como',
+    label: 'Secuencia de la actuación',
+    status: found.length > 0 ? 'ok' : 'faltante',
+    detail: found.length > 0
+      ? 'Describe la secuencia de acciones'
+      : 'No se describe cómo se desarrolló la intervención',
+    weight: weights.secuencia,
+    highlights: []
+  };
+};
+
+const checkUsoFuerza = (tokens: NarrativeToken[], usoFuerza: NarrativeCheckInput['usoFuerza']): NarrativeCheck[] => {
+  if (!usoFuerza) return [];
+
+  const checks: NarrativeCheck[] = [];
+  for (const [flag, rule] of Object.entries(USO_FUERZA_RULES) as Array<[UsoFuerzaFlag, typeof USO_FUERZA_RULES[UsoFuerzaFlag]]>) {
+    const value = usoFuerza[flag];
+    if (value === undefined) continue;
+
+    const id = `como-${flag}`;
+    const found = findByStems(tokens, rule.stems);
+
+    if (value) {
+      checks.push({
+        id,
+        element: 'como',
+        label: rule.label,
+        status: found.length > 0 ? 'ok' : 'faltante',
+        detail: found.length > 0
+          ? 'Registrado en el Anexo B y descrito en la narrativa'
+          : 'Registrado en el Anexo B pero no se describe en la narrativa',
+        weight: weights.usoFuerza,
+        highlights: highlightTokens(found, id)
+      });
+    } else if (rule.contradicts && found.length > 0) {
+      checks.push({
+        id,
+        element: 'como',
+        label: rule.label,
+        status: 'contradictorio',
+        detail: 'La narrativa lo sugiere pero el Anexo B lo registra como "No"',
+        weight: weights.usoFuerza,
+        highlights: highlightTokens(found, id, 'contradiccion')
+      });
+    }
+  }
+
+  return checks;
+};
+
+/**
+ * Ordena los fragmentos y descarta los que se traslapan (gana el primero;
+ * las contradicciones tienen prioridad sobre la evidencia)
+ */
+const mergeHighlights = (checks: NarrativeCheck[]): NarrativeHighlight[] => {
+  const all = checks
+    .flatMap(check => check.highlights)
+    .sort((a, b) => a.start - b.start || (a.kind === b.kind ? 0 : a.kind === 'contradiccion' ? -1 : 1));
+
+  const merged: NarrativeHighlight[] = [];
+  for (const highlight of all) {
+    const last = merged[merged.length - 1];
+    if (last && highlight.start < last.end) continue;
+    merged.push(highlight);
+  }
+  return merged;
+};
+
+// =====================================================
+// API
+// =====================================================
+
+export const getNarrativeCompletenessLevel = (score: number): NarrativeCompletenessLevel => {
+  if (score >= NARRATIVE_CHECK_CONFIG.thresholds.completa) return 'completa';
+  if (score >= NARRATIVE_CHECK_CONFIG.thresholds.parcial) return 'parcial';
+  return 'incompleta';
+};
+
+/**
+ * Revisa la narrativa contra los datos estructurados del IPH
+ */
+export const checkNarrative = (input: NarrativeCheckInput): NarrativeCheckResult => {
+  const text = input.narrativa ?? '';
+  const tokens = tokenize(text);
+
+  const checks: NarrativeCheck[] = [
+    checkPersonas(tokens),
+    ...checkDetenidos(tokens, input.detenidos),
+    checkExtension(tokens),
+    checkFecha(text, input.fechas),
+    checkHora(text, input.fechas),
+    ...checkLugar(tokens, input.lugar),
+    checkSecuencia(tokens),
+    ...checkUsoFuerza(tokens, input.usoFuerza)
+  ];
+
+  const total = checks.reduce((sum, check) => sum + check.weight, 0);
+  const passed = checks.reduce((sum, check) => sum + (check.status === 'ok' ? check.weight : 0), 0);
+  const score = tokens.length === 0 || total === 0 ? 0 : Math.round((passed / total) * 100);
+
+  return {
+    score,
+    level: getNarrativeCompletenessLevel(score),
+    checks,
+    issues: checks.filter(check => check.status !== 'ok').length,
+    highlights: mergeHighlights(checks)
+  };
+};
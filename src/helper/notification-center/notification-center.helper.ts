@@ -0,0 +1,429 @@
+/**
+ * Notification Center Helper - Bandeja persistente de notificaciones
+ *
+ * A diferencia de `notification.helper.ts` (toasts transitorios), este helper
+ * mantiene un historial por usuario que sobrevive recargas:
+ * - Estado leído / no leído y contador de no leídas
+ * - Categorías (IPH asignado, cambio de estatus, reporte listo, sesión)
+ * - Enlace profundo opcional a una ruta (p.ej. `/iphoficial/:id`)
+ * - Deduplicación por `dedupeKey` (varias pestañas pueden recibir el mismo evento)
+ *
+ * Las notificaciones provienen de fuentes intercambiables (`NotificationSource`):
+ * hoy eventos locales y el stream de IPH; mañana un canal push del servidor
+ * solo requiere registrar otra fuente.
+ *
+ * Persistencia en localStorage con llave por usuario. Cada cambio se
+ * lee-modifica-escribe y se avisa a las demás pestañas vía tab-sync.
+ *
+ * @example
+ * ```typescript
+ * startNotificationCenter(userId);
+ * const unregister = registerNotificationSource(miFuente);
+ *
+ * pushNotification({
+ *   category: 'report-ready',
+ *   title: 'Reporte listo',
+ *   message: 'El reporte diario se generó correctamente',
+ *   link: '/reportes-pdf'
+ * });
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { logDebug, logError, logInfo, logWarning } from '../log/logger.helper';
+import { showInfo, showWarning } from '../notification/notification.helper';
+import { broadcastTabMessage, subscribeToTabMessages } from '../tab-sync/tab-sync.helper';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Categorías de notificación
+ */
+export type NotificationCategory = 'iph-assigned' | 'status-changed' | 'report-ready' | 'session';
+
+/**
+ * Entrada persistida en la bandeja
+ */
+export interface NotificationCenterEntry {
+  id: string;
+  category: NotificationCategory;
+  title: string;
+  message: string;
+  /** Ruta interna a la que lleva la notificación (p.ej. `/informeejecutivo/123`) */
+  link?: string;
+  read: boolean;
+  createdAt: number;
+  /** Fuente que la generó ('local' para `pushNotification`) */
+  source: string;
+  dedupeKey?: string;
+}
+
+/**
+ * Datos para crear una notificación
+ */
+export interface NotificationInput {
+  category: NotificationCategory;
+  title: string;
+  message: string;
+  link?: string;
+  /** Si ya existe una entrada con la misma llave no se duplica */
+  dedupeKey?: string;
+  /** Mostrar además un toast transitorio (default: true) */
+  toast?: boolean;
+}
+
+/**
+ * Contexto que reciben las fuentes al iniciar
+ */
+export interface NotificationSourceContext {
+  userId: string;
+}
+
+/**
+ * Fuente de notificaciones intercambiable
+ * `start` devuelve la función para detenerla
+ */
+export interface NotificationSource {
+  id: string;
+  start: (
+    emit: (input: NotificationInput) => void,
+    context: NotificationSourceContext
+  ) => () => void;
+}
+
+export interface NotificationCenterConfig {
+  /** Prefijo de la llave de localStorage (se agrega el userId) */
+  storageKeyPrefix: string;
+  /** Máximo de entradas conservadas */
+  maxEntries: number;
+  /** Antigüedad máxima (ms) de una entrada */
+  maxAge: number;
+}
+
+type NotificationCenterListener = (entries: NotificationCenterEntry[], unreadCount: number) => void;
+
+interface RegisteredSource {
+  source: NotificationSource;
+  stop: (() => void) | null;
+}
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const DEFAULT_CONFIG: NotificationCenterConfig = {
+  storageKeyPrefix: 'iph_notifications_',
+  maxEntries: 100,
+  maxAge: 30 * 24 * 60 * 60 * 1000 // 30 días
+};
+
+const LOCAL_SOURCE = 'local';
+
+/** Etiquetas visibles por categoría */
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  'iph-assigned': 'IPH asignado',
+  'status-changed': 'Cambio de estatus',
+  'report-ready': 'Reporte listo',
+  session: 'Sesión'
+};
+
+// =====================================================
+// CLASE PRINCIPAL
+// =====================================================
+
+/**
+ * Centro de notificaciones (Singleton)
+ */
+class NotificationCenterHelper {
+  private static instance: NotificationCenterHelper;
+
+  private config: NotificationCenterConfig = { ...DEFAULT_CONFIG };
+  private userId: string | null = null;
+  private entries: NotificationCenterEntry[] = [];
+  private listeners = new Set<NotificationCenterListener>();
+  private sources = new Map<string, RegisteredSource>();
+  private unsubscribeTabSync: (() => void) | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): NotificationCenterHelper {
+    if (!NotificationCenterHelper.instance) {
+      NotificationCenterHelper.instance = new NotificationCenterHelper();
+    }
+    return NotificationCenterHelper.instance;
+  }
+
+  public configure(config: Partial<NotificationCenterConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Carga la bandeja del usuario e inicia las fuentes registradas
+   */
+  public start(userId: string): void {
+    if (this.userId === userId) return;
+    if (this.userId) this.stop();
+
+    this.userId = userId;
+    this.entries = this.load();
+    this.unsubscribeTabSync = subscribeToTabMessages('notifications-updated', message => {
+      if (message.userId !== this.userId) return;
+      this.entries = this.load();
+      this.notifyListeners();
+    });
+
+    this.sources.forEach(registered => this.startSource(registered));
+    this.notifyListeners();
+
+    logInfo('NotificationCenter', 'Centro de notificaciones iniciado', {
+      entries: this.entries.length,
+      sources: Array.from(this.sources.keys())
+    });
+  }
+
+  /**
+   * Detiene las fuentes y descarga la bandeja de memoria (el historial persiste)
+   */
+  public stop(): void {
+    if (!this.userId) return;
+
+    this.sources.forEach(registered => this.stopSource(registered));
+    this.unsubscribeTabSync?.();
+    this.unsubscribeTabSync = null;
+    this.userId = null;
+    this.entries = [];
+    this.notifyListeners();
+
+    logDebug('NotificationCenter', 'Centro de notificaciones detenido');
+  }
+
+  /**
+   * Registra una fuente; si el centro ya está activo se inicia de inmediato
+   */
+  public registerSource(source: NotificationSource): () => void {
+    const previous = this.sources.get(source.id);
+    if (previous) this.stopSource(previous);
+
+    const registered: RegisteredSource = { source, stop: null };
+    this.sources.set(source.id, registered);
+    if (this.userId) this.startSource(registered);
+
+    return () => {
+      if (this.sources.get(source.id) !== registered) return;
+      this.stopSource(registered);
+      this.sources.delete(source.id);
+    };
+  }
+
+  /**
+   * Agrega una notificación a la bandeja
+   * @returns La entrada creada, o null si se descartó (sin usuario o duplicada)
+   */
+  public push(input: NotificationInput, source: string = LOCAL_SOURCE): NotificationCenterEntry | null {
+    if (!this.userId) {
+      logDebug('NotificationCenter', 'Notificación descartada: centro inactivo', { title: input.title });
+      return null;
+    }
+
+    const entry: NotificationCenterEntry = {
+      id: `ntf_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      category: input.category,
+      title: input.title,
+      message: input.message,
+      link: input.link,
+      read: false,
+      createdAt: Date.now(),
+      source,
+      dedupeKey: input.dedupeKey
+    };
+
+    this.mutate(entries => (
+      input.dedupeKey && entries.some(existing => existing.dedupeKey === input.dedupeKey)
+        ? entries
+        : [entry, ...entries]
+    ));
+
+    if (this.entries[0]?.id !== entry.id) return null;
+
+    if (input.toast !== false) {
+      const showToast = input.category === 'session' ? showWarning : showInfo;
+      showToast(input.message, input.title);
+    }
+
+    return entry;
+  }
+
+  public markAsRead(id: string): void {
+    this.mutate(entries => entries.map(entry => (
+      entry.id === id && !entry.read ? { ...entry, read: true } : entry
+    )));
+  }
+
+  public markAllAsRead(): void {
+    this.mutate(entries => entries.map(entry => (entry.read ? entry : { ...entry, read: true })));
+  }
+
+  public remove(id: string): void {
+    this.mutate(entries => entries.filter(entry => entry.id !== id));
+  }
+
+  public clear(): void {
+    this.mutate(() => []);
+  }
+
+  public getEntries(): NotificationCenterEntry[] {
+    return [...this.entries];
+  }
+
+  public getUnreadCount(): number {
+    return this.entries.filter(entry => !entry.read).length;
+  }
+
+  public subscribe(listener: NotificationCenterListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // =====================================================
+  // MÉTODOS PRIVADOS
+  // =====================================================
+
+  private startSource(registered: RegisteredSource): void {
+    if (!this.userId || registered.stop) return;
+
+    try {
+      registered.stop = registered.source.start(
+        input => this.push(input, registered.source.id),
+        { userId: this.userId }
+      );
+    } catch (error) {
+      logError('NotificationCenter', error, `Error iniciando fuente ${registered.source.id}`);
+    }
+  }
+
+  private stopSource(registered: RegisteredSource): void {
+    try {
+      registered.stop?.();
+    } catch (error) {
+      logError('NotificationCenter', error, `Error deteniendo fuente ${registered.source.id}`);
+    }
+    registered.stop = null;
+  }
+
+  /**
+   * Lee-modifica-escribe contra localStorage para no pisar cambios de otras pestañas
+   */
+  private mutate(update: (entries: NotificationCenterEntry[]) => NotificationCenterEntry[]): void {
+    if (!this.userId) return;
+
+    const current = this.load();
+    const next = this.prune(update(current));
+    if (next === current) return;
+
+    this.entries = next;
+    this.save();
+    this.notifyListeners();
+    broadcastTabMessage({ type: 'notifications-updated', userId: this.userId });
+  }
+
+  private prune(entries: NotificationCenterEntry[]): NotificationCenterEntry[] {
+    const minCreatedAt = Date.now() - this.config.maxAge;
+    const pruned = entries.filter(entry => entry.createdAt >= minCreatedAt);
+    if (pruned.length === entries.length && entries.length <= this.config.maxEntries) {
+      return entries;
+    }
+    return pruned.slice(0, this.config.maxEntries);
+  }
+
+  private getStorageKey(): string {
+    return `${this.config.storageKeyPrefix}${this.userId}`;
+  }
+
+  private load(): NotificationCenterEntry[] {
+    if (!this.userId) return [];
+
+    try {
+      const raw = localStorage.getItem(this.getStorageKey());
+      if (!raw) return [];
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed) ? (parsed as NotificationCenterEntry[]) : [];
+    } catch (error) {
+      logWarning('NotificationCenter', 'Bandeja de notificaciones ilegible, se reinicia', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(this.entries));
+    } catch (error) {
+      logError('NotificationCenter', error, 'No se pudo persistir la bandeja de notificaciones');
+    }
+  }
+
+  private notifyListeners(): void {
+    const entries = this.getEntries();
+    const unreadCount = this.getUnreadCount();
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(entries, unreadCount);
+      } catch (error) {
+        logError('NotificationCenter', error, 'Error en listener del centro de notificaciones');
+      }
+    });
+  }
+}
+
+// =====================================================
+// INSTANCIA Y API PÚBLICA
+// =====================================================
+
+const notificationCenter = NotificationCenterHelper.getInstance();
+
+export const configureNotificationCenter = (config: Partial<NotificationCenterConfig>): void =>
+  notificationCenter.configure(config);
+
+export const startNotificationCenter = (userId: string): void =>
+  notificationCenter.start(userId);
+
+export const stopNotificationCenter = (): void =>
+  notificationCenter.stop();
+
+export const registerNotificationSource = (source: NotificationSource): (() => void) =>
+  notificationCenter.registerSource(source);
+
+export const pushNotification = (input: NotificationInput): NotificationCenterEntry | null =>
+  notificationCenter.push(input);
+
+export const markNotificationAsRead = (id: string): void =>
+  notificationCenter.markAsRead(id);
+
+export const markAllNotificationsAsRead = (): void =>
+  notificationCenter.markAllAsRead();
+
+export const removeNotificationEntry = (id: string): void =>
+  notificationCenter.remove(id);
+
+export const clearNotificationCenter = (): void =>
+  notificationCenter.clear();
+
+export const getNotificationEntries = (): NotificationCenterEntry[] =>
+  notificationCenter.getEntries();
+
+export const getUnreadNotificationCount = (): number =>
+  notificationCenter.getUnreadCount();
+
+export const subscribeToNotificationCenter = (listener: NotificationCenterListener): (() => void) =>
+  notificationCenter.subscribe(listener);
+
+export { NotificationCenterHelper, notificationCenter };
+export default notificationCenter;
@@ -0,0 +1,104 @@
+/**
+ * Fuentes de notificaciones incluidas en la app
+ *
+ * - iphRealtimeNotificationSource: eventos del stream de IPH (realtime.helper)
+ * - sessionNotificationSource: avisos del session manager
+ *
+ * Una fuente de servidor (push) se agrega implementando `NotificationSource`
+ * y registrándola con `registerNotificationSource`.
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { subscribeToIphEvents } from '../realtime/realtime.helper';
+import { subscribeToSession, type SessionStatus } from '../session/session-manager.helper';
+import type { NotificationSource } from './notification-center.helper';
+
+/**
+ * Ruta del detalle de un IPH
+ */
+export const buildIphOficialLink = (iphId: string): string => `/iphoficial/${iphId}`;
+
+/**
+ * Ruta del informe ejecutivo de un IPH
+ */
+export const buildInformeEjecutivoLink = (iphId: string): string => `/informeejecutivo/${iphId}`;
+
+/**
+ * Eventos de IPH en tiempo real
+ * - iph.created con `usuarioId` del usuario actual → IPH asignado
+ * - iph.status-changed → cambio de estatus
+ */
+export const iphRealtimeNotificationSource: NotificationSource = {
+  id: 'iph-realtime',
+  start: (emit, { userId }) => {
+    const unsubscribeCreated = subscribeToIphEvents('iph.created', event => {
+      if (event.type !== 'iph.created' || event.usuarioId !== userId) return;
+
+      emit({
+        category: 'iph-assigned',
+        title: 'Nuevo IPH asignado',
+        message: `Se te asignó el IPH ${event.referencia ?? event.iphId}`,
+        link: buildIphOficialLink(event.iphId),
+        dedupeKey: `iph-assigned:${event.iphId}`
+      });
+    });
+
+    const unsubscribeStatus = subscribeToIphEvents('iph.status-changed', event => {
+      if (event.type !== 'iph.status-changed') return;
+
+      emit({
+        category: 'status-changed',
+        title: 'Cambio de estatus',
+        message: `El IPH ${event.referencia ?? event.iphId} cambió a "${event.estatus}"`,
+        link: buildInformeEjecutivoLink(event.iphId),
+        dedupeKey: `status-changed:${event.iphId}:${event.estatus}:${event.timestamp ?? ''}`,
+        toast: false
+      });
+    });
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeStatus();
+    };
+  }
+};
+
+/**
+ * Avisos de sesión
+ * - Token por expirar sin renovación automática
+ * - Fallo al renovar el token
+ */
+export const sessionNotificationSource: NotificationSource = {
+  id: 'session',
+  start: emit => {
+    let previousStatus: SessionStatus | null = null;
+    let previousError: string | undefined;
+
+    return subscribeToSession(state => {
+      if (state.status === 'warning' && previousStatus !== 'warning') {
+        emit({
+          category: 'session',
+          title: 'Sesión por expirar',
+          message: 'Tu sesión expirará pronto por inactividad',
+          dedupeKey: `session-warning:${state.expiresAt ?? ''}`,
+          // El modal de expiración ya avisa en pantalla
+          toast: false
+        });
+      }
+
+      if (state.lastError && state.lastError !== previousError) {
+        emit({
+          category: 'session',
+          title: 'No se pudo renovar la sesión',
+          message: state.lastError,
+          dedupeKey: `session-error:${state.expiresAt ?? ''}`
+        });
+      }
+
+      previousStatus = state.status;
+      previousError = state.lastError;
+    });
+  }
+};
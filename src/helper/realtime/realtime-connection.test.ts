@@ -0,0 +1,236 @@
+/**
+ * Tests para Realtime Connection (SSE)
+ *
+ * Levanta un servidor de eventos local (node:http) para validar el parser,
+ * los headers de reconexión y el ciclo de vida de la conexión.
+ *
+ * @module RealtimeConnectionTests
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  SseParser,
+  createRealtimeConnection,
+  RealtimeReadyState,
+  type RealtimeConnection,
+  type RealtimeConnectionError,
+  type RealtimeMessage
+} from './realtime-connection';
+
+// =====================================================
+// SERVIDOR DE EVENTOS LOCAL
+// =====================================================
+
+let server: Server;
+let baseUrl: string;
+let lastRequestHeaders: IncomingHttpHeaders = {};
+const openStreams = new Set<ServerResponse>();
+
+const writeSseHeaders = (res: ServerResponse): void => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    lastRequestHeaders = req.headers;
+
+    switch (req.url) {
+      // Emite dos eventos y cierra el stream
+      case '/finite':
+        writeSseHeaders(res);
+        res.write('id: 1\nevent: iph.created\ndata: {"iphId":"10"}\n\n');
+        res.write(': keep-alive\n\n');
+        res.end('id: 2\ndata: {"type":"iph.status-changed","iphId":"10","estatus":"Cerrado"}\n\n');
+        break;
+
+      // Mantiene el stream abierto hasta que el cliente cierra
+      case '/open':
+        writeSseHeaders(res);
+        res.write('data: {"type":"ping"}\n\n');
+        openStreams.add(res);
+        res.on('close', () => openStreams.delete(res));
+        break;
+
+      case '/unauthorized':
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end('{"message":"Unauthorized"}');
+        break;
+
+      case '/not-sse':
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{}');
+        break;
+
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  openStreams.forEach(res => res.end());
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+// =====================================================
+// UTILIDADES
+// =====================================================
+
+interface ConnectionRecording {
+  opened: boolean;
+  messages: RealtimeMessage[];
+  heartbeats: number;
+  errors: RealtimeConnectionError[];
+}
+
+/**
+ * Registra los callbacks y resuelve cuando la conexión se cierra
+ */
+const record = (connection: RealtimeConnection): { recording: ConnectionRecording; closed: Promise<void> } => {
+  const recording: ConnectionRecording = { opened: false, messages: [], heartbeats: 0, errors: [] };
+
+  const closed = new Promise<void>(resolve => {
+    connection.onopen = () => { recording.opened = true; };
+    connection.onmessage = message => { recording.messages.push(message); };
+    connection.onheartbeat = () => { recording.heartbeats++; };
+    connection.onerror = error => { recording.errors.push(error); };
+    connection.onclose = () => resolve();
+  });
+
+  return { recording, closed };
+};
+
+const waitFor = async (condition: () => boolean, timeout = 2000): Promise<void> => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timeout esperando condición');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+// =====================================================
+// TESTS
+// =====================================================
+
+describe('SseParser', () => {
+  it('une líneas data múltiples y respeta event/id', () => {
+    const messages: RealtimeMessage[] = [];
+    const parser = new SseParser(message => messages.push(message));
+
+    parser.feed('event: iph.created\nid: 42\ndata: {"a":\ndata: 1}\n\n');
+
+    expect(messages).toEqual([{ type: 'iph.created', lastEventId: '42', data: '{"a":\n1}' }]);
+    expect(parser.getLastEventId()).toBe('42');
+  });
+
+  it('acepta chunks que cortan líneas y \\r\\n', () => {
+    const messages: RealtimeMessage[] = [];
+    const parser = new SseParser(message => messages.push(message));
+
+    parser.feed('data: hola\r');
+    parser.feed('\ndata: mundo\r\n\r');
+    expect(messages).toHaveLength(0);
+
+    parser.feed('\n');
+    expect(messages).toEqual([{ type: 'message', lastEventId: '', data: 'hola\nmundo' }]);
+  });
+
+  it('trata comentarios como heartbeat y no emite eventos vacíos', () => {
+    const messages: RealtimeMessage[] = [];
+    let comments = 0;
+    const parser = new SseParser(message => messages.push(message), () => comments++);
+
+    parser.feed(': ping\n\nevent: sin-datos\n\nretry: 5000\n\n');
+
+    expect(comments).toBe(1);
+    expect(messages).toHaveLength(0);
+  });
+
+  it('conserva el último id entre eventos', () => {
+    const messages: RealtimeMessage[] = [];
+    const parser = new SseParser(message => messages.push(message));
+
+    parser.feed('id: 7\ndata: a\n\ndata: b\n\n');
+
+    expect(messages.map(message => message.lastEventId)).toEqual(['7', '7']);
+  });
+});
+
+describe('createRealtimeConnection (SSE)', () => {
+  it('recibe los eventos del servidor en orden y se cierra al terminar el stream', async () => {
+    const connection = createRealtimeConnection(`${baseUrl}/finite`);
+    const { recording, closed } = record(connection);
+
+    await closed;
+
+    expect(recording.opened).toBe(true);
+    expect(recording.heartbeats).toBe(1);
+    expect(recording.errors).toHaveLength(0);
+    expect(recording.messages.map(message => message.type)).toEqual(['iph.created', 'message']);
+    expect(recording.messages.map(message => message.lastEventId)).toEqual(['1', '2']);
+    expect(JSON.parse(recording.messages[1].data)).toMatchObject({ estatus: 'Cerrado' });
+    expect(connection.readyState).toBe(RealtimeReadyState.CLOSED);
+  });
+
+  it('envía Authorization y Last-Event-ID', async () => {
+    const connection = createRealtimeConnection(`${baseUrl}/finite`, {
+      token: 'token-de-prueba',
+      lastEventId: '99'
+    });
+    const { closed } = record(connection);
+
+    await closed;
+
+    expect(lastRequestHeaders.authorization).toBe('Bearer token-de-prueba');
+    expect(lastRequestHeaders['last-event-id']).toBe('99');
+    expect(lastRequestHeaders.accept).toBe('text/event-stream');
+  });
+
+  it('reporta el estado HTTP cuando el servidor rechaza la conexión', async () => {
+    const connection = createRealtimeConnection(`${baseUrl}/unauthorized`);
+    const { recording, closed } = record(connection);
+
+    await closed;
+
+    expect(recording.opened).toBe(false);
+    expect(recording.errors).toHaveLength(1);
+    expect(recording.errors[0].status).toBe(401);
+  });
+
+  it('rechaza respuestas que no son text/event-stream', async () => {
+    const connection = createRealtimeConnection(`${baseUrl}/not-sse`);
+    const { recording, closed } = record(connection);
+
+    await closed;
+
+    expect(recording.opened).toBe(false);
+    expect(recording.errors[0].message).toContain('Content-Type');
+  });
+
+  it('close() corta un stream abierto sin reportar error', async () => {
+    const connection = createRealtimeConnection(`${baseUrl}/open`);
+    const { recording, closed } = record(connection);
+
+    await waitFor(() => recording.messages.length === 1);
+    expect(connection.readyState).toBe(RealtimeReadyState.OPEN);
+
+    connection.close();
+    await closed;
+
+    expect(recording.errors).toHaveLength(0);
+    expect(connection.readyState).toBe(RealtimeReadyState.CLOSED);
+    await waitFor(() => openStreams.size === 0);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Conexiones de tiempo real con interfaz compatible con WebSocket
+ *
+ * `RealtimeConnection` expone la misma forma que un WebSocket (readyState,
+ * onopen/onmessage/onerror/onclose, close) para que el RealtimeHelper no dependa
+ * del transporte. Hoy el backend publica Server-Sent Events; si se migra a
+ * WebSocket basta con cambiar `transport`.
+ *
+ * SSE se implementa sobre `fetch` + ReadableStream en lugar de `EventSource`
+ * porque EventSource no permite enviar el header Authorization.
+ *
+ * Este módulo no importa helpers de la app (logger, http) para poder probarse
+ * de forma aislada contra un servidor de eventos local.
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Estados de conexión (mismos valores que WebSocket.readyState)
+ */
+export const RealtimeReadyState = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3
+} as const;
+
+export type RealtimeReadyStateValue = typeof RealtimeReadyState[keyof typeof RealtimeReadyState];
+
+export type RealtimeTransport = 'sse' | 'websocket';
+
+/**
+ * Mensaje recibido (equivalente a MessageEvent)
+ */
+export interface RealtimeMessage {
+  /** Payload crudo (JSON en texto) */
+  data: string;
+  /** Nombre del evento SSE (`event:`); 'message' si no se especifica */
+  type: string;
+  /** Último `id:` recibido; se reenvía como Last-Event-ID al reconectar */
+  lastEventId: string;
+}
+
+/**
+ * Conexión de tiempo real con interfaz tipo WebSocket
+ */
+export interface RealtimeConnection {
+  readonly url: string;
+  readonly readyState: RealtimeReadyStateValue;
+  onopen: (() => void) | null;
+  onmessage: ((message: RealtimeMessage) => void) | null;
+  onerror: ((error: RealtimeConnectionError) => void) | null;
+  onclose: (() => void) | null;
+  /** Actividad sin mensaje (comentarios SSE de keep-alive) */
+  onheartbeat: (() => void) | null;
+  close(): void;
+}
+
+export interface RealtimeConnectionOptions {
+  transport?: RealtimeTransport;
+  /** Token Bearer; en WebSocket viaja como query param `access_token` */
+  token?: string | null;
+  /** Reanudar desde el último evento recibido (solo SSE) */
+  lastEventId?: string | null;
+  /** Inyectable para pruebas */
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Error de conexión con el estado HTTP cuando aplica
+ */
+export class RealtimeConnectionError extends Error {
+  public readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'RealtimeConnectionError';
+    this.status = status;
+  }
+}
+
+// =====================================================
+// PARSER SSE
+// =====================================================
+
+/**
+ * Parser incremental del formato text/event-stream
+ * Acepta fragmentos arbitrarios (un chunk puede cortar una línea o un \r\n)
+ */
+export class SseParser {
+  private buffer = '';
+  private data: string[] = [];
+  private eventType = '';
+  private lastEventId = '';
+  private readonly onMessage: (message: RealtimeMessage) => void;
+  private readonly onComment: () => void;
+
+  constructor(onMessage: (message: RealtimeMessage) => void, onComment: () => void = () => {}) {
+    this.onMessage = onMessage;
+    this.onComment = onComment;
+  }
+
+  public getLastEventId(): string {
+    return this.lastEventId;
+  }
+
+  public feed(chunk: string): void {
+    this.buffer += chunk;
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // Un \r al final puede ser la primera mitad de \r\n: esperar el siguiente chunk
+      if (char === '\r' && i === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(start, i);
+      if (char === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+
+      this.processLine(line);
+    }
+
+    this.buffer = this.buffer.slice(start);
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      this.onComment();
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      // 'retry' se ignora: el RealtimeHelper maneja su propio backoff
+      default:
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.data.length === 0) {
+      this.eventType = '';
+      return;
+    }
+
+    const message: RealtimeMessage = {
+      data: this.data.join('\n'),
+      type: this.eventType || 'message',
+      lastEventId: this.lastEventId
+    };
+
+    this.data = [];
+    this.eventType = '';
+    this.onMessage(message);
+  }
+}
+
+// =====================================================
+// SSE SOBRE FETCH
+// =====================================================
+
+class SseConnection implements RealtimeConnection {
+  public readonly url: string;
+  public onopen: (() => void) | null = null;
+  public onmessage: ((message: RealtimeMessage) => void) | null = null;
+  public onerror: ((error: RealtimeConnectionError) => void) | null = null;
+  public onclose: (() => void) | null = null;
+  public onheartbeat: (() => void) | null = null;
+
+  private state: RealtimeReadyStateValue = RealtimeReadyState.CONNECTING;
+  private readonly controller = new AbortController();
+  private readonly options: RealtimeConnectionOptions;
+
+  constructor(url: string, options: RealtimeConnectionOptions) {
+    this.url = url;
+    this.options = options;
+    // Igual que WebSocket: los eventos llegan después de asignar los handlers
+    queueMicrotask(() => void this.run());
+  }
+
+  public get readyState(): RealtimeReadyStateValue {
+    return this.state;
+  }
+
+  public close(): void {
+    if (this.state === RealtimeReadyState.CLOSED) return;
+    this.state = RealtimeReadyState.CLOSING;
+    this.controller.abort();
+    this.finish();
+  }
+
+  private async run(): Promise<void> {
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache'
+    };
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`;
+    if (this.options.lastEventId) headers['Last-Event-ID'] = this.options.lastEventId;
+
+    try {
+      const fetchImpl = this.options.fetchImpl ?? fetch;
+      const response = await fetchImpl(this.url, {
+        headers,
+        cache: 'no-store',
+        signal: this.controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw new RealtimeConnectionError(`HTTP ${response.status}`, response.status);
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!contentType.includes('text/event-stream')) {
+        throw new RealtimeConnectionError(`Content-Type inesperado: ${contentType || 'vacío'}`, response.status);
+      }
+
+      if (this.state !== RealtimeReadyState.CONNECTING) return;
+      this.state = RealtimeReadyState.OPEN;
+      this.onopen?.();
+
+      const parser = new SseParser(
+        message => this.onmessage?.(message),
+        () => this.onheartbeat?.()
+      );
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+
+      while (this.state === RealtimeReadyState.OPEN) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parser.feed(decoder.decode(value, { stream: true }));
+      }
+    } catch (error) {
+      if (!this.controller.signal.aborted) {
+        this.onerror?.(
+          error instanceof RealtimeConnectionError
+            ? error
+            : new RealtimeConnectionError(error instanceof Error ? error.message : 'Error de red')
+        );
+      }
+    } finally {
+      this.finish();
+    }
+  }
+
+  private finish(): void {
+    if (this.state === RealtimeReadyState.CLOSED) return;
+    this.state = RealtimeReadyState.CLOSED;
+    this.onclose?.();
+  }
+}
+
+// =====================================================
+// ADAPTADOR WEBSOCKET
+// =====================================================
+
+class WebSocketConnection implements RealtimeConnection {
+  public readonly url: string;
+  public onopen: (() => void) | null = null;
+  public onmessage: ((message: RealtimeMessage) => void) | null = null;
+  public onerror: ((error: RealtimeConnectionError) => void) | null = null;
+  public onclose: (() => void) | null = null;
+  public onheartbeat: (() => void) | null = null;
+
+  private readonly socket: WebSocket;
+
+  constructor(url: string, options: RealtimeConnectionOptions) {
+    const wsUrl = new URL(url, typeof window !== 'undefined' ? window.location.href : undefined);
+    wsUrl.protocol = wsUrl.protocol === 'https:' ? 'wss:' : wsUrl.protocol === 'http:' ? 'ws:' : wsUrl.protocol;
+    if (options.token) wsUrl.searchParams.set('access_token', options.token);
+
+    this.url = url;
+    this.socket = new WebSocket(wsUrl.toString());
+    this.socket.onopen = () => this.onopen?.();
+    this.socket.onmessage = event => this.onmessage?.({
+      data: typeof event.data === 'string' ? event.data : String(event.data),
+      type: 'message',
+      lastEventId: event.lastEventId
+    });
+    this.socket.onerror = () => this.onerror?.(new RealtimeConnectionError('Error en WebSocket'));
+    this.socket.onclose = () => this.onclose?.();
+  }
+
+  public get readyState(): RealtimeReadyStateValue {
+    return this.socket.readyState as RealtimeReadyStateValue;
+  }
+
+  public close(): void {
+    this.socket.close();
+  }
+}
+
+// =====================================================
+// FACTORY
+// =====================================================
+
+/**
+ * Abre una conexión de tiempo real con el transporte indicado (SSE por defecto)
+ */
+export const createRealtimeConnection = (
+  url: string,
+  options: RealtimeConnectionOptions = {}
+): RealtimeConnection => (
+  options.transport === 'websocket'
+    ? new WebSocketConnection(url, options)
+    : new SseConnection(url, options)
+);
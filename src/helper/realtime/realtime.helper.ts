@@ -0,0 +1,436 @@
+/**
+ * Realtime Helper - Eventos de IPH en tiempo real
+ *
+ * Mantiene una única suscripción al stream de eventos del backend y la reparte
+ * entre los módulos interesados (listado de IPH activos, historial, dashboard).
+ *
+ * - Se conecta con el primer suscriptor y se desconecta con el último
+ * - Reconexión con backoff exponencial y `Last-Event-ID` para no perder eventos
+ * - Tras varios fallos seguidos pasa a estado `fallback`: los módulos vuelven a
+ *   su polling hasta que el stream se recupera
+ * - Heartbeat: si el servidor deja de enviar datos/keep-alive se fuerza la reconexión
+ * - Los eventos se validan con Zod antes de entregarse
+ * - La URL del stream viene de `VITE_REALTIME_STREAM_URL` (o `realtimeStreamUrl` en el
+ *   runtime config de Docker); sin valor el tiempo real queda deshabilitado y el estado
+ *   es `fallback` desde el inicio, así que los módulos siguen con su polling
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = subscribeToIphEvents('iph.status-changed', event => {
+ *   console.log(event.iphId, event.estatus);
+ * });
+ * ```
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import { logDebug, logInfo, logWarning } from '../log/logger.helper';
+import { HttpHelper } from '../http/http.helper';
+import { REALTIME_STREAM_URL } from '../../config/env.config';
+import {
+  createRealtimeConnection,
+  type RealtimeConnection,
+  type RealtimeConnectionError,
+  type RealtimeMessage,
+  type RealtimeTransport
+} from './realtime-connection';
+
+// =====================================================
+// SCHEMAS Y TYPES
+// =====================================================
+
+const IdSchema = z.union([z.string(), z.number()]).transform(String);
+
+const IphEventBaseSchema = z.object({
+  iphId: IdSchema,
+  referencia: z.string().optional(),
+  timestamp: z.string().optional()
+});
+
+/**
+ * Eventos publicados por el backend
+ */
+const IphRealtimeEventSchema = z.discriminatedUnion('type', [
+  IphEventBaseSchema.extend({
+    type: z.literal('iph.created'),
+    tipo: z.string().optional(),
+    estatus: z.string().optional(),
+    usuarioId: IdSchema.optional()
+  }),
+  IphEventBaseSchema.extend({
+    type: z.literal('iph.status-changed'),
+    estatus: z.string(),
+    estatusAnterior: z.string().optional()
+  }),
+  IphEventBaseSchema.extend({
+    type: z.literal('iph.file-attached'),
+    archivo: z.string().optional(),
+    tipoArchivo: z.string().optional()
+  })
+]);
+
+export type IphRealtimeEvent = z.infer<typeof IphRealtimeEventSchema>;
+export type IphRealtimeEventType = IphRealtimeEvent['type'];
+
+export type IphRealtimeListener = (event: IphRealtimeEvent) => void;
+
+/**
+ * Estado del stream
+ * - idle: sin suscriptores
+ * - connecting: primera conexión en curso
+ * - live: recibiendo eventos
+ * - reconnecting: caída reciente, reintentando
+ * - fallback: varios fallos seguidos; los módulos deben usar polling
+ */
+export type RealtimeStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'fallback';
+
+export type RealtimeStatusListener = (status: RealtimeStatus) => void;
+
+export interface RealtimeConfig {
+  /** URL del stream; vacío deshabilita el tiempo real (todo queda en polling) */
+  url: string;
+  transport: RealtimeTransport;
+  baseReconnectDelay: number;
+  maxReconnectDelay: number;
+  /** Fallos consecutivos antes de declarar `fallback` */
+  fallbackAfterAttempts: number;
+  /** Sin datos ni keep-alive durante este tiempo se considera caída */
+  heartbeatTimeout: number;
+  tokenGetter: () => string | null;
+}
+
+// =====================================================
+// CONFIGURACIÓN
+// =====================================================
+
+const DEFAULT_REALTIME_CONFIG: RealtimeConfig = {
+  url: REALTIME_STREAM_URL,
+  transport: 'sse',
+  baseReconnectDelay: 1000, // 1 segundo
+  maxReconnectDelay: 60 * 1000, // 1 minuto
+  fallbackAfterAttempts: 3,
+  heartbeatTimeout: 45 * 1000, // 45 segundos (el servidor envía keep-alive cada 15s)
+  tokenGetter: () => HttpHelper.getInstance().getConfig().authTokenGetter?.() ?? null
+};
+
+/** Tipos de control que no son eventos de negocio */
+const CONTROL_MESSAGE_TYPES = ['ping', 'heartbeat'];
+
+const MODULE = 'RealtimeHelper';
+
+// =====================================================
+// CLASE PRINCIPAL
+// =====================================================
+
+/**
+ * Multiplexor del stream de eventos IPH
+ * Implementa patrón Singleton
+ */
+class RealtimeHelper {
+  private static instance: RealtimeHelper;
+  private config: RealtimeConfig;
+  private connection: RealtimeConnection | null = null;
+  private status: RealtimeStatus = 'idle';
+  private readonly listeners = new Map<IphRealtimeEventType | '*', Set<IphRealtimeListener>>();
+  private readonly statusListeners = new Set<RealtimeStatusListener>();
+  private failedAttempts = 0;
+  private lastEventId: string | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly handleOnline = (): void => {
+    // La red regresó: no esperar el backoff acumulado
+    if (this.connection === null && this.hasListeners()) {
+      this.clearReconnectTimer();
+      this.open();
+    }
+  };
+
+  private constructor(config?: Partial<RealtimeConfig>) {
+    this.config = { ...DEFAULT_REALTIME_CONFIG, ...config };
+  }
+
+  public static getInstance(config?: Partial<RealtimeConfig>): RealtimeHelper {
+    if (!RealtimeHelper.instance) {
+      RealtimeHelper.instance = new RealtimeHelper(config);
+    } else if (config) {
+      RealtimeHelper.instance.updateConfig(config);
+    }
+    return RealtimeHelper.instance;
+  }
+
+  /**
+   * Actualiza la configuración; si hay conexión activa se reabre con los nuevos valores
+   */
+  public updateConfig(newConfig: Partial<RealtimeConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+
+    if (this.hasListeners()) {
+      this.teardown();
+      this.failedAttempts = 0;
+      this.open();
+    }
+  }
+
+  public getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  /**
+   * Suscribe a un tipo de evento ('*' para todos)
+   * @returns Función para cancelar la suscripción
+   */
+  public subscribe(type: IphRealtimeEventType | '*', listener: IphRealtimeListener): () => void {
+    const set = this.listeners.get(type) ?? new Set<IphRealtimeListener>();
+    set.add(listener);
+    this.listeners.set(type, set);
+
+    if (this.status === 'idle') {
+      this.start();
+    }
+
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) this.listeners.delete(type);
+      if (!this.hasListeners()) this.stop();
+    };
+  }
+
+  /**
+   * Suscribe a cambios de estado; el listener recibe el estado actual de inmediato
+   */
+  public subscribeToStatus(listener: RealtimeStatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // =====================================================
+  // CICLO DE VIDA
+  // =====================================================
+
+  private start(): void {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+    this.failedAttempts = 0;
+    this.open();
+  }
+
+  private stop(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    this.teardown();
+    this.failedAttempts = 0;
+    this.setStatus('idle');
+    logDebug(MODULE, 'Stream cerrado (sin suscriptores)');
+  }
+
+  private open(): void {
+    if (!this.config.url) {
+      this.setStatus('fallback');
+      return;
+    }
+
+    if (this.failedAttempts === 0) {
+      this.setStatus('connecting');
+    }
+
+    const connection = createRealtimeConnection(this.config.url, {
+      transport: this.config.transport,
+      token: this.config.tokenGetter(),
+      lastEventId: this.lastEventId
+    });
+    this.connection = connection;
+
+    connection.onopen = () => {
+      if (this.connection !== connection) return;
+      const wasRecovering = this.failedAttempts > 0;
+      this.failedAttempts = 0;
+      this.armHeartbeat();
+      this.setStatus('live');
+      logInfo(MODULE, wasRecovering ? 'Stream de eventos restablecido' : 'Stream de eventos conectado', {
+        transport: this.config.transport
+      });
+    };
+
+    connection.onmessage = (message) => {
+      if (this.connection !== connection) return;
+      this.armHeartbeat();
+      this.handleMessage(message);
+    };
+
+    connection.onheartbeat = () => {
+      if (this.connection === connection) this.armHeartbeat();
+    };
+
+    connection.onerror = (error: RealtimeConnectionError) => {
+      if (this.connection !== connection) return;
+      logWarning(MODULE, 'Error en stream de eventos', {
+        message: error.message,
+        status: error.status,
+        attempt: this.failedAttempts + 1
+      });
+    };
+
+    connection.onclose = () => {
+      if (this.connection !== connection) return;
+      this.connection = null;
+      this.clearHeartbeat();
+      this.scheduleReconnect();
+    };
+  }
+
+  /**
+   * Cierra la conexión actual sin disparar la reconexión
+   */
+  private teardown(): void {
+    this.clearReconnectTimer();
+    this.clearHeartbeat();
+
+    const connection = this.connection;
+    this.connection = null;
+    connection?.close();
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.hasListeners()) return;
+
+    this.failedAttempts++;
+    this.setStatus(this.failedAttempts >= this.config.fallbackAfterAttempts ? 'fallback' : 'reconnecting');
+
+    const backoff = Math.min(
+      this.config.maxReconnectDelay,
+      this.config.baseReconnectDelay * Math.pow(2, this.failedAttempts - 1)
+    );
+    // Jitter de ±20% para no reconectar todas las pestañas/usuarios al mismo tiempo
+    const delay = backoff * (0.8 + Math.random() * 0.4);
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private armHeartbeat(): void {
+    this.clearHeartbeat();
+    this.heartbeatTimer = setTimeout(() => {
+      logWarning(MODULE, 'Stream sin actividad, forzando reconexión', {
+        heartbeatTimeout: this.config.heartbeatTimeout
+      });
+      // close() dispara onclose → scheduleReconnect
+      this.connection?.close();
+    }, this.config.heartbeatTimeout);
+  }
+
+  private clearHeartbeat(): void {
+    if (this.heartbeatTimer !== null) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  // =====================================================
+  // EVENTOS
+  // =====================================================
+
+  private handleMessage(message: RealtimeMessage): void {
+    if (message.lastEventId) {
+      this.lastEventId = message.lastEventId;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message.data);
+    } catch {
+      logWarning(MODULE, 'Evento con JSON inválido descartado', { type: message.type });
+      return;
+    }
+
+    // En SSE el tipo puede venir en `event:` en lugar del payload
+    if (payload && typeof payload === 'object' && !('type' in payload) && message.type !== 'message') {
+      payload = { ...payload, type: message.type };
+    }
+
+    const type = (payload as { type?: unknown } | null)?.type;
+    if (typeof type === 'string' && CONTROL_MESSAGE_TYPES.includes(type)) {
+      return;
+    }
+
+    const result = IphRealtimeEventSchema.safeParse(payload);
+    if (!result.success) {
+      logWarning(MODULE, 'Evento con formato desconocido descartado', {
+        type,
+        issues: result.error.issues.slice(0, 3).map(issue => issue.message)
+      });
+      return;
+    }
+
+    const event = result.data;
+    logDebug(MODULE, 'Evento recibido', { type: event.type, iphId: event.iphId });
+
+    const targets = [
+      ...(this.listeners.get(event.type) ?? []),
+      ...(this.listeners.get('*') ?? [])
+    ];
+
+    targets.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        logWarning(MODULE, 'Error en listener de eventos', {
+          type: event.type,
+          error: error instanceof Error ? error.message : 'unknown'
+        });
+      }
+    });
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private hasListeners(): boolean {
+    return this.listeners.size > 0;
+  }
+}
+
+// Instancia por defecto
+const realtimeHelper = RealtimeHelper.getInstance();
+
+// =====================================================
+// FUNCIONES HELPER PARA USO DIRECTO
+// =====================================================
+
+export const configureRealtime = (config: Partial<RealtimeConfig>): void =>
+  realtimeHelper.updateConfig(config);
+
+export const subscribeToIphEvents = (
+  type: IphRealtimeEventType | '*',
+  listener: IphRealtimeListener
+): (() => void) => realtimeHelper.subscribe(type, listener);
+
+export const subscribeToRealtimeStatus = (listener: RealtimeStatusListener): (() => void) =>
+  realtimeHelper.subscribeToStatus(listener);
+
+export const getRealtimeStatus = (): RealtimeStatus =>
+  realtimeHelper.getStatus();
+
+// Exportaciones
+export { RealtimeHelper, realtimeHelper };
+export default realtimeHelper;
@@ -25,6 +25,14 @@ import { CacheHelper } from '../cache/cache.helper';
 // TYPES
 // =====================================================
 
+/**
+ * Componente que se puede precargar: `React.lazy` o uno con método `preload`
+ * (p.ej. `lazyWithRetry`)
+ */
+export type PreloadableComponent =
+  | LazyExoticComponent<ComponentType<any>>
+  | (ComponentType<any> & { preload: () => Promise<unknown> });
+
 /**
  * Prioridad de precarga
  */
@@ -166,9 +174,9 @@ export class RoutePreloader {
    * });
    * ```
    */
-  static async preload<T extends ComponentType<any>>(
+  static async preload(
     routeId: string,
-    component: LazyExoticComponent<T>,
+    component: PreloadableComponent,
     options: PreloadOptions = {}
   ): Promise<void> {
     // Opciones por defecto
@@ -228,9 +236,9 @@ export class RoutePreloader {
    * };
    * ```
    */
-  static preloadOnHover<T extends ComponentType<any>>(
+  static preloadOnHover(
     routeId: string,
-    component: LazyExoticComponent<T>,
+    component: PreloadableComponent,
     delay: number = 500
   ): () => void {
     // Iniciar precarga con delay
@@ -259,10 +267,10 @@ export class RoutePreloader {
    * ]);
    * ```
    */
-  static preloadNeighbors<T extends ComponentType<any>>(
+  static preloadNeighbors(
     routes: Array<{
       id: string;
-      component: LazyExoticComponent<T>;
+      component: PreloadableComponent;
       priority?: PreloadPriority;
     }>
   ): void {
@@ -370,9 +378,9 @@ export class RoutePreloader {
   /**
    * Ejecuta la precarga del componente
    */
-  private static async executePreload<T extends ComponentType<any>>(
+  private static async executePreload(
     routeId: string,
-    component: LazyExoticComponent<T>,
+    component: PreloadableComponent,
     options: Required<PreloadOptions>
   ): Promise<void> {
     const startTime = performance.now();
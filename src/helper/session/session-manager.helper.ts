@@ -0,0 +1,537 @@
+/**
+ * Session Manager - Renovación silenciosa de la sesión JWT
+ *
+ * Evita que el usuario pierda formularios a medio llenar cuando el token expira:
+ * - Renueva el token antes de que expire si el usuario está activo
+ * - Si el usuario está inactivo, emite un aviso con cuenta regresiva ("seguir conectado")
+ * - Refresco single-flight: los 401 concurrentes esperan una sola renovación
+ * - Reenvía las peticiones que recibieron 401 (vía `HttpHelper.setAuthRefreshHandler`)
+ * - Cierra la sesión con `logout` de login.service cuando el token expira
+ * - Comparte el token renovado con las demás pestañas (tab-sync); solo la pestaña
+ *   líder renueva puntualmente, las demás esperan un margen para adoptar su token
+ *
+ * Los handlers (getToken, refreshToken, logout) se inyectan con `configureSessionManager`
+ * para que el helper no dependa de la capa de servicios.
+ *
+ * La renovación (silenciosa y tras un 401) solo se activa con `refreshEnabled`; sin ella
+ * el aviso se muestra antes de expirar y la sesión se cierra al vencer el token.
+ * Si el backend responde 401/403/404 al renovar, la sesión se cierra sin reintentos.
+ *
+ * @author Sistema IPH
+ * @version 1.1.0
+ */
+
+import type { HttpHelper, HttpError, RequestInterceptor } from '../http/http.helper';
+import { getTimeUntilExpiration } from '../security/jwt.helper';
+import { logDebug, logError, logInfo, logWarning } from '../log/logger.helper';
+import { broadcastTabMessage, isLeaderTab, subscribeToTabMessages } from '../tab-sync/tab-sync.helper';
+
+// =====================================================
+// TIPOS
+// =====================================================
+
+/**
+ * Estados de la sesión
+ * - inactive: manager detenido o sin token
+ * - active: token vigente, renovación programada
+ * - refreshing: renovación en curso
+ * - warning: token por expirar sin renovación automática (se muestra el aviso)
+ * - expired: sesión cerrada
+ */
+export type SessionStatus = 'inactive' | 'active' | 'refreshing' | 'warning' | 'expired';
+
+/**
+ * Motivo del cierre de sesión
+ */
+export type SessionEndReason = 'token_expired' | 'refresh_rejected' | 'user_logout';
+
+/**
+ * Estado observable de la sesión
+ */
+export interface SessionState {
+  status: SessionStatus;
+  /** Timestamp (ms) de expiración del token actual */
+  expiresAt: number | null;
+  /** Timestamp (ms) de la última renovación exitosa */
+  lastRefreshAt: number | null;
+  /** Mensaje del último intento de renovación fallido */
+  lastError?: string;
+  /** Motivo del cierre (solo en estado expired) */
+  endReason?: SessionEndReason;
+}
+
+/**
+ * Handlers inyectados desde login.service
+ */
+export interface SessionManagerHandlers {
+  getToken: () => Promise<string | null>;
+  refreshToken: () => Promise<string>;
+  logout: () => Promise<void>;
+  /** Adopta un token renovado en otra pestaña; false si no corresponde a esta sesión */
+  adoptToken?: (token: string) => Promise<boolean>;
+}
+
+/**
+ * Configuración del session manager
+ */
+export interface SessionManagerConfig {
+  /** Antelación (ms) con la que se renueva el token antes de expirar */
+  refreshLeadTime: number;
+  /** Inactividad (ms) a partir de la cual no se renueva en silencio y se muestra el aviso */
+  idleTimeout: number;
+  /** Renovar el token contra el backend (AUTH_REFRESH_ENABLED) */
+  refreshEnabled: boolean;
+}
+
+type SessionListener = (state: SessionState) => void;
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const DEFAULT_CONFIG: SessionManagerConfig = {
+  refreshLeadTime: 5 * 60 * 1000, // 5 minutos (mismo umbral que willExpireSoon)
+  idleTimeout: 15 * 60 * 1000, // 15 minutos
+  refreshEnabled: false
+};
+
+/** Respuestas de la renovación que cierran la sesión (rechazo o endpoint inexistente) */
+const REFRESH_REJECTED_STATUSES = [401, 403, 404];
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+/** Margen con el que una pestaña no líder pospone su renovación (espera el token de la líder) */
+const FOLLOWER_REFRESH_DELAY = 20 * 1000;
+
+/** Máximo delay soportado por setTimeout (~24.8 días) */
+const MAX_TIMEOUT = 2_147_483_647;
+
+const INITIAL_STATE: SessionState = {
+  status: 'inactive',
+  expiresAt: null,
+  lastRefreshAt: null
+};
+
+// =====================================================
+// CLASE PRINCIPAL
+// =====================================================
+
+/**
+ * Gestor de sesión (Singleton)
+ */
+class SessionManager {
+  private static instance: SessionManager;
+
+  private config: SessionManagerConfig = { ...DEFAULT_CONFIG };
+  private handlers: SessionManagerHandlers | null = null;
+  private http: HttpHelper | null = null;
+  private state: SessionState = { ...INITIAL_STATE };
+  private listeners = new Set<SessionListener>();
+
+  private refreshPromise: Promise<boolean> | null = null;
+  private refreshTimer: number | null = null;
+  private expiryTimer: number | null = null;
+  private lastActivityAt = Date.now();
+  private started = false;
+  private tabSyncUnsubscribe: (() => void) | null = null;
+
+  /**
+   * Interceptor: las peticiones lanzadas durante una renovación esperan el nuevo token
+   */
+  private readonly requestInterceptor: RequestInterceptor = {
+    onRequest: async (config) => {
+      if (this.refreshPromise && !config.skipAuthRefresh) {
+        await this.refreshPromise;
+      }
+      return config;
+    }
+  };
+
+  private constructor() {}
+
+  public static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  /**
+   * Inyecta los handlers de autenticación y la configuración
+   */
+  public configure(handlers: SessionManagerHandlers, config: Partial<SessionManagerConfig> = {}): void {
+    this.handlers = handlers;
+    this.config = { ...this.config, ...config };
+
+    logDebug('SessionManager', 'Session manager configurado', {
+      refreshLeadTime: this.config.refreshLeadTime,
+      idleTimeout: this.config.idleTimeout,
+      refreshEnabled: this.config.refreshEnabled
+    });
+  }
+
+  /**
+   * Inicia el seguimiento de la sesión actual
+   * Se llama al montar el layout privado (usuario autenticado)
+   */
+  public async start(http: HttpHelper): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    if (!this.handlers) {
+      logWarning('SessionManager', 'start() llamado sin configureSessionManager(); se omite');
+      return;
+    }
+
+    this.started = true;
+    this.http = http;
+    this.lastActivityAt = Date.now();
+
+    http.addRequestInterceptor(this.requestInterceptor);
+    if (this.config.refreshEnabled) {
+      http.setAuthRefreshHandler(() => this.handleUnauthorized());
+    }
+
+    if (typeof window !== 'undefined') {
+      ACTIVITY_EVENTS.forEach(event =>
+        window.addEventListener(event, this.markActivity, { passive: true })
+      );
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    this.tabSyncUnsubscribe = subscribeToTabMessages('token-refreshed', message => {
+      void this.adoptRemoteToken(message.token);
+    });
+
+    await this.syncFromToken();
+
+    logInfo('SessionManager', 'Seguimiento de sesión iniciado', {
+      expiresAt: this.state.expiresAt ? new Date(this.state.expiresAt).toISOString() : null
+    });
+  }
+
+  /**
+   * Detiene timers, listeners y el handler de 401
+   */
+  public stop(): void {
+    if (!this.started) {
+      return;
+    }
+
+    this.started = false;
+    this.clearTimers();
+
+    if (this.http) {
+      this.http.removeRequestInterceptor(this.requestInterceptor);
+      this.http.setAuthRefreshHandler(null);
+      this.http = null;
+    }
+
+    if (typeof window !== 'undefined') {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.markActivity));
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    this.tabSyncUnsubscribe?.();
+    this.tabSyncUnsubscribe = null;
+
+    this.setState({ ...INITIAL_STATE });
+    logDebug('SessionManager', 'Seguimiento de sesión detenido');
+  }
+
+  /**
+   * Renueva el token (single-flight)
+   * @returns true si el token fue renovado
+   */
+  public refresh(): Promise<boolean> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    if (!this.started || !this.handlers || !this.config.refreshEnabled || this.state.status === 'expired') {
+      return Promise.resolve(false);
+    }
+
+    const handlers = this.handlers;
+    this.setState({ ...this.state, status: 'refreshing' });
+
+    this.refreshPromise = (async () => {
+      try {
+        const token = await handlers.refreshToken();
+
+        // La sesión pudo cerrarse mientras se esperaba la respuesta
+        if (!this.started || this.state.status === 'expired') {
+          return false;
+        }
+
+        this.lastActivityAt = Date.now();
+        this.schedule(this.resolveExpiresAt(token), { lastRefreshAt: Date.now() });
+        broadcastTabMessage({ type: 'token-refreshed', token });
+
+        logInfo('SessionManager', 'Sesión renovada', {
+          expiresAt: this.state.expiresAt ? new Date(this.state.expiresAt).toISOString() : null
+        });
+        return true;
+
+      } catch (error) {
+        const status = (error as HttpError)?.status;
+        if (status !== undefined && REFRESH_REJECTED_STATUSES.includes(status)) {
+          logWarning('SessionManager', 'El backend rechazó la renovación de sesión', { status });
+          void this.end('refresh_rejected');
+          return false;
+        }
+
+        // Fallo transitorio (red, endpoint no disponible): avisar y permitir reintento manual
+        logError('SessionManager', error, 'No se pudo renovar la sesión');
+        this.setState({
+          ...this.state,
+          status: 'warning',
+          lastError: 'No se pudo renovar la sesión. Verifica tu conexión e intenta de nuevo.'
+        });
+        return false;
+
+      } finally {
+        this.refreshPromise = null;
+      }
+    })();
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Cierra la sesión y notifica a los suscriptores
+   */
+  public async end(reason: SessionEndReason): Promise<void> {
+    if (this.state.status === 'expired') {
+      return;
+    }
+
+    this.clearTimers();
+    this.setState({ ...this.state, status: 'expired', endReason: reason });
+
+    logInfo('SessionManager', 'Sesión finalizada', { reason });
+
+    try {
+      await this.handlers?.logout();
+    } catch (error) {
+      logError('SessionManager', error, 'Error ejecutando logout al finalizar sesión');
+    }
+  }
+
+  public getState(): SessionState {
+    return { ...this.state };
+  }
+
+  public getConfig(): SessionManagerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Suscribe un listener a cambios de estado
+   * @returns Función para cancelar la suscripción
+   */
+  public subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // =====================================================
+  // PRIVADOS
+  // =====================================================
+
+  /**
+   * Handler registrado en HttpHelper para respuestas 401
+   */
+  private async handleUnauthorized(): Promise<boolean> {
+    if (!this.started || this.state.status === 'expired') {
+      return false;
+    }
+
+    const token = await this.handlers?.getToken();
+    if (!token) {
+      return false;
+    }
+
+    logDebug('SessionManager', '401 recibido, renovando sesión antes de reenviar');
+    return this.refresh();
+  }
+
+  /**
+   * Lee el token actual y programa renovación y expiración
+   */
+  private async syncFromToken(): Promise<void> {
+    const token = await this.handlers?.getToken();
+
+    if (!token) {
+      this.setState({ ...INITIAL_STATE });
+      return;
+    }
+
+    const expiresAt = this.resolveExpiresAt(token);
+    if (expiresAt <= Date.now()) {
+      await this.end('token_expired');
+      return;
+    }
+
+    this.schedule(expiresAt);
+  }
+
+  /**
+   * Token renovado por otra pestaña: adoptarlo evita una segunda renovación
+   */
+  private async adoptRemoteToken(token: string): Promise<void> {
+    if (!this.started || !this.handlers?.adoptToken || this.refreshPromise || this.state.status === 'expired') {
+      return;
+    }
+
+    const adopted = await this.handlers.adoptToken(token);
+
+    // La sesión pudo cerrarse mientras se validaba el token
+    if (!adopted || !this.started || this.getState().status === 'expired') {
+      return;
+    }
+
+    this.schedule(this.resolveExpiresAt(token), { lastRefreshAt: Date.now() });
+    logDebug('SessionManager', 'Token renovado en otra pestaña adoptado', {
+      expiresAt: this.state.expiresAt ? new Date(this.state.expiresAt).toISOString() : null
+    });
+  }
+
+  private resolveExpiresAt(token: string): number {
+    return Date.now() + getTimeUntilExpiration(token);
+  }
+
+  /**
+   * Programa la renovación (refreshLeadTime antes) y la expiración del token
+   */
+  private schedule(expiresAt: number, patch: Partial<SessionState> = {}): void {
+    this.clearTimers();
+
+    const now = Date.now();
+    const expiresIn = Math.max(0, expiresAt - now);
+    let refreshIn = Math.max(0, expiresAt - this.config.refreshLeadTime - now);
+
+    // Las pestañas no líderes dan tiempo a que la líder renueve y comparta el token
+    if (!isLeaderTab()) {
+      refreshIn = Math.min(refreshIn + FOLLOWER_REFRESH_DELAY, Math.max(0, expiresIn - FOLLOWER_REFRESH_DELAY));
+    }
+
+    this.setState({
+      ...this.state,
+      ...patch,
+      status: 'active',
+      expiresAt,
+      lastError: undefined,
+      endReason: undefined
+    });
+
+    this.refreshTimer = window.setTimeout(() => this.onRefreshDue(), Math.min(refreshIn, MAX_TIMEOUT));
+    this.expiryTimer = window.setTimeout(() => void this.end('token_expired'), Math.min(expiresIn, MAX_TIMEOUT));
+  }
+
+  /**
+   * Momento de renovar: en silencio si hubo actividad reciente, si no mostrar aviso
+   * Sin renovación habilitada siempre se muestra el aviso antes del cierre
+   */
+  private onRefreshDue(): void {
+    this.refreshTimer = null;
+    const idleFor = Date.now() - this.lastActivityAt;
+
+    if (!this.config.refreshEnabled) {
+      logInfo('SessionManager', 'Renovación deshabilitada, mostrando aviso de expiración');
+      this.setState({ ...this.state, status: 'warning' });
+      return;
+    }
+
+    if (idleFor < this.config.idleTimeout) {
+      void this.refresh();
+      return;
+    }
+
+    logInfo('SessionManager', 'Usuario inactivo, mostrando aviso de expiración', {
+      idleMinutes: Math.round(idleFor / 60000)
+    });
+    this.setState({ ...this.state, status: 'warning' });
+  }
+
+  /**
+   * Los timers se ralentizan en pestañas ocultas: reevaluar al volver
+   */
+  private readonly handleVisibilityChange = (): void => {
+    if (document.visibilityState !== 'visible' || !this.state.expiresAt) {
+      return;
+    }
+
+    if (Date.now() >= this.state.expiresAt) {
+      void this.end('token_expired');
+    } else if (this.state.status === 'active') {
+      this.schedule(this.state.expiresAt);
+    }
+  };
+
+  private readonly markActivity = (): void => {
+    this.lastActivityAt = Date.now();
+  };
+
+  private clearTimers(): void {
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.expiryTimer !== null) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private setState(next: SessionState): void {
+    this.state = next;
+    const snapshot = this.getState();
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        logError('SessionManager', error, 'Error en listener de sesión');
+      }
+    });
+  }
+}
+
+// =====================================================
+// INSTANCIA Y FUNCIONES HELPER
+// =====================================================
+
+const sessionManager = SessionManager.getInstance();
+
+export const configureSessionManager = (
+  handlers: SessionManagerHandlers,
+  config?: Partial<SessionManagerConfig>
+): void => sessionManager.configure(handlers, config);
+
+export const startSessionManager = (http: HttpHelper): Promise<void> =>
+  sessionManager.start(http);
+
+export const stopSessionManager = (): void =>
+  sessionManager.stop();
+
+export const refreshSession = (): Promise<boolean> =>
+  sessionManager.refresh();
+
+export const endSession = (reason: SessionEndReason): Promise<void> =>
+  sessionManager.end(reason);
+
+export const getSessionState = (): SessionState =>
+  sessionManager.getState();
+
+export const getSessionConfig = (): SessionManagerConfig =>
+  sessionManager.getConfig();
+
+export const subscribeToSession = (listener: SessionListener): (() => void) =>
+  sessionManager.subscribe(listener);
+
+export { SessionManager, sessionManager };
+export default sessionManager;
@@ -0,0 +1,429 @@
+/**
+ * Tab Sync Helper - Sincronización entre pestañas
+ *
+ * Canal entre pestañas del mismo origen para que un cambio en una pestaña
+ * se refleje de inmediato en las demás:
+ * - Logout
+ * - Renovación de token (session-manager.helper.ts)
+ * - Invalidación de datos de usuario
+ * - Limpieza de namespaces de CacheHelper
+ * - Cambios en la bandeja de notificaciones (leídas, nuevas, eliminadas)
+ *
+ * Además elige una pestaña líder para trabajo periódico (auto-refresh, polling)
+ * y así evitar que N pestañas consulten N veces. La líder es la última pestaña
+ * visible; si se cierra o deja de emitir heartbeats, otra toma el relevo.
+ *
+ * Los roles no se sincronizan: cada pestaña los obtiene del token de su propio login
+ * (sessionStorage) y deben coincidir con el token que valida el backend.
+ *
+ * Transporte: BroadcastChannel, con fallback a eventos `storage` de localStorage.
+ * Los mensajes sensibles (tokens) nunca se envían por el fallback.
+ *
+ * @author Sistema IPH
+ * @version 1.0.0
+ */
+
+import { logDebug, logInfo, logWarning } from '../log/logger.helper';
+import type { CacheNamespace } from '../cache/cache.helper';
+
+// =====================================================
+// TIPOS
+// =====================================================
+
+/**
+ * Mensajes de aplicación enviados entre pestañas
+ */
+export type TabSyncMessage =
+  | { type: 'logout'; userId: string | null }
+  | { type: 'token-refreshed'; token: string }
+  | { type: 'user-data-invalidated' }
+  | { type: 'cache-cleared'; useSessionStorage: boolean; namespace?: CacheNamespace }
+  | { type: 'notifications-updated'; userId: string };
+
+export type TabSyncMessageType = TabSyncMessage['type'];
+
+type TabSyncHandler<T extends TabSyncMessageType> = (
+  message: Extract<TabSyncMessage, { type: T }>
+) => void;
+
+type AnyTabSyncHandler = (message: TabSyncMessage) => void;
+
+/**
+ * Mensajes internos de elección de líder
+ */
+type LeaderMessage =
+  | { type: 'leader-claim'; claimedAt: number }
+  | { type: 'leader-heartbeat'; claimedAt: number }
+  | { type: 'leader-resign' };
+
+interface TabSyncEnvelope {
+  source: string;
+  message: TabSyncMessage | LeaderMessage;
+}
+
+interface TabSyncTransport {
+  post(envelope: TabSyncEnvelope): void;
+  close(): void;
+  /** false si el transporte persiste el mensaje (no apto para datos sensibles) */
+  readonly isPrivate: boolean;
+}
+
+type LeadershipListener = (isLeader: boolean) => void;
+
+// =====================================================
+// CONSTANTES
+// =====================================================
+
+const CHANNEL_NAME = 'iph_tab_sync';
+const STORAGE_FALLBACK_KEY = 'iph_tab_sync_message';
+const HEARTBEAT_INTERVAL = 3000;
+const LEADER_TIMEOUT = 10000;
+const SENSITIVE_TYPES: ReadonlySet<TabSyncMessageType> = new Set(['token-refreshed']);
+
+const generateTabId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// =====================================================
+// TRANSPORTES
+// =====================================================
+
+const createBroadcastTransport = (onEnvelope: (envelope: TabSyncEnvelope) => void): TabSyncTransport => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabSyncEnvelope>) => onEnvelope(event.data);
+
+  return {
+    isPrivate: true,
+    post: envelope => channel.postMessage(envelope),
+    close: () => channel.close()
+  };
+};
+
+const createStorageTransport = (onEnvelope: (envelope: TabSyncEnvelope) => void): TabSyncTransport => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_FALLBACK_KEY || !event.newValue) return;
+    try {
+      onEnvelope(JSON.parse(event.newValue) as TabSyncEnvelope);
+    } catch {
+      // Mensaje corrupto: ignorar
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    isPrivate: false,
+    post: envelope => {
+      // Se agrega un nonce para que mensajes idénticos consecutivos disparen el evento
+      localStorage.setItem(STORAGE_FALLBACK_KEY, JSON.stringify({ ...envelope, nonce: Math.random() }));
+      localStorage.removeItem(STORAGE_FALLBACK_KEY);
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
+
+// =====================================================
+// CLASE PRINCIPAL
+// =====================================================
+
+/**
+ * Canal de sincronización entre pestañas (Singleton)
+ */
+class TabSync {
+  private static instance: TabSync;
+
+  private readonly tabId = generateTabId();
+  private transport: TabSyncTransport | null = null;
+  private handlers = new Map<TabSyncMessageType, Set<AnyTabSyncHandler>>();
+  private leadershipListeners = new Set<LeadershipListener>();
+
+  private leaderId: string | null = null;
+  private leaderClaimedAt = 0;
+  private lastHeartbeatAt = 0;
+  private heartbeatTimer: number | null = null;
+  private initialized = false;
+
+  private constructor() {}
+
+  public static getInstance(): TabSync {
+    if (!TabSync.instance) {
+      TabSync.instance = new TabSync();
+    }
+    return TabSync.instance;
+  }
+
+  /**
+   * Abre el canal e inicia la elección de líder
+   */
+  public init(): void {
+    if (this.initialized || typeof window === 'undefined') {
+      return;
+    }
+
+    this.initialized = true;
+
+    try {
+      this.transport = typeof BroadcastChannel !== 'undefined'
+        ? createBroadcastTransport(envelope => this.handleEnvelope(envelope))
+        : createStorageTransport(envelope => this.handleEnvelope(envelope));
+    } catch (error) {
+      logWarning('TabSync', 'Canal entre pestañas no disponible; esta pestaña operará sola', {
+        error: String(error)
+      });
+      this.transport = null;
+    }
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('pagehide', this.handlePageHide);
+
+    // Sin canal no hay otras pestañas con quién coordinar
+    if (!this.transport || document.visibilityState === 'visible') {
+      this.claimLeadership();
+    } else {
+      this.lastHeartbeatAt = Date.now();
+    }
+
+    this.heartbeatTimer = window.setInterval(() => this.tick(), HEARTBEAT_INTERVAL);
+
+    logInfo('TabSync', 'Sincronización entre pestañas iniciada', {
+      tabId: this.tabId,
+      transport: this.transport ? (this.transport.isPrivate ? 'BroadcastChannel' : 'storage') : 'none'
+    });
+  }
+
+  /**
+   * Cierra el canal (cediendo el liderazgo) y libera listeners
+   */
+  public destroy(): void {
+    if (!this.initialized) {
+      return;
+    }
+
+    this.resignLeadership();
+
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pagehide', this.handlePageHide);
+
+    this.transport?.close();
+    this.transport = null;
+    this.initialized = false;
+  }
+
+  /**
+   * Envía un mensaje a las demás pestañas (nunca se recibe en la pestaña emisora)
+   */
+  public broadcast(message: TabSyncMessage): void {
+    if (!this.transport) {
+      return;
+    }
+
+    if (SENSITIVE_TYPES.has(message.type) && !this.transport.isPrivate) {
+      logDebug('TabSync', 'Mensaje sensible omitido en transporte no privado', { type: message.type });
+      return;
+    }
+
+    this.post(message);
+    logDebug('TabSync', 'Mensaje enviado a otras pestañas', { type: message.type });
+  }
+
+  /**
+   * Suscribe un handler a un tipo de mensaje
+   * @returns Función para cancelar la suscripción
+   */
+  public subscribe<T extends TabSyncMessageType>(type: T, handler: TabSyncHandler<T>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+
+    const stored = handler as unknown as AnyTabSyncHandler;
+    set.add(stored);
+
+    return () => {
+      this.handlers.get(type)?.delete(stored);
+    };
+  }
+
+  public isLeader(): boolean {
+    return !this.initialized || this.leaderId === this.tabId;
+  }
+
+  /**
+   * Suscribe un listener a cambios de liderazgo de esta pestaña
+   */
+  public subscribeToLeadership(listener: LeadershipListener): () => void {
+    this.leadershipListeners.add(listener);
+    return () => {
+      this.leadershipListeners.delete(listener);
+    };
+  }
+
+  public getTabId(): string {
+    return this.tabId;
+  }
+
+  // =====================================================
+  // PRIVADOS
+  // =====================================================
+
+  private post(message: TabSyncMessage | LeaderMessage): void {
+    try {
+      this.transport?.post({ source: this.tabId, message });
+    } catch (error) {
+      logWarning('TabSync', 'No se pudo enviar mensaje entre pestañas', {
+        type: message.type,
+        error: String(error)
+      });
+    }
+  }
+
+  private handleEnvelope(envelope: TabSyncEnvelope): void {
+    if (!envelope || envelope.source === this.tabId || !envelope.message) {
+      return;
+    }
+
+    const { source, message } = envelope;
+
+    switch (message.type) {
+      case 'leader-claim':
+      case 'leader-heartbeat':
+        this.acceptLeaderIfNewer(source, message.claimedAt);
+        return;
+
+      case 'leader-resign':
+        if (this.leaderId === source) {
+          this.setLeader(null, 0);
+          // La pestaña visible toma el relevo de inmediato; las ocultas esperan un poco
+          const delay = document.visibilityState === 'visible' ? 0 : 250 + Math.random() * 500;
+          window.setTimeout(() => {
+            if (!this.leaderId) this.claimLeadership();
+          }, delay);
+        }
+        return;
+
+      default:
+        this.dispatch(message);
+    }
+  }
+
+  private dispatch(message: TabSyncMessage): void {
+    const set = this.handlers.get(message.type);
+    if (!set || set.size === 0) {
+      return;
+    }
+
+    logDebug('TabSync', 'Mensaje recibido de otra pestaña', { type: message.type });
+
+    set.forEach(handler => {
+      try {
+        handler(message);
+      } catch (error) {
+        logWarning('TabSync', 'Error en handler de mensaje entre pestañas', {
+          type: message.type,
+          error: String(error)
+        });
+      }
+    });
+  }
+
+  /**
+   * Gana el reclamo más reciente; en empate, el tabId mayor (todas las pestañas convergen)
+   */
+  private acceptLeaderIfNewer(source: string, claimedAt: number): void {
+    const isNewer = claimedAt > this.leaderClaimedAt ||
+      (claimedAt === this.leaderClaimedAt && (this.leaderId === null || source > this.leaderId));
+
+    if (source === this.leaderId || isNewer) {
+      this.lastHeartbeatAt = Date.now();
+    }
+
+    if (isNewer) {
+      this.setLeader(source, claimedAt);
+    }
+  }
+
+  private claimLeadership(): void {
+    const claimedAt = Date.now();
+    this.setLeader(this.tabId, claimedAt);
+    this.post({ type: 'leader-claim', claimedAt });
+  }
+
+  private resignLeadership(): void {
+    if (this.leaderId === this.tabId) {
+      this.post({ type: 'leader-resign' });
+      this.setLeader(null, 0);
+    }
+  }
+
+  private setLeader(leaderId: string | null, claimedAt: number): void {
+    const wasLeader = this.leaderId === this.tabId;
+    this.leaderId = leaderId;
+    this.leaderClaimedAt = claimedAt;
+    const isLeader = leaderId === this.tabId;
+
+    if (wasLeader !== isLeader) {
+      logDebug('TabSync', isLeader ? 'Esta pestaña es líder' : 'Esta pestaña dejó de ser líder', {
+        tabId: this.tabId
+      });
+      this.leadershipListeners.forEach(listener => listener(isLeader));
+    }
+  }
+
+  /**
+   * Heartbeat de la líder y vigilancia de las seguidoras
+   */
+  private tick(): void {
+    if (this.leaderId === this.tabId) {
+      this.post({ type: 'leader-heartbeat', claimedAt: this.leaderClaimedAt });
+      return;
+    }
+
+    if (Date.now() - this.lastHeartbeatAt > LEADER_TIMEOUT) {
+      logDebug('TabSync', 'Sin heartbeat de la líder, reclamando liderazgo');
+      this.claimLeadership();
+    }
+  }
+
+  private readonly handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible' && this.leaderId !== this.tabId) {
+      this.claimLeadership();
+    }
+  };
+
+  private readonly handlePageHide = (): void => {
+    this.resignLeadership();
+  };
+}
+
+// =====================================================
+// INSTANCIA Y FUNCIONES HELPER
+// =====================================================
+
+const tabSync = TabSync.getInstance();
+
+export const initTabSync = (): void => tabSync.init();
+
+export const destroyTabSync = (): void => tabSync.destroy();
+
+export const broadcastTabMessage = (message: TabSyncMessage): void =>
+  tabSync.broadcast(message);
+
+export const subscribeToTabMessages = <T extends TabSyncMessageType>(
+  type: T,
+  handler: TabSyncHandler<T>
+): (() => void) => tabSync.subscribe(type, handler);
+
+export const isLeaderTab = (): boolean => tabSync.isLeader();
+
+export const subscribeToLeadership = (listener: LeadershipListener): (() => void) =>
+  tabSync.subscribeToLeadership(listener);
+
+export { TabSync, tabSync };
+export default tabSync;
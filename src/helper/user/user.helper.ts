@@ -44,6 +44,7 @@
 import { z } from 'zod';
 import { logInfo, logError, logWarning, logDebug } from '../log/logger.helper';
 import CacheHelper from '../cache/cache.helper';
+import { broadcastTabMessage, subscribeToTabMessages } from '../tab-sync/tab-sync.helper';
 import type {
   UserData,
   UserContext,
@@ -159,6 +160,9 @@ class UserHelper {
         'Instancia de UserHelper creada con sistema de caching (TTL: 5s)'
       );
     }
+
+    // Invalidaciones hechas en otras pestañas (sin volver a difundirlas)
+    subscribeToTabMessages('user-data-invalidated', () => this.invalidateCache({ broadcast: false }));
   }
 
   /**
@@ -190,14 +194,20 @@ class UserHelper {
    * // Después de actualizar perfil
    * userHelper.invalidateCache();
    * ```
+   *
+   * @param options.broadcast - false para invalidar solo en esta pestaña (default: se replica)
    */
-  public invalidateCache(): void {
+  public invalidateCache(options: { broadcast?: boolean } = {}): void {
     this.userDataCache = null;
     this.cacheTimestamp = 0;
 
     if (CONSTANTS.VERBOSE_LOGGING) {
       logDebug(CONSTANTS.MODULE_NAME, 'Cache de usuario invalidado manualmente');
     }
+
+    if (options.broadcast !== false) {
+      broadcastTabMessage({ type: 'user-data-invalidated' });
+    }
   }
 
   /**
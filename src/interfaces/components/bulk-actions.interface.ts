@@ -0,0 +1,141 @@
+/**
+ * Interfaces para acciones masivas sobre IPH
+ * Selección múltiple, barra de acciones y reporte de resultados por elemento
+ */
+
+import type { BulkItemResult, BulkOperationProgress } from '../../helper/bulk/bulk-operation.helper';
+import type { ExportFormat } from '../../helper/export/export.helper';
+
+// =====================================================
+// DATOS
+// =====================================================
+
+/**
+ * IPH objetivo de una acción masiva (común a Histórico e IPH Activos)
+ */
+export interface BulkIphTarget {
+  id: string;
+  referencia: string;
+  estatus?: string;
+}
+
+export type BulkIphResult = BulkItemResult<BulkIphTarget, unknown>;
+
+/**
+ * Reporte de la operación masiva en curso o terminada
+ */
+export interface BulkOperationReport {
+  title: string;
+  running: boolean;
+  progress: BulkOperationProgress;
+  /** Vacío mientras corre; un resultado por IPH al terminar */
+  results: BulkIphResult[];
+  /** Error que impidió iniciar (p.ej. no se pudieron resolver los IPH del filtro) */
+  error?: string;
+}
+
+/**
+ * Archivo generado al exportar la selección
+ */
+export interface BulkExportResult {
+  blob: Blob;
+  fileName: string;
+  rows: number;
+  /** Registros que abarca el filtro (si se conoce) */
+  total?: number;
+  /** La exportación se cortó por el límite de páginas: el archivo está incompleto */
+  truncated?: boolean;
+}
+
+// =====================================================
+// HOOKS
+// =====================================================
+
+/**
+ * Retorno del hook useBulkSelection
+ */
+export interface UseBulkSelectionReturn<T extends BulkIphTarget> {
+  /** Elementos seleccionados de forma explícita (todas las páginas) */
+  selectedItems: T[];
+  /** true si se eligió "todos los que coinciden con el filtro" */
+  allMatching: boolean;
+  /** Total seleccionado (incluye los de otras páginas en modo allMatching) */
+  selectedCount: number;
+  pageSelectionState: 'none' | 'some' | 'all';
+  isSelected: (id: string) => boolean;
+  toggle: (item: T) => void;
+  togglePage: () => void;
+  selectAllMatching: () => void;
+  clear: () => void;
+}
+
+/**
+ * Opciones del hook useBulkIphActions
+ */
+export interface UseBulkIphActionsOptions {
+  /** Resuelve los IPH objetivo (selección explícita o todos los del filtro) */
+  resolveTargets: (signal: AbortSignal) => Promise<BulkIphTarget[]>;
+  /** Exporta la selección en el formato indicado */
+  exportSelection: (format: ExportFormat, signal: AbortSignal) => Promise<BulkExportResult>;
+  /** Se llama al terminar una operación que modifica datos (recargar la lista) */
+  onDataChanged?: () => void;
+}
+
+/**
+ * Retorno del hook useBulkIphActions
+ */
+export interface UseBulkIphActionsReturn {
+  canUseBulkActions: boolean;
+  report: BulkOperationReport | null;
+  isRunning: boolean;
+  runStatusChange: (nuevoEstatus: string, comentario?: string) => Promise<void>;
+  runExport: (format: ExportFormat) => Promise<void>;
+  runPdfGeneration: () => Promise<void>;
+  retryFailed: () => Promise<void>;
+  cancel: () => void;
+  closeReport: () => void;
+}
+
+// =====================================================
+// COMPONENTES
+// =====================================================
+
+/**
+ * Props de la barra de acciones masivas
+ */
+export interface BulkActionsBarProps {
+  selectedCount: number;
+  pageSelectionState: 'none' | 'some' | 'all';
+  allMatching: boolean;
+  /** Total de registros que coinciden con el filtro actual */
+  totalMatching: number;
+  disabled?: boolean;
+  onTogglePage: () => void;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onChangeStatus?: () => void;
+  onExport?: (format: ExportFormat) => void;
+  onGeneratePdf?: () => void;
+  /** Abre la comparación lado a lado (solo con 2 o 3 IPH seleccionados) */
+  onCompare?: () => void;
+  className?: string;
+}
+
+/**
+ * Props del diálogo de cambio de estatus masivo
+ */
+export interface BulkEstatusDialogProps {
+  selectedCount: number;
+  onConfirm: (nuevoEstatus: string, comentario?: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Props del modal de resultados
+ */
+export interface BulkResultsModalProps {
+  report: BulkOperationReport;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
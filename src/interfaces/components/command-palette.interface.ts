@@ -0,0 +1,86 @@
+/**
+ * Interfaces para la paleta de comandos global (Ctrl+K)
+ */
+
+import type { KeyboardEvent } from 'react';
+
+/**
+ * Tipos de resultado de la paleta
+ */
+export type CommandPaletteItemKind = 'recent' | 'action' | 'route' | 'iph' | 'usuario' | 'grupo';
+
+/**
+ * Resultado seleccionable de la paleta
+ * Todos los resultados navegan a una ruta interna (`to`)
+ */
+export interface ICommandPaletteItem {
+  /** ID único dentro de la paleta (prefijado por tipo) */
+  id: string;
+  kind: CommandPaletteItemKind;
+  label: string;
+  description?: string;
+  /** Ruta interna, puede incluir query string */
+  to: string;
+  /** Estado de navegación (origen para breadcrumbs) */
+  state?: Record<string, string>;
+  /** Palabras adicionales para el filtrado local */
+  keywords?: string[];
+  /** Para `recent`: texto de búsqueda a restaurar en lugar de navegar */
+  query?: string;
+}
+
+/**
+ * Grupo de resultados por tipo
+ */
+export interface ICommandPaletteSection {
+  kind: CommandPaletteItemKind;
+  title: string;
+  items: ICommandPaletteItem[];
+}
+
+/**
+ * Acción rápida configurable de la paleta
+ */
+export interface ICommandPaletteAction {
+  id: string;
+  label: string;
+  description: string;
+  to: string;
+  /** ID de la ruta en APP_ROUTES usada para validar acceso por rol */
+  routeId: string;
+  keywords: string[];
+}
+
+/**
+ * Props del componente CommandPalette
+ */
+export interface ICommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Retorno del hook useCommandPalette
+ */
+export interface IUseCommandPaletteReturn {
+  query: string;
+  setQuery: (query: string) => void;
+  sections: ICommandPaletteSection[];
+  /** Resultados aplanados en el orden visual (navegación con teclado) */
+  flatItems: ICommandPaletteItem[];
+  activeIndex: number;
+  setActiveIndex: (index: number) => void;
+  isSearching: boolean;
+  selectItem: (item: ICommandPaletteItem) => void;
+  handleKeyDown: (event: KeyboardEvent<HTMLInputElement>) => void;
+  removeRecentSearch: (query: string) => void;
+}
+
+/**
+ * Retorno del hook useCommandPaletteShortcut
+ */
+export interface IUseCommandPaletteShortcutReturn {
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+}
@@ -0,0 +1,95 @@
+/**
+ * Interfaces para los widgets configurables del dashboard de Inicio
+ */
+
+import type { LucideIcon } from 'lucide-react';
+import type { SystemRoleType } from '../../config/permissions.config';
+
+// =====================================================
+// REGISTRO
+// =====================================================
+
+/**
+ * Widgets disponibles en el dashboard (cada uno aparece una sola vez)
+ */
+export type DashboardWidgetId =
+  | 'resumen-tipo'
+  | 'variacion-anual'
+  | 'grafica-semana'
+  | 'grafica-mes'
+  | 'heatmap'
+  | 'top-creadores'
+  | 'iph-pendientes';
+
+/**
+ * Ancho del widget en la cuadrícula de 4 columnas (1, 2 o 4 columnas)
+ */
+export type DashboardWidgetSize = 'chico' | 'mediano' | 'completo';
+
+/**
+ * Definición de un widget en el registro
+ */
+export interface DashboardWidgetDefinition {
+  id: DashboardWidgetId;
+  titulo: string;
+  descripcion: string;
+  icon: LucideIcon;
+  defaultSize: DashboardWidgetSize;
+  allowedSizes: readonly DashboardWidgetSize[];
+  /** Rol mínimo (jerárquico) para ver el widget */
+  minRole: SystemRoleType;
+}
+
+// =====================================================
+// LAYOUT
+// =====================================================
+
+/**
+ * Widget colocado en el layout del usuario
+ */
+export interface DashboardWidgetInstance {
+  id: DashboardWidgetId;
+  size: DashboardWidgetSize;
+}
+
+/**
+ * Layout persistido (el orden del arreglo es el orden en pantalla)
+ */
+export interface DashboardLayout {
+  widgets: DashboardWidgetInstance[];
+  updatedAt: string;
+}
+
+/**
+ * Origen del layout vigente: del usuario o del sistema
+ */
+export type DashboardLayoutSource = 'usuario' | 'sistema';
+
+// =====================================================
+// HOOKS
+// =====================================================
+
+/**
+ * Retorno del hook useDashboardLayout
+ */
+export interface UseDashboardLayoutReturn {
+  /** Widgets vigentes (el borrador mientras se edita) */
+  widgets: DashboardWidgetInstance[];
+  origen: DashboardLayoutSource;
+  loading: boolean;
+  editando: boolean;
+  guardando: boolean;
+  /** Rol con el que se resuelve el layout del usuario */
+  rol: SystemRoleType | null;
+  /** Widgets permitidos que aún no están en el layout */
+  disponibles: DashboardWidgetDefinition[];
+  iniciarEdicion: () => void;
+  cancelarEdicion: () => void;
+  guardar: () => Promise<void>;
+  agregar: (id: DashboardWidgetId) => void;
+  quitar: (id: DashboardWidgetId) => void;
+  mover: (id: DashboardWidgetId, desplazamiento: number) => void;
+  cambiarTamano: (id: DashboardWidgetId, size: DashboardWidgetSize) => void;
+  /** Borra el layout del usuario y vuelve al del sistema */
+  restablecer: () => Promise<void>;
+}
@@ -67,6 +67,8 @@ export interface TopbarProps {
   userRole: string;
   onLogout: () => void;
   showSearch?: boolean;
+  /** Abre la paleta de comandos (requerido para mostrar la búsqueda) */
+  onSearchClick?: () => void;
   className?: string;
 }
 
@@ -75,7 +77,7 @@ export interface TopbarProps {
  */
 export interface SearchBarProps {
   placeholder?: string;
-  onSearch?: (query: string) => void;
+  onOpen: () => void;
   className?: string;
 }
 
@@ -89,6 +91,15 @@ export interface UserDropdownProps {
   className?: string;
 }
 
+/**
+ * Props para NotificationBell
+ */
+export interface NotificationBellProps {
+  /** Cantidad máxima de entradas visibles en el panel */
+  maxVisible?: number;
+  className?: string;
+}
+
 /**
  * Datos del usuario para el dropdown
  */
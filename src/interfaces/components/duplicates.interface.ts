@@ -0,0 +1,62 @@
+/**
+ * Interfaces para la detección de posibles IPH duplicados
+ * (aviso en el detalle del IPH y cola de revisión)
+ */
+
+import type { DuplicateMatch } from '../../helper/duplicates/duplicate-detection.helper';
+import type {
+  DuplicateReview,
+  DuplicateReviewDecision,
+  DuplicateReviewMap
+} from '../../helper/duplicates/duplicate-review.helper';
+import type { ResponseIphData } from '../iph/iph.interface';
+
+// ==================== AVISO EN EL DETALLE ====================
+
+export interface UseIphDuplicatesOptions {
+  /** Id del IPH; se usa si aún no se tiene el IPH completo */
+  iphId?: string;
+  /** IPH completo si la vista ya lo descargó (evita otra petición) */
+  data?: ResponseIphData | null;
+}
+
+export interface UseIphDuplicatesReturn {
+  /** Solo Superior o superior puede buscar duplicados */
+  hasAccess: boolean;
+  loading: boolean;
+  error: string | null;
+  /** Posibles duplicados no descartados por el usuario */
+  matches: DuplicateMatch[];
+  reviews: DuplicateReviewMap;
+  decide: (pairKey: string, decision: DuplicateReviewDecision) => Promise<void>;
+}
+
+export interface DuplicateWarningProps extends UseIphDuplicatesOptions {
+  className?: string;
+}
+
+// ==================== COLA DE REVISIÓN ====================
+
+export type DuplicateQueueFilter = 'pendientes' | 'confirmados' | 'descartados';
+
+export interface UseDuplicateQueueReturn {
+  hasAccess: boolean;
+  loading: boolean;
+  /** Texto de progreso de la búsqueda en curso */
+  progressLabel: string | null;
+  error: string | null;
+  matches: DuplicateMatch[];
+  reviews: DuplicateReviewMap;
+  filter: DuplicateQueueFilter;
+  setFilter: (filter: DuplicateQueueFilter) => void;
+  counts: Record<DuplicateQueueFilter, number>;
+  rescan: () => void;
+  cancel: () => void;
+  decide: (pairKey: string, decision: DuplicateReviewDecision | null) => Promise<void>;
+}
+
+export interface DuplicatePairCardProps {
+  match: DuplicateMatch;
+  review?: DuplicateReview;
+  onDecision: (pairKey: string, decision: DuplicateReviewDecision | null) => void;
+}
@@ -0,0 +1,55 @@
+/**
+ * Interfaces para los filtros guardados (presets) de las listas de IPH
+ */
+
+// =====================================================
+// DATOS
+// =====================================================
+
+/**
+ * Lista a la que pertenece un preset (cada una tiene su propio tipo de filtros)
+ */
+export type FilterPresetScope = 'historial-iph' | 'iph-activo';
+
+/**
+ * Filtro guardado con nombre por el usuario
+ */
+export interface FilterPreset<T> {
+  id: string;
+  name: string;
+  filters: T;
+  createdAt: string;
+}
+
+// =====================================================
+// HOOKS
+// =====================================================
+
+/**
+ * Retorno del hook useFilterPresets
+ */
+export interface UseFilterPresetsReturn<T> {
+  presets: FilterPreset<T>[];
+  loading: boolean;
+  /** Preset cuyos filtros coinciden con los actuales */
+  activePresetId: string | null;
+  /** Guarda los filtros actuales con el nombre indicado (reemplaza si ya existe) */
+  savePreset: (name: string) => Promise<boolean>;
+  deletePreset: (id: string) => Promise<void>;
+}
+
+// =====================================================
+// COMPONENTES
+// =====================================================
+
+/**
+ * Props de la barra de chips de presets
+ */
+export interface FilterPresetChipsProps<T> {
+  scope: FilterPresetScope;
+  /** Filtros actuales de la lista (lo que se guarda al crear un preset) */
+  currentFilters: T;
+  onApply: (filters: T) => void;
+  disabled?: boolean;
+  className?: string;
+}
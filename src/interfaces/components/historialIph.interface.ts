@@ -3,6 +3,11 @@
  * Manejo de historiales y estadísticas de IPHs
  */
 
+import type { RealtimeStatus } from '../../helper/realtime/realtime.helper';
+import type { StatusTransition } from '../../config/status.config';
+import type { BulkIphTarget } from './bulk-actions.interface';
+import type { IphCompletenessSummary } from '../../helper/iph-validation/iph-completeness.helper';
+
 // ==================== INTERFACES BASE ====================
 
 /**
@@ -61,6 +66,11 @@ export interface FiltrosHistorial {
   usuario?: string;
   busqueda?: string;
   busquedaPor?: 'estatus' | 'tipoDelito' | 'usuario' | 'n_referencia' | '';
+  /**
+   * IPH específicos separados por coma (enlaces desde la matriz horaria)
+   * El backend no filtra por id: se aplica en el cliente sobre los demás filtros
+   */
+  ids?: string;
 }
 
 /**
@@ -100,10 +110,22 @@ export interface HistorialTableProps {
   registros: RegistroHistorialIPH[];
   loading?: boolean;
   onVerDetalle: (registro: RegistroHistorialIPH) => void;
-  onEditarEstatus?: (id: string, nuevoEstatus: RegistroHistorialIPH['estatus']) => void;
+  onEditarEstatus?: (id: string, nuevoEstatus: RegistroHistorialIPH['estatus'], comentario?: string) => Promise<void>;
+  /** IPH con eventos en tiempo real recientes (se resaltan) */
+  highlightedIds?: string[];
+  /** Selección múltiple: si se indica `onToggleSelect` se muestra la columna de casillas */
+  isSelected?: (id: string) => boolean;
+  onToggleSelect?: (registro: RegistroHistorialIPH) => void;
+  /** Completitud por ID de IPH; si se indica se muestra la columna "Completitud" */
+  completeness?: IphCompletenessMap;
   className?: string;
 }
 
+/**
+ * Completitud por ID de IPH: sin clave = cargando, `null` = no se pudo calcular
+ */
+export type IphCompletenessMap = Record<string, IphCompletenessSummary | null>;
+
 /**
  * Props para las tarjetas de estadísticas
  */
@@ -147,7 +169,25 @@ export interface FiltrosHistorialProps {
 export interface DetalleIPHProps {
   registro: RegistroHistorialIPH;
   onClose: () => void;
-  onEditarEstatus?: (nuevoEstatus: RegistroHistorialIPH['estatus']) => void;
+  onEditarEstatus?: (nuevoEstatus: RegistroHistorialIPH['estatus'], comentario?: string) => Promise<void>;
+  className?: string;
+}
+
+/**
+ * Props del diálogo de confirmación de cambio de estatus
+ */
+export interface CambioEstatusDialogProps {
+  registro: Pick<RegistroHistorialIPH, 'id' | 'numeroReferencia' | 'estatus'>;
+  transition: StatusTransition;
+  onConfirm: (comentario?: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Props de la bitácora (línea de tiempo) de estatus
+ */
+export interface EstatusTimelineProps {
+  registro: RegistroHistorialIPH;
   className?: string;
 }
 
@@ -165,6 +205,10 @@ export interface UseHistorialIPHState {
   paginacion: PaginacionHistorial;
   registroSeleccionado: RegistroHistorialIPH | null;
   estatusOptions: string[];
+  realtimeStatus: RealtimeStatus;
+  recentIphIds: string[];
+  /** El filtro `ids` llegó al límite de páginas sin encontrar todos los IPH */
+  listadoIdsTruncado: boolean;
 }
 
 /**
@@ -178,7 +222,7 @@ export interface UseHistorialIPHActions {
   clearError: () => void;
   verDetalle: (registro: RegistroHistorialIPH) => void;
   cerrarDetalle: () => void;
-  editarEstatus: (id: string, nuevoEstatus: RegistroHistorialIPH['estatus']) => Promise<void>;
+  editarEstatus: (id: string, nuevoEstatus: RegistroHistorialIPH['estatus'], comentario?: string) => Promise<void>;
   canGoToNextPage: boolean;
   canGoToPreviousPage: boolean;
   goToNextPage: () => void;
@@ -215,8 +259,12 @@ export interface GetHistorialIPHParams {
  */
 export interface UpdateEstatusIPHParams {
   id: string;
+  /** Estatus actual: se valida la transición contra STATUS_TRANSITIONS antes de enviar */
+  estatusActual: RegistroHistorialIPH['estatus'];
   nuevoEstatus: RegistroHistorialIPH['estatus'];
   observaciones?: string;
+  /** Encolar en la bandeja offline si no hay conexión (default true; false en operaciones masivas) */
+  queueable?: boolean;
 }
 
 // ==================== NUEVAS INTERFACES PARA API ====================
@@ -270,6 +318,8 @@ export interface PaginatedResHistory {
 export interface ResHistoryData {
   id: string;
   nReferencia: string;
+  /** Folio del sistema (no todas las versiones del backend lo envían) */
+  nFolioSist?: string;
   fechaCreacion: string;
   ubicacion: Coordenadas | undefined;
   tipoDelito: string | undefined;
@@ -277,6 +327,68 @@ export interface ResHistoryData {
   usuario: string;
 }
 
+// ==================== INTERFACES DE EXPORTACIÓN ====================
+
+/**
+ * Columnas disponibles para exportar el historial
+ */
+export type HistorialExportColumnKey =
+  | 'referencia'
+  | 'folio'
+  | 'fecha'
+  | 'estatus'
+  | 'tipo'
+  | 'usuario'
+  | 'ubicacion';
+
+/**
+ * Progreso de la exportación (una actualización por página descargada)
+ */
+export interface HistorialExportProgress {
+  page: number;
+  totalPages: number;
+  rows: number;
+  total: number;
+}
+
+/**
+ * Props del modal de exportación
+ */
+export interface ExportHistorialModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Filtros activos de la vista; se exportan todas las páginas que coinciden */
+  filtros: FiltrosHistorial;
+  /** Total de registros según la última consulta (informativo) */
+  totalRegistros?: number;
+}
+
+/**
+ * Retorno del hook useExportHistorial
+ */
+export interface UseExportHistorialReturn {
+  /** Superior o superior jerárquico (Elemento no puede exportar masivamente) */
+  canExport: boolean;
+  format: 'csv' | 'xlsx';
+  setFormat: (format: 'csv' | 'xlsx') => void;
+  selectedColumns: HistorialExportColumnKey[];
+  toggleColumn: (key: HistorialExportColumnKey) => void;
+  isExporting: boolean;
+  progress: HistorialExportProgress | null;
+  startExport: () => Promise<void>;
+  cancelExport: () => void;
+}
+
+// ==================== INTERFACES DE ACCIONES MASIVAS ====================
+
+/**
+ * Registro del historial seleccionado para una acción masiva
+ * (conserva el registro completo para exportar la selección sin volver a consultarla)
+ */
+export interface HistorialBulkTarget extends BulkIphTarget {
+  registro: RegistroHistorialIPH;
+}
+
 // ==================== INTERFACES DEL BACKEND (BasicDataDto) ====================
 
 /**
@@ -207,6 +207,8 @@ export interface IPDFExportButtonProps {
   informeId: string;
   referencia?: string;
   loading?: boolean;
+  /** Texto mientras se genera (p.ej. avance de descarga de fotos) */
+  loadingLabel?: string;
   disabled?: boolean;
   className?: string;
   onExport?: (informeId: string) => Promise<void>;
@@ -3,6 +3,9 @@
  * Sistema completo de tipos para lista de IPH con filtros y paginación
  */
 
+import type { RealtimeStatus } from '../../helper/realtime/realtime.helper';
+import type { BulkIphTarget } from './bulk-actions.interface';
+
 // =====================================================
 // INTERFACES DE DATOS BASE
 // =====================================================
@@ -38,6 +41,13 @@ export interface IRegistroIPH {
   longitud?: number;
 }
 
+/**
+ * IPH seleccionado para una acción masiva (conserva el registro para exportarlo)
+ */
+export interface IIphActivoBulkTarget extends BulkIphTarget {
+  registro: IRegistroIPH;
+}
+
 // =====================================================
 // INTERFACES DE FILTROS Y PARÁMETROS
 // =====================================================
@@ -82,6 +92,9 @@ export interface IIPHCardProps {
   registro: IRegistroIPH;
   onClick: (registro: IRegistroIPH) => void;
   loading?: boolean;
+  /** Selección múltiple: si se indica `onToggleSelect` se muestra la casilla */
+  selected?: boolean;
+  onToggleSelect?: (registro: IRegistroIPH) => void;
   className?: string;
 }
 
@@ -89,6 +102,9 @@ export interface IIPHCardsGridProps {
   registros: IRegistroIPH[];
   loading: boolean;
   onCardClick: (registro: IRegistroIPH) => void;
+  highlightedIds?: string[]; // IPH con eventos en tiempo real recientes
+  isSelected?: (id: string) => boolean; // Selección múltiple (acciones masivas)
+  onToggleSelect?: (registro: IRegistroIPH) => void;
   className?: string;
 }
 
@@ -107,6 +123,7 @@ export interface IAutoRefreshIndicatorProps {
   isActive: boolean;
   nextRefreshIn: number; // segundos restantes
   onToggle: () => void;
+  realtimeStatus?: RealtimeStatus; // 'live' reemplaza el countdown por el indicador en vivo
   className?: string;
 }
 
@@ -154,6 +171,8 @@ export interface IUseInformePolicialReturn {
   isAnyLoading: boolean;
   timeUntilNextRefresh: number;
   visibleRecords: IRegistroIPH[];
+  realtimeStatus: RealtimeStatus;
+  recentIphIds: string[];
 }
 
 // =====================================================
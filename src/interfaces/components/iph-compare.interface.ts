@@ -0,0 +1,102 @@
+/**
+ * Interfaces para la vista de comparación de IPH
+ * Compara lado a lado 2 o 3 `ResponseIphData` (ruta `iphoficial/compare?ids=a,b`)
+ */
+
+import type { ResponseIphData } from '../iph/iph.interface';
+
+// ==================== DATOS ====================
+
+/**
+ * Resultado de carga de un IPH a comparar
+ */
+export interface IphCompareRecord {
+  id: string;
+  data: ResponseIphData | null;
+  error: string | null;
+}
+
+/**
+ * IPH cargado y listo para comparar (columna de la vista)
+ */
+export interface IphCompareColumn {
+  id: string;
+  referencia: string;
+  /** Color de la columna y de su marcador en el mapa */
+  color: string;
+  data: ResponseIphData;
+}
+
+/**
+ * Fila alineada: un mismo campo en cada columna
+ */
+export interface IphCompareFieldRow {
+  key: string;
+  label: string;
+  /** Valor formateado por columna ('' si no existe) */
+  values: string[];
+  differs: boolean;
+}
+
+export type IphCompareSectionId =
+  | 'general'
+  | 'primerRespondiente'
+  | 'lugarIntervencion'
+  | 'detenciones'
+  | 'inventario';
+
+export interface IphCompareSection {
+  id: IphCompareSectionId;
+  title: string;
+  rows: IphCompareFieldRow[];
+  differingCount: number;
+}
+
+/**
+ * Ubicación de un IPH para el mapa compartido
+ */
+export interface IphCompareLocation {
+  id: string;
+  referencia: string;
+  color: string;
+  lat: number;
+  lng: number;
+  direccion: string;
+}
+
+// ==================== HOOK ====================
+
+export interface UseIphCompareReturn {
+  ids: string[];
+  hasAccess: boolean;
+  loading: boolean;
+  /** Error que impide la comparación (ids inválidos, menos de 2 IPH cargados) */
+  error: string | null;
+  /** IPH que no se pudieron cargar */
+  failedRecords: IphCompareRecord[];
+  columns: IphCompareColumn[];
+  sections: IphCompareSection[];
+  narrativas: string[];
+  locations: IphCompareLocation[];
+  refetch: () => void;
+  goBack: () => void;
+}
+
+// ==================== PROPS ====================
+
+export interface CompareSectionTableProps {
+  section: IphCompareSection;
+  columns: IphCompareColumn[];
+  showOnlyDifferences: boolean;
+}
+
+export interface NarrativaDiffProps {
+  columns: IphCompareColumn[];
+  narrativas: string[];
+}
+
+export interface CompareMapProps {
+  locations: IphCompareLocation[];
+  height?: string;
+  className?: string;
+}
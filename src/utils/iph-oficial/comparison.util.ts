@@ -0,0 +1,286 @@
+/**
+ * Utilidades de comparación de IPH
+ * Alinea por sección los campos de 2 o 3 `ResponseIphData` y marca los que difieren
+ *
+ * @module IphOficialComparison
+ * @version 1.0.0
+ */
+
+import type {
+  I_ArmaObjeto,
+  I_InspeccionVehiculo,
+  IDetencion,
+  ILugarIntervencion,
+  ResponseIphData
+} from '../../interfaces/iph/iph.interface';
+import type {
+  IphCompareColumn,
+  IphCompareFieldRow,
+  IphCompareLocation,
+  IphCompareSection,
+  IphCompareSectionId
+} from '../../interfaces/components/iph-compare.interface';
+import { firstIphItem, parseIphCoordinates, toIphList } from './normalize.util';
+
+// ==================== CONFIGURACIÓN ====================
+
+export const MIN_COMPARE_IPH = 2;
+export const MAX_COMPARE_IPH = 3;
+
+/**
+ * Color por columna (también se usa en los marcadores del mapa)
+ */
+export const COMPARE_COLORS = ['#4d4725', '#2563eb', '#c2410c'] as const;
+
+// ==================== TIPOS INTERNOS ====================
+
+interface FieldDescriptor<T> {
+  key: string;
+  label: string;
+  get: (item: T) => unknown;
+}
+
+interface ListSectionConfig<T> {
+  key: string;
+  itemLabel: string;
+  getItems: (data: ResponseIphData) => T[];
+  fields: FieldDescriptor<T>[];
+}
+
+// ==================== HELPERS ====================
+
+const lugarOf = (data: ResponseIphData): ILugarIntervencion | undefined =>
+  firstIphItem<ILugarIntervencion>(data.lugarIntervencion);
+
+const joinParts = (...parts: Array<string | undefined>): string =>
+  parts.map(part => part?.trim()).filter(Boolean).join(' ');
+
+/**
+ * Formatea un valor para mostrarlo en la tabla ('' si no existe)
+ */
+export const formatCompareValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (value instanceof Date) return value.toLocaleString('es-MX');
+  return String(value).replace(/\s+/g, ' ').trim();
+};
+
+const normalizeForCompare = (value: string): string => value.toLocaleLowerCase('es-MX');
+
+const buildRow = (key: string, label: string, values: string[]): IphCompareFieldRow => ({
+  key,
+  label,
+  values,
+  differs: new Set(values.map(normalizeForCompare)).size > 1
+});
+
+const buildSection = (
+  id: IphCompareSectionId,
+  title: string,
+  rows: IphCompareFieldRow[]
+): IphCompareSection => {
+  // Filas vacías en todas las columnas no aportan a la comparación
+  const visibleRows = rows.filter(row => row.values.some(Boolean));
+  return {
+    id,
+    title,
+    rows: visibleRows,
+    differingCount: visibleRows.filter(row => row.differs).length
+  };
+};
+
+const buildObjectSection = (
+  id: IphCompareSectionId,
+  title: string,
+  records: ResponseIphData[],
+  fields: FieldDescriptor<ResponseIphData>[]
+): IphCompareSection =>
+  buildSection(
+    id,
+    title,
+    fields.map(field => buildRow(field.key, field.label, records.map(data => formatCompareValue(field.get(data)))))
+  );
+
+/**
+ * Sección de listas (detenciones, inventario): se alinea el elemento N de cada IPH
+ */
+const buildListRows = <T>(records: ResponseIphData[], config: ListSectionConfig<T>): IphCompareFieldRow[] => {
+  const lists = records.map(config.getItems);
+  const maxItems = Math.max(0, ...lists.map(list => list.length));
+
+  const rows: IphCompareFieldRow[] = [
+    buildRow(`${config.key}.total`, `Total (${config.itemLabel.toLowerCase()})`, lists.map(list => String(list.length)))
+  ];
+
+  for (let index = 0; index < maxItems; index++) {
+    for (const field of config.fields) {
+      rows.push(buildRow(
+        `${config.key}.${index}.${field.key}`,
+        `${config.itemLabel} ${index + 1} · ${field.label}`,
+        lists.map(list => (list[index] ? formatCompareValue(field.get(list[index])) : ''))
+      ));
+    }
+  }
+
+  return rows;
+};
+
+// ==================== DESCRIPTORES POR SECCIÓN ====================
+
+const GENERAL_FIELDS: FieldDescriptor<ResponseIphData>[] = [
+  { key: 'nReferencia', label: 'Referencia', get: data => firstIphItem(data.iph)?.nReferencia },
+  { key: 'nFolioSist', label: 'Folio del sistema', get: data => firstIphItem(data.iph)?.nFolioSist },
+  { key: 'tipoIph', label: 'Tipo', get: data => firstIphItem(data.iph)?.tipoIph?.nombre },
+  { key: 'estatus', label: 'Estatus', get: data => firstIphItem(data.iph)?.estatus },
+  { key: 'fechaCreacion', label: 'Fecha de creación', get: data => firstIphItem(data.iph)?.fechaCreacion }
+];
+
+const PRIMER_RESPONDIENTE_FIELDS: FieldDescriptor<ResponseIphData>[] = [
+  {
+    key: 'nombre',
+    label: 'Nombre',
+    get: data => {
+      const pr = firstIphItem(data.primerRespondiente);
+      return pr ? joinParts(pr.nombre, pr.primerApellido, pr.segundoApellido) : undefined;
+    }
+  },
+  { key: 'institucion', label: 'Institución', get: data => firstIphItem(data.primerRespondiente)?.institucion },
+  { key: 'gradoCargo', label: 'Grado o cargo', get: data => firstIphItem(data.primerRespondiente)?.gradoCargo },
+  { key: 'unidadArribo', label: 'Unidad de arribo', get: data => firstIphItem(data.primerRespondiente)?.unidadArribo },
+  { key: 'nElementos', label: 'Número de elementos', get: data => firstIphItem(data.primerRespondiente)?.nElementos }
+];
+
+const LUGAR_FIELDS: FieldDescriptor<ResponseIphData>[] = [
+  { key: 'calleTramo', label: 'Calle / tramo', get: data => lugarOf(data)?.calleTramo },
+  { key: 'nExterior', label: 'Número exterior', get: data => lugarOf(data)?.nExterior },
+  { key: 'nInterior', label: 'Número interior', get: data => lugarOf(data)?.nInterior },
+  { key: 'referencia', label: 'Referencia', get: data => lugarOf(data)?.referencia },
+  { key: 'colonia', label: 'Colonia', get: data => lugarOf(data)?.localizacion?.colonia },
+  { key: 'codigoPostal', label: 'Código postal', get: data => lugarOf(data)?.localizacion?.codigoPostal },
+  { key: 'municipio', label: 'Municipio', get: data => lugarOf(data)?.localizacion?.municipio },
+  { key: 'estado', label: 'Estado', get: data => lugarOf(data)?.localizacion?.estado },
+  {
+    key: 'coordenadas',
+    label: 'Coordenadas',
+    get: data => {
+      const coords = lugarOf(data)?.coordenadas;
+      return coords?.latitud && coords.longitud ? `${coords.latitud}, ${coords.longitud}` : undefined;
+    }
+  },
+  { key: 'riesgoNatural', label: 'Riesgo natural', get: data => lugarOf(data)?.riesgoNatural },
+  { key: 'riesgoSocial', label: 'Riesgo social', get: data => lugarOf(data)?.riesgoSocial }
+];
+
+const DETENCIONES_CONFIG: ListSectionConfig<IDetencion> = {
+  key: 'detencion',
+  itemLabel: 'Detenido',
+  getItems: data => toIphList<IDetencion>(data.detencion),
+  fields: [
+    {
+      key: 'nombre',
+      label: 'Nombre',
+      get: item => joinParts(item.nombreDetenido, item.primerApellidoDetenido, item.segundoApellidoDetenido)
+    },
+    { key: 'alias', label: 'Alias', get: item => item.aliasDetenido },
+    { key: 'rnd', label: 'RND', get: item => item.rnd },
+    { key: 'fechaHora', label: 'Fecha y hora', get: item => item.fechaHora },
+    { key: 'sexo', label: 'Sexo', get: item => item.sexo },
+    { key: 'edad', label: 'Edad', get: item => item.edad },
+    { key: 'lugarTraslado', label: 'Lugar de traslado', get: item => item.lugarTraslado }
+  ]
+};
+
+const ARMAS_OBJETOS_CONFIG: ListSectionConfig<I_ArmaObjeto> = {
+  key: 'armaObjeto',
+  itemLabel: 'Arma/objeto',
+  getItems: data => toIphList<I_ArmaObjeto>(data.armaObjeto),
+  fields: [
+    { key: 'tipoInventario', label: 'Tipo de inventario', get: item => item.tipoInventario },
+    { key: 'descripcion', label: 'Descripción', get: item => item.descripcionArmObj },
+    { key: 'tipoArma', label: 'Tipo de arma', get: item => item.tipoArma },
+    { key: 'calibre', label: 'Calibre', get: item => item.calibreArma },
+    { key: 'matricula', label: 'Matrícula', get: item => item.matriculaArma },
+    { key: 'numeroSerie', label: 'Número de serie', get: item => item.numeroSerieArma },
+    { key: 'destino', label: 'Destino', get: item => item.destinoArmOb }
+  ]
+};
+
+const VEHICULOS_CONFIG: ListSectionConfig<I_InspeccionVehiculo> = {
+  key: 'vehiculo',
+  itemLabel: 'Vehículo',
+  getItems: data => toIphList<I_InspeccionVehiculo>(data.inspeccionVehiculo),
+  fields: [
+    { key: 'tipo', label: 'Tipo', get: item => item.tipoVehiculo },
+    { key: 'marca', label: 'Marca / submarca', get: item => joinParts(item.marca, item.submarca) },
+    { key: 'modelo', label: 'Modelo', get: item => item.modelo },
+    { key: 'color', label: 'Color', get: item => item.color },
+    { key: 'placa', label: 'Placa', get: item => item.placa },
+    { key: 'numeroSerie', label: 'Número de serie', get: item => item.numeroSerie },
+    { key: 'destino', label: 'Destino', get: item => item.destino }
+  ]
+};
+
+// ==================== API PÚBLICA ====================
+
+/**
+ * Lee los ids de `?ids=a,b,c` (sin vacíos ni duplicados)
+ */
+export const parseCompareIds = (raw: string | null): string[] => {
+  if (!raw) return [];
+  return Array.from(new Set(raw.split(',').map(id => id.trim()).filter(Boolean)));
+};
+
+/**
+ * Enlace a la vista de comparación
+ *
+ * @example
+ * ```typescript
+ * navigate(buildIphCompareLink(['GUGN011', 'GUGN012'])); // '/iphoficial/compare?ids=GUGN011,GUGN012'
+ * ```
+ */
+export const buildIphCompareLink = (ids: string[]): string =>
+  `/iphoficial/compare?ids=${ids.map(encodeURIComponent).join(',')}`;
+
+export const getCompareReferencia = (data: ResponseIphData, fallback: string): string =>
+  firstIphItem(data.iph)?.nReferencia || fallback;
+
+export const getCompareNarrativa = (data: ResponseIphData): string =>
+  firstIphItem(data.narrativaHecho)?.contenido?.trim() ?? '';
+
+/**
+ * Construye las secciones alineadas (en el orden de las columnas)
+ */
+export const buildCompareSections = (records: ResponseIphData[]): IphCompareSection[] => [
+  buildObjectSection('general', 'Información general', records, GENERAL_FIELDS),
+  buildObjectSection('primerRespondiente', 'Primer respondiente', records, PRIMER_RESPONDIENTE_FIELDS),
+  buildObjectSection('lugarIntervencion', 'Lugar de la intervención', records, LUGAR_FIELDS),
+  buildSection('detenciones', 'Detenciones', buildListRows(records, DETENCIONES_CONFIG)),
+  buildSection('inventario', 'Inventario de armas, objetos y vehículos', [
+    ...buildListRows(records, ARMAS_OBJETOS_CONFIG),
+    ...buildListRows(records, VEHICULOS_CONFIG)
+  ])
+];
+
+/**
+ * Ubicación del IPH: coordenadas del lugar de intervención o, en su defecto,
+ * las del IPH. Devuelve null si no hay coordenadas válidas.
+ */
+export const getCompareLocation = (column: IphCompareColumn): IphCompareLocation | null => {
+  const lugar = lugarOf(column.data);
+  const coords = lugar?.coordenadas ?? firstIphItem(column.data.iph)?.coordenadas;
+
+  const parsed = parseIphCoordinates(coords?.latitud, coords?.longitud);
+  if (!parsed) return null;
+
+  return {
+    id: column.id,
+    referencia: column.referencia,
+    color: column.color,
+    ...parsed,
+    direccion: [
+      joinParts(lugar?.calleTramo, lugar?.nExterior),
+      lugar?.localizacion?.colonia,
+      lugar?.localizacion?.municipio
+    ].filter(Boolean).join(', ')
+  };
+};
@@ -0,0 +1,120 @@
+/**
+ * Hojas de cadena de custodia a partir del IPH completo
+ * (ver helper/custody/custody-chain.helper)
+ *
+ * - Objetos: Anexo D (armas y objetos), una hoja por elemento
+ * - Movimientos: aseguramiento por el personal del Anexo D y las entregas-
+ *   recepción del Anexo F (quién entrega, quién recibe y fecha)
+ *
+ * @module IphOficialCustody
+ * @version 1.0.0
+ */
+
+import {
+  buildCustodyItemCode,
+  type CustodyItem,
+  type CustodyPerson,
+  type CustodySheetSet,
+  type CustodyTransfer
+} from '../../helper/custody/custody-chain.helper';
+import type {
+  I_ArmaObjeto,
+  IDisposicionOficial,
+  IEntregaRecepcion,
+  ResponseIphData
+} from '../../interfaces/iph/iph.interface';
+import { firstIphItem, toIphList } from './normalize.util';
+
+const joinName = (...parts: Array<string | undefined>): string =>
+  parts.map(part => part?.trim()).filter(Boolean).join(' ');
+
+const toCustodyPerson = (disposicion: IDisposicionOficial): CustodyPerson => ({
+  nombre: joinName(disposicion.nombre, disposicion.primerApellido, disposicion.segundoApellido),
+  cargo: disposicion.cargoGrado?.trim() || undefined,
+  adscripcion: disposicion.adscripcion?.trim() || undefined
+});
+
+const toCustodyPeople = (value: IDisposicionOficial | IDisposicionOficial[] | undefined): CustodyPerson[] =>
+  toIphList(value).map(toCustodyPerson).filter(person => person.nombre !== '');
+
+const toIsoDate = (value: Date | string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Movimientos de entrega-recepción del Anexo F (comunes a todos los objetos)
+ */
+const buildEntregaTransfers = (entregas: IEntregaRecepcion[]): CustodyTransfer[] =>
+  entregas.map(entrega => ({
+    etapa: 'Entrega-recepción (Anexo F)',
+    fecha: toIsoDate(entrega.fechaEntregaRecepcion),
+    entrega: toCustodyPeople(entrega.disposiciones),
+    recibe: toCustodyPeople(entrega.respondienteRecepcion),
+    observaciones: entrega.observaciones?.trim() || undefined
+  }));
+
+const buildItem = (
+  item: I_ArmaObjeto,
+  index: number,
+  folio: string | undefined,
+  entregaTransfers: CustodyTransfer[]
+): CustodyItem => {
+  const esArma = Boolean(item.tipoArma?.trim());
+  const detalles = [
+    { label: 'Tipo de inventario', value: item.tipoInventario },
+    { label: 'Objeto encontrado', value: item.objetoEncontrado },
+    { label: 'Tipo de objeto', value: item.tipoObjetoEncontrado },
+    { label: 'Tipo de arma', value: item.tipoArma },
+    { label: 'Calibre', value: item.calibreArma },
+    { label: 'Color', value: item.colorArma },
+    { label: 'Matrícula', value: item.matriculaArma },
+    { label: 'Número de serie', value: item.numeroSerieArma },
+    { label: 'Aportación o inspección', value: item.aportacionInspeccion },
+    { label: 'Tipo de inspección', value: item.tipoInspeccion },
+    { label: 'Lugar de encuentro', value: item.lugarEncuentro },
+    { label: 'Destino', value: item.destinoArmOb },
+    {
+      label: 'Persona a quien se aseguró',
+      value: joinName(item.nombreAsegurado, item.primerApellidoAsegurado, item.segundoApellidoAsegurado)
+    }
+  ]
+    .map(detalle => ({ label: detalle.label, value: detalle.value?.trim() ?? '' }))
+    .filter(detalle => detalle.value !== '');
+
+  const aseguramiento: CustodyTransfer = {
+    etapa: 'Hallazgo y aseguramiento (Anexo D)',
+    entrega: [],
+    recibe: toCustodyPeople(item.disposiciones)
+  };
+
+  return {
+    index,
+    code: buildCustodyItemCode(folio, index),
+    tipo: esArma ? 'Arma' : 'Objeto',
+    descripcion: item.descripcionArmObj?.trim() || item.objetoEncontrado?.trim() || item.tipoArma?.trim() || 'Sin descripción',
+    detalles,
+    testigos: toIphList(item.testigos)
+      .map(testigo => joinName(testigo.nombre, testigo.primerApellido, testigo.segundoApellido))
+      .filter(Boolean),
+    transfers: [aseguramiento, ...entregaTransfers]
+  };
+};
+
+/**
+ * Arma las hojas de custodia de todos los objetos del Anexo D
+ */
+export const buildCustodySheetSet = (data: ResponseIphData): CustodySheetSet => {
+  const iph = firstIphItem(data.iph);
+  const folio = iph?.nFolioSist || iph?.nReferencia || '';
+  const entregaTransfers = buildEntregaTransfers(toIphList<IEntregaRecepcion>(data.entregaRecepcion));
+
+  return {
+    folio,
+    referencia: iph?.nReferencia || '',
+    items: toIphList<I_ArmaObjeto>(data.armaObjeto).map((item, index) =>
+      buildItem(item, index, folio, entregaTransfers)
+    )
+  };
+};
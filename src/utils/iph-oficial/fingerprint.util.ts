@@ -0,0 +1,61 @@
+/**
+ * Construcción de la "huella" de un IPH para la detección de duplicados
+ * (ver helper/duplicates/duplicate-detection.helper)
+ *
+ * @module IphOficialFingerprint
+ * @version 1.0.0
+ */
+
+import type { IphFingerprint } from '../../helper/duplicates/duplicate-detection.helper';
+import type {
+  IAllIph,
+  IConocimientoHecho,
+  IDetencion,
+  ILugarIntervencion,
+  ResponseIphData
+} from '../../interfaces/iph/iph.interface';
+import { firstIphItem, parseIphCoordinates, toIphList } from './normalize.util';
+
+const parseDates = (...values: Array<string | undefined | null>): number[] =>
+  values
+    .map(value => (value ? Date.parse(value) : NaN))
+    .filter(time => !Number.isNaN(time));
+
+/**
+ * Huella a partir del IPH completo (`getIphById`)
+ */
+export const buildFingerprintFromIph = (data: ResponseIphData, fallbackId = ''): IphFingerprint => {
+  const iph = firstIphItem(data.iph);
+  const lugar = firstIphItem<ILugarIntervencion>(data.lugarIntervencion);
+  const conocimiento = firstIphItem<IConocimientoHecho>(data.conocimientoHecho);
+  const coords = lugar?.coordenadas ?? iph?.coordenadas;
+
+  return {
+    id: iph?.id || fallbackId,
+    referencia: iph?.nReferencia || iph?.id || fallbackId,
+    tipo: iph?.tipoIph?.nombre,
+    coordenadas: parseIphCoordinates(coords?.latitud, coords?.longitud) ?? undefined,
+    fechas: parseDates(iph?.fechaCreacion, conocimiento?.fConocimiento),
+    detenidos: toIphList<IDetencion>(data.detencion)
+      .map(detenido => [detenido.nombreDetenido, detenido.primerApellidoDetenido, detenido.segundoApellidoDetenido]
+        .filter(Boolean)
+        .join(' '))
+      .filter(Boolean),
+    narrativa: firstIphItem(data.narrativaHecho)?.contenido ?? iph?.hechos ?? ''
+  };
+};
+
+/**
+ * Huella a partir de un registro del listado paginado (sin detenidos; la
+ * narrativa es el campo `hechos`). Sirve para preseleccionar candidatos
+ * antes de descargar el IPH completo.
+ */
+export const buildFingerprintFromListItem = (item: IAllIph): IphFingerprint => ({
+  id: item.id,
+  referencia: item.n_referencia || item.id,
+  tipo: item.tipo?.nombre,
+  coordenadas: parseIphCoordinates(item.latitud, item.longitud) ?? undefined,
+  fechas: parseDates(item.fecha_creacion),
+  detenidos: [],
+  narrativa: item.hechos ?? ''
+});
@@ -20,3 +20,29 @@ export {
   extractBasicInfo,
   getSectionStats
 } from './transformation.util';
+
+// Comparación
+export {
+  MIN_COMPARE_IPH,
+  MAX_COMPARE_IPH,
+  COMPARE_COLORS,
+  formatCompareValue,
+  parseCompareIds,
+  buildIphCompareLink,
+  getCompareReferencia,
+  getCompareNarrativa,
+  buildCompareSections,
+  getCompareLocation
+} from './comparison.util';
+
+// Normalización
+export { toIphList, firstIphItem, parseIphCoordinates } from './normalize.util';
+
+// Detección de duplicados
+export { buildFingerprintFromIph, buildFingerprintFromListItem } from './fingerprint.util';
+
+// Revisión de la narrativa
+export { buildNarrativeCheckInput } from './narrative-check.util';
+
+// Cadena de custodia
+export { buildCustodySheetSet } from './custody.util';
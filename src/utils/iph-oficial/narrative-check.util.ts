@@ -0,0 +1,66 @@
+/**
+ * Datos de entrada del revisor de narrativa a partir del IPH completo
+ * (ver helper/narrative/narrative-check.helper)
+ *
+ * @module IphOficialNarrativeCheck
+ * @version 1.0.0
+ */
+
+import type { NarrativeCheckInput } from '../../helper/narrative/narrative-check.helper';
+import type {
+  IConocimientoHecho,
+  IDetencion,
+  ILugarIntervencion,
+  IUsoFuerza,
+  ResponseIphData
+} from '../../interfaces/iph/iph.interface';
+import { firstIphItem, toIphList } from './normalize.util';
+
+/**
+ * Conteos del Anexo B ("0", "2", "") a booleano; undefined si no se capturó
+ */
+const anyCount = (...values: Array<string | undefined>): boolean | undefined => {
+  const counts = values
+    .map(value => (value === undefined || value.trim() === '' ? NaN : Number(value)))
+    .filter(count => !Number.isNaN(count));
+  return counts.length > 0 ? counts.some(count => count > 0) : undefined;
+};
+
+/**
+ * Arma la entrada del revisor de narrativa con los datos estructurados del IPH
+ */
+export const buildNarrativeCheckInput = (data: ResponseIphData): NarrativeCheckInput => {
+  const iph = firstIphItem(data.iph);
+  const lugar = firstIphItem<ILugarIntervencion>(data.lugarIntervencion);
+  const conocimiento = firstIphItem<IConocimientoHecho>(data.conocimientoHecho);
+  const usoFuerza = firstIphItem<IUsoFuerza>(data.usoFuerza);
+
+  const fechas = [
+    { label: 'Conocimiento del hecho', value: conocimiento?.fConocimiento },
+    { label: 'Arribo al lugar', value: conocimiento?.fArribo }
+  ].filter((fecha): fecha is { label: string; value: string } => Boolean(fecha.value));
+
+  return {
+    narrativa: firstIphItem(data.narrativaHecho)?.contenido || iph?.hechos || '',
+    fechas,
+    lugar: {
+      calle: lugar?.calleTramo,
+      colonia: lugar?.localizacion?.colonia
+    },
+    detenidos: toIphList<IDetencion>(data.detencion)
+      .map(detenido => [detenido.nombreDetenido, detenido.primerApellidoDetenido, detenido.segundoApellidoDetenido]
+        .filter(Boolean)
+        .join(' '))
+      .filter(Boolean),
+    usoFuerza: usoFuerza
+      ? {
+          reduccionMovimiento: usoFuerza.reduccionMovimiento,
+          armaNoLetal: usoFuerza.usoArmaNoLetal,
+          armaLetal: usoFuerza.usoArmaLetal,
+          asistenciaMedica: usoFuerza.asistenciaMedica,
+          lesionados: anyCount(usoFuerza.lesionadosAutoridad, usoFuerza.lesionadosPersonas),
+          fallecidos: anyCount(usoFuerza.fallecidosAutoridad, usoFuerza.fallecidosPersonas)
+        }
+      : undefined
+  };
+};
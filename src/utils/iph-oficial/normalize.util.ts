@@ -0,0 +1,35 @@
+/**
+ * Normalización de los campos de `ResponseIphData` que el backend envía como
+ * objeto, arreglo o `[]` según el IPH
+ *
+ * @module IphOficialNormalize
+ * @version 1.0.0
+ */
+
+/**
+ * Devuelve siempre un arreglo (vacío si no hay datos)
+ */
+export const toIphList = <T>(value: T | T[] | null | undefined): T[] => {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+/**
+ * Primer elemento del campo (o undefined si no hay datos)
+ */
+export const firstIphItem = <T>(value: T | T[] | null | undefined): T | undefined => toIphList(value)[0];
+
+/**
+ * Convierte las coordenadas (strings del backend) a números; null si son inválidas
+ */
+export const parseIphCoordinates = (
+  latitud: string | undefined | null,
+  longitud: string | undefined | null
+): { lat: number; lng: number } | null => {
+  const lat = parseFloat(latitud ?? '');
+  const lng = parseFloat(longitud ?? '');
+  if (Number.isNaN(lat) || Number.isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { lat, lng };
+};